@@ -12,7 +12,18 @@ import { ContactLinksModule } from './modules/contact-links/contact-links.module
 import { PageContentModule } from './modules/page-content/page-content.module';
 import { BlogModule } from './modules/blog/blog.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { OrdersModule } from './modules/orders/orders.module';
+import { PaymentsModule } from './modules/payments/payments.module';
+import { DashboardModule } from './modules/dashboard/dashboard.module';
+import { UsersModule } from './modules/users/users.module';
+import { AuditLogModule } from './modules/audit-log/audit-log.module';
+import { PublicationSchedulerModule } from './modules/publication-scheduler/publication-scheduler.module';
+import { InquiriesModule } from './modules/inquiries/inquiries.module';
+import { CommissionsModule } from './modules/commissions/commissions.module';
+import { NewsletterModule } from './modules/newsletter/newsletter.module';
+import { StockAlertsModule } from './modules/stock-alerts/stock-alerts.module';
 import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
+import { RolesGuard } from './modules/auth/guards/roles.guard';
 
 @Module({
   imports: [
@@ -42,6 +53,16 @@ import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
     PageContentModule,
     BlogModule,
     AuthModule,
+    OrdersModule,
+    PaymentsModule,
+    DashboardModule,
+    UsersModule,
+    AuditLogModule,
+    PublicationSchedulerModule,
+    InquiriesModule,
+    CommissionsModule,
+    NewsletterModule,
+    StockAlertsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -54,6 +75,13 @@ import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
       useFactory: (reflector) => new JwtAuthGuard(reflector),
       inject: [Reflector],
     },
+    // Then restrict routes marked with @Roles() to the given roles
+    // Registered after JwtAuthGuard so request.user is already set
+    {
+      provide: APP_GUARD,
+      useFactory: (reflector) => new RolesGuard(reflector),
+      inject: [Reflector],
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,15 @@
+/**
+ * Formats generated for responsive image derivatives
+ */
+export type ImageVariantFormat = 'avif' | 'webp';
+
+/**
+ * A resized, re-encoded copy of an uploaded image
+ * Stored as JSON next to the original image so clients can build srcset;
+ * `url` holds a storage key in the database and a public URL in responses
+ */
+export interface ImageVariant {
+  url: string;
+  width: number;
+  format: ImageVariantFormat;
+}
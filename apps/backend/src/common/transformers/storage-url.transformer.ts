@@ -0,0 +1,30 @@
+import type { ValueTransformer } from 'typeorm';
+import type { ImageVariant } from '../interfaces/image-variant.interface';
+import { toPublicUrl, toStorageKey } from '../utils/storage-url.util';
+
+/**
+ * Stores upload references as storage keys and exposes them as public URLs
+ *
+ * Reading a row yields an absolute URL for API consumers; saving it back
+ * strips the base URL again, so loaded entities can be saved unchanged.
+ */
+export const storageUrlTransformer: ValueTransformer = {
+  to: (value: string | null) => toStorageKey(value),
+  from: (value: string | null) => toPublicUrl(value),
+};
+
+/**
+ * Same as storageUrlTransformer for each derivative of a jsonb variants column
+ */
+export const imageVariantsTransformer: ValueTransformer = {
+  to: (variants: ImageVariant[] | null) =>
+    variants?.map((variant) => ({
+      ...variant,
+      url: toStorageKey(variant.url),
+    })) ?? variants,
+  from: (variants: ImageVariant[] | null) =>
+    variants?.map((variant) => ({
+      ...variant,
+      url: toPublicUrl(variant.url),
+    })) ?? variants,
+};
@@ -0,0 +1,40 @@
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+
+/**
+ * Storefront base URL (FRONTEND_URL), without trailing slash, to build the
+ * links sent by email or published in feeds
+ */
+export function getFrontendUrl(configService: ConfigService): string {
+  return configService
+    .get<string>('FRONTEND_URL', 'http://localhost:3002')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * Backoffice base URL (BACKOFFICE_URL), without trailing slash, to build the
+ * links of the emails sent to the atelier and its staff
+ */
+export function getBackofficeUrl(configService: ConfigService): string {
+  return configService
+    .get<string>('BACKOFFICE_URL', 'http://localhost:3001')
+    .replace(/\/+$/, '');
+}
+
+/**
+ * JWT signing key of one kind of link token, derived from JWT_SECRET
+ * Each purpose gets its own key, so a token issued for one purpose (a draft
+ * preview, a commission status page...) is never accepted as another one,
+ * nor as an access token
+ */
+export function deriveTokenSecret(
+  configService: ConfigService,
+  purpose: string,
+): string {
+  return createHmac(
+    'sha256',
+    configService.get<string>('JWT_SECRET', 'dev-secret-change-in-production'),
+  )
+    .update(purpose)
+    .digest('hex');
+}
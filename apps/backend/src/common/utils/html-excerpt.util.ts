@@ -0,0 +1,19 @@
+import * as sanitizeHtml from 'sanitize-html';
+
+/**
+ * Length of the plain text summary of an article without subtitle
+ */
+export const SUMMARY_LENGTH = 280;
+
+/**
+ * Plain text summary of rich text content, cut at SUMMARY_LENGTH characters
+ * Tags are dropped and whitespace collapsed, as feeds and emails show text only
+ */
+export function excerptHtml(html: string): string {
+  const text = sanitizeHtml(html, { allowedTags: [], allowedAttributes: {} })
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > SUMMARY_LENGTH
+    ? `${text.slice(0, SUMMARY_LENGTH).trimEnd()}…`
+    : text;
+}
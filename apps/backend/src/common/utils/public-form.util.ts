@@ -0,0 +1,75 @@
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { FindOperator, MoreThan } from 'typeorm';
+
+/**
+ * Window of the rate limits of the storefront forms
+ */
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Rate limit of one storefront submission
+ */
+export interface RateLimitOptions {
+  /**
+   * Submissions accepted per window
+   */
+  max: number;
+
+  /**
+   * Count the sender's submissions made since the start of the window
+   */
+  count: (since: FindOperator<Date>) => Promise<number>;
+
+  /**
+   * Message of the 429 response
+   */
+  message: string;
+
+  logger: Logger;
+
+  /**
+   * What is throttled, for the log, e.g. "inquiry from jane@example.com"
+   */
+  description: string;
+}
+
+/**
+ * Whether a storefront form came back with its honeypot field filled in
+ * Such submissions are logged and should be answered like a success, so
+ * bots learn nothing about the trap
+ */
+export function isCaughtByHoneypot(
+  honeypot: string | undefined,
+  logger: Logger,
+  description: string,
+  ipAddress?: string,
+): boolean {
+  if (!honeypot) {
+    return false;
+  }
+
+  logger.warn(
+    `Dropped ${description} caught by the honeypot from ${ipAddress ?? 'unknown IP'}`,
+  );
+  return true;
+}
+
+/**
+ * Reject a storefront submission once its sender reached the limit of the
+ * window; counting the stored rows keeps the limit across restarts
+ * @throws HttpException 429
+ */
+export async function assertWithinRateLimit(
+  options: RateLimitOptions,
+): Promise<void> {
+  const count = await options.count(
+    MoreThan(new Date(Date.now() - RATE_LIMIT_WINDOW_MS)),
+  );
+
+  if (count < options.max) {
+    return;
+  }
+
+  options.logger.warn(`Throttled ${options.description}`);
+  throw new HttpException(options.message, HttpStatus.TOO_MANY_REQUESTS);
+}
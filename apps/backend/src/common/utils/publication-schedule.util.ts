@@ -0,0 +1,32 @@
+/**
+ * Content that can be published now or at a later date
+ */
+export interface SchedulableContent {
+  isPublished: boolean;
+  scheduledAt: Date | null;
+}
+
+/**
+ * Apply a publication request to an entry
+ * Publishing with a future date schedules the entry: it stays unpublished
+ * until the publication scheduler flips it at that date. Publishing without
+ * a date (or with a past one), or unpublishing, applies right away and
+ * cancels any pending schedule.
+ */
+export function applyPublicationSchedule(
+  entry: SchedulableContent,
+  isPublished: boolean,
+  publishAt: Date | string | null | undefined,
+  now: Date = new Date(),
+): void {
+  const date = publishAt ? new Date(publishAt) : null;
+
+  if (isPublished && date && date.getTime() > now.getTime()) {
+    entry.isPublished = false;
+    entry.scheduledAt = date;
+    return;
+  }
+
+  entry.isPublished = isPublished;
+  entry.scheduledAt = null;
+}
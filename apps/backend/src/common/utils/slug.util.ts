@@ -0,0 +1,12 @@
+/**
+ * Generate a URL-friendly slug from arbitrary text
+ * Strips accents, lowercases and collapses non-alphanumerics into single dashes
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
@@ -0,0 +1,85 @@
+/**
+ * Upload subdirectories, one per kind of content
+ */
+export const UPLOAD_SUBDIRS = [
+  'products',
+  'blog',
+  'about-sections',
+  'page-content',
+  'commissions',
+] as const;
+
+export type UploadSubdir = (typeof UPLOAD_SUBDIRS)[number];
+
+/**
+ * Database columns referencing uploads, each with its jsonb variants column
+ */
+export const UPLOAD_REFERENCE_COLUMNS = [
+  { table: 'product_images', column: 'url', variantsColumn: 'variants' },
+  { table: 'blog_article_images', column: 'url', variantsColumn: 'variants' },
+  {
+    table: 'about_sections',
+    column: 'image',
+    variantsColumn: 'image_variants',
+  },
+  { table: 'page_content', column: 'image', variantsColumn: 'image_variants' },
+  { table: 'commission_images', column: 'url', variantsColumn: 'variants' },
+] as const;
+
+export type UploadReferenceColumn = (typeof UPLOAD_REFERENCE_COLUMNS)[number];
+
+/**
+ * Public base URL used until the upload module applies the configured one
+ * (matches the local driver served by the API in development)
+ */
+export const DEFAULT_UPLOADS_PUBLIC_BASE_URL = 'http://localhost:4000/uploads';
+
+const ABSOLUTE_URL = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/**
+ * URLs stored before keys were introduced: `<scheme>://<request host>/uploads/<key>`
+ */
+const LEGACY_UPLOAD_URL = new RegExp(
+  `^https?://[^/]+/uploads/((?:${UPLOAD_SUBDIRS.join('|')})/[^?#]+)$`,
+);
+
+let publicBaseUrl = DEFAULT_UPLOADS_PUBLIC_BASE_URL;
+
+/**
+ * Set the base URL public file URLs are built from (UPLOADS_PUBLIC_BASE_URL)
+ */
+export function setUploadsPublicBaseUrl(url: string): void {
+  publicBaseUrl = url.replace(/\/+$/, '');
+}
+
+/**
+ * Whether a value is a storage key rather than an absolute or root-relative
+ * URL (images hosted elsewhere)
+ */
+export function isStorageKey(value: string | null): boolean {
+  return !!value && !ABSOLUTE_URL.test(value) && !value.startsWith('/');
+}
+
+/**
+ * Public URL of a storage key
+ * Values that are not storage keys are returned unchanged
+ */
+export function toPublicUrl(value: string | null): string | null {
+  return isStorageKey(value) ? `${publicBaseUrl}/${value}` : value;
+}
+
+/**
+ * Storage key of a value that may be a key, a public URL built from the
+ * current base URL or a legacy absolute upload URL
+ * Anything else (external images) is returned unchanged
+ */
+export function toStorageKey(value: string | null): string | null {
+  if (!value) {
+    return value;
+  }
+  if (value.startsWith(`${publicBaseUrl}/`)) {
+    return value.slice(publicBaseUrl.length + 1);
+  }
+  const legacy = LEGACY_UPLOAD_URL.exec(value);
+  return legacy ? legacy[1] : value;
+}
@@ -0,0 +1,89 @@
+/**
+ * One run of a line diff
+ */
+export interface DiffChunk {
+  type: 'equal' | 'added' | 'removed';
+  lines: string[];
+}
+
+/**
+ * Above this many line pairs, the diff gives up on finding common lines
+ * and reports a full replacement (the LCS table is quadratic)
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split rich text HTML into one line per block (paragraph, heading, list
+ * item...), so a diff reads as paragraphs added, removed or rewritten
+ */
+export function splitHtmlBlocks(html: string | null | undefined): string[] {
+  if (!html) {
+    return [];
+  }
+
+  return html
+    .replace(
+      /(<\/(?:p|h[1-6]|li|ul|ol|blockquote)>|<br\s*\/?>|<hr\s*\/?>)/gi,
+      '$1\n',
+    )
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Line diff of two texts, based on their longest common subsequence
+ * Consecutive lines of the same type are grouped in one chunk
+ */
+export function diffLines(before: string[], after: string[]): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  const push = (type: DiffChunk['type'], line: string) => {
+    const last = chunks[chunks.length - 1];
+    if (last?.type === type) {
+      last.lines.push(line);
+    } else {
+      chunks.push({ type, lines: [line] });
+    }
+  };
+
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    before.forEach((line) => push('removed', line));
+    after.forEach((line) => push('added', line));
+    return chunks;
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push('equal', before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < before.length) {
+    push('removed', before[i++]);
+  }
+  while (j < after.length) {
+    push('added', after[j++]);
+  }
+
+  return chunks;
+}
@@ -11,6 +11,8 @@ export const validationSchema = Joi.object({
     .valid('development', 'production', 'test')
     .default('development'),
   PORT: Joi.number().default(4000),
+  // Reverse proxy hops (or Express trust list) allowed to set the client IP
+  TRUST_PROXY: Joi.string().optional(),
 
   // Database - Support both naming conventions
   POSTGRES_HOST: Joi.string().default('postgres'),
@@ -38,4 +40,142 @@ export const validationSchema = Joi.object({
 
   // TypeORM options
   TYPEORM_SYNC: Joi.string().valid('true', 'false').default('false'),
+
+  // Auth - refresh tokens (and their session) expire after this many idle days
+  REFRESH_TOKEN_TTL_DAYS: Joi.number().integer().min(1).default(30),
+  // Auth - failed logins per username / per IP before a lockout, and its length
+  LOGIN_MAX_ATTEMPTS: Joi.number().integer().min(1).default(10),
+  LOGIN_MAX_ATTEMPTS_PER_IP: Joi.number().integer().min(1).default(50),
+  LOGIN_LOCKOUT_MINUTES: Joi.number().integer().min(1).default(15),
+  // Auth - account issuer shown by authenticator apps
+  TWO_FACTOR_ISSUER: Joi.string().default('Atelier Kaisla'),
+  // Auth - minutes a password reset link stays valid
+  PASSWORD_RESET_TTL_MINUTES: Joi.number().integer().min(5).default(60),
+
+  // Backoffice public URL, for CORS and the links sent by email
+  BACKOFFICE_URL: Joi.string()
+    .empty('')
+    .uri({ scheme: ['http', 'https'] })
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.required(),
+      otherwise: Joi.optional().default('http://localhost:3001'),
+    }),
+  // Storefront public URL, for CORS and preview links
+  FRONTEND_URL: Joi.string()
+    .empty('')
+    .uri({ scheme: ['http', 'https'] })
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.required(),
+      otherwise: Joi.optional().default('http://localhost:3002'),
+    }),
+
+  // Mail - smtp in production, file or console (the default) in development
+  MAIL_TRANSPORT: Joi.string()
+    .valid('smtp', 'file', 'console')
+    .default('console'),
+  MAIL_FROM: Joi.string().default(
+    'Atelier Kaisla <no-reply@atelier-kaisla.com>',
+  ),
+  // Directory of the .eml files written by the file transport
+  MAIL_OUTPUT_DIR: Joi.string().default('./mail'),
+  SMTP_HOST: Joi.string().when('MAIL_TRANSPORT', {
+    is: 'smtp',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
+  SMTP_PORT: Joi.number().default(587),
+  // true for implicit TLS (port 465), false for STARTTLS
+  SMTP_SECURE: Joi.boolean().default(false),
+  SMTP_USER: Joi.string().optional().allow(''),
+  SMTP_PASSWORD: Joi.string().optional().allow(''),
+
+  // Content - seconds between two runs of the publication scheduler, 0 disables it
+  PUBLICATION_SCHEDULER_INTERVAL_SECONDS: Joi.number()
+    .integer()
+    .min(0)
+    .default(60),
+  // Content - minutes a preview link of unpublished content stays valid
+  PREVIEW_TOKEN_TTL_MINUTES: Joi.number()
+    .integer()
+    .min(5)
+    .max(7 * 24 * 60)
+    .default(60),
+
+  // Orders - minutes a pending order holds its stock before being released
+  ORDER_RESERVATION_MINUTES: Joi.number().integer().min(1).default(30),
+
+  // Payments - the fake card provider is for development and tests only
+  PAYMENT_PROVIDER: Joi.string()
+    .valid('manual', 'fake')
+    .default('manual')
+    .when('NODE_ENV', { is: 'production', then: Joi.invalid('fake') }),
+  PAYMENTS_WEBHOOK_SECRET: Joi.string()
+    .min(16)
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.required(),
+      otherwise: Joi.optional().default('dev-payments-webhook-secret'),
+    }),
+  // Bank details shown to customers paying by transfer
+  PAYMENT_BANK_ACCOUNT_HOLDER: Joi.string().when('NODE_ENV', {
+    is: 'production',
+    then: Joi.required(),
+    otherwise: Joi.optional().default('Atelier Kaisla'),
+  }),
+  PAYMENT_BANK_IBAN: Joi.string().when('NODE_ENV', {
+    is: 'production',
+    then: Joi.required(),
+    otherwise: Joi.optional().default('FR76 3000 6000 0112 3456 7890 189'),
+  }),
+  PAYMENT_BANK_BIC: Joi.string().when('NODE_ENV', {
+    is: 'production',
+    then: Joi.required(),
+    otherwise: Joi.optional().default('AGRIFRPP'),
+  }),
+  // Days an order paid by transfer keeps its stock while the transfer arrives
+  PAYMENT_BANK_TRANSFER_DAYS: Joi.number().integer().min(1).default(7),
+
+  // Inquiries - contact form and commission notifications (comma-separated,
+  // defaults to the active admins) and messages or commission requests
+  // accepted per hour from one IP or email address
+  INQUIRIES_NOTIFY_EMAIL: Joi.string().optional().allow(''),
+  INQUIRIES_MAX_PER_HOUR: Joi.number().integer().min(1).default(5),
+
+  // Newsletter - sign-ups accepted per hour from one IP address
+  NEWSLETTER_MAX_PER_HOUR: Joi.number().integer().min(1).default(5),
+
+  // Stock alerts - "notify me" requests accepted per hour from one IP address
+  STOCK_ALERTS_MAX_PER_HOUR: Joi.number().integer().min(1).default(10),
+
+  // Uploads - where files live and the public URL they are served from
+  STORAGE_DRIVER: Joi.string().valid('local', 's3').default('local'),
+  UPLOADS_DIR: Joi.string().default('./uploads'),
+  UPLOADS_PUBLIC_BASE_URL: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .when('NODE_ENV', {
+      is: 'production',
+      then: Joi.required(),
+      otherwise: Joi.optional().default('http://localhost:4000/uploads'),
+    }),
+  S3_BUCKET: Joi.string().when('STORAGE_DRIVER', {
+    is: 's3',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
+  S3_REGION: Joi.string().default('us-east-1'),
+  // Custom endpoint for S3-compatible providers (MinIO, Scaleway, R2...)
+  S3_ENDPOINT: Joi.string().uri().optional().allow(''),
+  S3_FORCE_PATH_STYLE: Joi.boolean().default(false),
+  S3_ACCESS_KEY_ID: Joi.string().when('STORAGE_DRIVER', {
+    is: 's3',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
+  S3_SECRET_ACCESS_KEY: Joi.string().when('STORAGE_DRIVER', {
+    is: 's3',
+    then: Joi.required(),
+    otherwise: Joi.optional().allow(''),
+  }),
 });
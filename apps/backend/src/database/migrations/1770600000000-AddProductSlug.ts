@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProductSlug1770600000000 implements MigrationInterface {
+  name = 'AddProductSlug1770600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Add slug column (nullable until existing rows are backfilled) ===
+    await queryRunner.query(
+      `ALTER TABLE "products" ADD "slug" character varying(255)`,
+    );
+
+    // === Backfill slugs from product names ===
+    // Accents are not stripped here (no unaccent extension); duplicates get
+    // a short id suffix so the unique constraint can be applied afterwards
+    await queryRunner.query(
+      `UPDATE "products" p
+       SET "slug" = sub.base_slug
+       FROM (
+         SELECT "id",
+           TRIM(BOTH '-' FROM regexp_replace(lower("name"), '[^a-z0-9]+', '-', 'g'))
+             AS base_slug
+         FROM "products"
+       ) sub
+       WHERE p."id" = sub."id"`,
+    );
+    await queryRunner.query(
+      `UPDATE "products" p
+       SET "slug" = CONCAT(NULLIF(p."slug", ''), '-', LEFT(p."id"::text, 8))
+       WHERE p."slug" = ''
+          OR p."id" IN (
+            SELECT "id" FROM (
+              SELECT "id",
+                ROW_NUMBER() OVER (PARTITION BY "slug" ORDER BY "created_at") AS rn
+              FROM "products"
+            ) ranked
+            WHERE ranked.rn > 1
+          )`,
+    );
+    await queryRunner.query(
+      `UPDATE "products" SET "slug" = TRIM(BOTH '-' FROM "slug")`,
+    );
+
+    // === Enforce NOT NULL + uniqueness ===
+    await queryRunner.query(
+      `ALTER TABLE "products" ALTER COLUMN "slug" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "products" ADD CONSTRAINT "UQ_products_slug" UNIQUE ("slug")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "products" DROP CONSTRAINT "UQ_products_slug"`,
+    );
+    await queryRunner.query(`ALTER TABLE "products" DROP COLUMN "slug"`);
+  }
+}
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOrdersTables1770700000000 implements MigrationInterface {
+  name = 'AddOrdersTables1770700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create orders status enum ===
+    await queryRunner.query(
+      `CREATE TYPE "public"."orders_status_enum" AS ENUM('pending', 'paid', 'shipped', 'cancelled')`,
+    );
+
+    // === Create orders table ===
+    await queryRunner.query(
+      `CREATE TABLE "orders" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "order_number" character varying(32) NOT NULL,
+        "status" "public"."orders_status_enum" NOT NULL DEFAULT 'pending',
+        "customer_email" character varying(255) NOT NULL,
+        "customer_first_name" character varying(100) NOT NULL,
+        "customer_last_name" character varying(100) NOT NULL,
+        "customer_phone" character varying(50),
+        "shipping_address" json NOT NULL,
+        "notes" text,
+        "total" numeric(10,2) NOT NULL,
+        "currency" character varying(3) NOT NULL DEFAULT 'EUR',
+        "reserved_until" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_orders_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_orders_order_number" UNIQUE ("order_number")
+      )`,
+    );
+
+    // === Create order_items table ===
+    await queryRunner.query(
+      `CREATE TABLE "order_items" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "order_id" uuid NOT NULL,
+        "product_id" uuid,
+        "product_name" character varying(255) NOT NULL,
+        "product_slug" character varying(255) NOT NULL,
+        "unit_price" numeric(10,2) NOT NULL,
+        "quantity" integer NOT NULL,
+        "line_total" numeric(10,2) NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_order_items_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_order_items_order" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+        CONSTRAINT "FK_order_items_product" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_orders_order_number" ON "orders" ("order_number")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_orders_status" ON "orders" ("status")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_orders_customer_email" ON "orders" ("customer_email")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_orders_reserved_until" ON "orders" ("reserved_until")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_order_items_order_id" ON "order_items" ("order_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_order_items_product_id" ON "order_items" ("product_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop indexes
+    await queryRunner.query(`DROP INDEX "public"."IDX_order_items_product_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_order_items_order_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_orders_reserved_until"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_orders_customer_email"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_orders_status"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_orders_order_number"`);
+
+    // Drop tables in reverse order (respecting FK constraints)
+    await queryRunner.query(`DROP TABLE "order_items"`);
+    await queryRunner.query(`DROP TABLE "orders"`);
+    await queryRunner.query(`DROP TYPE "public"."orders_status_enum"`);
+  }
+}
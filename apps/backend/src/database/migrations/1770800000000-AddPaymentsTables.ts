@@ -0,0 +1,94 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPaymentsTables1770800000000 implements MigrationInterface {
+  name = 'AddPaymentsTables1770800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Extend orders status enum with payment outcomes ===
+    await queryRunner.query(
+      `ALTER TYPE "public"."orders_status_enum" ADD VALUE IF NOT EXISTS 'failed' AFTER 'paid'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."orders_status_enum" ADD VALUE IF NOT EXISTS 'refunded' AFTER 'shipped'`,
+    );
+
+    // === Create payments status enum ===
+    await queryRunner.query(
+      `CREATE TYPE "public"."payments_status_enum" AS ENUM('pending', 'succeeded', 'failed', 'refunded')`,
+    );
+
+    // === Create payments table ===
+    await queryRunner.query(
+      `CREATE TABLE "payments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "order_id" uuid NOT NULL,
+        "provider" character varying(32) NOT NULL,
+        "reference" character varying(100) NOT NULL,
+        "status" "public"."payments_status_enum" NOT NULL DEFAULT 'pending',
+        "amount" numeric(10,2) NOT NULL,
+        "currency" character varying(3) NOT NULL DEFAULT 'EUR',
+        "failure_reason" character varying(255),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_payments_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_payments_reference" UNIQUE ("reference"),
+        CONSTRAINT "FK_payments_order" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create payment_webhook_events table ===
+    await queryRunner.query(
+      `CREATE TABLE "payment_webhook_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "provider" character varying(32) NOT NULL,
+        "event_id" character varying(100) NOT NULL,
+        "type" character varying(64) NOT NULL,
+        "payment_id" uuid,
+        "received_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_payment_webhook_events_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_payment_webhook_events_provider_event_id" UNIQUE ("provider", "event_id"),
+        CONSTRAINT "FK_payment_webhook_events_payment" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_payments_order_id" ON "payments" ("order_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_payments_status" ON "payments" ("status")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop indexes
+    await queryRunner.query(`DROP INDEX "public"."IDX_payments_status"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_payments_order_id"`);
+
+    // Drop tables in reverse order (respecting FK constraints)
+    await queryRunner.query(`DROP TABLE "payment_webhook_events"`);
+    await queryRunner.query(`DROP TABLE "payments"`);
+    await queryRunner.query(`DROP TYPE "public"."payments_status_enum"`);
+
+    // Postgres cannot drop enum values: map them back and recreate the type
+    await queryRunner.query(
+      `UPDATE "orders" SET "status" = 'cancelled' WHERE "status" IN ('failed', 'refunded')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "orders" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."orders_status_enum" RENAME TO "orders_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."orders_status_enum" AS ENUM('pending', 'paid', 'shipped', 'cancelled')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "orders" ALTER COLUMN "status" TYPE "public"."orders_status_enum" USING "status"::text::"public"."orders_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "orders" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."orders_status_enum_old"`);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddImageVariants1770900000000 implements MigrationInterface {
+  name = 'AddImageVariants1770900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Add responsive derivative columns ===
+    await queryRunner.query(
+      `ALTER TABLE "product_images" ADD "variants" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blog_article_images" ADD "variants" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "about_sections" ADD "image_variants" jsonb`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "page_content" ADD "image_variants" jsonb`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "page_content" DROP COLUMN "image_variants"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "about_sections" DROP COLUMN "image_variants"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blog_article_images" DROP COLUMN "variants"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "product_images" DROP COLUMN "variants"`,
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserIsActive1771000000000 implements MigrationInterface {
+  name = 'AddUserIsActive1771000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Allow admins to disable accounts without deleting them ===
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "is_active" boolean NOT NULL DEFAULT true`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "is_active"`);
+  }
+}
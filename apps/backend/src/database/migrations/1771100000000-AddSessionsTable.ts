@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessionsTable1771100000000 implements MigrationInterface {
+  name = 'AddSessionsTable1771100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create sessions table (one row per login, hashed refresh token) ===
+    await queryRunner.query(
+      `CREATE TABLE "sessions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "token_hash" character varying(64) NOT NULL,
+        "user_agent" character varying(255),
+        "ip_address" character varying(45),
+        "expires_at" TIMESTAMP NOT NULL,
+        "last_used_at" TIMESTAMP NOT NULL,
+        "revoked_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_sessions_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_sessions_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_sessions_user_id" ON "sessions" ("user_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_sessions_user_id"`);
+    await queryRunner.query(`DROP TABLE "sessions"`);
+  }
+}
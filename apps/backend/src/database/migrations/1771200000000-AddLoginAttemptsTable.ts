@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLoginAttemptsTable1771200000000 implements MigrationInterface {
+  name = 'AddLoginAttemptsTable1771200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create login_attempts table (audit log of logins) ===
+    await queryRunner.query(
+      `CREATE TABLE "login_attempts" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "username" character varying(255) NOT NULL,
+        "user_id" uuid,
+        "success" boolean NOT NULL,
+        "failure_reason" character varying(50),
+        "ip_address" character varying(45),
+        "user_agent" character varying(255),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_login_attempts_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_login_attempts_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_login_attempts_username" ON "login_attempts" ("username")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_login_attempts_created_at" ON "login_attempts" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_login_attempts_created_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_login_attempts_username"`,
+    );
+    await queryRunner.query(`DROP TABLE "login_attempts"`);
+  }
+}
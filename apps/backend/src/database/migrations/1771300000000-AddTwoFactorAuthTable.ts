@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTwoFactorAuthTable1771300000000 implements MigrationInterface {
+  name = 'AddTwoFactorAuthTable1771300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create two_factor_auth table (TOTP secret and recovery codes) ===
+    await queryRunner.query(
+      `CREATE TABLE "two_factor_auth" (
+        "user_id" uuid NOT NULL,
+        "secret" character varying(64) NOT NULL,
+        "recovery_codes" jsonb NOT NULL DEFAULT '[]',
+        "last_used_step" bigint,
+        "enabled_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_two_factor_auth_user_id" PRIMARY KEY ("user_id"),
+        CONSTRAINT "FK_two_factor_auth_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "two_factor_auth"`);
+  }
+}
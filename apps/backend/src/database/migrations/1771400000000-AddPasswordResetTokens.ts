@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPasswordResetTokens1771400000000 implements MigrationInterface {
+  name = 'AddPasswordResetTokens1771400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Add users.email (where reset links are sent) ===
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "email" character varying(255)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD CONSTRAINT "UQ_users_email" UNIQUE ("email")`,
+    );
+
+    // === Backfill from usernames that are email addresses ===
+    await queryRunner.query(
+      `UPDATE "users" SET "email" = lower("username")
+       WHERE "username" ~* '^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$'
+         AND NOT EXISTS (
+           SELECT 1 FROM "users" "other"
+           WHERE "other"."id" <> "users"."id"
+             AND lower("other"."username") = lower("users"."username")
+         )`,
+    );
+
+    // === Create password_reset_tokens table (hashed single-use tokens) ===
+    await queryRunner.query(
+      `CREATE TABLE "password_reset_tokens" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "token_hash" character varying(64) NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "used_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_password_reset_tokens_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_password_reset_tokens_token_hash" UNIQUE ("token_hash"),
+        CONSTRAINT "FK_password_reset_tokens_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_password_reset_tokens_user_id" ON "password_reset_tokens" ("user_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_password_reset_tokens_user_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "password_reset_tokens"`);
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP CONSTRAINT "UQ_users_email"`,
+    );
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "email"`);
+  }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAuditLogsTable1771500000000 implements MigrationInterface {
+  name = 'AddAuditLogsTable1771500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create audit_logs table (content changes made in the backoffice) ===
+    await queryRunner.query(
+      `CREATE TABLE "audit_logs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid,
+        "username" character varying(100),
+        "entity_type" character varying(50) NOT NULL,
+        "entity_id" character varying(64) NOT NULL,
+        "action" character varying(10) NOT NULL,
+        "before" jsonb,
+        "after" jsonb,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_audit_logs_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_audit_logs_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_logs_user_id" ON "audit_logs" ("user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_logs_entity" ON "audit_logs" ("entity_type", "entity_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_audit_logs_created_at" ON "audit_logs" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_audit_logs_created_at"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_audit_logs_entity"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_audit_logs_user_id"`);
+    await queryRunner.query(`DROP TABLE "audit_logs"`);
+  }
+}
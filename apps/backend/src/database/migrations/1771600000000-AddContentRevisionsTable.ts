@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddContentRevisionsTable1771600000000 implements MigrationInterface {
+  name = 'AddContentRevisionsTable1771600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create content_revisions table (blog articles and page content) ===
+    await queryRunner.query(
+      `CREATE TABLE "content_revisions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "entity_type" character varying(50) NOT NULL,
+        "entity_id" uuid NOT NULL,
+        "title" character varying(255),
+        "subtitle" character varying(255),
+        "content" text,
+        "tags" jsonb,
+        "is_published" boolean NOT NULL,
+        "published_at" TIMESTAMP,
+        "restored_from_id" uuid,
+        "user_id" uuid,
+        "username" character varying(100),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_content_revisions_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_content_revisions_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_content_revisions_entity" ON "content_revisions" ("entity_type", "entity_id", "created_at")`,
+    );
+
+    // === Backfill: current state as the first revision ===
+    await queryRunner.query(
+      `INSERT INTO "content_revisions"
+        ("entity_type", "entity_id", "title", "subtitle", "content", "tags", "is_published", "published_at", "created_at")
+      SELECT 'blog-article', a."id", a."title", a."subtitle", a."content",
+        COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('id', t."id", 'name', t."name") ORDER BY t."name")
+          FROM "blog_articles_tags" at
+          JOIN "blog_tags" t ON t."id" = at."tag_id"
+          WHERE at."article_id" = a."id"),
+          '[]'::jsonb
+        ),
+        a."is_published", a."published_at", a."updated_at"
+      FROM "blog_articles" a`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "content_revisions"
+        ("entity_type", "entity_id", "title", "content", "is_published", "created_at")
+      SELECT 'page-content', p."id", p."title", p."content", p."is_published", p."updated_at"
+      FROM "page_content" p`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_content_revisions_entity"`,
+    );
+    await queryRunner.query(`DROP TABLE "content_revisions"`);
+  }
+}
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPublicationScheduling1771700000000 implements MigrationInterface {
+  name = 'AddPublicationScheduling1771700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Add scheduled_at to blog_articles, about_sections and page_content ===
+    await queryRunner.query(
+      `ALTER TABLE "blog_articles" ADD "scheduled_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "about_sections" ADD "scheduled_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "page_content" ADD "scheduled_at" TIMESTAMP`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_blog_articles_scheduled_at" ON "blog_articles" ("scheduled_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_about_sections_scheduled_at" ON "about_sections" ("scheduled_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_page_content_scheduled_at" ON "page_content" ("scheduled_at")`,
+    );
+
+    // === Published articles dated in the future become scheduled ===
+    await queryRunner.query(
+      `UPDATE "blog_articles"
+      SET "is_published" = false, "scheduled_at" = "published_at"
+      WHERE "is_published" = true AND "published_at" > now()`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Scheduled articles go back to published with their future date
+    await queryRunner.query(
+      `UPDATE "blog_articles" SET "is_published" = true
+      WHERE "scheduled_at" IS NOT NULL`,
+    );
+
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_page_content_scheduled_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_about_sections_scheduled_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_blog_articles_scheduled_at"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "page_content" DROP COLUMN "scheduled_at"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "about_sections" DROP COLUMN "scheduled_at"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blog_articles" DROP COLUMN "scheduled_at"`,
+    );
+  }
+}
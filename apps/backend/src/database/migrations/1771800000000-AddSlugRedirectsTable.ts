@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSlugRedirectsTable1771800000000 implements MigrationInterface {
+  name = 'AddSlugRedirectsTable1771800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create slug_redirects table (former blog article slugs) ===
+    await queryRunner.query(
+      `CREATE TABLE "slug_redirects" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "old_slug" character varying(255) NOT NULL,
+        "article_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_slug_redirects_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_slug_redirects_old_slug" UNIQUE ("old_slug"),
+        CONSTRAINT "FK_slug_redirects_article" FOREIGN KEY ("article_id") REFERENCES "blog_articles"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_slug_redirects_article_id" ON "slug_redirects" ("article_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_slug_redirects_article_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "slug_redirects"`);
+  }
+}
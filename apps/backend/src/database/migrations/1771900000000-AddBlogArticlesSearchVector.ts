@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlogArticlesSearchVector1771900000000 implements MigrationInterface {
+  name = 'AddBlogArticlesSearchVector1771900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Add full-text search column (kept up to date by PostgreSQL) ===
+    await queryRunner.query(
+      `ALTER TABLE "blog_articles" ADD "search_vector" tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('french', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('french', coalesce("subtitle", '')), 'B') ||
+        setweight(to_tsvector('french', regexp_replace("content", '<[^>]*>', ' ', 'g')), 'C')
+      ) STORED`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_blog_articles_search_vector" ON "blog_articles" USING GIN ("search_vector")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_blog_articles_search_vector"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blog_articles" DROP COLUMN "search_vector"`,
+    );
+  }
+}
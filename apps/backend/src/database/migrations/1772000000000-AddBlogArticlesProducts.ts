@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlogArticlesProducts1772000000000 implements MigrationInterface {
+  name = 'AddBlogArticlesProducts1772000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create blog_articles_products join table ===
+    await queryRunner.query(
+      `CREATE TABLE "blog_articles_products" (
+        "article_id" uuid NOT NULL,
+        "product_id" uuid NOT NULL,
+        CONSTRAINT "PK_blog_articles_products" PRIMARY KEY ("article_id", "product_id"),
+        CONSTRAINT "FK_blog_articles_products_article" FOREIGN KEY ("article_id") REFERENCES "blog_articles"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+        CONSTRAINT "FK_blog_articles_products_product" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_blog_articles_products_article_id" ON "blog_articles_products" ("article_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_blog_articles_products_product_id" ON "blog_articles_products" ("product_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_blog_articles_products_product_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_blog_articles_products_article_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "blog_articles_products"`);
+  }
+}
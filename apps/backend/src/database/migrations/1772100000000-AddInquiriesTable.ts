@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddInquiriesTable1772100000000 implements MigrationInterface {
+  name = 'AddInquiriesTable1772100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create inquiries enums ===
+    await queryRunner.query(
+      `CREATE TYPE "public"."inquiries_type_enum" AS ENUM('contact', 'commission')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."inquiries_status_enum" AS ENUM('new', 'read', 'archived')`,
+    );
+
+    // === Create inquiries table (storefront contact form) ===
+    await queryRunner.query(
+      `CREATE TABLE "inquiries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "type" "public"."inquiries_type_enum" NOT NULL DEFAULT 'contact',
+        "name" character varying(100) NOT NULL,
+        "email" character varying(255) NOT NULL,
+        "phone" character varying(50),
+        "message" text NOT NULL,
+        "product_id" uuid,
+        "status" "public"."inquiries_status_enum" NOT NULL DEFAULT 'new',
+        "replied_at" TIMESTAMP,
+        "replied_by" character varying(100),
+        "reply_note" text,
+        "ip_address" character varying(45),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_inquiries_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_inquiries_product" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inquiries_email" ON "inquiries" ("email")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inquiries_product_id" ON "inquiries" ("product_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inquiries_status" ON "inquiries" ("status")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inquiries_ip_address" ON "inquiries" ("ip_address")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_inquiries_created_at" ON "inquiries" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_inquiries_created_at"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_inquiries_ip_address"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_inquiries_status"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_inquiries_product_id"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_inquiries_email"`);
+    await queryRunner.query(`DROP TABLE "inquiries"`);
+    await queryRunner.query(`DROP TYPE "public"."inquiries_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."inquiries_type_enum"`);
+  }
+}
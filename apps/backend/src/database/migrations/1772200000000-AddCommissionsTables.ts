@@ -0,0 +1,94 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCommissionsTables1772200000000 implements MigrationInterface {
+  name = 'AddCommissionsTables1772200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create commissions enums ===
+    await queryRunner.query(
+      `CREATE TYPE "public"."commissions_status_enum" AS ENUM('requested', 'quoted', 'accepted', 'in_progress', 'delivered', 'declined', 'cancelled')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."commissions_category_enum" AS ENUM('wall-hanging', 'rug')`,
+    );
+
+    // === Create commissions table (made-to-order pieces) ===
+    await queryRunner.query(
+      `CREATE TABLE "commissions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "reference" character varying(32) NOT NULL,
+        "status" "public"."commissions_status_enum" NOT NULL DEFAULT 'requested',
+        "customer_name" character varying(100) NOT NULL,
+        "customer_email" character varying(255) NOT NULL,
+        "customer_phone" character varying(50),
+        "category" "public"."commissions_category_enum" NOT NULL,
+        "dimensions" json NOT NULL,
+        "color_palette" json NOT NULL,
+        "description" text NOT NULL,
+        "budget" numeric(10,2),
+        "quote_price" numeric(10,2),
+        "quote_message" text,
+        "estimated_delivery_date" date,
+        "quoted_at" TIMESTAMP,
+        "accepted_at" TIMESTAMP,
+        "delivered_at" TIMESTAMP,
+        "ip_address" character varying(45),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_commissions_reference" UNIQUE ("reference"),
+        CONSTRAINT "PK_commissions_id" PRIMARY KEY ("id")
+      )`,
+    );
+
+    // === Create commission_images table (customer reference images) ===
+    await queryRunner.query(
+      `CREATE TABLE "commission_images" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "url" character varying(500) NOT NULL,
+        "variants" jsonb,
+        "sort_order" integer NOT NULL DEFAULT 0,
+        "commission_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_commission_images_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_commission_images_commission" FOREIGN KEY ("commission_id") REFERENCES "commissions"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_commissions_reference" ON "commissions" ("reference")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_commissions_status" ON "commissions" ("status")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_commissions_customer_email" ON "commissions" ("customer_email")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_commissions_ip_address" ON "commissions" ("ip_address")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_commissions_created_at" ON "commissions" ("created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_commission_images_commission_id" ON "commission_images" ("commission_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_commission_images_commission_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_commissions_created_at"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_commissions_ip_address"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_commissions_customer_email"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_commissions_status"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_commissions_reference"`);
+    await queryRunner.query(`DROP TABLE "commission_images"`);
+    await queryRunner.query(`DROP TABLE "commissions"`);
+    await queryRunner.query(`DROP TYPE "public"."commissions_category_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."commissions_status_enum"`);
+  }
+}
@@ -0,0 +1,85 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNewsletterTables1772300000000 implements MigrationInterface {
+  name = 'AddNewsletterTables1772300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create subscribers status enum ===
+    await queryRunner.query(
+      `CREATE TYPE "public"."subscribers_status_enum" AS ENUM('pending', 'confirmed', 'unsubscribed')`,
+    );
+
+    // === Create subscribers table (double opt-in, consent kept for GDPR) ===
+    await queryRunner.query(
+      `CREATE TABLE "subscribers" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "email" character varying(255) NOT NULL,
+        "status" "public"."subscribers_status_enum" NOT NULL DEFAULT 'pending',
+        "source" character varying(50),
+        "consented_at" TIMESTAMP NOT NULL,
+        "consent_ip_address" character varying(45),
+        "confirmation_sent_at" TIMESTAMP,
+        "confirmed_at" TIMESTAMP,
+        "confirmed_ip_address" character varying(45),
+        "unsubscribed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_subscribers_email" UNIQUE ("email"),
+        CONSTRAINT "PK_subscribers_id" PRIMARY KEY ("id")
+      )`,
+    );
+
+    // === Create newsletter_campaigns table (blog articles sent) ===
+    await queryRunner.query(
+      `CREATE TABLE "newsletter_campaigns" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "article_id" uuid,
+        "subject" character varying(255) NOT NULL,
+        "recipient_count" integer NOT NULL DEFAULT 0,
+        "failed_count" integer NOT NULL DEFAULT 0,
+        "sent_by" character varying(100),
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_newsletter_campaigns_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_newsletter_campaigns_article" FOREIGN KEY ("article_id") REFERENCES "blog_articles"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_subscribers_email" ON "subscribers" ("email")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_subscribers_status" ON "subscribers" ("status")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_subscribers_consent_ip_address" ON "subscribers" ("consent_ip_address")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_subscribers_created_at" ON "subscribers" ("created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_newsletter_campaigns_article_id" ON "newsletter_campaigns" ("article_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_newsletter_campaigns_created_at" ON "newsletter_campaigns" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_newsletter_campaigns_created_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_newsletter_campaigns_article_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_subscribers_created_at"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_subscribers_consent_ip_address"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_subscribers_status"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_subscribers_email"`);
+    await queryRunner.query(`DROP TABLE "newsletter_campaigns"`);
+    await queryRunner.query(`DROP TABLE "subscribers"`);
+    await queryRunner.query(`DROP TYPE "public"."subscribers_status_enum"`);
+  }
+}
@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddStockAlertsTable1772400000000 implements MigrationInterface {
+  name = 'AddStockAlertsTable1772400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create stock alerts category enum ===
+    await queryRunner.query(
+      `CREATE TYPE "public"."stock_alerts_category_enum" AS ENUM('wall-hanging', 'rug')`,
+    );
+
+    // === Create stock_alerts table (one-time "notify me" requests) ===
+    await queryRunner.query(
+      `CREATE TABLE "stock_alerts" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "email" character varying(255) NOT NULL,
+        "product_id" uuid,
+        "category" "public"."stock_alerts_category_enum",
+        "ip_address" character varying(45),
+        "notified_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_stock_alerts_id" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_stock_alerts_product" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+
+    // === Create indexes ===
+    await queryRunner.query(
+      `CREATE INDEX "IDX_stock_alerts_email" ON "stock_alerts" ("email")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_stock_alerts_product_id" ON "stock_alerts" ("product_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_stock_alerts_category" ON "stock_alerts" ("category")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_stock_alerts_ip_address" ON "stock_alerts" ("ip_address")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_stock_alerts_notified_at" ON "stock_alerts" ("notified_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_stock_alerts_created_at" ON "stock_alerts" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_stock_alerts_created_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_stock_alerts_notified_at"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_stock_alerts_ip_address"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_stock_alerts_category"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_stock_alerts_product_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_stock_alerts_email"`);
+    await queryRunner.query(`DROP TABLE "stock_alerts"`);
+    await queryRunner.query(`DROP TYPE "public"."stock_alerts_category_enum"`);
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddProductShowInArchive1772500000000 implements MigrationInterface {
+  name = 'AddProductShowInArchive1772500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Let sold pieces stay on the storefront archive (opt-out per product) ===
+    await queryRunner.query(
+      `ALTER TABLE "products" ADD "show_in_archive" boolean NOT NULL DEFAULT true`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "products" DROP COLUMN "show_in_archive"`,
+    );
+  }
+}
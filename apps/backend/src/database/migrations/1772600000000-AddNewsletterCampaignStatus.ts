@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNewsletterCampaignStatus1772600000000 implements MigrationInterface {
+  name = 'AddNewsletterCampaignStatus1772600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Record campaigns before sending them (existing ones are all sent) ===
+    await queryRunner.query(
+      `CREATE TYPE "public"."newsletter_campaigns_status_enum" AS ENUM('sending', 'sent', 'interrupted')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "newsletter_campaigns" ADD "status" "public"."newsletter_campaigns_status_enum" NOT NULL DEFAULT 'sent'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "newsletter_campaigns" ALTER COLUMN "status" SET DEFAULT 'sending'`,
+    );
+
+    // === One campaign sending at a time per article ===
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_newsletter_campaigns_article_sending" ON "newsletter_campaigns" ("article_id") WHERE "status" = 'sending'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_newsletter_campaigns_article_sending"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "newsletter_campaigns" DROP COLUMN "status"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."newsletter_campaigns_status_enum"`,
+    );
+  }
+}
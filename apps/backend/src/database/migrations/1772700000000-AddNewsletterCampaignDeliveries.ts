@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNewsletterCampaignDeliveries1772700000000 implements MigrationInterface {
+  name = 'AddNewsletterCampaignDeliveries1772700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // === Create newsletter_campaign_deliveries table (emails accepted) ===
+    await queryRunner.query(
+      `CREATE TABLE "newsletter_campaign_deliveries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "campaign_id" uuid NOT NULL,
+        "subscriber_id" uuid NOT NULL,
+        "sent_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_newsletter_campaign_deliveries_id" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_newsletter_campaign_deliveries_campaign_subscriber" UNIQUE ("campaign_id", "subscriber_id"),
+        CONSTRAINT "FK_newsletter_campaign_deliveries_campaign" FOREIGN KEY ("campaign_id") REFERENCES "newsletter_campaigns"("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+        CONSTRAINT "FK_newsletter_campaign_deliveries_subscriber" FOREIGN KEY ("subscriber_id") REFERENCES "subscribers"("id") ON DELETE CASCADE ON UPDATE NO ACTION
+      )`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "newsletter_campaign_deliveries"`);
+  }
+}
@@ -0,0 +1,188 @@
+import 'reflect-metadata';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import * as readline from 'readline';
+import { getDatabaseConfig } from '../../config/database.config';
+import { validationSchema } from '../../config/environment.validation';
+import { UploadModule } from '../../modules/upload/upload.module';
+import {
+  DEFAULT_GC_MIN_AGE_MINUTES,
+  UploadsGcReport,
+  UploadsGcService,
+} from '../../modules/upload/uploads-gc.service';
+
+/**
+ * Orphaned uploads garbage collector CLI
+ *
+ * Files leak when a request fails after its images were stored, or when a
+ * best-effort delete fails. This scans the products, blog, about-sections and
+ * page-content uploads of the configured storage driver, cross-references
+ * every image column and reports:
+ * - orphans: files no row references (and their derivatives)
+ * - dangling references: rows pointing to a missing file
+ *
+ * Nothing is deleted by default: the report is a dry run. With --delete, the
+ * orphans of the report are removed after typing a confirmation; storage is
+ * scanned again right before deleting so files referenced in the meantime
+ * are kept. Files younger than --min-age minutes (default 60) are never
+ * collected since their row may not be saved yet.
+ *
+ * Usage:
+ * - Dry run: npm run storage:gc
+ * - Delete orphans: npm run storage:gc -- --delete
+ * - Custom age: npm run storage:gc -- --min-age=1440
+ * - Production (compiled): npm run storage:gc:prod [-- --delete]
+ */
+
+/**
+ * Minimal application context: configuration, database and storage
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      envFilePath: ['../../.env.local', '../../.env', '.env.local', '.env'],
+      validationSchema,
+      validationOptions: { allowUnknown: true, abortEarly: false },
+    }),
+    TypeOrmModule.forRoot({
+      ...getDatabaseConfig(),
+      // Read-only on the schema, and quiet
+      synchronize: false,
+      logging: ['error'],
+    }),
+    UploadModule,
+  ],
+})
+class UploadsGcCliModule {}
+
+/**
+ * Read the --min-age=<minutes> option
+ */
+function parseMinAge(): number {
+  const option = process.argv.find((arg) => arg.startsWith('--min-age='));
+  if (!option) {
+    return DEFAULT_GC_MIN_AGE_MINUTES;
+  }
+
+  const minutes = Number(option.split('=')[1]);
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new Error(`Invalid --min-age value: ${option}`);
+  }
+  return minutes;
+}
+
+/**
+ * Print the dry run report
+ */
+function printReport(report: UploadsGcReport): void {
+  console.log(`Files in storage: ${report.fileCount}`);
+  console.log(`Referenced keys: ${report.referenceCount}\n`);
+
+  console.log(`Orphaned files: ${report.orphans.length}`);
+  for (const object of report.orphans) {
+    console.log(`  - ${object.key} (${object.lastModified.toISOString()})`);
+  }
+
+  if (report.recentOrphans.length > 0) {
+    console.log(
+      `\nRecent unreferenced files, kept (< ${report.minAgeMinutes} min): ${report.recentOrphans.length}`,
+    );
+    for (const object of report.recentOrphans) {
+      console.log(`  - ${object.key}`);
+    }
+  }
+
+  console.log(`\nDangling references: ${report.danglingReferences.length}`);
+  for (const ref of report.danglingReferences) {
+    console.log(`  - ${ref.table} ${ref.id} → ${ref.key}`);
+  }
+}
+
+/**
+ * Ask for confirmation before deleting orphans
+ */
+async function confirmDeletion(count: number): Promise<boolean> {
+  const expected = `DELETE ${count} FILES`;
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`\nType "${expected}" to confirm: `, (answer) => {
+      rl.close();
+      resolve(answer === expected);
+    });
+  });
+}
+
+/**
+ * Main garbage collection function
+ */
+async function collectOrphanedUploads() {
+  const deleteFlag = process.argv.includes('--delete');
+  const minAgeMinutes = parseMinAge();
+
+  console.log('========================================');
+  console.log('  Orphaned uploads garbage collector');
+  console.log('========================================');
+  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  console.log(`Storage driver: ${process.env.STORAGE_DRIVER || 'local'}`);
+  console.log(`Mode: ${deleteFlag ? 'DELETE ⚠️' : 'DRY RUN'}`);
+  console.log(`Minimum age: ${minAgeMinutes} minute(s)`);
+  console.log('========================================\n');
+
+  const app = await NestFactory.createApplicationContext(UploadsGcCliModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const gcService = app.get(UploadsGcService);
+    const report = await gcService.scan(minAgeMinutes);
+    printReport(report);
+
+    if (!deleteFlag) {
+      console.log('\nDry run only. Re-run with --delete to remove orphans.');
+      return;
+    }
+    if (report.orphans.length === 0) {
+      console.log('\nNothing to delete.');
+      return;
+    }
+
+    if (!(await confirmDeletion(report.orphans.length))) {
+      console.log('\n❌ Confirmation failed. No file was deleted.');
+      return;
+    }
+
+    const result = await gcService.deleteOrphans(report);
+
+    console.log('\n========================================');
+    console.log(`  Deleted: ${result.deleted.length} file(s)`);
+    if (result.skipped.length > 0) {
+      console.log(
+        `  Skipped (referenced since the scan): ${result.skipped.length}`,
+      );
+    }
+    if (result.failed.length > 0) {
+      console.log(`  Failed: ${result.failed.length}`);
+      process.exitCode = 1;
+    }
+    console.log('========================================');
+  } catch (error) {
+    console.error('\n========================================');
+    console.error('  Garbage collection failed!');
+    console.error('========================================');
+    console.error(`Error: ${error.message}`);
+    console.error(error.stack);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+
+// Run garbage collection
+collectOrphanedUploads();
@@ -0,0 +1,144 @@
+import 'reflect-metadata';
+import { QueryRunner } from 'typeorm';
+import { AppDataSource } from '../data-source';
+import type { ImageVariant } from '../../common/interfaces/image-variant.interface';
+import {
+  DEFAULT_UPLOADS_PUBLIC_BASE_URL,
+  setUploadsPublicBaseUrl,
+  toStorageKey,
+  UPLOAD_REFERENCE_COLUMNS,
+  UploadReferenceColumn,
+} from '../../common/utils/storage-url.util';
+
+/**
+ * Upload URL migration CLI
+ *
+ * Rows created before storage drivers existed hold absolute URLs built from
+ * the request host (`http://<host>/uploads/products/<file>`). This rewrites
+ * every image column to the relative storage key (`products/<file>`), so the
+ * public base URL and the storage backend can change without touching data.
+ *
+ * Values that already are keys, and images hosted elsewhere, are left as is.
+ * URLs built from UPLOADS_PUBLIC_BASE_URL are recognized as well.
+ *
+ * Usage:
+ * - Preview changes: npm run storage:migrate-urls -- --dry-run
+ * - Rewrite rows: npm run storage:migrate-urls
+ * - Production (compiled): npm run storage:migrate-urls:prod
+ */
+
+interface ImageRow {
+  id: string;
+  value: string | null;
+  variants: ImageVariant[] | null;
+}
+
+/**
+ * Rewrite one table, returning the number of rows changed
+ */
+async function migrateTable(
+  queryRunner: QueryRunner,
+  { table, column, variantsColumn }: UploadReferenceColumn,
+  dryRun: boolean,
+): Promise<number> {
+  const rows: ImageRow[] = await queryRunner.query(
+    `SELECT "id", "${column}" AS "value", "${variantsColumn}" AS "variants" FROM "${table}"`,
+  );
+
+  let changed = 0;
+  for (const row of rows) {
+    const value = toStorageKey(row.value);
+    const variants =
+      row.variants?.map((variant) => ({
+        ...variant,
+        url: toStorageKey(variant.url),
+      })) ?? null;
+
+    const valueChanged = value !== row.value;
+    const variantsChanged =
+      JSON.stringify(variants) !== JSON.stringify(row.variants);
+    if (!valueChanged && !variantsChanged) {
+      continue;
+    }
+
+    changed++;
+    console.log(`  ${table} ${row.id}: ${row.value} → ${value}`);
+    if (!dryRun) {
+      await queryRunner.query(
+        `UPDATE "${table}" SET "${column}" = $1, "${variantsColumn}" = $2 WHERE "id" = $3`,
+        [value, variants ? JSON.stringify(variants) : null, row.id],
+      );
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Main migration function
+ */
+async function migrateUploadUrls() {
+  const dryRun = process.argv.includes('--dry-run');
+  const publicBaseUrl =
+    process.env.UPLOADS_PUBLIC_BASE_URL || DEFAULT_UPLOADS_PUBLIC_BASE_URL;
+  setUploadsPublicBaseUrl(publicBaseUrl);
+
+  console.log('========================================');
+  console.log('  Upload URL migration');
+  console.log('========================================');
+  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  console.log(`Dry run: ${dryRun ? 'ENABLED (no changes)' : 'DISABLED'}`);
+  console.log(`Public base URL: ${publicBaseUrl}`);
+  console.log('========================================\n');
+
+  AppDataSource.setOptions({ logging: false });
+  let queryRunner: QueryRunner | undefined;
+
+  try {
+    console.log('Connecting to database...');
+    await AppDataSource.initialize();
+    console.log('Database connected successfully!\n');
+
+    queryRunner = AppDataSource.createQueryRunner();
+    await queryRunner.startTransaction();
+    let total = 0;
+    for (const target of UPLOAD_REFERENCE_COLUMNS) {
+      const changed = await migrateTable(queryRunner, target, dryRun);
+      console.log(`${target.table}: ${changed} row(s) to rewrite`);
+      total += changed;
+    }
+
+    if (dryRun) {
+      await queryRunner.rollbackTransaction();
+    } else {
+      await queryRunner.commitTransaction();
+    }
+
+    console.log('\n========================================');
+    console.log(
+      dryRun
+        ? `  Dry run completed: ${total} row(s) would be rewritten`
+        : `  Migration completed: ${total} row(s) rewritten`,
+    );
+    console.log('========================================');
+  } catch (error) {
+    if (queryRunner?.isTransactionActive) {
+      await queryRunner.rollbackTransaction();
+    }
+    console.error('\n========================================');
+    console.error('  Migration failed! No rows were changed.');
+    console.error('========================================');
+    console.error(`Error: ${error.message}`);
+    console.error(error.stack);
+    process.exitCode = 1;
+  } finally {
+    await queryRunner?.release();
+    if (AppDataSource.isInitialized) {
+      await AppDataSource.destroy();
+      console.log('\nDatabase connection closed.');
+    }
+  }
+}
+
+// Run migration
+migrateUploadUrls();
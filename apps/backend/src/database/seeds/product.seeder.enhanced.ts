@@ -1,6 +1,7 @@
 import { Logger } from '@nestjs/common';
 import { DataSource, Repository } from 'typeorm';
 import { Product } from '../../entities/product.entity';
+import { slugify } from '../../common/utils/slug.util';
 import { wallHangingProducts, rugProducts } from './data/products.data';
 
 /**
@@ -113,14 +114,20 @@ export class EnhancedProductSeeder {
           }
         } else {
           // Create new product
-          const product = repository.create(item);
+          const product = repository.create({
+            ...item,
+            slug: slugify(item.name),
+          });
           await repository.save(product);
           created++;
           this.logger.log(`  + Created: "${item.name}"`);
         }
       } else {
         // No duplicate check, just insert
-        const product = repository.create(item);
+        const product = repository.create({
+          ...item,
+          slug: slugify(item.name),
+        });
         await repository.save(product);
         created++;
       }
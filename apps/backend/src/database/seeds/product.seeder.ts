@@ -1,7 +1,12 @@
 import { Logger } from '@nestjs/common';
 import { DataSource, Repository } from 'typeorm';
 import { Product } from '../../entities/product.entity';
-import { wallHangingProducts, rugProducts } from './data/products.data';
+import { slugify } from '../../common/utils/slug.util';
+import {
+  wallHangingProducts,
+  rugProducts,
+  ProductSeedData,
+} from './data/products.data';
 
 /**
  * Product Seeder
@@ -66,9 +71,11 @@ export class ProductSeeder {
    */
   private async seedProducts(
     repository: Repository<Product>,
-    data: any[],
+    data: ProductSeedData[],
   ): Promise<Product[]> {
-    const products = repository.create(data);
+    const products = repository.create(
+      data.map((item) => ({ ...item, slug: slugify(item.name) })),
+    );
     return await repository.save(products);
   }
 
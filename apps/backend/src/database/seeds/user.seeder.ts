@@ -32,6 +32,8 @@ export class UserSeeder {
       // Read credentials from environment variables (with defaults for dev)
       const adminUsername = process.env.ADMIN_USERNAME || 'admin';
       const adminPassword = process.env.ADMIN_PASSWORD || 'k4sla1!';
+      // Optional: without an email, password reset links cannot be sent
+      const adminEmail = process.env.ADMIN_EMAIL?.trim().toLowerCase() || null;
 
       // Check if admin user already exists
       const adminExists = await userRepository.findOne({
@@ -51,6 +53,7 @@ export class UserSeeder {
       // Create admin user
       const adminUser = userRepository.create({
         username: adminUsername,
+        email: adminEmail,
         password: hashedPassword,
         role: 'admin',
       });
@@ -61,6 +64,7 @@ export class UserSeeder {
       this.logger.log('User Seeding Statistics:');
       this.logger.log('✓ Admin user created successfully');
       this.logger.log(`  Username: ${adminUsername}`);
+      this.logger.log(`  Email: ${adminEmail ?? '(none)'}`);
       this.logger.log('  Password: ********');
       this.logger.log('  Role: admin');
       this.logger.log('========================================');
@@ -6,6 +6,11 @@ import {
   UpdateDateColumn,
   Index,
 } from 'typeorm';
+import type { ImageVariant } from '../common/interfaces/image-variant.interface';
+import {
+  imageVariantsTransformer,
+  storageUrlTransformer,
+} from '../common/transformers/storage-url.transformer';
 
 /**
  * AboutSection entity
@@ -22,9 +27,27 @@ export class AboutSection {
   @Column({ type: 'jsonb', nullable: false })
   paragraphs: string[];
 
-  @Column({ length: 500, nullable: false })
+  /**
+   * Storage key, exposed as a public URL when read
+   */
+  @Column({
+    length: 500,
+    nullable: false,
+    transformer: storageUrlTransformer,
+  })
   image: string;
 
+  /**
+   * Responsive derivatives of `image`
+   */
+  @Column({
+    name: 'image_variants',
+    type: 'jsonb',
+    nullable: true,
+    transformer: imageVariantsTransformer,
+  })
+  imageVariants: ImageVariant[] | null;
+
   @Column({ name: 'image_alt', length: 255, nullable: false })
   imageAlt: string;
 
@@ -36,6 +59,14 @@ export class AboutSection {
   @Index()
   isPublished: boolean;
 
+  /**
+   * Date the publication scheduler will publish the entry at, null when
+   * nothing is scheduled
+   */
+  @Column({ name: 'scheduled_at', type: 'timestamp', nullable: true })
+  @Index()
+  scheduledAt: Date | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Audited content types
+ */
+export type AuditEntityType =
+  | 'product'
+  | 'blog-article'
+  | 'blog-tag'
+  | 'about-section'
+  | 'page-content'
+  | 'contact-link';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+/**
+ * Audit log entity
+ * One row per created, updated or deleted content row. `before` and `after`
+ * hold the changed fields only for updates, and the whole row for creations
+ * (after) and deletions (before). Changes made outside an authenticated
+ * request (checkout stock reservations, scheduled jobs) have no user.
+ */
+@Entity('audit_logs')
+@Index(['entityType', 'entityId'])
+export class AuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  @Index()
+  userId?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'user_id' })
+  user?: User | null;
+
+  /**
+   * Username at the time of the change, kept once the user is deleted
+   */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  username?: string | null;
+
+  @Column({ name: 'entity_type', length: 50 })
+  entityType: AuditEntityType;
+
+  @Column({ name: 'entity_id', length: 64 })
+  entityId: string;
+
+  @Column({ length: 10 })
+  action: AuditAction;
+
+  @Column({ type: 'jsonb', nullable: true })
+  before?: Record<string, unknown> | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  after?: Record<string, unknown> | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index()
+  createdAt: Date;
+}
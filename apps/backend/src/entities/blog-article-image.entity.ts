@@ -8,6 +8,11 @@ import {
   JoinColumn,
 } from 'typeorm';
 import { BlogArticle } from './blog-article.entity';
+import type { ImageVariant } from '../common/interfaces/image-variant.interface';
+import {
+  imageVariantsTransformer,
+  storageUrlTransformer,
+} from '../common/transformers/storage-url.transformer';
 
 /**
  * BlogArticleImage entity
@@ -18,9 +23,27 @@ export class BlogArticleImage {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'varchar', length: 500 })
+  /**
+   * Storage key, exposed as a public URL when read
+   */
+  @Column({
+    type: 'varchar',
+    length: 500,
+    transformer: storageUrlTransformer,
+  })
   url: string;
 
+  /**
+   * Responsive derivatives of the original (null for images uploaded before
+   * the derivative pipeline existed)
+   */
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    transformer: imageVariantsTransformer,
+  })
+  variants: ImageVariant[] | null;
+
   @Column({ name: 'alt_text', type: 'varchar', length: 255, nullable: true })
   altText?: string;
 
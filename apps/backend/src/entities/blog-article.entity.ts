@@ -8,9 +8,11 @@ import {
   OneToMany,
   ManyToMany,
   JoinTable,
+  RelationId,
 } from 'typeorm';
 import { BlogArticleImage } from './blog-article-image.entity';
 import { BlogTag } from './blog-tag.entity';
+import { Product } from './product.entity';
 
 /**
  * BlogArticle entity
@@ -42,10 +44,35 @@ export class BlogArticle {
   @Index()
   isPublished: boolean;
 
+  /**
+   * Date the publication scheduler will publish the entry at, null when
+   * nothing is scheduled
+   */
+  @Column({ name: 'scheduled_at', type: 'timestamp', nullable: true })
+  @Index()
+  scheduledAt: Date | null;
+
   @Column({ name: 'sort_order', type: 'int', default: 0 })
   @Index()
   sortOrder: number;
 
+  /**
+   * Full-text search document, maintained by PostgreSQL: title (weight A),
+   * subtitle (B) and content stripped of its HTML tags (C), French stemming.
+   * Indexed with GIN in the migration (TypeORM cannot declare GIN indexes).
+   */
+  @Column({
+    name: 'search_vector',
+    type: 'tsvector',
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: `setweight(to_tsvector('french', coalesce("title", '')), 'A') || setweight(to_tsvector('french', coalesce("subtitle", '')), 'B') || setweight(to_tsvector('french', regexp_replace("content", '<[^>]*>', ' ', 'g')), 'C')`,
+  })
+  @Index('IDX_blog_articles_search_vector', { synchronize: false })
+  searchVector?: string;
+
   @OneToMany(() => BlogArticleImage, (img) => img.article, {
     cascade: true,
     eager: true,
@@ -62,6 +89,20 @@ export class BlogArticle {
   })
   tags: BlogTag[];
 
+  /**
+   * Products the article is about, suggested below it on the storefront
+   */
+  @ManyToMany(() => Product)
+  @JoinTable({
+    name: 'blog_articles_products',
+    joinColumn: { name: 'article_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'product_id', referencedColumnName: 'id' },
+  })
+  products?: Product[];
+
+  @RelationId((article: BlogArticle) => article.products)
+  productIds: string[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
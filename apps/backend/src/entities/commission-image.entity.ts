@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Commission } from './commission.entity';
+import type { ImageVariant } from '../common/interfaces/image-variant.interface';
+import {
+  imageVariantsTransformer,
+  storageUrlTransformer,
+} from '../common/transformers/storage-url.transformer';
+
+/**
+ * CommissionImage entity
+ * Reference image sent by the customer with a commission request
+ */
+@Entity('commission_images')
+export class CommissionImage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Storage key, exposed as a public URL when read
+   */
+  @Column({
+    type: 'varchar',
+    length: 500,
+    transformer: storageUrlTransformer,
+  })
+  url: string;
+
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    transformer: imageVariantsTransformer,
+  })
+  variants: ImageVariant[] | null;
+
+  @Column({ name: 'sort_order', type: 'int', default: 0 })
+  sortOrder: number;
+
+  @Column({ name: 'commission_id', type: 'uuid' })
+  @Index()
+  commissionId: string;
+
+  @ManyToOne(() => Commission, (commission) => commission.images, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'commission_id' })
+  commission: Commission;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,146 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+  Index,
+} from 'typeorm';
+import { CommissionImage } from './commission-image.entity';
+
+/**
+ * Stage of a commission
+ * - requested: sent by the customer, waiting for a quote
+ * - quoted: a price was sent, waiting for the customer's answer
+ * - accepted: the customer accepted the quote
+ * - in_progress: on the loom
+ * - delivered: handed over to the customer
+ * - declined: the customer turned the quote down (a new quote can follow)
+ * - cancelled: dropped by the atelier
+ */
+export type CommissionStatus =
+  | 'requested'
+  | 'quoted'
+  | 'accepted'
+  | 'in_progress'
+  | 'delivered'
+  | 'declined'
+  | 'cancelled';
+
+/**
+ * Commission entity
+ * A made-to-order piece requested from the storefront. The customer follows
+ * it, and answers the quote, on a status page reached through an emailed
+ * signed link; they have no account.
+ */
+@Entity('commissions')
+export class Commission {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Reference shown to the customer, e.g. SM-20260301-4F2A9C
+   */
+  @Column({ length: 32, unique: true })
+  @Index()
+  reference: string;
+
+  @Column({
+    type: 'enum',
+    enum: [
+      'requested',
+      'quoted',
+      'accepted',
+      'in_progress',
+      'delivered',
+      'declined',
+      'cancelled',
+    ],
+    default: 'requested',
+  })
+  @Index()
+  status: CommissionStatus;
+
+  @Column({ name: 'customer_name', length: 100 })
+  customerName: string;
+
+  @Column({ name: 'customer_email', length: 255 })
+  @Index()
+  customerEmail: string;
+
+  @Column({ name: 'customer_phone', length: 50, nullable: true })
+  customerPhone?: string | null;
+
+  @Column({ type: 'enum', enum: ['wall-hanging', 'rug'] })
+  category: 'wall-hanging' | 'rug';
+
+  @Column({ type: 'json' })
+  dimensions: {
+    width: number;
+    height: number;
+    unit: 'cm' | 'inch';
+  };
+
+  /**
+   * Colours wished for, as named by the customer or hex codes
+   */
+  @Column({ name: 'color_palette', type: 'json' })
+  colorPalette: string[];
+
+  @Column({ type: 'text' })
+  description: string;
+
+  /**
+   * Budget in euros, null when the customer did not say
+   */
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  budget?: number | null;
+
+  @OneToMany(() => CommissionImage, (image) => image.commission, {
+    cascade: true,
+    eager: true,
+  })
+  images: CommissionImage[];
+
+  @Column({
+    name: 'quote_price',
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+  })
+  quotePrice?: number | null;
+
+  /**
+   * Message sent with the quote (materials, payment terms...)
+   */
+  @Column({ name: 'quote_message', type: 'text', nullable: true })
+  quoteMessage?: string | null;
+
+  @Column({ name: 'estimated_delivery_date', type: 'date', nullable: true })
+  estimatedDeliveryDate?: string | null;
+
+  @Column({ name: 'quoted_at', type: 'timestamp', nullable: true })
+  quotedAt?: Date | null;
+
+  @Column({ name: 'accepted_at', type: 'timestamp', nullable: true })
+  acceptedAt?: Date | null;
+
+  @Column({ name: 'delivered_at', type: 'timestamp', nullable: true })
+  deliveredAt?: Date | null;
+
+  /**
+   * Sender address, for the per-IP rate limit
+   */
+  @Column({ name: 'ip_address', length: 45, nullable: true })
+  @Index()
+  ipAddress?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index()
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,83 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Content types with a revision history
+ */
+export type RevisionEntityType = 'blog-article' | 'page-content';
+
+/**
+ * Tag of an article, as it was named at the time of the revision
+ */
+export interface RevisionTag {
+  id: string;
+  name: string;
+}
+
+/**
+ * ContentRevision entity
+ * Snapshot of the editable text of a blog article or page content entry,
+ * written on every save that changes it. Page content has no subtitle nor
+ * tags (null). Images are not versioned: their files are deleted when
+ * replaced.
+ */
+@Entity('content_revisions')
+@Index(['entityType', 'entityId', 'createdAt'])
+export class ContentRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'entity_type', length: 50 })
+  entityType: RevisionEntityType;
+
+  @Column({ name: 'entity_id', type: 'uuid' })
+  entityId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  title: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  subtitle: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  content: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  tags: RevisionTag[] | null;
+
+  @Column({ name: 'is_published', type: 'boolean' })
+  isPublished: boolean;
+
+  @Column({ name: 'published_at', type: 'timestamp', nullable: true })
+  publishedAt: Date | null;
+
+  /**
+   * Revision this one was restored from, if any
+   */
+  @Column({ name: 'restored_from_id', type: 'uuid', nullable: true })
+  restoredFromId?: string | null;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'user_id' })
+  user?: User | null;
+
+  /**
+   * Username at the time of the save, kept once the user is deleted
+   */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  username?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
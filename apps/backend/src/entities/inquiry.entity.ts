@@ -0,0 +1,106 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Product } from './product.entity';
+
+/**
+ * What the visitor is asking for
+ * - contact: a question, about a product or not
+ * - commission: a custom piece
+ */
+export type InquiryType = 'contact' | 'commission';
+
+/**
+ * Inbox state of an inquiry
+ * - new: not opened yet
+ * - read: opened in the backoffice
+ * - archived: dealt with, hidden from the inbox
+ */
+export type InquiryStatus = 'new' | 'read' | 'archived';
+
+/**
+ * Inquiry entity
+ * Message sent from the storefront contact form, optionally about a product.
+ * Replies happen by email, outside the application; the backoffice only
+ * records that (and by whom) the visitor was answered.
+ */
+@Entity('inquiries')
+export class Inquiry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({
+    type: 'enum',
+    enum: ['contact', 'commission'],
+    default: 'contact',
+  })
+  type: InquiryType;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ length: 255 })
+  @Index()
+  email: string;
+
+  @Column({ length: 50, nullable: true })
+  phone?: string | null;
+
+  @Column({ type: 'text' })
+  message: string;
+
+  @Column({ name: 'product_id', type: 'uuid', nullable: true })
+  @Index()
+  productId?: string | null;
+
+  @ManyToOne(() => Product, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'product_id' })
+  product?: Product | null;
+
+  @Column({
+    type: 'enum',
+    enum: ['new', 'read', 'archived'],
+    default: 'new',
+  })
+  @Index()
+  status: InquiryStatus;
+
+  /**
+   * When the visitor was answered, null until then
+   */
+  @Column({ name: 'replied_at', type: 'timestamp', nullable: true })
+  repliedAt?: Date | null;
+
+  /**
+   * Username of the account that marked the inquiry as answered
+   */
+  @Column({ name: 'replied_by', length: 100, nullable: true })
+  repliedBy?: string | null;
+
+  /**
+   * Internal note about the reply (what was offered, next steps...)
+   */
+  @Column({ name: 'reply_note', type: 'text', nullable: true })
+  replyNote?: string | null;
+
+  /**
+   * Sender address, for the per-IP rate limit
+   */
+  @Column({ name: 'ip_address', length: 45, nullable: true })
+  @Index()
+  ipAddress?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index()
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Why a login attempt was rejected
+ */
+export type LoginFailureReason =
+  | 'invalid_credentials'
+  | 'account_disabled'
+  | 'invalid_two_factor_code';
+
+/**
+ * Login attempt entity
+ * Audit log of every successful and failed login. The username is stored as
+ * typed, and the user is linked when it exists. Attempts rejected by the
+ * throttling never reach password verification and are not recorded.
+ */
+@Entity('login_attempts')
+export class LoginAttempt {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 255 })
+  @Index()
+  username: string;
+
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
+  userId?: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'user_id' })
+  user?: User | null;
+
+  @Column({ type: 'boolean' })
+  success: boolean;
+
+  @Column({ name: 'failure_reason', length: 50, nullable: true })
+  failureReason?: LoginFailureReason | null;
+
+  @Column({ name: 'ip_address', length: 45, nullable: true })
+  ipAddress?: string | null;
+
+  @Column({ name: 'user_agent', length: 255, nullable: true })
+  userAgent?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index()
+  createdAt: Date;
+}
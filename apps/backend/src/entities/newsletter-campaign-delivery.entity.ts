@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { NewsletterCampaign } from './newsletter-campaign.entity';
+import { Subscriber } from './subscriber.entity';
+
+/**
+ * NewsletterCampaignDelivery entity
+ * A campaign email the mail transport accepted, recorded right after it is
+ * sent so a resumed campaign only mails the subscribers it has not reached
+ */
+@Entity('newsletter_campaign_deliveries')
+@Unique('UQ_newsletter_campaign_deliveries_campaign_subscriber', [
+  'campaignId',
+  'subscriberId',
+])
+export class NewsletterCampaignDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'campaign_id', type: 'uuid' })
+  campaignId: string;
+
+  @ManyToOne(() => NewsletterCampaign, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'campaign_id' })
+  campaign?: NewsletterCampaign;
+
+  @Column({ name: 'subscriber_id', type: 'uuid' })
+  subscriberId: string;
+
+  @ManyToOne(() => Subscriber, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriber_id' })
+  subscriber?: Subscriber;
+
+  @CreateDateColumn({ name: 'sent_at' })
+  sentAt: Date;
+}
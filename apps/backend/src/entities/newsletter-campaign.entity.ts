@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { BlogArticle } from './blog-article.entity';
+
+/**
+ * Delivery state of a campaign
+ * - sending: recorded before the first email, while the emails go out
+ * - sent: every subscriber was tried, the counts are final
+ * - interrupted: the API stopped while sending; resuming it only mails the
+ *   subscribers without a delivery
+ */
+export type NewsletterCampaignStatus = 'sending' | 'sent' | 'interrupted';
+
+/**
+ * NewsletterCampaign entity
+ * A blog article sent to the confirmed subscribers
+ * An article has at most one campaign sending at a time, so a double click or
+ * two admins sending together cannot email the subscribers twice
+ */
+@Entity('newsletter_campaigns')
+@Index('IDX_newsletter_campaigns_article_sending', ['articleId'], {
+  unique: true,
+  where: `"status" = 'sending'`,
+})
+export class NewsletterCampaign {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Article sent, null once it is deleted
+   */
+  @Column({ name: 'article_id', type: 'uuid', nullable: true })
+  @Index()
+  articleId: string | null;
+
+  @ManyToOne(() => BlogArticle, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'article_id' })
+  article?: BlogArticle | null;
+
+  /**
+   * Subject of the email, kept when the article is renamed or deleted
+   */
+  @Column({ length: 255 })
+  subject: string;
+
+  @Column({
+    type: 'enum',
+    enum: ['sending', 'sent', 'interrupted'],
+    default: 'sending',
+  })
+  status: NewsletterCampaignStatus;
+
+  /**
+   * Emails accepted by the mail transport, over every run of the campaign
+   */
+  @Column({ name: 'recipient_count', type: 'int', default: 0 })
+  recipientCount: number;
+
+  /**
+   * Recipients the transport refused during the last run
+   */
+  @Column({ name: 'failed_count', type: 'int', default: 0 })
+  failedCount: number;
+
+  /**
+   * Username of whoever sent the campaign
+   */
+  @Column({ name: 'sent_by', length: 100, nullable: true })
+  sentBy: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index()
+  createdAt: Date;
+}
@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Order } from './order.entity';
+import { Product } from './product.entity';
+
+/**
+ * OrderItem entity
+ * A single line of an order, with product name and price captured at checkout
+ */
+@Entity('order_items')
+export class OrderItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'order_id', type: 'uuid' })
+  @Index()
+  orderId: string;
+
+  @ManyToOne(() => Order, (order) => order.items, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'order_id' })
+  order: Order;
+
+  /**
+   * Nullable so order history survives product deletion
+   */
+  @Column({ name: 'product_id', type: 'uuid', nullable: true })
+  @Index()
+  productId: string | null;
+
+  @ManyToOne(() => Product, {
+    onDelete: 'SET NULL',
+    nullable: true,
+  })
+  @JoinColumn({ name: 'product_id' })
+  product?: Product | null;
+
+  @Column({ name: 'product_name', length: 255, nullable: false })
+  productName: string;
+
+  @Column({ name: 'product_slug', length: 255, nullable: false })
+  productSlug: string;
+
+  @Column({
+    name: 'unit_price',
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+  })
+  unitPrice: number;
+
+  @Column({ type: 'int', nullable: false })
+  quantity: number;
+
+  @Column({
+    name: 'line_total',
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    nullable: false,
+  })
+  lineTotal: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
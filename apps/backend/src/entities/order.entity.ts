@@ -0,0 +1,93 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  OneToMany,
+} from 'typeorm';
+import { OrderItem } from './order-item.entity';
+
+export type OrderStatus =
+  | 'pending'
+  | 'paid'
+  | 'failed'
+  | 'shipped'
+  | 'refunded'
+  | 'cancelled';
+
+/**
+ * Order entity
+ * Represents a storefront order with customer contact and shipping details.
+ * Item prices are snapshotted at checkout so later price changes don't alter it.
+ */
+@Entity('orders')
+export class Order {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'order_number', length: 32, nullable: false, unique: true })
+  @Index()
+  orderNumber: string;
+
+  @Column({
+    type: 'enum',
+    enum: ['pending', 'paid', 'failed', 'shipped', 'refunded', 'cancelled'],
+    default: 'pending',
+    nullable: false,
+  })
+  @Index()
+  status: OrderStatus;
+
+  @Column({ name: 'customer_email', length: 255, nullable: false })
+  @Index()
+  customerEmail: string;
+
+  @Column({ name: 'customer_first_name', length: 100, nullable: false })
+  customerFirstName: string;
+
+  @Column({ name: 'customer_last_name', length: 100, nullable: false })
+  customerLastName: string;
+
+  @Column({ name: 'customer_phone', length: 50, nullable: true })
+  customerPhone?: string;
+
+  @Column({ name: 'shipping_address', type: 'json', nullable: false })
+  shippingAddress: {
+    line1: string;
+    line2?: string;
+    postalCode: string;
+    city: string;
+    country: string;
+  };
+
+  @Column({ type: 'text', nullable: true })
+  notes?: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: false })
+  total: number;
+
+  @Column({ length: 3, default: 'EUR' })
+  currency: string;
+
+  /**
+   * Stock held by a pending (or failed, awaiting retry) order is released
+   * after this date. Cleared once the order is paid or cancelled
+   */
+  @Column({ name: 'reserved_until', type: 'timestamp', nullable: true })
+  @Index()
+  reservedUntil?: Date | null;
+
+  @OneToMany(() => OrderItem, (item) => item.order, {
+    cascade: true,
+    eager: true,
+  })
+  items: OrderItem[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
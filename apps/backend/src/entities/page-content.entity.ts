@@ -7,6 +7,11 @@ import {
   Index,
   Unique,
 } from 'typeorm';
+import type { ImageVariant } from '../common/interfaces/image-variant.interface';
+import {
+  imageVariantsTransformer,
+  storageUrlTransformer,
+} from '../common/transformers/storage-url.transformer';
 
 /**
  * PageContent entity
@@ -32,9 +37,27 @@ export class PageContent {
   @Column({ type: 'text', nullable: true })
   content: string;
 
-  @Column({ length: 500, nullable: true })
+  /**
+   * Storage key, exposed as a public URL when read
+   */
+  @Column({
+    length: 500,
+    nullable: true,
+    transformer: storageUrlTransformer,
+  })
   image: string;
 
+  /**
+   * Responsive derivatives of `image`
+   */
+  @Column({
+    name: 'image_variants',
+    type: 'jsonb',
+    nullable: true,
+    transformer: imageVariantsTransformer,
+  })
+  imageVariants: ImageVariant[] | null;
+
   @Column({ name: 'image_alt', length: 255, nullable: true })
   imageAlt: string;
 
@@ -45,6 +68,14 @@ export class PageContent {
   @Index()
   isPublished: boolean;
 
+  /**
+   * Date the publication scheduler will publish the entry at, null when
+   * nothing is scheduled
+   */
+  @Column({ name: 'scheduled_at', type: 'timestamp', nullable: true })
+  @Index()
+  scheduledAt: Date | null;
+
   @Column({ name: 'sort_order', type: 'int', default: 0 })
   @Index()
   sortOrder: number;
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Payment } from './payment.entity';
+
+/**
+ * PaymentWebhookEvent entity
+ * Records every processed provider event so redelivered webhooks are ignored
+ */
+@Entity('payment_webhook_events')
+@Unique('UQ_payment_webhook_events_provider_event_id', ['provider', 'eventId'])
+export class PaymentWebhookEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 32, nullable: false })
+  provider: string;
+
+  @Column({ name: 'event_id', length: 100, nullable: false })
+  eventId: string;
+
+  @Column({ length: 64, nullable: false })
+  type: string;
+
+  /**
+   * Null when the event referenced a payment we don't know about
+   */
+  @Column({ name: 'payment_id', type: 'uuid', nullable: true })
+  paymentId: string | null;
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'payment_id' })
+  payment?: Payment | null;
+
+  @CreateDateColumn({ name: 'received_at' })
+  receivedAt: Date;
+}
@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Order } from './order.entity';
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'refunded';
+
+/**
+ * Payment entity
+ * One payment attempt for an order with a given provider. A failed attempt
+ * is kept for history and a retry creates a new payment.
+ */
+@Entity('payments')
+export class Payment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'order_id', type: 'uuid' })
+  @Index()
+  orderId: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'order_id' })
+  order?: Order;
+
+  @Column({ length: 32, nullable: false })
+  provider: string;
+
+  /**
+   * Identifier of the payment on the provider side, used to match webhooks
+   */
+  @Column({ length: 100, nullable: false, unique: true })
+  reference: string;
+
+  @Column({
+    type: 'enum',
+    enum: ['pending', 'succeeded', 'failed', 'refunded'],
+    default: 'pending',
+    nullable: false,
+  })
+  @Index()
+  status: PaymentStatus;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: false })
+  amount: number;
+
+  @Column({ length: 3, default: 'EUR' })
+  currency: string;
+
+  @Column({ name: 'failure_reason', length: 255, nullable: true })
+  failureReason?: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
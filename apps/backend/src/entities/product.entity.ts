@@ -23,6 +23,9 @@ export class Product {
   @Index() // Index for search and filtering
   name: string;
 
+  @Column({ length: 255, nullable: false, unique: true })
+  slug: string;
+
   @Column({ length: 500, nullable: true })
   description?: string;
 
@@ -49,6 +52,12 @@ export class Product {
   @Column({ type: 'int', default: 0 })
   stockQuantity: number;
 
+  /**
+   * Whether the piece stays on the storefront archive once sold
+   */
+  @Column({ name: 'show_in_archive', type: 'boolean', default: true })
+  showInArchive: boolean;
+
   @OneToMany(() => ProductImage, (img) => img.product, {
     cascade: true,
     eager: true,
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Session entity
+ * One row per login. The refresh token is `<session id>.<secret>`; only a
+ * SHA-256 hash of the current secret is stored, and it is replaced on every
+ * refresh. Presenting a previous secret means the token was stolen or
+ * replayed, and the session is revoked.
+ */
+@Entity('sessions')
+export class Session {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  @Index()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'token_hash', length: 64, nullable: false })
+  tokenHash: string;
+
+  @Column({ name: 'user_agent', length: 255, nullable: true })
+  userAgent?: string | null;
+
+  @Column({ name: 'ip_address', length: 45, nullable: true })
+  ipAddress?: string | null;
+
+  /**
+   * Pushed back on every refresh: idle sessions expire
+   */
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'last_used_at', type: 'timestamp' })
+  lastUsedAt: Date;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { BlogArticle } from './blog-article.entity';
+
+/**
+ * SlugRedirect entity
+ * Former slug of a blog article, recorded when its title or slug changes so
+ * old links keep working (301 to the current slug). Removed when the slug is
+ * taken again by an article, and with its article.
+ */
+@Entity('slug_redirects')
+export class SlugRedirect {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'old_slug', length: 255, unique: true })
+  oldSlug: string;
+
+  @Column({ name: 'article_id', type: 'uuid' })
+  @Index()
+  articleId: string;
+
+  @ManyToOne(() => BlogArticle, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'article_id' })
+  article: BlogArticle;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  Index,
+  JoinColumn,
+} from 'typeorm';
+import { Product } from './product.entity';
+
+/**
+ * Product category a stock alert can watch
+ */
+export type StockAlertCategory = 'wall-hanging' | 'rug';
+
+/**
+ * Stock alert entity
+ * "Notify me when available" request left on the storefront, either on a
+ * sold or out-of-stock product, or on a whole category. The visitor is
+ * emailed once, when a matching product can be bought again; the alert is
+ * then closed (notifiedAt) and kept as a record of the request.
+ */
+@Entity('stock_alerts')
+export class StockAlert {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Stored lowercased
+   */
+  @Column({ length: 255 })
+  @Index()
+  email: string;
+
+  /**
+   * Watched product, null for a category alert
+   */
+  @Column({ name: 'product_id', type: 'uuid', nullable: true })
+  @Index()
+  productId?: string | null;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'product_id' })
+  product?: Product | null;
+
+  /**
+   * Watched category, null for a product alert
+   */
+  @Column({
+    type: 'enum',
+    enum: ['wall-hanging', 'rug'],
+    nullable: true,
+  })
+  @Index()
+  category?: StockAlertCategory | null;
+
+  /**
+   * Requester address, for the per-IP rate limit
+   */
+  @Column({ name: 'ip_address', length: 45, nullable: true })
+  @Index()
+  ipAddress?: string | null;
+
+  /**
+   * When the notification went out, null while the alert is waiting
+   */
+  @Column({ name: 'notified_at', type: 'timestamp', nullable: true })
+  @Index()
+  notifiedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index()
+  createdAt: Date;
+}
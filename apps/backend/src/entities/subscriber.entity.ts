@@ -0,0 +1,81 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * Stage of a newsletter subscription
+ * - pending: signed up, waiting for the click on the confirmation link
+ * - confirmed: receives the newsletter
+ * - unsubscribed: opted out; kept as a record of the withdrawn consent
+ */
+export type SubscriberStatus = 'pending' | 'confirmed' | 'unsubscribed';
+
+/**
+ * Subscriber entity
+ * Newsletter sign-up with double opt-in. The consent timestamps and
+ * addresses are kept as proof of consent (GDPR); they are reset when an
+ * unsubscribed address signs up again.
+ */
+@Entity('subscribers')
+export class Subscriber {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Stored lowercased
+   */
+  @Column({ length: 255, unique: true })
+  @Index()
+  email: string;
+
+  @Column({
+    type: 'enum',
+    enum: ['pending', 'confirmed', 'unsubscribed'],
+    default: 'pending',
+  })
+  @Index()
+  status: SubscriberStatus;
+
+  /**
+   * Where the visitor signed up, e.g. "footer"
+   */
+  @Column({ length: 50, nullable: true })
+  source?: string | null;
+
+  /**
+   * When the visitor asked to subscribe
+   */
+  @Column({ name: 'consented_at', type: 'timestamp' })
+  consentedAt: Date;
+
+  @Column({ name: 'consent_ip_address', length: 45, nullable: true })
+  @Index()
+  consentIpAddress?: string | null;
+
+  /**
+   * Last confirmation email, to avoid sending them in a burst
+   */
+  @Column({ name: 'confirmation_sent_at', type: 'timestamp', nullable: true })
+  confirmationSentAt?: Date | null;
+
+  @Column({ name: 'confirmed_at', type: 'timestamp', nullable: true })
+  confirmedAt?: Date | null;
+
+  @Column({ name: 'confirmed_ip_address', length: 45, nullable: true })
+  confirmedIpAddress?: string | null;
+
+  @Column({ name: 'unsubscribed_at', type: 'timestamp', nullable: true })
+  unsubscribedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  @Index()
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
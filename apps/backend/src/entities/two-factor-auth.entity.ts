@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  OneToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Two-factor authentication entity
+ * TOTP settings of a user, kept out of the users table so the secret never
+ * travels with user objects. A row with no enabledAt is an enrollment waiting
+ * for its first code; 2FA is on once enabledAt is set.
+ */
+@Entity('two_factor_auth')
+export class TwoFactorAuth {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /**
+   * Base32 TOTP secret shared with the authenticator app
+   */
+  @Column({ length: 64 })
+  secret: string;
+
+  /**
+   * SHA-256 hashes of the unused recovery codes
+   */
+  @Column({ name: 'recovery_codes', type: 'jsonb', default: () => "'[]'" })
+  recoveryCodes: string[];
+
+  /**
+   * Time step of the last accepted code: a code is never accepted twice
+   */
+  @Column({ name: 'last_used_step', type: 'bigint', nullable: true })
+  lastUsedStep?: string | null;
+
+  @Column({ name: 'enabled_at', type: 'timestamp', nullable: true })
+  enabledAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
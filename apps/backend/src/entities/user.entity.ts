@@ -7,6 +7,13 @@ import {
   Index,
 } from 'typeorm';
 
+/**
+ * Backoffice roles
+ * - admin: full access, manages users and can delete content
+ * - editor: creates and edits content
+ */
+export type UserRole = 'admin' | 'editor';
+
 /**
  * User entity
  * Represents an admin or editor user with authentication credentials
@@ -20,6 +27,13 @@ export class User {
   @Index() // Index for login queries
   username: string;
 
+  /**
+   * Where password reset links are sent; accounts without one can only be
+   * reset by an admin
+   */
+  @Column({ type: 'varchar', length: 255, unique: true, nullable: true })
+  email: string | null;
+
   @Column({ length: 255, nullable: false })
   password: string; // Bcrypt hashed password
 
@@ -29,7 +43,13 @@ export class User {
     default: 'editor',
     nullable: false,
   })
-  role: 'admin' | 'editor';
+  role: UserRole;
+
+  /**
+   * Disabled users can no longer log in, and their tokens are rejected
+   */
+  @Column({ name: 'is_active', default: true })
+  isActive: boolean;
 
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
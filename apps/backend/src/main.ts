@@ -1,20 +1,38 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { NestExpressApplication } from '@nestjs/platform-express';
-import { join } from 'path';
+import { resolve } from 'path';
 import { AppModule } from './app.module';
 import { setupSwagger } from './config/swagger.config';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
-  const app = await NestFactory.create<NestExpressApplication>(AppModule);
-
-  // Serve static files (uploaded images)
-  app.useStaticAssets(join(__dirname, '..', 'uploads'), {
-    prefix: '/uploads/',
+  // Keep the raw request body available: payment webhooks are signed over it
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
   });
 
+  // Behind a reverse proxy, take the client IP from X-Forwarded-For so login
+  // throttling counts attempts per client rather than per proxy
+  // TRUST_PROXY is a hop count (1 behind Traefik) or an Express trust list
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      /^\d+$/.test(trustProxy)
+        ? Number(trustProxy)
+        : trustProxy === 'true' || trustProxy,
+    );
+  }
+
+  // Serve uploaded images from disk; with S3 the bucket (or its CDN) serves them
+  if ((process.env.STORAGE_DRIVER ?? 'local') === 'local') {
+    app.useStaticAssets(resolve(process.env.UPLOADS_DIR ?? './uploads'), {
+      prefix: '/uploads/',
+    });
+  }
+
   // Set global prefix for all routes (e.g., /api/products instead of /products)
   // Benefits: clear API/frontend separation, reverse proxy routing, future versioning
   app.setGlobalPrefix('api');
@@ -11,9 +11,9 @@ import {
   ParseUUIDPipe,
   UseInterceptors,
   UploadedFile,
-  Req,
   BadRequestException,
   Logger,
+  Query,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
@@ -25,11 +25,14 @@ import {
   ApiBody,
   ApiBearerAuth,
 } from '@nestjs/swagger';
-import { Request } from 'express';
 import { AboutSectionsService } from './about-sections.service';
 import { UpdateAboutSectionDto } from './dto/update-about-section.dto';
 import { CreateAboutSectionWithUploadDto } from './dto/create-about-section-with-upload.dto';
 import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { PreviewsService } from '../previews/previews.service';
+import { PreviewQueryDto } from '../previews/dto/preview-query.dto';
+import { PreviewNoStoreInterceptor } from '../previews/preview-no-store.interceptor';
 
 /**
  * AboutSections controller - handles HTTP requests for about page sections
@@ -39,7 +42,10 @@ import { Public } from '../auth/decorators/public.decorator';
 export class AboutSectionsController {
   private readonly logger = new Logger(AboutSectionsController.name);
 
-  constructor(private readonly aboutSectionsService: AboutSectionsService) {}
+  constructor(
+    private readonly aboutSectionsService: AboutSectionsService,
+    private readonly previewsService: PreviewsService,
+  ) {}
 
   /**
    * Create a new about section with image upload
@@ -78,6 +84,13 @@ export class AboutSectionsController {
           type: 'boolean',
           default: false,
         },
+        scheduledAt: {
+          type: 'string',
+          format: 'date-time',
+          description:
+            'With isPublished, a future date schedules the publication',
+          example: '2026-03-01T08:00:00.000Z',
+        },
         image: {
           type: 'string',
           format: 'binary',
@@ -97,7 +110,6 @@ export class AboutSectionsController {
   async createWithUpload(
     @Body() createDto: CreateAboutSectionWithUploadDto,
     @UploadedFile() file: Express.Multer.File,
-    @Req() request: Request,
   ) {
     this.logger.log('POST /api/about-sections/with-upload - Request received');
 
@@ -105,12 +117,9 @@ export class AboutSectionsController {
       throw new BadRequestException('Image is required');
     }
 
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
-
     const result = await this.aboutSectionsService.createWithImage(
       createDto,
       file,
-      baseUrl,
     );
 
     this.logger.log(`About section created successfully: ${result.id}`);
@@ -119,9 +128,11 @@ export class AboutSectionsController {
 
   /**
    * Get all published sections (public)
+   * A preview token of a section also includes it unpublished
    */
   @Public()
   @Get()
+  @UseInterceptors(PreviewNoStoreInterceptor)
   @ApiOperation({
     summary: 'Get all published about sections (sorted by sortOrder)',
   })
@@ -129,8 +140,16 @@ export class AboutSectionsController {
     status: 200,
     description: 'Published about sections retrieved successfully',
   })
-  async findPublished() {
-    return await this.aboutSectionsService.findPublished();
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired preview token',
+  })
+  async findPublished(@Query() query: PreviewQueryDto) {
+    const previewId = this.previewsService.previewedId(
+      query.preview,
+      'about-section',
+    );
+    return await this.aboutSectionsService.findPublished(previewId);
   }
 
   /**
@@ -149,9 +168,11 @@ export class AboutSectionsController {
 
   /**
    * Get a single published section by ID
+   * A preview token of the section also returns it unpublished
    */
   @Public()
   @Get(':id')
+  @UseInterceptors(PreviewNoStoreInterceptor)
   @ApiOperation({ summary: 'Get an about section by ID' })
   @ApiParam({
     name: 'id',
@@ -167,7 +188,13 @@ export class AboutSectionsController {
     status: 404,
     description: 'About section not found',
   })
-  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: PreviewQueryDto,
+  ) {
+    if (this.previewsService.canPreview(query.preview, 'about-section', id)) {
+      return await this.aboutSectionsService.findById(id);
+    }
     return await this.aboutSectionsService.findPublishedById(id);
   }
 
@@ -236,21 +263,19 @@ export class AboutSectionsController {
   async updateImage(
     @Param('id', ParseUUIDPipe) id: string,
     @UploadedFile() file: Express.Multer.File,
-    @Req() request: Request,
   ) {
     if (!file) {
       throw new BadRequestException('Image is required');
     }
 
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
-
-    return await this.aboutSectionsService.updateImage(id, file, baseUrl);
+    return await this.aboutSectionsService.updateImage(id, file);
   }
 
   /**
    * Delete a section and its image
    */
   @Delete(':id')
+  @Roles('admin')
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete an about section' })
@@ -264,6 +289,10 @@ export class AboutSectionsController {
     status: 204,
     description: 'About section deleted successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'About section not found',
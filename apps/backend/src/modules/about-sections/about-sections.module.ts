@@ -1,15 +1,12 @@
-import { Module, Logger } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MulterModule } from '@nestjs/platform-express';
 import { AboutSectionsService } from './about-sections.service';
 import { AboutSectionsController } from './about-sections.controller';
 import { AboutSection } from '../../entities/about-section.entity';
 import { UploadModule } from '../upload/upload.module';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
-import { v4 as uuidv4 } from 'uuid';
-
-const logger = new Logger('AboutSectionsModule');
+import { PreviewsModule } from '../previews/previews.module';
+import { imageUploadOptions } from '../upload/image-upload.options';
 
 /**
  * AboutSections module
@@ -19,46 +16,8 @@ const logger = new Logger('AboutSectionsModule');
   imports: [
     TypeOrmModule.forFeature([AboutSection]),
     UploadModule,
-    MulterModule.register({
-      storage: diskStorage({
-        destination: './uploads/about-sections',
-        filename: (req, file, callback) => {
-          const uniqueName = `${uuidv4()}${extname(file.originalname)}`;
-          logger.debug(
-            `Saving file: ${file.originalname} as ${uniqueName} (${file.size} bytes)`,
-          );
-          callback(null, uniqueName);
-        },
-      }),
-      fileFilter: (req, file, callback) => {
-        const allowedMimeTypes = [
-          'image/jpeg',
-          'image/jpg',
-          'image/png',
-          'image/webp',
-        ];
-
-        if (allowedMimeTypes.includes(file.mimetype)) {
-          logger.debug(
-            `File accepted: ${file.originalname} (${file.mimetype})`,
-          );
-          callback(null, true);
-        } else {
-          logger.warn(
-            `File rejected: ${file.originalname} (${file.mimetype}) - Invalid mime type`,
-          );
-          callback(
-            new Error(
-              'Invalid file type. Only JPEG, PNG, and WebP images are allowed.',
-            ),
-            false,
-          );
-        }
-      },
-      limits: {
-        fileSize: 5 * 1024 * 1024, // 5MB max file size
-      },
-    }),
+    PreviewsModule,
+    MulterModule.register(imageUploadOptions),
   ],
   controllers: [AboutSectionsController],
   providers: [AboutSectionsService],
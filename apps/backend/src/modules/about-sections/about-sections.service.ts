@@ -5,11 +5,12 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
 import { AboutSection } from '../../entities/about-section.entity';
 import { CreateAboutSectionWithUploadDto } from './dto/create-about-section-with-upload.dto';
 import { UpdateAboutSectionDto } from './dto/update-about-section.dto';
 import { UploadService } from '../upload/upload.service';
+import { applyPublicationSchedule } from '../../common/utils/publication-schedule.util';
 
 /**
  * AboutSections service - handles business logic for about page sections
@@ -30,38 +31,36 @@ export class AboutSectionsService {
   async createWithImage(
     createDto: CreateAboutSectionWithUploadDto,
     file: Express.Multer.File,
-    baseUrl: string,
   ): Promise<AboutSection> {
-    await this.uploadService.ensureUploadDir('about-sections');
-
     this.logger.log('Creating about section with image');
     this.logger.debug(`Received DTO: ${JSON.stringify(createDto, null, 2)}`);
-    this.logger.debug(`Uploaded file: ${file.filename} (${file.size} bytes)`);
+    this.logger.debug(
+      `Uploaded file: ${file.originalname} (${file.size} bytes)`,
+    );
 
-    try {
-      const imageUrl = this.uploadService.getFileUrl(
-        file.filename,
-        baseUrl,
-        'about-sections',
-      );
+    const stored = await this.uploadService.storeImage(file, 'about-sections');
 
+    try {
+      const { scheduledAt, ...sectionFields } = createDto;
       const sectionData = {
-        ...createDto,
-        image: imageUrl,
+        ...sectionFields,
+        image: stored.key,
+        imageVariants: stored.variants,
       };
 
       const section = this.aboutSectionRepository.create(sectionData);
+      applyPublicationSchedule(
+        section,
+        createDto.isPublished ?? false,
+        scheduledAt,
+      );
       const saved = await this.aboutSectionRepository.save(section);
 
       this.logger.log(`About section created successfully: ${saved.id}`);
       return saved;
     } catch (error) {
-      // Clean up uploaded file if creation fails
-      await this.uploadService
-        .deleteFile(file.filename, 'about-sections')
-        .catch((err) => {
-          this.logger.warn(`Failed to clean up file: ${err.message}`);
-        });
+      // Clean up stored image if creation fails
+      await this.uploadService.deleteImages([stored.key]);
 
       this.logger.error(`Failed to create about section: ${error.message}`);
       throw new BadRequestException('Failed to create about section');
@@ -70,10 +69,13 @@ export class AboutSectionsService {
 
   /**
    * Find all published sections ordered by sortOrder (public)
+   * @param previewId - Unpublished section to include, for its preview
    */
-  async findPublished(): Promise<AboutSection[]> {
+  async findPublished(previewId?: string): Promise<AboutSection[]> {
     return await this.aboutSectionRepository.find({
-      where: { isPublished: true },
+      where: previewId
+        ? [{ isPublished: true }, { id: previewId }]
+        : { isPublished: true },
       order: { sortOrder: 'ASC' },
     });
   }
@@ -127,12 +129,24 @@ export class AboutSectionsService {
     const section = await this.findById(id);
 
     // Exclude image field - image updates go through updateImage
-    const { image: _image, ...safeUpdate } =
-      updateDto as UpdateAboutSectionDto & {
-        image?: string;
-      };
+    const {
+      image: _image,
+      scheduledAt,
+      ...safeUpdate
+    } = updateDto as UpdateAboutSectionDto & {
+      image?: string;
+    };
     Object.assign(section, safeUpdate);
 
+    // Publishing with a future scheduledAt schedules the section
+    if (updateDto.isPublished !== undefined || scheduledAt !== undefined) {
+      applyPublicationSchedule(
+        section,
+        updateDto.isPublished ?? (section.isPublished || !!section.scheduledAt),
+        scheduledAt === undefined ? section.scheduledAt : scheduledAt,
+      );
+    }
+
     try {
       const updated = await this.aboutSectionRepository.save(section);
       this.logger.log(`About section updated successfully: ${id}`);
@@ -151,30 +165,29 @@ export class AboutSectionsService {
   async updateImage(
     id: string,
     file: Express.Multer.File,
-    baseUrl: string,
   ): Promise<AboutSection> {
     const section = await this.findById(id);
+    const oldImage = section.image;
 
-    await this.uploadService.ensureUploadDir('about-sections');
+    // Store the new image first so a rejected file keeps the old one
+    const stored = await this.uploadService.storeImage(file, 'about-sections');
 
-    // Delete old image
-    const oldFilename = this.extractFilename(section.image);
-    if (oldFilename) {
-      await this.uploadService
-        .deleteFile(oldFilename, 'about-sections')
-        .catch((err) => {
-          this.logger.warn(`Failed to delete old image: ${err.message}`);
-        });
+    section.image = stored.key;
+    section.imageVariants = stored.variants;
+
+    let updated: AboutSection;
+    try {
+      updated = await this.aboutSectionRepository.save(section);
+    } catch (error) {
+      await this.uploadService.deleteImages([stored.key]);
+      throw error;
     }
 
-    // Set new image URL
-    section.image = this.uploadService.getFileUrl(
-      file.filename,
-      baseUrl,
-      'about-sections',
-    );
+    // Delete old image once the section points to the new one
+    if (oldImage) {
+      await this.uploadService.deleteImages([oldImage]);
+    }
 
-    const updated = await this.aboutSectionRepository.save(section);
     this.logger.log(`About section image updated: ${id}`);
     return updated;
   }
@@ -186,15 +199,8 @@ export class AboutSectionsService {
     const section = await this.findById(id);
 
     // Delete image file
-    const filename = this.extractFilename(section.image);
-    if (filename) {
-      await this.uploadService
-        .deleteFile(filename, 'about-sections')
-        .catch((err) => {
-          this.logger.warn(
-            `Failed to delete image for section ${id}: ${err.message}`,
-          );
-        });
+    if (section.image) {
+      await this.uploadService.deleteImages([section.image]);
     }
 
     await this.aboutSectionRepository.remove(section);
@@ -202,14 +208,23 @@ export class AboutSectionsService {
   }
 
   /**
-   * Extract filename from a full image URL
+   * Publish the sections whose scheduled date has come
+   * Called by the publication scheduler
+   * @returns Number of sections published
    */
-  private extractFilename(imageUrl: string): string | null {
-    try {
-      const parts = imageUrl.split('/');
-      return parts[parts.length - 1] || null;
-    } catch {
-      return null;
+  async publishScheduled(now: Date = new Date()): Promise<number> {
+    const due = await this.aboutSectionRepository.find({
+      where: { scheduledAt: LessThanOrEqual(now) },
+    });
+
+    for (const section of due) {
+      section.isPublished = true;
+      section.scheduledAt = null;
+
+      await this.aboutSectionRepository.save(section);
+      this.logger.log(`Scheduled about section published: ${section.id}`);
     }
+
+    return due.length;
   }
 }
@@ -7,6 +7,7 @@ import {
   IsArray,
   MaxLength,
   Min,
+  IsDateString,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
@@ -74,4 +75,13 @@ export class CreateAboutSectionDto {
   @IsBoolean()
   @IsOptional()
   isPublished?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Publication date; with isPublished, a future date schedules the publication',
+    example: '2026-03-01T08:00:00.000Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  scheduledAt?: string | null;
 }
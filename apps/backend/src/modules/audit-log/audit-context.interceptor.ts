@@ -0,0 +1,32 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { auditContext } from './audit-context';
+
+/**
+ * Runs each authenticated request inside an audit context holding its user
+ * Interceptors run after the guards, so request.user is already set
+ */
+@Injectable()
+export class AuditContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user?: { id: string; username: string } }>();
+    const user = request?.user;
+
+    if (!user) {
+      return next.handle();
+    }
+
+    return new Observable((subscriber) =>
+      auditContext.run({ userId: user.id, username: user.username }, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
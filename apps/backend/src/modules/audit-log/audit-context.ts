@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * User behind the changes of the current request
+ */
+export interface AuditActor {
+  userId: string;
+  username: string;
+}
+
+/**
+ * Request-scoped audit context
+ * Set by AuditContextInterceptor for authenticated requests, and read by the
+ * entity subscriber, which has no access to the request
+ */
+export const auditContext = new AsyncLocalStorage<AuditActor>();
+
+/**
+ * User of the current request, null outside an authenticated request
+ */
+export function getAuditActor(): AuditActor | null {
+  return auditContext.getStore() ?? null;
+}
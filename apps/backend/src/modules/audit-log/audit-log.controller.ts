@@ -0,0 +1,35 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AuditLogService } from './audit-log.service';
+import { AuditLogQueryDto } from './dto/audit-log-query.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Audit log controller - who changed which content, and how (admin only)
+ */
+@ApiTags('audit-log')
+@ApiBearerAuth()
+@ApiResponse({ status: 403, description: 'Forbidden - admin role required' })
+@Roles('admin')
+@Controller('audit-log')
+export class AuditLogController {
+  constructor(private readonly auditLogService: AuditLogService) {}
+
+  /**
+   * List content changes with filters and pagination
+   */
+  @Get()
+  @ApiOperation({ summary: 'List content changes, newest first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit entries retrieved successfully',
+  })
+  async findAll(@Query() query: AuditLogQueryDto) {
+    return await this.auditLogService.findAll(query);
+  }
+}
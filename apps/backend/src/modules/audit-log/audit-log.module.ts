@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditLog } from '../../entities/audit-log.entity';
+import { AuditLogController } from './audit-log.controller';
+import { AuditLogService } from './audit-log.service';
+import { AuditLogSubscriber } from './audit-log.subscriber';
+import { AuditContextInterceptor } from './audit-context.interceptor';
+
+/**
+ * Audit log module
+ * Records content changes with an entity subscriber; a global interceptor
+ * makes the user of each request available to it
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditLog])],
+  controllers: [AuditLogController],
+  providers: [
+    AuditLogService,
+    AuditLogSubscriber,
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditContextInterceptor,
+    },
+  ],
+})
+export class AuditLogModule {}
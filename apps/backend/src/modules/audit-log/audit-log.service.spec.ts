@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AuditLogService } from './audit-log.service';
+import { AuditLog } from '../../entities/audit-log.entity';
+
+describe('AuditLogService', () => {
+  let service: AuditLogService;
+
+  const mockQueryBuilder = {
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn(),
+  };
+
+  const mockAuditLogRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditLogService,
+        {
+          provide: getRepositoryToken(AuditLog),
+          useValue: mockAuditLogRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditLogService>(AuditLogService);
+
+    jest.clearAllMocks();
+    mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findAll', () => {
+    it('should list the newest entries first, paginated', async () => {
+      // Arrange
+      mockQueryBuilder.getManyAndCount.mockResolvedValue([[{ id: 'a' }], 101]);
+
+      // Act
+      const result = await service.findAll({ page: 3, limit: 50 });
+
+      // Assert
+      expect(mockQueryBuilder.andWhere).not.toHaveBeenCalled();
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        'audit.createdAt',
+        'DESC',
+      );
+      expect(mockQueryBuilder.skip).toHaveBeenCalledWith(100);
+      expect(result).toEqual({
+        data: [{ id: 'a' }],
+        total: 101,
+        page: 3,
+        limit: 50,
+        totalPages: 3,
+      });
+    });
+
+    it('should apply every filter', async () => {
+      // Act
+      await service.findAll({
+        entityType: 'product',
+        entityId: 'product-1',
+        userId: '550e8400-e29b-41d4-a716-446655440000',
+        action: 'update',
+        field: 'price',
+        from: '2026-01-01',
+        to: '2026-02-01',
+      });
+
+      // Assert
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'audit.entityType = :entityType',
+        { entityType: 'product' },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'audit.entityId = :entityId',
+        { entityId: 'product-1' },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        '(audit.before ? :field OR audit.after ? :field)',
+        { field: 'price' },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'audit.createdAt >= :from',
+        { from: new Date('2026-01-01') },
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledTimes(7);
+    });
+  });
+});
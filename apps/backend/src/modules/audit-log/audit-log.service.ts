@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AuditLog } from '../../entities/audit-log.entity';
+import { AuditLogQueryDto } from './dto/audit-log-query.dto';
+
+/**
+ * Audit log service
+ * Read side of the audit log; rows are written by AuditLogSubscriber
+ */
+@Injectable()
+export class AuditLogService {
+  constructor(
+    @InjectRepository(AuditLog)
+    private readonly auditLogRepository: Repository<AuditLog>,
+  ) {}
+
+  /**
+   * List audit entries, newest first
+   */
+  async findAll(query: AuditLogQueryDto): Promise<{
+    data: AuditLog[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const {
+      entityType,
+      entityId,
+      userId,
+      action,
+      field,
+      from,
+      to,
+      page = 1,
+      limit = 50,
+    } = query;
+
+    const queryBuilder = this.auditLogRepository.createQueryBuilder('audit');
+
+    if (entityType) {
+      queryBuilder.andWhere('audit.entityType = :entityType', { entityType });
+    }
+
+    if (entityId) {
+      queryBuilder.andWhere('audit.entityId = :entityId', { entityId });
+    }
+
+    if (userId) {
+      queryBuilder.andWhere('audit.userId = :userId', { userId });
+    }
+
+    if (action) {
+      queryBuilder.andWhere('audit.action = :action', { action });
+    }
+
+    if (field) {
+      queryBuilder.andWhere('(audit.before ? :field OR audit.after ? :field)', {
+        field,
+      });
+    }
+
+    if (from) {
+      queryBuilder.andWhere('audit.createdAt >= :from', {
+        from: new Date(from),
+      });
+    }
+
+    if (to) {
+      queryBuilder.andWhere('audit.createdAt < :to', { to: new Date(to) });
+    }
+
+    queryBuilder
+      .orderBy('audit.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import { DataSource, EntityMetadata } from 'typeorm';
+import { AuditLogSubscriber } from './audit-log.subscriber';
+import { auditContext } from './audit-context';
+import { AuditLog } from '../../entities/audit-log.entity';
+import { Product } from '../../entities/product.entity';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { Order } from '../../entities/order.entity';
+
+/**
+ * Unit tests for AuditLogSubscriber
+ * Entity metadata is reduced to the members the subscriber reads
+ */
+describe('AuditLogSubscriber', () => {
+  let subscriber: AuditLogSubscriber;
+
+  const mockDataSource = { subscribers: [] as unknown[] };
+  const mockManager = { insert: jest.fn() };
+
+  const column = (
+    propertyName: string,
+    flags: { isCreateDate?: boolean; isUpdateDate?: boolean } = {},
+  ) => ({
+    propertyName,
+    ...flags,
+    getEntityValue: (entity: Record<string, unknown>) => entity[propertyName],
+  });
+
+  const productMetadata = {
+    target: Product,
+    primaryColumns: [column('id')],
+    columns: [
+      column('id'),
+      column('name'),
+      column('price'),
+      column('createdAt', { isCreateDate: true }),
+      column('updatedAt', { isUpdateDate: true }),
+    ],
+    manyToManyRelations: [],
+  } as unknown as EntityMetadata;
+
+  const articleMetadata = {
+    target: BlogArticle,
+    primaryColumns: [column('id')],
+    columns: [column('id'), column('title')],
+    manyToManyRelations: [
+      {
+        propertyName: 'tags',
+        getEntityValue: (entity: Record<string, unknown>) => entity.tags,
+        inverseEntityMetadata: { primaryColumns: [column('id')] },
+      },
+    ],
+  } as unknown as EntityMetadata;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    subscriber = new AuditLogSubscriber(
+      mockDataSource as unknown as DataSource,
+    );
+  });
+
+  it('should register itself on the data source', () => {
+    expect(mockDataSource.subscribers).toContain(subscriber);
+  });
+
+  it('should record a creation with the user of the request', async () => {
+    // Act
+    await auditContext.run({ userId: 'user-1', username: 'admin' }, () =>
+      subscriber.afterInsert({
+        metadata: productMetadata,
+        manager: mockManager,
+        entity: {
+          id: 'product-1',
+          name: 'Tapis Atlas',
+          price: 420,
+          createdAt: new Date(),
+        },
+      } as never),
+    );
+
+    // Assert
+    expect(mockManager.insert).toHaveBeenCalledWith(AuditLog, {
+      entityType: 'product',
+      entityId: 'product-1',
+      action: 'create',
+      before: null,
+      after: { id: 'product-1', name: 'Tapis Atlas', price: 420 },
+      userId: 'user-1',
+      username: 'admin',
+    });
+  });
+
+  it('should record only the changed fields of an update', async () => {
+    // Act
+    await subscriber.afterUpdate({
+      metadata: productMetadata,
+      manager: mockManager,
+      databaseEntity: { id: 'product-1', name: 'Tapis Atlas', price: '420.00' },
+      entity: { id: 'product-1', name: 'Tapis Atlas', price: 380 },
+    } as never);
+
+    // Assert
+    expect(mockManager.insert).toHaveBeenCalledWith(
+      AuditLog,
+      expect.objectContaining({
+        action: 'update',
+        before: { price: '420.00' },
+        after: { price: 380 },
+        userId: null,
+      }),
+    );
+  });
+
+  it('should not record an update that changes nothing', async () => {
+    // Act
+    await subscriber.afterUpdate({
+      metadata: productMetadata,
+      manager: mockManager,
+      databaseEntity: { id: 'product-1', price: '420.00' },
+      entity: { id: 'product-1', price: 420 },
+    } as never);
+
+    // Assert
+    expect(mockManager.insert).not.toHaveBeenCalled();
+  });
+
+  it('should compare many-to-many relations by ids', async () => {
+    // Act
+    await subscriber.afterUpdate({
+      metadata: articleMetadata,
+      manager: mockManager,
+      databaseEntity: { id: 'article-1', title: 'Laine', tags: ['tag-1'] },
+      entity: {
+        id: 'article-1',
+        title: 'Laine',
+        tags: [{ id: 'tag-2' }, { id: 'tag-1' }],
+      },
+    } as never);
+
+    // Assert
+    expect(mockManager.insert).toHaveBeenCalledWith(
+      AuditLog,
+      expect.objectContaining({
+        entityType: 'blog-article',
+        before: { tags: ['tag-1'] },
+        after: { tags: ['tag-1', 'tag-2'] },
+      }),
+    );
+  });
+
+  it('should record a deletion with the removed row', async () => {
+    // Act
+    await subscriber.afterRemove({
+      metadata: productMetadata,
+      manager: mockManager,
+      entity: { name: 'Tapis Atlas' },
+      databaseEntity: { id: 'product-1', name: 'Tapis Atlas', price: '420.00' },
+      entityId: { id: 'product-1' },
+    } as never);
+
+    // Assert
+    expect(mockManager.insert).toHaveBeenCalledWith(
+      AuditLog,
+      expect.objectContaining({
+        entityId: 'product-1',
+        action: 'delete',
+        before: { id: 'product-1', name: 'Tapis Atlas', price: '420.00' },
+        after: null,
+      }),
+    );
+  });
+
+  it('should ignore entities that are not audited', async () => {
+    // Act
+    await subscriber.afterInsert({
+      metadata: { ...productMetadata, target: Order },
+      manager: mockManager,
+      entity: { id: 'order-1' },
+    } as never);
+
+    // Assert
+    expect(mockManager.insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+import { Injectable } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import {
+  DataSource,
+  EntityManager,
+  EntityMetadata,
+  EntitySubscriberInterface,
+  InsertEvent,
+  ObjectLiteral,
+  RemoveEvent,
+  UpdateEvent,
+} from 'typeorm';
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditLog,
+} from '../../entities/audit-log.entity';
+import { Product } from '../../entities/product.entity';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { BlogTag } from '../../entities/blog-tag.entity';
+import { AboutSection } from '../../entities/about-section.entity';
+import { PageContent } from '../../entities/page-content.entity';
+import { ContactLink } from '../../entities/contact-link.entity';
+import { getAuditActor } from './audit-context';
+
+/**
+ * Audited entities and the type recorded for them
+ */
+const AUDITED_ENTITIES = new Map<EntityMetadata['target'], AuditEntityType>([
+  [Product, 'product'],
+  [BlogArticle, 'blog-article'],
+  [BlogTag, 'blog-tag'],
+  [AboutSection, 'about-section'],
+  [PageContent, 'page-content'],
+  [ContactLink, 'contact-link'],
+]);
+
+type Row = Record<string, unknown>;
+
+/**
+ * Audit log subscriber
+ *
+ * Records every insert, update and remove of the audited entities made
+ * through repository save() and remove() (query builder updates and
+ * delete() bypass subscribers). Rows are written with the manager of the
+ * change, inside its transaction: a change is never saved without its audit
+ * row. Many-to-many relations (article tags) are compared by ids when the
+ * row itself is updated.
+ */
+@Injectable()
+export class AuditLogSubscriber implements EntitySubscriberInterface {
+  constructor(@InjectDataSource() dataSource: DataSource) {
+    dataSource.subscribers.push(this);
+  }
+
+  async afterInsert(event: InsertEvent<ObjectLiteral>): Promise<void> {
+    const entityType = AUDITED_ENTITIES.get(event.metadata.target);
+    if (!entityType || !event.entity) {
+      return;
+    }
+
+    await this.write(event.manager, {
+      entityType,
+      entityId: this.getId(event.metadata, event.entity),
+      action: 'create',
+      before: null,
+      after: this.snapshot(event.metadata, event.entity),
+    });
+  }
+
+  async afterUpdate(event: UpdateEvent<ObjectLiteral>): Promise<void> {
+    const entityType = AUDITED_ENTITIES.get(event.metadata.target);
+    if (!entityType || !event.entity || !event.databaseEntity) {
+      return;
+    }
+
+    const diff = this.diff(
+      this.snapshot(event.metadata, event.databaseEntity),
+      this.snapshot(event.metadata, event.entity),
+    );
+    if (!diff) {
+      return;
+    }
+
+    await this.write(event.manager, {
+      entityType,
+      entityId: this.getId(event.metadata, event.databaseEntity),
+      action: 'update',
+      ...diff,
+    });
+  }
+
+  async afterRemove(event: RemoveEvent<ObjectLiteral>): Promise<void> {
+    const entityType = AUDITED_ENTITIES.get(event.metadata.target);
+    const row = event.databaseEntity ?? event.entity;
+    if (!entityType || !row) {
+      return;
+    }
+
+    // remove() clears the id of the entity it was given
+    const entityId =
+      this.getId(event.metadata, row) ??
+      this.getId(event.metadata, event.entityId as ObjectLiteral);
+
+    await this.write(event.manager, {
+      entityType,
+      entityId,
+      action: 'delete',
+      before: this.snapshot(event.metadata, row),
+      after: null,
+    });
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  private async write(
+    manager: EntityManager,
+    entry: {
+      entityType: AuditEntityType;
+      entityId: string | null;
+      action: AuditAction;
+      before: Row | null;
+      after: Row | null;
+    },
+  ): Promise<void> {
+    const actor = getAuditActor();
+
+    await manager.insert(AuditLog, {
+      ...entry,
+      entityId: entry.entityId ?? 'unknown',
+      userId: actor?.userId ?? null,
+      username: actor?.username ?? null,
+    });
+  }
+
+  private getId(
+    metadata: EntityMetadata,
+    row: ObjectLiteral | undefined,
+  ): string | null {
+    const value = row ? metadata.primaryColumns[0]?.getEntityValue(row) : null;
+    return value == null ? null : String(value);
+  }
+
+  /**
+   * Column values of a row, plus the ids of its loaded many-to-many
+   * relations; timestamps and generated columns maintained by the database
+   * are left out
+   */
+  private snapshot(metadata: EntityMetadata, entity: ObjectLiteral): Row {
+    const row: Row = {};
+
+    for (const column of metadata.columns) {
+      if (
+        column.isCreateDate ||
+        column.isUpdateDate ||
+        column.generatedType ||
+        column.relationMetadata
+      ) {
+        continue;
+      }
+      const value: unknown = column.getEntityValue(entity);
+      if (value !== undefined) {
+        row[column.propertyName] = this.normalize(value);
+      }
+    }
+
+    for (const relation of metadata.manyToManyRelations) {
+      const related: unknown = relation.getEntityValue(entity);
+      if (!Array.isArray(related)) {
+        continue;
+      }
+      const primary = relation.inverseEntityMetadata.primaryColumns[0];
+      row[relation.propertyName] = related
+        .map((item: unknown) =>
+          String(
+            typeof item === 'object' && item !== null
+              ? primary.getEntityValue(item as ObjectLiteral)
+              : item,
+          ),
+        )
+        .sort();
+    }
+
+    return row;
+  }
+
+  /**
+   * Fields whose value changed, null when nothing did
+   */
+  private diff(previous: Row, next: Row): { before: Row; after: Row } | null {
+    const before: Row = {};
+    const after: Row = {};
+
+    for (const key of Object.keys(next)) {
+      if (!(key in previous)) {
+        continue;
+      }
+      if (!this.isSame(previous[key], next[key])) {
+        before[key] = previous[key];
+        after[key] = next[key];
+      }
+    }
+
+    return Object.keys(after).length > 0 ? { before, after } : null;
+  }
+
+  /**
+   * Decimal columns are read as strings but often assigned numbers
+   */
+  private isSame(previous: unknown, next: unknown): boolean {
+    if (
+      previous != null &&
+      next != null &&
+      (typeof previous === 'number' || typeof next === 'number')
+    ) {
+      return Number(previous) === Number(next);
+    }
+    return JSON.stringify(previous) === JSON.stringify(next);
+  }
+
+  /**
+   * JSON-friendly value: dates as ISO strings
+   */
+  private normalize(value: unknown): unknown {
+    return value instanceof Date ? value.toISOString() : value;
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  IsOptional,
+  IsIn,
+  IsNumber,
+  Min,
+  Max,
+  IsString,
+  IsUUID,
+  IsDateString,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type {
+  AuditAction,
+  AuditEntityType,
+} from '../../../entities/audit-log.entity';
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'product',
+  'blog-article',
+  'blog-tag',
+  'about-section',
+  'page-content',
+  'contact-link',
+];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete'];
+
+/**
+ * DTO for querying the audit log with filters and pagination
+ */
+export class AuditLogQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by content type',
+    enum: AUDIT_ENTITY_TYPES,
+  })
+  @IsIn(AUDIT_ENTITY_TYPES)
+  @IsOptional()
+  entityType?: AuditEntityType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by content ID',
+    example: '3f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f',
+  })
+  @IsString()
+  @IsOptional()
+  entityId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by user ID', format: 'uuid' })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by action', enum: AUDIT_ACTIONS })
+  @IsIn(AUDIT_ACTIONS)
+  @IsOptional()
+  action?: AuditAction;
+
+  @ApiPropertyOptional({
+    description: 'Only changes whose before/after values contain this field',
+    example: 'price',
+  })
+  @IsString()
+  @IsOptional()
+  field?: string;
+
+  @ApiPropertyOptional({
+    description: 'Changes made at or after this date (ISO 8601)',
+    example: '2026-01-01',
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Changes made before this date (ISO 8601)',
+    example: '2026-02-01',
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (starts at 1)',
+    default: 1,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    default: 50,
+    minimum: 1,
+    maximum: 200,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  @IsOptional()
+  limit?: number = 50;
+}
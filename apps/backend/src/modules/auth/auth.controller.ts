@@ -6,6 +6,8 @@ import {
   Body,
   Request,
   UseGuards,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -15,19 +17,39 @@ import {
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
-import { AuthResponseDto } from './dto/auth-response.dto';
+import {
+  AuthResponseDto,
+  TwoFactorChallengeDto,
+} from './dto/auth-response.dto';
 import { UpdateCredentialsDto } from './dto/update-credentials.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import {
+  DisableTwoFactorDto,
+  RecoveryCodesDto,
+  TwoFactorCodeDto,
+  TwoFactorEnrollmentDto,
+  TwoFactorStatusDto,
+} from './dto/two-factor.dto';
+import { TwoFactorService } from './two-factor.service';
+import { PasswordResetService } from './password-reset.service';
 import { Public } from './decorators/public.decorator';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 
 /**
  * Authentication Controller
- * Handles login and user profile endpoints
+ * Handles login, two-factor authentication, token refresh, logout, password
+ * reset and user profile endpoints
  */
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly passwordResetService: PasswordResetService,
+  ) {}
 
   /**
    * Login endpoint
@@ -38,15 +60,277 @@ export class AuthController {
   @ApiOperation({ summary: 'Login with username and password' })
   @ApiResponse({
     status: 200,
-    description: 'Login successful, returns JWT token',
+    description:
+      'Login successful, returns access and refresh tokens, or a two-factor challenge (TwoFactorChallengeDto) when 2FA is enabled',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid credentials or disabled account',
+  })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many failed attempts for this username or IP address, retryAfter gives the remaining wait in seconds',
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Request() req,
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    return this.authService.login(loginDto, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+  }
+
+  /**
+   * Second login step for users with 2FA
+   * Public route - the challenge token proves the password step
+   */
+  @Public()
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete a 2FA login with an authenticator or recovery code',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Code accepted, returns access and refresh tokens',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code, or invalid or expired challenge token',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts for this username or IP address',
+  })
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Request() req,
+  ): Promise<AuthResponseDto> {
+    return this.authService.verifyTwoFactor(verifyTwoFactorDto, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+  }
+
+  /**
+   * Two-factor status of the current user
+   * Protected route - requires JWT authentication
+   */
+  @Get('2fa')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the 2FA status of the current user' })
+  @ApiResponse({ status: 200, type: TwoFactorStatusDto })
+  async getTwoFactorStatus(@Request() req): Promise<TwoFactorStatusDto> {
+    return this.twoFactorService.getStatus(req.user.id);
+  }
+
+  /**
+   * Start a 2FA enrollment
+   * Protected route - requires JWT authentication
+   */
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Generate a 2FA secret, pending until confirmed with a code',
+  })
+  @ApiResponse({ status: 200, type: TwoFactorEnrollmentDto })
+  @ApiResponse({ status: 409, description: '2FA is already enabled' })
+  async setupTwoFactor(@Request() req): Promise<TwoFactorEnrollmentDto> {
+    return this.twoFactorService.startEnrollment(
+      req.user.id,
+      req.user.username,
+    );
+  }
+
+  /**
+   * Confirm a 2FA enrollment with a first code
+   * Protected route - requires JWT authentication
+   */
+  @Post('2fa/enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Enable 2FA and get recovery codes' })
+  @ApiResponse({
+    status: 200,
+    description: 'Recovery codes, shown only once',
+    type: RecoveryCodesDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or no enrollment in progress',
+  })
+  async enableTwoFactor(
+    @Request() req,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodesDto> {
+    const recoveryCodes = await this.twoFactorService.confirmEnrollment(
+      req.user.id,
+      twoFactorCodeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  /**
+   * Replace the recovery codes
+   * Protected route - requires JWT authentication
+   */
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Regenerate 2FA recovery codes' })
+  @ApiResponse({
+    status: 200,
+    description: 'New recovery codes, the previous ones no longer work',
+    type: RecoveryCodesDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or 2FA not enabled',
+  })
+  async regenerateRecoveryCodes(
+    @Request() req,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodesDto> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      req.user.id,
+      twoFactorCodeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn 2FA off
+   * Protected route - requires JWT authentication
+   */
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Disable 2FA (password and code required)' })
+  @ApiResponse({ status: 204, description: '2FA disabled' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or 2FA not enabled',
+  })
+  @ApiResponse({ status: 401, description: 'Current password is incorrect' })
+  async disableTwoFactor(
+    @Request() req,
+    @Body() disableTwoFactorDto: DisableTwoFactorDto,
+  ): Promise<void> {
+    await this.twoFactorService.disable(
+      req.user.id,
+      disableTwoFactorDto.password,
+      disableTwoFactorDto.code,
+    );
+  }
+
+  /**
+   * Email a password reset link
+   * Public route - answers the same way whether or not the address is known
+   */
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Request a password reset link by email' })
+  @ApiResponse({
+    status: 202,
+    description:
+      'If an active account has this address, a reset link is on its way',
+  })
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<void> {
+    await this.passwordResetService.requestReset(forgotPasswordDto.email);
+  }
+
+  /**
+   * Set a new password with the token of a reset link
+   * Public route - the token is the credential
+   */
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Reset the password with a reset link token (revokes sessions)',
+  })
+  @ApiResponse({ status: 204, description: 'Password changed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid, expired or already used reset token',
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<void> {
+    await this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword,
+    );
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * Public route - the refresh token is the credential
+   */
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh the access token (rotates the refresh token)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'New access and refresh tokens',
     type: AuthResponseDto,
   })
   @ApiResponse({
     status: 401,
-    description: 'Invalid credentials',
+    description:
+      'Invalid, expired, revoked or already used refresh token (reuse revokes the session)',
+  })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+  ): Promise<AuthResponseDto> {
+    return this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  /**
+   * Logout: revoke the session of a refresh token
+   * Public route - works even once the access token has expired
+   */
+  @Public()
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Logout and revoke the current session' })
+  @ApiResponse({
+    status: 204,
+    description: 'Session revoked',
+  })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<void> {
+    await this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  /**
+   * Log out everywhere: revoke every session of the current user
+   * Protected route - requires JWT authentication
+   */
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Logout from every device' })
+  @ApiResponse({
+    status: 204,
+    description: 'All sessions revoked',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - invalid or missing token',
   })
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponseDto> {
-    return this.authService.login(loginDto);
+  async logoutAll(@Request() req): Promise<void> {
+    await this.authService.logoutAll(req.user.id);
   }
 
   /**
@@ -69,23 +353,25 @@ export class AuthController {
     return {
       id: req.user.id,
       username: req.user.username,
+      email: req.user.email,
       role: req.user.role,
     };
   }
 
   /**
-   * Update user credentials (username and/or password)
+   * Update user credentials (username, email and/or password)
    * Protected route - requires JWT authentication
    */
   @Patch('credentials')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({
-    summary: 'Update user credentials (username and/or password)',
+    summary: 'Update user credentials (username, email and/or password)',
   })
   @ApiResponse({
     status: 200,
-    description: 'Credentials updated successfully',
+    description:
+      'Credentials updated successfully, sessions on other devices are revoked',
   })
   @ApiResponse({
     status: 400,
@@ -102,15 +388,17 @@ export class AuthController {
   })
   @ApiResponse({
     status: 409,
-    description: 'Conflict - username already taken',
+    description: 'Conflict - username or email already taken',
   })
   async updateCredentials(
     @Request() req,
     @Body() updateCredentialsDto: UpdateCredentialsDto,
   ) {
+    // Sessions on other devices are revoked, this one stays open
     return this.authService.updateCredentials(
       req.user.id,
       updateCredentialsDto,
+      req.user.sessionId,
     );
   }
 }
@@ -3,27 +3,60 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from '../../entities/user.entity';
+import { Session } from '../../entities/session.entity';
+import { LoginAttempt } from '../../entities/login-attempt.entity';
+import { TwoFactorAuth } from '../../entities/two-factor-auth.entity';
+import { PasswordResetToken } from '../../entities/password-reset-token.entity';
+import { MailModule } from '../mail/mail.module';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { TwoFactorService } from './two-factor.service';
+import { PasswordResetService } from './password-reset.service';
+import { LOGIN_ATTEMPT_STORE } from './throttling/login-attempt-store.interface';
+import { MemoryLoginAttemptStore } from './throttling/memory-login-attempt.store';
 import { JwtStrategy } from './strategies/jwt.strategy';
 
 /**
  * Authentication Module
- * Handles user authentication with JWT tokens
+ * Handles user authentication with short-lived JWT access tokens and
+ * rotating refresh tokens backed by the sessions table, and optional TOTP
+ * two-factor authentication. Logins are throttled with counters kept in
+ * LOGIN_ATTEMPT_STORE (in memory by default). Forgotten passwords are reset
+ * with single-use links sent by email
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([
+      User,
+      Session,
+      LoginAttempt,
+      TwoFactorAuth,
+      PasswordResetToken,
+    ]),
+    MailModule,
     PassportModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'dev-secret-change-in-production',
       signOptions: {
-        expiresIn: (process.env.JWT_EXPIRATION || '1h') as any,
+        expiresIn: (process.env.JWT_EXPIRATION || '15m') as any,
       },
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    SessionsService,
+    LoginAttemptsService,
+    TwoFactorService,
+    PasswordResetService,
+    JwtStrategy,
+    {
+      provide: LOGIN_ATTEMPT_STORE,
+      useFactory: () => new MemoryLoginAttemptStore(),
+    },
+  ],
+  exports: [AuthService, SessionsService],
 })
 export class AuthModule {}
@@ -7,13 +7,17 @@ import {
   BadRequestException,
   ConflictException,
   NotFoundException,
+  HttpException,
 } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
 import { AuthService } from './auth.service';
 import { User } from '../../entities/user.entity';
 import { UpdateCredentialsDto } from './dto/update-credentials.dto';
+import { SessionsService } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { TwoFactorService } from './two-factor.service';
 
-describe('AuthService - updateCredentials', () => {
+describe('AuthService', () => {
   let service: AuthService;
   let _userRepository: Repository<User>;
   let _jwtService: JwtService;
@@ -21,8 +25,10 @@ describe('AuthService - updateCredentials', () => {
   const mockUser: User = {
     id: '550e8400-e29b-41d4-a716-446655440000',
     username: 'admin',
+    email: null,
     password: '$2b$10$hashedpassword',
     role: 'admin',
+    isActive: true,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -34,6 +40,27 @@ describe('AuthService - updateCredentials', () => {
 
   const mockJwtService = {
     sign: jest.fn(),
+    decode: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    create: jest.fn(),
+    rotate: jest.fn(),
+    revoke: jest.fn(),
+    revokeByToken: jest.fn(),
+    revokeAllForUser: jest.fn(),
+  };
+
+  const mockLoginAttemptsService = {
+    assertAllowed: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    isEnabled: jest.fn(),
+    verify: jest.fn(),
   };
 
   beforeAll(async () => {
@@ -48,6 +75,18 @@ describe('AuthService - updateCredentials', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: SessionsService,
+          useValue: mockSessionsService,
+        },
+        {
+          provide: LoginAttemptsService,
+          useValue: mockLoginAttemptsService,
+        },
+        {
+          provide: TwoFactorService,
+          useValue: mockTwoFactorService,
+        },
       ],
     }).compile();
 
@@ -60,6 +99,238 @@ describe('AuthService - updateCredentials', () => {
     // Reset mocks before each test to avoid state leakage
     mockUserRepository.findOne.mockReset();
     mockUserRepository.save.mockReset();
+    jest.clearAllMocks();
+    mockJwtService.sign.mockReturnValue('signed.jwt.token');
+    mockJwtService.decode.mockReturnValue({ iat: 1000, exp: 1900 });
+    mockTwoFactorService.isEnabled.mockResolvedValue(false);
+  });
+
+  describe('login', () => {
+    it('should open a session and return a token pair', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+      mockSessionsService.create.mockResolvedValue({
+        session: { id: 'session-1' },
+        refreshToken: 'session-1.secret',
+      });
+
+      const result = await service.login(
+        { username: 'admin', password: 'password123' },
+        { userAgent: 'jest' },
+      );
+
+      expect(mockSessionsService.create).toHaveBeenCalledWith(mockUser.id, {
+        userAgent: 'jest',
+      });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: mockUser.id, sid: 'session-1' }),
+      );
+      expect(result).toEqual({
+        access_token: 'signed.jwt.token',
+        refresh_token: 'session-1.secret',
+        expires_in: 900,
+        user: {
+          id: mockUser.id,
+          username: 'admin',
+          email: null,
+          role: 'admin',
+        },
+      });
+    });
+
+    it('should record successful logins', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+      mockSessionsService.create.mockResolvedValue({
+        session: { id: 'session-1' },
+        refreshToken: 'session-1.secret',
+      });
+
+      await service.login(
+        { username: 'admin', password: 'password123' },
+        { ipAddress: '203.0.113.7' },
+      );
+
+      expect(mockLoginAttemptsService.assertAllowed).toHaveBeenCalledWith(
+        'admin',
+        { ipAddress: '203.0.113.7' },
+      );
+      expect(mockLoginAttemptsService.recordSuccess).toHaveBeenCalledWith(
+        'admin',
+        mockUser.id,
+        { ipAddress: '203.0.113.7' },
+      );
+    });
+
+    it('should record invalid credentials as a failed attempt', async () => {
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.login({ username: 'ghost', password: 'password123' }),
+      ).rejects.toThrow('Invalid credentials');
+      expect(mockLoginAttemptsService.recordFailure).toHaveBeenCalledWith(
+        'ghost',
+        'invalid_credentials',
+        {},
+      );
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not verify the password of a throttled attempt', async () => {
+      mockLoginAttemptsService.assertAllowed.mockRejectedValueOnce(
+        new HttpException('Too many failed login attempts', 429),
+      );
+      const compare = jest.spyOn(bcrypt, 'compare');
+
+      await expect(
+        service.login({ username: 'admin', password: 'guess' }),
+      ).rejects.toThrow(HttpException);
+      expect(mockUserRepository.findOne).not.toHaveBeenCalled();
+      expect(compare).not.toHaveBeenCalled();
+      expect(mockLoginAttemptsService.recordFailure).not.toHaveBeenCalled();
+    });
+
+    it('should refuse disabled accounts', async () => {
+      mockUserRepository.findOne.mockResolvedValue({
+        ...mockUser,
+        isActive: false,
+      });
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+
+      await expect(
+        service.login({ username: 'admin', password: 'password123' }),
+      ).rejects.toThrow('Account is disabled');
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+      expect(mockLoginAttemptsService.recordFailure).toHaveBeenCalledWith(
+        'admin',
+        'account_disabled',
+        {},
+        mockUser.id,
+      );
+    });
+  });
+
+  describe('two-factor login', () => {
+    it('should return a challenge instead of tokens when 2FA is enabled', async () => {
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+      mockTwoFactorService.isEnabled.mockResolvedValue(true);
+      mockJwtService.sign.mockReturnValue('challenge.jwt.token');
+
+      const result = await service.login({
+        username: 'admin',
+        password: 'password123',
+      });
+
+      expect(result).toEqual({
+        two_factor_required: true,
+        challenge_token: 'challenge.jwt.token',
+        expires_in: 300,
+      });
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        { sub: mockUser.id, typ: '2fa_challenge' },
+        { expiresIn: 300 },
+      );
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+      expect(mockLoginAttemptsService.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should open a session once the code is verified', async () => {
+      mockJwtService.verify.mockReturnValue({
+        sub: mockUser.id,
+        typ: '2fa_challenge',
+      });
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockTwoFactorService.verify.mockResolvedValue(true);
+      mockSessionsService.create.mockResolvedValue({
+        session: { id: 'session-1' },
+        refreshToken: 'session-1.secret',
+      });
+
+      const result = await service.verifyTwoFactor({
+        challengeToken: 'challenge.jwt.token',
+        code: '123456',
+      });
+
+      expect(mockTwoFactorService.verify).toHaveBeenCalledWith(
+        mockUser.id,
+        '123456',
+      );
+      expect(mockLoginAttemptsService.recordSuccess).toHaveBeenCalled();
+      expect(result.refresh_token).toBe('session-1.secret');
+    });
+
+    it('should count a wrong code as a failed attempt', async () => {
+      mockJwtService.verify.mockReturnValue({
+        sub: mockUser.id,
+        typ: '2fa_challenge',
+      });
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+      mockTwoFactorService.verify.mockResolvedValue(false);
+
+      await expect(
+        service.verifyTwoFactor({
+          challengeToken: 'challenge.jwt.token',
+          code: '000000',
+        }),
+      ).rejects.toThrow('Invalid two-factor code');
+      expect(mockLoginAttemptsService.recordFailure).toHaveBeenCalledWith(
+        'admin',
+        'invalid_two_factor_code',
+        {},
+        mockUser.id,
+      );
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an access token used as a challenge', async () => {
+      mockJwtService.verify.mockReturnValue({
+        sub: mockUser.id,
+        sid: 'session-1',
+      });
+
+      await expect(
+        service.verifyTwoFactor({
+          challengeToken: 'signed.jwt.token',
+          code: '123456',
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockTwoFactorService.verify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token and sign a new access token', async () => {
+      mockSessionsService.rotate.mockResolvedValue({
+        session: { id: 'session-1', userId: mockUser.id },
+        refreshToken: 'session-1.next',
+      });
+      mockUserRepository.findOne.mockResolvedValue(mockUser);
+
+      const result = await service.refresh('session-1.secret');
+
+      expect(mockSessionsService.rotate).toHaveBeenCalledWith(
+        'session-1.secret',
+      );
+      expect(result.refresh_token).toBe('session-1.next');
+      expect(result.access_token).toBe('signed.jwt.token');
+    });
+
+    it('should revoke the session of a disabled user', async () => {
+      mockSessionsService.rotate.mockResolvedValue({
+        session: { id: 'session-1', userId: mockUser.id },
+        refreshToken: 'session-1.next',
+      });
+      mockUserRepository.findOne.mockResolvedValue({
+        ...mockUser,
+        isActive: false,
+      });
+
+      await expect(service.refresh('session-1.secret')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockSessionsService.revoke).toHaveBeenCalledWith('session-1');
+    });
   });
 
   describe('updateCredentials', () => {
@@ -72,7 +343,7 @@ describe('AuthService - updateCredentials', () => {
         BadRequestException,
       );
       await expect(service.updateCredentials(mockUser.id, dto)).rejects.toThrow(
-        'At least one field (username or newPassword) must be provided',
+        'At least one field (username, email or newPassword) must be provided',
       );
     });
 
@@ -127,6 +398,31 @@ describe('AuthService - updateCredentials', () => {
       );
     });
 
+    it('should throw ConflictException when email is already taken', async () => {
+      const existingUser: User = {
+        ...mockUser,
+        id: 'different-id',
+        email: 'taken@example.com',
+      };
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(mockUser) // First call for current user
+        .mockResolvedValueOnce(existingUser); // Second call for email check
+
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+
+      const dto: UpdateCredentialsDto = {
+        currentPassword: 'password123',
+        email: 'Taken@Example.com',
+      };
+
+      await expect(service.updateCredentials(mockUser.id, dto)).rejects.toThrow(
+        new ConflictException('Email is already taken'),
+      );
+      expect(mockUserRepository.findOne).toHaveBeenLastCalledWith({
+        where: { email: 'taken@example.com' },
+      });
+    });
+
     it('should successfully update password', async () => {
       mockUserRepository.findOne.mockResolvedValue(mockUser);
       jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
@@ -145,13 +441,21 @@ describe('AuthService - updateCredentials', () => {
         newPassword: 'newPassword456',
       };
 
-      const result = await service.updateCredentials(mockUser.id, dto);
+      const result = await service.updateCredentials(
+        mockUser.id,
+        dto,
+        'session-1',
+      );
 
       expect(result).not.toHaveProperty('password');
       expect(result.id).toBe(mockUser.id);
       expect(result.username).toBe(mockUser.username);
       expect(bcrypt.hash).toHaveBeenCalledWith('newPassword456', 10);
       expect(mockUserRepository.save).toHaveBeenCalled();
+      expect(mockSessionsService.revokeAllForUser).toHaveBeenCalledWith(
+        mockUser.id,
+        'session-1',
+      );
     });
 
     it('should successfully update username', async () => {
@@ -11,12 +11,31 @@ import { Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
 import { User } from '../../entities/user.entity';
 import { LoginDto } from './dto/login.dto';
-import { AuthResponseDto } from './dto/auth-response.dto';
+import {
+  AuthResponseDto,
+  TwoFactorChallengeDto,
+} from './dto/auth-response.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
 import { UpdateCredentialsDto } from './dto/update-credentials.dto';
+import { SessionContext, SessionsService } from './sessions.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { TwoFactorService } from './two-factor.service';
+
+/**
+ * `typ` claim of the token proving the password step of a 2FA login
+ * It is no access token: the JWT strategy rejects it
+ */
+export const TWO_FACTOR_CHALLENGE_TYPE = '2fa_challenge';
+
+/**
+ * Time left to type the code after the password step
+ */
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
 
 /**
  * Authentication Service
  * Handles user authentication, JWT token generation, and password validation
+ * Access tokens are short-lived; sessions are kept alive with refresh tokens
  */
 @Injectable()
 export class AuthService {
@@ -24,6 +43,9 @@ export class AuthService {
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
   /**
@@ -49,34 +71,117 @@ export class AuthService {
   }
 
   /**
-   * Login user and generate JWT token
+   * Login user: open a session and generate its token pair
+   * Attempts are throttled per username and IP address, and audited
+   * With 2FA enabled, a challenge is returned instead and the session is
+   * only opened by verifyTwoFactor
    * @param loginDto - Login credentials
-   * @returns JWT token and user information
+   * @param context - Client details recorded with the session
+   * @returns Access and refresh tokens and user information, or a 2FA challenge
    */
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
-    const user = await this.validateUser(loginDto.username, loginDto.password);
+  async login(
+    loginDto: LoginDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto | TwoFactorChallengeDto> {
+    const { username } = loginDto;
+
+    // Blocked attempts stop here, before any bcrypt comparison
+    await this.loginAttemptsService.assertAllowed(username, context);
+
+    const user = await this.validateUser(username, loginDto.password);
 
     if (!user) {
+      await this.loginAttemptsService.recordFailure(
+        username,
+        'invalid_credentials',
+        context,
+      );
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    // JWT payload
-    const payload = {
-      sub: user.id,
-      username: user.username,
-      role: user.role,
-    };
+    if (!user.isActive) {
+      await this.loginAttemptsService.recordFailure(
+        username,
+        'account_disabled',
+        context,
+        user.id,
+      );
+      throw new UnauthorizedException('Account is disabled');
+    }
 
-    const access_token = this.jwtService.sign(payload);
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return this.buildTwoFactorChallenge(user);
+    }
 
-    return {
-      access_token,
-      user: {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-      },
-    };
+    return this.openSession(user, context);
+  }
+
+  /**
+   * Second login step: exchange a challenge token and a 2FA code for tokens
+   * Wrong codes count as failed attempts of the username
+   * @param verifyTwoFactorDto - Challenge token and code
+   * @param context - Client details recorded with the session
+   * @returns Access and refresh tokens and user information
+   */
+  async verifyTwoFactor(
+    verifyTwoFactorDto: VerifyTwoFactorDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    const userId = this.verifyChallengeToken(verifyTwoFactorDto.challengeToken);
+    const user = await this.getUserById(userId);
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    await this.loginAttemptsService.assertAllowed(user.username, context);
+
+    if (
+      !(await this.twoFactorService.verify(user.id, verifyTwoFactorDto.code))
+    ) {
+      await this.loginAttemptsService.recordFailure(
+        user.username,
+        'invalid_two_factor_code',
+        context,
+        user.id,
+      );
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    return this.openSession(user, context);
+  }
+
+  /**
+   * Rotate a refresh token and issue a new access token
+   * @param refreshToken - Current refresh token
+   * @returns New token pair and user information
+   */
+  async refresh(refreshToken: string): Promise<AuthResponseDto> {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionsService.rotate(refreshToken);
+
+    const user = await this.getUserById(session.userId);
+
+    if (!user || !user.isActive) {
+      await this.sessionsService.revoke(session.id);
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    return this.buildAuthResponse(user, session.id, nextRefreshToken);
+  }
+
+  /**
+   * Logout: revoke the session of a refresh token
+   */
+  async logout(refreshToken: string): Promise<void> {
+    await this.sessionsService.revokeByToken(refreshToken);
+  }
+
+  /**
+   * Log out everywhere: revoke every session of a user
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await this.sessionsService.revokeAllForUser(userId);
   }
 
   /**
@@ -100,21 +205,24 @@ export class AuthService {
   }
 
   /**
-   * Update user credentials (username and/or password)
+   * Update user credentials (username, email and/or password)
    * @param userId - User ID from JWT token
    * @param updateCredentialsDto - Update credentials DTO
+   * @param currentSessionId - Session making the change, kept open
    * @returns Updated user information without password
    */
   async updateCredentials(
     userId: string,
     updateCredentialsDto: UpdateCredentialsDto,
+    currentSessionId?: string,
   ): Promise<Omit<User, 'password'>> {
     const { currentPassword, username, newPassword } = updateCredentialsDto;
+    const email = updateCredentialsDto.email?.trim().toLowerCase();
 
     // Validate at least one field is provided
-    if (!username && !newPassword) {
+    if (!username && !email && !newPassword) {
       throw new BadRequestException(
-        'At least one field (username or newPassword) must be provided',
+        'At least one field (username, email or newPassword) must be provided',
       );
     }
 
@@ -148,6 +256,19 @@ export class AuthService {
       user.username = username;
     }
 
+    // Check if email is being updated and if it's already taken
+    if (email && email !== user.email) {
+      const existingUser = await this.userRepository.findOne({
+        where: { email },
+      });
+
+      if (existingUser) {
+        throw new ConflictException('Email is already taken');
+      }
+
+      user.email = email;
+    }
+
     // Update password if provided
     if (newPassword) {
       user.password = await AuthService.hashPassword(newPassword);
@@ -156,8 +277,103 @@ export class AuthService {
     // Save updated user
     const updatedUser = await this.userRepository.save(user);
 
+    // Other devices must log in again with the new credentials
+    await this.sessionsService.revokeAllForUser(userId, currentSessionId);
+
     // Return user without password
     const { password: _password, ...userWithoutPassword } = updatedUser;
     return userWithoutPassword;
   }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Record the successful login and open its session
+   */
+  private async openSession(
+    user: User,
+    context: SessionContext,
+  ): Promise<AuthResponseDto> {
+    await this.loginAttemptsService.recordSuccess(
+      user.username,
+      user.id,
+      context,
+    );
+
+    const { session, refreshToken } = await this.sessionsService.create(
+      user.id,
+      context,
+    );
+
+    return this.buildAuthResponse(user, session.id, refreshToken);
+  }
+
+  private buildTwoFactorChallenge(user: User): TwoFactorChallengeDto {
+    const challenge_token = this.jwtService.sign(
+      { sub: user.id, typ: TWO_FACTOR_CHALLENGE_TYPE },
+      { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS },
+    );
+
+    return {
+      two_factor_required: true,
+      challenge_token,
+      expires_in: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * @returns ID of the user who passed the password step
+   * @throws UnauthorizedException if the token is invalid or expired
+   */
+  private verifyChallengeToken(challengeToken: string): string {
+    try {
+      const payload = this.jwtService.verify<{ sub: string; typ?: string }>(
+        challengeToken,
+      );
+      if (payload.typ === TWO_FACTOR_CHALLENGE_TYPE) {
+        return payload.sub;
+      }
+    } catch {
+      // Invalid signature or expired: same answer as a wrong token type
+    }
+    throw new UnauthorizedException(
+      'Invalid or expired two-factor challenge, log in again',
+    );
+  }
+
+  /**
+   * Sign an access token bound to a session
+   */
+  private buildAuthResponse(
+    user: User,
+    sessionId: string,
+    refreshToken: string,
+  ): AuthResponseDto {
+    // JWT payload
+    const payload = {
+      sub: user.id,
+      username: user.username,
+      role: user.role,
+      sid: sessionId,
+    };
+
+    const access_token = this.jwtService.sign(payload);
+    const { iat, exp } = this.jwtService.decode<{ iat: number; exp: number }>(
+      access_token,
+    );
+
+    return {
+      access_token,
+      refresh_token: refreshToken,
+      expires_in: exp - iat,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+      },
+    };
+  }
 }
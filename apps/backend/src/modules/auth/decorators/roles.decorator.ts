@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+import type { UserRole } from '../../../entities/user.entity';
+
+/**
+ * Roles decorator metadata key
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * Roles decorator
+ * Restricts a route (or every route of a controller) to the given roles
+ * Example: @Roles('admin') @Delete(':id')
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
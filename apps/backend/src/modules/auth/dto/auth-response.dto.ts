@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import type { UserRole } from '../../../entities/user.entity';
 
 /**
  * User response DTO
@@ -11,18 +12,56 @@ export class UserResponseDto {
   @ApiProperty({ description: 'Username' })
   username: string;
 
+  @ApiProperty({
+    description: 'Email address receiving password reset links',
+    nullable: true,
+    type: String,
+  })
+  email: string | null;
+
   @ApiProperty({ description: 'User role', enum: ['admin', 'editor'] })
-  role: 'admin' | 'editor';
+  role: UserRole;
 }
 
 /**
  * Auth response DTO
- * Returned after successful login
+ * Returned after successful login and token refresh
  */
 export class AuthResponseDto {
   @ApiProperty({ description: 'JWT access token' })
   access_token: string;
 
+  @ApiProperty({
+    description:
+      'Refresh token, exchanged at POST /auth/refresh for a new token pair. Single use: it is rotated on every refresh',
+  })
+  refresh_token: string;
+
+  @ApiProperty({
+    description: 'Access token lifetime in seconds',
+    example: 900,
+  })
+  expires_in: number;
+
   @ApiProperty({ description: 'User information', type: UserResponseDto })
   user: UserResponseDto;
 }
+
+/**
+ * Two-factor challenge DTO
+ * Returned by login instead of tokens when the user has 2FA enabled; the
+ * challenge token is exchanged at POST /auth/2fa/verify with a code
+ */
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: 'Always true', example: true })
+  two_factor_required: true;
+
+  @ApiProperty({ description: 'Short-lived token proving the password step' })
+  challenge_token: string;
+
+  @ApiProperty({
+    description: 'Challenge token lifetime in seconds',
+    example: 300,
+  })
+  expires_in: number;
+}
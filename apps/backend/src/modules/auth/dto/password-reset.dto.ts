@@ -0,0 +1,37 @@
+import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Forgot Password DTO
+ * Used for POST /api/auth/forgot-password
+ */
+export class ForgotPasswordDto {
+  @ApiProperty({
+    description: 'Email address of the account',
+    example: 'admin@atelier-kaisla.com',
+  })
+  @IsEmail()
+  email: string;
+}
+
+/**
+ * Reset Password DTO
+ * Used for POST /api/auth/reset-password
+ */
+export class ResetPasswordDto {
+  @ApiProperty({
+    description: 'Token from the reset link received by email',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description: 'New password (minimum 6 characters)',
+    example: 'newPassword123',
+    minLength: 6,
+  })
+  @IsString()
+  @MinLength(6, { message: 'New password must be at least 6 characters long' })
+  newPassword: string;
+}
@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Refresh Token DTO
+ * Used for POST /api/auth/refresh and POST /api/auth/logout
+ */
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token received at login or at the last refresh',
+  })
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -0,0 +1,65 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Two-Factor Code DTO
+ * Used to confirm an enrollment and to regenerate recovery codes
+ */
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
+
+/**
+ * Disable Two-Factor DTO
+ * Used for POST /api/auth/2fa/disable
+ */
+export class DisableTwoFactorDto extends TwoFactorCodeDto {
+  @ApiProperty({ description: 'Current password' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
+
+/**
+ * Two-factor status of the current user
+ */
+export class TwoFactorStatusDto {
+  @ApiProperty({ description: 'Whether logins require a second factor' })
+  enabled: boolean;
+
+  @ApiProperty({ description: 'Unused recovery codes' })
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Pending enrollment: the secret to add to the authenticator app
+ */
+export class TwoFactorEnrollmentDto {
+  @ApiProperty({ description: 'Base32 secret, for manual entry' })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth:// URI to encode as a QR code',
+    example:
+      'otpauth://totp/Atelier%20Kaisla%3Aadmin?secret=JBSWY3DPEHPK3PXP&issuer=Atelier+Kaisla',
+  })
+  otpauthUrl: string;
+}
+
+/**
+ * Recovery codes, returned in clear only when generated
+ */
+export class RecoveryCodesDto {
+  @ApiProperty({
+    description: 'Single-use recovery codes',
+    example: ['4f1c9-a07be', '0d2e8-77c31'],
+  })
+  recoveryCodes: string[];
+}
@@ -1,10 +1,17 @@
-import { IsString, IsNotEmpty, IsOptional, MinLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MinLength,
+  IsEmail,
+  MaxLength,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
  * Update Credentials DTO
  * Used for PATCH /api/auth/credentials request body validation
- * Allows updating email and/or password with current password verification
+ * Allows updating username, email and/or password with current password verification
  */
 export class UpdateCredentialsDto {
   @ApiProperty({
@@ -24,6 +31,15 @@ export class UpdateCredentialsDto {
   @IsNotEmpty({ message: 'Username cannot be empty' })
   username?: string;
 
+  @ApiPropertyOptional({
+    description: 'Email address receiving password reset links (optional)',
+    example: 'admin@atelier-kaisla.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
   @ApiPropertyOptional({
     description: 'New password (optional, minimum 6 characters)',
     example: 'newPassword123',
@@ -0,0 +1,24 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Verify Two-Factor DTO
+ * Used for POST /api/auth/2fa/verify, the second login step
+ */
+export class VerifyTwoFactorDto {
+  @ApiProperty({
+    description: 'Challenge token returned by POST /auth/login',
+  })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+
+  @ApiProperty({
+    description: 'Code from the authenticator app, or a recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
@@ -0,0 +1,58 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { UserRole } from '../../../entities/user.entity';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+/**
+ * Roles Guard
+ * Runs after JwtAuthGuard and checks request.user.role against @Roles()
+ * Routes without @Roles() are open to every authenticated user
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      IS_PUBLIC_KEY,
+      targets,
+    );
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      targets,
+    );
+
+    if (isPublic || !roles || roles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<{
+      method: string;
+      url: string;
+      user?: { username: string; role: UserRole };
+    }>();
+    const { method, url, user } = request;
+
+    if (!user || !roles.includes(user.role)) {
+      this.logger.warn(
+        `Access denied for ${method} ${url} - User: ${user?.username}, role: ${user?.role}`,
+      );
+      throw new ForbiddenException(
+        `This action requires the ${roles.join(' or ')} role`,
+      );
+    }
+
+    return true;
+  }
+}
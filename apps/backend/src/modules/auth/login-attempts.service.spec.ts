@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SessionContext } from './sessions.service';
+import { LoginAttempt } from '../../entities/login-attempt.entity';
+import { LOGIN_ATTEMPT_STORE } from './throttling/login-attempt-store.interface';
+import { MemoryLoginAttemptStore } from './throttling/memory-login-attempt.store';
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+  let store: MemoryLoginAttemptStore;
+
+  const context: SessionContext = {
+    ipAddress: '203.0.113.7',
+    userAgent: 'jest',
+  };
+
+  const mockLoginAttemptRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  /**
+   * Record `count` failures for a username
+   */
+  const fail = async (count: number, username = 'admin', ctx = context) => {
+    for (let i = 0; i < count; i++) {
+      await service.recordFailure(username, 'invalid_credentials', ctx);
+    }
+  };
+
+  /**
+   * Seconds to wait announced by the 429 error, null when allowed
+   */
+  const getRetryAfter = async (
+    username = 'admin',
+    ctx = context,
+  ): Promise<number | null> => {
+    try {
+      await service.assertAllowed(username, ctx);
+      return null;
+    } catch (error) {
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      return ((error as HttpException).getResponse() as { retryAfter: number })
+        .retryAfter;
+    }
+  };
+
+  beforeEach(async () => {
+    store = new MemoryLoginAttemptStore();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptsService,
+        {
+          provide: getRepositoryToken(LoginAttempt),
+          useValue: mockLoginAttemptRepository,
+        },
+        { provide: LOGIN_ATTEMPT_STORE, useValue: store },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptsService>(LoginAttemptsService);
+
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+    mockLoginAttemptRepository.create.mockImplementation(
+      (data: Partial<LoginAttempt>) => data,
+    );
+    mockLoginAttemptRepository.save.mockImplementation(
+      (data: Partial<LoginAttempt>) => Promise.resolve(data),
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('assertAllowed', () => {
+    it('should allow the first failed attempts without delay', async () => {
+      // Arrange
+      await fail(3);
+
+      // Act & Assert
+      expect(await getRetryAfter()).toBeNull();
+    });
+
+    it('should double the wait with each failure past the free attempts', async () => {
+      // Arrange & Act & Assert
+      await fail(4);
+      expect(await getRetryAfter()).toBe(1);
+
+      await fail(1);
+      expect(await getRetryAfter()).toBe(2);
+
+      await fail(1);
+      expect(await getRetryAfter()).toBe(4);
+    });
+
+    it('should lock the username out after the maximum failures', async () => {
+      // Arrange
+      await fail(10);
+
+      // Act
+      const retryAfter = await getRetryAfter();
+
+      // Assert
+      expect(retryAfter).toBe(15 * 60);
+    });
+
+    it('should throttle the username from any IP address and any case', async () => {
+      // Arrange
+      await fail(10);
+
+      // Act & Assert
+      expect(
+        await getRetryAfter('ADMIN', { ipAddress: '198.51.100.1' }),
+      ).toBeGreaterThan(0);
+    });
+
+    it('should throttle an IP address trying many usernames', async () => {
+      // Arrange
+      for (let i = 0; i < 50; i++) {
+        await fail(1, `user-${i}`);
+      }
+
+      // Act & Assert
+      expect(await getRetryAfter('someone-else')).toBe(15 * 60);
+      expect(
+        await getRetryAfter('someone-else', { ipAddress: '198.51.100.1' }),
+      ).toBeNull();
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should log the failed attempt', async () => {
+      // Act
+      await service.recordFailure(
+        'admin',
+        'account_disabled',
+        context,
+        'user-1',
+      );
+
+      // Assert
+      expect(mockLoginAttemptRepository.create).toHaveBeenCalledWith({
+        username: 'admin',
+        userId: 'user-1',
+        success: false,
+        failureReason: 'account_disabled',
+        ipAddress: '203.0.113.7',
+        userAgent: 'jest',
+      });
+      expect(mockLoginAttemptRepository.save).toHaveBeenCalled();
+    });
+
+    it('should not fail when the audit log cannot be written', async () => {
+      // Arrange
+      mockLoginAttemptRepository.save.mockRejectedValue(
+        new Error('Connection lost'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.recordFailure('admin', 'invalid_credentials', context),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should count every failure of a parallel burst', async () => {
+      // Act
+      await Promise.all(
+        Array.from({ length: 10 }, () =>
+          service.recordFailure('admin', 'invalid_credentials', context),
+        ),
+      );
+
+      // Assert
+      expect(await getRetryAfter('admin', {})).toBe(15 * 60);
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should clear the username counter but not the IP address counter', async () => {
+      // Arrange
+      await fail(10);
+      for (let i = 0; i < 50; i++) {
+        await fail(1, `user-${i}`, { ipAddress: '198.51.100.1' });
+      }
+
+      // Act
+      await service.recordSuccess('admin', 'user-1', context);
+
+      // Assert
+      expect(await getRetryAfter('admin', {})).toBeNull();
+      expect(
+        await getRetryAfter('admin', { ipAddress: '198.51.100.1' }),
+      ).toBeGreaterThan(0);
+      expect(mockLoginAttemptRepository.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          username: 'admin',
+          userId: 'user-1',
+          success: true,
+          failureReason: null,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import {
+  LoginAttempt,
+  LoginFailureReason,
+} from '../../entities/login-attempt.entity';
+import { LOGIN_ATTEMPT_STORE } from './throttling/login-attempt-store.interface';
+import type { LoginAttemptStore } from './throttling/login-attempt-store.interface';
+import { SessionContext } from './sessions.service';
+
+/**
+ * Throttling rules of one kind of key
+ */
+interface ThrottlePolicy {
+  /**
+   * Failures accepted before the backoff kicks in
+   */
+  freeAttempts: number;
+  /**
+   * Failures triggering the lockout
+   */
+  maxAttempts: number;
+}
+
+/**
+ * Body of the 429 response; retryAfter is in seconds
+ */
+export interface LoginThrottledResponse {
+  statusCode: number;
+  message: string;
+  error: string;
+  retryAfter: number;
+}
+
+/**
+ * Login attempts service
+ *
+ * Throttles logins per username and per IP address: after a few failures
+ * each new failure doubles the wait before the next attempt (1s, 2s, 4s...),
+ * and reaching the maximum locks the key out for LOGIN_LOCKOUT_MINUTES.
+ * Blocked attempts are rejected before any bcrypt comparison. Counters expire
+ * LOGIN_LOCKOUT_MINUTES after the last failure, and a successful login clears
+ * the counter of its username (not of its IP address, shared by every
+ * username an attacker tries).
+ *
+ * Every verified attempt is also recorded in the login_attempts audit log.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+
+  constructor(
+    @InjectRepository(LoginAttempt)
+    private readonly loginAttemptRepository: Repository<LoginAttempt>,
+    @Inject(LOGIN_ATTEMPT_STORE) private readonly store: LoginAttemptStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Reject the attempt while its username or IP address is blocked
+   * @throws HttpException 429 with the remaining wait in seconds
+   */
+  async assertAllowed(
+    username: string,
+    context: SessionContext = {},
+  ): Promise<void> {
+    const counters = await Promise.all(
+      this.getKeys(username, context).map(({ key }) => this.store.get(key)),
+    );
+
+    const now = Date.now();
+    const blockedUntil = Math.max(
+      0,
+      ...counters.map((counter) => counter?.blockedUntil ?? 0),
+    );
+
+    if (blockedUntil <= now) {
+      return;
+    }
+
+    const retryAfter = Math.ceil((blockedUntil - now) / 1000);
+    this.logger.warn(
+      `Throttled login for "${username}" from ${context.ipAddress ?? 'unknown IP'} (${retryAfter}s left)`,
+    );
+
+    const response: LoginThrottledResponse = {
+      statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      message: 'Too many failed login attempts, try again later',
+      error: 'Too Many Requests',
+      retryAfter,
+    };
+    throw new HttpException(response, HttpStatus.TOO_MANY_REQUESTS);
+  }
+
+  /**
+   * Count a failed attempt against its username and IP address, and log it
+   */
+  async recordFailure(
+    username: string,
+    reason: LoginFailureReason,
+    context: SessionContext = {},
+    userId: string | null = null,
+  ): Promise<void> {
+    const ttl = this.getLockoutMs();
+
+    await Promise.all(
+      this.getKeys(username, context).map(async ({ key, policy }) => {
+        const { failures } = await this.store.increment(key, ttl);
+        const blockedUntil = this.getBlockedUntil(failures, policy);
+        if (blockedUntil !== null) {
+          await this.store.block(key, blockedUntil);
+        }
+
+        if (failures === policy.maxAttempts) {
+          this.logger.warn(
+            `Locked out ${key} after ${failures} failed login attempts`,
+          );
+        }
+      }),
+    );
+
+    await this.audit(username, false, context, userId, reason);
+  }
+
+  /**
+   * Clear the username counter after a successful login, and log it
+   */
+  async recordSuccess(
+    username: string,
+    userId: string,
+    context: SessionContext = {},
+  ): Promise<void> {
+    await this.store.delete(this.getUsernameKey(username));
+    await this.audit(username, true, context, userId);
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * End of the wait imposed after the given number of failures, null if none
+   * Below the maximum, the wait doubles with each failure past the free
+   * attempts (capped at the lockout duration); at the maximum the key is
+   * locked out
+   */
+  private getBlockedUntil(
+    failures: number,
+    policy: ThrottlePolicy,
+  ): number | null {
+    const lockoutMs = this.getLockoutMs();
+
+    if (failures >= policy.maxAttempts) {
+      return Date.now() + lockoutMs;
+    }
+
+    if (failures <= policy.freeAttempts) {
+      return null;
+    }
+
+    const backoffMs = Math.min(
+      1000 * 2 ** (failures - policy.freeAttempts - 1),
+      lockoutMs,
+    );
+    return Date.now() + backoffMs;
+  }
+
+  /**
+   * Store keys throttling an attempt, with their policy
+   * The IP address is skipped when unknown
+   */
+  private getKeys(
+    username: string,
+    context: SessionContext,
+  ): { key: string; policy: ThrottlePolicy }[] {
+    const keys = [
+      {
+        key: this.getUsernameKey(username),
+        policy: {
+          freeAttempts: 3,
+          maxAttempts: this.configService.get<number>('LOGIN_MAX_ATTEMPTS', 10),
+        },
+      },
+    ];
+
+    if (context.ipAddress) {
+      keys.push({
+        key: `ip:${context.ipAddress}`,
+        policy: {
+          freeAttempts: 10,
+          maxAttempts: this.configService.get<number>(
+            'LOGIN_MAX_ATTEMPTS_PER_IP',
+            50,
+          ),
+        },
+      });
+    }
+
+    return keys;
+  }
+
+  /**
+   * Usernames are case-insensitive for throttling, so changing the case
+   * does not start a fresh counter
+   */
+  private getUsernameKey(username: string): string {
+    return `username:${username.trim().toLowerCase()}`;
+  }
+
+  private getLockoutMs(): number {
+    return (
+      this.configService.get<number>('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000
+    );
+  }
+
+  /**
+   * Write an audit log row; a failure to log never blocks the login
+   */
+  private async audit(
+    username: string,
+    success: boolean,
+    context: SessionContext,
+    userId: string | null,
+    failureReason: LoginFailureReason | null = null,
+  ): Promise<void> {
+    try {
+      await this.loginAttemptRepository.save(
+        this.loginAttemptRepository.create({
+          username: username.slice(0, 255),
+          userId,
+          success,
+          failureReason,
+          ipAddress: context.ipAddress?.slice(0, 45) ?? null,
+          userAgent: context.userAgent?.slice(0, 255) ?? null,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to record login attempt: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,264 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import { PasswordResetService } from './password-reset.service';
+import { SessionsService } from './sessions.service';
+import { MailService } from '../mail/mail.service';
+import type { PasswordResetMailContext } from '../mail/templates/password-reset.template';
+import { User } from '../../entities/user.entity';
+import { PasswordResetToken } from '../../entities/password-reset-token.entity';
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const hash = (token: string) =>
+    createHash('sha256').update(token).digest('hex');
+
+  const buildUser = (overrides: Partial<User> = {}): User => ({
+    id: userId,
+    username: 'admin',
+    email: 'admin@example.com',
+    password: '$2b$10$hashedpassword',
+    role: 'admin',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const buildToken = (
+    overrides: Partial<PasswordResetToken> = {},
+  ): PasswordResetToken =>
+    ({
+      id: 'token-1',
+      userId,
+      tokenHash: hash('reset-token'),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      usedAt: null,
+      createdAt: new Date(),
+      ...overrides,
+    }) as PasswordResetToken;
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+    save: jest.fn(),
+  };
+
+  const mockTokenRepository = {
+    findOne: jest.fn(),
+    create: jest.fn(),
+    save: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    revokeAllForUser: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(PasswordResetToken),
+          useValue: mockTokenRepository,
+        },
+        { provide: SessionsService, useValue: mockSessionsService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PasswordResetService>(PasswordResetService);
+
+    jest.clearAllMocks();
+    mockTokenRepository.create.mockImplementation(
+      (data: Partial<PasswordResetToken>) => data,
+    );
+    mockTokenRepository.save.mockImplementation((token: PasswordResetToken) =>
+      Promise.resolve(token),
+    );
+    mockTokenRepository.update.mockResolvedValue({ affected: 1 });
+    mockUserRepository.save.mockImplementation((user: User) =>
+      Promise.resolve(user),
+    );
+    mockMailService.send.mockResolvedValue(undefined);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('requestReset', () => {
+    it('should email a link whose token is stored only as a hash', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+      mockTokenRepository.findOne.mockResolvedValue(null);
+
+      // Act
+      await service.requestReset(' Admin@Example.com ');
+
+      // Assert
+      expect(mockUserRepository.findOne).toHaveBeenCalledWith({
+        where: { email: 'admin@example.com' },
+      });
+      const [template, to, context] = mockMailService.send.mock.calls[0] as [
+        string,
+        string,
+        PasswordResetMailContext,
+      ];
+      expect(template).toBe('password-reset');
+      expect(to).toBe('admin@example.com');
+      expect(context.expiresInMinutes).toBe(60);
+
+      const token = new URL(context.resetUrl).searchParams.get('token');
+      expect(context.resetUrl).toMatch(
+        /^http:\/\/localhost:3001\/reset-password\?token=/,
+      );
+      const saved: PasswordResetToken =
+        mockTokenRepository.save.mock.calls[0][0];
+      expect(saved.tokenHash).toBe(hash(token));
+      expect(saved.tokenHash).not.toBe(token);
+    });
+
+    it('should invalidate the previous links of the user', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+      mockTokenRepository.findOne.mockResolvedValue(null);
+
+      // Act
+      await service.requestReset('admin@example.com');
+
+      // Assert
+      expect(mockTokenRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ userId }),
+        { usedAt: expect.any(Date) },
+      );
+    });
+
+    it('should silently ignore unknown addresses and disabled users', async () => {
+      // Arrange
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(buildUser({ isActive: false }));
+
+      // Act
+      await service.requestReset('nobody@example.com');
+      await service.requestReset('admin@example.com');
+
+      // Assert
+      expect(mockTokenRepository.save).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not send a new link right after the previous one', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+      mockTokenRepository.findOne.mockResolvedValue(buildToken());
+
+      // Act
+      await service.requestReset('admin@example.com');
+
+      // Assert
+      expect(mockTokenRepository.save).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not fail when the email cannot be sent', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+      mockTokenRepository.findOne.mockResolvedValue(null);
+      mockMailService.send.mockRejectedValue(new Error('Connection refused'));
+
+      // Act & Assert
+      await expect(
+        service.requestReset('admin@example.com'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should change the password, consume the token and revoke sessions', async () => {
+      // Arrange
+      mockTokenRepository.findOne.mockResolvedValue(buildToken());
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+
+      // Act
+      await service.resetPassword('reset-token', 'new-password');
+
+      // Assert
+      expect(mockTokenRepository.findOne).toHaveBeenCalledWith({
+        where: { tokenHash: hash('reset-token') },
+      });
+      expect(mockTokenRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'token-1' }),
+        { usedAt: expect.any(Date) },
+      );
+      const saved: User = mockUserRepository.save.mock.calls[0][0];
+      await expect(
+        bcrypt.compare('new-password', saved.password),
+      ).resolves.toBe(true);
+      expect(mockSessionsService.revokeAllForUser).toHaveBeenCalledWith(userId);
+    });
+
+    it.each([
+      ['unknown', null],
+      ['already used', buildToken({ usedAt: new Date() })],
+      ['expired', buildToken({ expiresAt: new Date(Date.now() - 1000) })],
+    ])(
+      'should reject an %s token',
+      async (_label, token: PasswordResetToken | null) => {
+        // Arrange
+        mockTokenRepository.findOne.mockResolvedValue(token);
+        mockUserRepository.findOne.mockResolvedValue(buildUser());
+
+        // Act & Assert
+        await expect(
+          service.resetPassword('reset-token', 'new-password'),
+        ).rejects.toThrow(BadRequestException);
+        expect(mockUserRepository.save).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should reject the token of a disabled user', async () => {
+      // Arrange
+      mockTokenRepository.findOne.mockResolvedValue(buildToken());
+      mockUserRepository.findOne.mockResolvedValue(
+        buildUser({ isActive: false }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.resetPassword('reset-token', 'new-password'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token consumed by a concurrent request', async () => {
+      // Arrange
+      mockTokenRepository.findOne.mockResolvedValue(buildToken());
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+      mockTokenRepository.update.mockResolvedValue({ affected: 0 });
+
+      // Act & Assert
+      await expect(
+        service.resetPassword('reset-token', 'new-password'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
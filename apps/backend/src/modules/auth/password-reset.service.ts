@@ -0,0 +1,158 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { User } from '../../entities/user.entity';
+import { PasswordResetToken } from '../../entities/password-reset-token.entity';
+import { MailService } from '../mail/mail.service';
+import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { getBackofficeUrl } from '../../common/utils/app-config.util';
+
+/**
+ * A new link is not sent again before this delay, so the endpoint cannot be
+ * used to flood a mailbox
+ */
+const RESEND_COOLDOWN_MS = 2 * 60 * 1000;
+
+/**
+ * Password reset service
+ *
+ * Sends single-use reset links by email. Requests answer the same way whether
+ * or not the address matches an account, so they cannot be used to find out
+ * which addresses exist. Resetting the password revokes every session; it
+ * does not turn off two-factor authentication.
+ */
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(PasswordResetToken)
+    private readonly tokenRepository: Repository<PasswordResetToken>,
+    private readonly sessionsService: SessionsService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Email a reset link to the active account with this address, if any
+   * Previous links of the account stop working
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.userRepository.findOne({
+      where: { email: email.trim().toLowerCase() },
+    });
+
+    if (!user || !user.isActive) {
+      this.logger.log('Password reset requested for an unknown address');
+      return;
+    }
+
+    const now = Date.now();
+    const recent = await this.tokenRepository.findOne({
+      where: {
+        userId: user.id,
+        usedAt: IsNull(),
+        createdAt: MoreThan(new Date(now - RESEND_COOLDOWN_MS)),
+      },
+    });
+    if (recent) {
+      this.logger.warn(
+        `Password reset for ${user.username} requested again too soon, skipped`,
+      );
+      return;
+    }
+
+    await this.tokenRepository.update(
+      { userId: user.id, usedAt: IsNull() },
+      { usedAt: new Date(now) },
+    );
+
+    const token = randomBytes(32).toString('base64url');
+    const ttlMinutes = this.configService.get<number>(
+      'PASSWORD_RESET_TTL_MINUTES',
+      60,
+    );
+    await this.tokenRepository.save(
+      this.tokenRepository.create({
+        userId: user.id,
+        tokenHash: this.hashToken(token),
+        expiresAt: new Date(now + ttlMinutes * 60 * 1000),
+      }),
+    );
+
+    // A mail failure must not tell the caller the address exists
+    try {
+      await this.mailService.send('password-reset', user.email, {
+        username: user.username,
+        resetUrl: this.buildResetUrl(token),
+        expiresInMinutes: ttlMinutes,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send the password reset email of ${user.username}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Set a new password with a token from a reset link
+   * Every session of the user is revoked
+   * @throws BadRequestException if the token is unknown, used or expired
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const resetToken = await this.tokenRepository.findOne({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (
+      !resetToken ||
+      resetToken.usedAt ||
+      resetToken.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: resetToken.userId },
+    });
+    if (!user || !user.isActive) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    // Consume the token first: of two concurrent requests, only one wins
+    const { affected } = await this.tokenRepository.update(
+      { id: resetToken.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!affected) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    user.password = await AuthService.hashPassword(newPassword);
+    await this.userRepository.save(user);
+    await this.sessionsService.revokeAllForUser(user.id);
+
+    this.logger.log(`Password reset by email for user: ${user.username}`);
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Tokens are random, so SHA-256 is enough (no need for bcrypt)
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private buildResetUrl(token: string): string {
+    const backofficeUrl = getBackofficeUrl(this.configService);
+    return `${backofficeUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  }
+}
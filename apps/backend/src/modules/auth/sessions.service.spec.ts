@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { SessionsService } from './sessions.service';
+import { Session } from '../../entities/session.entity';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+
+  const sessionId = '6f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f';
+  const userId = '550e8400-e29b-41d4-a716-446655440000';
+
+  const hash = (secret: string) =>
+    createHash('sha256').update(secret).digest('hex');
+
+  const buildSession = (overrides: Partial<Session> = {}): Session =>
+    ({
+      id: sessionId,
+      userId,
+      tokenHash: hash('current-secret'),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      lastUsedAt: new Date(),
+      revokedAt: null,
+      createdAt: new Date(),
+      ...overrides,
+    }) as Session;
+
+  const mockSessionRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        {
+          provide: getRepositoryToken(Session),
+          useValue: mockSessionRepository,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+    mockSessionRepository.create.mockImplementation(
+      (data: Partial<Session>) => data,
+    );
+    mockSessionRepository.save.mockImplementation((session: Session) =>
+      Promise.resolve({ id: sessionId, ...session }),
+    );
+    mockSessionRepository.update.mockResolvedValue({ affected: 1 });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store only a hash of the refresh token secret', async () => {
+      // Act
+      const { refreshToken } = await service.create(userId, {
+        userAgent: 'jest',
+      });
+
+      // Assert
+      const [id, secret] = refreshToken.split('.');
+      const created: Session = mockSessionRepository.save.mock.calls[0][0];
+      expect(id).toBe(sessionId);
+      expect(created.tokenHash).toBe(hash(secret));
+      expect(created.tokenHash).not.toContain(secret);
+      expect(created.userAgent).toBe('jest');
+      expect(mockSessionRepository.delete).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('rotate', () => {
+    it('should replace the secret and push back the expiry', async () => {
+      // Arrange
+      const session = buildSession({ expiresAt: new Date(Date.now() + 1000) });
+      mockSessionRepository.findOne.mockResolvedValue(session);
+
+      // Act
+      const { refreshToken } = await service.rotate(
+        `${sessionId}.current-secret`,
+      );
+
+      // Assert
+      const [, nextSecret] = refreshToken.split('.');
+      expect(nextSecret).not.toBe('current-secret');
+      expect(session.tokenHash).toBe(hash(nextSecret));
+      expect(session.expiresAt.getTime()).toBeGreaterThan(
+        Date.now() + 29 * 24 * 60 * 60 * 1000,
+      );
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      // Arrange
+      mockSessionRepository.findOne.mockResolvedValue(buildSession());
+
+      // Act & Assert
+      await expect(
+        service.rotate(`${sessionId}.previous-secret`),
+      ).rejects.toThrow('Refresh token reuse detected');
+      expect(mockSessionRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: sessionId }),
+        { revokedAt: expect.any(Date) },
+      );
+      expect(mockSessionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject revoked and expired sessions', async () => {
+      // Arrange
+      mockSessionRepository.findOne
+        .mockResolvedValueOnce(buildSession({ revokedAt: new Date() }))
+        .mockResolvedValueOnce(
+          buildSession({ expiresAt: new Date(Date.now() - 1000) }),
+        );
+
+      // Act & Assert
+      await expect(
+        service.rotate(`${sessionId}.current-secret`),
+      ).rejects.toThrow(UnauthorizedException);
+      await expect(
+        service.rotate(`${sessionId}.current-secret`),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject malformed tokens without querying', async () => {
+      // Act & Assert
+      await expect(service.rotate('not-a-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockSessionRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isActive', () => {
+    it('should only accept live sessions of the user', async () => {
+      // Arrange
+      mockSessionRepository.findOne
+        .mockResolvedValueOnce(buildSession())
+        .mockResolvedValueOnce(buildSession({ revokedAt: new Date() }));
+
+      // Act & Assert
+      await expect(service.isActive(sessionId, userId)).resolves.toBe(true);
+      await expect(service.isActive(sessionId, userId)).resolves.toBe(false);
+      await expect(service.isActive(undefined, userId)).resolves.toBe(false);
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should keep the excepted session open', async () => {
+      // Act
+      const count = await service.revokeAllForUser(userId, sessionId);
+
+      // Assert
+      expect(count).toBe(1);
+      const [criteria] = mockSessionRepository.update.mock.calls[0];
+      expect(criteria).toMatchObject({ userId });
+      expect(criteria).toHaveProperty('id');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, LessThan, Not, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { Session } from '../../entities/session.entity';
+
+/**
+ * Client details recorded with a session
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * A session and the refresh token to hand over to the client
+ * The token is never stored in clear and cannot be read back
+ */
+export interface IssuedSession {
+  session: Session;
+  refreshToken: string;
+}
+
+/**
+ * Sessions service
+ * Issues, rotates and revokes refresh tokens
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    @InjectRepository(Session)
+    private readonly sessionRepository: Repository<Session>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Open a session for a user who just logged in
+   * Dead sessions of the user are pruned on the way
+   */
+  async create(
+    userId: string,
+    context: SessionContext = {},
+  ): Promise<IssuedSession> {
+    await this.pruneSessions(userId);
+
+    const secret = this.generateSecret();
+    const now = new Date();
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId,
+        tokenHash: this.hashSecret(secret),
+        userAgent: context.userAgent?.slice(0, 255) ?? null,
+        ipAddress: context.ipAddress?.slice(0, 45) ?? null,
+        lastUsedAt: now,
+        expiresAt: this.getExpiry(now),
+      }),
+    );
+
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one
+   * A token that was already rotated revokes the whole session: either the
+   * legitimate client or an attacker is replaying it
+   * @throws UnauthorizedException if the token is invalid, expired or reused
+   */
+  async rotate(refreshToken: string): Promise<IssuedSession> {
+    const session = await this.findByToken(refreshToken);
+    if (!session || !this.isUsable(session)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const [, secret] = refreshToken.split('.');
+    if (this.hashSecret(secret) !== session.tokenHash) {
+      this.logger.warn(
+        `Refresh token reuse detected, revoking session ${session.id} of user ${session.userId}`,
+      );
+      await this.revoke(session.id);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const nextSecret = this.generateSecret();
+    const now = new Date();
+    session.tokenHash = this.hashSecret(nextSecret);
+    session.lastUsedAt = now;
+    session.expiresAt = this.getExpiry(now);
+    const saved = await this.sessionRepository.save(session);
+
+    return { session: saved, refreshToken: `${saved.id}.${nextSecret}` };
+  }
+
+  /**
+   * Check that an access token still belongs to a live session
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    if (!sessionId) {
+      return false;
+    }
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId, userId },
+    });
+    return !!session && this.isUsable(session);
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout)
+   * Unknown tokens are ignored: the client is logged out either way
+   */
+  async revokeByToken(refreshToken: string): Promise<void> {
+    const session = await this.findByToken(refreshToken);
+    if (session) {
+      await this.revoke(session.id);
+    }
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    await this.sessionRepository.update(
+      { id: sessionId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  /**
+   * Revoke every session of a user (log out everywhere)
+   * @param exceptSessionId - Session to keep, e.g. the one changing the password
+   * @returns Number of revoked sessions
+   */
+  async revokeAllForUser(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const result = await this.sessionRepository.update(
+      {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptSessionId ? { id: Not(exceptSessionId) } : {}),
+      },
+      { revokedAt: new Date() },
+    );
+
+    const count = result.affected ?? 0;
+    this.logger.log(`Revoked ${count} session(s) of user ${userId}`);
+    return count;
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Refresh tokens are `<session id>.<secret>`
+   */
+  private async findByToken(refreshToken: string): Promise<Session | null> {
+    const [sessionId, secret] = (refreshToken ?? '').split('.');
+    if (!secret || !/^[0-9a-f-]{36}$/i.test(sessionId)) {
+      return null;
+    }
+    return this.sessionRepository.findOne({ where: { id: sessionId } });
+  }
+
+  private isUsable(session: Session): boolean {
+    return !session.revokedAt && session.expiresAt.getTime() > Date.now();
+  }
+
+  /**
+   * Revoked and expired sessions are only kept until the next login
+   */
+  private async pruneSessions(userId: string): Promise<void> {
+    await this.sessionRepository.delete({ userId, revokedAt: Not(IsNull()) });
+    await this.sessionRepository.delete({
+      userId,
+      expiresAt: LessThan(new Date()),
+    });
+  }
+
+  private getExpiry(from: Date): Date {
+    const days = this.configService.get<number>('REFRESH_TOKEN_TTL_DAYS', 30);
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
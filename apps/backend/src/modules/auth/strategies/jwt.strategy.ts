@@ -1,7 +1,8 @@
 import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { AuthService } from '../auth.service';
+import { AuthService, TWO_FACTOR_CHALLENGE_TYPE } from '../auth.service';
+import { SessionsService } from '../sessions.service';
 
 /**
  * JWT Strategy
@@ -11,7 +12,10 @@ import { AuthService } from '../auth.service';
 export class JwtStrategy extends PassportStrategy(Strategy) {
   private readonly logger = new Logger(JwtStrategy.name);
 
-  constructor(private readonly authService: AuthService) {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -33,6 +37,11 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       `Validating JWT payload for user: ${payload.username} (id: ${payload.sub})`,
     );
 
+    // A 2FA challenge only proves the password step
+    if (payload.typ === TWO_FACTOR_CHALLENGE_TYPE) {
+      throw new UnauthorizedException('Two-factor verification required');
+    }
+
     const user = await this.authService.getUserById(payload.sub);
 
     if (!user) {
@@ -40,13 +49,28 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('User not found');
     }
 
+    // Disabling a user revokes their tokens immediately
+    if (!user.isActive) {
+      this.logger.warn(`Disabled user rejected: ${user.username}`);
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    // Logging out or changing credentials revokes the session right away,
+    // without waiting for the access token to expire
+    if (!(await this.sessionsService.isActive(payload.sid, user.id))) {
+      this.logger.warn(`Revoked session rejected for user: ${user.username}`);
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     this.logger.debug(`JWT validation successful for user: ${user.username}`);
 
     // Return user object (attached to request.user by Passport)
     return {
       id: user.id,
       username: user.username,
+      email: user.email,
       role: user.role,
+      sessionId: payload.sid,
     };
   }
 }
@@ -0,0 +1,52 @@
+/**
+ * Injection token of the login attempt counters store
+ */
+export const LOGIN_ATTEMPT_STORE = Symbol('LOGIN_ATTEMPT_STORE');
+
+/**
+ * Failed login attempts of one key (a username or an IP address)
+ */
+export interface LoginAttemptCounter {
+  /**
+   * Consecutive failures since the last success or expiry
+   */
+  failures: number;
+  /**
+   * Epoch milliseconds before which no attempt is accepted, null if none
+   */
+  blockedUntil: number | null;
+}
+
+/**
+ * Backend holding login attempt counters
+ *
+ * Counters are short-lived and losing them only resets the throttling, so
+ * the default store keeps them in memory. A shared store (Redis...) is needed
+ * once several backend instances serve the API; its increment must be atomic
+ * (INCR, a script...) so parallel failed logins are all counted.
+ */
+export interface LoginAttemptStore {
+  /**
+   * Counter of a key, null when missing or expired
+   */
+  get(key: string): Promise<LoginAttemptCounter | null>;
+
+  /**
+   * Atomically add one failure to a counter (created when missing or
+   * expired) and push its expiry to `ttlMs` milliseconds from now
+   * Concurrent calls on the same key must never lose an increment
+   * @returns The counter after the increment
+   */
+  increment(key: string, ttlMs: number): Promise<LoginAttemptCounter>;
+
+  /**
+   * Block a key until `blockedUntil` (epoch milliseconds), keeping a later
+   * block already in place; the failure count is left untouched
+   */
+  block(key: string, blockedUntil: number): Promise<void>;
+
+  /**
+   * Forget a counter; deleting a missing key is not an error
+   */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,85 @@
+import type {
+  LoginAttemptCounter,
+  LoginAttemptStore,
+} from './login-attempt-store.interface';
+
+/**
+ * Expired counters are swept when the store grows past this size, so
+ * attempts with random usernames cannot grow it without bound
+ */
+const SWEEP_THRESHOLD = 10_000;
+
+/**
+ * In-memory login attempt store
+ * Counters live in the process: they are reset on restart and not shared
+ * between instances
+ */
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly counters = new Map<
+    string,
+    { counter: LoginAttemptCounter; expiresAt: number }
+  >();
+
+  get(key: string): Promise<LoginAttemptCounter | null> {
+    const entry = this.counters.get(key);
+
+    if (!entry) {
+      return Promise.resolve(null);
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.counters.delete(key);
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve({ ...entry.counter });
+  }
+
+  /**
+   * Atomic by construction: the read and the write happen in the same tick
+   */
+  increment(key: string, ttlMs: number): Promise<LoginAttemptCounter> {
+    if (this.counters.size >= SWEEP_THRESHOLD) {
+      this.sweep();
+    }
+
+    const now = Date.now();
+    const entry = this.counters.get(key);
+    const counter: LoginAttemptCounter =
+      entry && entry.expiresAt > now
+        ? { ...entry.counter, failures: entry.counter.failures + 1 }
+        : { failures: 1, blockedUntil: null };
+
+    this.counters.set(key, { counter, expiresAt: now + ttlMs });
+    return Promise.resolve({ ...counter });
+  }
+
+  block(key: string, blockedUntil: number): Promise<void> {
+    const entry = this.counters.get(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      entry.counter.blockedUntil = Math.max(
+        entry.counter.blockedUntil ?? 0,
+        blockedUntil,
+      );
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.counters.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Drop every expired counter
+   */
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.counters) {
+      if (entry.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { createHash } from 'crypto';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorAuth } from '../../entities/two-factor-auth.entity';
+import { User } from '../../entities/user.entity';
+import { generateTotp, verifyTotp } from '../../common/utils/totp.util';
+
+/**
+ * Unit tests for TwoFactorService
+ * The clock is frozen so codes are deterministic
+ */
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const userId = '550e8400-e29b-41d4-a716-446655440000';
+
+  // RFC 6238 test secret ("12345678901234567890" in base32)
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  // Fixed clock: 2026-03-01T12:00:00Z
+  const now = Date.UTC(2026, 2, 1, 12, 0, 0);
+  const step = Math.floor(now / 1000 / 30);
+
+  const hash = (code: string) =>
+    createHash('sha256').update(code).digest('hex');
+
+  const buildSettings = (
+    overrides: Partial<TwoFactorAuth> = {},
+  ): TwoFactorAuth =>
+    ({
+      userId,
+      secret,
+      recoveryCodes: [hash('4f1c9a07be')],
+      lastUsedStep: null,
+      enabledAt: new Date(now - 60_000),
+      createdAt: new Date(now - 60_000),
+      ...overrides,
+    }) as TwoFactorAuth;
+
+  const mockTwoFactorRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        {
+          provide: getRepositoryToken(TwoFactorAuth),
+          useValue: mockTwoFactorRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+    mockTwoFactorRepository.create.mockImplementation(
+      (data: Partial<TwoFactorAuth>) => data,
+    );
+    mockTwoFactorRepository.save.mockImplementation((data: TwoFactorAuth) =>
+      Promise.resolve(data),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('totp', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      // 6-digit truncations of the SHA-1 vectors at T=59s and T=1111111109s
+      expect(generateTotp(secret, 1)).toBe('287082');
+      expect(generateTotp(secret, 37037036)).toBe('081804');
+    });
+
+    it('should accept codes of the adjacent steps only', () => {
+      expect(verifyTotp(secret, generateTotp(secret, step - 1), now)).toBe(
+        step - 1,
+      );
+      expect(verifyTotp(secret, generateTotp(secret, step - 2), now)).toBe(
+        null,
+      );
+      expect(verifyTotp(secret, 'abcdef', now)).toBe(null);
+    });
+  });
+
+  describe('startEnrollment', () => {
+    it('should store a pending secret and return its otpauth URL', async () => {
+      // Arrange
+      mockTwoFactorRepository.findOne.mockResolvedValue(null);
+
+      // Act
+      const enrollment = await service.startEnrollment(userId, 'admin');
+
+      // Assert
+      expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(enrollment.otpauthUrl).toBe(
+        `otpauth://totp/Atelier%20Kaisla%3Aadmin?secret=${enrollment.secret}` +
+          '&issuer=Atelier+Kaisla&algorithm=SHA1&digits=6&period=30',
+      );
+      expect(mockTwoFactorRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId,
+          secret: enrollment.secret,
+          enabledAt: null,
+        }),
+      );
+    });
+
+    it('should refuse when 2FA is already enabled', async () => {
+      // Arrange
+      mockTwoFactorRepository.findOne.mockResolvedValue(buildSettings());
+
+      // Act & Assert
+      await expect(service.startEnrollment(userId, 'admin')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable 2FA and return hashed-at-rest recovery codes', async () => {
+      // Arrange
+      const pending = buildSettings({ enabledAt: null, recoveryCodes: [] });
+      mockTwoFactorRepository.findOne.mockResolvedValue(pending);
+
+      // Act
+      const codes = await service.confirmEnrollment(
+        userId,
+        generateTotp(secret, step),
+      );
+
+      // Assert
+      expect(codes).toHaveLength(10);
+      expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+      expect(pending.enabledAt).toEqual(new Date(now));
+      expect(pending.lastUsedStep).toBe(String(step));
+      expect(pending.recoveryCodes).toContain(hash(codes[0].replace('-', '')));
+      expect(pending.recoveryCodes).not.toContain(codes[0]);
+    });
+
+    it('should reject a wrong code', async () => {
+      // Arrange
+      mockTwoFactorRepository.findOne.mockResolvedValue(
+        buildSettings({ enabledAt: null }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.confirmEnrollment(userId, generateTotp(secret, step + 5)),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept a current code only once', async () => {
+      // Arrange
+      const settings = buildSettings();
+      mockTwoFactorRepository.findOne.mockResolvedValue(settings);
+      const code = generateTotp(secret, step);
+
+      // Act & Assert
+      expect(await service.verify(userId, code)).toBe(true);
+      expect(await service.verify(userId, code)).toBe(false);
+    });
+
+    it('should consume recovery codes', async () => {
+      // Arrange
+      const settings = buildSettings();
+      mockTwoFactorRepository.findOne.mockResolvedValue(settings);
+
+      // Act & Assert
+      expect(await service.verify(userId, '4F1C9-A07BE')).toBe(true);
+      expect(settings.recoveryCodes).toEqual([]);
+      expect(await service.verify(userId, '4f1c9-a07be')).toBe(false);
+    });
+
+    it('should reject codes while the enrollment is pending', async () => {
+      // Arrange
+      mockTwoFactorRepository.findOne.mockResolvedValue(
+        buildSettings({ enabledAt: null }),
+      );
+
+      // Act & Assert
+      expect(await service.verify(userId, generateTotp(secret, step))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('disable', () => {
+    it('should remove 2FA with the password and a code', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue({ id: userId });
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(true as never);
+      mockTwoFactorRepository.findOne.mockResolvedValue(buildSettings());
+
+      // Act
+      await service.disable(userId, 'password123', generateTotp(secret, step));
+
+      // Assert
+      expect(mockTwoFactorRepository.delete).toHaveBeenCalledWith({ userId });
+    });
+
+    it('should keep 2FA when the password is wrong', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue({ id: userId });
+      jest.spyOn(bcrypt, 'compare').mockResolvedValue(false as never);
+
+      // Act & Assert
+      await expect(
+        service.disable(userId, 'wrong', generateTotp(secret, step)),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mockTwoFactorRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
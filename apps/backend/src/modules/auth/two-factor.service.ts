@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { TwoFactorAuth } from '../../entities/two-factor-auth.entity';
+import { User } from '../../entities/user.entity';
+import {
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../common/utils/totp.util';
+
+/**
+ * Recovery codes handed out when 2FA is enabled (or regenerated)
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Secret to add to the authenticator app, as a QR code or typed in
+ */
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Two-factor authentication service
+ *
+ * Enrollment is two-step: a secret is generated and stored as pending, then
+ * enabled once the user proves their app produces matching codes. Enabling
+ * hands out single-use recovery codes, stored as SHA-256 hashes (they are
+ * random, so a slow hash adds nothing) and shown only once.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectRepository(TwoFactorAuth)
+    private readonly twoFactorRepository: Repository<TwoFactorAuth>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const settings = await this.findEnabled(userId);
+    return {
+      enabled: !!settings,
+      recoveryCodesRemaining: settings?.recoveryCodes.length ?? 0,
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    return !!(await this.findEnabled(userId));
+  }
+
+  /**
+   * Generate a new secret, pending until confirmed with a code
+   * Starting over replaces a previous pending secret
+   * @throws ConflictException if 2FA is already enabled
+   */
+  async startEnrollment(
+    userId: string,
+    username: string,
+  ): Promise<TwoFactorEnrollment> {
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.twoFactorRepository.save(
+      this.twoFactorRepository.create({
+        userId,
+        secret,
+        recoveryCodes: [],
+        lastUsedStep: null,
+        enabledAt: null,
+      }),
+    );
+
+    const issuer = this.configService.get<string>(
+      'TWO_FACTOR_ISSUER',
+      'Atelier Kaisla',
+    );
+    return { secret, otpauthUrl: buildOtpauthUrl(issuer, username, secret) };
+  }
+
+  /**
+   * Enable 2FA with a first code from the app
+   * @returns Recovery codes, in clear for the only time
+   * @throws BadRequestException if no enrollment is pending or the code is wrong
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const settings = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+
+    if (!settings || settings.enabledAt) {
+      throw new BadRequestException('No two-factor enrollment in progress');
+    }
+
+    const step = verifyTotp(settings.secret, code.trim(), Date.now());
+    if (step === null) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    settings.recoveryCodes = recoveryCodes.map((recoveryCode) =>
+      this.hashRecoveryCode(recoveryCode),
+    );
+    settings.lastUsedStep = String(step);
+    settings.enabledAt = new Date();
+    await this.twoFactorRepository.save(settings);
+
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a code from the app or a recovery code
+   * TOTP codes are accepted once; recovery codes are consumed
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const settings = await this.findEnabled(userId);
+    if (!settings) {
+      return false;
+    }
+
+    const step = verifyTotp(settings.secret, code.trim(), Date.now());
+    if (step !== null) {
+      if (settings.lastUsedStep && step <= Number(settings.lastUsedStep)) {
+        return false;
+      }
+      settings.lastUsedStep = String(step);
+      await this.twoFactorRepository.save(settings);
+      return true;
+    }
+
+    const hash = this.hashRecoveryCode(code);
+    if (!settings.recoveryCodes.includes(hash)) {
+      return false;
+    }
+
+    settings.recoveryCodes = settings.recoveryCodes.filter(
+      (recoveryCode) => recoveryCode !== hash,
+    );
+    await this.twoFactorRepository.save(settings);
+    this.logger.log(
+      `Recovery code used by user ${userId}, ${settings.recoveryCodes.length} left`,
+    );
+    return true;
+  }
+
+  /**
+   * Replace every recovery code
+   * @throws BadRequestException if the code is wrong
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.assertCode(userId, code);
+
+    const settings = await this.findEnabled(userId);
+    const recoveryCodes = this.generateRecoveryCodes();
+    settings.recoveryCodes = recoveryCodes.map((recoveryCode) =>
+      this.hashRecoveryCode(recoveryCode),
+    );
+    await this.twoFactorRepository.save(settings);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn 2FA off; requires the password and a code
+   * @throws UnauthorizedException if the password is wrong
+   * @throws BadRequestException if the code is wrong
+   */
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    await this.assertCode(userId, code);
+    await this.twoFactorRepository.delete({ userId });
+
+    this.logger.log(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  private async findEnabled(userId: string): Promise<TwoFactorAuth | null> {
+    const settings = await this.twoFactorRepository.findOne({
+      where: { userId },
+    });
+    return settings?.enabledAt ? settings : null;
+  }
+
+  private async assertCode(userId: string, code: string): Promise<void> {
+    if (!(await this.isEnabled(userId))) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.verify(userId, code))) {
+      throw new BadRequestException('Invalid two-factor code');
+    }
+  }
+
+  /**
+   * Codes like `4f1c9-a07be`
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  /**
+   * Case and separators do not matter when typing a recovery code
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^0-9a-z]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
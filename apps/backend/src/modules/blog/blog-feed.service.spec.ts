@@ -0,0 +1,193 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BlogFeedService } from './blog-feed.service';
+import { BlogService } from './blog.service';
+import { BlogArticle } from '../../entities/blog-article.entity';
+
+/**
+ * Unit tests for BlogFeedService
+ * Articles come from a mocked BlogService.findPublished
+ */
+describe('BlogFeedService', () => {
+  let service: BlogFeedService;
+
+  const selfUrl = 'https://api.atelier-kaisla.com/api/blog/feed.xml';
+
+  const mockArticle = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    title: 'Tisser un tapis & le teindre',
+    subtitle: null,
+    content:
+      '<p>Voir <a href="/rugs">nos tapis</a> et <a href="https://example.org">ailleurs</a>.</p><script>alert(1)</script>',
+    slug: 'tisser-un-tapis',
+    publishedAt: new Date('2026-03-01T10:00:00.000Z'),
+    isPublished: true,
+    sortOrder: 0,
+    images: [
+      {
+        id: 'img-2',
+        url: 'https://cdn.example.org/blog/loom.webp',
+        isCover: true,
+        sortOrder: 1,
+      },
+      {
+        id: 'img-1',
+        url: 'https://cdn.example.org/blog/wool.jpg',
+        isCover: false,
+        sortOrder: 0,
+      },
+    ],
+    tags: [{ id: 'tag-1', name: 'Laine', slug: 'laine' }],
+    createdAt: new Date('2026-02-20T08:00:00.000Z'),
+    updatedAt: new Date('2026-03-05T12:30:00.000Z'),
+  } as unknown as BlogArticle;
+
+  const mockBlogService = {
+    findPublished: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'FRONTEND_URL' ? 'https://atelier-kaisla.com/' : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BlogFeedService,
+        { provide: BlogService, useValue: mockBlogService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<BlogFeedService>(BlogFeedService);
+
+    jest.clearAllMocks();
+    mockBlogService.findPublished.mockResolvedValue({
+      data: [mockArticle],
+      total: 1,
+      page: 1,
+      limit: 20,
+      totalPages: 1,
+    });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('rss', () => {
+    it('should list the latest published articles', async () => {
+      // Act
+      const xml = await service.rss(selfUrl);
+
+      // Assert
+      expect(mockBlogService.findPublished).toHaveBeenCalledWith({
+        page: 1,
+        limit: 20,
+      });
+      expect(xml).toContain('<title>Tisser un tapis &amp; le teindre</title>');
+      expect(xml).toContain(
+        '<link>https://atelier-kaisla.com/blog/tisser-un-tapis</link>',
+      );
+      expect(xml).toContain(
+        '<guid isPermaLink="false">urn:uuid:550e8400-e29b-41d4-a716-446655440000</guid>',
+      );
+      expect(xml).toContain('<pubDate>Sun, 01 Mar 2026 10:00:00 GMT</pubDate>');
+      expect(xml).toContain('<category>Laine</category>');
+      expect(xml).toContain(
+        `<atom:link href="${selfUrl}" rel="self" type="application/rss+xml"/>`,
+      );
+    });
+
+    it('should attach the cover image rather than the first one', async () => {
+      // Act
+      const xml = await service.rss(selfUrl);
+
+      // Assert
+      expect(xml).toContain(
+        '<enclosure url="https://cdn.example.org/blog/loom.webp" length="0" type="image/webp"/>',
+      );
+      expect(xml).not.toContain('wool.jpg');
+    });
+
+    it('should sanitize the content and make its links absolute', async () => {
+      // Act
+      const xml = await service.rss(selfUrl);
+
+      // Assert
+      expect(xml).toContain(
+        '<content:encoded><![CDATA[<p>Voir <a href="https://atelier-kaisla.com/rugs">nos tapis</a> et <a href="https://example.org/">ailleurs</a>.</p>]]></content:encoded>',
+      );
+      expect(xml).not.toContain('<script>');
+      expect(xml).toContain(
+        '<description>Voir nos tapis et ailleurs.</description>',
+      );
+    });
+  });
+
+  describe('atom', () => {
+    it('should date entries and the feed with publishedAt and updatedAt', async () => {
+      // Act
+      const xml = await service.atom(selfUrl);
+
+      // Assert
+      expect(xml).toContain('<published>2026-03-01T10:00:00.000Z</published>');
+      expect(xml).toContain('<updated>2026-03-05T12:30:00.000Z</updated>');
+      expect(xml).toContain('<category term="Laine"/>');
+      expect(xml).toContain('&lt;p&gt;Voir');
+    });
+
+    it('should fall back to the creation date of an undated article', async () => {
+      // Arrange
+      mockBlogService.findPublished.mockResolvedValue({
+        data: [{ ...mockArticle, publishedAt: null }],
+      });
+
+      // Act
+      const xml = await service.atom(selfUrl);
+
+      // Assert
+      expect(xml).toContain('<published>2026-02-20T08:00:00.000Z</published>');
+    });
+  });
+
+  describe('jsonFeed', () => {
+    it('should render a JSON Feed 1.1 document', async () => {
+      // Act
+      const feed = await service.jsonFeed(selfUrl);
+
+      // Assert
+      expect(feed).toMatchObject({
+        version: 'https://jsonfeed.org/version/1.1',
+        home_page_url: 'https://atelier-kaisla.com/blog',
+        feed_url: selfUrl,
+      });
+      expect(feed.items).toEqual([
+        expect.objectContaining({
+          id: 'urn:uuid:550e8400-e29b-41d4-a716-446655440000',
+          url: 'https://atelier-kaisla.com/blog/tisser-un-tapis',
+          image: 'https://cdn.example.org/blog/loom.webp',
+          date_published: '2026-03-01T10:00:00.000Z',
+          date_modified: '2026-03-05T12:30:00.000Z',
+          tags: ['Laine'],
+        }),
+      ]);
+    });
+
+    it('should leave out the image and tags of an article without any', async () => {
+      // Arrange
+      mockBlogService.findPublished.mockResolvedValue({
+        data: [{ ...mockArticle, images: [], tags: [] }],
+      });
+
+      // Act
+      const feed = await service.jsonFeed(selfUrl);
+
+      // Assert
+      expect(feed.items[0]).not.toHaveProperty('image');
+      expect(feed.items[0]).not.toHaveProperty('tags');
+    });
+  });
+});
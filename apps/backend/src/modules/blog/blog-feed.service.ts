@@ -0,0 +1,318 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as sanitizeHtml from 'sanitize-html';
+import { BlogService, BLOG_SANITIZE_OPTIONS } from './blog.service';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { BlogArticleImage } from '../../entities/blog-article-image.entity';
+import { getFrontendUrl } from '../../common/utils/app-config.util';
+import { excerptHtml } from '../../common/utils/html-excerpt.util';
+
+/**
+ * Latest articles listed in each feed
+ */
+const FEED_SIZE = 20;
+
+const FEED_TITLE = 'Journal | Atelier Kaisla';
+const FEED_DESCRIPTION =
+  "Articles et inspirations autour de l'artisanat textile et du tissage contemporain.";
+const FEED_AUTHOR = 'Atelier Kaisla';
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+};
+
+/**
+ * JSON Feed 1.1 document
+ * @see https://www.jsonfeed.org/version/1.1/
+ */
+export interface JsonFeed {
+  version: string;
+  title: string;
+  home_page_url: string;
+  feed_url: string;
+  description: string;
+  language: string;
+  authors: { name: string }[];
+  items: JsonFeedItem[];
+}
+
+export interface JsonFeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  content_html: string;
+  image?: string;
+  date_published: string;
+  date_modified: string;
+  tags?: string[];
+}
+
+/**
+ * Article fields shared by every feed format
+ */
+interface FeedEntry {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  contentHtml: string;
+  cover: { url: string; type: string } | null;
+  tags: string[];
+  published: Date;
+  updated: Date;
+}
+
+/**
+ * Blog feed service
+ *
+ * Renders the latest published articles as RSS 2.0, Atom and JSON Feed.
+ * Entries link to the storefront (FRONTEND_URL) and use the article id as
+ * identifier, so renaming an article does not show it again as new in feed
+ * readers. Links inside the content are made absolute, as readers display
+ * it outside the site.
+ */
+@Injectable()
+export class BlogFeedService {
+  private readonly logger = new Logger(BlogFeedService.name);
+
+  constructor(
+    private readonly blogService: BlogService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * RSS 2.0 feed
+   * @param selfUrl - Public URL of the feed itself
+   */
+  async rss(selfUrl: string): Promise<string> {
+    const entries = await this.findEntries();
+    const blogUrl = this.getBlogUrl();
+
+    const items = entries.map((entry) =>
+      [
+        '    <item>',
+        `      <title>${this.escapeXml(entry.title)}</title>`,
+        `      <link>${this.escapeXml(entry.url)}</link>`,
+        `      <guid isPermaLink="false">urn:uuid:${entry.id}</guid>`,
+        `      <pubDate>${entry.published.toUTCString()}</pubDate>`,
+        `      <atom:updated>${entry.updated.toISOString()}</atom:updated>`,
+        `      <description>${this.escapeXml(entry.summary)}</description>`,
+        `      <content:encoded>${this.cdata(entry.contentHtml)}</content:encoded>`,
+        ...entry.tags.map(
+          (tag) => `      <category>${this.escapeXml(tag)}</category>`,
+        ),
+        ...(entry.cover
+          ? [
+              `      <enclosure url="${this.escapeXml(entry.cover.url)}" length="0" type="${entry.cover.type}"/>`,
+            ]
+          : []),
+        '    </item>',
+      ].join('\n'),
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+      '  <channel>',
+      `    <title>${this.escapeXml(FEED_TITLE)}</title>`,
+      `    <link>${this.escapeXml(blogUrl)}</link>`,
+      `    <description>${this.escapeXml(FEED_DESCRIPTION)}</description>`,
+      '    <language>fr</language>',
+      `    <lastBuildDate>${this.getLastUpdate(entries).toUTCString()}</lastBuildDate>`,
+      `    <atom:link href="${this.escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>`,
+      ...items,
+      '  </channel>',
+      '</rss>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Atom 1.0 feed
+   * @param selfUrl - Public URL of the feed itself
+   */
+  async atom(selfUrl: string): Promise<string> {
+    const entries = await this.findEntries();
+    const blogUrl = this.getBlogUrl();
+
+    const items = entries.map((entry) =>
+      [
+        '  <entry>',
+        `    <id>urn:uuid:${entry.id}</id>`,
+        `    <title>${this.escapeXml(entry.title)}</title>`,
+        `    <link rel="alternate" type="text/html" href="${this.escapeXml(entry.url)}"/>`,
+        `    <published>${entry.published.toISOString()}</published>`,
+        `    <updated>${entry.updated.toISOString()}</updated>`,
+        `    <summary>${this.escapeXml(entry.summary)}</summary>`,
+        `    <content type="html">${this.escapeXml(entry.contentHtml)}</content>`,
+        ...entry.tags.map(
+          (tag) => `    <category term="${this.escapeXml(tag)}"/>`,
+        ),
+        ...(entry.cover
+          ? [
+              `    <link rel="enclosure" type="${entry.cover.type}" href="${this.escapeXml(entry.cover.url)}"/>`,
+            ]
+          : []),
+        '  </entry>',
+      ].join('\n'),
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="fr">',
+      `  <id>${this.escapeXml(blogUrl)}</id>`,
+      `  <title>${this.escapeXml(FEED_TITLE)}</title>`,
+      `  <subtitle>${this.escapeXml(FEED_DESCRIPTION)}</subtitle>`,
+      `  <link rel="alternate" type="text/html" href="${this.escapeXml(blogUrl)}"/>`,
+      `  <link rel="self" type="application/atom+xml" href="${this.escapeXml(selfUrl)}"/>`,
+      `  <updated>${this.getLastUpdate(entries).toISOString()}</updated>`,
+      `  <author><name>${FEED_AUTHOR}</name></author>`,
+      ...items,
+      '</feed>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * JSON Feed 1.1
+   * @param selfUrl - Public URL of the feed itself
+   */
+  async jsonFeed(selfUrl: string): Promise<JsonFeed> {
+    const entries = await this.findEntries();
+
+    return {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: FEED_TITLE,
+      home_page_url: this.getBlogUrl(),
+      feed_url: selfUrl,
+      description: FEED_DESCRIPTION,
+      language: 'fr',
+      authors: [{ name: FEED_AUTHOR }],
+      items: entries.map((entry) => ({
+        id: `urn:uuid:${entry.id}`,
+        url: entry.url,
+        title: entry.title,
+        summary: entry.summary,
+        content_html: entry.contentHtml,
+        ...(entry.cover ? { image: entry.cover.url } : {}),
+        date_published: entry.published.toISOString(),
+        date_modified: entry.updated.toISOString(),
+        ...(entry.tags.length > 0 ? { tags: entry.tags } : {}),
+      })),
+    };
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  private async findEntries(): Promise<FeedEntry[]> {
+    const { data } = await this.blogService.findPublished({
+      page: 1,
+      limit: FEED_SIZE,
+    });
+
+    this.logger.log(`Rendering blog feed with ${data.length} articles`);
+    return data.map((article) => this.toEntry(article));
+  }
+
+  private toEntry(article: BlogArticle): FeedEntry {
+    const url = `${this.getBlogUrl()}/${encodeURIComponent(article.slug)}`;
+    const contentHtml = this.sanitizeContent(article.content, url);
+    const cover = this.findCover(article.images ?? []);
+
+    return {
+      id: article.id,
+      url,
+      title: article.title,
+      summary: article.subtitle || excerptHtml(contentHtml),
+      contentHtml,
+      cover: cover
+        ? { url: cover.url, type: this.getImageType(cover.url) }
+        : null,
+      tags: (article.tags ?? []).map((tag) => tag.name),
+      published: new Date(article.publishedAt ?? article.createdAt),
+      updated: new Date(article.updatedAt),
+    };
+  }
+
+  /**
+   * Content as stored, sanitized again (rows may predate sanitization) with
+   * links resolved against the article URL
+   */
+  private sanitizeContent(content: string, articleUrl: string): string {
+    return sanitizeHtml(content, {
+      ...BLOG_SANITIZE_OPTIONS,
+      transformTags: {
+        a: (tagName, attribs) => ({
+          tagName,
+          attribs: attribs.href
+            ? { ...attribs, href: this.resolveUrl(attribs.href, articleUrl) }
+            : attribs,
+        }),
+      },
+    });
+  }
+
+  private resolveUrl(href: string, base: string): string {
+    try {
+      return new URL(href, base).href;
+    } catch {
+      return href;
+    }
+  }
+
+  /**
+   * Cover image, the first image otherwise
+   */
+  private findCover(images: BlogArticleImage[]): BlogArticleImage | null {
+    return (
+      images.find((image) => image.isCover) ??
+      [...images].sort((a, b) => a.sortOrder - b.sortOrder)[0] ??
+      null
+    );
+  }
+
+  private getImageType(url: string): string {
+    const extension = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(url)?.[1];
+    return IMAGE_TYPES[extension?.toLowerCase() ?? ''] ?? 'image/jpeg';
+  }
+
+  /**
+   * Most recent update of the listed articles, now for an empty feed
+   */
+  private getLastUpdate(entries: FeedEntry[]): Date {
+    if (entries.length === 0) {
+      return new Date();
+    }
+    return new Date(
+      Math.max(...entries.map((entry) => entry.updated.getTime())),
+    );
+  }
+
+  private getBlogUrl(): string {
+    return `${getFrontendUrl(this.configService)}/blog`;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * CDATA section; a `]]>` inside the content is split across two sections
+   */
+  private cdata(value: string): string {
+    return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+  }
+}
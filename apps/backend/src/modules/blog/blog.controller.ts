@@ -11,10 +11,14 @@ import {
   ParseUUIDPipe,
   UseInterceptors,
   UploadedFiles,
-  Req,
   BadRequestException,
   Logger,
+  Query,
+  Req,
+  Res,
+  Header,
 } from '@nestjs/common';
+import { Request, Response } from 'express';
 import { FilesInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
@@ -24,15 +28,35 @@ import {
   ApiConsumes,
   ApiBody,
   ApiBearerAuth,
+  ApiProduces,
 } from '@nestjs/swagger';
-import { Request } from 'express';
 import { BlogService } from './blog.service';
+import { BlogFeedService } from './blog-feed.service';
 import { CreateBlogArticleWithUploadDto } from './dto/create-blog-article-with-upload.dto';
 import { UpdateBlogArticleDto } from './dto/update-blog-article.dto';
+import { BlogQueryDto } from './dto/blog-query.dto';
 import { CreateBlogTagDto } from './dto/create-blog-tag.dto';
 import { UpdateBlogTagDto } from './dto/update-blog-tag.dto';
 import { UpdateBlogArticleImageDto } from './dto/update-blog-article-image.dto';
+import { RevisionDiffQueryDto } from '../revisions/dto/revision-diff-query.dto';
+import { PreviewsService } from '../previews/previews.service';
+import { PreviewQueryDto } from '../previews/dto/preview-query.dto';
+import { PreviewNoStoreInterceptor } from '../previews/preview-no-store.interceptor';
 import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Feeds are polled by readers; a short shared cache spares the database
+ */
+const FEED_CACHE_CONTROL = 'public, max-age=900';
+
+/**
+ * Public URL of the request, without query string (behind the proxy, the
+ * protocol and host come from TRUST_PROXY)
+ */
+function requestUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}${req.originalUrl.split('?')[0]}`;
+}
 
 /**
  * Blog controller - handles HTTP requests for blog articles, images, and tags
@@ -42,7 +66,11 @@ import { Public } from '../auth/decorators/public.decorator';
 export class BlogController {
   private readonly logger = new Logger(BlogController.name);
 
-  constructor(private readonly blogService: BlogService) {}
+  constructor(
+    private readonly blogService: BlogService,
+    private readonly blogFeedService: BlogFeedService,
+    private readonly previewsService: PreviewsService,
+  ) {}
 
   // ──────────────────────────────────────────────
   // Tag endpoints (BEFORE :id routes to avoid conflicts)
@@ -108,9 +136,10 @@ export class BlogController {
   }
 
   /**
-   * Delete a tag (protected)
+   * Delete a tag (admin only)
    */
   @Delete('tags/:id')
+  @Roles('admin')
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a blog tag' })
@@ -124,6 +153,10 @@ export class BlogController {
     status: 204,
     description: 'Blog tag deleted successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'Blog tag not found',
@@ -132,6 +165,52 @@ export class BlogController {
     await this.blogService.removeTag(id);
   }
 
+  // ──────────────────────────────────────────────
+  // Feed endpoints (BEFORE :id routes to avoid conflicts)
+  // ──────────────────────────────────────────────
+
+  /**
+   * Latest published articles as RSS 2.0 (public)
+   */
+  @Public()
+  @Get('feed.xml')
+  @Header('Content-Type', 'application/rss+xml; charset=utf-8')
+  @Header('Cache-Control', FEED_CACHE_CONTROL)
+  @ApiOperation({ summary: 'Get the blog RSS 2.0 feed' })
+  @ApiProduces('application/rss+xml')
+  @ApiResponse({ status: 200, description: 'RSS feed of the latest articles' })
+  async rssFeed(@Req() req: Request) {
+    return await this.blogFeedService.rss(requestUrl(req));
+  }
+
+  /**
+   * Latest published articles as Atom (public)
+   */
+  @Public()
+  @Get('atom.xml')
+  @Header('Content-Type', 'application/atom+xml; charset=utf-8')
+  @Header('Cache-Control', FEED_CACHE_CONTROL)
+  @ApiOperation({ summary: 'Get the blog Atom feed' })
+  @ApiProduces('application/atom+xml')
+  @ApiResponse({ status: 200, description: 'Atom feed of the latest articles' })
+  async atomFeed(@Req() req: Request) {
+    return await this.blogFeedService.atom(requestUrl(req));
+  }
+
+  /**
+   * Latest published articles as JSON Feed 1.1 (public)
+   */
+  @Public()
+  @Get('feed.json')
+  @Header('Content-Type', 'application/feed+json; charset=utf-8')
+  @Header('Cache-Control', FEED_CACHE_CONTROL)
+  @ApiOperation({ summary: 'Get the blog JSON Feed' })
+  @ApiProduces('application/feed+json')
+  @ApiResponse({ status: 200, description: 'JSON Feed of the latest articles' })
+  async jsonFeed(@Req() req: Request) {
+    return await this.blogFeedService.jsonFeed(requestUrl(req));
+  }
+
   // ──────────────────────────────────────────────
   // Article endpoints
   // ──────────────────────────────────────────────
@@ -174,6 +253,8 @@ export class BlogController {
         publishedAt: {
           type: 'string',
           format: 'date-time',
+          description:
+            'With isPublished, a future date schedules the publication',
           example: '2026-02-25T10:00:00.000Z',
         },
         isPublished: {
@@ -216,19 +297,14 @@ export class BlogController {
   async createWithUpload(
     @Body() createDto: CreateBlogArticleWithUploadDto,
     @UploadedFiles() files: Express.Multer.File[],
-    @Req() request: Request,
   ) {
     this.logger.log('POST /api/blog/with-upload - Request received');
     this.logger.debug(`Body: ${JSON.stringify(createDto, null, 2)}`);
     this.logger.debug(`Files: ${files ? files.length : 0} file(s) received`);
 
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
-    this.logger.debug(`Base URL: ${baseUrl}`);
-
     const result = await this.blogService.createWithImages(
       createDto,
       files || [],
-      baseUrl,
     );
 
     this.logger.log(`Blog article created successfully: ${result.id}`);
@@ -236,19 +312,20 @@ export class BlogController {
   }
 
   /**
-   * Get all published articles (public)
+   * Get published articles with filters and pagination (public)
    */
   @Public()
   @Get()
   @ApiOperation({
-    summary: 'Get all published blog articles (sorted by publishedAt DESC)',
+    summary:
+      'Get published blog articles (newest first, or by relevance when searching)',
   })
   @ApiResponse({
     status: 200,
     description: 'Published blog articles retrieved successfully',
   })
-  async findPublished() {
-    return await this.blogService.findPublished();
+  async findPublished(@Query() query: BlogQueryDto) {
+    return await this.blogService.findPublished(query);
   }
 
   /**
@@ -269,10 +346,66 @@ export class BlogController {
   }
 
   /**
-   * Get a single blog article by ID (public)
+   * Get a single published blog article by slug (public)
+   * A former slug answers with a 301 to the current one; a preview token of
+   * the article also returns it unpublished
+   * IMPORTANT: Must be defined BEFORE :id route to avoid conflicts
+   */
+  @Public()
+  @Get('slug/:slug')
+  @UseInterceptors(PreviewNoStoreInterceptor)
+  @ApiOperation({ summary: 'Get a blog article by slug' })
+  @ApiParam({
+    name: 'slug',
+    type: 'string',
+    description: 'Current or former article slug',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Blog article found',
+  })
+  @ApiResponse({
+    status: 301,
+    description: 'Former slug, redirected to the current one',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired preview token',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Blog article not found',
+  })
+  async findBySlug(
+    @Param('slug') slug: string,
+    @Query() query: PreviewQueryDto,
+    @Res() res: Response,
+  ) {
+    const article = await this.blogService.findBySlug(
+      slug,
+      this.previewsService.previewedId(query.preview, 'blog-article'),
+    );
+
+    if (article.slug !== slug) {
+      // Relative to /api/blog/slug/, keeping the query string (preview token)
+      const search = res.req.originalUrl.split('?')[1];
+      const location = encodeURIComponent(article.slug);
+      return res.redirect(
+        HttpStatus.MOVED_PERMANENTLY,
+        search ? `${location}?${search}` : location,
+      );
+    }
+
+    return res.json(article);
+  }
+
+  /**
+   * Get a single published blog article by ID (public)
+   * A preview token of the article also returns it unpublished
    */
   @Public()
   @Get(':id')
+  @UseInterceptors(PreviewNoStoreInterceptor)
   @ApiOperation({ summary: 'Get a blog article by ID' })
   @ApiParam({
     name: 'id',
@@ -284,12 +417,61 @@ export class BlogController {
     status: 200,
     description: 'Blog article found',
   })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired preview token',
+  })
   @ApiResponse({
     status: 404,
     description: 'Blog article not found',
   })
-  async findOne(@Param('id', ParseUUIDPipe) id: string) {
-    return await this.blogService.findById(id);
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: PreviewQueryDto,
+  ) {
+    if (this.previewsService.canPreview(query.preview, 'blog-article', id)) {
+      return await this.blogService.findById(id);
+    }
+    return await this.blogService.findPublishedById(id);
+  }
+
+  /**
+   * Get the articles and products to suggest after an article (public)
+   * A preview token of the article also works while it is unpublished
+   */
+  @Public()
+  @Get(':id/related')
+  @UseInterceptors(PreviewNoStoreInterceptor)
+  @ApiOperation({
+    summary:
+      'Get related articles (by shared tags, then recency) and featured products',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Blog article UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Related articles and products retrieved successfully',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired preview token',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Blog article not found',
+  })
+  async findRelated(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: PreviewQueryDto,
+  ) {
+    return await this.blogService.findRelated(
+      id,
+      this.previewsService.previewedId(query.preview, 'blog-article'),
+    );
   }
 
   /**
@@ -320,9 +502,10 @@ export class BlogController {
   }
 
   /**
-   * Delete a blog article (protected)
+   * Delete a blog article (admin only)
    */
   @Delete(':id')
+  @Roles('admin')
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a blog article' })
@@ -336,6 +519,10 @@ export class BlogController {
     status: 204,
     description: 'Blog article deleted successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'Blog article not found',
@@ -344,6 +531,98 @@ export class BlogController {
     await this.blogService.remove(id);
   }
 
+  // ──────────────────────────────────────────────
+  // Revision endpoints
+  // ──────────────────────────────────────────────
+
+  /**
+   * History of a blog article (protected)
+   */
+  @Get(':id/revisions')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List the revisions of a blog article, newest first',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Blog article UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions retrieved successfully (without their content)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Blog article not found',
+  })
+  async findRevisions(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.blogService.findRevisions(id);
+  }
+
+  /**
+   * Compare two revisions (protected)
+   */
+  @Get(':id/revisions/diff')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Compare two revisions of a blog article' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Blog article UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Changed fields and line diff of the content',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Blog article or revision not found',
+  })
+  async diffRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: RevisionDiffQueryDto,
+  ) {
+    return await this.blogService.diffRevisions(id, query.from, query.to);
+  }
+
+  /**
+   * Restore a revision (protected)
+   * Recorded as a new revision, so a restore can itself be undone
+   */
+  @Post(':id/revisions/:revisionId/restore')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a revision of a blog article' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Blog article UUID',
+  })
+  @ApiParam({
+    name: 'revisionId',
+    type: 'string',
+    format: 'uuid',
+    description: 'Revision UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revision restored successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Blog article or revision not found',
+  })
+  async restoreRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('revisionId', ParseUUIDPipe) revisionId: string,
+  ) {
+    return await this.blogService.restoreRevision(id, revisionId);
+  }
+
   // ──────────────────────────────────────────────
   // Image endpoints
   // ──────────────────────────────────────────────
@@ -387,15 +666,12 @@ export class BlogController {
   async addImages(
     @Param('id', ParseUUIDPipe) id: string,
     @UploadedFiles() files: Express.Multer.File[],
-    @Req() request: Request,
   ) {
     if (!files || files.length === 0) {
       throw new BadRequestException('At least one image is required');
     }
 
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
-
-    return await this.blogService.addImages(id, files, baseUrl);
+    return await this.blogService.addImages(id, files);
   }
 
   /**
@@ -428,6 +704,7 @@ export class BlogController {
    * Remove an image from a blog article
    */
   @Delete(':id/images/:imageId')
+  @Roles('admin')
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Remove an image from a blog article' })
@@ -437,6 +714,10 @@ export class BlogController {
     status: 204,
     description: 'Image removed successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'Blog article image not found',
@@ -1,17 +1,18 @@
-import { Module, Logger } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MulterModule } from '@nestjs/platform-express';
 import { BlogService } from './blog.service';
 import { BlogController } from './blog.controller';
+import { BlogFeedService } from './blog-feed.service';
 import { BlogArticle } from '../../entities/blog-article.entity';
 import { BlogArticleImage } from '../../entities/blog-article-image.entity';
 import { BlogTag } from '../../entities/blog-tag.entity';
+import { SlugRedirect } from '../../entities/slug-redirect.entity';
+import { Product } from '../../entities/product.entity';
 import { UploadModule } from '../upload/upload.module';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
-import { v4 as uuidv4 } from 'uuid';
-
-const logger = new Logger('BlogModule');
+import { RevisionsModule } from '../revisions/revisions.module';
+import { PreviewsModule } from '../previews/previews.module';
+import { imageUploadOptions } from '../upload/image-upload.options';
 
 /**
  * Blog module
@@ -19,51 +20,20 @@ const logger = new Logger('BlogModule');
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([BlogArticle, BlogArticleImage, BlogTag]),
+    TypeOrmModule.forFeature([
+      BlogArticle,
+      BlogArticleImage,
+      BlogTag,
+      SlugRedirect,
+      Product,
+    ]),
     UploadModule,
-    MulterModule.register({
-      storage: diskStorage({
-        destination: './uploads/blog',
-        filename: (req, file, callback) => {
-          const uniqueName = `${uuidv4()}${extname(file.originalname)}`;
-          logger.debug(
-            `Saving file: ${file.originalname} as ${uniqueName} (${file.size} bytes)`,
-          );
-          callback(null, uniqueName);
-        },
-      }),
-      fileFilter: (req, file, callback) => {
-        const allowedMimeTypes = [
-          'image/jpeg',
-          'image/jpg',
-          'image/png',
-          'image/webp',
-        ];
-
-        if (allowedMimeTypes.includes(file.mimetype)) {
-          logger.debug(
-            `File accepted: ${file.originalname} (${file.mimetype})`,
-          );
-          callback(null, true);
-        } else {
-          logger.warn(
-            `File rejected: ${file.originalname} (${file.mimetype}) - Invalid mime type`,
-          );
-          callback(
-            new Error(
-              'Invalid file type. Only JPEG, PNG, and WebP images are allowed.',
-            ),
-            false,
-          );
-        }
-      },
-      limits: {
-        fileSize: 5 * 1024 * 1024, // 5MB max file size
-      },
-    }),
+    RevisionsModule,
+    PreviewsModule,
+    MulterModule.register(imageUploadOptions),
   ],
   controllers: [BlogController],
-  providers: [BlogService],
+  providers: [BlogService, BlogFeedService],
   exports: [BlogService],
 })
 export class BlogModule {}
@@ -1,6 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, IsNull, LessThanOrEqual, Not, Repository } from 'typeorm';
 import {
   NotFoundException,
   BadRequestException,
@@ -10,7 +10,10 @@ import { BlogService } from './blog.service';
 import { BlogArticle } from '../../entities/blog-article.entity';
 import { BlogArticleImage } from '../../entities/blog-article-image.entity';
 import { BlogTag } from '../../entities/blog-tag.entity';
+import { SlugRedirect } from '../../entities/slug-redirect.entity';
+import { Product } from '../../entities/product.entity';
 import { UploadService } from '../upload/upload.service';
+import { RevisionsService } from '../revisions/revisions.service';
 
 /**
  * Unit tests for BlogService
@@ -34,7 +37,8 @@ describe('BlogService', () => {
   // Mock article image data
   const mockImage: BlogArticleImage = {
     id: 'img-1-uuid',
-    url: 'http://localhost:4000/uploads/blog/test-image.jpg',
+    url: 'blog/test-image.jpg',
+    variants: null,
     altText: null,
     isCover: true,
     sortOrder: 0,
@@ -52,20 +56,38 @@ describe('BlogService', () => {
     slug: 'the-art-of-wall-hanging',
     publishedAt: now,
     isPublished: true,
+    scheduledAt: null,
     sortOrder: 0,
     images: [mockImage],
     tags: [mockTag],
+    productIds: [],
     createdAt: now,
     updatedAt: now,
   };
 
+  // Mock query builder (published articles listing)
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    offset: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+    getCount: jest.fn(),
+  };
+
   // Mock repositories
   const mockArticleRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
     create: jest.fn(),
     save: jest.fn(),
     find: jest.fn(),
     findOne: jest.fn(),
     findBy: jest.fn(),
+    exists: jest.fn(),
     remove: jest.fn(),
   };
 
@@ -86,12 +108,32 @@ describe('BlogService', () => {
     remove: jest.fn(),
   };
 
+  const mockSlugRedirectRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    findOne: jest.fn(),
+    exists: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    find: jest.fn(),
+    findBy: jest.fn(),
+  };
+
   // Mock UploadService
   const mockUploadService = {
-    ensureUploadDir: jest.fn(),
-    getFileUrl: jest.fn(),
-    deleteFile: jest.fn(),
-    deleteFiles: jest.fn(),
+    storeImages: jest.fn(),
+    deleteImages: jest.fn(),
+  };
+
+  // Mock RevisionsService
+  const mockRevisionsService = {
+    record: jest.fn(),
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    diff: jest.fn(),
+    removeAll: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -110,10 +152,22 @@ describe('BlogService', () => {
           provide: getRepositoryToken(BlogTag),
           useValue: mockTagRepository,
         },
+        {
+          provide: getRepositoryToken(SlugRedirect),
+          useValue: mockSlugRedirectRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
         {
           provide: UploadService,
           useValue: mockUploadService,
         },
+        {
+          provide: RevisionsService,
+          useValue: mockRevisionsService,
+        },
       ],
     }).compile();
 
@@ -123,6 +177,13 @@ describe('BlogService', () => {
     );
 
     jest.clearAllMocks();
+    mockUploadService.storeImages.mockResolvedValue([]);
+    mockUploadService.deleteImages.mockResolvedValue(undefined);
+    mockArticleRepository.exists.mockResolvedValue(false);
+    mockSlugRedirectRepository.exists.mockResolvedValue(false);
+    mockSlugRedirectRepository.create.mockImplementation(
+      (data: Partial<SlugRedirect>) => data,
+    );
   });
 
   it('should be defined', () => {
@@ -143,41 +204,50 @@ describe('BlogService', () => {
 
     const mockFiles: Express.Multer.File[] = [
       {
-        filename: 'uuid-1.jpg',
         originalname: 'photo.jpg',
         mimetype: 'image/jpeg',
         size: 12345,
       } as Express.Multer.File,
     ];
 
-    const baseUrl = 'http://localhost:4000';
+    const variants = [
+      {
+        url: 'blog/uuid-1-320w.avif',
+        width: 320,
+        format: 'avif' as const,
+      },
+    ];
+
+    const storedImages = [{ key: 'blog/uuid-1.jpg', variants }];
 
     it('should create an article with images', async () => {
       // Arrange
       mockArticleRepository.findOne
         .mockResolvedValueOnce(null) // slug uniqueness check
         .mockResolvedValueOnce(mockArticle); // findById at the end
-      mockArticleRepository.create.mockReturnValue(mockArticle);
+      mockArticleRepository.create.mockReturnValue({ ...mockArticle });
       mockArticleRepository.save.mockResolvedValue(mockArticle);
       mockArticleImageRepository.create.mockReturnValue(mockImage);
       mockArticleImageRepository.save.mockResolvedValue([mockImage]);
-      mockUploadService.ensureUploadDir.mockResolvedValue(undefined);
-      mockUploadService.getFileUrl.mockReturnValue(
-        'http://localhost:4000/uploads/blog/uuid-1.jpg',
-      );
+      mockUploadService.storeImages.mockResolvedValue(storedImages);
 
       // Act
-      const result = await service.createWithImages(
-        createDto,
-        mockFiles,
-        baseUrl,
-      );
+      const result = await service.createWithImages(createDto, mockFiles);
 
       // Assert
-      expect(mockUploadService.ensureUploadDir).toHaveBeenCalledWith('blog');
+      expect(mockUploadService.storeImages).toHaveBeenCalledWith(
+        mockFiles,
+        'blog',
+      );
       expect(mockArticleRepository.create).toHaveBeenCalled();
       expect(mockArticleRepository.save).toHaveBeenCalled();
-      expect(mockArticleImageRepository.create).toHaveBeenCalled();
+      expect(mockArticleImageRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'blog/uuid-1.jpg',
+          variants,
+          isCover: true,
+        }),
+      );
       expect(mockArticleImageRepository.save).toHaveBeenCalled();
       expect(result).toEqual(mockArticle);
     });
@@ -187,12 +257,11 @@ describe('BlogService', () => {
       mockArticleRepository.findOne
         .mockResolvedValueOnce(null) // slug uniqueness check
         .mockResolvedValueOnce(mockArticle); // findById at the end
-      mockArticleRepository.create.mockReturnValue(mockArticle);
+      mockArticleRepository.create.mockReturnValue({ ...mockArticle });
       mockArticleRepository.save.mockResolvedValue(mockArticle);
-      mockUploadService.ensureUploadDir.mockResolvedValue(undefined);
 
       // Act
-      const result = await service.createWithImages(createDto, [], baseUrl);
+      const result = await service.createWithImages(createDto, []);
 
       // Assert
       expect(mockArticleImageRepository.create).not.toHaveBeenCalled();
@@ -202,30 +271,41 @@ describe('BlogService', () => {
     it('should throw ConflictException when slug already exists', async () => {
       // Arrange
       mockArticleRepository.findOne.mockResolvedValueOnce(mockArticle); // slug already exists
-      mockUploadService.ensureUploadDir.mockResolvedValue(undefined);
 
       // Act & Assert
-      await expect(
-        service.createWithImages(createDto, [], baseUrl),
-      ).rejects.toThrow(ConflictException);
+      await expect(service.createWithImages(createDto, [])).rejects.toThrow(
+        ConflictException,
+      );
     });
 
-    it('should clean up uploaded files on failure', async () => {
+    it('should clean up stored images on failure', async () => {
       // Arrange
       mockArticleRepository.findOne.mockResolvedValueOnce(null); // slug uniqueness check
-      mockArticleRepository.create.mockReturnValue(mockArticle);
+      mockArticleRepository.create.mockReturnValue({ ...mockArticle });
       mockArticleRepository.save.mockRejectedValue(new Error('Database error'));
-      mockUploadService.ensureUploadDir.mockResolvedValue(undefined);
-      mockUploadService.deleteFiles.mockResolvedValue(undefined);
+      mockUploadService.storeImages.mockResolvedValue(storedImages);
 
       // Act & Assert
       await expect(
-        service.createWithImages(createDto, mockFiles, baseUrl),
+        service.createWithImages(createDto, mockFiles),
       ).rejects.toThrow(BadRequestException);
-      expect(mockUploadService.deleteFiles).toHaveBeenCalledWith(
-        ['uuid-1.jpg'],
-        'blog',
+      expect(mockUploadService.deleteImages).toHaveBeenCalledWith([
+        'blog/uuid-1.jpg',
+      ]);
+    });
+
+    it('should not save the article when an image cannot be processed', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValueOnce(null); // slug uniqueness check
+      mockUploadService.storeImages.mockRejectedValue(
+        new BadRequestException('Invalid image file: photo.jpg'),
       );
+
+      // Act & Assert
+      await expect(
+        service.createWithImages(createDto, mockFiles),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockArticleRepository.save).not.toHaveBeenCalled();
     });
 
     it('should resolve tags when tagIds are provided', async () => {
@@ -234,13 +314,12 @@ describe('BlogService', () => {
       mockArticleRepository.findOne
         .mockResolvedValueOnce(null) // slug uniqueness check
         .mockResolvedValueOnce(mockArticle); // findById at the end
-      mockArticleRepository.create.mockReturnValue(mockArticle);
+      mockArticleRepository.create.mockReturnValue({ ...mockArticle });
       mockArticleRepository.save.mockResolvedValue(mockArticle);
       mockTagRepository.findBy.mockResolvedValue([mockTag]);
-      mockUploadService.ensureUploadDir.mockResolvedValue(undefined);
 
       // Act
-      await service.createWithImages(dtoWithTags, [], baseUrl);
+      await service.createWithImages(dtoWithTags, []);
 
       // Assert
       expect(mockTagRepository.findBy).toHaveBeenCalledWith({
@@ -250,19 +329,88 @@ describe('BlogService', () => {
   });
 
   describe('findPublished', () => {
-    it('should return only published articles ordered by publishedAt DESC', async () => {
+    const otherArticle = { ...mockArticle, id: 'article-2-uuid' };
+
+    beforeEach(() => {
+      mockQueryBuilder.getRawMany.mockResolvedValue([
+        { id: otherArticle.id },
+        { id: mockArticle.id },
+      ]);
+      mockQueryBuilder.getCount.mockResolvedValue(14);
+      mockArticleRepository.findBy.mockResolvedValue([
+        mockArticle,
+        otherArticle,
+      ]);
+    });
+
+    it('should return a page of published articles, newest first', async () => {
+      // Act
+      const result = await service.findPublished({ page: 2, limit: 12 });
+
+      // Assert - never dated in the future
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        'article.isPublished = true',
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledTimes(1);
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        '(article.publishedAt IS NULL OR article.publishedAt <= :now)',
+        { now: expect.any(Date) },
+      );
+      expect(mockQueryBuilder.orderBy).not.toHaveBeenCalled();
+      expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'article.publishedAt',
+        'DESC',
+        'NULLS LAST',
+      );
+      expect(mockQueryBuilder.offset).toHaveBeenCalledWith(12);
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(12);
+      expect(result).toEqual({
+        data: [otherArticle, mockArticle],
+        total: 14,
+        page: 2,
+        limit: 12,
+        totalPages: 2,
+      });
+    });
+
+    it('should filter by tag slug', async () => {
+      // Act
+      await service.findPublished({ tag: 'wall-hangings' });
+
+      // Assert
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('"tag"."slug" = :tag'),
+        { tag: 'wall-hangings' },
+      );
+    });
+
+    it('should rank full-text search results by relevance', async () => {
+      // Act
+      await service.findPublished({ q: '  tissage laine ' });
+
+      // Assert
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        "article.searchVector @@ websearch_to_tsquery('french', :search)",
+        { search: 'tissage laine' },
+      );
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        "ts_rank(article.searchVector, websearch_to_tsquery('french', :search))",
+        'DESC',
+      );
+    });
+
+    it('should not load articles for an empty page', async () => {
       // Arrange
-      mockArticleRepository.find.mockResolvedValue([mockArticle]);
+      mockQueryBuilder.getRawMany.mockResolvedValue([]);
+      mockQueryBuilder.getCount.mockResolvedValue(0);
 
       // Act
-      const result = await service.findPublished();
+      const result = await service.findPublished({ q: 'introuvable' });
 
       // Assert
-      expect(mockArticleRepository.find).toHaveBeenCalledWith({
-        where: { isPublished: true },
-        order: { publishedAt: 'DESC' },
-      });
-      expect(result).toEqual([mockArticle]);
+      expect(mockArticleRepository.findBy).not.toHaveBeenCalled();
+      expect(result.data).toEqual([]);
+      expect(result.totalPages).toBe(0);
     });
   });
 
@@ -308,12 +456,200 @@ describe('BlogService', () => {
     });
   });
 
+  describe('findPublishedById', () => {
+    it('should return a published article', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue(mockArticle);
+
+      // Act
+      const result = await service.findPublishedById(mockArticle.id);
+
+      // Assert
+      expect(mockArticleRepository.findOne).toHaveBeenCalledWith({
+        where: [
+          { isPublished: true, publishedAt: IsNull(), id: mockArticle.id },
+          {
+            isPublished: true,
+            publishedAt: LessThanOrEqual(expect.any(Date)),
+            id: mockArticle.id,
+          },
+        ],
+      });
+      expect(result).toEqual(mockArticle);
+    });
+
+    it('should throw NotFoundException for drafts and scheduled articles', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findPublishedById(mockArticle.id)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('findRelated', () => {
+    const relatedArticle = { ...mockArticle, id: 'article-2-uuid' };
+
+    beforeEach(() => {
+      mockQueryBuilder.getRawMany.mockResolvedValue([
+        { id: relatedArticle.id },
+      ]);
+      mockArticleRepository.findBy.mockResolvedValue([relatedArticle]);
+    });
+
+    it('should rank other published articles by shared tags, then recency', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue(mockArticle);
+
+      // Act
+      const result = await service.findRelated(mockArticle.id);
+
+      // Assert
+      expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith(
+        expect.stringContaining('"source_tag"."article_id" = :id'),
+        'shared_tags',
+      );
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'article.id != :id',
+        { id: mockArticle.id },
+      );
+      expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+        'shared_tags',
+        'DESC',
+      );
+      expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith(
+        'article.publishedAt',
+        'DESC',
+        'NULLS LAST',
+      );
+      expect(mockQueryBuilder.limit).toHaveBeenCalledWith(3);
+      expect(result).toEqual({ articles: [relatedArticle], products: [] });
+      expect(mockProductRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('should return the featured products, without drafts', async () => {
+      // Arrange
+      const product = { id: 'product-1-uuid', name: 'Nordic Rug' };
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        productIds: ['product-1-uuid', 'product-2-uuid'],
+      });
+      mockProductRepository.find.mockResolvedValue([product]);
+
+      // Act
+      const result = await service.findRelated(mockArticle.id);
+
+      // Assert
+      expect(mockProductRepository.find).toHaveBeenCalledWith({
+        where: {
+          id: In(['product-1-uuid', 'product-2-uuid']),
+          status: Not('draft'),
+        },
+        order: { createdAt: 'DESC' },
+      });
+      expect(result.products).toEqual([product]);
+    });
+
+    it('should throw NotFoundException for an unpublished article', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findRelated(mockArticle.id)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should find an unpublished article through its preview', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        isPublished: false,
+      });
+
+      // Act
+      await service.findRelated(mockArticle.id, mockArticle.id);
+
+      // Assert
+      expect(mockArticleRepository.findOne).toHaveBeenCalledWith({
+        where: { id: mockArticle.id },
+      });
+    });
+  });
+
+  describe('findBySlug', () => {
+    it('should return a published article by its current slug', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue(mockArticle);
+
+      // Act
+      const result = await service.findBySlug(mockArticle.slug);
+
+      // Assert
+      expect(mockArticleRepository.findOne).toHaveBeenCalledWith({
+        where: { slug: mockArticle.slug },
+      });
+      expect(mockSlugRedirectRepository.findOne).not.toHaveBeenCalled();
+      expect(result).toEqual(mockArticle);
+    });
+
+    it('should return the article a former slug redirects to', async () => {
+      // Arrange
+      mockArticleRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockArticle);
+      mockSlugRedirectRepository.findOne.mockResolvedValue({
+        oldSlug: 'old-title',
+        articleId: mockArticle.id,
+      });
+
+      // Act
+      const result = await service.findBySlug('old-title');
+
+      // Assert
+      expect(mockArticleRepository.findOne).toHaveBeenLastCalledWith({
+        where: { id: mockArticle.id },
+      });
+      expect(result.slug).toBe(mockArticle.slug);
+    });
+
+    it('should throw NotFoundException for an unknown slug', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue(null);
+      mockSlugRedirectRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findBySlug('unknown')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should hide drafts and scheduled articles unless previewed', async () => {
+      // Arrange
+      const scheduled = {
+        ...mockArticle,
+        publishedAt: new Date(Date.now() + 60 * 60 * 1000),
+      };
+      mockArticleRepository.findOne.mockResolvedValue(scheduled);
+
+      // Act & Assert
+      await expect(service.findBySlug(mockArticle.slug)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(
+        service.findBySlug(mockArticle.slug, mockArticle.id),
+      ).resolves.toEqual(scheduled);
+    });
+  });
+
   describe('update', () => {
     it('should update an article', async () => {
       // Arrange
       const updateDto = { title: 'Updated Title' };
       const updatedArticle = { ...mockArticle, title: 'Updated Title' };
-      mockArticleRepository.findOne.mockResolvedValue(mockArticle);
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
       mockArticleRepository.save.mockResolvedValue(updatedArticle);
 
       // Act
@@ -327,6 +663,31 @@ describe('BlogService', () => {
       expect(result.title).toBe('Updated Title');
     });
 
+    it('should record a revision of the saved article', async () => {
+      // Arrange
+      const updatedArticle = { ...mockArticle, title: 'Updated Title' };
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
+      mockArticleRepository.save.mockResolvedValue(updatedArticle);
+
+      // Act
+      await service.update(mockArticle.id, { title: 'Updated Title' });
+
+      // Assert
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        'blog-article',
+        mockArticle.id,
+        {
+          title: 'Updated Title',
+          subtitle: 'Exploring techniques',
+          content: '<p>This is a blog article.</p>',
+          tags: [{ id: 'tag-1-uuid', name: 'Wall Hangings' }],
+          isPublished: true,
+          publishedAt: now,
+        },
+        null,
+      );
+    });
+
     it('should sanitize content when provided', async () => {
       // Arrange
       const updateDto = {
@@ -385,13 +746,247 @@ describe('BlogService', () => {
     });
   });
 
+  describe('featured products', () => {
+    it('should replace the featured products when provided', async () => {
+      // Arrange
+      const product = { id: 'product-1-uuid' };
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
+      mockArticleRepository.save.mockImplementation((article) =>
+        Promise.resolve(article),
+      );
+      mockProductRepository.findBy.mockResolvedValue([product]);
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        productIds: ['product-1-uuid'],
+      });
+
+      // Assert
+      expect(mockProductRepository.findBy).toHaveBeenCalledWith({
+        id: In(['product-1-uuid']),
+      });
+      expect(result.products).toEqual([product]);
+      expect(result.productIds).toEqual(['product-1-uuid']);
+    });
+
+    it('should keep the featured products when omitted', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
+      mockArticleRepository.save.mockImplementation((article) =>
+        Promise.resolve(article),
+      );
+
+      // Act
+      await service.update(mockArticle.id, { subtitle: 'New subtitle' });
+
+      // Assert
+      expect(mockProductRepository.findBy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('slug changes', () => {
+    beforeEach(() => {
+      mockArticleRepository.save.mockImplementation((article) =>
+        Promise.resolve(article),
+      );
+    });
+
+    it('should derive a new slug from a new title and redirect the old one', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        title: 'Weaving at Home',
+      });
+
+      // Assert
+      expect(result.slug).toBe('weaving-at-home');
+      expect(mockSlugRedirectRepository.delete).toHaveBeenCalledWith({
+        oldSlug: 'weaving-at-home',
+      });
+      expect(mockSlugRedirectRepository.save).toHaveBeenCalledWith({
+        oldSlug: 'the-art-of-wall-hanging',
+        articleId: mockArticle.id,
+      });
+    });
+
+    it('should add a suffix when the derived slug is taken', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        slug: 'the-art-of-wall-hanging-2',
+      });
+      mockArticleRepository.exists.mockResolvedValueOnce(true);
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        title: 'Weaving at Home',
+      });
+
+      // Assert
+      expect(result.slug).toBe('weaving-at-home-2');
+    });
+
+    it('should keep a custom slug when the title changes', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        slug: 'wall-hanging-guide',
+      });
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        title: 'Weaving at Home',
+      });
+
+      // Assert
+      expect(result.slug).toBe('wall-hanging-guide');
+      expect(mockSlugRedirectRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should apply an explicit slug and redirect the old one', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        slug: 'wall-hanging-guide',
+      });
+
+      // Assert
+      expect(result.slug).toBe('wall-hanging-guide');
+      expect(mockSlugRedirectRepository.save).toHaveBeenCalledWith({
+        oldSlug: 'the-art-of-wall-hanging',
+        articleId: mockArticle.id,
+      });
+    });
+
+    it('should throw ConflictException when the explicit slug is taken', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
+      mockArticleRepository.exists.mockResolvedValue(true);
+
+      // Act & Assert
+      await expect(
+        service.update(mockArticle.id, { slug: 'already-used' }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockArticleRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publication scheduling', () => {
+    const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    const past = new Date(Date.now() - 60 * 1000).toISOString();
+
+    beforeEach(() => {
+      mockArticleRepository.save.mockImplementation((article) =>
+        Promise.resolve(article),
+      );
+    });
+
+    it('should schedule an article published with a future date', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        isPublished: false,
+        publishedAt: null,
+      });
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        isPublished: true,
+        publishedAt: future,
+      });
+
+      // Assert
+      expect(result.isPublished).toBe(false);
+      expect(result.scheduledAt).toEqual(new Date(future));
+    });
+
+    it('should publish right away with a past date and cancel the schedule', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        isPublished: false,
+        scheduledAt: new Date(future),
+      });
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        publishedAt: past,
+      });
+
+      // Assert
+      expect(result.isPublished).toBe(true);
+      expect(result.scheduledAt).toBeNull();
+    });
+
+    it('should cancel the schedule when unpublishing', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        isPublished: false,
+        scheduledAt: new Date(future),
+      });
+
+      // Act
+      const result = await service.update(mockArticle.id, {
+        isPublished: false,
+      });
+
+      // Assert
+      expect(result.isPublished).toBe(false);
+      expect(result.scheduledAt).toBeNull();
+    });
+
+    it('should leave the schedule alone when publication fields are untouched', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        ...mockArticle,
+        isPublished: false,
+        scheduledAt: new Date(future),
+      });
+
+      // Act
+      const result = await service.update(mockArticle.id, { title: 'Later' });
+
+      // Assert
+      expect(result.scheduledAt).toEqual(new Date(future));
+    });
+
+    it('should publish due articles at their scheduled date', async () => {
+      // Arrange
+      const scheduledAt = new Date(past);
+      mockArticleRepository.find.mockResolvedValue([
+        { ...mockArticle, isPublished: false, scheduledAt },
+      ]);
+
+      // Act
+      const count = await service.publishScheduled(now);
+
+      // Assert
+      expect(mockArticleRepository.find).toHaveBeenCalledWith({
+        where: { scheduledAt: LessThanOrEqual(now) },
+      });
+      expect(mockArticleRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isPublished: true,
+          publishedAt: scheduledAt,
+          scheduledAt: null,
+        }),
+      );
+      expect(mockRevisionsService.record).toHaveBeenCalled();
+      expect(count).toBe(1);
+    });
+  });
+
   describe('remove', () => {
     it('should delete an article and its image files', async () => {
       // Arrange
       const articleWithImages = { ...mockArticle, images: [mockImage] };
       mockArticleRepository.findOne.mockResolvedValue(articleWithImages);
       mockArticleRepository.remove.mockResolvedValue(articleWithImages);
-      mockUploadService.deleteFile.mockResolvedValue(undefined);
 
       // Act
       await service.remove(mockArticle.id);
@@ -401,13 +996,16 @@ describe('BlogService', () => {
         where: { id: mockArticle.id },
         relations: ['images'],
       });
-      expect(mockUploadService.deleteFile).toHaveBeenCalledWith(
-        'test-image.jpg',
-        'blog',
-      );
+      expect(mockUploadService.deleteImages).toHaveBeenCalledWith([
+        'blog/test-image.jpg',
+      ]);
       expect(mockArticleRepository.remove).toHaveBeenCalledWith(
         articleWithImages,
       );
+      expect(mockRevisionsService.removeAll).toHaveBeenCalledWith(
+        'blog-article',
+        mockArticle.id,
+      );
     });
 
     it('should delete an article with no images', async () => {
@@ -420,7 +1018,7 @@ describe('BlogService', () => {
       await service.remove(mockArticle.id);
 
       // Assert
-      expect(mockUploadService.deleteFile).not.toHaveBeenCalled();
+      expect(mockUploadService.deleteImages).not.toHaveBeenCalled();
       expect(mockArticleRepository.remove).toHaveBeenCalled();
     });
 
@@ -433,21 +1031,70 @@ describe('BlogService', () => {
         NotFoundException,
       );
     });
+  });
+
+  // ──────────────────────────────────────────────
+  // Revision tests
+  // ──────────────────────────────────────────────
 
-    it('should continue deletion even if image file deletion fails', async () => {
+  describe('restoreRevision', () => {
+    const revision = {
+      id: 'revision-1-uuid',
+      entityType: 'blog-article',
+      entityId: mockArticle.id,
+      title: 'First draft',
+      subtitle: null,
+      content: '<p>Before the bad paste.</p>',
+      tags: [
+        { id: 'tag-1-uuid', name: 'Wall Hangings' },
+        { id: 'deleted-tag-uuid', name: 'Deleted' },
+      ],
+      isPublished: false,
+      publishedAt: null,
+      createdAt: now,
+    };
+
+    it('should bring back the versioned fields and record the restore', async () => {
       // Arrange
-      const articleWithImages = { ...mockArticle, images: [mockImage] };
-      mockArticleRepository.findOne.mockResolvedValue(articleWithImages);
-      mockArticleRepository.remove.mockResolvedValue(articleWithImages);
-      mockUploadService.deleteFile.mockRejectedValue(
-        new Error('File not found'),
+      mockArticleRepository.findOne.mockResolvedValue({ ...mockArticle });
+      mockRevisionsService.findOne.mockResolvedValue(revision);
+      mockTagRepository.findBy.mockResolvedValue([mockTag]);
+      mockArticleRepository.save.mockImplementation((article) =>
+        Promise.resolve(article),
       );
 
       // Act
-      await service.remove(mockArticle.id);
+      const result = await service.restoreRevision(mockArticle.id, revision.id);
 
-      // Assert - should still remove the article from DB
-      expect(mockArticleRepository.remove).toHaveBeenCalled();
+      // Assert
+      expect(mockRevisionsService.findOne).toHaveBeenCalledWith(
+        'blog-article',
+        mockArticle.id,
+        revision.id,
+      );
+      expect(result.title).toBe('First draft');
+      expect(result.subtitle).toBeNull();
+      expect(result.content).toBe('<p>Before the bad paste.</p>');
+      expect(result.isPublished).toBe(false);
+      expect(result.tags).toEqual([mockTag]);
+      expect(result.slug).toBe(mockArticle.slug);
+      expect(mockRevisionsService.record).toHaveBeenCalledWith(
+        'blog-article',
+        mockArticle.id,
+        expect.objectContaining({ title: 'First draft' }),
+        revision.id,
+      );
+    });
+
+    it('should throw NotFoundException when article not found', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.restoreRevision('non-existent-id', revision.id),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockRevisionsService.findOne).not.toHaveBeenCalled();
     });
   });
 
@@ -458,7 +1105,6 @@ describe('BlogService', () => {
   describe('addImages', () => {
     const mockFiles: Express.Multer.File[] = [
       {
-        filename: 'new-image.jpg',
         originalname: 'photo.jpg',
         mimetype: 'image/jpeg',
         size: 12345,
@@ -468,25 +1114,21 @@ describe('BlogService', () => {
     it('should add images to an existing article', async () => {
       // Arrange
       mockArticleRepository.findOne.mockResolvedValue(mockArticle);
-      mockUploadService.ensureUploadDir.mockResolvedValue(undefined);
       mockArticleImageRepository.find.mockResolvedValue([{ sortOrder: 2 }]);
-      mockUploadService.getFileUrl.mockReturnValue(
-        'http://localhost:4000/uploads/blog/new-image.jpg',
-      );
+      mockUploadService.storeImages.mockResolvedValue([
+        { key: 'blog/new-image.jpg', variants: [] },
+      ]);
       const newImage = { ...mockImage, id: 'img-2-uuid' };
       mockArticleImageRepository.create.mockReturnValue(newImage);
       mockArticleImageRepository.save.mockResolvedValue([newImage]);
 
       // Act
-      const result = await service.addImages(
-        mockArticle.id,
-        mockFiles,
-        'http://localhost:4000',
-      );
+      const result = await service.addImages(mockArticle.id, mockFiles);
 
       // Assert
       expect(mockArticleImageRepository.create).toHaveBeenCalledWith(
         expect.objectContaining({
+          url: 'blog/new-image.jpg',
           articleId: mockArticle.id,
           isCover: false,
           sortOrder: 3, // existing max (2) + 1
@@ -498,20 +1140,15 @@ describe('BlogService', () => {
     it('should start sortOrder at 0 when article has no existing images', async () => {
       // Arrange
       mockArticleRepository.findOne.mockResolvedValue(mockArticle);
-      mockUploadService.ensureUploadDir.mockResolvedValue(undefined);
       mockArticleImageRepository.find.mockResolvedValue([]);
-      mockUploadService.getFileUrl.mockReturnValue(
-        'http://localhost:4000/uploads/blog/new-image.jpg',
-      );
+      mockUploadService.storeImages.mockResolvedValue([
+        { key: 'blog/new-image.jpg', variants: [] },
+      ]);
       mockArticleImageRepository.create.mockReturnValue(mockImage);
       mockArticleImageRepository.save.mockResolvedValue([mockImage]);
 
       // Act
-      await service.addImages(
-        mockArticle.id,
-        mockFiles,
-        'http://localhost:4000',
-      );
+      await service.addImages(mockArticle.id, mockFiles);
 
       // Assert
       expect(mockArticleImageRepository.create).toHaveBeenCalledWith(
@@ -527,7 +1164,7 @@ describe('BlogService', () => {
 
       // Act & Assert
       await expect(
-        service.addImages('non-existent', mockFiles, 'http://localhost:4000'),
+        service.addImages('non-existent', mockFiles),
       ).rejects.toThrow(NotFoundException);
     });
   });
@@ -569,31 +1206,14 @@ describe('BlogService', () => {
       // Arrange
       mockArticleImageRepository.findOne.mockResolvedValue(mockImage);
       mockArticleImageRepository.remove.mockResolvedValue(mockImage);
-      mockUploadService.deleteFile.mockResolvedValue(undefined);
 
       // Act
       await service.removeImage(mockArticle.id, mockImage.id);
 
       // Assert
-      expect(mockUploadService.deleteFile).toHaveBeenCalledWith(
-        'test-image.jpg',
-        'blog',
-      );
-      expect(mockArticleImageRepository.remove).toHaveBeenCalledWith(mockImage);
-    });
-
-    it('should still remove image record if file deletion fails', async () => {
-      // Arrange
-      mockArticleImageRepository.findOne.mockResolvedValue(mockImage);
-      mockArticleImageRepository.remove.mockResolvedValue(mockImage);
-      mockUploadService.deleteFile.mockRejectedValue(
-        new Error('File not found'),
-      );
-
-      // Act
-      await service.removeImage(mockArticle.id, mockImage.id);
-
-      // Assert - should still remove from DB
+      expect(mockUploadService.deleteImages).toHaveBeenCalledWith([
+        'blog/test-image.jpg',
+      ]);
       expect(mockArticleImageRepository.remove).toHaveBeenCalledWith(mockImage);
     });
 
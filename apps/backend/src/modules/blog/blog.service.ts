@@ -6,19 +6,40 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
+import {
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThanOrEqual,
+  Not,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 import * as sanitizeHtml from 'sanitize-html';
 import { BlogArticle } from '../../entities/blog-article.entity';
 import { BlogArticleImage } from '../../entities/blog-article-image.entity';
 import { BlogTag } from '../../entities/blog-tag.entity';
+import { SlugRedirect } from '../../entities/slug-redirect.entity';
+import { Product } from '../../entities/product.entity';
 import { CreateBlogArticleWithUploadDto } from './dto/create-blog-article-with-upload.dto';
 import { UpdateBlogArticleDto } from './dto/update-blog-article.dto';
+import { BlogQueryDto } from './dto/blog-query.dto';
 import { CreateBlogTagDto } from './dto/create-blog-tag.dto';
 import { UpdateBlogTagDto } from './dto/update-blog-tag.dto';
 import { UpdateBlogArticleImageDto } from './dto/update-blog-article-image.dto';
-import { UploadService } from '../upload/upload.service';
+import { UploadService, StoredImage } from '../upload/upload.service';
+import { applyPublicationSchedule } from '../../common/utils/publication-schedule.util';
+import { slugify } from '../../common/utils/slug.util';
+import {
+  RevisionDiff,
+  RevisionsService,
+  RevisionSummary,
+} from '../revisions/revisions.service';
 
-const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+/**
+ * HTML kept in article content (rich text editor output)
+ */
+export const BLOG_SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
   allowedTags: [
     'p',
     'br',
@@ -44,6 +65,25 @@ const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
   },
 };
 
+/**
+ * Full-text query matched against BlogArticle.searchVector, in web search
+ * syntax (quoted phrases, "or", -excluded words) so any input is valid
+ */
+const SEARCH_QUERY = `websearch_to_tsquery('french', :search)`;
+
+/**
+ * Articles suggested below an article
+ */
+const RELATED_ARTICLES_LIMIT = 3;
+
+/**
+ * What to read or see next after an article
+ */
+export interface RelatedContent {
+  articles: BlogArticle[];
+  products: Product[];
+}
+
 /**
  * Blog service - handles business logic for blog articles, images, and tags
  */
@@ -58,7 +98,12 @@ export class BlogService {
     private readonly articleImageRepository: Repository<BlogArticleImage>,
     @InjectRepository(BlogTag)
     private readonly tagRepository: Repository<BlogTag>,
+    @InjectRepository(SlugRedirect)
+    private readonly slugRedirectRepository: Repository<SlugRedirect>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
     private readonly uploadService: UploadService,
+    private readonly revisionsService: RevisionsService,
   ) {}
 
   // ──────────────────────────────────────────────
@@ -71,18 +116,16 @@ export class BlogService {
   async createWithImages(
     createDto: CreateBlogArticleWithUploadDto,
     files: Express.Multer.File[],
-    baseUrl: string,
   ): Promise<BlogArticle> {
-    await this.uploadService.ensureUploadDir('blog');
-
     this.logger.log(
       `Creating blog article with ${files ? files.length : 0} image(s)`,
     );
     this.logger.debug(`Received DTO: ${JSON.stringify(createDto, null, 2)}`);
 
+    let storedImages: StoredImage[] = [];
     try {
       // Generate slug from title if not provided
-      const slug = createDto.slug || this.generateSlug(createDto.title);
+      const slug = createDto.slug || slugify(createDto.title);
 
       // Check slug uniqueness
       const existingArticle = await this.articleRepository.findOne({
@@ -97,38 +140,57 @@ export class BlogService {
       // Sanitize HTML content
       const sanitizedContent = this.sanitizeContent(createDto.content);
 
+      // Process images before saving the article
+      storedImages = await this.uploadService.storeImages(files ?? [], 'blog');
+
       // Resolve tags
       let tags: BlogTag[] = [];
       if (createDto.tagIds?.length) {
         tags = await this.tagRepository.findBy({ id: In(createDto.tagIds) });
       }
 
+      // Resolve featured products
+      let products: Product[] = [];
+      if (createDto.productIds?.length) {
+        products = await this.productRepository.findBy({
+          id: In(createDto.productIds),
+        });
+      }
+
       // Create article
-      const { tagIds: _tagIds, ...articleData } = createDto;
+      const {
+        tagIds: _tagIds,
+        productIds: _productIds,
+        ...articleData
+      } = createDto;
       const article = this.articleRepository.create({
         ...articleData,
         slug,
         content: sanitizedContent,
         tags,
+        products,
       });
+      applyPublicationSchedule(
+        article,
+        createDto.isPublished ?? false,
+        createDto.publishedAt,
+      );
       const savedArticle = await this.articleRepository.save(article);
 
+      // The slug is live again: drop the redirect of its former article
+      await this.slugRedirectRepository.delete({ oldSlug: slug });
+
       // Create BlogArticleImage entities
-      if (files?.length) {
-        const articleImages = files.map((file, index) => {
-          const url = this.uploadService.getFileUrl(
-            file.filename,
-            baseUrl,
-            'blog',
-          );
-          this.logger.debug(`Generated URL for ${file.filename}: ${url}`);
-          return this.articleImageRepository.create({
-            url,
+      if (storedImages.length) {
+        const articleImages = storedImages.map((stored, index) =>
+          this.articleImageRepository.create({
+            url: stored.key,
+            variants: stored.variants,
             isCover: index === 0, // First image is the cover by default
             sortOrder: index,
             articleId: savedArticle.id,
-          });
-        });
+          }),
+        );
 
         await this.articleImageRepository.save(articleImages);
       }
@@ -136,17 +198,18 @@ export class BlogService {
       this.logger.log(`Blog article created successfully: ${savedArticle.id}`);
 
       // Return article with images and tags loaded
-      return await this.findById(savedArticle.id);
+      const created = await this.findById(savedArticle.id);
+      await this.recordRevision(created);
+      return created;
     } catch (error) {
       // Clean up uploaded files if article creation fails
       if (error instanceof ConflictException) {
         throw error;
       }
 
-      if (files?.length) {
-        const filenames = files.map((file) => file.filename);
-        await this.uploadService.deleteFiles(filenames, 'blog');
-      }
+      await this.uploadService.deleteImages(
+        storedImages.map((stored) => stored.key),
+      );
 
       this.logger.error(`Failed to create blog article: ${error.message}`);
 
@@ -159,13 +222,147 @@ export class BlogService {
   }
 
   /**
-   * Find all published articles ordered by publishedAt DESC (public)
+   * Find published articles, newest first, paginated (public)
+   * Filters by tag slug; a search ranks matches by relevance first. Ids are
+   * paginated on their own, then the page is loaded with its images and tags
+   * (paginating the joined rows would cut articles short).
    */
-  async findPublished(): Promise<BlogArticle[]> {
-    return await this.articleRepository.find({
-      where: { isPublished: true },
-      order: { publishedAt: 'DESC' },
+  async findPublished(query: BlogQueryDto = {}): Promise<{
+    data: BlogArticle[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { tag, page = 1, limit = 12 } = query;
+    const search = query.q?.trim();
+
+    const queryBuilder = this.publishedIdsQuery();
+
+    if (tag) {
+      queryBuilder.andWhere(
+        `EXISTS (
+          SELECT 1 FROM "blog_articles_tags" "article_tag"
+          JOIN "blog_tags" "tag" ON "tag"."id" = "article_tag"."tag_id"
+          WHERE "article_tag"."article_id" = article.id AND "tag"."slug" = :tag
+        )`,
+        { tag },
+      );
+    }
+
+    if (search) {
+      queryBuilder
+        .andWhere(`article.searchVector @@ ${SEARCH_QUERY}`, { search })
+        .orderBy(`ts_rank(article.searchVector, ${SEARCH_QUERY})`, 'DESC');
+    }
+
+    queryBuilder
+      .addOrderBy('article.publishedAt', 'DESC', 'NULLS LAST')
+      .offset((page - 1) * limit)
+      .limit(limit);
+
+    const [rows, total] = await Promise.all([
+      queryBuilder.getRawMany<{ id: string }>(),
+      queryBuilder.getCount(),
+    ]);
+
+    const data = await this.findByIdsInOrder(rows.map((row) => row.id));
+
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.log(
+      `Found ${data.length} published articles (page ${page}/${totalPages})`,
+    );
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages,
+    };
+  }
+
+  /**
+   * Find a published article by ID (public)
+   */
+  async findPublishedById(id: string): Promise<BlogArticle> {
+    const article = await this.articleRepository.findOne({
+      where: this.publishedWhere().map((where) => ({ ...where, id })),
     });
+
+    if (!article) {
+      throw new NotFoundException(`Blog article with ID "${id}" not found`);
+    }
+
+    return article;
+  }
+
+  /**
+   * Articles and products to suggest after an article (public)
+   * Articles sharing the most tags come first, then the most recent ones, so
+   * there are suggestions even for an untagged article. Draft products are
+   * left out. An unpublished article is only found by a preview of its own.
+   */
+  async findRelated(id: string, previewId?: string): Promise<RelatedContent> {
+    const article =
+      id === previewId
+        ? await this.findById(id)
+        : await this.findPublishedById(id);
+
+    const rows = await this.publishedIdsQuery()
+      .addSelect(
+        `(SELECT COUNT(*) FROM "blog_articles_tags" "article_tag"
+          WHERE "article_tag"."article_id" = article.id
+          AND "article_tag"."tag_id" IN (
+            SELECT "source_tag"."tag_id" FROM "blog_articles_tags" "source_tag"
+            WHERE "source_tag"."article_id" = :id
+          ))`,
+        'shared_tags',
+      )
+      .andWhere('article.id != :id', { id })
+      .orderBy('shared_tags', 'DESC')
+      .addOrderBy('article.publishedAt', 'DESC', 'NULLS LAST')
+      .limit(RELATED_ARTICLES_LIMIT)
+      .getRawMany<{ id: string }>();
+
+    const products = article.productIds?.length
+      ? await this.productRepository.find({
+          where: { id: In(article.productIds), status: Not('draft') },
+          order: { createdAt: 'DESC' },
+        })
+      : [];
+
+    return {
+      articles: await this.findByIdsInOrder(rows.map((row) => row.id)),
+      products,
+    };
+  }
+
+  /**
+   * Find a published article by current or former slug (public)
+   * The caller redirects when the returned slug differs; an unpublished
+   * article is only returned to a preview of its own
+   */
+  async findBySlug(slug: string, previewId?: string): Promise<BlogArticle> {
+    let article = await this.articleRepository.findOne({ where: { slug } });
+
+    if (!article) {
+      const redirect = await this.slugRedirectRepository.findOne({
+        where: { oldSlug: slug },
+      });
+      article = redirect
+        ? await this.articleRepository.findOne({
+            where: { id: redirect.articleId },
+          })
+        : null;
+    }
+
+    if (!article || (article.id !== previewId && !this.isPublic(article))) {
+      throw new NotFoundException(`Blog article with slug "${slug}" not found`);
+    }
+
+    return article;
   }
 
   /**
@@ -194,12 +391,16 @@ export class BlogService {
 
   /**
    * Update a blog article
+   * A slug derived from the title follows a new title; the former slug is
+   * kept as a redirect
    */
   async update(
     id: string,
     updateDto: UpdateBlogArticleDto,
   ): Promise<BlogArticle> {
     const article = await this.findById(id);
+    const previousSlug = article.slug;
+    const slug = await this.resolveUpdatedSlug(article, updateDto);
 
     // Sanitize content if provided
     if (updateDto.content) {
@@ -214,13 +415,41 @@ export class BlogService {
       article.tags = tags;
     }
 
-    // Exclude tagIds from the update data
-    const { tagIds: _tagIds, ...safeUpdate } = updateDto;
-    Object.assign(article, safeUpdate);
+    // Resolve featured products if provided
+    if (updateDto.productIds) {
+      article.products = await this.productRepository.findBy({
+        id: In(updateDto.productIds),
+      });
+      article.productIds = article.products.map((product) => product.id);
+    }
+
+    // Exclude relation ids from the update data
+    const {
+      tagIds: _tagIds,
+      productIds: _productIds,
+      ...safeUpdate
+    } = updateDto;
+    Object.assign(article, safeUpdate, { slug });
+
+    // Publishing with a future publishedAt schedules the article
+    if (
+      updateDto.isPublished !== undefined ||
+      updateDto.publishedAt !== undefined
+    ) {
+      applyPublicationSchedule(
+        article,
+        updateDto.isPublished ?? (article.isPublished || !!article.scheduledAt),
+        article.publishedAt,
+      );
+    }
 
     try {
       const updated = await this.articleRepository.save(article);
+      if (slug !== previousSlug) {
+        await this.recordSlugChange(id, previousSlug, slug);
+      }
       this.logger.log(`Blog article updated successfully: ${id}`);
+      await this.recordRevision(updated);
       return updated;
     } catch (error) {
       this.logger.error(
@@ -243,24 +472,100 @@ export class BlogService {
       throw new NotFoundException(`Blog article with ID "${id}" not found`);
     }
 
-    // Delete physical image files
+    // Delete stored image files
     if (article.images?.length > 0) {
-      for (const image of article.images) {
-        try {
-          const filename = image.url.split('/').pop();
-          if (filename) {
-            await this.uploadService.deleteFile(filename, 'blog');
-          }
-        } catch (error) {
-          this.logger.warn(`Failed to delete image file: ${error.message}`);
-        }
-      }
+      await this.uploadService.deleteImages(
+        article.images.map((image) => image.url),
+      );
     }
 
     await this.articleRepository.remove(article);
+    await this.revisionsService.removeAll('blog-article', id);
     this.logger.log(`Blog article deleted successfully: ${id}`);
   }
 
+  /**
+   * Publish the articles whose scheduled date has come
+   * Called by the publication scheduler
+   * @returns Number of articles published
+   */
+  async publishScheduled(now: Date = new Date()): Promise<number> {
+    const due = await this.articleRepository.find({
+      where: { scheduledAt: LessThanOrEqual(now) },
+    });
+
+    for (const article of due) {
+      article.isPublished = true;
+      article.publishedAt = article.scheduledAt;
+      article.scheduledAt = null;
+
+      const published = await this.articleRepository.save(article);
+      await this.recordRevision(published);
+      this.logger.log(`Scheduled blog article published: ${article.id}`);
+    }
+
+    return due.length;
+  }
+
+  // ──────────────────────────────────────────────
+  // Revision methods
+  // ──────────────────────────────────────────────
+
+  /**
+   * History of an article, newest first
+   */
+  async findRevisions(id: string): Promise<RevisionSummary[]> {
+    await this.findById(id);
+    return await this.revisionsService.findAll('blog-article', id);
+  }
+
+  /**
+   * Compare two revisions of an article
+   */
+  async diffRevisions(
+    id: string,
+    fromId: string,
+    toId: string,
+  ): Promise<RevisionDiff> {
+    await this.findById(id);
+    return await this.revisionsService.diff('blog-article', id, fromId, toId);
+  }
+
+  /**
+   * Bring back the title, subtitle, content, tags and publish state of a
+   * revision; tags deleted since are left out
+   * Images and slug are kept as they are
+   */
+  async restoreRevision(id: string, revisionId: string): Promise<BlogArticle> {
+    const article = await this.findById(id);
+    const revision = await this.revisionsService.findOne(
+      'blog-article',
+      id,
+      revisionId,
+    );
+
+    article.title = revision.title;
+    article.subtitle = revision.subtitle;
+    article.content = revision.content ?? '';
+    article.publishedAt = revision.publishedAt;
+    applyPublicationSchedule(
+      article,
+      revision.isPublished,
+      revision.publishedAt,
+    );
+
+    const tagIds = (revision.tags ?? []).map((tag) => tag.id);
+    article.tags = tagIds.length
+      ? await this.tagRepository.findBy({ id: In(tagIds) })
+      : [];
+
+    const restored = await this.articleRepository.save(article);
+    await this.recordRevision(restored, revision.id);
+
+    this.logger.log(`Blog article ${id} restored to revision ${revisionId}`);
+    return restored;
+  }
+
   // ──────────────────────────────────────────────
   // Image methods
   // ──────────────────────────────────────────────
@@ -271,11 +576,9 @@ export class BlogService {
   async addImages(
     articleId: string,
     files: Express.Multer.File[],
-    baseUrl: string,
   ): Promise<BlogArticleImage[]> {
     // Verify article exists
     await this.findById(articleId);
-    await this.uploadService.ensureUploadDir('blog');
 
     // Get current max sortOrder for this article
     const existingImages = await this.articleImageRepository.find({
@@ -286,17 +589,26 @@ export class BlogService {
     const startSortOrder =
       existingImages.length > 0 ? existingImages[0].sortOrder + 1 : 0;
 
-    const articleImages = files.map((file, index) => {
-      const url = this.uploadService.getFileUrl(file.filename, baseUrl, 'blog');
-      return this.articleImageRepository.create({
-        url,
+    const storedImages = await this.uploadService.storeImages(files, 'blog');
+
+    const articleImages = storedImages.map((stored, index) =>
+      this.articleImageRepository.create({
+        url: stored.key,
+        variants: stored.variants,
         isCover: false,
         sortOrder: startSortOrder + index,
         articleId,
-      });
-    });
+      }),
+    );
 
-    return this.articleImageRepository.save(articleImages);
+    try {
+      return await this.articleImageRepository.save(articleImages);
+    } catch (error) {
+      await this.uploadService.deleteImages(
+        storedImages.map((stored) => stored.key),
+      );
+      throw error;
+    }
   }
 
   /**
@@ -335,15 +647,8 @@ export class BlogService {
       );
     }
 
-    // Extract filename from URL and delete the file
-    try {
-      const filename = image.url.split('/').pop();
-      if (filename) {
-        await this.uploadService.deleteFile(filename, 'blog');
-      }
-    } catch (error) {
-      this.logger.warn(`Failed to delete image file: ${error.message}`);
-    }
+    // Delete the stored file and its derivatives
+    await this.uploadService.deleteImages([image.url]);
 
     await this.articleImageRepository.remove(image);
   }
@@ -365,7 +670,7 @@ export class BlogService {
    * Create a new tag with auto-generated slug
    */
   async createTag(createDto: CreateBlogTagDto): Promise<BlogTag> {
-    const slug = this.generateSlug(createDto.name);
+    const slug = slugify(createDto.name);
 
     // Check uniqueness
     const existing = await this.tagRepository.findOne({
@@ -399,7 +704,7 @@ export class BlogService {
 
     if (updateDto.name) {
       tag.name = updateDto.name;
-      tag.slug = this.generateSlug(updateDto.name);
+      tag.slug = slugify(updateDto.name);
     }
 
     try {
@@ -431,21 +736,165 @@ export class BlogService {
   // ──────────────────────────────────────────────
 
   /**
-   * Sanitize HTML content to allow only safe Tiptap tags
+   * Conditions of a public article
+   * Articles dated in the future are left out even if flagged published,
+   * until the scheduler catches up
    */
-  private sanitizeContent(content: string): string {
-    return sanitizeHtml(content, SANITIZE_OPTIONS);
+  private publishedWhere(): FindOptionsWhere<BlogArticle>[] {
+    const now = new Date();
+    return [
+      { isPublished: true, publishedAt: IsNull() },
+      { isPublished: true, publishedAt: LessThanOrEqual(now) },
+    ];
   }
 
   /**
-   * Generate a URL-friendly slug from a title
+   * Ids of the public articles (same conditions as publishedWhere), for
+   * queries ranking or paginating articles before loading them
    */
-  private generateSlug(title: string): string {
-    return title
-      .toLowerCase()
-      .normalize('NFD')
-      .replace(/[\u0300-\u036f]/g, '')
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '');
+  private publishedIdsQuery(): SelectQueryBuilder<BlogArticle> {
+    return this.articleRepository
+      .createQueryBuilder('article')
+      .select('article.id', 'id')
+      .where('article.isPublished = true')
+      .andWhere(
+        '(article.publishedAt IS NULL OR article.publishedAt <= :now)',
+        {
+          now: new Date(),
+        },
+      );
+  }
+
+  /**
+   * Load articles with their images and tags, in the order of their ids
+   */
+  private async findByIdsInOrder(ids: string[]): Promise<BlogArticle[]> {
+    if (!ids.length) {
+      return [];
+    }
+
+    const articles = await this.articleRepository.findBy({ id: In(ids) });
+    return ids
+      .map((id) => articles.find((article) => article.id === id))
+      .filter((article) => article !== undefined);
+  }
+
+  /**
+   * Whether an article matches publishedWhere
+   */
+  private isPublic(article: BlogArticle): boolean {
+    return (
+      article.isPublished &&
+      (!article.publishedAt || article.publishedAt <= new Date())
+    );
+  }
+
+  /**
+   * Slug of an article after an update
+   * An explicit slug must be free (409 otherwise). Without one, a slug still
+   * derived from the title (possibly with a numeric suffix) follows a new
+   * title, with a suffix until it collides with neither another article nor
+   * another article's former slug; a custom slug is kept.
+   */
+  private async resolveUpdatedSlug(
+    article: BlogArticle,
+    updateDto: UpdateBlogArticleDto,
+  ): Promise<string> {
+    if (updateDto.slug && updateDto.slug !== article.slug) {
+      const taken = await this.articleRepository.exists({
+        where: { slug: updateDto.slug, id: Not(article.id) },
+      });
+      if (taken) {
+        throw new ConflictException(
+          `Article with slug "${updateDto.slug}" already exists`,
+        );
+      }
+      return updateDto.slug;
+    }
+
+    const previousBase = slugify(article.title);
+    const followsTitle = new RegExp(`^${previousBase}(-\\d+)?$`).test(
+      article.slug,
+    );
+    if (
+      updateDto.slug ||
+      !updateDto.title ||
+      updateDto.title === article.title ||
+      !followsTitle
+    ) {
+      return article.slug;
+    }
+
+    const baseSlug = slugify(updateDto.title) || 'article';
+    if (baseSlug === previousBase) {
+      return article.slug;
+    }
+
+    let candidate = baseSlug;
+    let suffix = 2;
+    while (await this.isSlugTaken(candidate, article.id)) {
+      candidate = `${baseSlug}-${suffix}`;
+      suffix++;
+    }
+
+    return candidate;
+  }
+
+  private async isSlugTaken(slug: string, articleId: string): Promise<boolean> {
+    return (
+      (await this.articleRepository.exists({
+        where: { slug, id: Not(articleId) },
+      })) ||
+      (await this.slugRedirectRepository.exists({
+        where: { oldSlug: slug, articleId: Not(articleId) },
+      }))
+    );
+  }
+
+  /**
+   * Keep the former slug of an article as a redirect
+   * The new slug no longer redirects anywhere, whichever article it pointed to
+   */
+  private async recordSlugChange(
+    articleId: string,
+    previousSlug: string,
+    slug: string,
+  ): Promise<void> {
+    await this.slugRedirectRepository.delete({ oldSlug: slug });
+    await this.slugRedirectRepository.save(
+      this.slugRedirectRepository.create({ oldSlug: previousSlug, articleId }),
+    );
+    this.logger.log(
+      `Blog article ${articleId} slug changed: "${previousSlug}" → "${slug}"`,
+    );
+  }
+
+  /**
+   * Snapshot the versioned fields of an article after a save
+   */
+  private async recordRevision(
+    article: BlogArticle,
+    restoredFromId: string | null = null,
+  ): Promise<void> {
+    await this.revisionsService.record(
+      'blog-article',
+      article.id,
+      {
+        title: article.title,
+        subtitle: article.subtitle ?? null,
+        content: article.content,
+        tags: (article.tags ?? []).map(({ id, name }) => ({ id, name })),
+        isPublished: article.isPublished,
+        publishedAt: article.publishedAt ?? null,
+      },
+      restoredFromId,
+    );
+  }
+
+  /**
+   * Sanitize HTML content to allow only safe Tiptap tags
+   */
+  private sanitizeContent(content: string): string {
+    return sanitizeHtml(content, BLOG_SANITIZE_OPTIONS);
   }
 }
@@ -0,0 +1,58 @@
+import {
+  IsOptional,
+  IsNumber,
+  Min,
+  Max,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for querying published blog articles with filters and pagination
+ */
+export class BlogQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by tag slug',
+    example: 'wall-hangings',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  tag?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Full-text search in title, subtitle and content (quoted phrases, "or" and -excluded words supported)',
+    example: 'tissage laine',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  q?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (starts at 1)',
+    default: 1,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    default: 12,
+    minimum: 1,
+    maximum: 50,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  limit?: number = 12;
+}
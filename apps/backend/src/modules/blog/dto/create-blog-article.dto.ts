@@ -8,6 +8,7 @@ import {
   IsUUID,
   IsDateString,
   MaxLength,
+  Matches,
   Min,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -53,10 +54,14 @@ export class CreateBlogArticleDto {
   @IsString()
   @IsOptional()
   @MaxLength(255)
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug can only contain lowercase letters, numbers and hyphens',
+  })
   slug?: string;
 
   @ApiPropertyOptional({
-    description: 'Publication date',
+    description:
+      'Publication date; with isPublished, a future date schedules the publication',
     example: '2026-02-25T10:00:00.000Z',
   })
   @IsDateString()
@@ -90,4 +95,14 @@ export class CreateBlogArticleDto {
   @IsUUID('4', { each: true })
   @IsOptional()
   tagIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Array of product UUIDs the article is about',
+    type: [String],
+    example: ['3f1c2d3e-4a5b-4c6d-8e9f-0a1b2c3d4e5f'],
+  })
+  @IsArray()
+  @IsUUID('4', { each: true })
+  @IsOptional()
+  productIds?: string[];
 }
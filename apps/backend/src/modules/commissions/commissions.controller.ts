@@ -0,0 +1,304 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Request,
+  UseInterceptors,
+  UploadedFiles,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { CommissionsService } from './commissions.service';
+import { CreateCommissionDto } from './dto/create-commission.dto';
+import { CommissionQueryDto } from './dto/commission-query.dto';
+import { QuoteCommissionDto } from './dto/quote-commission.dto';
+import { RespondToQuoteDto } from './dto/respond-to-quote.dto';
+import { UpdateCommissionStatusDto } from './dto/update-commission-status.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Commissions controller - storefront requests and status page, backoffice
+ * quoting and follow-up
+ */
+@ApiTags('commissions')
+@Controller('commissions')
+export class CommissionsController {
+  constructor(private readonly commissionsService: CommissionsService) {}
+
+  // ──────────────────────────────────────────────
+  // Storefront
+  // ──────────────────────────────────────────────
+
+  /**
+   * Request a custom piece (public endpoint)
+   */
+  @Public()
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FilesInterceptor('images', 5)) // Max 5 reference images
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Request a custom piece' })
+  @ApiResponse({
+    status: 202,
+    description: 'Request received, status page link emailed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or image',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP or email address',
+  })
+  async request(
+    @Body() createDto: CreateCommissionDto,
+    @UploadedFiles() files: Express.Multer.File[],
+    @Request() req,
+  ) {
+    await this.commissionsService.request(createDto, files, {
+      ipAddress: req.ip,
+    });
+    return { received: true };
+  }
+
+  /**
+   * Status page of a commission (public endpoint, signed link)
+   */
+  @Public()
+  @Get('status/:token')
+  @ApiOperation({ summary: 'Get a commission from its status page link' })
+  @ApiResponse({
+    status: 200,
+    description: 'Commission found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid link',
+  })
+  async findByToken(@Param('token') token: string) {
+    return await this.commissionsService.findByToken(token);
+  }
+
+  /**
+   * Accept the quote (public endpoint, signed link)
+   */
+  @Public()
+  @Post('status/:token/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Accept the quote of a commission' })
+  @ApiResponse({
+    status: 200,
+    description: 'Quote accepted',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No quote is awaiting an answer',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The quote changed since the page was loaded',
+  })
+  async accept(
+    @Param('token') token: string,
+    @Body() respondDto: RespondToQuoteDto,
+  ) {
+    return await this.commissionsService.respondToQuote(
+      token,
+      'accepted',
+      respondDto,
+    );
+  }
+
+  /**
+   * Decline the quote (public endpoint, signed link)
+   */
+  @Public()
+  @Post('status/:token/decline')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Decline the quote of a commission' })
+  @ApiResponse({
+    status: 200,
+    description: 'Quote declined',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No quote is awaiting an answer',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The quote changed since the page was loaded',
+  })
+  async decline(
+    @Param('token') token: string,
+    @Body() respondDto: RespondToQuoteDto,
+  ) {
+    return await this.commissionsService.respondToQuote(
+      token,
+      'declined',
+      respondDto,
+    );
+  }
+
+  // ──────────────────────────────────────────────
+  // Backoffice
+  // ──────────────────────────────────────────────
+
+  /**
+   * Get commissions with filters and pagination
+   */
+  @Get()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get commissions with optional filters' })
+  @ApiResponse({
+    status: 200,
+    description: 'Commissions retrieved successfully',
+  })
+  async findAll(@Query() query: CommissionQueryDto) {
+    return await this.commissionsService.findAll(query);
+  }
+
+  /**
+   * Get a single commission by ID
+   */
+  @Get(':id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a commission by ID' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Commission UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Commission found',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Commission not found',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.commissionsService.findById(id);
+  }
+
+  /**
+   * Get the link to the customer's status page
+   */
+  @Get(':id/status-link')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get the link to the customer's status page" })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Commission UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Status page link',
+  })
+  async getStatusLink(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.commissionsService.getStatusLink(id);
+  }
+
+  /**
+   * Send or revise the quote
+   */
+  @Post(':id/quote')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a quote to the customer' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Commission UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Quote sent',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'The commission cannot be quoted anymore',
+  })
+  async quote(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() quoteDto: QuoteCommissionDto,
+  ) {
+    return await this.commissionsService.quote(id, quoteDto);
+  }
+
+  /**
+   * Move a commission to a new status
+   */
+  @Patch(':id/status')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update the status of a commission' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Commission UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Status updated',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Transition not allowed',
+  })
+  async updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateCommissionStatusDto,
+  ) {
+    return await this.commissionsService.updateStatus(id, updateDto);
+  }
+
+  /**
+   * Delete a commission
+   */
+  @Delete(':id')
+  @Roles('admin')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a commission and its images' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Commission UUID',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Commission deleted',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Commission not found',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string) {
+    await this.commissionsService.remove(id);
+  }
+}
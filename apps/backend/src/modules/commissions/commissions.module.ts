@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MulterModule } from '@nestjs/platform-express';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Commission } from '../../entities/commission.entity';
+import { CommissionImage } from '../../entities/commission-image.entity';
+import { CommissionsController } from './commissions.controller';
+import { CommissionsService } from './commissions.service';
+import { MailModule } from '../mail/mail.module';
+import { UploadModule } from '../upload/upload.module';
+import { InquiriesModule } from '../inquiries/inquiries.module';
+import { imageUploadOptions } from '../upload/image-upload.options';
+import { deriveTokenSecret } from '../../common/utils/app-config.util';
+
+/**
+ * Commissions module
+ * Made-to-order pieces, from the storefront request to delivery
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Commission, CommissionImage]),
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: deriveTokenSecret(configService, 'commission-tokens'),
+      }),
+    }),
+    MulterModule.register(imageUploadOptions),
+    UploadModule,
+    MailModule,
+    // Notification recipients are shared with the contact form
+    InquiriesModule,
+  ],
+  controllers: [CommissionsController],
+  providers: [CommissionsService],
+  exports: [CommissionsService],
+})
+export class CommissionsModule {}
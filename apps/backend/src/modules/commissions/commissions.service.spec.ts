@@ -0,0 +1,480 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { CommissionsService } from './commissions.service';
+import { Commission } from '../../entities/commission.entity';
+import { UploadService } from '../upload/upload.service';
+import { InquiriesService } from '../inquiries/inquiries.service';
+import { MailService } from '../mail/mail.service';
+import { CreateCommissionDto } from './dto/create-commission.dto';
+
+/**
+ * Unit tests for CommissionsService
+ */
+describe('CommissionsService', () => {
+  let service: CommissionsService;
+
+  const mockCommission: Commission = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    reference: 'SM-20260301-4F2A9C',
+    status: 'requested',
+    customerName: 'Jane Doe',
+    customerEmail: 'jane@example.com',
+    customerPhone: null,
+    category: 'rug',
+    dimensions: { width: 200, height: 300, unit: 'cm' },
+    colorPalette: ['bleu nuit', '#e8d8c3'],
+    description: 'Un tapis pour le salon',
+    budget: 1500,
+    images: [
+      {
+        id: 'img-1',
+        url: 'http://localhost:4000/uploads/commissions/ref.webp',
+        variants: null,
+        sortOrder: 0,
+        commissionId: '550e8400-e29b-41d4-a716-446655440000',
+        commission: undefined,
+        createdAt: new Date('2026-03-01T10:00:00.000Z'),
+      },
+    ],
+    quotePrice: null,
+    quoteMessage: null,
+    estimatedDeliveryDate: null,
+    quotedAt: null,
+    acceptedAt: null,
+    deliveredAt: null,
+    ipAddress: '203.0.113.7',
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+    updatedAt: new Date('2026-03-01T10:00:00.000Z'),
+  };
+
+  const createDto: CreateCommissionDto = {
+    name: 'Jane Doe',
+    email: 'Jane@Example.com',
+    category: 'rug',
+    dimensions: { width: 200, height: 300, unit: 'cm' },
+    colorPalette: [' bleu nuit ', '', '#e8d8c3'],
+    description: 'Un tapis pour le salon',
+    budget: 1500,
+  };
+
+  const file = {
+    originalname: 'ref.jpg',
+    mimetype: 'image/jpeg',
+    buffer: Buffer.from('image'),
+  } as Express.Multer.File;
+
+  const mockCommissionRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    count: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockUploadService = {
+    storeImages: jest.fn(),
+    deleteImages: jest.fn(),
+  };
+
+  const mockInquiriesService = {
+    getNotificationRecipients: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const mockJwtService = {
+    sign: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const config: Record<string, unknown> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommissionsService,
+        {
+          provide: getRepositoryToken(Commission),
+          useValue: mockCommissionRepository,
+        },
+        { provide: UploadService, useValue: mockUploadService },
+        { provide: InquiriesService, useValue: mockInquiriesService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<CommissionsService>(CommissionsService);
+
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    config.FRONTEND_URL = 'https://atelier.example/';
+    mockCommissionRepository.count.mockResolvedValue(0);
+    mockCommissionRepository.create.mockImplementation(
+      (data: Partial<Commission>) => data,
+    );
+    mockCommissionRepository.save.mockImplementation(
+      (data: Partial<Commission>) =>
+        Promise.resolve({ ...mockCommission, ...data }),
+    );
+    mockUploadService.storeImages.mockResolvedValue([
+      { key: 'commissions/ref.webp', variants: null },
+    ]);
+    mockInquiriesService.getNotificationRecipients.mockResolvedValue([
+      'atelier@example.com',
+    ]);
+    mockMailService.send.mockResolvedValue(undefined);
+    mockJwtService.sign.mockReturnValue('signed-token');
+    mockJwtService.verify.mockReturnValue({
+      typ: 'commission',
+      ref: mockCommission.id,
+    });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('request', () => {
+    it('should store the request with its images and email both sides', async () => {
+      // Act
+      await service.request(createDto, [file], { ipAddress: '203.0.113.7' });
+
+      // Assert
+      expect(mockUploadService.storeImages).toHaveBeenCalledWith(
+        [file],
+        'commissions',
+      );
+      expect(mockCommissionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reference: expect.stringMatching(/^SM-\d{8}-[0-9A-F]{6}$/),
+          status: 'requested',
+          customerEmail: 'jane@example.com',
+          colorPalette: ['bleu nuit', '#e8d8c3'],
+          ipAddress: '203.0.113.7',
+          images: [
+            { url: 'commissions/ref.webp', variants: null, sortOrder: 0 },
+          ],
+        }),
+      );
+      expect(mockMailService.send).toHaveBeenCalledTimes(2);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'commission-update',
+        'jane@example.com',
+        expect.objectContaining({
+          status: 'requested',
+          statusUrl: 'https://atelier.example/commission/signed-token',
+        }),
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'commission-activity',
+        'atelier@example.com',
+        expect.objectContaining({ event: 'requested' }),
+        { replyTo: 'jane@example.com' },
+      );
+    });
+
+    it('should sign status links for the commission', async () => {
+      // Act
+      await service.request(createDto, [], {});
+
+      // Assert
+      expect(mockJwtService.sign).toHaveBeenCalledWith({
+        typ: 'commission',
+        ref: mockCommission.id,
+      });
+    });
+
+    it('should silently drop requests caught by the honeypot', async () => {
+      // Act
+      await service.request({ ...createDto, website: 'http://spam.example' });
+
+      // Assert
+      expect(mockUploadService.storeImages).not.toHaveBeenCalled();
+      expect(mockCommissionRepository.save).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should throw 429 when the sender exceeded the hourly limit', async () => {
+      // Arrange
+      config.INQUIRIES_MAX_PER_HOUR = 2;
+      mockCommissionRepository.count.mockResolvedValue(2);
+
+      // Act & Assert
+      const error = await service
+        .request(createDto, [file], { ipAddress: '203.0.113.7' })
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      expect(mockUploadService.storeImages).not.toHaveBeenCalled();
+    });
+
+    it('should delete the stored images when the request cannot be saved', async () => {
+      // Arrange
+      mockCommissionRepository.save.mockRejectedValue(new Error('DB down'));
+
+      // Act & Assert
+      await expect(service.request(createDto, [file])).rejects.toThrow(
+        'DB down',
+      );
+      expect(mockUploadService.deleteImages).toHaveBeenCalledWith([
+        'commissions/ref.webp',
+      ]);
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not fail when an email cannot be sent', async () => {
+      // Arrange
+      mockMailService.send.mockRejectedValue(new Error('SMTP down'));
+
+      // Act & Assert
+      await expect(service.request(createDto)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findByToken', () => {
+    it('should return the status view without internal fields', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue(mockCommission);
+
+      // Act
+      const result = await service.findByToken('signed-token');
+
+      // Assert
+      expect(mockJwtService.verify).toHaveBeenCalledWith('signed-token');
+      expect(result.reference).toBe(mockCommission.reference);
+      expect(result).not.toHaveProperty('ipAddress');
+      expect(result).not.toHaveProperty('customerEmail');
+      expect(result.images).toEqual([
+        { id: 'img-1', url: mockCommission.images[0].url, variants: null },
+      ]);
+    });
+
+    it('should throw UnauthorizedException for an invalid token', async () => {
+      // Arrange
+      mockJwtService.verify.mockImplementation(() => {
+        throw new Error('invalid signature');
+      });
+
+      // Act & Assert
+      await expect(service.findByToken('forged')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException for a token of another kind', async () => {
+      // Arrange
+      mockJwtService.verify.mockReturnValue({ typ: 'preview', ref: 'x' });
+
+      // Act & Assert
+      await expect(service.findByToken('other')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw NotFoundException when the commission was deleted', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findByToken('signed-token')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('respondToQuote', () => {
+    const quotedAt = new Date('2026-05-04T09:30:00.000Z');
+    const respondDto = { quotedAt: quotedAt.toISOString() };
+
+    it('should accept a pending quote and notify the atelier', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue({
+        ...mockCommission,
+        status: 'quoted',
+        quotePrice: 1400,
+        quotedAt,
+      });
+      mockCommissionRepository.update.mockResolvedValueOnce({ affected: 1 });
+
+      // Act
+      const result = await service.respondToQuote(
+        'signed-token',
+        'accepted',
+        respondDto,
+      );
+
+      // Assert
+      expect(mockCommissionRepository.update).toHaveBeenCalledWith(
+        { id: mockCommission.id, status: 'quoted', quotedAt },
+        { status: 'accepted', acceptedAt: expect.any(Date) },
+      );
+      expect(result.status).toBe('accepted');
+      expect(result.acceptedAt).toBeInstanceOf(Date);
+      expect(mockMailService.send).toHaveBeenCalledTimes(1);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'commission-activity',
+        'atelier@example.com',
+        expect.objectContaining({ event: 'accepted', quotePrice: 1400 }),
+        { replyTo: 'jane@example.com' },
+      );
+    });
+
+    it('should reject an answer when no quote is pending', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue({ ...mockCommission });
+
+      // Act & Assert
+      await expect(
+        service.respondToQuote('signed-token', 'declined', respondDto),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCommissionRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an answer to a quote revised since the page was loaded', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue({
+        ...mockCommission,
+        status: 'quoted',
+        quotePrice: 1600,
+        quotedAt: new Date('2026-05-05T14:00:00.000Z'),
+      });
+      mockCommissionRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+      // Act & Assert
+      await expect(
+        service.respondToQuote('signed-token', 'accepted', respondDto),
+      ).rejects.toThrow(ConflictException);
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('quote', () => {
+    it('should record the quote and email it to the customer', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue({ ...mockCommission });
+
+      // Act
+      const result = await service.quote(mockCommission.id, {
+        price: 1400,
+        message: '  Laine et lin  ',
+        estimatedDeliveryDate: '2026-06-01',
+      });
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'quoted',
+          quotePrice: 1400,
+          quoteMessage: 'Laine et lin',
+          estimatedDeliveryDate: '2026-06-01',
+        }),
+      );
+      expect(result.quotedAt).toBeInstanceOf(Date);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'commission-update',
+        'jane@example.com',
+        expect.objectContaining({ status: 'quoted', quotePrice: 1400 }),
+      );
+    });
+
+    it('should not quote a commission already accepted', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue({
+        ...mockCommission,
+        status: 'accepted',
+      });
+
+      // Act & Assert
+      await expect(
+        service.quote(mockCommission.id, { price: 1400 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateStatus', () => {
+    it('should mark a commission delivered and tell the customer', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue({
+        ...mockCommission,
+        status: 'in_progress',
+      });
+
+      // Act
+      const result = await service.updateStatus(mockCommission.id, {
+        status: 'delivered',
+      });
+
+      // Assert
+      expect(result.status).toBe('delivered');
+      expect(result.deliveredAt).toBeInstanceOf(Date);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'commission-update',
+        'jane@example.com',
+        expect.objectContaining({ status: 'delivered' }),
+      );
+    });
+
+    it('should reject a transition the workflow does not allow', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue({ ...mockCommission });
+
+      // Act & Assert
+      await expect(
+        service.updateStatus(mockCommission.id, { status: 'delivered' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCommissionRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the commission and its images', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue(mockCommission);
+
+      // Act
+      await service.remove(mockCommission.id);
+
+      // Assert
+      expect(mockUploadService.deleteImages).toHaveBeenCalledWith([
+        mockCommission.images[0].url,
+      ]);
+      expect(mockCommissionRepository.remove).toHaveBeenCalledWith(
+        mockCommission,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown commission', async () => {
+      // Arrange
+      mockCommissionRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.remove('unknown')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,546 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Brackets, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { Commission, CommissionStatus } from '../../entities/commission.entity';
+import { CommissionImage } from '../../entities/commission-image.entity';
+import { MailService } from '../mail/mail.service';
+import { UploadService, StoredImage } from '../upload/upload.service';
+import { InquiriesService } from '../inquiries/inquiries.service';
+import { CreateCommissionDto } from './dto/create-commission.dto';
+import { CommissionQueryDto } from './dto/commission-query.dto';
+import { QuoteCommissionDto } from './dto/quote-commission.dto';
+import { RespondToQuoteDto } from './dto/respond-to-quote.dto';
+import { UpdateCommissionStatusDto } from './dto/update-commission-status.dto';
+import {
+  getFrontendUrl,
+  getBackofficeUrl,
+} from '../../common/utils/app-config.util';
+import {
+  assertWithinRateLimit,
+  isCaughtByHoneypot,
+} from '../../common/utils/public-form.util';
+
+/**
+ * Allowed status transitions
+ * A quote can be revised while unanswered or after the customer declined it
+ */
+const STATUS_TRANSITIONS: Record<CommissionStatus, CommissionStatus[]> = {
+  requested: ['quoted', 'cancelled'],
+  quoted: ['quoted', 'accepted', 'declined', 'cancelled'],
+  accepted: ['in_progress', 'cancelled'],
+  in_progress: ['delivered', 'cancelled'],
+  delivered: [],
+  declined: ['quoted', 'cancelled'],
+  cancelled: [],
+};
+
+/**
+ * `typ` claim of status page tokens
+ */
+const STATUS_TOKEN_TYPE = 'commission';
+
+interface StatusTokenPayload {
+  typ: typeof STATUS_TOKEN_TYPE;
+  ref: string;
+}
+
+/**
+ * Where a request comes from
+ */
+export interface CommissionContext {
+  ipAddress?: string;
+}
+
+/**
+ * What the customer sees on their status page
+ * Leaves out internal fields (IP address, id)
+ */
+export type CommissionStatusView = Pick<
+  Commission,
+  | 'reference'
+  | 'status'
+  | 'customerName'
+  | 'category'
+  | 'dimensions'
+  | 'colorPalette'
+  | 'description'
+  | 'budget'
+  | 'quotePrice'
+  | 'quoteMessage'
+  | 'estimatedDeliveryDate'
+  | 'quotedAt'
+  | 'acceptedAt'
+  | 'deliveredAt'
+  | 'createdAt'
+> & {
+  images: Pick<CommissionImage, 'id' | 'url' | 'variants'>[];
+};
+
+/**
+ * Commissions service
+ *
+ * Made-to-order pieces: the customer sends a request with reference images,
+ * the atelier answers with a quote, then records progress until delivery.
+ * Each step emails the customer a link to their status page, where they
+ * accept or decline the quote. The link carries a signed token (own key
+ * derived from JWT_SECRET) that does not expire, so older emails keep
+ * working. Requests share the contact form's spam protections.
+ */
+@Injectable()
+export class CommissionsService {
+  private readonly logger = new Logger(CommissionsService.name);
+
+  constructor(
+    @InjectRepository(Commission)
+    private readonly commissionRepository: Repository<Commission>,
+    private readonly uploadService: UploadService,
+    private readonly inquiriesService: InquiriesService,
+    private readonly mailService: MailService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ──────────────────────────────────────────────
+  // Storefront
+  // ──────────────────────────────────────────────
+
+  /**
+   * Record a commission request with its reference images
+   * @throws HttpException 429 when the sender sent too many requests
+   * @throws BadRequestException if an image is invalid
+   */
+  async request(
+    createDto: CreateCommissionDto,
+    files: Express.Multer.File[] = [],
+    context: CommissionContext = {},
+  ): Promise<void> {
+    if (
+      isCaughtByHoneypot(
+        createDto.website,
+        this.logger,
+        'commission request',
+        context.ipAddress,
+      )
+    ) {
+      return;
+    }
+
+    const email = createDto.email.toLowerCase();
+    await assertWithinRateLimit({
+      max: this.configService.get<number>('INQUIRIES_MAX_PER_HOUR', 5),
+      count: (since) =>
+        this.commissionRepository.count({
+          where: [
+            { customerEmail: email, createdAt: since },
+            ...(context.ipAddress
+              ? [{ ipAddress: context.ipAddress, createdAt: since }]
+              : []),
+          ],
+        }),
+      message: 'Too many requests sent, try again later',
+      logger: this.logger,
+      description: `commission request from ${email} (${context.ipAddress ?? 'unknown IP'})`,
+    });
+
+    // Process images before saving anything so an invalid file never
+    // leaves a request without its images
+    const storedImages: StoredImage[] = await this.uploadService.storeImages(
+      files,
+      'commissions',
+    );
+
+    let commission: Commission;
+    try {
+      commission = await this.commissionRepository.save(
+        this.commissionRepository.create({
+          reference: this.generateReference(),
+          status: 'requested',
+          customerName: createDto.name,
+          customerEmail: email,
+          customerPhone: createDto.phone || null,
+          category: createDto.category,
+          dimensions: {
+            width: createDto.dimensions.width,
+            height: createDto.dimensions.height,
+            unit: createDto.dimensions.unit,
+          },
+          colorPalette: createDto.colorPalette
+            .map((color) => color.trim())
+            .filter(Boolean),
+          description: createDto.description,
+          budget: createDto.budget ?? null,
+          ipAddress: context.ipAddress?.slice(0, 45) ?? null,
+          images: storedImages.map((stored, index) => ({
+            url: stored.key,
+            variants: stored.variants,
+            sortOrder: index,
+          })),
+        }),
+      );
+    } catch (error) {
+      await this.uploadService.deleteImages(
+        storedImages.map((stored) => stored.key),
+      );
+      throw error;
+    }
+
+    this.logger.log(
+      `Commission ${commission.reference} requested (${storedImages.length} image(s))`,
+    );
+    await this.notifyCustomer(commission);
+    await this.notifyAtelier(commission, 'requested');
+  }
+
+  /**
+   * Commission behind a status page link
+   * @throws UnauthorizedException if the token is invalid
+   * @throws NotFoundException if the commission no longer exists
+   */
+  async findByToken(token: string): Promise<CommissionStatusView> {
+    return this.toStatusView(await this.resolveToken(token));
+  }
+
+  /**
+   * Accept or decline the current quote from the status page
+   * The answer only applies to the quote the customer saw: the update is
+   * conditional on its date, so a quote revised meanwhile is left untouched
+   * @throws BadRequestException if no quote is awaiting an answer
+   * @throws ConflictException if the quote changed since the page was loaded
+   */
+  async respondToQuote(
+    token: string,
+    answer: 'accepted' | 'declined',
+    respondDto: RespondToQuoteDto,
+  ): Promise<CommissionStatusView> {
+    const commission = await this.resolveToken(token);
+
+    if (commission.status !== 'quoted') {
+      throw new BadRequestException('No quote is awaiting an answer');
+    }
+
+    const changes: Partial<Commission> = { status: answer };
+    if (answer === 'accepted') {
+      changes.acceptedAt = new Date();
+    }
+
+    const { affected } = await this.commissionRepository.update(
+      {
+        id: commission.id,
+        status: 'quoted',
+        quotedAt: new Date(respondDto.quotedAt),
+      },
+      changes,
+    );
+    if (!affected) {
+      throw new ConflictException(
+        'The quote changed since the page was loaded',
+      );
+    }
+    Object.assign(commission, changes);
+
+    this.logger.log(`Commission ${commission.reference} quote ${answer}`);
+    await this.notifyAtelier(commission, answer);
+    return this.toStatusView(commission);
+  }
+
+  // ──────────────────────────────────────────────
+  // Backoffice
+  // ──────────────────────────────────────────────
+
+  /**
+   * Find commissions with filters and pagination, newest first
+   */
+  async findAll(query: CommissionQueryDto): Promise<{
+    data: Commission[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { status, category, search, page = 1, limit = 20 } = query;
+
+    const queryBuilder = this.commissionRepository
+      .createQueryBuilder('commission')
+      .leftJoinAndSelect('commission.images', 'images');
+
+    if (status) {
+      queryBuilder.andWhere('commission.status = :status', { status });
+    }
+
+    if (category) {
+      queryBuilder.andWhere('commission.category = :category', { category });
+    }
+
+    if (search) {
+      queryBuilder.andWhere(
+        new Brackets((where) =>
+          where
+            .where('commission.reference ILIKE :search')
+            .orWhere('commission.customerName ILIKE :search')
+            .orWhere('commission.customerEmail ILIKE :search'),
+        ),
+        { search: `%${search}%` },
+      );
+    }
+
+    queryBuilder
+      .orderBy('commission.createdAt', 'DESC')
+      .addOrderBy('images.sortOrder', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Find a commission by ID
+   */
+  async findById(id: string): Promise<Commission> {
+    const commission = await this.commissionRepository.findOne({
+      where: { id },
+      order: { images: { sortOrder: 'ASC' } },
+    });
+
+    if (!commission) {
+      throw new NotFoundException(`Commission with ID ${id} not found`);
+    }
+
+    return commission;
+  }
+
+  /**
+   * Link to the customer's status page, e.g. to send it again by hand
+   */
+  async getStatusLink(id: string): Promise<{ url: string }> {
+    const commission = await this.findById(id);
+    return { url: this.getStatusUrl(commission) };
+  }
+
+  /**
+   * Send (or revise) the quote and email it to the customer
+   * @throws BadRequestException if the commission cannot be quoted anymore
+   */
+  async quote(id: string, quoteDto: QuoteCommissionDto): Promise<Commission> {
+    const commission = await this.findById(id);
+    this.assertTransition(commission, 'quoted');
+
+    commission.status = 'quoted';
+    commission.quotePrice = quoteDto.price;
+    commission.quoteMessage = quoteDto.message?.trim() || null;
+    commission.estimatedDeliveryDate = quoteDto.estimatedDeliveryDate ?? null;
+    commission.quotedAt = new Date();
+    const saved = await this.commissionRepository.save(commission);
+
+    this.logger.log(
+      `Commission ${saved.reference} quoted at ${quoteDto.price} EUR`,
+    );
+    await this.notifyCustomer(saved);
+    return saved;
+  }
+
+  /**
+   * Move a commission to a new status and let the customer know
+   * @throws BadRequestException if the transition is not allowed
+   */
+  async updateStatus(
+    id: string,
+    { status }: UpdateCommissionStatusDto,
+  ): Promise<Commission> {
+    const commission = await this.findById(id);
+    this.assertTransition(commission, status);
+
+    const previous = commission.status;
+    commission.status = status;
+    if (status === 'accepted') {
+      commission.acceptedAt = new Date();
+    } else if (status === 'delivered') {
+      commission.deliveredAt = new Date();
+    }
+    const saved = await this.commissionRepository.save(commission);
+
+    this.logger.log(
+      `Commission ${saved.reference} moved from ${previous} to ${status}`,
+    );
+    await this.notifyCustomer(saved);
+    return saved;
+  }
+
+  /**
+   * Delete a commission and its reference images
+   */
+  async remove(id: string): Promise<void> {
+    const commission = await this.findById(id);
+
+    if (commission.images?.length > 0) {
+      await this.uploadService.deleteImages(
+        commission.images.map((image) => image.url),
+      );
+    }
+
+    await this.commissionRepository.remove(commission);
+    this.logger.log(`Commission ${commission.reference} deleted`);
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  private assertTransition(
+    commission: Commission,
+    status: CommissionStatus,
+  ): void {
+    if (!STATUS_TRANSITIONS[commission.status].includes(status)) {
+      throw new BadRequestException(
+        `Cannot move commission from "${commission.status}" to "${status}"`,
+      );
+    }
+  }
+
+  private async resolveToken(token: string): Promise<Commission> {
+    let payload: StatusTokenPayload;
+    try {
+      payload = this.jwtService.verify<StatusTokenPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid commission link');
+    }
+
+    if (payload.typ !== STATUS_TOKEN_TYPE) {
+      throw new UnauthorizedException('Invalid commission link');
+    }
+
+    const commission = await this.commissionRepository.findOne({
+      where: { id: payload.ref },
+      order: { images: { sortOrder: 'ASC' } },
+    });
+    if (!commission) {
+      throw new NotFoundException('Commission not found');
+    }
+    return commission;
+  }
+
+  private getStatusUrl(commission: Commission): string {
+    const payload: StatusTokenPayload = {
+      typ: STATUS_TOKEN_TYPE,
+      ref: commission.id,
+    };
+    return `${getFrontendUrl(this.configService)}/commission/${this.jwtService.sign(payload)}`;
+  }
+
+  private toStatusView(commission: Commission): CommissionStatusView {
+    return {
+      reference: commission.reference,
+      status: commission.status,
+      customerName: commission.customerName,
+      category: commission.category,
+      dimensions: commission.dimensions,
+      colorPalette: commission.colorPalette,
+      description: commission.description,
+      budget: commission.budget,
+      quotePrice: commission.quotePrice,
+      quoteMessage: commission.quoteMessage,
+      estimatedDeliveryDate: commission.estimatedDeliveryDate,
+      quotedAt: commission.quotedAt,
+      acceptedAt: commission.acceptedAt,
+      deliveredAt: commission.deliveredAt,
+      createdAt: commission.createdAt,
+      images: (commission.images ?? []).map(({ id, url, variants }) => ({
+        id,
+        url,
+        variants,
+      })),
+    };
+  }
+
+  /**
+   * Email the customer the current stage and their status page link
+   * A mail failure never undoes the change
+   */
+  private async notifyCustomer(commission: Commission): Promise<void> {
+    if (commission.status === 'declined') {
+      return;
+    }
+
+    try {
+      await this.mailService.send(
+        'commission-update',
+        commission.customerEmail,
+        {
+          status: commission.status,
+          customerName: commission.customerName,
+          reference: commission.reference,
+          quotePrice: commission.quotePrice,
+          quoteMessage: commission.quoteMessage,
+          estimatedDeliveryDate: commission.estimatedDeliveryDate,
+          statusUrl: this.getStatusUrl(commission),
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to email commission ${commission.reference} (${commission.status}) to the customer: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Email the atelier what the customer did
+   */
+  private async notifyAtelier(
+    commission: Commission,
+    event: 'requested' | 'accepted' | 'declined',
+  ): Promise<void> {
+    const recipients = await this.inquiriesService.getNotificationRecipients();
+    const backofficeUrl = getBackofficeUrl(this.configService);
+
+    for (const recipient of recipients) {
+      try {
+        await this.mailService.send(
+          'commission-activity',
+          recipient,
+          {
+            event,
+            reference: commission.reference,
+            customerName: commission.customerName,
+            customerEmail: commission.customerEmail,
+            customerPhone: commission.customerPhone,
+            category: commission.category,
+            dimensions: commission.dimensions,
+            colorPalette: commission.colorPalette,
+            budget: commission.budget,
+            quotePrice: event === 'requested' ? null : commission.quotePrice,
+            description: commission.description,
+            commissionUrl: `${backofficeUrl}/commissions?id=${commission.id}`,
+          },
+          { replyTo: commission.customerEmail },
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to notify ${recipient} of commission ${commission.reference} (${event}): ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private generateReference(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = randomBytes(3).toString('hex').toUpperCase();
+    return `SM-${date}-${suffix}`;
+  }
+}
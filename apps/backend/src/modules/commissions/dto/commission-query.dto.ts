@@ -0,0 +1,71 @@
+import { IsOptional, IsEnum, IsNumber, Min, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { CommissionStatus } from '../../../entities/commission.entity';
+
+/**
+ * DTO for querying commissions with filters and pagination
+ */
+export class CommissionQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: [
+      'requested',
+      'quoted',
+      'accepted',
+      'in_progress',
+      'delivered',
+      'declined',
+      'cancelled',
+    ],
+  })
+  @IsEnum([
+    'requested',
+    'quoted',
+    'accepted',
+    'in_progress',
+    'delivered',
+    'declined',
+    'cancelled',
+  ])
+  @IsOptional()
+  status?: CommissionStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by kind of piece',
+    enum: ['wall-hanging', 'rug'],
+  })
+  @IsEnum(['wall-hanging', 'rug'])
+  @IsOptional()
+  category?: 'wall-hanging' | 'rug';
+
+  @ApiPropertyOptional({
+    description: 'Search by reference, customer name or email (partial match)',
+    example: 'SM-2026',
+  })
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (starts at 1)',
+    default: 1,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    default: 20,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  limit?: number = 20;
+}
@@ -0,0 +1,126 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type, plainToClass } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DimensionsDto } from '../../products/dto/create-product-with-upload.dto';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+/**
+ * Parse a JSON-encoded multipart field, leaving other values as they are
+ */
+const parseJson = ({ value }: { value: unknown }): unknown => {
+  if (typeof value !== 'string' || value === '') {
+    return value === '' ? undefined : value;
+  }
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * DTO for a custom piece requested from the storefront
+ * Sent as multipart/form-data with up to 5 reference images in `images`;
+ * `dimensions` and `colorPalette` are JSON strings there
+ */
+export class CreateCommissionDto {
+  @ApiProperty({ description: 'Customer name', example: 'Jane Doe' })
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Email address', example: 'jane@example.com' })
+  @Transform(trim)
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @ApiPropertyOptional({ description: 'Phone number', example: '+33612345678' })
+  @Transform(trim)
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  phone?: string;
+
+  @ApiProperty({
+    description: 'Kind of piece',
+    enum: ['wall-hanging', 'rug'],
+    example: 'rug',
+  })
+  @IsEnum(['wall-hanging', 'rug'])
+  category: 'wall-hanging' | 'rug';
+
+  @ApiProperty({
+    description: 'Requested dimensions (JSON string or object)',
+    example: '{"width": 200, "height": 300, "unit": "cm"}',
+  })
+  @Transform(
+    (params) => {
+      const parsed = parseJson(params);
+      return parsed && typeof parsed === 'object'
+        ? plainToClass(DimensionsDto, parsed as Record<string, unknown>)
+        : parsed;
+    },
+    { toClassOnly: true },
+  )
+  @ValidateNested()
+  @Type(() => DimensionsDto)
+  dimensions: DimensionsDto;
+
+  @ApiProperty({
+    description: 'Colours wished for (JSON string array or array)',
+    example: '["terracotta", "#f5f0e6", "vert sauge"]',
+  })
+  @Transform(parseJson)
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  colorPalette: string[];
+
+  @ApiProperty({
+    description: 'What the piece should look like, where it will live...',
+    maxLength: 5000,
+  })
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  description: string;
+
+  @ApiPropertyOptional({ description: 'Budget in euros', example: 800 })
+  @Transform(({ value }) =>
+    value === '' || value === undefined ? undefined : Number(value),
+  )
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @IsOptional()
+  budget?: number;
+
+  /**
+   * Honeypot: hidden from visitors, so only bots fill it in
+   */
+  @ApiPropertyOptional({
+    description: 'Leave empty (spam trap)',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  website?: string;
+}
@@ -0,0 +1,37 @@
+import {
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for sending a quote to the customer
+ */
+export class QuoteCommissionDto {
+  @ApiProperty({ description: 'Quoted price in euros', example: 950 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  price: number;
+
+  @ApiPropertyOptional({
+    description: 'Message sent with the quote',
+    maxLength: 5000,
+    example: 'Laine mérinos teinte à la main, acompte de 30 % à la commande.',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(5000)
+  message?: string;
+
+  @ApiPropertyOptional({
+    description: 'Estimated delivery date (YYYY-MM-DD)',
+    example: '2026-06-15',
+  })
+  @IsDateString()
+  @IsOptional()
+  estimatedDeliveryDate?: string;
+}
@@ -0,0 +1,14 @@
+import { IsDateString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for answering a quote from the status page
+ */
+export class RespondToQuoteDto {
+  @ApiProperty({
+    description: 'Date of the quote shown to the customer',
+    example: '2026-05-04T09:30:00.000Z',
+  })
+  @IsDateString()
+  quotedAt: string;
+}
@@ -0,0 +1,28 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import type { CommissionStatus } from '../../../entities/commission.entity';
+
+/**
+ * Statuses the atelier sets by hand
+ * A quote is sent through its own endpoint; the customer declines it on the
+ * status page (acceptance can also be recorded here, e.g. given by phone)
+ */
+export const STAFF_COMMISSION_STATUSES = [
+  'accepted',
+  'in_progress',
+  'delivered',
+  'cancelled',
+] as const;
+
+/**
+ * DTO for moving a commission to a new status
+ */
+export class UpdateCommissionStatusDto {
+  @ApiProperty({
+    description: 'New commission status',
+    enum: STAFF_COMMISSION_STATUSES,
+    example: 'in_progress',
+  })
+  @IsEnum(STAFF_COMMISSION_STATUSES)
+  status: Extract<CommissionStatus, (typeof STAFF_COMMISSION_STATUSES)[number]>;
+}
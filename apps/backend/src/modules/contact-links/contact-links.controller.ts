@@ -22,6 +22,7 @@ import { CreateContactLinkDto } from './dto/create-contact-link.dto';
 import { UpdateContactLinkDto } from './dto/update-contact-link.dto';
 import { ContactLink } from '../../entities/contact-link.entity';
 import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
 
 /**
  * ContactLinks controller - handles HTTP requests for contact and social media links
@@ -138,9 +139,10 @@ export class ContactLinksController {
   }
 
   /**
-   * Delete a contact link (authenticated)
+   * Delete a contact link (admin only)
    */
   @Delete(':id')
+  @Roles('admin')
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a contact link' })
@@ -154,6 +156,10 @@ export class ContactLinksController {
     status: 204,
     description: 'Contact link deleted successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'Contact link not found',
@@ -0,0 +1,38 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { DashboardService } from './dashboard.service';
+import { DashboardQueryDto } from './dto/dashboard-query.dto';
+import { DashboardOverviewDto } from './dto/dashboard-response.dto';
+
+/**
+ * Dashboard controller - backoffice overview metrics
+ */
+@ApiTags('dashboard')
+@ApiBearerAuth()
+@Controller('dashboard')
+export class DashboardController {
+  constructor(private readonly dashboardService: DashboardService) {}
+
+  /**
+   * Get the dashboard overview
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get catalog, content and sales metrics with period trends',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dashboard overview retrieved successfully',
+    type: DashboardOverviewDto,
+  })
+  async getOverview(
+    @Query() query: DashboardQueryDto,
+  ): Promise<DashboardOverviewDto> {
+    return await this.dashboardService.getOverview(query.periodDays);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DashboardService } from './dashboard.service';
+import { DashboardController } from './dashboard.controller';
+import { Product } from '../../entities/product.entity';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { AboutSection } from '../../entities/about-section.entity';
+import { Order } from '../../entities/order.entity';
+import { OrderItem } from '../../entities/order-item.entity';
+import { ProductsModule } from '../products/products.module';
+
+/**
+ * Dashboard module
+ * Read-only aggregates for the backoffice home page
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Product,
+      BlogArticle,
+      AboutSection,
+      Order,
+      OrderItem,
+    ]),
+    ProductsModule,
+  ],
+  controllers: [DashboardController],
+  providers: [DashboardService],
+})
+export class DashboardModule {}
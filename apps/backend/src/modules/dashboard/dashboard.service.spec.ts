@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DashboardService } from './dashboard.service';
+import { ProductsService } from '../products/products.service';
+import { Product } from '../../entities/product.entity';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { AboutSection } from '../../entities/about-section.entity';
+import { Order } from '../../entities/order.entity';
+import { OrderItem } from '../../entities/order-item.entity';
+
+/**
+ * Unit tests for DashboardService
+ * Tests metric aggregation and period-over-period comparison with mocked queries
+ */
+describe('DashboardService', () => {
+  let service: DashboardService;
+
+  const statistics = {
+    total: 3,
+    byCategory: { 'wall-hanging': 1, rug: 2 },
+    byStatus: { available: 1, sold: 1, draft: 1 },
+  };
+
+  /**
+   * Query builder stub resolving getRawOne with the queued results in order
+   */
+  const buildQueryBuilder = (...results: object[]) => {
+    const queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn(),
+    };
+    results.forEach((result) =>
+      queryBuilder.getRawOne.mockResolvedValueOnce(result),
+    );
+    return queryBuilder;
+  };
+
+  const mockProductsService = {
+    getStatistics: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    createQueryBuilder: jest.fn(),
+    count: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockBlogArticleRepository = { count: jest.fn() };
+  const mockAboutSectionRepository = { count: jest.fn() };
+  const mockOrderRepository = { createQueryBuilder: jest.fn() };
+  const mockOrderItemRepository = { createQueryBuilder: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DashboardService,
+        { provide: ProductsService, useValue: mockProductsService },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(BlogArticle),
+          useValue: mockBlogArticleRepository,
+        },
+        {
+          provide: getRepositoryToken(AboutSection),
+          useValue: mockAboutSectionRepository,
+        },
+        {
+          provide: getRepositoryToken(Order),
+          useValue: mockOrderRepository,
+        },
+        {
+          provide: getRepositoryToken(OrderItem),
+          useValue: mockOrderItemRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DashboardService>(DashboardService);
+
+    jest.clearAllMocks();
+    mockProductsService.getStatistics.mockResolvedValue(statistics);
+    mockProductRepository.createQueryBuilder.mockReturnValue(
+      buildQueryBuilder({ value: '1249.50' }),
+    );
+    mockProductRepository.count
+      .mockResolvedValueOnce(4) // new products, current period
+      .mockResolvedValueOnce(2); // new products, previous period
+    mockProductRepository.find.mockResolvedValue([]);
+    mockBlogArticleRepository.count
+      .mockResolvedValueOnce(5)
+      .mockResolvedValueOnce(2);
+    mockAboutSectionRepository.count
+      .mockResolvedValueOnce(3)
+      .mockResolvedValueOnce(0);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getOverview', () => {
+    it('should aggregate catalog, content and stock value', async () => {
+      // Arrange
+      mockOrderRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder(
+          { count: '0', revenue: '0' },
+          { count: '0', revenue: '0' },
+        ),
+      );
+      mockOrderItemRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({ quantity: '0' }, { quantity: '0' }),
+      );
+
+      // Act
+      const result = await service.getOverview(30);
+
+      // Assert
+      expect(result.products).toEqual(statistics);
+      expect(result.stockValue).toBe(1249.5);
+      expect(result.blogArticles).toEqual({ published: 5, draft: 2 });
+      expect(result.aboutSections).toEqual({ published: 3, draft: 0 });
+    });
+
+    it('should compare sales with the previous period', async () => {
+      // Arrange
+      mockOrderRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder(
+          { count: '3', revenue: '750.00' },
+          { count: '2', revenue: '500.00' },
+        ),
+      );
+      mockOrderItemRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({ quantity: '3' }, { quantity: '4' }),
+      );
+
+      // Act
+      const result = await service.getOverview(30);
+
+      // Assert
+      expect(result.revenue).toEqual({
+        current: 750,
+        previous: 500,
+        changePercent: 50,
+      });
+      expect(result.orders).toEqual({
+        current: 3,
+        previous: 2,
+        changePercent: 50,
+      });
+      expect(result.piecesSold).toEqual({
+        current: 3,
+        previous: 4,
+        changePercent: -25,
+      });
+      expect(result.newProducts.changePercent).toBe(100);
+    });
+
+    it('should report no percentage change when the previous period is empty', async () => {
+      // Arrange
+      mockOrderRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder(
+          { count: '1', revenue: '120.00' },
+          { count: '0', revenue: '0' },
+        ),
+      );
+      mockOrderItemRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({ quantity: '1' }, { quantity: '0' }),
+      );
+
+      // Act
+      const result = await service.getOverview(7);
+
+      // Assert
+      expect(result.revenue.changePercent).toBeNull();
+      expect(result.period.days).toBe(7);
+      expect(
+        result.period.end.getTime() - result.period.currentStart.getTime(),
+      ).toBe(7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should list recently sold pieces with numeric prices', async () => {
+      // Arrange
+      const soldAt = new Date('2026-10-01T10:00:00.000Z');
+      mockProductRepository.find.mockResolvedValue([
+        {
+          id: 'product-1',
+          name: 'Tapis Nordique',
+          slug: 'tapis-nordique',
+          category: 'rug',
+          price: '249.50',
+          updatedAt: soldAt,
+        },
+      ]);
+      mockOrderRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder(
+          { count: '0', revenue: '0' },
+          { count: '0', revenue: '0' },
+        ),
+      );
+      mockOrderItemRepository.createQueryBuilder.mockReturnValue(
+        buildQueryBuilder({ quantity: '0' }, { quantity: '0' }),
+      );
+
+      // Act
+      const result = await service.getOverview();
+
+      // Assert
+      expect(mockProductRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'sold' },
+          order: { updatedAt: 'DESC' },
+        }),
+      );
+      expect(result.recentlySold).toEqual([
+        {
+          id: 'product-1',
+          name: 'Tapis Nordique',
+          slug: 'tapis-nordique',
+          category: 'rug',
+          price: 249.5,
+          soldAt,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { And, LessThan, MoreThanOrEqual, Repository } from 'typeorm';
+import { Product } from '../../entities/product.entity';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { AboutSection } from '../../entities/about-section.entity';
+import { Order, OrderStatus } from '../../entities/order.entity';
+import { OrderItem } from '../../entities/order-item.entity';
+import { ProductsService } from '../products/products.service';
+import {
+  DashboardOverviewDto,
+  PeriodMetricDto,
+  PublicationCountsDto,
+  SoldPieceDto,
+} from './dto/dashboard-response.dto';
+
+/**
+ * Order statuses that count as a sale
+ * Refunded and cancelled orders are left out of revenue
+ */
+const SALE_STATUSES: OrderStatus[] = ['paid', 'shipped'];
+
+/**
+ * Number of recently sold pieces listed on the dashboard
+ */
+const RECENTLY_SOLD_LIMIT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date window [from, to)
+ */
+interface Period {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Dashboard service - aggregates catalog, editorial and sales metrics
+ *
+ * Sales metrics are compared with the period of the same length just before
+ * the current one, so the backoffice can show trends.
+ */
+@Injectable()
+export class DashboardService {
+  constructor(
+    private readonly productsService: ProductsService,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    @InjectRepository(BlogArticle)
+    private readonly blogArticleRepository: Repository<BlogArticle>,
+    @InjectRepository(AboutSection)
+    private readonly aboutSectionRepository: Repository<AboutSection>,
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    @InjectRepository(OrderItem)
+    private readonly orderItemRepository: Repository<OrderItem>,
+  ) {}
+
+  /**
+   * Build the dashboard overview for the last `periodDays` days
+   */
+  async getOverview(periodDays: number = 30): Promise<DashboardOverviewDto> {
+    const end = new Date();
+    const currentStart = new Date(end.getTime() - periodDays * DAY_MS);
+    const previousStart = new Date(
+      currentStart.getTime() - periodDays * DAY_MS,
+    );
+    const current: Period = { from: currentStart, to: end };
+    const previous: Period = { from: previousStart, to: currentStart };
+
+    const [
+      products,
+      stockValue,
+      blogArticles,
+      aboutSections,
+      currentSales,
+      previousSales,
+      currentPieces,
+      previousPieces,
+      currentNewProducts,
+      previousNewProducts,
+      recentlySold,
+    ] = await Promise.all([
+      this.productsService.getStatistics(),
+      this.getStockValue(),
+      this.countPublication(this.blogArticleRepository),
+      this.countPublication(this.aboutSectionRepository),
+      this.getSales(current),
+      this.getSales(previous),
+      this.getPiecesSold(current),
+      this.getPiecesSold(previous),
+      this.countNewProducts(current),
+      this.countNewProducts(previous),
+      this.getRecentlySold(),
+    ]);
+
+    return {
+      period: { days: periodDays, currentStart, previousStart, end },
+      products,
+      stockValue,
+      blogArticles,
+      aboutSections,
+      revenue: this.compare(currentSales.revenue, previousSales.revenue),
+      orders: this.compare(currentSales.count, previousSales.count),
+      piecesSold: this.compare(currentPieces, previousPieces),
+      newProducts: this.compare(currentNewProducts, previousNewProducts),
+      recentlySold,
+    };
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Sum of price × stockQuantity across the catalog
+   */
+  private async getStockValue(): Promise<number> {
+    const result = await this.productRepository
+      .createQueryBuilder('product')
+      .select(
+        'COALESCE(SUM(product.price * product.stockQuantity), 0)',
+        'value',
+      )
+      .getRawOne<{ value: string }>();
+
+    return this.toAmount(result?.value);
+  }
+
+  private async countPublication(
+    repository: Repository<BlogArticle> | Repository<AboutSection>,
+  ): Promise<PublicationCountsDto> {
+    const [published, draft] = await Promise.all([
+      repository.count({ where: { isPublished: true } }),
+      repository.count({ where: { isPublished: false } }),
+    ]);
+
+    return { published, draft };
+  }
+
+  /**
+   * Revenue and number of sale orders placed during a period
+   */
+  private async getSales(
+    period: Period,
+  ): Promise<{ revenue: number; count: number }> {
+    const result = await this.orderRepository
+      .createQueryBuilder('order')
+      .select('COUNT(order.id)', 'count')
+      .addSelect('COALESCE(SUM(order.total), 0)', 'revenue')
+      .where('order.status IN (:...statuses)', { statuses: SALE_STATUSES })
+      .andWhere('order.createdAt >= :from AND order.createdAt < :to', period)
+      .getRawOne<{ count: string; revenue: string }>();
+
+    return {
+      revenue: this.toAmount(result?.revenue),
+      count: Number(result?.count ?? 0),
+    };
+  }
+
+  /**
+   * Units sold through sale orders placed during a period
+   */
+  private async getPiecesSold(period: Period): Promise<number> {
+    const result = await this.orderItemRepository
+      .createQueryBuilder('item')
+      .innerJoin('item.order', 'order')
+      .select('COALESCE(SUM(item.quantity), 0)', 'quantity')
+      .where('order.status IN (:...statuses)', { statuses: SALE_STATUSES })
+      .andWhere('order.createdAt >= :from AND order.createdAt < :to', period)
+      .getRawOne<{ quantity: string }>();
+
+    return Number(result?.quantity ?? 0);
+  }
+
+  private async countNewProducts(period: Period): Promise<number> {
+    return await this.productRepository.count({
+      where: {
+        createdAt: And(MoreThanOrEqual(period.from), LessThan(period.to)),
+      },
+    });
+  }
+
+  /**
+   * Pieces most recently marked as sold, whether sold online or by hand
+   */
+  private async getRecentlySold(): Promise<SoldPieceDto[]> {
+    const products = await this.productRepository.find({
+      where: { status: 'sold' },
+      order: { updatedAt: 'DESC' },
+      take: RECENTLY_SOLD_LIMIT,
+      loadEagerRelations: false,
+    });
+
+    return products.map((product) => ({
+      id: product.id,
+      name: product.name,
+      slug: product.slug,
+      category: product.category,
+      price: Number(product.price),
+      soldAt: product.updatedAt,
+    }));
+  }
+
+  private compare(current: number, previous: number): PeriodMetricDto {
+    return {
+      current,
+      previous,
+      changePercent:
+        previous === 0
+          ? null
+          : Math.round(((current - previous) / previous) * 1000) / 10,
+    };
+  }
+
+  /**
+   * Decimal aggregates come back as strings; round to cents
+   */
+  private toAmount(value: string | undefined): number {
+    return Math.round(Number(value ?? 0) * 100) / 100;
+  }
+}
@@ -0,0 +1,22 @@
+import { IsOptional, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for choosing the dashboard comparison period
+ */
+export class DashboardQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Length of the reporting period in days, compared with the period just before it',
+    default: 30,
+    minimum: 1,
+    maximum: 365,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  periodDays?: number = 30;
+}
@@ -0,0 +1,133 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * A metric measured over the current period and the one before it
+ */
+export class PeriodMetricDto {
+  @ApiProperty({ description: 'Value over the current period', example: 1240 })
+  current: number;
+
+  @ApiProperty({ description: 'Value over the previous period', example: 980 })
+  previous: number;
+
+  @ApiProperty({
+    description:
+      'Change in percent from the previous period (null when the previous value is 0)',
+    example: 26.5,
+    nullable: true,
+    type: Number,
+  })
+  changePercent: number | null;
+}
+
+/**
+ * Published / draft split for editorial content
+ */
+export class PublicationCountsDto {
+  @ApiProperty({ example: 12 })
+  published: number;
+
+  @ApiProperty({ example: 3 })
+  draft: number;
+}
+
+/**
+ * A piece recently marked as sold
+ */
+export class SoldPieceDto {
+  @ApiProperty({ description: 'Product UUID' })
+  id: string;
+
+  @ApiProperty({ example: 'Tapis Nordique' })
+  name: string;
+
+  @ApiProperty({ example: 'tapis-nordique' })
+  slug: string;
+
+  @ApiProperty({ enum: ['wall-hanging', 'rug'] })
+  category: string;
+
+  @ApiProperty({ example: 249.5 })
+  price: number;
+
+  @ApiProperty({ description: 'When the piece was marked as sold' })
+  soldAt: Date;
+}
+
+/**
+ * Reporting window used for period-over-period metrics
+ */
+export class DashboardPeriodDto {
+  @ApiProperty({ example: 30 })
+  days: number;
+
+  @ApiProperty({ description: 'Start of the current period' })
+  currentStart: Date;
+
+  @ApiProperty({ description: 'Start of the previous period' })
+  previousStart: Date;
+
+  @ApiProperty({ description: 'End of the current period (now)' })
+  end: Date;
+}
+
+/**
+ * Backoffice dashboard overview
+ */
+export class DashboardOverviewDto {
+  @ApiProperty({ type: DashboardPeriodDto })
+  period: DashboardPeriodDto;
+
+  @ApiProperty({
+    description: 'Product counts (same shape as GET /products/statistics)',
+    example: {
+      total: 42,
+      byCategory: { 'wall-hanging': 20, rug: 22 },
+      byStatus: { available: 30, sold: 10, draft: 2 },
+    },
+  })
+  products: {
+    total: number;
+    byCategory: Record<string, number>;
+    byStatus: Record<string, number>;
+  };
+
+  @ApiProperty({
+    description: 'Value of the stock on hand: sum of price × stockQuantity',
+    example: 8450,
+  })
+  stockValue: number;
+
+  @ApiProperty({ type: PublicationCountsDto })
+  blogArticles: PublicationCountsDto;
+
+  @ApiProperty({ type: PublicationCountsDto })
+  aboutSections: PublicationCountsDto;
+
+  @ApiProperty({
+    type: PeriodMetricDto,
+    description: 'Revenue of paid and shipped orders placed in the period',
+  })
+  revenue: PeriodMetricDto;
+
+  @ApiProperty({
+    type: PeriodMetricDto,
+    description: 'Paid and shipped orders placed in the period',
+  })
+  orders: PeriodMetricDto;
+
+  @ApiProperty({
+    type: PeriodMetricDto,
+    description: 'Units sold through paid and shipped orders in the period',
+  })
+  piecesSold: PeriodMetricDto;
+
+  @ApiProperty({
+    type: PeriodMetricDto,
+    description: 'Products created in the period',
+  })
+  newProducts: PeriodMetricDto;
+
+  @ApiProperty({ type: [SoldPieceDto] })
+  recentlySold: SoldPieceDto[];
+}
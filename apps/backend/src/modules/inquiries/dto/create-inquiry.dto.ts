@@ -0,0 +1,79 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { InquiryType } from '../../../entities/inquiry.entity';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+/**
+ * DTO for a message sent from the storefront contact form
+ */
+export class CreateInquiryDto {
+  @ApiPropertyOptional({
+    description: 'Kind of request',
+    enum: ['contact', 'commission'],
+    default: 'contact',
+  })
+  @IsEnum(['contact', 'commission'])
+  @IsOptional()
+  type?: InquiryType;
+
+  @ApiProperty({ description: 'Sender name', example: 'Jane Doe' })
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Email address', example: 'jane@example.com' })
+  @Transform(trim)
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @ApiPropertyOptional({ description: 'Phone number', example: '+33612345678' })
+  @Transform(trim)
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  phone?: string;
+
+  @ApiProperty({
+    description: 'Message',
+    example: "J'aimerais un tapis sur mesure de 2 m x 3 m.",
+    maxLength: 5000,
+  })
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  message: string;
+
+  @ApiPropertyOptional({
+    description: 'Product the message is about',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @IsOptional()
+  productId?: string;
+
+  /**
+   * Honeypot: hidden from visitors, so only bots fill it in
+   */
+  @ApiPropertyOptional({
+    description: 'Leave empty (spam trap)',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  website?: string;
+}
@@ -0,0 +1,59 @@
+import { IsOptional, IsEnum, IsNumber, Min, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type {
+  InquiryStatus,
+  InquiryType,
+} from '../../../entities/inquiry.entity';
+
+/**
+ * DTO for querying inquiries with filters and pagination
+ */
+export class InquiryQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Filter by status; without it, the inbox lists new and read inquiries',
+    enum: ['new', 'read', 'archived'],
+  })
+  @IsEnum(['new', 'read', 'archived'])
+  @IsOptional()
+  status?: InquiryStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by kind of request',
+    enum: ['contact', 'commission'],
+  })
+  @IsEnum(['contact', 'commission'])
+  @IsOptional()
+  type?: InquiryType;
+
+  @ApiPropertyOptional({
+    description: 'Search by name, email or message (partial match)',
+    example: 'tapis',
+  })
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (starts at 1)',
+    default: 1,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    default: 20,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  limit?: number = 20;
+}
@@ -0,0 +1,41 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { InquiryStatus } from '../../../entities/inquiry.entity';
+
+/**
+ * DTO for updating an inquiry from the inbox
+ */
+export class UpdateInquiryDto {
+  @ApiPropertyOptional({
+    description: 'Inbox state',
+    enum: ['new', 'read', 'archived'],
+    example: 'archived',
+  })
+  @IsEnum(['new', 'read', 'archived'])
+  @IsOptional()
+  status?: InquiryStatus;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether the visitor was answered; true records the date and the current user',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  replied?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Internal note about the reply',
+    maxLength: 2000,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  replyNote?: string;
+}
@@ -0,0 +1,170 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { InquiriesService } from './inquiries.service';
+import { CreateInquiryDto } from './dto/create-inquiry.dto';
+import { InquiryQueryDto } from './dto/inquiry-query.dto';
+import { UpdateInquiryDto } from './dto/update-inquiry.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Inquiries controller - storefront contact form and backoffice inbox
+ */
+@ApiTags('inquiries')
+@Controller('inquiries')
+export class InquiriesController {
+  constructor(private readonly inquiriesService: InquiriesService) {}
+
+  /**
+   * Send a message from the contact form (public endpoint)
+   */
+  @Public()
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Send a contact or commission inquiry' })
+  @ApiResponse({
+    status: 202,
+    description: 'Message received',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or unknown product',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many messages from this IP or email address',
+  })
+  async submit(@Body() createDto: CreateInquiryDto, @Request() req) {
+    await this.inquiriesService.submit(createDto, { ipAddress: req.ip });
+    return { received: true };
+  }
+
+  /**
+   * Get inquiries with filters and pagination
+   */
+  @Get()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get inquiries with optional filters' })
+  @ApiResponse({
+    status: 200,
+    description: 'Inquiries retrieved successfully',
+  })
+  async findAll(@Query() query: InquiryQueryDto) {
+    return await this.inquiriesService.findAll(query);
+  }
+
+  /**
+   * Count inquiries per inbox state
+   */
+  @Get('counts')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Count inquiries per status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of new, read and archived inquiries',
+  })
+  async countByStatus() {
+    return await this.inquiriesService.countByStatus();
+  }
+
+  /**
+   * Get a single inquiry by ID
+   */
+  @Get(':id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get an inquiry by ID' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Inquiry UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Inquiry found',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Inquiry not found',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.inquiriesService.findById(id);
+  }
+
+  /**
+   * Update the inbox state or reply tracking of an inquiry
+   */
+  @Patch(':id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Mark an inquiry as read, archived or replied' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Inquiry UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Inquiry updated',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Inquiry not found',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateInquiryDto,
+    @Request() req,
+  ) {
+    return await this.inquiriesService.update(id, updateDto, req.user.username);
+  }
+
+  /**
+   * Delete an inquiry
+   */
+  @Delete(':id')
+  @Roles('admin')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an inquiry' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Inquiry UUID',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Inquiry deleted',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Inquiry not found',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string) {
+    await this.inquiriesService.remove(id);
+  }
+}
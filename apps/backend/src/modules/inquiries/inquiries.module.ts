@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InquiriesService } from './inquiries.service';
+import { InquiriesController } from './inquiries.controller';
+import { Inquiry } from '../../entities/inquiry.entity';
+import { Product } from '../../entities/product.entity';
+import { User } from '../../entities/user.entity';
+import { MailModule } from '../mail/mail.module';
+
+/**
+ * Inquiries module
+ * Encapsulates the storefront contact form and the backoffice inbox
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Inquiry, Product, User]), MailModule],
+  controllers: [InquiriesController],
+  providers: [InquiriesService],
+  exports: [InquiriesService],
+})
+export class InquiriesModule {}
@@ -0,0 +1,388 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { Not } from 'typeorm';
+import { InquiriesService } from './inquiries.service';
+import { Inquiry } from '../../entities/inquiry.entity';
+import { Product } from '../../entities/product.entity';
+import { User } from '../../entities/user.entity';
+import { MailService } from '../mail/mail.service';
+import { CreateInquiryDto } from './dto/create-inquiry.dto';
+
+/**
+ * Unit tests for InquiriesService
+ */
+describe('InquiriesService', () => {
+  let service: InquiriesService;
+
+  const mockInquiry: Inquiry = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    type: 'commission',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    phone: null,
+    message: 'Un tapis bleu de 2 m x 3 m',
+    productId: null,
+    product: null,
+    status: 'new',
+    repliedAt: null,
+    repliedBy: null,
+    replyNote: null,
+    ipAddress: '203.0.113.7',
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+    updatedAt: new Date('2026-03-01T10:00:00.000Z'),
+  };
+
+  const createDto: CreateInquiryDto = {
+    type: 'commission',
+    name: 'Jane Doe',
+    email: 'Jane@Example.com',
+    message: 'Un tapis bleu de 2 m x 3 m',
+  };
+
+  const mockQueryBuilder = {
+    leftJoinAndSelect: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockInquiryRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    count: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    find: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const config: Record<string, unknown> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InquiriesService,
+        {
+          provide: getRepositoryToken(Inquiry),
+          useValue: mockInquiryRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUserRepository,
+        },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<InquiriesService>(InquiriesService);
+
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    mockInquiryRepository.count.mockResolvedValue(0);
+    mockInquiryRepository.create.mockImplementation(
+      (data: Partial<Inquiry>) => data,
+    );
+    mockInquiryRepository.save.mockImplementation((data: Partial<Inquiry>) =>
+      Promise.resolve({ ...mockInquiry, ...data }),
+    );
+    mockUserRepository.find.mockResolvedValue([
+      { email: 'admin@example.com' },
+      { email: null },
+    ]);
+    mockMailService.send.mockResolvedValue(undefined);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('submit', () => {
+    it('should store the inquiry and notify the active admins', async () => {
+      // Act
+      await service.submit(createDto, { ipAddress: '203.0.113.7' });
+
+      // Assert
+      expect(mockInquiryRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'commission',
+          email: 'jane@example.com',
+          productId: null,
+          ipAddress: '203.0.113.7',
+        }),
+      );
+      expect(mockUserRepository.find).toHaveBeenCalledWith({
+        where: { role: 'admin', isActive: true },
+      });
+      expect(mockMailService.send).toHaveBeenCalledTimes(1);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'inquiry-received',
+        'admin@example.com',
+        expect.objectContaining({
+          name: 'Jane Doe',
+          inboxUrl: `http://localhost:3001/inquiries?id=${mockInquiry.id}`,
+        }),
+        { replyTo: 'jane@example.com' },
+      );
+    });
+
+    it('should notify the configured addresses instead of the admins', async () => {
+      // Arrange
+      config.INQUIRIES_NOTIFY_EMAIL = 'atelier@example.com, studio@example.com';
+
+      // Act
+      await service.submit(createDto);
+
+      // Assert
+      expect(mockUserRepository.find).not.toHaveBeenCalled();
+      expect(mockMailService.send).toHaveBeenCalledTimes(2);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'inquiry-received',
+        'atelier@example.com',
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'inquiry-received',
+        'studio@example.com',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should silently drop messages caught by the honeypot', async () => {
+      // Act
+      await service.submit({ ...createDto, website: 'http://spam.example' });
+
+      // Assert
+      expect(mockInquiryRepository.save).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should throttle senders past the hourly limit', async () => {
+      // Arrange
+      mockInquiryRepository.count.mockResolvedValue(5);
+
+      // Act & Assert
+      const error = await service
+        .submit(createDto, { ipAddress: '203.0.113.7' })
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      expect(mockInquiryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should link a published product', async () => {
+      // Arrange
+      const productId = '660e8400-e29b-41d4-a716-446655440000';
+      mockProductRepository.findOne.mockResolvedValue({
+        id: productId,
+        name: 'Tapis Atlas',
+      });
+
+      // Act
+      await service.submit({ ...createDto, productId });
+
+      // Assert
+      expect(mockProductRepository.findOne).toHaveBeenCalledWith({
+        where: { id: productId, status: Not('draft') },
+      });
+      expect(mockInquiryRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ productId }),
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'inquiry-received',
+        'admin@example.com',
+        expect.objectContaining({ productName: 'Tapis Atlas' }),
+        expect.anything(),
+      );
+    });
+
+    it('should reject an unknown or draft product', async () => {
+      // Arrange
+      mockProductRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.submit({
+          ...createDto,
+          productId: '660e8400-e29b-41d4-a716-446655440000',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockInquiryRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep the inquiry when the notification fails', async () => {
+      // Arrange
+      mockMailService.send.mockRejectedValue(new Error('Connection refused'));
+
+      // Act & Assert
+      await expect(service.submit(createDto)).resolves.toBeUndefined();
+      expect(mockInquiryRepository.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should leave archived inquiries out of the inbox', async () => {
+      // Arrange
+      mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockInquiry], 1]);
+
+      // Act
+      const result = await service.findAll({ page: 1, limit: 20 });
+
+      // Assert
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'inquiry.status != :archived',
+        { archived: 'archived' },
+      );
+      expect(result).toEqual({
+        data: [mockInquiry],
+        total: 1,
+        page: 1,
+        limit: 20,
+        totalPages: 1,
+      });
+    });
+
+    it('should filter by status when given', async () => {
+      // Arrange
+      mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+
+      // Act
+      await service.findAll({ status: 'archived' });
+
+      // Assert
+      expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+        'inquiry.status = :status',
+        { status: 'archived' },
+      );
+    });
+  });
+
+  describe('countByStatus', () => {
+    it('should count every state, missing ones as zero', async () => {
+      // Arrange
+      mockQueryBuilder.getRawMany.mockResolvedValue([
+        { status: 'new', count: '3' },
+        { status: 'archived', count: '12' },
+      ]);
+
+      // Act
+      const counts = await service.countByStatus();
+
+      // Assert
+      expect(counts).toEqual({ new: 3, read: 0, archived: 12 });
+    });
+  });
+
+  describe('update', () => {
+    it('should record who replied and mark a new inquiry as read', async () => {
+      // Arrange
+      mockInquiryRepository.findOne.mockResolvedValue({ ...mockInquiry });
+
+      // Act
+      const result = await service.update(
+        mockInquiry.id,
+        { replied: true, replyNote: ' Devis envoyé ' },
+        'admin',
+      );
+
+      // Assert
+      expect(result.status).toBe('read');
+      expect(result.repliedAt).toBeInstanceOf(Date);
+      expect(result.repliedBy).toBe('admin');
+      expect(result.replyNote).toBe('Devis envoyé');
+    });
+
+    it('should keep the first reply date when marked as replied again', async () => {
+      // Arrange
+      const repliedAt = new Date('2026-03-02T09:00:00.000Z');
+      mockInquiryRepository.findOne.mockResolvedValue({
+        ...mockInquiry,
+        status: 'read',
+        repliedAt,
+        repliedBy: 'editor',
+      });
+
+      // Act
+      const result = await service.update(
+        mockInquiry.id,
+        { replied: true },
+        'admin',
+      );
+
+      // Assert
+      expect(result.repliedAt).toBe(repliedAt);
+      expect(result.repliedBy).toBe('editor');
+    });
+
+    it('should clear the reply tracking', async () => {
+      // Arrange
+      mockInquiryRepository.findOne.mockResolvedValue({
+        ...mockInquiry,
+        status: 'archived',
+        repliedAt: new Date(),
+        repliedBy: 'admin',
+      });
+
+      // Act
+      const result = await service.update(
+        mockInquiry.id,
+        { replied: false },
+        'admin',
+      );
+
+      // Assert
+      expect(result.repliedAt).toBeNull();
+      expect(result.repliedBy).toBeNull();
+      expect(result.status).toBe('archived');
+    });
+
+    it('should throw NotFoundException for a missing inquiry', async () => {
+      // Arrange
+      mockInquiryRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.update(mockInquiry.id, { status: 'read' }, 'admin'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
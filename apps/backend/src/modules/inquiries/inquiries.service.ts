@@ -0,0 +1,332 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Brackets, Not, Repository } from 'typeorm';
+import { Inquiry, InquiryStatus } from '../../entities/inquiry.entity';
+import { Product } from '../../entities/product.entity';
+import { User } from '../../entities/user.entity';
+import { MailService } from '../mail/mail.service';
+import { CreateInquiryDto } from './dto/create-inquiry.dto';
+import { InquiryQueryDto } from './dto/inquiry-query.dto';
+import { UpdateInquiryDto } from './dto/update-inquiry.dto';
+import {
+  assertWithinRateLimit,
+  isCaughtByHoneypot,
+} from '../../common/utils/public-form.util';
+import { getBackofficeUrl } from '../../common/utils/app-config.util';
+
+/**
+ * Where a message comes from
+ */
+export interface InquiryContext {
+  ipAddress?: string;
+}
+
+/**
+ * Number of inquiries in each inbox state
+ */
+export type InquiryCounts = Record<InquiryStatus, number>;
+
+/**
+ * Inquiries service
+ *
+ * Stores messages from the storefront contact form and notifies the atelier
+ * by email (INQUIRIES_NOTIFY_EMAIL, or every active admin with an address).
+ * Spam is kept out by a honeypot field, silently dropped, and a rate limit
+ * of INQUIRIES_MAX_PER_HOUR messages per IP address and per email address,
+ * counted from the stored inquiries so it holds across restarts.
+ */
+@Injectable()
+export class InquiriesService {
+  private readonly logger = new Logger(InquiriesService.name);
+
+  constructor(
+    @InjectRepository(Inquiry)
+    private readonly inquiryRepository: Repository<Inquiry>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ──────────────────────────────────────────────
+  // Storefront
+  // ──────────────────────────────────────────────
+
+  /**
+   * Record a message from the contact form and notify the atelier
+   * @throws HttpException 429 when the sender sent too many messages
+   * @throws BadRequestException if the product does not exist or is a draft
+   */
+  async submit(
+    createDto: CreateInquiryDto,
+    context: InquiryContext = {},
+  ): Promise<void> {
+    if (
+      isCaughtByHoneypot(
+        createDto.website,
+        this.logger,
+        'inquiry',
+        context.ipAddress,
+      )
+    ) {
+      return;
+    }
+
+    const email = createDto.email.toLowerCase();
+    await assertWithinRateLimit({
+      max: this.configService.get<number>('INQUIRIES_MAX_PER_HOUR', 5),
+      count: (since) =>
+        this.inquiryRepository.count({
+          where: [
+            { email, createdAt: since },
+            ...(context.ipAddress
+              ? [{ ipAddress: context.ipAddress, createdAt: since }]
+              : []),
+          ],
+        }),
+      message: 'Too many messages sent, try again later',
+      logger: this.logger,
+      description: `inquiry from ${email} (${context.ipAddress ?? 'unknown IP'})`,
+    });
+
+    let product: Product | null = null;
+    if (createDto.productId) {
+      product = await this.productRepository.findOne({
+        where: { id: createDto.productId, status: Not('draft') },
+      });
+      if (!product) {
+        throw new BadRequestException(
+          `Product with ID "${createDto.productId}" not found`,
+        );
+      }
+    }
+
+    const inquiry = await this.inquiryRepository.save(
+      this.inquiryRepository.create({
+        type: createDto.type ?? 'contact',
+        name: createDto.name,
+        email,
+        phone: createDto.phone || null,
+        message: createDto.message,
+        productId: product?.id ?? null,
+        ipAddress: context.ipAddress?.slice(0, 45) ?? null,
+      }),
+    );
+
+    this.logger.log(`Inquiry ${inquiry.id} received (${inquiry.type})`);
+    await this.notify(inquiry, product);
+  }
+
+  // ──────────────────────────────────────────────
+  // Inbox
+  // ──────────────────────────────────────────────
+
+  /**
+   * Find inquiries with filters and pagination, newest first
+   * Without a status filter, archived inquiries are left out
+   */
+  async findAll(query: InquiryQueryDto): Promise<{
+    data: Inquiry[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { status, type, search, page = 1, limit = 20 } = query;
+
+    const queryBuilder = this.inquiryRepository
+      .createQueryBuilder('inquiry')
+      .leftJoinAndSelect('inquiry.product', 'product');
+
+    if (status) {
+      queryBuilder.andWhere('inquiry.status = :status', { status });
+    } else {
+      queryBuilder.andWhere('inquiry.status != :archived', {
+        archived: 'archived',
+      });
+    }
+
+    if (type) {
+      queryBuilder.andWhere('inquiry.type = :type', { type });
+    }
+
+    if (search) {
+      queryBuilder.andWhere(
+        new Brackets((where) =>
+          where
+            .where('inquiry.name ILIKE :search')
+            .orWhere('inquiry.email ILIKE :search')
+            .orWhere('inquiry.message ILIKE :search'),
+        ),
+        { search: `%${search}%` },
+      );
+    }
+
+    queryBuilder
+      .orderBy('inquiry.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Number of inquiries in each inbox state
+   */
+  async countByStatus(): Promise<InquiryCounts> {
+    const rows = await this.inquiryRepository
+      .createQueryBuilder('inquiry')
+      .select('inquiry.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('inquiry.status')
+      .getRawMany<{ status: InquiryStatus; count: string }>();
+
+    const counts: InquiryCounts = { new: 0, read: 0, archived: 0 };
+    for (const row of rows) {
+      counts[row.status] = Number(row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Find an inquiry by ID, with its product
+   */
+  async findById(id: string): Promise<Inquiry> {
+    const inquiry = await this.inquiryRepository.findOne({
+      where: { id },
+      relations: { product: true },
+    });
+
+    if (!inquiry) {
+      throw new NotFoundException(`Inquiry with ID ${id} not found`);
+    }
+
+    return inquiry;
+  }
+
+  /**
+   * Change the inbox state or the reply tracking of an inquiry
+   * Marking a new inquiry as replied also marks it as read
+   * @param username - Account recorded as having replied
+   */
+  async update(
+    id: string,
+    updateDto: UpdateInquiryDto,
+    username: string,
+  ): Promise<Inquiry> {
+    const inquiry = await this.findById(id);
+
+    if (updateDto.status) {
+      inquiry.status = updateDto.status;
+    }
+
+    if (updateDto.replied === true && !inquiry.repliedAt) {
+      inquiry.repliedAt = new Date();
+      inquiry.repliedBy = username;
+      if (inquiry.status === 'new') {
+        inquiry.status = 'read';
+      }
+    } else if (updateDto.replied === false) {
+      inquiry.repliedAt = null;
+      inquiry.repliedBy = null;
+    }
+
+    if (updateDto.replyNote !== undefined) {
+      inquiry.replyNote = updateDto.replyNote.trim() || null;
+    }
+
+    return await this.inquiryRepository.save(inquiry);
+  }
+
+  /**
+   * Delete an inquiry
+   */
+  async remove(id: string): Promise<void> {
+    const inquiry = await this.findById(id);
+    await this.inquiryRepository.remove(inquiry);
+    this.logger.log(`Inquiry ${id} deleted`);
+  }
+
+  /**
+   * Addresses the atelier is notified at: INQUIRIES_NOTIFY_EMAIL
+   * (comma-separated), or every active admin with an email address
+   * Also used for commission requests
+   */
+  async getNotificationRecipients(): Promise<string[]> {
+    const configured = this.configService
+      .get<string>('INQUIRIES_NOTIFY_EMAIL', '')
+      .split(',')
+      .map((address) => address.trim())
+      .filter(Boolean);
+
+    if (configured.length > 0) {
+      return configured;
+    }
+
+    const admins = await this.userRepository.find({
+      where: { role: 'admin', isActive: true },
+    });
+    return admins.map((admin) => admin.email).filter(Boolean);
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Email the atelier; a mail failure never loses the stored inquiry
+   */
+  private async notify(
+    inquiry: Inquiry,
+    product: Product | null,
+  ): Promise<void> {
+    const recipients = await this.getNotificationRecipients();
+    if (recipients.length === 0) {
+      this.logger.warn(
+        `No recipient for the notification of inquiry ${inquiry.id}`,
+      );
+      return;
+    }
+
+    const backofficeUrl = getBackofficeUrl(this.configService);
+
+    for (const recipient of recipients) {
+      try {
+        await this.mailService.send(
+          'inquiry-received',
+          recipient,
+          {
+            type: inquiry.type,
+            name: inquiry.name,
+            email: inquiry.email,
+            phone: inquiry.phone,
+            message: inquiry.message,
+            productName: product?.name,
+            inboxUrl: `${backofficeUrl}/inquiries?id=${inquiry.id}`,
+          },
+          { replyTo: inquiry.email },
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to send the notification of inquiry ${inquiry.id} to ${recipient}: ${error.message}`,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+import type {
+  MailTransport,
+  MailTransportName,
+} from './transports/mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+
+/**
+ * Mail transport selected with MAIL_TRANSPORT
+ */
+function createMailTransport(configService: ConfigService): MailTransport {
+  const transport = configService.get<MailTransportName>(
+    'MAIL_TRANSPORT',
+    'console',
+  );
+
+  if (transport === 'smtp') {
+    return new SmtpMailTransport({
+      host: configService.get<string>('SMTP_HOST'),
+      port: configService.get<number>('SMTP_PORT', 587),
+      secure: configService.get<boolean>('SMTP_SECURE', false),
+      user: configService.get<string>('SMTP_USER') || undefined,
+      password: configService.get<string>('SMTP_PASSWORD') || undefined,
+    });
+  }
+
+  if (transport === 'file') {
+    return new FileMailTransport(
+      configService.get<string>('MAIL_OUTPUT_DIR', './mail'),
+    );
+  }
+
+  return new ConsoleMailTransport();
+}
+
+/**
+ * Mail module
+ * Provides the configured mail transport and templated emails
+ */
+@Module({
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: createMailTransport,
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
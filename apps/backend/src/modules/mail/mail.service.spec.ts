@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+import type { MailMessage } from './transports/mail-transport.interface';
+
+describe('MailService', () => {
+  let service: MailService;
+
+  const mockTransport = {
+    name: 'console',
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: MAIL_TRANSPORT, useValue: mockTransport },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+
+    jest.clearAllMocks();
+    mockTransport.send.mockResolvedValue(undefined);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('send', () => {
+    it('should render the template and hand it to the transport', async () => {
+      // Act
+      await service.send('password-reset', 'admin@example.com', {
+        username: 'admin',
+        resetUrl: 'http://localhost:3001/reset-password?token=abc',
+        expiresInMinutes: 60,
+      });
+
+      // Assert
+      const message: MailMessage = mockTransport.send.mock.calls[0][0];
+      expect(message.from).toBe('Atelier Kaisla <no-reply@atelier-kaisla.com>');
+      expect(message.to).toBe('admin@example.com');
+      expect(message.subject).toBe('Réinitialisation de votre mot de passe');
+      expect(message.text).toContain(
+        'http://localhost:3001/reset-password?token=abc',
+      );
+      expect(message.text).toContain('60 minutes');
+      expect(message.html).toContain(
+        'href="http://localhost:3001/reset-password?token=abc"',
+      );
+    });
+
+    it('should escape context values in the HTML version', async () => {
+      // Act
+      await service.send('password-reset', 'admin@example.com', {
+        username: '<script>alert(1)</script>',
+        resetUrl: 'http://localhost:3001/reset-password?token=a&b',
+        expiresInMinutes: 60,
+      });
+
+      // Assert
+      const message: MailMessage = mockTransport.send.mock.calls[0][0];
+      expect(message.html).not.toContain('<script>');
+      expect(message.html).toContain('&lt;script&gt;');
+      expect(message.html).toContain('token=a&amp;b');
+    });
+
+    it('should pass the Reply-To address to the transport', async () => {
+      // Act
+      await service.send(
+        'inquiry-received',
+        'atelier@example.com',
+        {
+          type: 'commission',
+          name: 'Jane Doe',
+          email: 'jane@example.com',
+          message: 'Un tapis bleu de 2 m',
+          productName: 'Tapis Atlas',
+          inboxUrl: 'http://localhost:3001/inquiries',
+        },
+        { replyTo: 'jane@example.com' },
+      );
+
+      // Assert
+      const message: MailMessage = mockTransport.send.mock.calls[0][0];
+      expect(message.replyTo).toBe('jane@example.com');
+      expect(message.subject).toBe('Demande de pièce sur mesure de Jane Doe');
+      expect(message.text).toContain('Pièce : Tapis Atlas');
+      expect(message.text).not.toContain('Téléphone');
+    });
+
+    it('should pass extra headers to the transport', async () => {
+      // Act
+      await service.send(
+        'newsletter-campaign',
+        'jane@example.com',
+        {
+          title: "Le lin, fibre d'été",
+          summary: 'Pourquoi nous tissons le lin.',
+          articleUrl: 'http://localhost:3002/blog/le-lin',
+          unsubscribeUrl:
+            'http://localhost:3002/newsletter/unsubscribe?token=abc',
+        },
+        {
+          headers: {
+            'List-Unsubscribe':
+              '<http://localhost:3002/newsletter/unsubscribe?token=abc>',
+          },
+        },
+      );
+
+      // Assert
+      const message: MailMessage = mockTransport.send.mock.calls[0][0];
+      expect(message.headers).toEqual({
+        'List-Unsubscribe':
+          '<http://localhost:3002/newsletter/unsubscribe?token=abc>',
+      });
+      expect(message.subject).toBe("Le lin, fibre d'été");
+      expect(message.text).toContain(
+        'Se désinscrire : http://localhost:3002/newsletter/unsubscribe?token=abc',
+      );
+    });
+
+    it('should let transport errors through', async () => {
+      // Arrange
+      mockTransport.send.mockRejectedValue(new Error('Connection refused'));
+
+      // Act & Assert
+      await expect(
+        service.send('password-reset', 'admin@example.com', {
+          username: 'admin',
+          resetUrl: 'http://localhost:3001/reset-password?token=abc',
+          expiresInMinutes: 60,
+        }),
+      ).rejects.toThrow('Connection refused');
+    });
+  });
+});
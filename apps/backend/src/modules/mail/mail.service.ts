@@ -0,0 +1,58 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+import type { MailTransport } from './transports/mail-transport.interface';
+import {
+  MAIL_TEMPLATES,
+  MailTemplateContext,
+  MailTemplateName,
+} from './templates/mail-templates';
+
+/**
+ * Mail service
+ * Renders a template and hands it over to the configured transport
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send a templated email
+   * @param options.replyTo - Address answers go to, e.g. a visitor's
+   * @param options.headers - Extra headers, e.g. List-Unsubscribe
+   * @throws Error when the transport fails; callers decide whether it matters
+   */
+  async send<T extends MailTemplateName>(
+    template: T,
+    to: string,
+    context: MailTemplateContext<T>,
+    options: { replyTo?: string; headers?: Record<string, string> } = {},
+  ): Promise<void> {
+    const render = MAIL_TEMPLATES[template] as (
+      context: MailTemplateContext<T>,
+    ) => ReturnType<(typeof MAIL_TEMPLATES)[T]>;
+    const { subject, html, text } = render(context);
+
+    await this.transport.send({
+      from: this.configService.get<string>(
+        'MAIL_FROM',
+        'Atelier Kaisla <no-reply@atelier-kaisla.com>',
+      ),
+      to,
+      ...(options.replyTo ? { replyTo: options.replyTo } : {}),
+      ...(options.headers ? { headers: options.headers } : {}),
+      subject,
+      html,
+      text,
+    });
+
+    this.logger.log(
+      `Sent "${template}" email to ${to} via ${this.transport.name}`,
+    );
+  }
+}
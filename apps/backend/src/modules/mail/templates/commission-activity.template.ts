@@ -0,0 +1,88 @@
+import type { RenderedMail } from './mail-templates';
+import { escapeHtml, renderButton, renderLayout } from './layout';
+
+export interface CommissionActivityMailContext {
+  /**
+   * What the customer did
+   */
+  event: 'requested' | 'accepted' | 'declined';
+  reference: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone?: string | null;
+  category: 'wall-hanging' | 'rug';
+  dimensions: { width: number; height: number; unit: 'cm' | 'inch' };
+  colorPalette: string[];
+  budget?: number | null;
+  quotePrice?: number | null;
+  description: string;
+  commissionUrl: string;
+}
+
+const CATEGORY_LABELS: Record<
+  CommissionActivityMailContext['category'],
+  string
+> = {
+  'wall-hanging': 'Suspension murale',
+  rug: 'Tapis',
+};
+
+const formatPrice = (value: number): string =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(
+    Number(value),
+  );
+
+/**
+ * Customer action on a commission (new request, answer to a quote), sent to
+ * the atelier. Replying to the email answers the customer (Reply-To)
+ */
+export function renderCommissionActivityMail(
+  context: CommissionActivityMailContext,
+): RenderedMail {
+  const subjects: Record<CommissionActivityMailContext['event'], string> = {
+    requested: `Nouvelle demande sur mesure ${context.reference} de ${context.customerName}`,
+    accepted: `Devis ${context.reference} accepté par ${context.customerName}`,
+    declined: `Devis ${context.reference} refusé par ${context.customerName}`,
+  };
+  const subject = subjects[context.event];
+
+  const { width, height, unit } = context.dimensions;
+  const details = [
+    ['Client', context.customerName],
+    ['Email', context.customerEmail],
+    ['Téléphone', context.customerPhone],
+    ['Pièce', CATEGORY_LABELS[context.category]],
+    ['Dimensions', `${width} × ${height} ${unit}`],
+    ['Couleurs', context.colorPalette.join(', ')],
+    ['Budget', context.budget != null ? formatPrice(context.budget) : null],
+    [
+      'Devis',
+      context.quotePrice != null ? formatPrice(context.quotePrice) : null,
+    ],
+  ].filter((detail): detail is [string, string] => !!detail[1]);
+
+  const html = renderLayout(
+    subject,
+    `<p>${escapeHtml(subject)}.</p>
+<table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 0 16px">
+${details
+  .map(
+    ([label, value]) =>
+      `  <tr><td style="padding:2px 16px 2px 0;color:#64748b">${label}</td><td style="padding:2px 0">${escapeHtml(value)}</td></tr>`,
+  )
+  .join('\n')}
+</table>
+<p style="white-space:pre-line;padding:16px;border-radius:6px;background:#f1f5f9">${escapeHtml(context.description)}</p>
+${renderButton('Ouvrir la demande', context.commissionUrl)}`,
+  );
+
+  const text = `${subject}.
+
+${details.map(([label, value]) => `${label} : ${value}`).join('\n')}
+
+${context.description}
+
+Ouvrir la demande : ${context.commissionUrl}`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,131 @@
+import type { RenderedMail } from './mail-templates';
+import { escapeHtml, renderButton, renderLayout } from './layout';
+
+export interface CommissionUpdateMailContext {
+  status:
+    | 'requested'
+    | 'quoted'
+    | 'accepted'
+    | 'in_progress'
+    | 'delivered'
+    | 'cancelled';
+  customerName: string;
+  reference: string;
+  quotePrice?: number | null;
+  quoteMessage?: string | null;
+  /**
+   * YYYY-MM-DD
+   */
+  estimatedDeliveryDate?: string | null;
+  statusUrl: string;
+}
+
+/**
+ * Subject and opening paragraph for each stage
+ */
+const STAGES: Record<
+  CommissionUpdateMailContext['status'],
+  { subject: (reference: string) => string; intro: string }
+> = {
+  requested: {
+    subject: (reference) => `Votre demande de pièce sur mesure ${reference}`,
+    intro:
+      "Merci pour votre demande ! Nous l'étudions et revenons vers vous avec un devis.",
+  },
+  quoted: {
+    subject: (reference) => `Votre devis ${reference}`,
+    intro:
+      "Voici notre proposition pour votre pièce sur mesure. Vous pouvez l'accepter ou la refuser depuis votre page de suivi.",
+  },
+  accepted: {
+    subject: (reference) => `Commande sur mesure ${reference} confirmée`,
+    intro: 'Votre commande est confirmée : merci pour votre confiance !',
+  },
+  in_progress: {
+    subject: (reference) => `Votre pièce ${reference} est sur le métier`,
+    intro: 'Le tissage de votre pièce a commencé.',
+  },
+  delivered: {
+    subject: (reference) => `Votre pièce ${reference} est livrée`,
+    intro:
+      "Votre pièce vous a été remise. Nous espérons qu'elle vous plaira longtemps !",
+  },
+  cancelled: {
+    subject: (reference) => `Demande ${reference} annulée`,
+    intro:
+      "Votre demande de pièce sur mesure a été annulée. N'hésitez pas à nous écrire pour toute question.",
+  },
+};
+
+const formatPrice = (value: number): string =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(
+    Number(value),
+  );
+
+const formatDate = (value: string): string =>
+  new Date(`${value}T00:00:00Z`).toLocaleDateString('fr-FR', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * Progress of a commission, sent to the customer at each stage with the link
+ * to their status page
+ */
+export function renderCommissionUpdateMail(
+  context: CommissionUpdateMailContext,
+): RenderedMail {
+  const stage = STAGES[context.status];
+  const subject = stage.subject(context.reference);
+
+  const quote =
+    context.status === 'quoted' && context.quotePrice != null
+      ? [
+          ['Prix', formatPrice(context.quotePrice)],
+          [
+            'Livraison estimée',
+            context.estimatedDeliveryDate
+              ? formatDate(context.estimatedDeliveryDate)
+              : null,
+          ],
+        ].filter((detail): detail is [string, string] => !!detail[1])
+      : [];
+  const quoteMessage =
+    context.status === 'quoted' ? context.quoteMessage : null;
+
+  const html = renderLayout(
+    subject,
+    `<p>Bonjour ${escapeHtml(context.customerName)},</p>
+<p>${escapeHtml(stage.intro)}</p>
+${
+  quote.length > 0
+    ? `<table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 0 16px">
+${quote
+  .map(
+    ([label, value]) =>
+      `  <tr><td style="padding:2px 16px 2px 0;color:#64748b">${label}</td><td style="padding:2px 0;font-weight:600">${escapeHtml(value)}</td></tr>`,
+  )
+  .join('\n')}
+</table>`
+    : ''
+}${
+      quoteMessage
+        ? `<p style="white-space:pre-line;padding:16px;border-radius:6px;background:#f1f5f9">${escapeHtml(quoteMessage)}</p>`
+        : ''
+    }
+${renderButton(context.status === 'quoted' ? 'Voir le devis' : 'Suivre ma commande', context.statusUrl)}
+<p style="color:#64748b">Référence : ${escapeHtml(context.reference)}. Gardez cet email : le lien ci-dessus vous permet de suivre votre commande à tout moment.</p>`,
+  );
+
+  const text = `Bonjour ${context.customerName},
+
+${stage.intro}
+${quote.length > 0 ? `\n${quote.map(([label, value]) => `${label} : ${value}`).join('\n')}\n` : ''}${quoteMessage ? `\n${quoteMessage}\n` : ''}
+Suivre votre commande : ${context.statusUrl}
+
+Référence : ${context.reference}. Gardez cet email : le lien ci-dessus vous permet de suivre votre commande à tout moment.`;
+
+  return { subject, html, text };
+}
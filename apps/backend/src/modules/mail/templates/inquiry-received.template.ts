@@ -0,0 +1,59 @@
+import type { RenderedMail } from './mail-templates';
+import { escapeHtml, renderButton, renderLayout } from './layout';
+
+export interface InquiryReceivedMailContext {
+  type: 'contact' | 'commission';
+  name: string;
+  email: string;
+  phone?: string | null;
+  message: string;
+  productName?: string | null;
+  inboxUrl: string;
+}
+
+/**
+ * New message from the storefront contact form, sent to the atelier
+ * Replying to the email answers the visitor (Reply-To)
+ */
+export function renderInquiryReceivedMail(
+  context: InquiryReceivedMailContext,
+): RenderedMail {
+  const kind =
+    context.type === 'commission' ? 'Demande de pièce sur mesure' : 'Message';
+  const subject = `${kind} de ${context.name}`;
+
+  const details = [
+    ['Nom', context.name],
+    ['Email', context.email],
+    ['Téléphone', context.phone],
+    ['Pièce', context.productName],
+  ].filter((detail): detail is [string, string] => !!detail[1]);
+
+  const html = renderLayout(
+    subject,
+    `<p>${escapeHtml(kind)} reçu depuis le site :</p>
+<table role="presentation" cellpadding="0" cellspacing="0" style="margin:0 0 16px">
+${details
+  .map(
+    ([label, value]) =>
+      `  <tr><td style="padding:2px 16px 2px 0;color:#64748b">${label}</td><td style="padding:2px 0">${escapeHtml(value)}</td></tr>`,
+  )
+  .join('\n')}
+</table>
+<p style="white-space:pre-line;padding:16px;border-radius:6px;background:#f1f5f9">${escapeHtml(context.message)}</p>
+${renderButton('Ouvrir la boîte de réception', context.inboxUrl)}
+<p style="color:#64748b">Répondez directement à cet email pour écrire à ${escapeHtml(context.name)}, puis marquez la demande comme répondue dans le backoffice.</p>`,
+  );
+
+  const text = `${kind} reçu depuis le site :
+
+${details.map(([label, value]) => `${label} : ${value}`).join('\n')}
+
+${context.message}
+
+Boîte de réception : ${context.inboxUrl}
+
+Répondez directement à cet email pour écrire à ${context.name}, puis marquez la demande comme répondue dans le backoffice.`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,55 @@
+/**
+ * Shared HTML frame of every email
+ * Inline styles only: most mail clients ignore style sheets
+ */
+
+/**
+ * Escape a value interpolated into HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Call-to-action button
+ */
+export function renderButton(label: string, url: string): string {
+  return `<p style="margin:32px 0;text-align:center">
+  <a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 24px;border-radius:6px;background:#0f172a;color:#ffffff;text-decoration:none;font-weight:600">${escapeHtml(label)}</a>
+</p>`;
+}
+
+/**
+ * Wrap an email body (already escaped HTML) in the Atelier Kaisla frame
+ */
+export function renderLayout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f8fafc;font-family:Helvetica,Arial,sans-serif;color:#0f172a">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:32px 16px">
+    <tr>
+      <td align="center">
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:8px;padding:32px">
+          <tr>
+            <td style="font-size:14px;line-height:1.6">
+              <p style="margin:0 0 24px;font-size:18px;font-weight:700">Atelier Kaisla</p>
+              ${body}
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
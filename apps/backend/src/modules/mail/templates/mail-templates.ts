@@ -0,0 +1,39 @@
+import { renderPasswordResetMail } from './password-reset.template';
+import { renderInquiryReceivedMail } from './inquiry-received.template';
+import { renderCommissionUpdateMail } from './commission-update.template';
+import { renderCommissionActivityMail } from './commission-activity.template';
+import { renderNewsletterConfirmationMail } from './newsletter-confirmation.template';
+import { renderNewsletterCampaignMail } from './newsletter-campaign.template';
+import { renderStockAlertMail } from './stock-alert.template';
+
+/**
+ * A template rendered with its context
+ */
+export interface RenderedMail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Every email the application sends, by name
+ * Each template renders an HTML and a plain text version
+ */
+export const MAIL_TEMPLATES = {
+  'password-reset': renderPasswordResetMail,
+  'inquiry-received': renderInquiryReceivedMail,
+  'commission-update': renderCommissionUpdateMail,
+  'commission-activity': renderCommissionActivityMail,
+  'newsletter-confirmation': renderNewsletterConfirmationMail,
+  'newsletter-campaign': renderNewsletterCampaignMail,
+  'stock-alert': renderStockAlertMail,
+};
+
+export type MailTemplateName = keyof typeof MAIL_TEMPLATES;
+
+/**
+ * Context expected by a template
+ */
+export type MailTemplateContext<T extends MailTemplateName> = Parameters<
+  (typeof MAIL_TEMPLATES)[T]
+>[0];
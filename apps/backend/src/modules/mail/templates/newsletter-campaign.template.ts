@@ -0,0 +1,43 @@
+import type { RenderedMail } from './mail-templates';
+import { escapeHtml, renderButton, renderLayout } from './layout';
+
+export interface NewsletterCampaignMailContext {
+  title: string;
+  summary: string;
+  articleUrl: string;
+  coverUrl?: string | null;
+  unsubscribeUrl: string;
+}
+
+/**
+ * Newsletter announcing a blog article, sent to confirmed subscribers
+ */
+export function renderNewsletterCampaignMail(
+  context: NewsletterCampaignMailContext,
+): RenderedMail {
+  const subject = context.title;
+
+  const html = renderLayout(
+    subject,
+    `${
+      context.coverUrl
+        ? `<p style="margin:0 0 24px"><img src="${escapeHtml(context.coverUrl)}" alt="" width="496" style="display:block;width:100%;height:auto;border-radius:6px"></p>\n`
+        : ''
+    }<h1 style="margin:0 0 16px;font-size:22px;line-height:1.3">${escapeHtml(context.title)}</h1>
+<p>${escapeHtml(context.summary)}</p>
+${renderButton("Lire l'article", context.articleUrl)}
+<p style="color:#64748b;font-size:12px">Vous recevez cet email car vous êtes inscrit à la newsletter de l'Atelier Kaisla. <a href="${escapeHtml(context.unsubscribeUrl)}" style="color:#64748b">Se désinscrire</a></p>`,
+  );
+
+  const text = `${context.title}
+
+${context.summary}
+
+Lire l'article : ${context.articleUrl}
+
+--
+Vous recevez cet email car vous êtes inscrit à la newsletter de l'Atelier Kaisla.
+Se désinscrire : ${context.unsubscribeUrl}`;
+
+  return { subject, html, text };
+}
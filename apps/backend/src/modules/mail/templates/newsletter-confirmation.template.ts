@@ -0,0 +1,39 @@
+import type { RenderedMail } from './mail-templates';
+import { renderButton, renderLayout } from './layout';
+
+export interface NewsletterConfirmationMailContext {
+  confirmUrl: string;
+  expiresInDays: number;
+}
+
+/**
+ * Double opt-in: link confirming a newsletter sign-up
+ */
+export function renderNewsletterConfirmationMail(
+  context: NewsletterConfirmationMailContext,
+): RenderedMail {
+  const subject = 'Confirmez votre inscription à la newsletter';
+
+  const html = renderLayout(
+    subject,
+    `<p>Bonjour,</p>
+<p>Merci de votre intérêt pour l'atelier ! Confirmez votre inscription pour recevoir nos nouveaux articles et les pièces qui sortent du métier :</p>
+${renderButton('Confirmer mon inscription', context.confirmUrl)}
+<p>Ce lien expire dans ${context.expiresInDays} jours.</p>
+<p style="color:#64748b">Si vous n'êtes pas à l'origine de cette inscription, ignorez cet email : vous ne recevrez rien de plus.</p>`,
+  );
+
+  const text = `Bonjour,
+
+Merci de votre intérêt pour l'atelier ! Confirmez votre inscription pour recevoir nos nouveaux articles et les pièces qui sortent du métier :
+
+${context.confirmUrl}
+
+Ce lien expire dans ${context.expiresInDays} jours.
+
+Si vous n'êtes pas à l'origine de cette inscription, ignorez cet email : vous ne recevrez rien de plus.
+
+Atelier Kaisla`;
+
+  return { subject, html, text };
+}
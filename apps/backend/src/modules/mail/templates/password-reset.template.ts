@@ -0,0 +1,41 @@
+import type { RenderedMail } from './mail-templates';
+import { escapeHtml, renderButton, renderLayout } from './layout';
+
+export interface PasswordResetMailContext {
+  username: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+/**
+ * Backoffice password reset link
+ */
+export function renderPasswordResetMail(
+  context: PasswordResetMailContext,
+): RenderedMail {
+  const subject = 'Réinitialisation de votre mot de passe';
+  const username = escapeHtml(context.username);
+
+  const html = renderLayout(
+    subject,
+    `<p>Bonjour ${username},</p>
+<p>Une réinitialisation du mot de passe de votre compte backoffice a été demandée. Choisissez un nouveau mot de passe avec le lien ci-dessous :</p>
+${renderButton('Choisir un nouveau mot de passe', context.resetUrl)}
+<p>Ce lien ne fonctionne qu'une fois et expire dans ${context.expiresInMinutes} minutes.</p>
+<p style="color:#64748b">Si vous n'êtes pas à l'origine de cette demande, ignorez cet email : votre mot de passe reste inchangé.</p>`,
+  );
+
+  const text = `Bonjour ${context.username},
+
+Une réinitialisation du mot de passe de votre compte backoffice a été demandée. Choisissez un nouveau mot de passe avec ce lien :
+
+${context.resetUrl}
+
+Ce lien ne fonctionne qu'une fois et expire dans ${context.expiresInMinutes} minutes.
+
+Si vous n'êtes pas à l'origine de cette demande, ignorez cet email : votre mot de passe reste inchangé.
+
+Atelier Kaisla`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,58 @@
+import type { RenderedMail } from './mail-templates';
+import { escapeHtml, renderButton, renderLayout } from './layout';
+
+export interface StockAlertMailContext {
+  productName: string;
+  productUrl: string;
+  price: number;
+  coverUrl?: string | null;
+  /**
+   * Set for a category alert, e.g. "tapis"; the product was not watched itself
+   */
+  categoryLabel?: string | null;
+}
+
+const formatPrice = (value: number): string =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency: 'EUR' }).format(
+    Number(value),
+  );
+
+/**
+ * One-time "back in stock" notification for a watched product or category
+ */
+export function renderStockAlertMail(
+  context: StockAlertMailContext,
+): RenderedMail {
+  const subject = context.categoryLabel
+    ? `Nouvelle pièce disponible : ${context.productName}`
+    : `${context.productName} est à nouveau disponible`;
+  const intro = context.categoryLabel
+    ? `Une nouvelle pièce vient de rejoindre les ${context.categoryLabel} de l'atelier : ${context.productName}.`
+    : `Bonne nouvelle : ${context.productName} est à nouveau disponible.`;
+  const reason = context.categoryLabel
+    ? `Vous recevez cet email car vous avez demandé à être prévenu des nouveaux ${context.categoryLabel} de l'Atelier Kaisla.`
+    : `Vous recevez cet email car vous avez demandé à être prévenu du retour de cette pièce.`;
+
+  const html = renderLayout(
+    subject,
+    `${
+      context.coverUrl
+        ? `<p style="margin:0 0 24px"><img src="${escapeHtml(context.coverUrl)}" alt="" width="496" style="display:block;width:100%;height:auto;border-radius:6px"></p>\n`
+        : ''
+    }<p>${escapeHtml(intro)}</p>
+<p><strong>${escapeHtml(formatPrice(context.price))}</strong></p>
+${renderButton('Voir la pièce', context.productUrl)}
+<p style="color:#64748b;font-size:12px">${escapeHtml(reason)} Cette alerte est maintenant close, vous ne recevrez pas d'autre message.</p>`,
+  );
+
+  const text = `${intro}
+
+Prix : ${formatPrice(context.price)}
+
+Voir la pièce : ${context.productUrl}
+
+--
+${reason} Cette alerte est maintenant close, vous ne recevrez pas d'autre message.`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,19 @@
+import { Logger } from '@nestjs/common';
+import type { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Console mail transport
+ * Logs the text version of every message instead of sending it
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Email to ${message.to}: ${message.subject}\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,41 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import * as nodemailer from 'nodemailer';
+import { slugify } from '../../../common/utils/slug.util';
+import type { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * File mail transport
+ * Writes every message as an .eml file, which mail clients open as is, so
+ * emails can be checked locally without an SMTP server
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly directory: string;
+  private readonly transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: 'unix',
+  });
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { message: raw } = (await this.transporter.sendMail(message)) as {
+      message: Buffer;
+    };
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${slugify(message.subject)}.eml`;
+    const filePath = join(this.directory, fileName);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(filePath, raw);
+
+    this.logger.log(`Email to ${message.to} written to ${filePath}`);
+  }
+}
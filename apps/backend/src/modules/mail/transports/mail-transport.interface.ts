@@ -0,0 +1,44 @@
+/**
+ * Injection token of the configured mail transport
+ */
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+/**
+ * Transports selectable with MAIL_TRANSPORT
+ * - smtp: real delivery
+ * - file: writes .eml files to MAIL_OUTPUT_DIR (local development)
+ * - console: logs the message (tests, quick local runs)
+ */
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+/**
+ * A rendered email, ready to send
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  /**
+   * Address answers go to, when not the sender
+   */
+  replyTo?: string;
+  /**
+   * Extra headers, e.g. List-Unsubscribe on newsletters
+   */
+  headers?: Record<string, string>;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Backend delivering emails
+ */
+export interface MailTransport {
+  readonly name: MailTransportName;
+
+  /**
+   * Deliver a message
+   * @throws Error when the message could not be handed over
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,37 @@
+import * as nodemailer from 'nodemailer';
+import type { MailMessage, MailTransport } from './mail-transport.interface';
+
+export interface SmtpMailTransportOptions {
+  host: string;
+  port: number;
+  /**
+   * TLS from the start (port 465); otherwise STARTTLS is used when offered
+   */
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * SMTP mail transport
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpMailTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
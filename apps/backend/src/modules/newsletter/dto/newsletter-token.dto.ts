@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO carrying the token of a confirmation or unsubscribe link
+ */
+export class NewsletterTokenDto {
+  @ApiProperty({ description: 'Token from the emailed link' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  token: string;
+}
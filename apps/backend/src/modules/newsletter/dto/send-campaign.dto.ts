@@ -0,0 +1,22 @@
+import { IsBoolean, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for sending a published blog article to the subscribers
+ */
+export class SendCampaignDto {
+  @ApiProperty({
+    description: 'Published blog article to send',
+    format: 'uuid',
+  })
+  @IsUUID()
+  articleId: string;
+
+  @ApiPropertyOptional({
+    description: 'Send again an article that was already sent',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  resend?: boolean;
+}
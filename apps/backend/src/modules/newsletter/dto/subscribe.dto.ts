@@ -0,0 +1,46 @@
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+/**
+ * DTO for a newsletter sign-up from the storefront
+ */
+export class SubscribeDto {
+  @ApiProperty({ description: 'Email address', example: 'jane@example.com' })
+  @Transform(trim)
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Where the visitor signed up',
+    example: 'footer',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  @Matches(/^[a-z0-9-]+$/, {
+    message: 'source must contain lowercase letters, digits and dashes only',
+  })
+  source?: string;
+
+  /**
+   * Honeypot: hidden from visitors, so only bots fill it in
+   */
+  @ApiPropertyOptional({
+    description: 'Leave empty (spam trap)',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  website?: string;
+}
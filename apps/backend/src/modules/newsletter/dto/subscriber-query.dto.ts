@@ -0,0 +1,47 @@
+import { IsOptional, IsEnum, IsNumber, Min, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { SubscriberStatus } from '../../../entities/subscriber.entity';
+
+/**
+ * DTO for querying subscribers with filters and pagination
+ */
+export class SubscriberQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: ['pending', 'confirmed', 'unsubscribed'],
+  })
+  @IsEnum(['pending', 'confirmed', 'unsubscribed'])
+  @IsOptional()
+  status?: SubscriberStatus;
+
+  @ApiPropertyOptional({
+    description: 'Search by email (partial match)',
+    example: 'example.com',
+  })
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (starts at 1)',
+    default: 1,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    default: 20,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  limit?: number = 20;
+}
@@ -0,0 +1,359 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { NewsletterCampaignService } from './newsletter-campaign.service';
+import { NewsletterService } from './newsletter.service';
+import { NewsletterCampaign } from '../../entities/newsletter-campaign.entity';
+import { NewsletterCampaignDelivery } from '../../entities/newsletter-campaign-delivery.entity';
+import { BlogService } from '../blog/blog.service';
+import { MailService } from '../mail/mail.service';
+
+/**
+ * Unit tests for NewsletterCampaignService
+ */
+describe('NewsletterCampaignService', () => {
+  let service: NewsletterCampaignService;
+
+  const article = {
+    id: '660e8400-e29b-41d4-a716-446655440000',
+    title: "Le lin, fibre d'été",
+    subtitle: null,
+    slug: 'le-lin',
+    content: '<p>Pourquoi nous   tissons <strong>le lin</strong>.</p>',
+    images: [
+      { url: 'http://localhost:4000/uploads/blog/b.webp', isCover: false },
+      { url: 'http://localhost:4000/uploads/blog/a.webp', isCover: true },
+    ],
+  };
+
+  const subscribers = [
+    { id: 'sub-1', email: 'jane@example.com' },
+    { id: 'sub-2', email: 'john@example.com' },
+  ];
+
+  const mockCampaignRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    update: jest.fn(),
+    findOne: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockDeliveryRepository = {
+    insert: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockNewsletterService = {
+    findConfirmed: jest.fn(),
+    getUnsubscribeUrl: jest.fn(),
+  };
+
+  const mockBlogService = {
+    findPublishedById: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'FRONTEND_URL' ? 'https://atelier.example' : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NewsletterCampaignService,
+        {
+          provide: getRepositoryToken(NewsletterCampaign),
+          useValue: mockCampaignRepository,
+        },
+        {
+          provide: getRepositoryToken(NewsletterCampaignDelivery),
+          useValue: mockDeliveryRepository,
+        },
+        { provide: NewsletterService, useValue: mockNewsletterService },
+        { provide: BlogService, useValue: mockBlogService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<NewsletterCampaignService>(NewsletterCampaignService);
+
+    jest.clearAllMocks();
+    mockBlogService.findPublishedById.mockResolvedValue(article);
+    mockCampaignRepository.findOne.mockResolvedValue(null);
+    mockCampaignRepository.create.mockImplementation(
+      (data: Partial<NewsletterCampaign>) => data,
+    );
+    mockCampaignRepository.save.mockImplementation(
+      (data: Partial<NewsletterCampaign>) =>
+        Promise.resolve({ id: 'campaign-1', ...data }),
+    );
+    mockNewsletterService.findConfirmed.mockResolvedValue(subscribers);
+    mockNewsletterService.getUnsubscribeUrl.mockImplementation(
+      (subscriber: { id: string }) =>
+        `https://atelier.example/newsletter/unsubscribe?token=${subscriber.id}`,
+    );
+    mockCampaignRepository.update.mockResolvedValue({ affected: 1 });
+    mockDeliveryRepository.insert.mockResolvedValue(undefined);
+    mockDeliveryRepository.find.mockResolvedValue([]);
+    mockMailService.send.mockResolvedValue(undefined);
+  });
+
+  /**
+   * Let the emails sent after the response go out
+   */
+  const flushDelivery = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('send', () => {
+    it('should record the campaign as sending before emailing every confirmed subscriber', async () => {
+      // Act
+      const campaign = await service.send({ articleId: article.id }, 'admin');
+
+      // Assert
+      expect(campaign).toEqual(
+        expect.objectContaining({
+          articleId: article.id,
+          subject: "Le lin, fibre d'été",
+          status: 'sending',
+          recipientCount: 0,
+          failedCount: 0,
+          sentBy: 'admin',
+        }),
+      );
+      expect(mockCampaignRepository.update).not.toHaveBeenCalled();
+
+      await flushDelivery();
+
+      expect(mockMailService.send).toHaveBeenCalledTimes(2);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'newsletter-campaign',
+        'jane@example.com',
+        {
+          title: "Le lin, fibre d'été",
+          summary: 'Pourquoi nous tissons le lin.',
+          articleUrl: 'https://atelier.example/blog/le-lin',
+          coverUrl: 'http://localhost:4000/uploads/blog/a.webp',
+          unsubscribeUrl:
+            'https://atelier.example/newsletter/unsubscribe?token=sub-1',
+        },
+        {
+          headers: {
+            'List-Unsubscribe':
+              '<https://atelier.example/newsletter/unsubscribe?token=sub-1>',
+          },
+        },
+      );
+      expect(mockDeliveryRepository.insert).toHaveBeenCalledTimes(2);
+      expect(mockDeliveryRepository.insert).toHaveBeenCalledWith({
+        campaignId: 'campaign-1',
+        subscriberId: 'sub-1',
+      });
+      expect(mockCampaignRepository.update).toHaveBeenCalledWith('campaign-1', {
+        status: 'sent',
+        recipientCount: 2,
+        failedCount: 0,
+      });
+    });
+
+    it('should count refused recipients and carry on', async () => {
+      // Arrange
+      mockMailService.send
+        .mockRejectedValueOnce(new Error('Mailbox unavailable'))
+        .mockResolvedValueOnce(undefined);
+
+      // Act
+      await service.send({ articleId: article.id }, 'admin');
+      await flushDelivery();
+
+      // Assert
+      expect(mockMailService.send).toHaveBeenCalledTimes(2);
+      expect(mockDeliveryRepository.insert).toHaveBeenCalledTimes(1);
+      expect(mockDeliveryRepository.insert).toHaveBeenCalledWith({
+        campaignId: 'campaign-1',
+        subscriberId: 'sub-2',
+      });
+      expect(mockCampaignRepository.update).toHaveBeenCalledWith('campaign-1', {
+        status: 'sent',
+        recipientCount: 1,
+        failedCount: 1,
+      });
+    });
+
+    it('should ask to resume an article interrupted while sending', async () => {
+      // Arrange
+      mockCampaignRepository.findOne.mockResolvedValue({
+        id: 'campaign-0',
+        status: 'interrupted',
+        createdAt: new Date('2026-03-01T10:00:00.000Z'),
+      });
+
+      // Act & Assert
+      await expect(
+        service.send({ articleId: article.id }, 'admin'),
+      ).rejects.toThrow('resume it instead');
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to send an article twice unless asked', async () => {
+      // Arrange
+      mockCampaignRepository.findOne.mockResolvedValue({
+        id: 'campaign-0',
+        status: 'sent',
+        createdAt: new Date('2026-03-01T10:00:00.000Z'),
+      });
+
+      // Act & Assert
+      await expect(
+        service.send({ articleId: article.id }, 'admin'),
+      ).rejects.toThrow(ConflictException);
+      expect(mockMailService.send).not.toHaveBeenCalled();
+
+      await service.send({ articleId: article.id, resend: true }, 'admin');
+      await flushDelivery();
+      expect(mockMailService.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse to send an article while it is being sent', async () => {
+      // Arrange
+      mockCampaignRepository.save.mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key'), { code: '23505' }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.send({ articleId: article.id, resend: true }, 'admin'),
+      ).rejects.toThrow(ConflictException);
+      await flushDelivery();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not send an unpublished article', async () => {
+      // Arrange
+      mockBlogService.findPublishedById.mockRejectedValue(
+        new NotFoundException(),
+      );
+
+      // Act & Assert
+      await expect(
+        service.send({ articleId: article.id }, 'admin'),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException without confirmed subscribers', async () => {
+      // Arrange
+      mockNewsletterService.findConfirmed.mockResolvedValue([]);
+
+      // Act & Assert
+      await expect(
+        service.send({ articleId: article.id }, 'admin'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCampaignRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should mark the campaigns left sending by a previous run as interrupted', async () => {
+      // Act
+      await service.onApplicationBootstrap();
+
+      // Assert
+      expect(mockCampaignRepository.update).toHaveBeenCalledWith(
+        { status: 'sending' },
+        { status: 'interrupted' },
+      );
+    });
+  });
+
+  describe('resume', () => {
+    const interrupted = {
+      id: 'campaign-0',
+      articleId: article.id,
+      status: 'interrupted',
+      recipientCount: 1,
+      failedCount: 0,
+    };
+
+    it('should only mail the subscribers the stuck campaign has not reached', async () => {
+      // Arrange
+      mockCampaignRepository.findOne.mockResolvedValue({ ...interrupted });
+      mockDeliveryRepository.find.mockResolvedValue([
+        { subscriberId: 'sub-1' },
+      ]);
+
+      // Act
+      const campaign = await service.resume('campaign-0');
+      await flushDelivery();
+
+      // Assert
+      expect(campaign.status).toBe('sending');
+      expect(mockCampaignRepository.update).toHaveBeenCalledWith(
+        { id: 'campaign-0', status: 'interrupted' },
+        { status: 'sending' },
+      );
+      expect(mockMailService.send).toHaveBeenCalledTimes(1);
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'newsletter-campaign',
+        'john@example.com',
+        expect.any(Object),
+        expect.any(Object),
+      );
+      expect(mockCampaignRepository.update).toHaveBeenLastCalledWith(
+        'campaign-0',
+        { status: 'sent', recipientCount: 2, failedCount: 0 },
+      );
+    });
+
+    it('should refuse to resume a campaign that is not interrupted', async () => {
+      // Arrange
+      mockCampaignRepository.findOne.mockResolvedValue({
+        ...interrupted,
+        status: 'sent',
+      });
+
+      // Act & Assert
+      await expect(service.resume('campaign-0')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should resume a campaign only once when two calls race', async () => {
+      // Arrange
+      mockCampaignRepository.findOne.mockResolvedValue({ ...interrupted });
+      mockCampaignRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+      // Act & Assert
+      await expect(service.resume('campaign-0')).rejects.toThrow(
+        ConflictException,
+      );
+      await flushDelivery();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown campaign', async () => {
+      // Arrange
+      mockCampaignRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.resume('campaign-0')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { NewsletterCampaign } from '../../entities/newsletter-campaign.entity';
+import { NewsletterCampaignDelivery } from '../../entities/newsletter-campaign-delivery.entity';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { Subscriber } from '../../entities/subscriber.entity';
+import { getFrontendUrl } from '../../common/utils/app-config.util';
+import { excerptHtml } from '../../common/utils/html-excerpt.util';
+import { BlogService } from '../blog/blog.service';
+import { MailService } from '../mail/mail.service';
+import { NewsletterService } from './newsletter.service';
+import { SendCampaignDto } from './dto/send-campaign.dto';
+
+/**
+ * Campaigns listed in the backoffice history
+ */
+const HISTORY_SIZE = 50;
+
+/**
+ * Article fields of the campaign email, shared by every recipient
+ */
+interface CampaignMailContext {
+  title: string;
+  summary: string;
+  articleUrl: string;
+  coverUrl: string | null;
+}
+
+/**
+ * Newsletter campaign service
+ *
+ * Sends a published blog article to the confirmed subscribers through the
+ * mail service, so the configured transport applies (MAIL_TRANSPORT=file
+ * writes every email to MAIL_OUTPUT_DIR for a local check). The campaign is
+ * recorded as sending before the first email, then the emails go out one by
+ * one in the background; a refused recipient is counted and does not stop the
+ * campaign, which is marked sent with its counts at the end. Each accepted
+ * email is recorded as a delivery: a campaign the API stopped sending is
+ * marked interrupted on the next start, and resuming it only mails the
+ * subscribers it has not reached.
+ */
+@Injectable()
+export class NewsletterCampaignService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(NewsletterCampaignService.name);
+
+  constructor(
+    @InjectRepository(NewsletterCampaign)
+    private readonly campaignRepository: Repository<NewsletterCampaign>,
+    @InjectRepository(NewsletterCampaignDelivery)
+    private readonly deliveryRepository: Repository<NewsletterCampaignDelivery>,
+    private readonly newsletterService: NewsletterService,
+    private readonly blogService: BlogService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Campaigns still sending belong to a previous run of the API, which
+   * stopped before finishing them
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const result = await this.campaignRepository.update(
+      { status: 'sending' },
+      { status: 'interrupted' },
+    );
+    if (result.affected) {
+      this.logger.warn(
+        `${result.affected} newsletter campaign(s) interrupted by a restart, resume them from the backoffice`,
+      );
+    }
+  }
+
+  /**
+   * Latest campaigns, newest first
+   */
+  async findAll(): Promise<NewsletterCampaign[]> {
+    return await this.campaignRepository
+      .createQueryBuilder('campaign')
+      .leftJoin('campaign.article', 'article')
+      .addSelect(['article.id', 'article.title', 'article.slug'])
+      .orderBy('campaign.createdAt', 'DESC')
+      .take(HISTORY_SIZE)
+      .getMany();
+  }
+
+  /**
+   * Record a campaign for a published article and start emailing every
+   * confirmed subscriber
+   * The campaign is returned while sending; its counts are set once done.
+   * @param sentBy - Username of whoever sends the campaign
+   * @throws NotFoundException if the article is not published
+   * @throws ConflictException if the article is being sent, or was already
+   * sent unless resent
+   * @throws BadRequestException when nobody confirmed their subscription
+   */
+  async send(
+    sendDto: SendCampaignDto,
+    sentBy: string,
+  ): Promise<NewsletterCampaign> {
+    const article = await this.blogService.findPublishedById(sendDto.articleId);
+
+    if (!sendDto.resend) {
+      const previous = await this.campaignRepository.findOne({
+        where: { articleId: article.id },
+        order: { createdAt: 'DESC' },
+      });
+      if (previous) {
+        throw new ConflictException(
+          previous.status === 'sending'
+            ? 'This article is already being sent'
+            : previous.status === 'interrupted'
+              ? 'This article was interrupted while sending, resume it instead'
+              : `This article was already sent on ${previous.createdAt.toISOString()}`,
+        );
+      }
+    }
+
+    const subscribers = await this.newsletterService.findConfirmed();
+    if (subscribers.length === 0) {
+      throw new BadRequestException('No confirmed subscriber to send to');
+    }
+
+    const context = this.toMailContext(article);
+    let campaign: NewsletterCampaign;
+
+    try {
+      campaign = await this.campaignRepository.save(
+        this.campaignRepository.create({
+          articleId: article.id,
+          subject: context.title,
+          status: 'sending',
+          recipientCount: 0,
+          failedCount: 0,
+          sentBy,
+        }),
+      );
+    } catch (error) {
+      // Unique index on the article of the campaigns still sending
+      if ((error as { code?: string }).code === '23505') {
+        throw new ConflictException('This article is already being sent');
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `Sending article ${article.id} to ${subscribers.length} subscribers by ${sentBy}`,
+    );
+    void this.deliver(campaign, subscribers, context);
+
+    return campaign;
+  }
+
+  /**
+   * Resume an interrupted campaign, mailing only the confirmed subscribers
+   * it has not reached yet
+   * The campaign is returned while sending; its counts are set once done.
+   * @throws NotFoundException if the campaign does not exist, or its article
+   * is no longer published
+   * @throws ConflictException if the campaign is not interrupted, or its
+   * article is being sent again
+   */
+  async resume(id: string): Promise<NewsletterCampaign> {
+    const campaign = await this.campaignRepository.findOne({ where: { id } });
+    if (!campaign) {
+      throw new NotFoundException(`Campaign with ID "${id}" not found`);
+    }
+    if (campaign.status !== 'interrupted' || !campaign.articleId) {
+      throw new ConflictException(
+        'Only an interrupted campaign can be resumed',
+      );
+    }
+
+    const article = await this.blogService.findPublishedById(
+      campaign.articleId,
+    );
+
+    const delivered = await this.deliveryRepository.find({
+      select: { subscriberId: true },
+      where: { campaignId: campaign.id },
+    });
+    const deliveredIds = new Set(
+      delivered.map((delivery) => delivery.subscriberId),
+    );
+    const subscribers = (await this.newsletterService.findConfirmed()).filter(
+      (subscriber) => !deliveredIds.has(subscriber.id),
+    );
+
+    try {
+      const result = await this.campaignRepository.update(
+        { id: campaign.id, status: 'interrupted' },
+        { status: 'sending' },
+      );
+      if (!result.affected) {
+        throw new ConflictException(
+          'This campaign was resumed or changed meanwhile',
+        );
+      }
+    } catch (error) {
+      // Unique index on the article of the campaigns still sending
+      if ((error as { code?: string }).code === '23505') {
+        throw new ConflictException('This article is already being sent');
+      }
+      throw error;
+    }
+    campaign.status = 'sending';
+
+    this.logger.log(
+      `Resuming campaign ${campaign.id}: ${subscribers.length} subscribers left`,
+    );
+    void this.deliver(campaign, subscribers, this.toMailContext(article));
+
+    return campaign;
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Email the article to the subscribers, recording each accepted email,
+   * then mark the campaign sent
+   * Never throws: it runs after the response and only logs its failures.
+   */
+  private async deliver(
+    campaign: NewsletterCampaign,
+    subscribers: Subscriber[],
+    context: CampaignMailContext,
+  ): Promise<void> {
+    let sentCount = 0;
+    let failedCount = 0;
+
+    for (const subscriber of subscribers) {
+      const unsubscribeUrl =
+        this.newsletterService.getUnsubscribeUrl(subscriber);
+      try {
+        await this.mailService.send(
+          'newsletter-campaign',
+          subscriber.email,
+          { ...context, unsubscribeUrl },
+          { headers: { 'List-Unsubscribe': `<${unsubscribeUrl}>` } },
+        );
+      } catch (error) {
+        failedCount++;
+        this.logger.error(
+          `Failed to send article ${campaign.articleId} to subscriber ${subscriber.id}: ${error.message}`,
+        );
+        continue;
+      }
+
+      sentCount++;
+      try {
+        await this.deliveryRepository.insert({
+          campaignId: campaign.id,
+          subscriberId: subscriber.id,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to record the delivery of campaign ${campaign.id} to subscriber ${subscriber.id}: ${error.message}`,
+        );
+      }
+    }
+
+    const recipientCount = campaign.recipientCount + sentCount;
+    try {
+      await this.campaignRepository.update(campaign.id, {
+        status: 'sent',
+        recipientCount,
+        failedCount,
+      });
+      this.logger.log(
+        `Article ${campaign.articleId} sent to ${recipientCount} subscribers (${failedCount} failed)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to mark campaign ${campaign.id} sent: ${error.message}`,
+      );
+    }
+  }
+
+  private toMailContext(article: BlogArticle): CampaignMailContext {
+    const frontendUrl = getFrontendUrl(this.configService);
+    const cover =
+      article.images?.find((image) => image.isCover) ??
+      [...(article.images ?? [])].sort((a, b) => a.sortOrder - b.sortOrder)[0];
+
+    return {
+      title: article.title,
+      summary: article.subtitle || excerptHtml(article.content),
+      articleUrl: `${frontendUrl}/blog/${encodeURIComponent(article.slug)}`,
+      coverUrl: cover?.url ?? null,
+    };
+  }
+}
@@ -0,0 +1,269 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  Query,
+  Header,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { NewsletterService } from './newsletter.service';
+import { NewsletterCampaignService } from './newsletter-campaign.service';
+import { SubscribeDto } from './dto/subscribe.dto';
+import { NewsletterTokenDto } from './dto/newsletter-token.dto';
+import { SubscriberQueryDto } from './dto/subscriber-query.dto';
+import { SendCampaignDto } from './dto/send-campaign.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Newsletter controller - storefront sign-up with double opt-in, backoffice
+ * subscriber list and campaigns
+ */
+@ApiTags('newsletter')
+@Controller('newsletter')
+export class NewsletterController {
+  constructor(
+    private readonly newsletterService: NewsletterService,
+    private readonly campaignService: NewsletterCampaignService,
+  ) {}
+
+  // ──────────────────────────────────────────────
+  // Storefront
+  // ──────────────────────────────────────────────
+
+  /**
+   * Sign up to the newsletter (public endpoint)
+   * The answer is the same for new and known addresses
+   */
+  @Public()
+  @Post('subscribe')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Sign up to the newsletter' })
+  @ApiResponse({
+    status: 202,
+    description: 'Sign-up received, confirmation link emailed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid email address',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many sign-ups from this IP address',
+  })
+  async subscribe(@Body() subscribeDto: SubscribeDto, @Request() req) {
+    await this.newsletterService.subscribe(subscribeDto, {
+      ipAddress: req.ip,
+    });
+    return { received: true };
+  }
+
+  /**
+   * Confirm a sign-up (public endpoint, emailed link)
+   */
+  @Public()
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm a newsletter sign-up' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription confirmed',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired link',
+  })
+  async confirm(@Body() tokenDto: NewsletterTokenDto, @Request() req) {
+    return await this.newsletterService.confirm(tokenDto.token, {
+      ipAddress: req.ip,
+    });
+  }
+
+  /**
+   * Unsubscribe (public endpoint, link found in every newsletter)
+   */
+  @Public()
+  @Post('unsubscribe')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unsubscribe from the newsletter' })
+  @ApiResponse({
+    status: 200,
+    description: 'Unsubscribed',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid link',
+  })
+  async unsubscribe(@Body() tokenDto: NewsletterTokenDto) {
+    await this.newsletterService.unsubscribe(tokenDto.token);
+    return { unsubscribed: true };
+  }
+
+  // ──────────────────────────────────────────────
+  // Backoffice
+  // ──────────────────────────────────────────────
+
+  /**
+   * Get subscribers with filters and pagination
+   */
+  @Get('subscribers')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get newsletter subscribers' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscribers retrieved successfully',
+  })
+  async findAll(@Query() query: SubscriberQueryDto) {
+    return await this.newsletterService.findAll(query);
+  }
+
+  /**
+   * Count subscribers per status
+   */
+  @Get('subscribers/counts')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Count newsletter subscribers per status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of pending, confirmed and unsubscribed subscribers',
+  })
+  async countByStatus() {
+    return await this.newsletterService.countByStatus();
+  }
+
+  /**
+   * Export subscribers and their consent records as CSV
+   */
+  @Get('subscribers/export')
+  @ApiBearerAuth()
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header(
+    'Content-Disposition',
+    'attachment; filename="newsletter-subscribers.csv"',
+  )
+  @ApiOperation({ summary: 'Export newsletter subscribers as CSV' })
+  @ApiProduces('text/csv')
+  @ApiResponse({
+    status: 200,
+    description: 'CSV file, one subscriber per line',
+  })
+  async exportCsv(@Query() query: SubscriberQueryDto) {
+    return await this.newsletterService.exportCsv(query.status);
+  }
+
+  /**
+   * Delete a subscriber and their consent records
+   */
+  @Delete('subscribers/:id')
+  @Roles('admin')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a newsletter subscriber' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Subscriber UUID',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Subscriber deleted',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Subscriber not found',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string) {
+    await this.newsletterService.remove(id);
+  }
+
+  /**
+   * Latest campaigns
+   */
+  @Get('campaigns')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the latest newsletter campaigns' })
+  @ApiResponse({
+    status: 200,
+    description: 'Campaigns retrieved successfully',
+  })
+  async findCampaigns() {
+    return await this.campaignService.findAll();
+  }
+
+  /**
+   * Send a published blog article to the confirmed subscribers
+   * Answers once the campaign is recorded; the emails go out afterwards.
+   */
+  @Post('campaigns')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Send a blog article to the subscribers' })
+  @ApiResponse({
+    status: 202,
+    description: 'Campaign recorded, emails being sent',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No confirmed subscriber',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Published article not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Article already sent or being sent',
+  })
+  async sendCampaign(@Body() sendDto: SendCampaignDto, @Request() req) {
+    return await this.campaignService.send(sendDto, req.user.username);
+  }
+
+  /**
+   * Resume a campaign interrupted by a restart of the API
+   * Only the subscribers the campaign has not reached are mailed.
+   */
+  @Post('campaigns/:id/resume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Resume an interrupted campaign' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Campaign UUID',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Campaign resumed, remaining emails being sent',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Campaign or published article not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Campaign not interrupted, or article being sent',
+  })
+  async resumeCampaign(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.campaignService.resume(id);
+  }
+}
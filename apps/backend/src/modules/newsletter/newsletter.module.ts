@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Subscriber } from '../../entities/subscriber.entity';
+import { NewsletterCampaign } from '../../entities/newsletter-campaign.entity';
+import { NewsletterCampaignDelivery } from '../../entities/newsletter-campaign-delivery.entity';
+import { NewsletterController } from './newsletter.controller';
+import { NewsletterService } from './newsletter.service';
+import { NewsletterCampaignService } from './newsletter-campaign.service';
+import { MailModule } from '../mail/mail.module';
+import { BlogModule } from '../blog/blog.module';
+import { deriveTokenSecret } from '../../common/utils/app-config.util';
+
+/**
+ * Newsletter module
+ * Double opt-in sign-ups and blog articles sent to the subscribers
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Subscriber,
+      NewsletterCampaign,
+      NewsletterCampaignDelivery,
+    ]),
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: deriveTokenSecret(configService, 'newsletter-tokens'),
+      }),
+    }),
+    MailModule,
+    BlogModule,
+  ],
+  controllers: [NewsletterController],
+  providers: [NewsletterService, NewsletterCampaignService],
+  exports: [NewsletterService],
+})
+export class NewsletterModule {}
@@ -0,0 +1,441 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { NewsletterService } from './newsletter.service';
+import { Subscriber } from '../../entities/subscriber.entity';
+import { MailService } from '../mail/mail.service';
+
+/**
+ * Unit tests for NewsletterService
+ */
+describe('NewsletterService', () => {
+  let service: NewsletterService;
+
+  const consentedAt = new Date('2026-03-01T10:00:00.000Z');
+
+  const mockSubscriber: Subscriber = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    email: 'jane@example.com',
+    status: 'pending',
+    source: 'footer',
+    consentedAt,
+    consentIpAddress: '203.0.113.7',
+    confirmationSentAt: consentedAt,
+    confirmedAt: null,
+    confirmedIpAddress: null,
+    unsubscribedAt: null,
+    createdAt: consentedAt,
+    updatedAt: consentedAt,
+  };
+
+  const mockQueryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    take: jest.fn().mockReturnThis(),
+    getManyAndCount: jest.fn(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockSubscriberRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    count: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const mockJwtService = {
+    sign: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const config: Record<string, unknown> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NewsletterService,
+        {
+          provide: getRepositoryToken(Subscriber),
+          useValue: mockSubscriberRepository,
+        },
+        { provide: MailService, useValue: mockMailService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<NewsletterService>(NewsletterService);
+
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+    config.FRONTEND_URL = 'https://atelier.example/';
+    mockSubscriberRepository.count.mockResolvedValue(0);
+    mockSubscriberRepository.findOne.mockResolvedValue(null);
+    mockSubscriberRepository.create.mockImplementation(
+      (data: Partial<Subscriber>) => data,
+    );
+    mockSubscriberRepository.save.mockImplementation(
+      (data: Partial<Subscriber>) =>
+        Promise.resolve({ ...mockSubscriber, ...data }),
+    );
+    mockMailService.send.mockResolvedValue(undefined);
+    mockJwtService.sign.mockReturnValue('signed-token');
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('subscribe', () => {
+    it('should record the consent and email the confirmation link', async () => {
+      // Act
+      await service.subscribe(
+        { email: 'Jane@Example.com', source: 'footer' },
+        { ipAddress: '203.0.113.7' },
+      );
+
+      // Assert
+      expect(mockSubscriberRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'jane@example.com',
+          status: 'pending',
+          source: 'footer',
+          consentedAt: expect.any(Date),
+          consentIpAddress: '203.0.113.7',
+        }),
+      );
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        expect.objectContaining({
+          typ: 'newsletter-confirm',
+          sub: mockSubscriber.id,
+        }),
+        { expiresIn: '7d' },
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'newsletter-confirmation',
+        'jane@example.com',
+        {
+          confirmUrl:
+            'https://atelier.example/newsletter/confirm?token=signed-token',
+          expiresInDays: 7,
+        },
+      );
+    });
+
+    it('should silently drop sign-ups caught by the honeypot', async () => {
+      // Act
+      await service.subscribe({
+        email: 'bot@example.com',
+        website: 'http://spam.example',
+      });
+
+      // Assert
+      expect(mockSubscriberRepository.save).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not email an address that already confirmed', async () => {
+      // Arrange
+      mockSubscriberRepository.findOne.mockResolvedValue({
+        ...mockSubscriber,
+        status: 'confirmed',
+      });
+
+      // Act
+      await service.subscribe({ email: 'jane@example.com' });
+
+      // Assert
+      expect(mockSubscriberRepository.save).not.toHaveBeenCalled();
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not send a second confirmation within minutes', async () => {
+      // Arrange
+      mockSubscriberRepository.findOne.mockResolvedValue({
+        ...mockSubscriber,
+        confirmationSentAt: new Date(),
+      });
+
+      // Act
+      await service.subscribe({ email: 'jane@example.com' });
+
+      // Assert
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should record a new consent for an unsubscribed address', async () => {
+      // Arrange
+      mockSubscriberRepository.findOne.mockResolvedValue({
+        ...mockSubscriber,
+        status: 'unsubscribed',
+        confirmedAt: consentedAt,
+        unsubscribedAt: consentedAt,
+      });
+
+      // Act
+      await service.subscribe({ email: 'jane@example.com' });
+
+      // Assert
+      expect(mockSubscriberRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: mockSubscriber.id,
+          status: 'pending',
+          confirmedAt: null,
+          unsubscribedAt: null,
+        }),
+      );
+      expect(mockMailService.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw 429 when the IP address signed up too many times', async () => {
+      // Arrange
+      config.NEWSLETTER_MAX_PER_HOUR = 3;
+      mockSubscriberRepository.count.mockResolvedValue(3);
+
+      // Act & Assert
+      const error = await service
+        .subscribe({ email: 'jane@example.com' }, { ipAddress: '203.0.113.7' })
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    });
+
+    it('should not fail when the confirmation cannot be emailed', async () => {
+      // Arrange
+      mockMailService.send.mockRejectedValue(new Error('SMTP down'));
+
+      // Act & Assert
+      await expect(
+        service.subscribe({ email: 'jane@example.com' }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('confirm', () => {
+    it('should confirm a pending sign-up and record the consent', async () => {
+      // Arrange
+      mockJwtService.verify.mockReturnValue({
+        typ: 'newsletter-confirm',
+        sub: mockSubscriber.id,
+        consent: consentedAt.getTime(),
+      });
+      mockSubscriberRepository.findOne.mockResolvedValue({
+        ...mockSubscriber,
+      });
+
+      // Act
+      const result = await service.confirm('signed-token', {
+        ipAddress: '198.51.100.4',
+      });
+
+      // Assert
+      expect(result).toEqual({
+        email: 'jane@example.com',
+        status: 'confirmed',
+      });
+      expect(mockSubscriberRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'confirmed',
+          confirmedAt: expect.any(Date),
+          confirmedIpAddress: '198.51.100.4',
+        }),
+      );
+    });
+
+    it('should reject a link from before an unsubscription', async () => {
+      // Arrange
+      mockJwtService.verify.mockReturnValue({
+        typ: 'newsletter-confirm',
+        sub: mockSubscriber.id,
+        consent: consentedAt.getTime(),
+      });
+      mockSubscriberRepository.findOne.mockResolvedValue({
+        ...mockSubscriber,
+        status: 'unsubscribed',
+      });
+
+      // Act & Assert
+      await expect(service.confirm('signed-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a link replaced by a newer sign-up', async () => {
+      // Arrange
+      mockJwtService.verify.mockReturnValue({
+        typ: 'newsletter-confirm',
+        sub: mockSubscriber.id,
+        consent: consentedAt.getTime() - 1000,
+      });
+      mockSubscriberRepository.findOne.mockResolvedValue({
+        ...mockSubscriber,
+      });
+
+      // Act & Assert
+      await expect(service.confirm('signed-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an unsubscribe token', async () => {
+      // Arrange
+      mockJwtService.verify.mockReturnValue({
+        typ: 'newsletter-unsubscribe',
+        sub: mockSubscriber.id,
+      });
+
+      // Act & Assert
+      await expect(service.confirm('signed-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockSubscriberRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired or forged token', async () => {
+      // Arrange
+      mockJwtService.verify.mockImplementation(() => {
+        throw new Error('jwt expired');
+      });
+
+      // Act & Assert
+      await expect(service.confirm('expired')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should record the withdrawal of consent', async () => {
+      // Arrange
+      mockJwtService.verify.mockReturnValue({
+        typ: 'newsletter-unsubscribe',
+        sub: mockSubscriber.id,
+      });
+      mockSubscriberRepository.findOne.mockResolvedValue({
+        ...mockSubscriber,
+        status: 'confirmed',
+      });
+
+      // Act
+      await service.unsubscribe('signed-token');
+
+      // Assert
+      expect(mockSubscriberRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'unsubscribed',
+          unsubscribedAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should accept a link of a deleted subscriber', async () => {
+      // Arrange
+      mockJwtService.verify.mockReturnValue({
+        typ: 'newsletter-unsubscribe',
+        sub: mockSubscriber.id,
+      });
+
+      // Act & Assert
+      await expect(
+        service.unsubscribe('signed-token'),
+      ).resolves.toBeUndefined();
+      expect(mockSubscriberRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('should export the consent records as CSV', async () => {
+      // Arrange
+      mockSubscriberRepository.find.mockResolvedValue([
+        {
+          ...mockSubscriber,
+          status: 'confirmed',
+          confirmedAt: new Date('2026-03-01T10:05:00.000Z'),
+        },
+        { ...mockSubscriber, email: '=cmd@example.com', source: 'a,b' },
+      ]);
+
+      // Act
+      const csv = await service.exportCsv('confirmed');
+
+      // Assert
+      expect(mockSubscriberRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'confirmed' } }),
+      );
+      expect(csv.split('\r\n')).toEqual([
+        'email,status,source,consented_at,consent_ip_address,confirmed_at,confirmed_ip_address,unsubscribed_at',
+        'jane@example.com,confirmed,footer,2026-03-01T10:00:00.000Z,203.0.113.7,2026-03-01T10:05:00.000Z,,',
+        '\'=cmd@example.com,pending,"a,b",2026-03-01T10:00:00.000Z,203.0.113.7,,,',
+        '',
+      ]);
+    });
+  });
+
+  describe('countByStatus', () => {
+    it('should count subscribers per status', async () => {
+      // Arrange
+      mockQueryBuilder.getRawMany.mockResolvedValue([
+        { status: 'confirmed', count: '12' },
+        { status: 'pending', count: '3' },
+      ]);
+
+      // Act
+      const counts = await service.countByStatus();
+
+      // Assert
+      expect(counts).toEqual({ pending: 3, confirmed: 12, unsubscribed: 0 });
+    });
+  });
+
+  describe('remove', () => {
+    it('should throw NotFoundException for an unknown subscriber', async () => {
+      // Act & Assert
+      await expect(service.remove('unknown')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getUnsubscribeUrl', () => {
+    it('should sign a non-expiring unsubscribe link', () => {
+      // Act
+      const url = service.getUnsubscribeUrl(mockSubscriber);
+
+      // Assert
+      expect(mockJwtService.sign).toHaveBeenCalledWith({
+        typ: 'newsletter-unsubscribe',
+        sub: mockSubscriber.id,
+      });
+      expect(url).toBe(
+        'https://atelier.example/newsletter/unsubscribe?token=signed-token',
+      );
+    });
+  });
+});
@@ -0,0 +1,428 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { Subscriber, SubscriberStatus } from '../../entities/subscriber.entity';
+import { MailService } from '../mail/mail.service';
+import { SubscribeDto } from './dto/subscribe.dto';
+import { SubscriberQueryDto } from './dto/subscriber-query.dto';
+import { getFrontendUrl } from '../../common/utils/app-config.util';
+import {
+  assertWithinRateLimit,
+  isCaughtByHoneypot,
+} from '../../common/utils/public-form.util';
+
+/**
+ * Days a confirmation link stays valid
+ */
+const CONFIRMATION_TTL_DAYS = 7;
+
+/**
+ * Minimum delay between two confirmation emails to the same address
+ */
+const CONFIRMATION_COOLDOWN_MS = 10 * 60 * 1000;
+
+/**
+ * `typ` claims of the emailed links
+ */
+const CONFIRM_TOKEN_TYPE = 'newsletter-confirm';
+const UNSUBSCRIBE_TOKEN_TYPE = 'newsletter-unsubscribe';
+
+interface ConfirmTokenPayload {
+  typ: typeof CONFIRM_TOKEN_TYPE;
+  sub: string;
+  /**
+   * Consent the link confirms, so a link from before an unsubscription
+   * cannot subscribe the address again
+   */
+  consent: number;
+}
+
+interface UnsubscribeTokenPayload {
+  typ: typeof UNSUBSCRIBE_TOKEN_TYPE;
+  sub: string;
+}
+
+/**
+ * CSV export columns, in order
+ */
+const CSV_COLUMNS: [
+  string,
+  (subscriber: Subscriber) => string | Date | null,
+][] = [
+  ['email', (s) => s.email],
+  ['status', (s) => s.status],
+  ['source', (s) => s.source],
+  ['consented_at', (s) => s.consentedAt],
+  ['consent_ip_address', (s) => s.consentIpAddress],
+  ['confirmed_at', (s) => s.confirmedAt],
+  ['confirmed_ip_address', (s) => s.confirmedIpAddress],
+  ['unsubscribed_at', (s) => s.unsubscribedAt],
+];
+
+/**
+ * Number of subscribers in each status
+ */
+export type SubscriberCounts = Record<SubscriberStatus, number>;
+
+/**
+ * Where a request comes from
+ */
+export interface NewsletterContext {
+  ipAddress?: string;
+}
+
+/**
+ * Newsletter service
+ *
+ * Sign-ups use double opt-in: the visitor is only sent the newsletter once
+ * they clicked the emailed confirmation link. The sign-up answer is the same
+ * whether the address is new, pending or already confirmed, so the form does
+ * not reveal who subscribed. Confirmation and unsubscribe links carry signed
+ * tokens (own key derived from JWT_SECRET); unsubscribe links never expire.
+ */
+@Injectable()
+export class NewsletterService {
+  private readonly logger = new Logger(NewsletterService.name);
+
+  constructor(
+    @InjectRepository(Subscriber)
+    private readonly subscriberRepository: Repository<Subscriber>,
+    private readonly mailService: MailService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ──────────────────────────────────────────────
+  // Storefront
+  // ──────────────────────────────────────────────
+
+  /**
+   * Record a sign-up and email the confirmation link
+   * @throws HttpException 429 when the IP address signed up too many times
+   */
+  async subscribe(
+    subscribeDto: SubscribeDto,
+    context: NewsletterContext = {},
+  ): Promise<void> {
+    if (
+      isCaughtByHoneypot(
+        subscribeDto.website,
+        this.logger,
+        'newsletter sign-up',
+        context.ipAddress,
+      )
+    ) {
+      return;
+    }
+
+    const { ipAddress } = context;
+    if (ipAddress) {
+      await assertWithinRateLimit({
+        max: this.configService.get<number>('NEWSLETTER_MAX_PER_HOUR', 5),
+        count: (since) =>
+          this.subscriberRepository.count({
+            where: { consentIpAddress: ipAddress, consentedAt: since },
+          }),
+        message: 'Too many sign-ups, try again later',
+        logger: this.logger,
+        description: `newsletter sign-up from ${ipAddress}`,
+      });
+    }
+
+    const email = subscribeDto.email.toLowerCase();
+    const existing = await this.subscriberRepository.findOne({
+      where: { email },
+    });
+
+    if (existing?.status === 'confirmed') {
+      this.logger.log(`Newsletter sign-up of an already confirmed address`);
+      return;
+    }
+
+    if (
+      existing?.status === 'pending' &&
+      existing.confirmationSentAt &&
+      Date.now() - existing.confirmationSentAt.getTime() <
+        CONFIRMATION_COOLDOWN_MS
+    ) {
+      this.logger.log(`Confirmation email sent recently, not sending again`);
+      return;
+    }
+
+    // New consent: earlier confirmation and withdrawal no longer apply
+    const subscriber = await this.subscriberRepository.save(
+      this.subscriberRepository.create({
+        ...(existing ?? {}),
+        email,
+        status: 'pending',
+        source: subscribeDto.source ?? null,
+        consentedAt: new Date(),
+        consentIpAddress: context.ipAddress?.slice(0, 45) ?? null,
+        confirmationSentAt: new Date(),
+        confirmedAt: null,
+        confirmedIpAddress: null,
+        unsubscribedAt: null,
+      }),
+    );
+
+    this.logger.log(
+      `Newsletter sign-up ${subscriber.id} waiting for confirmation`,
+    );
+    await this.sendConfirmation(subscriber);
+  }
+
+  /**
+   * Confirm a sign-up from the emailed link
+   * Confirming twice is harmless
+   * @throws UnauthorizedException if the link is invalid, expired or replaced
+   */
+  async confirm(
+    token: string,
+    context: NewsletterContext = {},
+  ): Promise<{ email: string; status: SubscriberStatus }> {
+    const payload = this.verifyToken<ConfirmTokenPayload>(
+      token,
+      CONFIRM_TOKEN_TYPE,
+    );
+    const subscriber = await this.subscriberRepository.findOne({
+      where: { id: payload.sub },
+    });
+
+    if (
+      !subscriber ||
+      subscriber.status === 'unsubscribed' ||
+      subscriber.consentedAt.getTime() !== payload.consent
+    ) {
+      throw new UnauthorizedException('Invalid confirmation link');
+    }
+
+    if (subscriber.status === 'pending') {
+      subscriber.status = 'confirmed';
+      subscriber.confirmedAt = new Date();
+      subscriber.confirmedIpAddress = context.ipAddress?.slice(0, 45) ?? null;
+      await this.subscriberRepository.save(subscriber);
+      this.logger.log(`Newsletter subscriber ${subscriber.id} confirmed`);
+    }
+
+    return { email: subscriber.email, status: subscriber.status };
+  }
+
+  /**
+   * Unsubscribe from the link found in every newsletter
+   * Unsubscribing twice, or after the record was deleted, is harmless
+   * @throws UnauthorizedException if the link is invalid
+   */
+  async unsubscribe(token: string): Promise<void> {
+    const payload = this.verifyToken<UnsubscribeTokenPayload>(
+      token,
+      UNSUBSCRIBE_TOKEN_TYPE,
+    );
+    const subscriber = await this.subscriberRepository.findOne({
+      where: { id: payload.sub },
+    });
+
+    if (!subscriber || subscriber.status === 'unsubscribed') {
+      return;
+    }
+
+    subscriber.status = 'unsubscribed';
+    subscriber.unsubscribedAt = new Date();
+    await this.subscriberRepository.save(subscriber);
+    this.logger.log(`Newsletter subscriber ${subscriber.id} unsubscribed`);
+  }
+
+  // ──────────────────────────────────────────────
+  // Backoffice
+  // ──────────────────────────────────────────────
+
+  /**
+   * Find subscribers with filters and pagination, newest first
+   */
+  async findAll(query: SubscriberQueryDto): Promise<{
+    data: Subscriber[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { status, search, page = 1, limit = 20 } = query;
+
+    const queryBuilder =
+      this.subscriberRepository.createQueryBuilder('subscriber');
+
+    if (status) {
+      queryBuilder.andWhere('subscriber.status = :status', { status });
+    }
+
+    if (search) {
+      queryBuilder.andWhere('subscriber.email ILIKE :search', {
+        search: `%${search}%`,
+      });
+    }
+
+    queryBuilder
+      .orderBy('subscriber.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Number of subscribers in each status
+   */
+  async countByStatus(): Promise<SubscriberCounts> {
+    const rows = await this.subscriberRepository
+      .createQueryBuilder('subscriber')
+      .select('subscriber.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('subscriber.status')
+      .getRawMany<{ status: SubscriberStatus; count: string }>();
+
+    const counts: SubscriberCounts = {
+      pending: 0,
+      confirmed: 0,
+      unsubscribed: 0,
+    };
+    for (const row of rows) {
+      counts[row.status] = Number(row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Confirmed subscribers, oldest first, for a campaign
+   */
+  async findConfirmed(): Promise<Subscriber[]> {
+    return await this.subscriberRepository.find({
+      where: { status: 'confirmed' },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Subscribers as CSV, with their consent records
+   */
+  async exportCsv(status?: SubscriberStatus): Promise<string> {
+    const subscribers = await this.subscriberRepository.find({
+      where: status ? { status } : {},
+      order: { createdAt: 'ASC' },
+    });
+
+    const lines = [
+      CSV_COLUMNS.map(([header]) => header).join(','),
+      ...subscribers.map((subscriber) =>
+        CSV_COLUMNS.map(([, value]) => this.toCsvField(value(subscriber))).join(
+          ',',
+        ),
+      ),
+    ];
+
+    this.logger.log(`Exported ${subscribers.length} newsletter subscribers`);
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * Delete a subscriber and their consent records (right to erasure)
+   */
+  async remove(id: string): Promise<void> {
+    const subscriber = await this.subscriberRepository.findOne({
+      where: { id },
+    });
+
+    if (!subscriber) {
+      throw new NotFoundException(`Subscriber with ID ${id} not found`);
+    }
+
+    await this.subscriberRepository.remove(subscriber);
+    this.logger.log(`Newsletter subscriber ${id} deleted`);
+  }
+
+  /**
+   * Storefront link unsubscribing the subscriber in one click
+   */
+  getUnsubscribeUrl(subscriber: Subscriber): string {
+    const payload: UnsubscribeTokenPayload = {
+      typ: UNSUBSCRIBE_TOKEN_TYPE,
+      sub: subscriber.id,
+    };
+    return `${getFrontendUrl(this.configService)}/newsletter/unsubscribe?token=${this.jwtService.sign(payload)}`;
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Email the confirmation link; a mail failure leaves the sign-up pending
+   */
+  private async sendConfirmation(subscriber: Subscriber): Promise<void> {
+    const payload: ConfirmTokenPayload = {
+      typ: CONFIRM_TOKEN_TYPE,
+      sub: subscriber.id,
+      consent: subscriber.consentedAt.getTime(),
+    };
+    const token = this.jwtService.sign(payload, {
+      expiresIn: `${CONFIRMATION_TTL_DAYS}d`,
+    });
+
+    try {
+      await this.mailService.send('newsletter-confirmation', subscriber.email, {
+        confirmUrl: `${getFrontendUrl(this.configService)}/newsletter/confirm?token=${token}`,
+        expiresInDays: CONFIRMATION_TTL_DAYS,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to email the newsletter confirmation of ${subscriber.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private verifyToken<T extends { typ: string }>(
+    token: string,
+    type: T['typ'],
+  ): T {
+    let payload: T;
+    try {
+      payload = this.jwtService.verify<T>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid newsletter link');
+    }
+
+    if (payload.typ !== type) {
+      throw new UnauthorizedException('Invalid newsletter link');
+    }
+    return payload;
+  }
+
+  /**
+   * CSV field, quoted when needed; values starting like a formula are
+   * prefixed so spreadsheets do not evaluate them
+   */
+  private toCsvField(value: string | Date | null): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let field = value instanceof Date ? value.toISOString() : value;
+    if (/^[=+\-@\t\r]/.test(field)) {
+      field = `'${field}`;
+    }
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }
+}
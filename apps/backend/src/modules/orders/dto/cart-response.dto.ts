@@ -0,0 +1,73 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * A cart line re-priced from the current product data
+ */
+export class PricedCartItemDto {
+  @ApiProperty({ description: 'Product UUID' })
+  productId: string;
+
+  @ApiProperty({ description: 'Product name' })
+  name: string;
+
+  @ApiProperty({ description: 'Product slug' })
+  slug: string;
+
+  @ApiProperty({
+    description: 'Product category',
+    enum: ['wall-hanging', 'rug'],
+  })
+  category: 'wall-hanging' | 'rug';
+
+  @ApiProperty({ description: 'First product image URL', nullable: true })
+  imageUrl: string | null;
+
+  @ApiProperty({ description: 'Current unit price in euros' })
+  unitPrice: number;
+
+  @ApiProperty({ description: 'Quantity kept in the cart' })
+  quantity: number;
+
+  @ApiProperty({ description: 'unitPrice × quantity' })
+  lineTotal: number;
+
+  @ApiProperty({ description: 'Units currently in stock' })
+  availableQuantity: number;
+}
+
+/**
+ * Explains why a requested cart line was dropped or reduced
+ */
+export class CartIssueDto {
+  @ApiProperty({ description: 'Product UUID' })
+  productId: string;
+
+  @ApiProperty({
+    description: 'Reason for the adjustment',
+    enum: ['not_found', 'unavailable', 'insufficient_stock'],
+  })
+  reason: 'not_found' | 'unavailable' | 'insufficient_stock';
+
+  @ApiProperty({ description: 'Quantity requested by the client' })
+  requestedQuantity: number;
+
+  @ApiProperty({ description: 'Units currently in stock' })
+  availableQuantity: number;
+}
+
+/**
+ * Server-validated cart
+ */
+export class PricedCartDto {
+  @ApiProperty({ type: [PricedCartItemDto] })
+  items: PricedCartItemDto[];
+
+  @ApiProperty({ type: [CartIssueDto] })
+  issues: CartIssueDto[];
+
+  @ApiProperty({ description: 'Cart total in euros' })
+  total: number;
+
+  @ApiProperty({ description: 'ISO 4217 currency code', example: 'EUR' })
+  currency: string;
+}
@@ -0,0 +1,44 @@
+import {
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  IsInt,
+  IsUUID,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * A single cart line as sent by the storefront
+ * Only the product and quantity are trusted; prices are always recomputed
+ */
+export class CartItemDto {
+  @ApiProperty({
+    description: 'Product UUID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID('4')
+  productId: string;
+
+  @ApiProperty({ description: 'Requested quantity', minimum: 1, example: 1 })
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  quantity: number;
+}
+
+/**
+ * DTO for validating and pricing a cart
+ */
+export class CartDto {
+  @ApiProperty({ description: 'Cart items', type: [CartItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => CartItemDto)
+  items: CartItemDto[];
+}
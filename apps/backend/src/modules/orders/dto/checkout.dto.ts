@@ -0,0 +1,101 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CartDto } from './cart.dto';
+
+/**
+ * Customer contact details
+ */
+class CustomerDto {
+  @ApiProperty({ description: 'Email address', example: 'jane@example.com' })
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @ApiProperty({ description: 'First name', example: 'Jane' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  firstName: string;
+
+  @ApiProperty({ description: 'Last name', example: 'Doe' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  lastName: string;
+
+  @ApiPropertyOptional({ description: 'Phone number', example: '+33612345678' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  phone?: string;
+}
+
+/**
+ * Shipping address
+ */
+class ShippingAddressDto {
+  @ApiProperty({ description: 'Street address', example: '12 rue des Lilas' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  line1: string;
+
+  @ApiPropertyOptional({ description: 'Address complement', example: 'Apt 4' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  line2?: string;
+
+  @ApiProperty({ description: 'Postal code', example: '75011' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  postalCode: string;
+
+  @ApiProperty({ description: 'City', example: 'Paris' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  city: string;
+
+  @ApiProperty({
+    description: 'ISO 3166-1 alpha-2 country code',
+    example: 'FR',
+  })
+  @IsString()
+  @Length(2, 2)
+  country: string;
+}
+
+/**
+ * DTO for placing an order from a cart
+ */
+export class CheckoutDto extends CartDto {
+  @ApiProperty({ description: 'Customer contact details', type: CustomerDto })
+  @ValidateNested()
+  @Type(() => CustomerDto)
+  customer: CustomerDto;
+
+  @ApiProperty({ description: 'Shipping address', type: ShippingAddressDto })
+  @ValidateNested()
+  @Type(() => ShippingAddressDto)
+  shippingAddress: ShippingAddressDto;
+
+  @ApiPropertyOptional({
+    description: 'Notes for the atelier',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  notes?: string;
+}
@@ -0,0 +1,47 @@
+import { IsOptional, IsEnum, IsNumber, Min, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { OrderStatus } from '../../../entities/order.entity';
+
+/**
+ * DTO for querying orders with filters and pagination
+ */
+export class OrderQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: ['pending', 'paid', 'failed', 'shipped', 'refunded', 'cancelled'],
+  })
+  @IsEnum(['pending', 'paid', 'failed', 'shipped', 'refunded', 'cancelled'])
+  @IsOptional()
+  status?: OrderStatus;
+
+  @ApiPropertyOptional({
+    description: 'Search by order number or customer email (partial match)',
+    example: 'AK-2026',
+  })
+  @IsString()
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number (starts at 1)',
+    default: 1,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    default: 20,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  limit?: number = 20;
+}
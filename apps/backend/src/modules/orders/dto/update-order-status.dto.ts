@@ -0,0 +1,16 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import type { OrderStatus } from '../../../entities/order.entity';
+
+/**
+ * DTO for moving an order to a new status
+ */
+export class UpdateOrderStatusDto {
+  @ApiProperty({
+    description: 'New order status',
+    enum: ['pending', 'paid', 'failed', 'shipped', 'refunded', 'cancelled'],
+    example: 'shipped',
+  })
+  @IsEnum(['pending', 'paid', 'failed', 'shipped', 'refunded', 'cancelled'])
+  status: OrderStatus;
+}
@@ -0,0 +1,152 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OrdersService } from './orders.service';
+import { CartDto } from './dto/cart.dto';
+import { CheckoutDto } from './dto/checkout.dto';
+import { PricedCartDto } from './dto/cart-response.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Orders controller - storefront cart/checkout and backoffice order management
+ */
+@ApiTags('orders')
+@Controller('orders')
+export class OrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  /**
+   * Validate and re-price a cart (public endpoint)
+   */
+  @Public()
+  @Post('cart')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Validate a cart and re-price it from the catalog' })
+  @ApiResponse({
+    status: 200,
+    description: 'Priced cart with any adjustments listed in issues',
+    type: PricedCartDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+  })
+  async priceCart(@Body() cartDto: CartDto): Promise<PricedCartDto> {
+    return await this.ordersService.priceCart(cartDto);
+  }
+
+  /**
+   * Place an order (public endpoint)
+   */
+  @Public()
+  @Post('checkout')
+  @ApiOperation({ summary: 'Place an order and reserve stock' })
+  @ApiResponse({
+    status: 201,
+    description: 'Order placed, stock reserved',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Some items are no longer available',
+  })
+  async checkout(@Body() checkoutDto: CheckoutDto) {
+    return await this.ordersService.checkout(checkoutDto);
+  }
+
+  /**
+   * Get all orders with filters and pagination
+   */
+  @Get()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get all orders with optional filters' })
+  @ApiResponse({
+    status: 200,
+    description: 'Orders retrieved successfully',
+  })
+  async findAll(@Query() query: OrderQueryDto) {
+    return await this.ordersService.findAll(query);
+  }
+
+  /**
+   * Get a single order by ID
+   */
+  @Get(':id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get an order by ID' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Order UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order found',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.ordersService.findById(id);
+  }
+
+  /**
+   * Update an order status (admin only)
+   */
+  @Patch(':id/status')
+  @Roles('admin')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update an order status' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Order UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Order status updated',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Transition not allowed',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async updateStatus(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateOrderStatusDto,
+  ) {
+    return await this.ordersService.updateStatus(id, dto.status);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrdersService } from './orders.service';
+import { OrdersController } from './orders.controller';
+import { Order } from '../../entities/order.entity';
+import { OrderItem } from '../../entities/order-item.entity';
+import { Product } from '../../entities/product.entity';
+
+/**
+ * Orders module
+ * Encapsulates cart pricing, checkout and order management
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Order, OrderItem, Product])],
+  controllers: [OrdersController],
+  providers: [OrdersService],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
@@ -0,0 +1,397 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { OrdersService } from './orders.service';
+import { Order } from '../../entities/order.entity';
+import { OrderItem } from '../../entities/order-item.entity';
+import { Product } from '../../entities/product.entity';
+import { CheckoutDto } from './dto/checkout.dto';
+
+/**
+ * Unit tests for OrdersService
+ * Tests cart pricing, stock reservation and status transitions with mocked persistence
+ */
+describe('OrdersService', () => {
+  let service: OrdersService;
+
+  const buildProduct = (overrides: Partial<Product> = {}): Product => ({
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'Test Rug',
+    slug: 'test-rug',
+    category: 'rug',
+    price: '149.90' as unknown as number, // decimals come back as strings
+    status: 'available',
+    stockQuantity: 1,
+    showInArchive: true,
+    productImages: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const buildOrder = (overrides: Partial<Order> = {}): Order =>
+    ({
+      id: 'order-1',
+      orderNumber: 'AK-20261018-ABCDEF',
+      status: 'pending',
+      customerEmail: 'jane@example.com',
+      customerFirstName: 'Jane',
+      customerLastName: 'Doe',
+      shippingAddress: {
+        line1: '12 rue des Lilas',
+        postalCode: '75011',
+        city: 'Paris',
+        country: 'FR',
+      },
+      total: 149.9,
+      currency: 'EUR',
+      reservedUntil: new Date(),
+      items: [
+        {
+          id: 'item-1',
+          orderId: 'order-1',
+          productId: '123e4567-e89b-12d3-a456-426614174000',
+          productName: 'Test Rug',
+          productSlug: 'test-rug',
+          unitPrice: 149.9,
+          quantity: 1,
+          lineTotal: 149.9,
+        },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    }) as Order;
+
+  const checkoutDto: CheckoutDto = {
+    items: [{ productId: '123e4567-e89b-12d3-a456-426614174000', quantity: 1 }],
+    customer: { email: 'Jane@Example.com', firstName: 'Jane', lastName: 'Doe' },
+    shippingAddress: {
+      line1: '12 rue des Lilas',
+      postalCode: '75011',
+      city: 'Paris',
+      country: 'FR',
+    },
+  };
+
+  const mockOrderRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    find: jest.fn(),
+  };
+
+  // Transaction manager used by dataSource.transaction callbacks
+  const mockManager = {
+    find: jest.fn(),
+    create: jest.fn((_entity: unknown, data: object) => ({ ...data })),
+    save: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn((cb: (manager: typeof mockManager) => unknown) =>
+      cb(mockManager),
+    ),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        {
+          provide: getRepositoryToken(Order),
+          useValue: mockOrderRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrdersService>(OrdersService);
+
+    jest.clearAllMocks();
+    // No expired reservations unless a test says otherwise
+    mockOrderRepository.find.mockResolvedValue([]);
+    mockManager.update.mockResolvedValue({ affected: 1 });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('priceCart', () => {
+    it('should re-price items from the current product price', async () => {
+      // Arrange
+      mockProductRepository.find.mockResolvedValue([
+        buildProduct({ stockQuantity: 3 }),
+      ]);
+
+      // Act
+      const result = await service.priceCart({
+        items: [
+          { productId: '123e4567-e89b-12d3-a456-426614174000', quantity: 2 },
+        ],
+      });
+
+      // Assert
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].unitPrice).toBe(149.9);
+      expect(result.items[0].lineTotal).toBe(299.8);
+      expect(result.total).toBe(299.8);
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should drop unknown and unavailable products', async () => {
+      // Arrange
+      mockProductRepository.find.mockResolvedValue([
+        buildProduct({ id: 'sold-id', status: 'sold', stockQuantity: 0 }),
+      ]);
+
+      // Act
+      const result = await service.priceCart({
+        items: [
+          { productId: 'sold-id', quantity: 1 },
+          { productId: 'missing-id', quantity: 1 },
+        ],
+      });
+
+      // Assert
+      expect(result.items).toEqual([]);
+      expect(result.total).toBe(0);
+      expect(result.issues.map((issue) => issue.reason)).toEqual([
+        'unavailable',
+        'not_found',
+      ]);
+    });
+
+    it('should cap quantities to available stock', async () => {
+      // Arrange
+      mockProductRepository.find.mockResolvedValue([buildProduct()]);
+
+      // Act
+      const result = await service.priceCart({
+        items: [
+          { productId: '123e4567-e89b-12d3-a456-426614174000', quantity: 3 },
+        ],
+      });
+
+      // Assert
+      expect(result.items[0].quantity).toBe(1);
+      expect(result.issues[0]).toMatchObject({
+        reason: 'insufficient_stock',
+        requestedQuantity: 3,
+        availableQuantity: 1,
+      });
+    });
+  });
+
+  describe('checkout', () => {
+    it('should reserve stock and flip the product to sold on the last unit', async () => {
+      // Arrange
+      const product = buildProduct();
+      mockManager.find.mockResolvedValue([product]);
+      mockManager.save.mockImplementation((entity: unknown, data: unknown) =>
+        entity === Order ? { ...(data as object), id: 'order-1' } : data,
+      );
+      mockOrderRepository.findOne.mockResolvedValue(buildOrder());
+
+      // Act
+      const result = await service.checkout(checkoutDto);
+
+      // Assert
+      expect(product.stockQuantity).toBe(0);
+      expect(product.status).toBe('sold');
+      expect(mockManager.save).toHaveBeenCalledWith(Product, [product]);
+      expect(mockManager.create).toHaveBeenCalledWith(
+        Order,
+        expect.objectContaining({
+          status: 'pending',
+          customerEmail: 'jane@example.com',
+          total: 149.9,
+        }),
+      );
+      expect(mockManager.create).toHaveBeenCalledWith(
+        OrderItem,
+        expect.objectContaining({ unitPrice: 149.9, quantity: 1 }),
+      );
+      expect(result.id).toBe('order-1');
+    });
+
+    it('should throw ConflictException when an item is no longer available', async () => {
+      // Arrange
+      mockManager.find.mockResolvedValue([
+        buildProduct({ status: 'sold', stockQuantity: 0 }),
+      ]);
+
+      // Act & Assert
+      await expect(service.checkout(checkoutDto)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findById', () => {
+    it('should throw NotFoundException when order not found', async () => {
+      // Arrange
+      mockOrderRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findById('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('updateStatus', () => {
+    it('should reject transitions from a final status', async () => {
+      // Arrange
+      mockOrderRepository.findOne.mockResolvedValue(
+        buildOrder({ status: 'shipped' }),
+      );
+
+      // Act & Assert
+      await expect(service.updateStatus('order-1', 'paid')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should restock products when an order is cancelled', async () => {
+      // Arrange
+      const product = buildProduct({ status: 'sold', stockQuantity: 0 });
+      mockOrderRepository.findOne.mockResolvedValue(buildOrder());
+      mockManager.find.mockResolvedValue([product]);
+
+      // Act
+      await service.updateStatus('order-1', 'cancelled');
+
+      // Assert
+      expect(product.stockQuantity).toBe(1);
+      expect(product.status).toBe('available');
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Order,
+        { id: 'order-1', status: 'pending' },
+        { status: 'cancelled', reservedUntil: null },
+      );
+    });
+
+    it('should keep the reservation when a payment fails', async () => {
+      // Arrange
+      const reservedUntil = new Date();
+      mockOrderRepository.findOne.mockResolvedValue(
+        buildOrder({ reservedUntil }),
+      );
+
+      // Act
+      await service.updateStatus('order-1', 'failed');
+
+      // Assert
+      expect(mockManager.find).not.toHaveBeenCalled();
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Order,
+        { id: 'order-1', status: 'pending' },
+        { status: 'failed', reservedUntil },
+      );
+    });
+
+    it('should restock products when a paid order is refunded', async () => {
+      // Arrange
+      const product = buildProduct({ status: 'sold', stockQuantity: 0 });
+      mockOrderRepository.findOne.mockResolvedValue(
+        buildOrder({ status: 'paid', reservedUntil: null }),
+      );
+      mockManager.find.mockResolvedValue([product]);
+
+      // Act
+      await service.updateStatus('order-1', 'refunded');
+
+      // Assert
+      expect(product.stockQuantity).toBe(1);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Order,
+        { id: 'order-1', status: 'paid' },
+        { status: 'refunded', reservedUntil: null },
+      );
+    });
+
+    it('should not restock when the order changed meanwhile', async () => {
+      // Arrange
+      mockOrderRepository.findOne.mockResolvedValue(buildOrder());
+      mockManager.update.mockResolvedValue({ affected: 0 });
+
+      // Act & Assert
+      await expect(
+        service.updateStatus('order-1', 'cancelled'),
+      ).rejects.toThrow(ConflictException);
+      expect(mockManager.find).not.toHaveBeenCalled();
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseExpiredReservations', () => {
+    it('should cancel expired pending orders and release their stock', async () => {
+      // Arrange
+      const product = buildProduct({ status: 'sold', stockQuantity: 0 });
+      mockOrderRepository.find.mockResolvedValue([buildOrder()]);
+      mockManager.find.mockResolvedValue([product]);
+
+      // Act
+      const released = await service.releaseExpiredReservations();
+
+      // Assert
+      expect(released).toBe(1);
+      expect(product.stockQuantity).toBe(1);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Order,
+        expect.objectContaining({ id: 'order-1' }),
+        { status: 'cancelled', reservedUntil: null },
+      );
+    });
+
+    it('should release the stock only once when two calls race', async () => {
+      // Arrange: both calls find the same expired order, the second
+      // conditional update no longer matches it
+      const product = buildProduct({ status: 'sold', stockQuantity: 0 });
+      mockOrderRepository.find.mockResolvedValue([buildOrder()]);
+      mockManager.find.mockResolvedValue([product]);
+      mockManager.update
+        .mockResolvedValueOnce({ affected: 1 })
+        .mockResolvedValueOnce({ affected: 0 });
+
+      // Act
+      const released = await Promise.all([
+        service.releaseExpiredReservations(),
+        service.releaseExpiredReservations(),
+      ]);
+
+      // Assert
+      expect(released).toEqual([1, 0]);
+      expect(product.stockQuantity).toBe(1);
+      expect(mockManager.save).toHaveBeenCalledTimes(1);
+    });
+  });
+});
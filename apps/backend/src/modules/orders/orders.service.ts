@@ -0,0 +1,461 @@
+import {
+  Injectable,
+  NotFoundException,
+  Logger,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager, In, LessThan, Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { Order, OrderStatus } from '../../entities/order.entity';
+import { OrderItem } from '../../entities/order-item.entity';
+import { Product } from '../../entities/product.entity';
+import { CartDto, CartItemDto } from './dto/cart.dto';
+import { CheckoutDto } from './dto/checkout.dto';
+import { OrderQueryDto } from './dto/order-query.dto';
+import {
+  CartIssueDto,
+  PricedCartDto,
+  PricedCartItemDto,
+} from './dto/cart-response.dto';
+
+/**
+ * Allowed order status transitions
+ * A failed payment can be retried; refunded and cancelled orders are final
+ */
+const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['paid', 'failed', 'cancelled'],
+  failed: ['paid', 'failed', 'cancelled'],
+  paid: ['shipped', 'refunded', 'cancelled'],
+  shipped: ['refunded'],
+  refunded: [],
+  cancelled: [],
+};
+
+/**
+ * Statuses in which an order still holds a stock reservation
+ */
+const RESERVING_STATUSES: OrderStatus[] = ['pending', 'failed'];
+
+/**
+ * Orders service - handles cart pricing, checkout and order lifecycle
+ *
+ * Stock is reserved when an order is placed: `stockQuantity` is decremented
+ * immediately and the product flips to `sold` when the last unit is taken.
+ * Pending orders that are not paid before `reservedUntil` are cancelled and
+ * their stock is released back to the catalog.
+ */
+@Injectable()
+export class OrdersService {
+  private readonly logger = new Logger(OrdersService.name);
+
+  constructor(
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    private readonly dataSource: DataSource,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ──────────────────────────────────────────────
+  // Cart & checkout
+  // ──────────────────────────────────────────────
+
+  /**
+   * Validate a cart against the catalog and re-price every line
+   * Unknown or unavailable products are dropped, quantities are capped to stock
+   */
+  async priceCart(cartDto: CartDto): Promise<PricedCartDto> {
+    await this.releaseExpiredReservations();
+
+    const products = await this.productRepository.find({
+      where: { id: In(cartDto.items.map((item) => item.productId)) },
+    });
+
+    return this.buildCart(cartDto.items, products);
+  }
+
+  /**
+   * Place an order from a cart
+   * Products are locked for the duration of the transaction so two customers
+   * cannot reserve the same last unit
+   */
+  async checkout(checkoutDto: CheckoutDto): Promise<Order> {
+    await this.releaseExpiredReservations();
+
+    const orderId = await this.dataSource.transaction(async (manager) => {
+      const products = await manager.find(Product, {
+        where: { id: In(checkoutDto.items.map((item) => item.productId)) },
+        lock: { mode: 'pessimistic_write' },
+        loadEagerRelations: false,
+      });
+
+      const cart = this.buildCart(checkoutDto.items, products);
+      if (cart.issues.length > 0) {
+        throw new ConflictException({
+          message: 'Some items in the cart are no longer available',
+          issues: cart.issues,
+        });
+      }
+
+      // Reserve stock
+      const productsById = new Map(products.map((p) => [p.id, p]));
+      for (const line of cart.items) {
+        const product = productsById.get(line.productId);
+        product.stockQuantity -= line.quantity;
+        if (product.stockQuantity === 0) {
+          product.status = 'sold';
+        }
+      }
+      await manager.save(Product, products);
+
+      const order = manager.create(Order, {
+        orderNumber: this.generateOrderNumber(),
+        status: 'pending',
+        customerEmail: checkoutDto.customer.email.toLowerCase(),
+        customerFirstName: checkoutDto.customer.firstName,
+        customerLastName: checkoutDto.customer.lastName,
+        customerPhone: checkoutDto.customer.phone,
+        shippingAddress: checkoutDto.shippingAddress,
+        notes: checkoutDto.notes,
+        total: cart.total,
+        currency: cart.currency,
+        reservedUntil: new Date(Date.now() + this.getReservationMs()),
+        items: cart.items.map((line) =>
+          manager.create(OrderItem, {
+            productId: line.productId,
+            productName: line.name,
+            productSlug: line.slug,
+            unitPrice: line.unitPrice,
+            quantity: line.quantity,
+            lineTotal: line.lineTotal,
+          }),
+        ),
+      });
+
+      const saved = await manager.save(Order, order);
+      return saved.id;
+    });
+
+    const order = await this.findById(orderId);
+    this.logger.log(
+      `Order placed: ${order.orderNumber} (${order.items.length} item(s), ${order.total} ${order.currency})`,
+    );
+    return order;
+  }
+
+  // ──────────────────────────────────────────────
+  // Order management
+  // ──────────────────────────────────────────────
+
+  /**
+   * Find all orders with filters and pagination
+   */
+  async findAll(query: OrderQueryDto): Promise<{
+    data: Order[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const { status, search, page = 1, limit = 20 } = query;
+
+    const queryBuilder = this.orderRepository
+      .createQueryBuilder('order')
+      .leftJoinAndSelect('order.items', 'items');
+
+    if (status) {
+      queryBuilder.andWhere('order.status = :status', { status });
+    }
+
+    if (search) {
+      queryBuilder.andWhere(
+        '(order.orderNumber ILIKE :search OR order.customerEmail ILIKE :search)',
+        { search: `%${search}%` },
+      );
+    }
+
+    queryBuilder
+      .orderBy('order.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [data, total] = await queryBuilder.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Find an order by ID
+   */
+  async findById(id: string): Promise<Order> {
+    const order = await this.orderRepository.findOne({ where: { id } });
+
+    if (!order) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    return order;
+  }
+
+  /**
+   * Move an order to a new status
+   * Cancelling, or refunding an order that has not shipped yet, releases
+   * its stock back to the catalog. A failed payment keeps the reservation
+   * so the customer can retry until it expires.
+   */
+  async updateStatus(id: string, status: OrderStatus): Promise<Order> {
+    const order = await this.findById(id);
+
+    if (!STATUS_TRANSITIONS[order.status].includes(status)) {
+      throw new BadRequestException(
+        `Cannot move order from "${order.status}" to "${status}"`,
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      // Only moves the order if nobody changed its status meanwhile (an
+      // expired reservation, a payment webhook); the row stays locked
+      // until the transaction ends
+      const result = await manager.update(
+        Order,
+        { id: order.id, status: order.status },
+        {
+          status,
+          reservedUntil: RESERVING_STATUSES.includes(status)
+            ? order.reservedUntil
+            : null,
+        },
+      );
+      if (!result.affected) {
+        throw new ConflictException(
+          `Order ${order.orderNumber} was updated meanwhile, reload it and try again`,
+        );
+      }
+
+      const releasesStock =
+        status === 'cancelled' ||
+        (status === 'refunded' && order.status === 'paid');
+      if (releasesStock) {
+        await this.restock(manager, order);
+      }
+    });
+
+    this.logger.log(
+      `Order ${order.orderNumber} moved from ${order.status} to ${status}`,
+    );
+    return await this.findById(id);
+  }
+
+  /**
+   * Hold an unpaid order's stock for at least the given number of minutes
+   * Used by payment methods that take longer than checkout (bank transfers)
+   */
+  async extendReservation(id: string, minutes: number): Promise<void> {
+    const order = await this.findById(id);
+
+    if (!RESERVING_STATUSES.includes(order.status)) {
+      return;
+    }
+
+    const until = new Date(Date.now() + minutes * 60_000);
+    if (order.reservedUntil && order.reservedUntil >= until) {
+      return;
+    }
+
+    await this.orderRepository.update(order.id, { reservedUntil: until });
+  }
+
+  /**
+   * Cancel unpaid orders whose reservation window has elapsed
+   * Called before every cart/checkout operation so stale reservations never
+   * block a purchase. Concurrent calls see the same expired orders: the
+   * cancellation is conditional on the order still holding its reservation,
+   * and only the call that actually cancelled it gives the stock back.
+   *
+   * @returns Number of released orders
+   */
+  async releaseExpiredReservations(): Promise<number> {
+    const now = new Date();
+    const expired = await this.orderRepository.find({
+      where: {
+        status: In(RESERVING_STATUSES),
+        reservedUntil: LessThan(now),
+      },
+    });
+
+    let released = 0;
+    for (const order of expired) {
+      const cancelled = await this.dataSource.transaction(async (manager) => {
+        const result = await manager.update(
+          Order,
+          {
+            id: order.id,
+            status: In(RESERVING_STATUSES),
+            reservedUntil: LessThan(now),
+          },
+          { status: 'cancelled', reservedUntil: null },
+        );
+        if (!result.affected) {
+          return false;
+        }
+
+        await this.restock(manager, order);
+        return true;
+      });
+
+      if (cancelled) {
+        released++;
+        this.logger.log(`Reservation expired for order ${order.orderNumber}`);
+      }
+    }
+
+    return released;
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Re-price requested items against the given products
+   * Pure function of its inputs so it can run inside or outside a transaction
+   */
+  private buildCart(items: CartItemDto[], products: Product[]): PricedCartDto {
+    const productsById = new Map(products.map((p) => [p.id, p]));
+    const quantities = new Map<string, number>();
+
+    // Merge duplicate lines for the same product
+    for (const item of items) {
+      quantities.set(
+        item.productId,
+        (quantities.get(item.productId) ?? 0) + item.quantity,
+      );
+    }
+
+    const lines: PricedCartItemDto[] = [];
+    const issues: CartIssueDto[] = [];
+
+    for (const [productId, requestedQuantity] of quantities) {
+      const product = productsById.get(productId);
+
+      if (!product) {
+        issues.push({
+          productId,
+          reason: 'not_found',
+          requestedQuantity,
+          availableQuantity: 0,
+        });
+        continue;
+      }
+
+      if (product.status !== 'available' || product.stockQuantity <= 0) {
+        issues.push({
+          productId,
+          reason: 'unavailable',
+          requestedQuantity,
+          availableQuantity: 0,
+        });
+        continue;
+      }
+
+      const quantity = Math.min(requestedQuantity, product.stockQuantity);
+      if (quantity < requestedQuantity) {
+        issues.push({
+          productId,
+          reason: 'insufficient_stock',
+          requestedQuantity,
+          availableQuantity: product.stockQuantity,
+        });
+      }
+
+      const unitPriceCents = this.toCents(product.price);
+      lines.push({
+        productId,
+        name: product.name,
+        slug: product.slug,
+        category: product.category,
+        imageUrl: product.productImages?.[0]?.url ?? null,
+        unitPrice: unitPriceCents / 100,
+        quantity,
+        lineTotal: (unitPriceCents * quantity) / 100,
+        availableQuantity: product.stockQuantity,
+      });
+    }
+
+    const totalCents = lines.reduce(
+      (sum, line) => sum + this.toCents(line.lineTotal),
+      0,
+    );
+
+    return {
+      items: lines,
+      issues,
+      total: totalCents / 100,
+      currency: 'EUR',
+    };
+  }
+
+  /**
+   * Give the units held by an order back to the catalog
+   * Products that were flipped to sold become available again
+   */
+  private async restock(manager: EntityManager, order: Order): Promise<void> {
+    const productIds = order.items
+      .map((item) => item.productId)
+      .filter((productId): productId is string => productId !== null);
+
+    if (productIds.length === 0) return;
+
+    const products = await manager.find(Product, {
+      where: { id: In(productIds) },
+      lock: { mode: 'pessimistic_write' },
+      loadEagerRelations: false,
+    });
+    const productsById = new Map(products.map((p) => [p.id, p]));
+
+    for (const item of order.items) {
+      const product = item.productId
+        ? productsById.get(item.productId)
+        : undefined;
+      if (!product) continue;
+
+      product.stockQuantity += item.quantity;
+      if (product.status === 'sold') {
+        product.status = 'available';
+      }
+    }
+
+    await manager.save(Product, products);
+  }
+
+  /**
+   * Generate a human-friendly order number (e.g. AK-20261018-3F9A1C)
+   */
+  private generateOrderNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = randomBytes(3).toString('hex').toUpperCase();
+    return `AK-${date}-${suffix}`;
+  }
+
+  private getReservationMs(): number {
+    return (
+      this.configService.get<number>('ORDER_RESERVATION_MINUTES', 30) *
+      60 *
+      1000
+    );
+  }
+
+  private toCents(value: number | string): number {
+    return Math.round(Number(value) * 100);
+  }
+}
@@ -7,6 +7,7 @@ import {
   IsObject,
   MaxLength,
   Min,
+  IsDateString,
 } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -113,4 +114,13 @@ export class CreatePageContentWithUploadDto {
     return value;
   })
   isPublished?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Publication date; with isPublished, a future date schedules the publication',
+    example: '2026-03-01T08:00:00.000Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  scheduledAt?: string | null;
 }
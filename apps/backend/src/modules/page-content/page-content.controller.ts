@@ -11,9 +11,9 @@ import {
   ParseUUIDPipe,
   UseInterceptors,
   UploadedFile,
-  Req,
   BadRequestException,
   Logger,
+  Query,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
@@ -25,12 +25,16 @@ import {
   ApiBody,
   ApiBearerAuth,
 } from '@nestjs/swagger';
-import { Request } from 'express';
 import { PageContentService } from './page-content.service';
 import { CreatePageContentDto } from './dto/create-page-content.dto';
 import { CreatePageContentWithUploadDto } from './dto/create-page-content-with-upload.dto';
 import { UpdatePageContentDto } from './dto/update-page-content.dto';
+import { RevisionDiffQueryDto } from '../revisions/dto/revision-diff-query.dto';
+import { PreviewsService } from '../previews/previews.service';
+import { PreviewQueryDto } from '../previews/dto/preview-query.dto';
+import { PreviewNoStoreInterceptor } from '../previews/preview-no-store.interceptor';
 import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
 
 /**
  * PageContent controller - handles HTTP requests for CMS page content
@@ -40,7 +44,10 @@ import { Public } from '../auth/decorators/public.decorator';
 export class PageContentController {
   private readonly logger = new Logger(PageContentController.name);
 
-  constructor(private readonly pageContentService: PageContentService) {}
+  constructor(
+    private readonly pageContentService: PageContentService,
+    private readonly previewsService: PreviewsService,
+  ) {}
 
   /**
    * Get all entries including unpublished (backoffice)
@@ -113,6 +120,13 @@ export class PageContentController {
           type: 'boolean',
           default: true,
         },
+        scheduledAt: {
+          type: 'string',
+          format: 'date-time',
+          description:
+            'With isPublished, a future date schedules the publication',
+          example: '2026-03-01T08:00:00.000Z',
+        },
         image: {
           type: 'string',
           format: 'binary',
@@ -132,7 +146,6 @@ export class PageContentController {
   async createWithUpload(
     @Body() createDto: CreatePageContentWithUploadDto,
     @UploadedFile() file: Express.Multer.File,
-    @Req() request: Request,
   ) {
     this.logger.log('POST /api/page-content/with-upload - Request received');
 
@@ -140,12 +153,9 @@ export class PageContentController {
       throw new BadRequestException('Image is required');
     }
 
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
-
     const result = await this.pageContentService.createWithImage(
       createDto,
       file,
-      baseUrl,
     );
 
     this.logger.log(`Page content created successfully: ${result.id}`);
@@ -170,11 +180,106 @@ export class PageContentController {
     return await this.pageContentService.create(createDto);
   }
 
+  /**
+   * History of a page content entry (protected)
+   * Declared BEFORE :page/:section, which would match it
+   */
+  @Get(':id/revisions')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List the revisions of a page content entry, newest first',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Page content UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions retrieved successfully (without their content)',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Page content not found',
+  })
+  async findRevisions(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.pageContentService.findRevisions(id);
+  }
+
+  /**
+   * Compare two revisions (protected)
+   */
+  @Get(':id/revisions/diff')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Compare two revisions of a page content entry' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Page content UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Changed fields and line diff of the content',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Page content or revision not found',
+  })
+  async diffRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: RevisionDiffQueryDto,
+  ) {
+    return await this.pageContentService.diffRevisions(
+      id,
+      query.from,
+      query.to,
+    );
+  }
+
+  /**
+   * Restore a revision (protected)
+   * Recorded as a new revision, so a restore can itself be undone
+   */
+  @Post(':id/revisions/:revisionId/restore')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a revision of a page content entry' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Page content UUID',
+  })
+  @ApiParam({
+    name: 'revisionId',
+    type: 'string',
+    format: 'uuid',
+    description: 'Revision UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revision restored successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Page content or revision not found',
+  })
+  async restoreRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('revisionId', ParseUUIDPipe) revisionId: string,
+  ) {
+    return await this.pageContentService.restoreRevision(id, revisionId);
+  }
+
   /**
    * Get all published sections for a page (public)
+   * A preview token of the page also returns its unpublished sections
    */
   @Public()
   @Get(':page')
+  @UseInterceptors(PreviewNoStoreInterceptor)
   @ApiOperation({
     summary: 'Get all published content for a page',
   })
@@ -187,15 +292,29 @@ export class PageContentController {
     status: 200,
     description: 'Published page content retrieved successfully',
   })
-  async findByPage(@Param('page') page: string) {
-    return await this.pageContentService.findPublishedByPage(page);
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired preview token',
+  })
+  async findByPage(
+    @Param('page') page: string,
+    @Query() query: PreviewQueryDto,
+  ) {
+    const preview = this.previewsService.canPreview(
+      query.preview,
+      'page-content',
+      page,
+    );
+    return await this.pageContentService.findPublishedByPage(page, preview);
   }
 
   /**
    * Get a specific published section (public)
+   * A preview token of the page also returns it unpublished
    */
   @Public()
   @Get(':page/:section')
+  @UseInterceptors(PreviewNoStoreInterceptor)
   @ApiOperation({
     summary: 'Get a specific published section of a page',
   })
@@ -213,6 +332,10 @@ export class PageContentController {
     status: 200,
     description: 'Page content section found',
   })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or expired preview token',
+  })
   @ApiResponse({
     status: 404,
     description: 'Page content section not found',
@@ -220,8 +343,18 @@ export class PageContentController {
   async findByPageAndSection(
     @Param('page') page: string,
     @Param('section') section: string,
+    @Query() query: PreviewQueryDto,
   ) {
-    return await this.pageContentService.findByPageAndSection(page, section);
+    const preview = this.previewsService.canPreview(
+      query.preview,
+      'page-content',
+      page,
+    );
+    return await this.pageContentService.findByPageAndSection(
+      page,
+      section,
+      preview,
+    );
   }
 
   /**
@@ -289,21 +422,19 @@ export class PageContentController {
   async updateImage(
     @Param('id', ParseUUIDPipe) id: string,
     @UploadedFile() file: Express.Multer.File,
-    @Req() request: Request,
   ) {
     if (!file) {
       throw new BadRequestException('Image is required');
     }
 
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
-
-    return await this.pageContentService.updateImage(id, file, baseUrl);
+    return await this.pageContentService.updateImage(id, file);
   }
 
   /**
    * Delete a page content entry and its image
    */
   @Delete(':id')
+  @Roles('admin')
   @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a page content entry' })
@@ -317,6 +448,10 @@ export class PageContentController {
     status: 204,
     description: 'Page content deleted successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'Page content not found',
@@ -5,13 +5,19 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
 import * as sanitizeHtml from 'sanitize-html';
 import { PageContent } from '../../entities/page-content.entity';
 import { CreatePageContentDto } from './dto/create-page-content.dto';
 import { CreatePageContentWithUploadDto } from './dto/create-page-content-with-upload.dto';
 import { UpdatePageContentDto } from './dto/update-page-content.dto';
 import { UploadService } from '../upload/upload.service';
+import { applyPublicationSchedule } from '../../common/utils/publication-schedule.util';
+import {
+  RevisionDiff,
+  RevisionsService,
+  RevisionSummary,
+} from '../revisions/revisions.service';
 
 const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
   allowedTags: ['p', 'br', 'strong', 'em', 'ul', 'ol', 'li', 'h2', 'h3', 'hr'],
@@ -29,6 +35,7 @@ export class PageContentService {
     @InjectRepository(PageContent)
     private readonly pageContentRepository: Repository<PageContent>,
     private readonly uploadService: UploadService,
+    private readonly revisionsService: RevisionsService,
   ) {}
 
   /**
@@ -45,39 +52,38 @@ export class PageContentService {
   async createWithImage(
     createDto: CreatePageContentWithUploadDto,
     file: Express.Multer.File,
-    baseUrl: string,
   ): Promise<PageContent> {
-    await this.uploadService.ensureUploadDir('page-content');
-
     this.logger.log('Creating page content with image');
     this.logger.debug(`Received DTO: ${JSON.stringify(createDto, null, 2)}`);
-    this.logger.debug(`Uploaded file: ${file.filename} (${file.size} bytes)`);
+    this.logger.debug(
+      `Uploaded file: ${file.originalname} (${file.size} bytes)`,
+    );
 
-    try {
-      const imageUrl = this.uploadService.getFileUrl(
-        file.filename,
-        baseUrl,
-        'page-content',
-      );
+    const stored = await this.uploadService.storeImage(file, 'page-content');
 
+    try {
+      const { scheduledAt, ...contentFields } = createDto;
       const contentData = {
-        ...createDto,
+        ...contentFields,
         content: this.sanitizeContent(createDto.content),
-        image: imageUrl,
+        image: stored.key,
+        imageVariants: stored.variants,
       };
 
       const entry = this.pageContentRepository.create(contentData);
+      applyPublicationSchedule(
+        entry,
+        createDto.isPublished ?? true,
+        scheduledAt,
+      );
       const saved = await this.pageContentRepository.save(entry);
 
       this.logger.log(`Page content created successfully: ${saved.id}`);
+      await this.recordRevision(saved);
       return saved;
     } catch (error) {
-      // Clean up uploaded file if creation fails
-      await this.uploadService
-        .deleteFile(file.filename, 'page-content')
-        .catch((err) => {
-          this.logger.warn(`Failed to clean up file: ${err.message}`);
-        });
+      // Clean up stored image if creation fails
+      await this.uploadService.deleteImages([stored.key]);
 
       this.logger.error(`Failed to create page content: ${error.message}`);
       throw new BadRequestException('Failed to create page content');
@@ -92,13 +98,20 @@ export class PageContentService {
     this.logger.debug(`Received DTO: ${JSON.stringify(createDto, null, 2)}`);
 
     try {
+      const { scheduledAt, ...contentFields } = createDto;
       const entry = this.pageContentRepository.create({
-        ...createDto,
+        ...contentFields,
         content: this.sanitizeContent(createDto.content),
       });
+      applyPublicationSchedule(
+        entry,
+        createDto.isPublished ?? true,
+        scheduledAt,
+      );
       const saved = await this.pageContentRepository.save(entry);
 
       this.logger.log(`Page content created successfully: ${saved.id}`);
+      await this.recordRevision(saved);
       return saved;
     } catch (error) {
       this.logger.error(`Failed to create page content: ${error.message}`);
@@ -108,23 +121,31 @@ export class PageContentService {
 
   /**
    * Find all published sections for a given page (public)
+   * @param includeUnpublished - Preview of the page, drafts included
    */
-  async findPublishedByPage(page: string): Promise<PageContent[]> {
+  async findPublishedByPage(
+    page: string,
+    includeUnpublished = false,
+  ): Promise<PageContent[]> {
     return await this.pageContentRepository.find({
-      where: { page, isPublished: true },
+      where: includeUnpublished ? { page } : { page, isPublished: true },
       order: { sortOrder: 'ASC' },
     });
   }
 
   /**
    * Find a specific published section by page and section key (public)
+   * @param includeUnpublished - Preview of the page, drafts included
    */
   async findByPageAndSection(
     page: string,
     section: string,
+    includeUnpublished = false,
   ): Promise<PageContent> {
     const entry = await this.pageContentRepository.findOne({
-      where: { page, section, isPublished: true },
+      where: includeUnpublished
+        ? { page, section }
+        : { page, section, isPublished: true },
     });
 
     if (!entry) {
@@ -170,16 +191,29 @@ export class PageContentService {
     const entry = await this.findById(id);
 
     // Exclude image field - image updates go through updateImage
-    const { image: _image, ...safeUpdate } =
-      updateDto as UpdatePageContentDto & { image?: string };
+    const {
+      image: _image,
+      scheduledAt,
+      ...safeUpdate
+    } = updateDto as UpdatePageContentDto & { image?: string };
     if (safeUpdate.content) {
       safeUpdate.content = this.sanitizeContent(safeUpdate.content);
     }
     Object.assign(entry, safeUpdate);
 
+    // Publishing with a future scheduledAt schedules the entry
+    if (updateDto.isPublished !== undefined || scheduledAt !== undefined) {
+      applyPublicationSchedule(
+        entry,
+        updateDto.isPublished ?? (entry.isPublished || !!entry.scheduledAt),
+        scheduledAt === undefined ? entry.scheduledAt : scheduledAt,
+      );
+    }
+
     try {
       const updated = await this.pageContentRepository.save(entry);
       this.logger.log(`Page content updated successfully: ${id}`);
+      await this.recordRevision(updated);
       return updated;
     } catch (error) {
       this.logger.error(
@@ -195,32 +229,29 @@ export class PageContentService {
   async updateImage(
     id: string,
     file: Express.Multer.File,
-    baseUrl: string,
   ): Promise<PageContent> {
     const entry = await this.findById(id);
+    const oldImage = entry.image;
 
-    await this.uploadService.ensureUploadDir('page-content');
+    // Store the new image first so a rejected file keeps the old one
+    const stored = await this.uploadService.storeImage(file, 'page-content');
 
-    // Delete old image if exists
-    if (entry.image) {
-      const oldFilename = this.extractFilename(entry.image);
-      if (oldFilename) {
-        await this.uploadService
-          .deleteFile(oldFilename, 'page-content')
-          .catch((err) => {
-            this.logger.warn(`Failed to delete old image: ${err.message}`);
-          });
-      }
+    entry.image = stored.key;
+    entry.imageVariants = stored.variants;
+
+    let updated: PageContent;
+    try {
+      updated = await this.pageContentRepository.save(entry);
+    } catch (error) {
+      await this.uploadService.deleteImages([stored.key]);
+      throw error;
     }
 
-    // Set new image URL
-    entry.image = this.uploadService.getFileUrl(
-      file.filename,
-      baseUrl,
-      'page-content',
-    );
+    // Delete old image, if any, once the entry points to the new one
+    if (oldImage) {
+      await this.uploadService.deleteImages([oldImage]);
+    }
 
-    const updated = await this.pageContentRepository.save(entry);
     this.logger.log(`Page content image updated: ${id}`);
     return updated;
   }
@@ -233,31 +264,98 @@ export class PageContentService {
 
     // Delete image file if exists
     if (entry.image) {
-      const filename = this.extractFilename(entry.image);
-      if (filename) {
-        await this.uploadService
-          .deleteFile(filename, 'page-content')
-          .catch((err) => {
-            this.logger.warn(
-              `Failed to delete image for page content ${id}: ${err.message}`,
-            );
-          });
-      }
+      await this.uploadService.deleteImages([entry.image]);
     }
 
     await this.pageContentRepository.remove(entry);
+    await this.revisionsService.removeAll('page-content', id);
     this.logger.log(`Page content deleted successfully: ${id}`);
   }
 
   /**
-   * Extract filename from a full image URL
+   * Publish the entries whose scheduled date has come
+   * Called by the publication scheduler
+   * @returns Number of entries published
    */
-  private extractFilename(imageUrl: string): string | null {
-    try {
-      const parts = imageUrl.split('/');
-      return parts[parts.length - 1] || null;
-    } catch {
-      return null;
+  async publishScheduled(now: Date = new Date()): Promise<number> {
+    const due = await this.pageContentRepository.find({
+      where: { scheduledAt: LessThanOrEqual(now) },
+    });
+
+    for (const entry of due) {
+      entry.isPublished = true;
+      entry.scheduledAt = null;
+
+      const published = await this.pageContentRepository.save(entry);
+      await this.recordRevision(published);
+      this.logger.log(`Scheduled page content published: ${entry.id}`);
     }
+
+    return due.length;
+  }
+
+  /**
+   * History of an entry, newest first
+   */
+  async findRevisions(id: string): Promise<RevisionSummary[]> {
+    await this.findById(id);
+    return await this.revisionsService.findAll('page-content', id);
+  }
+
+  /**
+   * Compare two revisions of an entry
+   */
+  async diffRevisions(
+    id: string,
+    fromId: string,
+    toId: string,
+  ): Promise<RevisionDiff> {
+    await this.findById(id);
+    return await this.revisionsService.diff('page-content', id, fromId, toId);
+  }
+
+  /**
+   * Bring back the title, content and publish state of a revision
+   * The image is kept as it is
+   */
+  async restoreRevision(id: string, revisionId: string): Promise<PageContent> {
+    const entry = await this.findById(id);
+    const revision = await this.revisionsService.findOne(
+      'page-content',
+      id,
+      revisionId,
+    );
+
+    entry.title = revision.title;
+    entry.content = revision.content;
+    applyPublicationSchedule(entry, revision.isPublished, null);
+
+    const restored = await this.pageContentRepository.save(entry);
+    await this.recordRevision(restored, revision.id);
+
+    this.logger.log(`Page content ${id} restored to revision ${revisionId}`);
+    return restored;
+  }
+
+  /**
+   * Snapshot the versioned fields of an entry after a save
+   */
+  private async recordRevision(
+    entry: PageContent,
+    restoredFromId: string | null = null,
+  ): Promise<void> {
+    await this.revisionsService.record(
+      'page-content',
+      entry.id,
+      {
+        title: entry.title ?? null,
+        subtitle: null,
+        content: entry.content ?? null,
+        tags: null,
+        isPublished: entry.isPublished,
+        publishedAt: null,
+      },
+      restoredFromId,
+    );
   }
 }
@@ -0,0 +1,18 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for confirming a card payment from the storefront
+ */
+export class ConfirmPaymentDto {
+  @ApiPropertyOptional({
+    description: 'Card number (fake provider test cards only)',
+    example: '4242 4242 4242 4242',
+  })
+  @IsString()
+  @Matches(/^[\d ]{12,23}$/, {
+    message: 'cardNumber must contain 12 to 19 digits',
+  })
+  @IsOptional()
+  cardNumber?: string;
+}
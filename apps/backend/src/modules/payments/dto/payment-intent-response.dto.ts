@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { PaymentStatus } from '../../../entities/payment.entity';
+
+/**
+ * Payment intent returned to the storefront after checkout
+ */
+export class PaymentIntentResponseDto {
+  @ApiProperty({ description: 'Payment UUID' })
+  paymentId: string;
+
+  @ApiProperty({
+    description: 'Provider handling the payment',
+    example: 'manual',
+  })
+  provider: string;
+
+  @ApiProperty({
+    description: 'Payment status',
+    enum: ['pending', 'succeeded', 'failed', 'refunded'],
+  })
+  status: PaymentStatus;
+
+  @ApiProperty({ description: 'Amount to pay', example: 249.5 })
+  amount: number;
+
+  @ApiProperty({ description: 'Currency code', example: 'EUR' })
+  currency: string;
+
+  @ApiPropertyOptional({
+    description:
+      'What the customer must do next (bank transfer details, card client secret...)',
+    example: {
+      type: 'bank_transfer',
+      iban: 'FR76 3000 6000 0112 3456 7890 189',
+      transferReference: 'AK-20260101-A1B2C3',
+    },
+  })
+  nextAction?: Record<string, string>;
+}
@@ -0,0 +1,236 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Headers,
+  Req,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { PaymentsService } from './payments.service';
+import { ConfirmPaymentDto } from './dto/confirm-payment.dto';
+import { PaymentIntentResponseDto } from './dto/payment-intent-response.dto';
+import { WEBHOOK_SIGNATURE_HEADER } from './providers/webhook-signature';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Payments controller - storefront payment flow, backoffice reconciliation
+ * and provider webhooks
+ */
+@ApiTags('payments')
+@Controller('payments')
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  /**
+   * Start a payment for an order (public endpoint)
+   */
+  @Public()
+  @Post('orders/:orderId/intent')
+  @ApiOperation({ summary: 'Create a payment intent for an order' })
+  @ApiParam({
+    name: 'orderId',
+    type: 'string',
+    format: 'uuid',
+    description: 'Order UUID',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Payment intent created',
+    type: PaymentIntentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Order is not awaiting payment',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Order not found',
+  })
+  async createIntent(
+    @Param('orderId', ParseUUIDPipe) orderId: string,
+  ): Promise<PaymentIntentResponseDto> {
+    return await this.paymentsService.createIntent(orderId);
+  }
+
+  /**
+   * Confirm a card payment (public endpoint)
+   */
+  @Public()
+  @Post(':id/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm a pending card payment' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Payment UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment processed (check status for the outcome)',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Payment is not pending or is a bank transfer',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found',
+  })
+  async confirm(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ConfirmPaymentDto,
+  ) {
+    return await this.paymentsService.confirm(id, { ...dto });
+  }
+
+  /**
+   * Mark a bank transfer as received (admin only)
+   */
+  @Post(':id/received')
+  @Roles('admin')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Mark a bank transfer as received' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Payment UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment succeeded, order marked as paid',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Payment is not a pending bank transfer',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found',
+  })
+  async markAsReceived(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.paymentsService.markAsReceived(id);
+  }
+
+  /**
+   * Refund a payment (admin only)
+   */
+  @Post(':id/refund')
+  @Roles('admin')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Refund a succeeded payment' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'Payment UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment refunded, order marked as refunded',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Payment has not succeeded',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Payment not found',
+  })
+  async refund(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.paymentsService.refund(id);
+  }
+
+  /**
+   * List payments for an order
+   */
+  @Get('orders/:orderId')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List payment attempts for an order' })
+  @ApiParam({
+    name: 'orderId',
+    type: 'string',
+    format: 'uuid',
+    description: 'Order UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payments retrieved successfully',
+  })
+  async findByOrder(@Param('orderId', ParseUUIDPipe) orderId: string) {
+    return await this.paymentsService.findByOrder(orderId);
+  }
+
+  /**
+   * Receive a provider webhook (public endpoint, signature-verified)
+   */
+  @Public()
+  @Post('webhooks/:provider')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive a payment provider webhook' })
+  @ApiParam({
+    name: 'provider',
+    type: 'string',
+    description: 'Provider name',
+    example: 'manual',
+  })
+  @ApiHeader({
+    name: WEBHOOK_SIGNATURE_HEADER,
+    description: 'HMAC-SHA256 signature: t=<unix seconds>,v1=<hex digest>',
+    required: true,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event accepted (or already processed)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid signature',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Unknown provider',
+  })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Headers(WEBHOOK_SIGNATURE_HEADER) signature: string | undefined,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    if (!req.rawBody) {
+      throw new BadRequestException('Missing webhook payload');
+    }
+
+    return await this.paymentsService.handleWebhook(
+      provider,
+      req.rawBody.toString('utf8'),
+      signature,
+    );
+  }
+}
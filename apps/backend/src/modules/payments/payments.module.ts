@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PaymentsService } from './payments.service';
+import { PaymentsController } from './payments.controller';
+import { ManualPaymentProvider } from './providers/manual-payment.provider';
+import { FakeCardPaymentProvider } from './providers/fake-card-payment.provider';
+import { Payment } from '../../entities/payment.entity';
+import { PaymentWebhookEvent } from '../../entities/payment-webhook-event.entity';
+import { OrdersModule } from '../orders/orders.module';
+
+/**
+ * Payments module
+ * Encapsulates payment providers, payment tracking and provider webhooks
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Payment, PaymentWebhookEvent]),
+    OrdersModule,
+  ],
+  controllers: [PaymentsController],
+  providers: [PaymentsService, ManualPaymentProvider, FakeCardPaymentProvider],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,415 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PaymentsService } from './payments.service';
+import { OrdersService } from '../orders/orders.service';
+import { ManualPaymentProvider } from './providers/manual-payment.provider';
+import {
+  FakeCardPaymentProvider,
+  FAKE_CARD_DECLINED,
+  FAKE_CARD_SUCCESS,
+} from './providers/fake-card-payment.provider';
+import { signWebhookPayload } from './providers/webhook-signature';
+import { Payment } from '../../entities/payment.entity';
+import { PaymentWebhookEvent } from '../../entities/payment-webhook-event.entity';
+import { Order } from '../../entities/order.entity';
+
+/**
+ * Unit tests for PaymentsService
+ * Tests provider selection, webhook verification/idempotency and the order
+ * statuses mirrored from payment outcomes
+ */
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+
+  const WEBHOOK_SECRET = 'test-webhook-secret-0123456789';
+
+  const buildOrder = (overrides: Partial<Order> = {}): Order =>
+    ({
+      id: 'order-1',
+      orderNumber: 'AK-20261018-ABCDEF',
+      status: 'pending',
+      total: '149.90' as unknown as number, // decimals come back as strings
+      currency: 'EUR',
+      ...overrides,
+    }) as Order;
+
+  const buildPayment = (overrides: Partial<Payment> = {}): Payment =>
+    ({
+      id: 'payment-1',
+      orderId: 'order-1',
+      provider: 'fake',
+      reference: 'fake_pi_123',
+      status: 'pending',
+      amount: '149.90' as unknown as number,
+      currency: 'EUR',
+      ...overrides,
+    }) as Payment;
+
+  const buildWebhook = (event: object) => {
+    const body = JSON.stringify(event);
+    return { body, signature: signWebhookPayload(body, WEBHOOK_SECRET) };
+  };
+
+  const mockPaymentRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    create: jest.fn((data: object) => ({ ...data })),
+    save: jest.fn((data: object) =>
+      Promise.resolve({ id: 'payment-1', ...data }),
+    ),
+  };
+
+  const mockWebhookEventRepository = {
+    create: jest.fn((data: object) => ({ ...data })),
+    save: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockOrdersService = {
+    findById: jest.fn(),
+    updateStatus: jest.fn(),
+    extendReservation: jest.fn(),
+  };
+
+  const config: Record<string, string> = {
+    PAYMENT_PROVIDER: 'fake',
+    PAYMENTS_WEBHOOK_SECRET: WEBHOOK_SECRET,
+    PAYMENT_BANK_ACCOUNT_HOLDER: 'Atelier Kaisla',
+    PAYMENT_BANK_IBAN: 'FR76 3000 6000 0112 3456 7890 189',
+    PAYMENT_BANK_BIC: 'AGRIFRPP',
+  };
+
+  const mockConfigService = {
+    get: jest.fn(
+      (key: string, defaultValue?: unknown) => config[key] ?? defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        ManualPaymentProvider,
+        FakeCardPaymentProvider,
+        {
+          provide: getRepositoryToken(Payment),
+          useValue: mockPaymentRepository,
+        },
+        {
+          provide: getRepositoryToken(PaymentWebhookEvent),
+          useValue: mockWebhookEventRepository,
+        },
+        {
+          provide: OrdersService,
+          useValue: mockOrdersService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+
+    jest.clearAllMocks();
+    config.PAYMENT_PROVIDER = 'fake';
+    mockWebhookEventRepository.save.mockResolvedValue(undefined);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createIntent', () => {
+    it('should return bank transfer instructions with the manual provider', async () => {
+      // Arrange
+      config.PAYMENT_PROVIDER = 'manual';
+      mockOrdersService.findById.mockResolvedValue(buildOrder());
+
+      // Act
+      const result = await service.createIntent('order-1');
+
+      // Assert
+      expect(result.provider).toBe('manual');
+      expect(result.amount).toBe(149.9);
+      expect(result.nextAction).toMatchObject({
+        type: 'bank_transfer',
+        iban: 'FR76 3000 6000 0112 3456 7890 189',
+        transferReference: 'AK-20261018-ABCDEF',
+        amount: '149.90',
+      });
+      // Transfers take days: the order keeps its stock for a week by default
+      expect(mockOrdersService.extendReservation).toHaveBeenCalledWith(
+        'order-1',
+        7 * 24 * 60,
+      );
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'order-1', status: 'pending' }),
+      );
+    });
+
+    it('should reject orders that are not awaiting payment', async () => {
+      // Arrange
+      mockOrdersService.findById.mockResolvedValue(
+        buildOrder({ status: 'paid' }),
+      );
+
+      // Act & Assert
+      await expect(service.createIntent('order-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirm', () => {
+    it('should mark the order as paid for a successful test card', async () => {
+      // Arrange
+      mockPaymentRepository.findOne.mockResolvedValue(buildPayment());
+
+      // Act
+      const result = await service.confirm('payment-1', {
+        cardNumber: FAKE_CARD_SUCCESS,
+      });
+
+      // Assert
+      expect(result.status).toBe('succeeded');
+      expect(mockOrdersService.updateStatus).toHaveBeenCalledWith(
+        'order-1',
+        'paid',
+      );
+    });
+
+    it('should mark the order as failed for a declined test card', async () => {
+      // Arrange
+      mockPaymentRepository.findOne.mockResolvedValue(buildPayment());
+
+      // Act
+      const result = await service.confirm('payment-1', {
+        cardNumber: FAKE_CARD_DECLINED,
+      });
+
+      // Assert
+      expect(result.status).toBe('failed');
+      expect(result.failureReason).toBe('card_declined');
+      expect(mockOrdersService.updateStatus).toHaveBeenCalledWith(
+        'order-1',
+        'failed',
+      );
+    });
+
+    it('should not let customers confirm bank transfers', async () => {
+      // Arrange
+      mockPaymentRepository.findOne.mockResolvedValue(
+        buildPayment({ provider: 'manual' }),
+      );
+
+      // Act & Assert
+      await expect(service.confirm('payment-1', {})).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('refund', () => {
+    it('should refund a succeeded payment and mark the order as refunded', async () => {
+      // Arrange
+      mockPaymentRepository.findOne.mockResolvedValue(
+        buildPayment({ status: 'succeeded' }),
+      );
+
+      // Act
+      const result = await service.refund('payment-1');
+
+      // Assert
+      expect(result.status).toBe('refunded');
+      expect(mockOrdersService.updateStatus).toHaveBeenCalledWith(
+        'order-1',
+        'refunded',
+      );
+    });
+
+    it('should reject refunds of pending payments', async () => {
+      // Arrange
+      mockPaymentRepository.findOne.mockResolvedValue(buildPayment());
+
+      // Act & Assert
+      await expect(service.refund('payment-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should reject an invalid signature', async () => {
+      // Arrange
+      const { body } = buildWebhook({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        reference: 'fake_pi_123',
+      });
+      const forged = signWebhookPayload(body, 'wrong-secret-0123456789');
+
+      // Act & Assert
+      await expect(service.handleWebhook('fake', body, forged)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPaymentRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reject a stale signature', async () => {
+      // Arrange
+      const body = JSON.stringify({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        reference: 'fake_pi_123',
+      });
+      const staleTimestamp = Math.floor(Date.now() / 1000) - 3600;
+      const signature = signWebhookPayload(
+        body,
+        WEBHOOK_SECRET,
+        staleTimestamp,
+      );
+
+      // Act & Assert
+      await expect(
+        service.handleWebhook('fake', body, signature),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should throw NotFoundException for an unknown provider', async () => {
+      // Act & Assert
+      await expect(
+        service.handleWebhook('stripe', '{}', undefined),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should apply a succeeded event and record it', async () => {
+      // Arrange
+      const { body, signature } = buildWebhook({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        reference: 'fake_pi_123',
+      });
+      mockPaymentRepository.findOne.mockResolvedValue(buildPayment());
+
+      // Act
+      const result = await service.handleWebhook('fake', body, signature);
+
+      // Assert
+      expect(result).toEqual({ received: true, duplicate: false });
+      expect(mockOrdersService.updateStatus).toHaveBeenCalledWith(
+        'order-1',
+        'paid',
+      );
+      expect(mockWebhookEventRepository.create).toHaveBeenCalledWith({
+        provider: 'fake',
+        eventId: 'evt_1',
+        type: 'payment.succeeded',
+        paymentId: 'payment-1',
+      });
+    });
+
+    it('should ignore an event that was already processed', async () => {
+      // Arrange
+      const { body, signature } = buildWebhook({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        reference: 'fake_pi_123',
+      });
+      mockWebhookEventRepository.save.mockRejectedValue({ code: '23505' });
+
+      // Act
+      const result = await service.handleWebhook('fake', body, signature);
+
+      // Assert
+      expect(result).toEqual({ received: true, duplicate: true });
+      expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+      expect(mockOrdersService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should record the event before applying it', async () => {
+      // Arrange
+      const { body, signature } = buildWebhook({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        reference: 'fake_pi_123',
+      });
+      mockPaymentRepository.findOne.mockResolvedValue(buildPayment());
+
+      // Act
+      await service.handleWebhook('fake', body, signature);
+
+      // Assert
+      expect(
+        mockWebhookEventRepository.save.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockPaymentRepository.save.mock.invocationCallOrder[0]);
+    });
+
+    it('should drop the record when the event cannot be applied', async () => {
+      // Arrange
+      const { body, signature } = buildWebhook({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        reference: 'fake_pi_123',
+      });
+      mockPaymentRepository.findOne.mockResolvedValue(buildPayment());
+      mockPaymentRepository.save.mockRejectedValueOnce(new Error('DB down'));
+
+      // Act & Assert
+      await expect(
+        service.handleWebhook('fake', body, signature),
+      ).rejects.toThrow('DB down');
+      expect(mockWebhookEventRepository.delete).toHaveBeenCalledWith({
+        provider: 'fake',
+        eventId: 'evt_1',
+      });
+    });
+
+    it('should not move the order twice when the payment already has the status', async () => {
+      // Arrange
+      const { body, signature } = buildWebhook({
+        id: 'evt_2',
+        type: 'payment.succeeded',
+        reference: 'fake_pi_123',
+      });
+      mockPaymentRepository.findOne.mockResolvedValue(
+        buildPayment({ status: 'succeeded' }),
+      );
+
+      // Act
+      await service.handleWebhook('fake', body, signature);
+
+      // Assert
+      expect(mockOrdersService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should mark the order as refunded on a refund event', async () => {
+      // Arrange
+      const { body, signature } = buildWebhook({
+        id: 'evt_3',
+        type: 'payment.refunded',
+        reference: 'fake_pi_123',
+      });
+      mockPaymentRepository.findOne.mockResolvedValue(
+        buildPayment({ status: 'succeeded' }),
+      );
+
+      // Act
+      await service.handleWebhook('fake', body, signature);
+
+      // Assert
+      expect(mockOrdersService.updateStatus).toHaveBeenCalledWith(
+        'order-1',
+        'refunded',
+      );
+    });
+  });
+});
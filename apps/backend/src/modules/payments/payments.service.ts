@@ -0,0 +1,373 @@
+import {
+  Injectable,
+  NotFoundException,
+  Logger,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { Payment, PaymentStatus } from '../../entities/payment.entity';
+import { PaymentWebhookEvent } from '../../entities/payment-webhook-event.entity';
+import { OrderStatus } from '../../entities/order.entity';
+import { OrdersService } from '../orders/orders.service';
+import { ManualPaymentProvider } from './providers/manual-payment.provider';
+import { FakeCardPaymentProvider } from './providers/fake-card-payment.provider';
+import type {
+  PaymentEventType,
+  PaymentProvider,
+  PaymentProviderName,
+  PaymentResult,
+} from './providers/payment-provider.interface';
+import { PaymentIntentResponseDto } from './dto/payment-intent-response.dto';
+
+/**
+ * Allowed payment status transitions
+ * A failed attempt is final: retrying creates a new payment
+ */
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['succeeded', 'failed'],
+  succeeded: ['refunded'],
+  failed: [],
+  refunded: [],
+};
+
+/**
+ * Order status mirrored from each payment outcome
+ */
+const ORDER_STATUS_FOR_PAYMENT: Partial<Record<PaymentStatus, OrderStatus>> = {
+  succeeded: 'paid',
+  failed: 'failed',
+  refunded: 'refunded',
+};
+
+const PAYMENT_STATUS_FOR_EVENT: Record<PaymentEventType, PaymentStatus> = {
+  'payment.succeeded': 'succeeded',
+  'payment.failed': 'failed',
+  'payment.refunded': 'refunded',
+};
+
+/**
+ * Payments service - collects payments for orders through pluggable providers
+ *
+ * The active provider is chosen with PAYMENT_PROVIDER. Existing payments keep
+ * using the provider that created them, so switching providers never strands
+ * in-flight payments. Every payment outcome is mirrored on the order
+ * (paid / failed / refunded) through OrdersService.
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+  private readonly providers: Map<string, PaymentProvider>;
+
+  constructor(
+    @InjectRepository(Payment)
+    private readonly paymentRepository: Repository<Payment>,
+    @InjectRepository(PaymentWebhookEvent)
+    private readonly webhookEventRepository: Repository<PaymentWebhookEvent>,
+    private readonly ordersService: OrdersService,
+    private readonly configService: ConfigService,
+    manualProvider: ManualPaymentProvider,
+    fakeCardProvider: FakeCardPaymentProvider,
+  ) {
+    this.providers = new Map<string, PaymentProvider>(
+      [manualProvider, fakeCardProvider].map((provider) => [
+        provider.name,
+        provider,
+      ]),
+    );
+  }
+
+  // ──────────────────────────────────────────────
+  // Payment lifecycle
+  // ──────────────────────────────────────────────
+
+  /**
+   * Start a payment for an order with the active provider
+   * Allowed while the order is pending or after a failed attempt
+   */
+  async createIntent(orderId: string): Promise<PaymentIntentResponseDto> {
+    const order = await this.ordersService.findById(orderId);
+
+    if (order.status !== 'pending' && order.status !== 'failed') {
+      throw new BadRequestException(
+        `Order ${order.orderNumber} is not awaiting payment`,
+      );
+    }
+
+    const provider = this.getActiveProvider();
+    const result = await provider.createIntent({
+      orderNumber: order.orderNumber,
+      amount: Number(order.total),
+      currency: order.currency,
+    });
+
+    const payment = await this.paymentRepository.save(
+      this.paymentRepository.create({
+        orderId: order.id,
+        provider: provider.name,
+        reference: result.reference,
+        status: 'pending',
+        amount: order.total,
+        currency: order.currency,
+      }),
+    );
+
+    if (provider.getReservationMinutes) {
+      await this.ordersService.extendReservation(
+        order.id,
+        provider.getReservationMinutes(),
+      );
+    }
+
+    this.logger.log(
+      `Payment ${payment.reference} created for order ${order.orderNumber} (${provider.name})`,
+    );
+
+    return {
+      paymentId: payment.id,
+      provider: payment.provider,
+      status: payment.status,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      nextAction: result.nextAction,
+    };
+  }
+
+  /**
+   * Confirm a pending card payment with the customer's payment details
+   * Bank transfers can only be confirmed by the atelier (see markAsReceived)
+   */
+  async confirm(
+    id: string,
+    payload: Record<string, unknown>,
+  ): Promise<Payment> {
+    const payment = await this.findById(id);
+
+    if (payment.provider === 'manual') {
+      throw new BadRequestException(
+        'Bank transfers are confirmed by the atelier once received',
+      );
+    }
+
+    this.assertStatus(payment, 'pending');
+    const result = await this.getProvider(payment.provider).confirm(
+      payment.reference,
+      payload,
+    );
+
+    return await this.applyResult(payment, result);
+  }
+
+  /**
+   * Record that a bank transfer has been received on the atelier account
+   */
+  async markAsReceived(id: string): Promise<Payment> {
+    const payment = await this.findById(id);
+
+    if (payment.provider !== 'manual') {
+      throw new BadRequestException(
+        'Only bank transfer payments can be marked as received',
+      );
+    }
+
+    this.assertStatus(payment, 'pending');
+    const result = await this.getProvider(payment.provider).confirm(
+      payment.reference,
+      {},
+    );
+
+    return await this.applyResult(payment, result);
+  }
+
+  /**
+   * Refund a succeeded payment in full
+   */
+  async refund(id: string): Promise<Payment> {
+    const payment = await this.findById(id);
+
+    this.assertStatus(payment, 'succeeded');
+    const result = await this.getProvider(payment.provider).refund(
+      payment.reference,
+      Number(payment.amount),
+    );
+
+    return await this.applyResult(payment, result);
+  }
+
+  // ──────────────────────────────────────────────
+  // Webhooks
+  // ──────────────────────────────────────────────
+
+  /**
+   * Handle a provider webhook
+   *
+   * The signature is verified by the provider before anything is read.
+   * The event is recorded before it is applied: the unique constraint on
+   * (provider, event id) lets a single delivery through, so redelivered or
+   * concurrent copies are acknowledged without being applied twice. If
+   * applying fails, the record is dropped so the provider's retry goes
+   * through.
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: string,
+    signature: string | undefined,
+  ): Promise<{ received: true; duplicate: boolean }> {
+    const provider = this.getProvider(providerName);
+    const event = provider.verifyWebhook(rawBody, signature);
+
+    const payment = await this.paymentRepository.findOne({
+      where: { provider: provider.name, reference: event.reference },
+    });
+
+    try {
+      await this.webhookEventRepository.save(
+        this.webhookEventRepository.create({
+          provider: provider.name,
+          eventId: event.id,
+          type: event.type,
+          paymentId: payment?.id ?? null,
+        }),
+      );
+    } catch (error) {
+      // Already processed, or a concurrent delivery recorded it first
+      if ((error as { code?: string }).code === '23505') {
+        this.logger.log(
+          `Ignoring duplicate ${provider.name} event ${event.id}`,
+        );
+        return { received: true, duplicate: true };
+      }
+      throw error;
+    }
+
+    if (!payment) {
+      this.logger.warn(
+        `${provider.name} event ${event.id} references unknown payment ${event.reference}`,
+      );
+      return { received: true, duplicate: false };
+    }
+
+    try {
+      await this.applyResult(payment, {
+        reference: payment.reference,
+        status: PAYMENT_STATUS_FOR_EVENT[event.type],
+        failureReason: event.failureReason,
+      });
+    } catch (error) {
+      await this.webhookEventRepository.delete({
+        provider: provider.name,
+        eventId: event.id,
+      });
+      throw error;
+    }
+
+    return { received: true, duplicate: false };
+  }
+
+  // ──────────────────────────────────────────────
+  // Queries
+  // ──────────────────────────────────────────────
+
+  /**
+   * Find a payment by ID
+   */
+  async findById(id: string): Promise<Payment> {
+    const payment = await this.paymentRepository.findOne({ where: { id } });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
+    }
+
+    return payment;
+  }
+
+  /**
+   * List every payment attempt for an order, most recent first
+   */
+  async findByOrder(orderId: string): Promise<Payment[]> {
+    return await this.paymentRepository.find({
+      where: { orderId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Provider selected by PAYMENT_PROVIDER for new payments
+   */
+  private getActiveProvider(): PaymentProvider {
+    return this.getProvider(
+      this.configService.get<PaymentProviderName>('PAYMENT_PROVIDER', 'manual'),
+    );
+  }
+
+  private getProvider(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new NotFoundException(`Unknown payment provider "${name}"`);
+    }
+
+    return provider;
+  }
+
+  private assertStatus(payment: Payment, expected: PaymentStatus): void {
+    if (payment.status !== expected) {
+      throw new BadRequestException(
+        `Payment ${payment.reference} is ${payment.status}, expected ${expected}`,
+      );
+    }
+  }
+
+  /**
+   * Persist a provider outcome and mirror it on the order
+   * Re-applying the current status is a no-op, which keeps webhooks and
+   * synchronous confirmations from racing each other
+   */
+  private async applyResult(
+    payment: Payment,
+    result: PaymentResult,
+  ): Promise<Payment> {
+    if (payment.status === result.status) {
+      return payment;
+    }
+
+    if (!PAYMENT_TRANSITIONS[payment.status].includes(result.status)) {
+      this.logger.warn(
+        `Ignoring ${result.status} for payment ${payment.reference} in status ${payment.status}`,
+      );
+      return payment;
+    }
+
+    payment.status = result.status;
+    payment.failureReason = result.failureReason ?? null;
+    const saved = await this.paymentRepository.save(payment);
+
+    const orderStatus = ORDER_STATUS_FOR_PAYMENT[result.status];
+    if (orderStatus) {
+      try {
+        await this.ordersService.updateStatus(payment.orderId, orderStatus);
+      } catch (error) {
+        // e.g. a transfer received after the reservation expired, or while
+        // it was expiring: the payment is recorded and the order needs
+        // manual follow-up
+        if (
+          !(error instanceof BadRequestException) &&
+          !(error instanceof ConflictException)
+        ) {
+          throw error;
+        }
+        this.logger.error(
+          `Payment ${payment.reference} is ${result.status} but order ${payment.orderId} could not be moved to ${orderStatus}: ${error.message}`,
+        );
+      }
+    }
+
+    return saved;
+  }
+}
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import type {
+  PaymentEvent,
+  PaymentProvider,
+  PaymentResult,
+} from './payment-provider.interface';
+import { parseSignedWebhook } from './webhook-signature';
+
+/**
+ * Test card numbers understood by the fake provider
+ */
+export const FAKE_CARD_SUCCESS = '4242424242424242';
+export const FAKE_CARD_DECLINED = '4000000000000002';
+
+/**
+ * Fake card provider for development and tests
+ *
+ * Behaves like a card processor without any network call: confirming with
+ * FAKE_CARD_SUCCESS succeeds, FAKE_CARD_DECLINED is declined and any other
+ * number is rejected as invalid. Never allowed in production.
+ */
+@Injectable()
+export class FakeCardPaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  createIntent(): Promise<PaymentResult> {
+    const reference = `fake_pi_${randomBytes(12).toString('hex')}`;
+
+    return Promise.resolve({
+      reference,
+      status: 'pending',
+      nextAction: {
+        type: 'card',
+        clientSecret: `${reference}_secret_${randomBytes(8).toString('hex')}`,
+      },
+    });
+  }
+
+  confirm(
+    reference: string,
+    payload: Record<string, unknown>,
+  ): Promise<PaymentResult> {
+    const cardNumber =
+      typeof payload.cardNumber === 'string'
+        ? payload.cardNumber.replace(/\s+/g, '')
+        : '';
+
+    if (cardNumber === FAKE_CARD_SUCCESS) {
+      return Promise.resolve({ reference, status: 'succeeded' });
+    }
+
+    return Promise.resolve({
+      reference,
+      status: 'failed',
+      failureReason:
+        cardNumber === FAKE_CARD_DECLINED ? 'card_declined' : 'invalid_card',
+    });
+  }
+
+  refund(reference: string): Promise<PaymentResult> {
+    return Promise.resolve({ reference, status: 'refunded' });
+  }
+
+  verifyWebhook(rawBody: string, signature: string | undefined): PaymentEvent {
+    return parseSignedWebhook(
+      rawBody,
+      signature,
+      this.configService.get<string>('PAYMENTS_WEBHOOK_SECRET'),
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import type {
+  PaymentEvent,
+  PaymentIntentInput,
+  PaymentProvider,
+  PaymentResult,
+} from './payment-provider.interface';
+import { parseSignedWebhook } from './webhook-signature';
+
+/**
+ * Manual / bank transfer provider
+ *
+ * Fully local: the customer receives the atelier bank details with the order
+ * number as transfer reference, and an admin confirms the payment once the
+ * transfer shows up on the account. Refunds are made by transfer as well, so
+ * the provider only records them.
+ */
+@Injectable()
+export class ManualPaymentProvider implements PaymentProvider {
+  readonly name = 'manual' as const;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Transfers take a few business days to show up on the account
+   */
+  getReservationMinutes(): number {
+    return (
+      this.configService.get<number>('PAYMENT_BANK_TRANSFER_DAYS', 7) * 24 * 60
+    );
+  }
+
+  createIntent(input: PaymentIntentInput): Promise<PaymentResult> {
+    return Promise.resolve({
+      reference: `bt_${randomBytes(12).toString('hex')}`,
+      status: 'pending',
+      nextAction: {
+        type: 'bank_transfer',
+        accountHolder: this.configService.get<string>(
+          'PAYMENT_BANK_ACCOUNT_HOLDER',
+          '',
+        ),
+        iban: this.configService.get<string>('PAYMENT_BANK_IBAN', ''),
+        bic: this.configService.get<string>('PAYMENT_BANK_BIC', ''),
+        transferReference: input.orderNumber,
+        amount: input.amount.toFixed(2),
+        currency: input.currency,
+      },
+    });
+  }
+
+  confirm(reference: string): Promise<PaymentResult> {
+    return Promise.resolve({ reference, status: 'succeeded' });
+  }
+
+  refund(reference: string): Promise<PaymentResult> {
+    return Promise.resolve({ reference, status: 'refunded' });
+  }
+
+  verifyWebhook(rawBody: string, signature: string | undefined): PaymentEvent {
+    return parseSignedWebhook(
+      rawBody,
+      signature,
+      this.configService.get<string>('PAYMENTS_WEBHOOK_SECRET'),
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import type { PaymentStatus } from '../../../entities/payment.entity';
+
+/**
+ * Names of the payment providers shipped with the backend
+ * Selected at runtime through the PAYMENT_PROVIDER environment variable
+ */
+export type PaymentProviderName = 'manual' | 'fake';
+
+/**
+ * Amount to collect for an order, in the order currency
+ */
+export interface PaymentIntentInput {
+  orderNumber: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Outcome of a provider call, normalized across providers
+ */
+export interface PaymentResult {
+  reference: string;
+  status: PaymentStatus;
+  failureReason?: string;
+  /**
+   * What the customer must do next to complete the payment
+   * (bank transfer instructions, card client secret...)
+   */
+  nextAction?: Record<string, string>;
+}
+
+export type PaymentEventType =
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'payment.refunded';
+
+/**
+ * Verified webhook event, normalized across providers
+ */
+export interface PaymentEvent {
+  /** Provider-side event ID, used for idempotency */
+  id: string;
+  type: PaymentEventType;
+  /** Provider-side payment reference */
+  reference: string;
+  failureReason?: string;
+}
+
+/**
+ * Contract every payment provider implements
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /**
+   * How long an order keeps its stock once a payment is started, when the
+   * provider needs longer than the default checkout reservation
+   */
+  getReservationMinutes?(): number;
+
+  /**
+   * Start collecting a payment for an order
+   */
+  createIntent(input: PaymentIntentInput): Promise<PaymentResult>;
+
+  /**
+   * Complete a pending payment (card details, manual reconciliation...)
+   */
+  confirm(
+    reference: string,
+    payload: Record<string, unknown>,
+  ): Promise<PaymentResult>;
+
+  /**
+   * Refund a succeeded payment
+   */
+  refund(reference: string, amount: number): Promise<PaymentResult>;
+
+  /**
+   * Verify a webhook signature and parse its payload
+   * Throws UnauthorizedException when the signature is invalid
+   */
+  verifyWebhook(rawBody: string, signature: string | undefined): PaymentEvent;
+}
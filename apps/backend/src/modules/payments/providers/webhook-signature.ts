@@ -0,0 +1,118 @@
+import { UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type {
+  PaymentEvent,
+  PaymentEventType,
+} from './payment-provider.interface';
+
+/**
+ * Header carrying the webhook signature: `t=<unix seconds>,v1=<hex hmac>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-kaisla-signature';
+
+/**
+ * Maximum age of a signed webhook, protects against replayed requests
+ */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const EVENT_TYPES: PaymentEventType[] = [
+  'payment.succeeded',
+  'payment.failed',
+  'payment.refunded',
+];
+
+/**
+ * Sign a webhook payload with HMAC-SHA256 over `<timestamp>.<payload>`
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against the raw payload
+ * Comparison is constant-time and stale timestamps are rejected
+ */
+export function isValidWebhookSignature(
+  payload: string,
+  header: string | undefined,
+  secret: string,
+  now: number = Date.now(),
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    }),
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(payload, secret, timestamp).split('v1=')[1],
+    'hex',
+  );
+  const received = Buffer.from(signature, 'hex');
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Verify a signed webhook and parse it into a normalized payment event
+ * Shared by the built-in providers, which all use the same signing scheme
+ */
+export function parseSignedWebhook(
+  rawBody: string,
+  header: string | undefined,
+  secret: string,
+): PaymentEvent {
+  if (!isValidWebhookSignature(rawBody, header, secret)) {
+    throw new UnauthorizedException('Invalid webhook signature');
+  }
+
+  let payload: Partial<PaymentEvent>;
+  try {
+    payload = JSON.parse(rawBody) as Partial<PaymentEvent>;
+  } catch {
+    throw new BadRequestException('Webhook payload is not valid JSON');
+  }
+
+  if (
+    typeof payload?.id !== 'string' ||
+    typeof payload.reference !== 'string' ||
+    !EVENT_TYPES.includes(payload.type)
+  ) {
+    throw new BadRequestException('Malformed webhook event');
+  }
+
+  return {
+    id: payload.id,
+    type: payload.type,
+    reference: payload.reference,
+    failureReason:
+      typeof payload.failureReason === 'string'
+        ? payload.failureReason
+        : undefined,
+  };
+}
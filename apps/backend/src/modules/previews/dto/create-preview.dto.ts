@@ -0,0 +1,30 @@
+import { IsIn, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import type { PreviewEntityType } from '../previews.service';
+
+export const PREVIEW_ENTITY_TYPES: PreviewEntityType[] = [
+  'blog-article',
+  'about-section',
+  'page-content',
+];
+
+/**
+ * DTO for issuing a preview link of a draft
+ */
+export class CreatePreviewDto {
+  @ApiProperty({
+    description: 'Type of content to preview',
+    enum: PREVIEW_ENTITY_TYPES,
+    example: 'blog-article',
+  })
+  @IsIn(PREVIEW_ENTITY_TYPES)
+  entityType: PreviewEntityType;
+
+  @ApiProperty({
+    description:
+      'Article, about section or page content UUID (a page content entry previews its whole page)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  entityId: string;
+}
@@ -0,0 +1,15 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query of public endpoints that can show unpublished content
+ */
+export class PreviewQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Preview token issued from the backoffice, to include unpublished content',
+  })
+  @IsString()
+  @IsOptional()
+  preview?: string;
+}
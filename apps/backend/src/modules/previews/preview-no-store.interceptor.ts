@@ -0,0 +1,27 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+
+/**
+ * Keeps previews out of every cache (browser, CDN, reverse proxy)
+ * Drafts must never be served to visitors from a cached response
+ */
+@Injectable()
+export class PreviewNoStoreInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<{ query?: { preview?: string } }>();
+
+    if (request?.query?.preview) {
+      http
+        .getResponse<{ setHeader(name: string, value: string): void }>()
+        .setHeader('Cache-Control', 'private, no-store');
+    }
+
+    return next.handle();
+  }
+}
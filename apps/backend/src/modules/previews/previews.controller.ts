@@ -0,0 +1,39 @@
+import { Body, Controller, Post } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PreviewLink, PreviewsService } from './previews.service';
+import { CreatePreviewDto } from './dto/create-preview.dto';
+
+/**
+ * Previews controller - issues preview links of unpublished content
+ */
+@ApiTags('previews')
+@ApiBearerAuth()
+@Controller('previews')
+export class PreviewsController {
+  constructor(private readonly previewsService: PreviewsService) {}
+
+  /**
+   * Issue a signed, expiring storefront link showing a draft (protected)
+   */
+  @Post()
+  @ApiOperation({ summary: 'Issue a preview link of unpublished content' })
+  @ApiResponse({
+    status: 201,
+    description: 'Preview token, storefront URL and expiry date',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Content not found',
+  })
+  async create(@Body() createDto: CreatePreviewDto): Promise<PreviewLink> {
+    return await this.previewsService.issue(
+      createDto.entityType,
+      createDto.entityId,
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { AboutSection } from '../../entities/about-section.entity';
+import { PageContent } from '../../entities/page-content.entity';
+import { PreviewsController } from './previews.controller';
+import { PreviewsService } from './previews.service';
+import { deriveTokenSecret } from '../../common/utils/app-config.util';
+
+/**
+ * Previews module
+ * Preview links of drafts; the public blog, about-sections and page-content
+ * endpoints check their token with PreviewsService
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([BlogArticle, AboutSection, PageContent]),
+    JwtModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        secret: deriveTokenSecret(configService, 'preview-tokens'),
+      }),
+    }),
+  ],
+  controllers: [PreviewsController],
+  providers: [PreviewsService],
+  exports: [PreviewsService],
+})
+export class PreviewsModule {}
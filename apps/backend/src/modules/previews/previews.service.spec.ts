@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { PreviewsService } from './previews.service';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { AboutSection } from '../../entities/about-section.entity';
+import { PageContent } from '../../entities/page-content.entity';
+
+/**
+ * Unit tests for PreviewsService
+ * Tokens are signed for real, with a test secret
+ */
+describe('PreviewsService', () => {
+  let service: PreviewsService;
+  let jwtService: JwtService;
+
+  const articleId = '550e8400-e29b-41d4-a716-446655440000';
+  const sectionId = '6ba7b810-9dad-11d1-80b4-00c04fd430c8';
+
+  const mockArticleRepository = { findOne: jest.fn() };
+  const mockAboutSectionRepository = { exists: jest.fn() };
+  const mockPageContentRepository = { findOne: jest.fn() };
+
+  const config: Record<string, unknown> = {
+    PREVIEW_TOKEN_TTL_MINUTES: 30,
+    FRONTEND_URL: 'https://shop.example.com/',
+  };
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PreviewsService,
+        {
+          provide: getRepositoryToken(BlogArticle),
+          useValue: mockArticleRepository,
+        },
+        {
+          provide: getRepositoryToken(AboutSection),
+          useValue: mockAboutSectionRepository,
+        },
+        {
+          provide: getRepositoryToken(PageContent),
+          useValue: mockPageContentRepository,
+        },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PreviewsService>(PreviewsService);
+    jwtService = module.get<JwtService>(JwtService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('issue', () => {
+    it('should link to the article on the storefront', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        id: articleId,
+        slug: 'spring-collection',
+      });
+
+      // Act
+      const link = await service.issue('blog-article', articleId);
+
+      // Assert
+      expect(link.url).toBe(
+        `https://shop.example.com/blog/spring-collection?preview=${link.token}`,
+      );
+      expect(link.expiresAt.getTime()).toBeGreaterThan(
+        Date.now() + 29 * 60 * 1000,
+      );
+      expect(service.canPreview(link.token, 'blog-article', articleId)).toBe(
+        true,
+      );
+    });
+
+    it('should scope page content previews to their whole page', async () => {
+      // Arrange
+      mockPageContentRepository.findOne.mockResolvedValue({
+        id: sectionId,
+        page: 'home',
+        section: 'hero',
+      });
+
+      // Act
+      const link = await service.issue('page-content', sectionId);
+
+      // Assert
+      expect(link.url).toBe(`https://shop.example.com/?preview=${link.token}`);
+      expect(service.canPreview(link.token, 'page-content', 'home')).toBe(true);
+    });
+
+    it('should throw NotFoundException for unknown content', async () => {
+      // Arrange
+      mockAboutSectionRepository.exists.mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(service.issue('about-section', sectionId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('canPreview', () => {
+    it('should return false without a token', () => {
+      expect(service.canPreview(undefined, 'blog-article', articleId)).toBe(
+        false,
+      );
+    });
+
+    it('should ignore a token issued for other content', async () => {
+      // Arrange
+      mockArticleRepository.findOne.mockResolvedValue({
+        id: articleId,
+        slug: 'spring-collection',
+      });
+      const { token } = await service.issue('blog-article', articleId);
+
+      // Act & Assert
+      expect(service.canPreview(token, 'blog-article', sectionId)).toBe(false);
+      expect(service.canPreview(token, 'about-section', articleId)).toBe(false);
+    });
+
+    it('should reject expired or forged tokens', () => {
+      // Arrange
+      const expired = jwtService.sign(
+        { typ: 'preview', ent: 'blog-article', ref: articleId },
+        { expiresIn: -10 },
+      );
+      const forged = new JwtService({ secret: 'other' }).sign({
+        typ: 'preview',
+        ent: 'blog-article',
+        ref: articleId,
+      });
+
+      // Act & Assert
+      expect(() =>
+        service.canPreview(expired, 'blog-article', articleId),
+      ).toThrow(UnauthorizedException);
+      expect(() =>
+        service.canPreview(forged, 'blog-article', articleId),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject tokens that are not preview tokens', () => {
+      // Arrange
+      const accessToken = jwtService.sign({ sub: articleId, username: 'x' });
+
+      // Act & Assert
+      expect(() =>
+        service.canPreview(accessToken, 'blog-article', articleId),
+      ).toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('previewedId', () => {
+    it('should return the previewed section of a valid token', async () => {
+      // Arrange
+      mockAboutSectionRepository.exists.mockResolvedValue(true);
+      const { token } = await service.issue('about-section', sectionId);
+
+      // Act & Assert
+      expect(service.previewedId(token, 'about-section')).toBe(sectionId);
+      expect(service.previewedId(token, 'page-content')).toBeUndefined();
+      expect(service.previewedId(undefined, 'about-section')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Repository } from 'typeorm';
+import { BlogArticle } from '../../entities/blog-article.entity';
+import { AboutSection } from '../../entities/about-section.entity';
+import { PageContent } from '../../entities/page-content.entity';
+import { getFrontendUrl } from '../../common/utils/app-config.util';
+
+/**
+ * Content that can be previewed before publication
+ */
+export type PreviewEntityType =
+  | 'blog-article'
+  | 'about-section'
+  | 'page-content';
+
+/**
+ * `typ` claim of preview tokens
+ */
+const PREVIEW_TOKEN_TYPE = 'preview';
+
+/**
+ * Claims of a preview token
+ * `ref` is the article or section id, or the page of a page content entry
+ * (a page is previewed as a whole)
+ */
+interface PreviewTokenPayload {
+  typ: typeof PREVIEW_TOKEN_TYPE;
+  ent: PreviewEntityType;
+  ref: string;
+}
+
+/**
+ * Signed preview link of a draft, to open on the storefront
+ */
+export interface PreviewLink {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Previews service
+ *
+ * Issues signed, expiring tokens letting anyone holding the link see one
+ * unpublished blog article, about section or page of the storefront. Tokens
+ * are stateless JWTs (signed with a key derived from JWT_SECRET, so they can
+ * never pass for access tokens) valid PREVIEW_TOKEN_TTL_MINUTES.
+ */
+@Injectable()
+export class PreviewsService {
+  private readonly logger = new Logger(PreviewsService.name);
+
+  constructor(
+    @InjectRepository(BlogArticle)
+    private readonly articleRepository: Repository<BlogArticle>,
+    @InjectRepository(AboutSection)
+    private readonly aboutSectionRepository: Repository<AboutSection>,
+    @InjectRepository(PageContent)
+    private readonly pageContentRepository: Repository<PageContent>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Issue a preview link for an entry
+   * @throws NotFoundException if the entry does not exist
+   */
+  async issue(
+    entityType: PreviewEntityType,
+    entityId: string,
+  ): Promise<PreviewLink> {
+    const { ref, path } = await this.resolveTarget(entityType, entityId);
+
+    const ttlMinutes = this.configService.get<number>(
+      'PREVIEW_TOKEN_TTL_MINUTES',
+      60,
+    );
+    const payload: PreviewTokenPayload = {
+      typ: PREVIEW_TOKEN_TYPE,
+      ent: entityType,
+      ref,
+    };
+    const token = this.jwtService.sign(payload, {
+      expiresIn: ttlMinutes * 60,
+    });
+
+    const frontendUrl = getFrontendUrl(this.configService);
+
+    this.logger.log(`Preview link issued for ${entityType} ${entityId}`);
+    return {
+      token,
+      url: `${frontendUrl}${path}?preview=${encodeURIComponent(token)}`,
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    };
+  }
+
+  /**
+   * Whether a request may see unpublished content of an entry
+   * A valid token of other content is ignored, so the storefront can send
+   * the token of its page to every endpoint the page calls
+   * @param token - `preview` query parameter, if any
+   * @param ref - Article or section id, or page
+   * @throws UnauthorizedException if the token is invalid or expired
+   */
+  canPreview(
+    token: string | undefined,
+    entityType: PreviewEntityType,
+    ref: string,
+  ): boolean {
+    return token !== undefined && this.previewedId(token, entityType) === ref;
+  }
+
+  /**
+   * Entry a preview token was issued for, for lists including it
+   * @returns Article or section id, or page; undefined without a token or
+   * for a token of another type of content
+   * @throws UnauthorizedException if the token is invalid or expired
+   */
+  previewedId(
+    token: string | undefined,
+    entityType: PreviewEntityType,
+  ): string | undefined {
+    if (!token) {
+      return undefined;
+    }
+
+    let payload: PreviewTokenPayload;
+    try {
+      payload = this.jwtService.verify<PreviewTokenPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired preview link');
+    }
+
+    if (payload.typ !== PREVIEW_TOKEN_TYPE) {
+      throw new UnauthorizedException('Invalid or expired preview link');
+    }
+    return payload.ent === entityType ? payload.ref : undefined;
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Token scope and storefront path of an entry
+   */
+  private async resolveTarget(
+    entityType: PreviewEntityType,
+    entityId: string,
+  ): Promise<{ ref: string; path: string }> {
+    switch (entityType) {
+      case 'blog-article': {
+        const article = await this.articleRepository.findOne({
+          where: { id: entityId },
+        });
+        if (!article) {
+          throw new NotFoundException(
+            `Blog article with ID "${entityId}" not found`,
+          );
+        }
+        return {
+          ref: entityId,
+          path: `/blog/${encodeURIComponent(article.slug)}`,
+        };
+      }
+      case 'about-section': {
+        const exists = await this.aboutSectionRepository.exists({
+          where: { id: entityId },
+        });
+        if (!exists) {
+          throw new NotFoundException(
+            `About section with ID "${entityId}" not found`,
+          );
+        }
+        return { ref: entityId, path: '/about' };
+      }
+      case 'page-content': {
+        const entry = await this.pageContentRepository.findOne({
+          where: { id: entityId },
+        });
+        if (!entry) {
+          throw new NotFoundException(
+            `Page content with ID "${entityId}" not found`,
+          );
+        }
+        return {
+          ref: entry.page,
+          path: entry.page === 'home' ? '/' : `/${entry.page}`,
+        };
+      }
+    }
+  }
+}
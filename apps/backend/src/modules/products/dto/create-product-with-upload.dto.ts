@@ -7,6 +7,8 @@ import {
   IsPositive,
   Min,
   MaxLength,
+  Matches,
+  IsBoolean,
   ValidateNested,
 } from 'class-validator';
 import { Type, Transform, plainToClass } from 'class-transformer';
@@ -48,6 +50,19 @@ export class CreateProductWithUploadDto {
   @MaxLength(255)
   name: string;
 
+  @ApiPropertyOptional({
+    description: 'URL-friendly slug (auto-generated from name if not provided)',
+    maxLength: 255,
+    example: 'handwoven-wall-hanging',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug must contain only lowercase letters, numbers and dashes',
+  })
+  slug?: string;
+
   @ApiPropertyOptional({
     description: 'Product description',
     maxLength: 500,
@@ -96,6 +111,19 @@ export class CreateProductWithUploadDto {
   @Transform(({ value }) => parseInt(value as string, 10))
   stockQuantity?: number;
 
+  @ApiPropertyOptional({
+    description: 'Show the piece in the public archive once sold',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value as boolean;
+  })
+  showInArchive?: boolean;
+
   @ApiPropertyOptional({
     description: 'Product dimensions (JSON string or object)',
     example: '{"width": 50, "height": 70, "unit": "cm"}',
@@ -7,7 +7,9 @@ import {
   IsPositive,
   Min,
   MaxLength,
+  Matches,
   IsArray,
+  IsBoolean,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
@@ -46,6 +48,19 @@ export class CreateProductDto {
   @MaxLength(255)
   name: string;
 
+  @ApiPropertyOptional({
+    description: 'URL-friendly slug (auto-generated from name if not provided)',
+    maxLength: 255,
+    example: 'handwoven-wall-hanging',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug must contain only lowercase letters, numbers and dashes',
+  })
+  slug?: string;
+
   @ApiPropertyOptional({
     description: 'Product description',
     maxLength: 500,
@@ -92,6 +107,14 @@ export class CreateProductDto {
   @IsOptional()
   stockQuantity?: number;
 
+  @ApiPropertyOptional({
+    description: 'Show the piece in the public archive once sold',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  showInArchive?: boolean;
+
   @ApiPropertyOptional({
     description: 'Array of image URLs',
     type: [String],
@@ -12,7 +12,6 @@ import {
   ParseUUIDPipe,
   UseInterceptors,
   UploadedFiles,
-  Req,
   BadRequestException,
   Logger,
 } from '@nestjs/common';
@@ -25,7 +24,6 @@ import {
   ApiConsumes,
   ApiBody,
 } from '@nestjs/swagger';
-import { Request } from 'express';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
@@ -33,6 +31,7 @@ import { ProductQueryDto } from './dto/product-query.dto';
 import { CreateProductWithUploadDto } from './dto/create-product-with-upload.dto';
 import { UpdateProductImageDto } from './dto/update-product-image.dto';
 import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
 
 /**
  * Products controller - handles HTTP requests for products
@@ -58,6 +57,10 @@ export class ProductsController {
     status: 400,
     description: 'Invalid input data',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Product with this slug already exists',
+  })
   async create(@Body() createDto: CreateProductDto) {
     return await this.productsService.create(createDto);
   }
@@ -79,6 +82,13 @@ export class ProductsController {
           maxLength: 255,
           example: 'Handwoven Wall Hanging',
         },
+        slug: {
+          type: 'string',
+          maxLength: 255,
+          description:
+            'URL-friendly slug (auto-generated from name if not provided)',
+          example: 'handwoven-wall-hanging',
+        },
         description: {
           type: 'string',
           maxLength: 500,
@@ -137,6 +147,10 @@ export class ProductsController {
     status: 400,
     description: 'Invalid input data or file validation failed',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Product with this slug already exists',
+  })
   @ApiResponse({
     status: 413,
     description: 'File size exceeds limit (5MB)',
@@ -144,7 +158,6 @@ export class ProductsController {
   async createWithUpload(
     @Body() createDto: CreateProductWithUploadDto,
     @UploadedFiles() files: Express.Multer.File[],
-    @Req() request: Request,
   ) {
     this.logger.log('POST /api/products/with-upload - Request received');
     this.logger.debug(`Body: ${JSON.stringify(createDto, null, 2)}`);
@@ -156,15 +169,10 @@ export class ProductsController {
       throw new BadRequestException('At least one image is required');
     }
 
-    // Get base URL for constructing image URLs
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
-    this.logger.debug(`Base URL: ${baseUrl}`);
-
     // Create product with uploaded images
     const result = await this.productsService.createWithImages(
       createDto,
       files,
-      baseUrl,
     );
 
     this.logger.log(`Product created successfully: ${result.id}`);
@@ -204,6 +212,27 @@ export class ProductsController {
     return await this.productsService.findByCategory(category);
   }
 
+  /**
+   * Get the archived sold pieces of a category (public endpoint)
+   */
+  @Public()
+  @Get('category/:category/archive')
+  @ApiOperation({ summary: 'Get the sold pieces of a category' })
+  @ApiParam({
+    name: 'category',
+    enum: ['wall-hanging', 'rug'],
+    description: 'Product category',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Archived products found, without their price',
+  })
+  async findArchiveByCategory(
+    @Param('category') category: 'wall-hanging' | 'rug',
+  ) {
+    return await this.productsService.findArchiveByCategory(category);
+  }
+
   /**
    * Get product statistics
    */
@@ -233,6 +262,31 @@ export class ProductsController {
     return await this.productsService.findHomeGridImages();
   }
 
+  /**
+   * Get a single product by slug (public detail page)
+   * IMPORTANT: This route must be defined BEFORE the :id route to avoid conflicts
+   */
+  @Public()
+  @Get('slug/:slug')
+  @ApiOperation({ summary: 'Get a product by slug' })
+  @ApiParam({
+    name: 'slug',
+    type: 'string',
+    description: 'Product slug',
+    example: 'handwoven-wall-hanging',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Product found',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Product not found',
+  })
+  async findBySlug(@Param('slug') slug: string) {
+    return await this.productsService.findBySlug(slug);
+  }
+
   /**
    * Get a single product by ID
    */
@@ -288,9 +342,10 @@ export class ProductsController {
   }
 
   /**
-   * Delete a product
+   * Delete a product (admin only)
    */
   @Delete(':id')
+  @Roles('admin')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a product' })
   @ApiParam({
@@ -303,6 +358,10 @@ export class ProductsController {
     status: 204,
     description: 'Product deleted successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'Product not found',
@@ -355,14 +414,12 @@ export class ProductsController {
   async addImages(
     @Param('id', ParseUUIDPipe) id: string,
     @UploadedFiles() files: Express.Multer.File[],
-    @Req() request: Request,
     @Body('showOnHome') showOnHomeRaw?: string,
   ) {
     if (!files || files.length === 0) {
       throw new BadRequestException('At least one image is required');
     }
 
-    const baseUrl = `${request.protocol}://${request.get('host')}`;
     let showOnHomeFlags: boolean[] = [];
     if (showOnHomeRaw) {
       try {
@@ -375,7 +432,6 @@ export class ProductsController {
     return await this.productsService.addImagesToProduct(
       id,
       files,
-      baseUrl,
       showOnHomeFlags,
     );
   }
@@ -407,6 +463,7 @@ export class ProductsController {
    * Remove an image from a product
    */
   @Delete(':id/images/:imageId')
+  @Roles('admin')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Remove an image from a product' })
   @ApiParam({ name: 'id', type: 'string', format: 'uuid' })
@@ -415,6 +472,10 @@ export class ProductsController {
     status: 204,
     description: 'Image removed successfully',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - admin role required',
+  })
   @ApiResponse({
     status: 404,
     description: 'Product image not found',
@@ -1,4 +1,4 @@
-import { Module, Logger } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MulterModule } from '@nestjs/platform-express';
 import { ProductsService } from './products.service';
@@ -6,11 +6,8 @@ import { ProductsController } from './products.controller';
 import { Product } from '../../entities/product.entity';
 import { ProductImage } from '../../entities/product-image.entity';
 import { UploadModule } from '../upload/upload.module';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
-import { v4 as uuidv4 } from 'uuid';
-
-const logger = new Logger('ProductsModule');
+import { imageUploadOptions } from '../upload/image-upload.options';
+import { StockAlertsModule } from '../stock-alerts/stock-alerts.module';
 
 /**
  * Products module
@@ -23,48 +20,9 @@ const logger = new Logger('ProductsModule');
     // Import upload module for file handling
     UploadModule,
     // Configure multer for this module
-    MulterModule.register({
-      storage: diskStorage({
-        destination: './uploads/products',
-        filename: (req, file, callback) => {
-          // Generate unique filename with original extension
-          const uniqueName = `${uuidv4()}${extname(file.originalname)}`;
-          logger.debug(
-            `Saving file: ${file.originalname} as ${uniqueName} (${file.size} bytes)`,
-          );
-          callback(null, uniqueName);
-        },
-      }),
-      fileFilter: (req, file, callback) => {
-        // Only allow image files
-        const allowedMimeTypes = [
-          'image/jpeg',
-          'image/jpg',
-          'image/png',
-          'image/webp',
-        ];
-
-        if (allowedMimeTypes.includes(file.mimetype)) {
-          logger.debug(
-            `File accepted: ${file.originalname} (${file.mimetype})`,
-          );
-          callback(null, true);
-        } else {
-          logger.warn(
-            `File rejected: ${file.originalname} (${file.mimetype}) - Invalid mime type`,
-          );
-          callback(
-            new Error(
-              'Invalid file type. Only JPEG, PNG, and WebP images are allowed.',
-            ),
-            false,
-          );
-        }
-      },
-      limits: {
-        fileSize: 5 * 1024 * 1024, // 5MB max file size
-      },
-    }),
+    MulterModule.register(imageUploadOptions),
+    // Notify the stock alerts when a product can be bought again
+    StockAlertsModule,
   ],
   controllers: [ProductsController],
   providers: [ProductsService],
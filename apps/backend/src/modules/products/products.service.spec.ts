@@ -1,13 +1,18 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { ProductsService } from './products.service';
 import { Product } from '../../entities/product.entity';
 import { ProductImage } from '../../entities/product-image.entity';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { UploadService } from '../upload/upload.service';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
 
 /**
  * Unit tests for ProductsService
@@ -21,11 +26,13 @@ describe('ProductsService', () => {
   const mockProduct: Product = {
     id: '123e4567-e89b-12d3-a456-426614174000',
     name: 'Test Wall Hanging',
+    slug: 'test-wall-hanging',
     description: 'Test description',
     category: 'wall-hanging',
     price: 149.99,
     status: 'available',
     stockQuantity: 1,
+    showInArchive: true,
     productImages: [],
     dimensions: { width: 60, height: 90, unit: 'cm' },
     materials: 'Cotton',
@@ -40,6 +47,7 @@ describe('ProductsService', () => {
     find: jest.fn(),
     findOne: jest.fn(),
     delete: jest.fn(),
+    remove: jest.fn(),
     count: jest.fn(),
     createQueryBuilder: jest.fn(),
   };
@@ -55,10 +63,17 @@ describe('ProductsService', () => {
 
   // Mock UploadService
   const mockUploadService = {
-    ensureUploadDir: jest.fn(),
-    getFileUrl: jest.fn(),
-    deleteFile: jest.fn(),
-    deleteFiles: jest.fn(),
+    storeImages: jest.fn(),
+    deleteImages: jest.fn(),
+  };
+
+  // Mock StockAlertsService (purchasable rule kept as in the service)
+  const mockStockAlertsService = {
+    isPurchasable: jest.fn(
+      (product: Pick<Product, 'status' | 'stockQuantity'>) =>
+        product.status === 'available' && product.stockQuantity > 0,
+    ),
+    notifyAvailable: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -78,6 +93,10 @@ describe('ProductsService', () => {
           provide: UploadService,
           useValue: mockUploadService,
         },
+        {
+          provide: StockAlertsService,
+          useValue: mockStockAlertsService,
+        },
       ],
     }).compile();
 
@@ -107,6 +126,7 @@ describe('ProductsService', () => {
         dimensions: { width: 60, height: 90, unit: 'cm' },
       };
 
+      mockRepository.findOne.mockResolvedValue(null);
       mockRepository.create.mockReturnValue(mockProduct);
       mockRepository.save.mockResolvedValue(mockProduct);
 
@@ -114,11 +134,56 @@ describe('ProductsService', () => {
       const result = await service.create(createDto);
 
       // Assert
-      expect(mockRepository.create).toHaveBeenCalledWith(createDto);
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        ...createDto,
+        slug: 'test-wall-hanging',
+      });
       expect(mockRepository.save).toHaveBeenCalledWith(mockProduct);
       expect(result).toEqual(mockProduct);
     });
 
+    it('should suffix the generated slug when it is already taken', async () => {
+      // Arrange
+      const createDto: CreateProductDto = {
+        name: 'Test Wall Hanging',
+        category: 'wall-hanging',
+        price: 149.99,
+      };
+
+      mockRepository.findOne
+        .mockResolvedValueOnce(mockProduct) // "test-wall-hanging" taken
+        .mockResolvedValueOnce(null); // "test-wall-hanging-2" free
+      mockRepository.create.mockReturnValue(mockProduct);
+      mockRepository.save.mockResolvedValue(mockProduct);
+
+      // Act
+      await service.create(createDto);
+
+      // Assert
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        ...createDto,
+        slug: 'test-wall-hanging-2',
+      });
+    });
+
+    it('should throw ConflictException when explicit slug is taken', async () => {
+      // Arrange
+      const createDto: CreateProductDto = {
+        name: 'Another Hanging',
+        slug: 'test-wall-hanging',
+        category: 'wall-hanging',
+        price: 149.99,
+      };
+
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+
+      // Act & Assert
+      await expect(service.create(createDto)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
     it('should throw BadRequestException on database error', async () => {
       // Arrange
       const createDto: CreateProductDto = {
@@ -127,6 +192,7 @@ describe('ProductsService', () => {
         price: 100,
       };
 
+      mockRepository.findOne.mockResolvedValue(null);
       mockRepository.create.mockReturnValue(mockProduct);
       mockRepository.save.mockRejectedValue(new Error('Database error'));
 
@@ -135,6 +201,112 @@ describe('ProductsService', () => {
         BadRequestException,
       );
     });
+
+    it('should notify the stock alerts of a purchasable product', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(mockProduct);
+      mockRepository.save.mockResolvedValue(mockProduct);
+
+      // Act
+      await service.create({
+        name: 'Test Wall Hanging',
+        category: 'wall-hanging',
+        price: 149.99,
+      });
+
+      // Assert
+      expect(mockStockAlertsService.notifyAvailable).toHaveBeenCalledWith(
+        mockProduct,
+      );
+    });
+
+    it('should not notify the stock alerts of a draft', async () => {
+      // Arrange
+      const draft = { ...mockProduct, status: 'draft' as const };
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(draft);
+      mockRepository.save.mockResolvedValue(draft);
+
+      // Act
+      await service.create({
+        name: 'Test Wall Hanging',
+        category: 'wall-hanging',
+        price: 149.99,
+        status: 'draft',
+      });
+
+      // Assert
+      expect(mockStockAlertsService.notifyAvailable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createWithImages', () => {
+    const file = {
+      originalname: 'hanging.jpg',
+      size: 1024,
+    } as Express.Multer.File;
+
+    beforeEach(() => {
+      mockUploadService.storeImages.mockResolvedValue([
+        { key: 'products/hanging.webp', variants: null },
+      ]);
+      mockProductImageRepository.create.mockImplementation(
+        (data: Partial<ProductImage>) => data,
+      );
+      mockProductImageRepository.save.mockResolvedValue([]);
+      mockRepository.create.mockImplementation((data: Partial<Product>) => ({
+        ...mockProduct,
+        ...data,
+      }));
+      mockRepository.save.mockImplementation((product: Product) =>
+        Promise.resolve(product),
+      );
+    });
+
+    it('should notify the stock alerts of a purchasable product', async () => {
+      // Arrange
+      mockRepository.findOne
+        .mockResolvedValueOnce(null) // slug free
+        .mockResolvedValueOnce(mockProduct); // reloaded with its images
+
+      // Act
+      const result = await service.createWithImages(
+        {
+          name: 'Test Wall Hanging',
+          category: 'wall-hanging',
+          price: 149.99,
+        },
+        [file],
+      );
+
+      // Assert
+      expect(result).toEqual(mockProduct);
+      expect(mockStockAlertsService.notifyAvailable).toHaveBeenCalledWith(
+        mockProduct,
+      );
+    });
+
+    it('should not notify the stock alerts of a product out of stock', async () => {
+      // Arrange
+      mockRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...mockProduct, stockQuantity: 0 });
+
+      // Act
+      await service.createWithImages(
+        {
+          name: 'Test Wall Hanging',
+          category: 'wall-hanging',
+          price: 149.99,
+          stockQuantity: 0,
+        },
+        [file],
+      );
+
+      // Assert
+      expect(mockStockAlertsService.notifyAvailable).not.toHaveBeenCalled();
+    });
   });
 
   describe('findById', () => {
@@ -167,6 +339,52 @@ describe('ProductsService', () => {
     });
   });
 
+  describe('findBySlug', () => {
+    it('should return a published product by slug', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+
+      // Act
+      const result = await service.findBySlug(mockProduct.slug);
+
+      // Assert
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: [
+          { slug: mockProduct.slug, status: 'available' },
+          { slug: mockProduct.slug, status: 'sold', showInArchive: true },
+        ],
+      });
+      expect(result).toEqual(mockProduct);
+    });
+
+    it('should leave out the price of a sold piece kept in the archive', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue({
+        ...mockProduct,
+        status: 'sold',
+      });
+
+      // Act
+      const result = await service.findBySlug(mockProduct.slug);
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({ id: mockProduct.id, status: 'sold' }),
+      );
+      expect(result).not.toHaveProperty('price');
+    });
+
+    it('should throw NotFoundException when slug does not exist', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findBySlug('unknown-slug')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
   describe('findAll', () => {
     it('should return paginated products', async () => {
       // Arrange
@@ -262,6 +480,99 @@ describe('ProductsService', () => {
         service.update('non-existent-id', updateDto),
       ).rejects.toThrow(NotFoundException);
     });
+
+    it('should notify the stock alerts when a sold product goes back to available', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue({
+        ...mockProduct,
+        status: 'sold',
+      });
+      mockRepository.save.mockImplementation((product: Product) =>
+        Promise.resolve(product),
+      );
+
+      // Act
+      const result = await service.update(mockProduct.id, {
+        status: 'available',
+      });
+
+      // Assert
+      expect(mockStockAlertsService.notifyAvailable).toHaveBeenCalledWith(
+        result,
+      );
+    });
+
+    it('should notify the stock alerts when the stock rises above zero', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue({
+        ...mockProduct,
+        stockQuantity: 0,
+      });
+      mockRepository.save.mockImplementation((product: Product) =>
+        Promise.resolve(product),
+      );
+
+      // Act
+      await service.update(mockProduct.id, { stockQuantity: 2 });
+
+      // Assert
+      expect(mockStockAlertsService.notifyAvailable).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer without waiting for the stock alert emails', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue({
+        ...mockProduct,
+        status: 'sold',
+      });
+      mockRepository.save.mockImplementation((product: Product) =>
+        Promise.resolve(product),
+      );
+      mockStockAlertsService.notifyAvailable.mockReturnValueOnce(
+        new Promise(() => undefined),
+      );
+
+      // Act
+      const result = await service.update(mockProduct.id, {
+        status: 'available',
+      });
+
+      // Assert
+      expect(result.status).toBe('available');
+      expect(mockStockAlertsService.notifyAvailable).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not notify when the product could already be bought', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue({ ...mockProduct });
+      mockRepository.save.mockImplementation((product: Product) =>
+        Promise.resolve(product),
+      );
+
+      // Act
+      await service.update(mockProduct.id, { stockQuantity: 3 });
+
+      // Assert
+      expect(mockStockAlertsService.notifyAvailable).not.toHaveBeenCalled();
+    });
+
+    it('should not notify a product set to available without stock', async () => {
+      // Arrange
+      mockRepository.findOne.mockResolvedValue({
+        ...mockProduct,
+        status: 'sold',
+        stockQuantity: 0,
+      });
+      mockRepository.save.mockImplementation((product: Product) =>
+        Promise.resolve(product),
+      );
+
+      // Act
+      await service.update(mockProduct.id, { status: 'available' });
+
+      // Assert
+      expect(mockStockAlertsService.notifyAvailable).not.toHaveBeenCalled();
+    });
   });
 
   describe('remove', () => {
@@ -272,7 +583,7 @@ describe('ProductsService', () => {
         productImages: [
           {
             id: 'img-1',
-            url: 'http://localhost:4000/uploads/products/test.jpg',
+            url: 'products/test.jpg',
             showOnHome: false,
             sortOrder: 0,
             productId: mockProduct.id,
@@ -281,8 +592,8 @@ describe('ProductsService', () => {
         ],
       };
       mockRepository.findOne.mockResolvedValue(productWithImages);
-      mockRepository.delete.mockResolvedValue({ affected: 1, raw: {} });
-      mockUploadService.deleteFile.mockResolvedValue(undefined);
+      mockRepository.remove.mockResolvedValue(productWithImages);
+      mockUploadService.deleteImages.mockResolvedValue(undefined);
 
       // Act
       await service.remove(mockProduct.id);
@@ -292,8 +603,10 @@ describe('ProductsService', () => {
         where: { id: mockProduct.id },
         relations: ['productImages'],
       });
-      expect(mockUploadService.deleteFile).toHaveBeenCalledWith('test.jpg');
-      expect(mockRepository.delete).toHaveBeenCalledWith(mockProduct.id);
+      expect(mockUploadService.deleteImages).toHaveBeenCalledWith([
+        'products/test.jpg',
+      ]);
+      expect(mockRepository.remove).toHaveBeenCalledWith(productWithImages);
     });
 
     it('should throw NotFoundException when product not found', async () => {
@@ -361,6 +674,46 @@ describe('ProductsService', () => {
     });
   });
 
+  describe('findArchiveByCategory', () => {
+    it('should return the sold products kept in the archive', async () => {
+      // Arrange
+      const soldProduct = { ...mockProduct, status: 'sold' as const };
+      mockRepository.find.mockResolvedValue([soldProduct]);
+
+      // Act
+      const result = await service.findArchiveByCategory('rug');
+
+      // Assert
+      expect(mockRepository.find).toHaveBeenCalledWith({
+        where: {
+          category: 'rug',
+          status: 'sold',
+          showInArchive: true,
+        },
+        order: {
+          updatedAt: 'DESC',
+        },
+      });
+      expect(result).toHaveLength(1);
+      expect(result[0]).toEqual(
+        expect.objectContaining({ id: soldProduct.id, slug: soldProduct.slug }),
+      );
+    });
+
+    it('should leave out the price of the sold products', async () => {
+      // Arrange
+      mockRepository.find.mockResolvedValue([
+        { ...mockProduct, status: 'sold' as const },
+      ]);
+
+      // Act
+      const result = await service.findArchiveByCategory('wall-hanging');
+
+      // Assert
+      expect(result[0]).not.toHaveProperty('price');
+    });
+  });
+
   describe('findHomeGridImages', () => {
     it('should return images flagged for home page', async () => {
       // Arrange
@@ -424,4 +777,92 @@ describe('ProductsService', () => {
       ).rejects.toThrow(NotFoundException);
     });
   });
+
+  describe('addImagesToProduct', () => {
+    const mockFiles = [
+      { originalname: 'new-image.jpg', size: 12345 } as Express.Multer.File,
+    ];
+
+    beforeEach(() => {
+      mockRepository.findOne.mockResolvedValue(mockProduct);
+      mockProductImageRepository.find.mockResolvedValue([{ sortOrder: 1 }]);
+      mockUploadService.deleteImages.mockResolvedValue(undefined);
+    });
+
+    it('should store responsive variants with each new image', async () => {
+      // Arrange
+      const variants = [
+        {
+          url: 'products/new-image-640w.webp',
+          width: 640,
+          format: 'webp' as const,
+        },
+      ];
+      mockUploadService.storeImages.mockResolvedValue([
+        { key: 'products/new-image.jpg', variants },
+      ]);
+      mockProductImageRepository.create.mockImplementation(
+        (data: Partial<ProductImage>) => data,
+      );
+      mockProductImageRepository.save.mockImplementation(
+        (data: Partial<ProductImage>[]) => Promise.resolve(data),
+      );
+
+      // Act
+      const result = await service.addImagesToProduct(
+        mockProduct.id,
+        mockFiles,
+        [true],
+      );
+
+      // Assert
+      expect(mockUploadService.storeImages).toHaveBeenCalledWith(
+        mockFiles,
+        'products',
+      );
+      expect(result).toEqual([
+        expect.objectContaining({
+          url: 'products/new-image.jpg',
+          variants,
+          showOnHome: true,
+          sortOrder: 2,
+          productId: mockProduct.id,
+        }),
+      ]);
+    });
+
+    it('should not save anything when an image cannot be processed', async () => {
+      // Arrange
+      mockUploadService.storeImages.mockRejectedValue(
+        new BadRequestException('Invalid image file: new-image.jpg'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.addImagesToProduct(mockProduct.id, mockFiles),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockProductImageRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should delete the stored images when saving them fails', async () => {
+      // Arrange
+      mockUploadService.storeImages.mockResolvedValue([
+        { key: 'products/new-image.jpg', variants: [] },
+      ]);
+      mockProductImageRepository.create.mockImplementation(
+        (data: Partial<ProductImage>) => data,
+      );
+      mockProductImageRepository.save.mockRejectedValue(
+        new Error('Database error'),
+      );
+
+      // Act & Assert
+      await expect(
+        service.addImagesToProduct(mockProduct.id, mockFiles),
+      ).rejects.toThrow('Database error');
+      expect(mockUploadService.deleteImages).toHaveBeenCalledWith([
+        'products/new-image.jpg',
+      ]);
+    });
+  });
 });
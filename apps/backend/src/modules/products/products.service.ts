@@ -3,6 +3,7 @@ import {
   NotFoundException,
   Logger,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
@@ -13,7 +14,14 @@ import { UpdateProductDto } from './dto/update-product.dto';
 import { ProductQueryDto } from './dto/product-query.dto';
 import { CreateProductWithUploadDto } from './dto/create-product-with-upload.dto';
 import { UpdateProductImageDto } from './dto/update-product-image.dto';
-import { UploadService } from '../upload/upload.service';
+import { UploadService, StoredImage } from '../upload/upload.service';
+import { StockAlertsService } from '../stock-alerts/stock-alerts.service';
+import { slugify } from '../../common/utils/slug.util';
+
+/**
+ * Sold piece as listed on the public archive, without its price
+ */
+export type ArchivedProduct = Omit<Product, 'price'>;
 
 /**
  * Product service - handles business logic for products
@@ -29,61 +37,72 @@ export class ProductsService {
     @InjectRepository(ProductImage)
     private readonly productImageRepository: Repository<ProductImage>,
     private readonly uploadService: UploadService,
+    private readonly stockAlertsService: StockAlertsService,
   ) {}
 
   /**
    * Create a new product
+   * A purchasable product notifies the stock alerts waiting on its category.
    */
   async create(createDto: CreateProductDto): Promise<Product> {
+    const slug = await this.resolveSlug(createDto.name, createDto.slug);
+
+    let saved: Product;
     try {
-      const product = this.productRepository.create(createDto);
-      const saved = await this.productRepository.save(product);
+      const product = this.productRepository.create({ ...createDto, slug });
+      saved = await this.productRepository.save(product);
 
       this.logger.log(`Product created successfully: ${saved.id}`);
-      return saved;
     } catch (error) {
       this.logger.error(`Failed to create product: ${error.message}`);
       throw new BadRequestException('Failed to create product');
     }
+
+    this.notifyIfPurchasable(saved);
+    return saved;
   }
 
   /**
    * Create a new product with uploaded images
+   * A purchasable product notifies the stock alerts waiting on its category.
    */
   async createWithImages(
     createDto: CreateProductWithUploadDto,
     files: Express.Multer.File[],
-    baseUrl: string,
   ): Promise<Product> {
-    await this.uploadService.ensureUploadDir();
-
     this.logger.log(`Creating product with ${files.length} image(s)`);
     this.logger.debug(`Received DTO: ${JSON.stringify(createDto, null, 2)}`);
     this.logger.debug(
-      `Uploaded files: ${files.map((f) => `${f.filename} (${f.size} bytes)`).join(', ')}`,
+      `Uploaded files: ${files.map((f) => `${f.originalname} (${f.size} bytes)`).join(', ')}`,
     );
 
+    let storedImages: StoredImage[] = [];
+    let created: Product;
     try {
       // Parse showOnHome flags
       const showOnHomeFlags = createDto.showOnHome || [];
 
+      // Process images before saving anything so an invalid file never
+      // leaves a product without its images
+      storedImages = await this.uploadService.storeImages(files, 'products');
+
       // Create the product first (without showOnHome metadata)
 
       const { showOnHome: _showOnHome, ...productData } = createDto;
-      const product = this.productRepository.create(productData);
+      const slug = await this.resolveSlug(createDto.name, createDto.slug);
+      const product = this.productRepository.create({ ...productData, slug });
       const savedProduct = await this.productRepository.save(product);
 
       // Create ProductImage entities
-      const productImages = files.map((file, index) => {
-        const url = this.uploadService.getFileUrl(file.filename, baseUrl);
-        this.logger.debug(`Generated URL for ${file.filename}: ${url}`);
-        return this.productImageRepository.create({
-          url,
+      const productImages = storedImages.map((stored, index) =>
+        this.productImageRepository.create({
+          url: stored.key,
+          variants: stored.variants,
           showOnHome: showOnHomeFlags[index] || false,
           sortOrder: index,
           productId: savedProduct.id,
-        });
-      });
+        }),
+      );
 
       await this.productImageRepository.save(productImages);
 
@@ -92,11 +111,16 @@ export class ProductsService {
       );
 
       // Return product with images loaded
-      return await this.findById(savedProduct.id);
+      created = await this.findById(savedProduct.id);
     } catch (error) {
-      // Clean up uploaded files if product creation fails
-      const filenames = files.map((file) => file.filename);
-      await this.uploadService.deleteFiles(filenames);
+      // Clean up stored images if product creation fails
+      await this.uploadService.deleteImages(
+        storedImages.map((stored) => stored.key),
+      );
+
+      if (error instanceof ConflictException) {
+        throw error;
+      }
 
       this.logger.error(`Failed to create product: ${error.message}`);
 
@@ -107,6 +131,9 @@ export class ProductsService {
 
       throw new BadRequestException('Failed to create product');
     }
+
+    this.notifyIfPurchasable(created);
+    return created;
   }
 
   /**
@@ -181,6 +208,28 @@ export class ProductsService {
     });
   }
 
+  /**
+   * Find the sold pieces of a category kept in the archive (public endpoint)
+   * Pieces whose showInArchive flag is off are left out, and the price of a
+   * sold piece is never published
+   */
+  async findArchiveByCategory(
+    category: 'wall-hanging' | 'rug',
+  ): Promise<ArchivedProduct[]> {
+    const products = await this.productRepository.find({
+      where: {
+        category,
+        status: 'sold',
+        showInArchive: true,
+      },
+      order: {
+        updatedAt: 'DESC',
+      },
+    });
+
+    return products.map((product) => this.withoutPrice(product));
+  }
+
   /**
    * Find a product by ID
    */
@@ -196,23 +245,58 @@ export class ProductsService {
     return product;
   }
 
+  /**
+   * Find a product by slug (public detail page)
+   * Drafts, and sold pieces left out of the archive, are never exposed
+   * through this lookup; an archived sold piece comes without its price
+   */
+  async findBySlug(slug: string): Promise<Product | ArchivedProduct> {
+    const product = await this.productRepository.findOne({
+      where: [
+        { slug, status: 'available' },
+        { slug, status: 'sold', showInArchive: true },
+      ],
+    });
+
+    if (!product) {
+      throw new NotFoundException(`Product with slug "${slug}" not found`);
+    }
+
+    return product.status === 'sold' ? this.withoutPrice(product) : product;
+  }
+
   /**
    * Update a product
+   * The slug is kept stable on rename so shared links keep working;
+   * it only changes when a new slug is explicitly provided. A product that
+   * becomes purchasable (set to available, or restocked) notifies the stock
+   * alerts waiting on it and on its category.
    */
   async update(id: string, updateDto: UpdateProductDto): Promise<Product> {
     const product = await this.findById(id);
+    const wasPurchasable = this.stockAlertsService.isPurchasable(product);
+
+    if (updateDto.slug && updateDto.slug !== product.slug) {
+      updateDto.slug = await this.resolveSlug(product.name, updateDto.slug);
+    }
 
     // Merge updates
     Object.assign(product, updateDto);
 
+    let updated: Product;
     try {
-      const updated = await this.productRepository.save(product);
+      updated = await this.productRepository.save(product);
       this.logger.log(`Product updated successfully: ${id}`);
-      return updated;
     } catch (error) {
       this.logger.error(`Failed to update product ${id}: ${error.message}`);
       throw new BadRequestException('Failed to update product');
     }
+
+    if (!wasPurchasable) {
+      this.notifyIfPurchasable(updated);
+    }
+
+    return updated;
   }
 
   /**
@@ -228,21 +312,15 @@ export class ProductsService {
       throw new NotFoundException(`Product with ID "${id}" not found`);
     }
 
-    // Delete physical image files
+    // Delete stored image files
     if (product.productImages?.length > 0) {
-      for (const image of product.productImages) {
-        try {
-          const filename = image.url.split('/').pop();
-          if (filename) {
-            await this.uploadService.deleteFile(filename);
-          }
-        } catch (error) {
-          this.logger.warn(`Failed to delete image file: ${error.message}`);
-        }
-      }
+      await this.uploadService.deleteImages(
+        product.productImages.map((image) => image.url),
+      );
     }
 
-    await this.productRepository.delete(id);
+    // remove() rather than delete(): entity subscribers (audit log) see it
+    await this.productRepository.remove(product);
     this.logger.log(`Product deleted successfully: ${id}`);
   }
 
@@ -318,12 +396,10 @@ export class ProductsService {
   async addImagesToProduct(
     productId: string,
     files: Express.Multer.File[],
-    baseUrl: string,
     showOnHomeFlags: boolean[] = [],
   ): Promise<ProductImage[]> {
     // Verify product exists
     await this.findById(productId);
-    await this.uploadService.ensureUploadDir();
 
     // Get current max sortOrder for this product
     const existingImages = await this.productImageRepository.find({
@@ -334,17 +410,29 @@ export class ProductsService {
     const startSortOrder =
       existingImages.length > 0 ? existingImages[0].sortOrder + 1 : 0;
 
-    const productImages = files.map((file, index) => {
-      const url = this.uploadService.getFileUrl(file.filename, baseUrl);
-      return this.productImageRepository.create({
-        url,
+    const storedImages = await this.uploadService.storeImages(
+      files,
+      'products',
+    );
+
+    const productImages = storedImages.map((stored, index) =>
+      this.productImageRepository.create({
+        url: stored.key,
+        variants: stored.variants,
         showOnHome: showOnHomeFlags[index] || false,
         sortOrder: startSortOrder + index,
         productId,
-      });
-    });
+      }),
+    );
 
-    return this.productImageRepository.save(productImages);
+    try {
+      return await this.productImageRepository.save(productImages);
+    } catch (error) {
+      await this.uploadService.deleteImages(
+        storedImages.map((stored) => stored.key),
+      );
+      throw error;
+    }
   }
 
   /**
@@ -361,16 +449,65 @@ export class ProductsService {
       );
     }
 
-    // Extract filename from URL and delete the file
-    try {
-      const filename = image.url.split('/').pop();
-      if (filename) {
-        await this.uploadService.deleteFile(filename);
+    // Delete the stored file and its derivatives
+    await this.uploadService.deleteImages([image.url]);
+
+    await this.productImageRepository.remove(image);
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Sold piece as published, the price left out
+   */
+  private withoutPrice({
+    price: _price,
+    ...product
+  }: Product): ArchivedProduct {
+    return product;
+  }
+
+  /**
+   * Email the stock alerts of a product that can be bought, without waiting
+   * for the emails: the product is saved and notifyAvailable never throws
+   */
+  private notifyIfPurchasable(product: Product): void {
+    if (this.stockAlertsService.isPurchasable(product)) {
+      void this.stockAlertsService.notifyAvailable(product);
+    }
+  }
+
+  /**
+   * Resolve the slug to store for a product
+   * An explicit slug must be free (409 otherwise); a slug derived from the
+   * name gets a numeric suffix until it no longer collides
+   */
+  private async resolveSlug(name: string, slug?: string): Promise<string> {
+    if (slug) {
+      const existing = await this.productRepository.findOne({
+        where: { slug },
+      });
+      if (existing) {
+        throw new ConflictException(
+          `Product with slug "${slug}" already exists`,
+        );
       }
-    } catch (error) {
-      this.logger.warn(`Failed to delete image file: ${error.message}`);
+      return slug;
     }
 
-    await this.productImageRepository.remove(image);
+    const baseSlug = slugify(name) || 'product';
+    let candidate = baseSlug;
+    let suffix = 2;
+
+    while (
+      await this.productRepository.findOne({ where: { slug: candidate } })
+    ) {
+      candidate = `${baseSlug}-${suffix}`;
+      suffix++;
+    }
+
+    return candidate;
   }
 }
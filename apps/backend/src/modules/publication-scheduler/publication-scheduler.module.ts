@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { BlogModule } from '../blog/blog.module';
+import { AboutSectionsModule } from '../about-sections/about-sections.module';
+import { PageContentModule } from '../page-content/page-content.module';
+import { PublicationSchedulerService } from './publication-scheduler.service';
+
+/**
+ * Publication scheduler module
+ * Publishes scheduled content when its date comes
+ */
+@Module({
+  imports: [BlogModule, AboutSectionsModule, PageContentModule],
+  providers: [PublicationSchedulerService],
+})
+export class PublicationSchedulerModule {}
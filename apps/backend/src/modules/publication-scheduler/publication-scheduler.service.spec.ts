@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PublicationSchedulerService } from './publication-scheduler.service';
+import { BlogService } from '../blog/blog.service';
+import { AboutSectionsService } from '../about-sections/about-sections.service';
+import { PageContentService } from '../page-content/page-content.service';
+
+describe('PublicationSchedulerService', () => {
+  let service: PublicationSchedulerService;
+
+  const mockBlogService = { publishScheduled: jest.fn() };
+  const mockAboutSectionsService = { publishScheduled: jest.fn() };
+  const mockPageContentService = { publishScheduled: jest.fn() };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PublicationSchedulerService,
+        { provide: BlogService, useValue: mockBlogService },
+        { provide: AboutSectionsService, useValue: mockAboutSectionsService },
+        { provide: PageContentService, useValue: mockPageContentService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PublicationSchedulerService>(
+      PublicationSchedulerService,
+    );
+
+    jest.clearAllMocks();
+    mockBlogService.publishScheduled.mockResolvedValue(0);
+    mockAboutSectionsService.publishScheduled.mockResolvedValue(0);
+    mockPageContentService.publishScheduled.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    service.onApplicationShutdown();
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('publishDue', () => {
+    it('should publish due entries of every content type', async () => {
+      // Arrange
+      const now = new Date();
+      mockBlogService.publishScheduled.mockResolvedValue(2);
+      mockPageContentService.publishScheduled.mockResolvedValue(1);
+
+      // Act
+      const total = await service.publishDue(now);
+
+      // Assert
+      expect(mockBlogService.publishScheduled).toHaveBeenCalledWith(now);
+      expect(mockAboutSectionsService.publishScheduled).toHaveBeenCalledWith(
+        now,
+      );
+      expect(mockPageContentService.publishScheduled).toHaveBeenCalledWith(now);
+      expect(total).toBe(3);
+    });
+
+    it('should not start a run while another one is ongoing', async () => {
+      // Arrange
+      let finish: (count: number) => void = () => undefined;
+      mockBlogService.publishScheduled.mockReturnValue(
+        new Promise<number>((resolve) => (finish = resolve)),
+      );
+
+      // Act
+      const first = service.publishDue();
+      const second = await service.publishDue();
+      finish(1);
+
+      // Assert
+      expect(second).toBe(0);
+      expect(await first).toBe(1);
+      expect(mockBlogService.publishScheduled).toHaveBeenCalledTimes(1);
+    });
+
+    it('should survive a failed run', async () => {
+      // Arrange
+      mockAboutSectionsService.publishScheduled.mockRejectedValue(
+        new Error('DB error'),
+      );
+
+      // Act & Assert
+      await expect(service.publishDue()).resolves.toBe(0);
+      await expect(service.publishDue()).resolves.toBe(0);
+      expect(mockBlogService.publishScheduled).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('onApplicationBootstrap', () => {
+    it('should run at startup and on every interval', async () => {
+      // Arrange
+      jest.useFakeTimers();
+
+      // Act
+      service.onApplicationBootstrap();
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      // Assert
+      expect(mockBlogService.publishScheduled).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stay idle when disabled', () => {
+      // Arrange
+      jest.useFakeTimers();
+      mockConfigService.get.mockReturnValueOnce(0);
+
+      // Act
+      service.onApplicationBootstrap();
+      jest.advanceTimersByTime(60 * 60 * 1000);
+
+      // Assert
+      expect(mockBlogService.publishScheduled).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlogService } from '../blog/blog.service';
+import { AboutSectionsService } from '../about-sections/about-sections.service';
+import { PageContentService } from '../page-content/page-content.service';
+
+/**
+ * Publication scheduler
+ *
+ * Publishes blog articles, about sections and page content whose scheduled
+ * date has come, every PUBLICATION_SCHEDULER_INTERVAL_SECONDS (0 disables
+ * it). It also runs once at startup, catching up on dates missed while the
+ * backend was down. Runs never overlap; a failed run is logged and retried
+ * at the next tick.
+ */
+@Injectable()
+export class PublicationSchedulerService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(PublicationSchedulerService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly blogService: BlogService,
+    private readonly aboutSectionsService: AboutSectionsService,
+    private readonly pageContentService: PageContentService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    const intervalSeconds = this.configService.get<number>(
+      'PUBLICATION_SCHEDULER_INTERVAL_SECONDS',
+      60,
+    );
+    if (intervalSeconds <= 0) {
+      this.logger.log('Publication scheduler disabled');
+      return;
+    }
+
+    void this.publishDue();
+    this.timer = setInterval(
+      () => void this.publishDue(),
+      intervalSeconds * 1000,
+    );
+    // Never keeps the process alive on its own
+    this.timer.unref();
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Publish every entry whose scheduled date has come
+   * @returns Number of entries published, 0 when a run is already ongoing
+   */
+  async publishDue(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const counts = await Promise.all([
+        this.blogService.publishScheduled(now),
+        this.aboutSectionsService.publishScheduled(now),
+        this.pageContentService.publishScheduled(now),
+      ]);
+      const total = counts.reduce((sum, count) => sum + count, 0);
+
+      if (total > 0) {
+        this.logger.log(
+          `Published ${total} scheduled entr${total === 1 ? 'y' : 'ies'}`,
+        );
+      }
+      return total;
+    } catch (error) {
+      this.logger.error(`Scheduled publication failed: ${error.message}`);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for comparing two revisions of the same content
+ */
+export class RevisionDiffQueryDto {
+  @ApiProperty({
+    description: 'Older revision UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsUUID()
+  from: string;
+
+  @ApiProperty({
+    description: 'Newer revision UUID',
+    example: '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+  })
+  @IsUUID()
+  to: string;
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ContentRevision } from '../../entities/content-revision.entity';
+import { RevisionsService } from './revisions.service';
+
+/**
+ * Revisions module
+ * History of blog articles and page content; the endpoints live with the
+ * content they version (blog and page-content controllers)
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([ContentRevision])],
+  providers: [RevisionsService],
+  exports: [RevisionsService],
+})
+export class RevisionsModule {}
@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { RevisionsService, RevisionSnapshot } from './revisions.service';
+import { ContentRevision } from '../../entities/content-revision.entity';
+import { auditContext } from '../audit-log/audit-context';
+
+/**
+ * Unit tests for RevisionsService
+ */
+describe('RevisionsService', () => {
+  let service: RevisionsService;
+
+  const now = new Date('2026-02-01T10:00:00.000Z');
+
+  const snapshot: RevisionSnapshot = {
+    title: 'The Art of Wall Hanging',
+    subtitle: null,
+    content: '<p>First paragraph.</p><p>Second paragraph.</p>',
+    tags: [{ id: 'tag-1', name: 'Wall Hangings' }],
+    isPublished: true,
+    publishedAt: now,
+  };
+
+  const createRevision = (
+    overrides: Partial<ContentRevision> = {},
+  ): ContentRevision => ({
+    id: 'revision-1',
+    entityType: 'blog-article',
+    entityId: 'article-1',
+    ...snapshot,
+    restoredFromId: null,
+    userId: null,
+    username: null,
+    createdAt: now,
+    ...overrides,
+  });
+
+  const mockRevisionRepository = {
+    create: jest.fn((data: Partial<ContentRevision>) => data),
+    save: jest.fn((revision: Partial<ContentRevision>) =>
+      Promise.resolve({ id: 'revision-2', ...revision }),
+    ),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RevisionsService,
+        {
+          provide: getRepositoryToken(ContentRevision),
+          useValue: mockRevisionRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RevisionsService>(RevisionsService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('record', () => {
+    it('should save a snapshot with the user of the request', async () => {
+      // Arrange
+      mockRevisionRepository.findOne.mockResolvedValue(null);
+
+      // Act
+      await auditContext.run({ userId: 'user-1', username: 'admin' }, () =>
+        service.record('blog-article', 'article-1', snapshot),
+      );
+
+      // Assert
+      expect(mockRevisionRepository.save).toHaveBeenCalledWith({
+        entityType: 'blog-article',
+        entityId: 'article-1',
+        ...snapshot,
+        restoredFromId: null,
+        userId: 'user-1',
+        username: 'admin',
+      });
+    });
+
+    it('should skip a save that changes no versioned field', async () => {
+      // Arrange: same tags in another order, date read back as a string
+      mockRevisionRepository.findOne.mockResolvedValue(
+        createRevision({
+          tags: [{ id: 'tag-1', name: 'Renamed since' }],
+        }),
+      );
+
+      // Act
+      const result = await service.record('blog-article', 'article-1', {
+        ...snapshot,
+        publishedAt: now.toISOString() as unknown as Date,
+      });
+
+      // Assert
+      expect(result).toBeNull();
+      expect(mockRevisionRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should record a content change', async () => {
+      // Arrange
+      mockRevisionRepository.findOne.mockResolvedValue(createRevision());
+
+      // Act
+      const result = await service.record('blog-article', 'article-1', {
+        ...snapshot,
+        content: '<p>Pasted over.</p>',
+      });
+
+      // Assert
+      expect(result).not.toBeNull();
+      expect(mockRevisionRepository.save).toHaveBeenCalled();
+    });
+
+    it('should not throw when the revision cannot be saved', async () => {
+      // Arrange
+      mockRevisionRepository.findOne.mockRejectedValue(new Error('DB error'));
+
+      // Act
+      const result = await service.record('page-content', 'page-1', snapshot);
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException for a revision of another entry', async () => {
+      // Arrange
+      mockRevisionRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.findOne('blog-article', 'article-2', 'revision-1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockRevisionRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          id: 'revision-1',
+          entityType: 'blog-article',
+          entityId: 'article-2',
+        },
+      });
+    });
+  });
+
+  describe('diff', () => {
+    it('should report changed fields and the content diff by block', async () => {
+      // Arrange
+      const from = createRevision();
+      const to = createRevision({
+        id: 'revision-2',
+        title: 'Wall Hanging',
+        isPublished: false,
+        content:
+          '<p>First paragraph.</p><p>Inserted paragraph.</p><p>Second paragraph, edited.</p>',
+      });
+      mockRevisionRepository.findOne
+        .mockResolvedValueOnce(from)
+        .mockResolvedValueOnce(to);
+
+      // Act
+      const result = await service.diff(
+        'blog-article',
+        'article-1',
+        from.id,
+        to.id,
+      );
+
+      // Assert
+      expect(result.fields).toEqual([
+        {
+          field: 'title',
+          before: 'The Art of Wall Hanging',
+          after: 'Wall Hanging',
+        },
+        { field: 'isPublished', before: true, after: false },
+      ]);
+      expect(result.content).toEqual([
+        { type: 'equal', lines: ['<p>First paragraph.</p>'] },
+        { type: 'removed', lines: ['<p>Second paragraph.</p>'] },
+        {
+          type: 'added',
+          lines: [
+            '<p>Inserted paragraph.</p>',
+            '<p>Second paragraph, edited.</p>',
+          ],
+        },
+      ]);
+      expect(result.from).not.toHaveProperty('content');
+    });
+  });
+
+  describe('removeAll', () => {
+    it('should delete the history of an entry', async () => {
+      // Act
+      await service.removeAll('page-content', 'page-1');
+
+      // Assert
+      expect(mockRevisionRepository.delete).toHaveBeenCalledWith({
+        entityType: 'page-content',
+        entityId: 'page-1',
+      });
+    });
+  });
+});
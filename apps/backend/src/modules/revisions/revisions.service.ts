@@ -0,0 +1,248 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ContentRevision,
+  RevisionEntityType,
+} from '../../entities/content-revision.entity';
+import {
+  DiffChunk,
+  diffLines,
+  splitHtmlBlocks,
+} from '../../common/utils/text-diff.util';
+import { getAuditActor } from '../audit-log/audit-context';
+
+/**
+ * Versioned fields of a content entry
+ */
+export type RevisionSnapshot = Pick<
+  ContentRevision,
+  'title' | 'subtitle' | 'content' | 'tags' | 'isPublished' | 'publishedAt'
+>;
+
+/**
+ * Revision as listed in the history, without its content
+ */
+export type RevisionSummary = Omit<ContentRevision, 'content' | 'user'>;
+
+/**
+ * Versioned fields compared one by one; content is diffed by lines
+ */
+const COMPARED_FIELDS = [
+  'title',
+  'subtitle',
+  'tags',
+  'isPublished',
+  'publishedAt',
+] as const;
+
+export interface RevisionFieldChange {
+  field: (typeof COMPARED_FIELDS)[number];
+  before: unknown;
+  after: unknown;
+}
+
+export interface RevisionDiff {
+  from: RevisionSummary;
+  to: RevisionSummary;
+  /**
+   * Changed fields only
+   */
+  fields: RevisionFieldChange[];
+  /**
+   * Every block of the content, equal ones included for context
+   */
+  content: DiffChunk[];
+}
+
+/**
+ * Revisions service
+ *
+ * Keeps the history of blog articles and page content: the owning service
+ * records a snapshot after each save, and a save that leaves the versioned
+ * fields unchanged (reordering, image edits) adds no revision. Restoring a
+ * revision is a save like any other, so it is itself undoable.
+ */
+@Injectable()
+export class RevisionsService {
+  private readonly logger = new Logger(RevisionsService.name);
+
+  constructor(
+    @InjectRepository(ContentRevision)
+    private readonly revisionRepository: Repository<ContentRevision>,
+  ) {}
+
+  /**
+   * Record the state of an entry after a save
+   * A failure is logged and never fails the save itself
+   */
+  async record(
+    entityType: RevisionEntityType,
+    entityId: string,
+    snapshot: RevisionSnapshot,
+    restoredFromId: string | null = null,
+  ): Promise<ContentRevision | null> {
+    try {
+      const latest = await this.revisionRepository.findOne({
+        where: { entityType, entityId },
+        order: { createdAt: 'DESC' },
+      });
+      if (latest && this.isSameSnapshot(latest, snapshot)) {
+        return null;
+      }
+
+      const actor = getAuditActor();
+      return await this.revisionRepository.save(
+        this.revisionRepository.create({
+          entityType,
+          entityId,
+          ...snapshot,
+          publishedAt: snapshot.publishedAt
+            ? new Date(snapshot.publishedAt)
+            : null,
+          restoredFromId,
+          userId: actor?.userId ?? null,
+          username: actor?.username ?? null,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to record revision of ${entityType} ${entityId}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * History of an entry, newest first
+   */
+  async findAll(
+    entityType: RevisionEntityType,
+    entityId: string,
+  ): Promise<RevisionSummary[]> {
+    return await this.revisionRepository.find({
+      select: {
+        id: true,
+        entityType: true,
+        entityId: true,
+        title: true,
+        subtitle: true,
+        tags: true,
+        isPublished: true,
+        publishedAt: true,
+        restoredFromId: true,
+        userId: true,
+        username: true,
+        createdAt: true,
+      },
+      where: { entityType, entityId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Find a revision of an entry
+   * @throws NotFoundException if it does not exist or belongs to another entry
+   */
+  async findOne(
+    entityType: RevisionEntityType,
+    entityId: string,
+    revisionId: string,
+  ): Promise<ContentRevision> {
+    const revision = await this.revisionRepository.findOne({
+      where: { id: revisionId, entityType, entityId },
+    });
+
+    if (!revision) {
+      throw new NotFoundException(`Revision with ID "${revisionId}" not found`);
+    }
+
+    return revision;
+  }
+
+  /**
+   * Compare two revisions of an entry
+   */
+  async diff(
+    entityType: RevisionEntityType,
+    entityId: string,
+    fromId: string,
+    toId: string,
+  ): Promise<RevisionDiff> {
+    const [from, to] = await Promise.all([
+      this.findOne(entityType, entityId, fromId),
+      this.findOne(entityType, entityId, toId),
+    ]);
+
+    const fields = COMPARED_FIELDS.filter(
+      (field) => !this.isSameValue(field, from[field], to[field]),
+    ).map((field) => ({ field, before: from[field], after: to[field] }));
+
+    return {
+      from: this.toSummary(from),
+      to: this.toSummary(to),
+      fields,
+      content: diffLines(
+        splitHtmlBlocks(from.content),
+        splitHtmlBlocks(to.content),
+      ),
+    };
+  }
+
+  /**
+   * Delete the history of a deleted entry
+   */
+  async removeAll(
+    entityType: RevisionEntityType,
+    entityId: string,
+  ): Promise<void> {
+    await this.revisionRepository.delete({ entityType, entityId });
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  private toSummary(revision: ContentRevision): RevisionSummary {
+    const { content: _content, user: _user, ...summary } = revision;
+    return summary;
+  }
+
+  private isSameSnapshot(
+    revision: ContentRevision,
+    snapshot: RevisionSnapshot,
+  ): boolean {
+    return (
+      (revision.content ?? null) === (snapshot.content ?? null) &&
+      COMPARED_FIELDS.every((field) =>
+        this.isSameValue(field, revision[field], snapshot[field]),
+      )
+    );
+  }
+
+  /**
+   * Tags are compared by id, dates by instant; empty values are equal
+   */
+  private isSameValue(
+    field: RevisionFieldChange['field'],
+    a: unknown,
+    b: unknown,
+  ): boolean {
+    if (field === 'tags') {
+      const ids = (tags: unknown) =>
+        ((tags as { id: string }[] | null) ?? [])
+          .map((tag) => tag.id)
+          .sort()
+          .join(',');
+      return ids(a) === ids(b);
+    }
+
+    if (field === 'publishedAt') {
+      const time = (date: unknown) =>
+        date ? new Date(date as string | Date).getTime() : null;
+      return time(a) === time(b);
+    }
+
+    return (a ?? null) === (b ?? null);
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { StockAlertCategory } from '../../../entities/stock-alert.entity';
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+/**
+ * DTO for a "notify me when available" request from the storefront
+ * Exactly one of productId and category is expected
+ */
+export class CreateStockAlertDto {
+  @ApiProperty({ description: 'Email address', example: 'jane@example.com' })
+  @Transform(trim)
+  @IsEmail()
+  @MaxLength(255)
+  email: string;
+
+  @ApiPropertyOptional({
+    description: 'Sold or out-of-stock product to watch',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @IsOptional()
+  productId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Category to watch for new pieces',
+    enum: ['wall-hanging', 'rug'],
+  })
+  @IsEnum(['wall-hanging', 'rug'])
+  @IsOptional()
+  category?: StockAlertCategory;
+
+  /**
+   * Honeypot: hidden from visitors, so only bots fill it in
+   */
+  @ApiPropertyOptional({
+    description: 'Leave empty (spam trap)',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  website?: string;
+}
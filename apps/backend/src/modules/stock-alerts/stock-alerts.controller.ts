@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { StockAlertsService } from './stock-alerts.service';
+import { CreateStockAlertDto } from './dto/create-stock-alert.dto';
+import { Public } from '../auth/decorators/public.decorator';
+
+/**
+ * Stock alerts controller - "notify me when available" requests
+ */
+@ApiTags('stock-alerts')
+@Controller('stock-alerts')
+export class StockAlertsController {
+  constructor(private readonly stockAlertsService: StockAlertsService) {}
+
+  /**
+   * Ask to be emailed when a product or a category has a piece for sale
+   * (public endpoint)
+   */
+  @Public()
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Ask to be notified when a piece is available' })
+  @ApiResponse({
+    status: 202,
+    description: 'Request received',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data, unknown or already available product',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many requests from this IP address',
+  })
+  async create(@Body() createDto: CreateStockAlertDto, @Request() req) {
+    await this.stockAlertsService.create(createDto, { ipAddress: req.ip });
+    return { received: true };
+  }
+}
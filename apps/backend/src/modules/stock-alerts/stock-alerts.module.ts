@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StockAlertsService } from './stock-alerts.service';
+import { StockAlertsController } from './stock-alerts.controller';
+import { StockAlert } from '../../entities/stock-alert.entity';
+import { Product } from '../../entities/product.entity';
+import { MailModule } from '../mail/mail.module';
+
+/**
+ * Stock alerts module
+ * "Notify me when available" requests, notified by the products module
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([StockAlert, Product]), MailModule],
+  controllers: [StockAlertsController],
+  providers: [StockAlertsService],
+  exports: [StockAlertsService],
+})
+export class StockAlertsModule {}
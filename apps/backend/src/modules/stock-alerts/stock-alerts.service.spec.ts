@@ -0,0 +1,361 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, HttpException, HttpStatus } from '@nestjs/common';
+import { IsNull, Not } from 'typeorm';
+import { StockAlertsService } from './stock-alerts.service';
+import { StockAlert } from '../../entities/stock-alert.entity';
+import { Product } from '../../entities/product.entity';
+import { ProductImage } from '../../entities/product-image.entity';
+import { MailService } from '../mail/mail.service';
+
+/**
+ * Unit tests for StockAlertsService
+ */
+describe('StockAlertsService', () => {
+  let service: StockAlertsService;
+
+  const soldProduct: Product = {
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'Tapis Atlas',
+    slug: 'tapis-atlas',
+    description: 'Tapis en laine',
+    category: 'rug',
+    price: 420,
+    status: 'sold',
+    stockQuantity: 0,
+    showInArchive: true,
+    productImages: [
+      {
+        id: 'img-2',
+        url: 'http://localhost:4000/uploads/products/b.webp',
+        showOnHome: false,
+        sortOrder: 1,
+        productId: '123e4567-e89b-12d3-a456-426614174000',
+        createdAt: new Date(),
+      },
+      {
+        id: 'img-1',
+        url: 'http://localhost:4000/uploads/products/a.webp',
+        showOnHome: false,
+        sortOrder: 0,
+        productId: '123e4567-e89b-12d3-a456-426614174000',
+        createdAt: new Date(),
+      },
+    ] as ProductImage[],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const availableProduct: Product = {
+    ...soldProduct,
+    status: 'available',
+    stockQuantity: 1,
+  };
+
+  const mockStockAlertRepository = {
+    create: jest.fn(),
+    save: jest.fn(),
+    count: jest.fn(),
+    findOne: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+  };
+
+  const config: Record<string, unknown> = {
+    FRONTEND_URL: 'https://atelier.example/',
+  };
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockAlertsService,
+        {
+          provide: getRepositoryToken(StockAlert),
+          useValue: mockStockAlertRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<StockAlertsService>(StockAlertsService);
+
+    jest.clearAllMocks();
+    delete config.STOCK_ALERTS_MAX_PER_HOUR;
+    mockStockAlertRepository.count.mockResolvedValue(0);
+    mockStockAlertRepository.findOne.mockResolvedValue(null);
+    mockStockAlertRepository.create.mockImplementation(
+      (data: Partial<StockAlert>) => data,
+    );
+    mockStockAlertRepository.save.mockImplementation(
+      (data: Partial<StockAlert>) =>
+        Promise.resolve({ id: 'alert-1', ...data }),
+    );
+    mockProductRepository.findOne.mockResolvedValue(soldProduct);
+    mockMailService.send.mockResolvedValue(undefined);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should record an alert on a sold product', async () => {
+      // Act
+      await service.create(
+        { email: 'Jane@Example.com', productId: soldProduct.id },
+        { ipAddress: '203.0.113.7' },
+      );
+
+      // Assert
+      expect(mockProductRepository.findOne).toHaveBeenCalledWith({
+        where: { id: soldProduct.id, status: Not('draft') },
+      });
+      expect(mockStockAlertRepository.create).toHaveBeenCalledWith({
+        email: 'jane@example.com',
+        productId: soldProduct.id,
+        category: null,
+        ipAddress: '203.0.113.7',
+      });
+    });
+
+    it('should record an alert on a category', async () => {
+      // Act
+      await service.create({ email: 'jane@example.com', category: 'rug' });
+
+      // Assert
+      expect(mockProductRepository.findOne).not.toHaveBeenCalled();
+      expect(mockStockAlertRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ productId: null, category: 'rug' }),
+      );
+    });
+
+    it('should not record the same waiting alert twice', async () => {
+      // Arrange
+      mockStockAlertRepository.findOne.mockResolvedValue({ id: 'alert-0' });
+
+      // Act
+      await service.create({ email: 'jane@example.com', category: 'rug' });
+
+      // Assert
+      expect(mockStockAlertRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          email: 'jane@example.com',
+          productId: IsNull(),
+          category: 'rug',
+          notifiedAt: IsNull(),
+        },
+      });
+      expect(mockStockAlertRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should silently drop requests caught by the honeypot', async () => {
+      // Act
+      await service.create({
+        email: 'bot@example.com',
+        category: 'rug',
+        website: 'http://spam.example',
+      });
+
+      // Assert
+      expect(mockStockAlertRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should require either a product or a category', async () => {
+      // Act & Assert
+      await expect(
+        service.create({ email: 'jane@example.com' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create({
+          email: 'jane@example.com',
+          productId: soldProduct.id,
+          category: 'rug',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse an alert on a product that can be bought', async () => {
+      // Arrange
+      mockProductRepository.findOne.mockResolvedValue(availableProduct);
+
+      // Act & Assert
+      await expect(
+        service.create({
+          email: 'jane@example.com',
+          productId: availableProduct.id,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockStockAlertRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException for an unknown product', async () => {
+      // Arrange
+      mockProductRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.create({
+          email: 'jane@example.com',
+          productId: soldProduct.id,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw 429 when the IP address asked too many times', async () => {
+      // Arrange
+      config.STOCK_ALERTS_MAX_PER_HOUR = 3;
+      mockStockAlertRepository.count.mockResolvedValue(3);
+
+      // Act & Assert
+      const error = await service
+        .create(
+          { email: 'jane@example.com', category: 'rug' },
+          { ipAddress: '203.0.113.7' },
+        )
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    });
+  });
+
+  describe('notifyAvailable', () => {
+    /**
+     * Query builder of the claiming UPDATE, resolving to the rows it closed
+     */
+    const mockClaim = (...claims: Record<string, unknown>[][]) => {
+      const execute = jest.fn();
+      for (const rows of claims) {
+        execute.mockResolvedValueOnce({ raw: rows, affected: rows.length });
+      }
+      const builder = {
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        returning: jest.fn().mockReturnThis(),
+        execute,
+      };
+      mockStockAlertRepository.createQueryBuilder.mockReturnValue(builder);
+      return builder;
+    };
+
+    it('should email each address once and close the alerts', async () => {
+      // Arrange
+      const builder = mockClaim([
+        { id: 'alert-1', email: 'jane@example.com', product_id: null },
+        {
+          id: 'alert-2',
+          email: 'jane@example.com',
+          product_id: availableProduct.id,
+        },
+        { id: 'alert-3', email: 'john@example.com', product_id: null },
+      ]);
+
+      // Act
+      const sent = await service.notifyAvailable(availableProduct);
+
+      // Assert
+      expect(sent).toBe(2);
+      expect(builder.where).toHaveBeenCalledWith('notified_at IS NULL');
+      expect(builder.andWhere).toHaveBeenCalledWith(expect.any(String), {
+        productId: availableProduct.id,
+        category: 'rug',
+      });
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'stock-alert',
+        'jane@example.com',
+        {
+          productName: 'Tapis Atlas',
+          productUrl: 'https://atelier.example/rugs/tapis-atlas',
+          price: 420,
+          coverUrl: 'http://localhost:4000/uploads/products/a.webp',
+          categoryLabel: null,
+        },
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        'stock-alert',
+        'john@example.com',
+        expect.objectContaining({ categoryLabel: 'tapis' }),
+      );
+    });
+
+    it('should do nothing without waiting alerts', async () => {
+      // Arrange
+      mockClaim([]);
+
+      // Act
+      const sent = await service.notifyAvailable(availableProduct);
+
+      // Assert
+      expect(sent).toBe(0);
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should email the alerts once when two calls overlap', async () => {
+      // Arrange: the first UPDATE closes the rows, the second finds none left
+      mockClaim(
+        [
+          { id: 'alert-1', email: 'jane@example.com', product_id: null },
+          { id: 'alert-2', email: 'john@example.com', product_id: null },
+        ],
+        [],
+      );
+
+      // Act
+      const [first, second] = await Promise.all([
+        service.notifyAvailable(availableProduct),
+        service.notifyAvailable(availableProduct),
+      ]);
+
+      // Assert
+      expect(first + second).toBe(2);
+      expect(mockMailService.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should carry on when an email is refused', async () => {
+      // Arrange
+      mockClaim([
+        { id: 'alert-1', email: 'jane@example.com', product_id: null },
+        { id: 'alert-2', email: 'john@example.com', product_id: null },
+      ]);
+      mockMailService.send
+        .mockRejectedValueOnce(new Error('Mailbox unavailable'))
+        .mockResolvedValueOnce(undefined);
+
+      // Act
+      const sent = await service.notifyAvailable(availableProduct);
+
+      // Assert
+      expect(mockMailService.send).toHaveBeenCalledTimes(2);
+      expect(sent).toBe(1);
+    });
+
+    it('should never throw when the alerts cannot be claimed', async () => {
+      // Arrange
+      mockClaim().execute.mockRejectedValueOnce(new Error('DB down'));
+
+      // Act & Assert
+      await expect(service.notifyAvailable(availableProduct)).resolves.toBe(0);
+    });
+  });
+});
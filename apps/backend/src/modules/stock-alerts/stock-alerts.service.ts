@@ -0,0 +1,268 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Not, Repository } from 'typeorm';
+import {
+  StockAlert,
+  StockAlertCategory,
+} from '../../entities/stock-alert.entity';
+import { Product } from '../../entities/product.entity';
+import { MailService } from '../mail/mail.service';
+import { CreateStockAlertDto } from './dto/create-stock-alert.dto';
+import { getFrontendUrl } from '../../common/utils/app-config.util';
+import {
+  assertWithinRateLimit,
+  isCaughtByHoneypot,
+} from '../../common/utils/public-form.util';
+
+/**
+ * Storefront listing of each category, parent of the product pages
+ */
+const CATEGORY_PATHS: Record<StockAlertCategory, string> = {
+  'wall-hanging': 'wall-hanging',
+  rug: 'rugs',
+};
+
+/**
+ * Category names used in the notification ("les nouveaux tapis")
+ */
+const CATEGORY_LABELS: Record<StockAlertCategory, string> = {
+  'wall-hanging': 'suspensions murales',
+  rug: 'tapis',
+};
+
+/**
+ * Alert closed by a notification, as returned by the claiming UPDATE
+ */
+type ClaimedAlert = Pick<StockAlert, 'id' | 'email' | 'productId'>;
+
+/**
+ * Where a request comes from
+ */
+export interface StockAlertContext {
+  ipAddress?: string;
+}
+
+/**
+ * Stock alerts service
+ *
+ * Records "notify me when available" requests on a product that cannot be
+ * bought (sold, or out of stock) or on a whole category, and emails each
+ * address once when a matching product becomes purchasable. Mails go through
+ * the mail service, so the configured transport applies (MAIL_TRANSPORT=file
+ * writes them to MAIL_OUTPUT_DIR). Spam is kept out by a honeypot field and
+ * a rate limit of STOCK_ALERTS_MAX_PER_HOUR requests per IP address.
+ */
+@Injectable()
+export class StockAlertsService {
+  private readonly logger = new Logger(StockAlertsService.name);
+
+  constructor(
+    @InjectRepository(StockAlert)
+    private readonly stockAlertRepository: Repository<StockAlert>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ──────────────────────────────────────────────
+  // Storefront
+  // ──────────────────────────────────────────────
+
+  /**
+   * Record a request to be notified about a product or a category
+   * A duplicate request is answered like a success, so the response tells
+   * nothing about existing alerts
+   * @throws HttpException 429 when the IP address sent too many requests
+   * @throws BadRequestException without exactly one of product and category,
+   * for an unknown product, or for a product that can already be bought
+   */
+  async create(
+    createDto: CreateStockAlertDto,
+    context: StockAlertContext = {},
+  ): Promise<void> {
+    if (
+      isCaughtByHoneypot(
+        createDto.website,
+        this.logger,
+        'stock alert',
+        context.ipAddress,
+      )
+    ) {
+      return;
+    }
+
+    if (!createDto.productId === !createDto.category) {
+      throw new BadRequestException(
+        'Provide either a product or a category to watch',
+      );
+    }
+
+    const { ipAddress } = context;
+    if (ipAddress) {
+      await assertWithinRateLimit({
+        max: this.configService.get<number>('STOCK_ALERTS_MAX_PER_HOUR', 10),
+        count: (since) =>
+          this.stockAlertRepository.count({
+            where: { ipAddress, createdAt: since },
+          }),
+        message: 'Too many alerts requested, try again later',
+        logger: this.logger,
+        description: `stock alert from ${ipAddress}`,
+      });
+    }
+
+    let product: Product | null = null;
+    if (createDto.productId) {
+      product = await this.productRepository.findOne({
+        where: { id: createDto.productId, status: Not('draft') },
+      });
+      if (!product) {
+        throw new BadRequestException(
+          `Product with ID "${createDto.productId}" not found`,
+        );
+      }
+      if (this.isPurchasable(product)) {
+        throw new BadRequestException(
+          `Product with ID "${product.id}" is available`,
+        );
+      }
+    }
+
+    const email = createDto.email.toLowerCase();
+    const target = product
+      ? { productId: product.id, category: IsNull() }
+      : { productId: IsNull(), category: createDto.category };
+
+    const waiting = await this.stockAlertRepository.findOne({
+      where: { email, ...target, notifiedAt: IsNull() },
+    });
+    if (waiting) {
+      return;
+    }
+
+    const alert = await this.stockAlertRepository.save(
+      this.stockAlertRepository.create({
+        email,
+        productId: product?.id ?? null,
+        category: product ? null : createDto.category,
+        ipAddress: context.ipAddress?.slice(0, 45) ?? null,
+      }),
+    );
+
+    this.logger.log(
+      `Stock alert ${alert.id} recorded for ${product ? `product ${product.id}` : `category ${alert.category}`}`,
+    );
+  }
+
+  // ──────────────────────────────────────────────
+  // Notifications
+  // ──────────────────────────────────────────────
+
+  /**
+   * Whether a product can be put in the cart
+   */
+  isPurchasable(product: Pick<Product, 'status' | 'stockQuantity'>): boolean {
+    return product.status === 'available' && product.stockQuantity > 0;
+  }
+
+  /**
+   * Email the waiting alerts on a product that just became purchasable, and
+   * the alerts on its category. Each address gets one email, even when it
+   * watches both; the alerts are closed and returned by a single UPDATE, so
+   * two overlapping calls never claim, nor email, the same alert. Failures
+   * are logged, never thrown: the product change that triggered the
+   * notification is already saved.
+   * @returns Number of emails sent
+   */
+  async notifyAvailable(product: Product): Promise<number> {
+    try {
+      const alerts = await this.claimWaitingAlerts(product);
+      if (alerts.length === 0) {
+        return 0;
+      }
+
+      // A product alert wins over a category alert of the same address
+      const byEmail = new Map<string, ClaimedAlert>();
+      for (const alert of alerts) {
+        if (!byEmail.has(alert.email) || alert.productId) {
+          byEmail.set(alert.email, alert);
+        }
+      }
+
+      const context = this.toMailContext(product);
+      let sent = 0;
+
+      for (const [email, alert] of byEmail) {
+        try {
+          await this.mailService.send('stock-alert', email, {
+            ...context,
+            categoryLabel: alert.productId
+              ? null
+              : CATEGORY_LABELS[product.category],
+          });
+          sent++;
+        } catch (error) {
+          this.logger.error(
+            `Failed to send stock alert ${alert.id} for product ${product.id}: ${error.message}`,
+          );
+        }
+      }
+
+      this.logger.log(
+        `Product ${product.id} available: ${sent}/${byEmail.size} stock alerts sent`,
+      );
+      return sent;
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify the stock alerts of product ${product.id}: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Close the waiting alerts on a product and on its category, returning
+   * only the rows this call closed
+   */
+  private async claimWaitingAlerts(product: Product): Promise<ClaimedAlert[]> {
+    const result = await this.stockAlertRepository
+      .createQueryBuilder()
+      .update(StockAlert)
+      .set({ notifiedAt: () => 'now()' })
+      .where('notified_at IS NULL')
+      .andWhere(
+        '(product_id = :productId OR (product_id IS NULL AND category = :category))',
+        { productId: product.id, category: product.category },
+      )
+      .returning(['id', 'email', 'product_id'])
+      .execute();
+
+    return (
+      result.raw as { id: string; email: string; product_id: string | null }[]
+    ).map((row) => ({
+      id: row.id,
+      email: row.email,
+      productId: row.product_id,
+    }));
+  }
+
+  private toMailContext(product: Product) {
+    const frontendUrl = getFrontendUrl(this.configService);
+    const cover = [...(product.productImages ?? [])].sort(
+      (a, b) => a.sortOrder - b.sortOrder,
+    )[0];
+
+    return {
+      productName: product.name,
+      productUrl: `${frontendUrl}/${CATEGORY_PATHS[product.category]}/${encodeURIComponent(product.slug)}`,
+      price: Number(product.price),
+      coverUrl: cover?.url ?? null,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import type { MulterOptions } from '@nestjs/platform-express/multer/interfaces/multer-options.interface';
+import { memoryStorage } from 'multer';
+
+const logger = new Logger('ImageUpload');
+
+/**
+ * Multer options shared by every module accepting image uploads
+ *
+ * Files are kept in memory: UploadService normalizes them and writes the
+ * result to the configured storage driver, so nothing touches the local disk
+ * before it is known to be a valid image.
+ */
+export const imageUploadOptions: MulterOptions = {
+  storage: memoryStorage(),
+  fileFilter: (req, file, callback) => {
+    // Only allow image files
+    const allowedMimeTypes = [
+      'image/jpeg',
+      'image/jpg',
+      'image/png',
+      'image/webp',
+    ];
+
+    if (allowedMimeTypes.includes(file.mimetype)) {
+      logger.debug(`File accepted: ${file.originalname} (${file.mimetype})`);
+      callback(null, true);
+    } else {
+      logger.warn(
+        `File rejected: ${file.originalname} (${file.mimetype}) - Invalid mime type`,
+      );
+      callback(
+        new Error(
+          'Invalid file type. Only JPEG, PNG, and WebP images are allowed.',
+        ),
+        false,
+      );
+    }
+  },
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max file size
+  },
+};
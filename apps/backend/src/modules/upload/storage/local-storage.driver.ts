@@ -0,0 +1,87 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import type { StorageDriver, StorageObject } from './storage-driver.interface';
+
+/**
+ * Local disk driver
+ *
+ * Stores files under a root directory (UPLOADS_DIR), the key being the path
+ * relative to it. Files are served by the API itself under /uploads, so this
+ * driver suits development and single-host deployments with a mounted volume.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolvePath(key);
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Only lists one directory level, which matches the `<subdir>/<file>` layout
+   */
+  async list(prefix: string): Promise<StorageObject[]> {
+    const slash = prefix.lastIndexOf('/');
+    const directory = slash === -1 ? '' : prefix.slice(0, slash);
+    const namePrefix = prefix.slice(slash + 1);
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.resolvePath(directory));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const objects: StorageObject[] = [];
+    for (const entry of entries.filter((name) => name.startsWith(namePrefix))) {
+      const key = directory ? `${directory}/${entry}` : entry;
+      const stats = await fs.stat(this.resolvePath(key));
+      if (stats.isFile()) {
+        objects.push({ key, lastModified: stats.mtime });
+      }
+    }
+    return objects;
+  }
+
+  /**
+   * Absolute path of a key, refusing keys that escape the root directory
+   */
+  private resolvePath(key: string): string {
+    const path = resolve(join(this.rootDir, key));
+    if (path !== this.rootDir && !path.startsWith(this.rootDir + sep)) {
+      throw new BadRequestException(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
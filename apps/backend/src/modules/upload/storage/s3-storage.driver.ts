@@ -0,0 +1,121 @@
+import { NotFoundException } from '@nestjs/common';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type { StorageDriver, StorageObject } from './storage-driver.interface';
+
+/**
+ * Connection settings of an S3-compatible bucket
+ */
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /**
+   * Custom endpoint for non-AWS providers (MinIO, Scaleway, R2...)
+   */
+  endpoint?: string;
+  /**
+   * Address buckets as `<endpoint>/<bucket>` instead of a subdomain,
+   * required by MinIO
+   */
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Keys embed a random UUID and are never rewritten, so clients and CDNs
+ * may cache them forever
+ */
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * S3-compatible object storage driver
+ *
+ * Works with AWS S3 and any S3 API implementation; a local MinIO container is
+ * enough to exercise it in development. Objects are served by the bucket (or
+ * a CDN in front of it), never by the API.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private readonly bucket: string;
+
+  constructor(
+    options: S3StorageOptions,
+    private readonly client: S3Client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+    }),
+  ) {
+    this.bucket = options.bucket;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: CACHE_CONTROL,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new NotFoundException(`File not found: ${key}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * S3 deletes are idempotent: a missing key succeeds as well
+   */
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      objects.push(
+        ...(response.Contents ?? []).map((object) => ({
+          key: object.Key,
+          lastModified: object.LastModified,
+        })),
+      );
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    return objects;
+  }
+}
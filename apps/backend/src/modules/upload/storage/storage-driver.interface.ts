@@ -0,0 +1,49 @@
+/**
+ * Injection token of the configured storage driver
+ */
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * Storage backends selectable with STORAGE_DRIVER
+ */
+export type StorageDriverName = 'local' | 's3';
+
+/**
+ * A stored file as returned by listings
+ */
+export interface StorageObject {
+  key: string;
+  lastModified: Date;
+}
+
+/**
+ * Backend holding uploaded files
+ *
+ * Files are addressed by relative keys such as `products/<uuid>.jpg`. Keys are
+ * what the database stores; public URLs are derived from them at read time so
+ * the backend and its base URL can change without rewriting rows.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  /**
+   * Write a file, replacing any existing file with the same key
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read a file
+   * @throws NotFoundException when the key does not exist
+   */
+  get(key: string): Promise<Buffer>;
+
+  /**
+   * Delete a file; deleting a missing key is not an error
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Files whose key starts with `prefix`, in no particular order
+   */
+  list(prefix: string): Promise<StorageObject[]>;
+}
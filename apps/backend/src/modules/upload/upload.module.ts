@@ -1,67 +1,67 @@
-import { Module, Logger } from '@nestjs/common';
-import { MulterModule } from '@nestjs/platform-express';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { Module, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { UploadService } from './upload.service';
-import { diskStorage } from 'multer';
-import { extname } from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import { UploadsGcService } from './uploads-gc.service';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import type {
+  StorageDriver,
+  StorageDriverName,
+} from './storage/storage-driver.interface';
+import { LocalStorageDriver } from './storage/local-storage.driver';
+import { S3StorageDriver } from './storage/s3-storage.driver';
+import { setUploadsPublicBaseUrl } from '../../common/utils/storage-url.util';
 
-const logger = new Logger('UploadModule');
+/**
+ * Storage driver selected with STORAGE_DRIVER
+ */
+function createStorageDriver(configService: ConfigService): StorageDriver {
+  const driver = configService.get<StorageDriverName>(
+    'STORAGE_DRIVER',
+    'local',
+  );
+
+  if (driver === 's3') {
+    return new S3StorageDriver({
+      bucket: configService.get<string>('S3_BUCKET'),
+      region: configService.get<string>('S3_REGION'),
+      endpoint: configService.get<string>('S3_ENDPOINT') || undefined,
+      forcePathStyle: configService.get<boolean>('S3_FORCE_PATH_STYLE'),
+      accessKeyId: configService.get<string>('S3_ACCESS_KEY_ID'),
+      secretAccessKey: configService.get<string>('S3_SECRET_ACCESS_KEY'),
+    });
+  }
+
+  return new LocalStorageDriver(
+    configService.get<string>('UPLOADS_DIR', './uploads'),
+  );
+}
 
 /**
  * Upload module
- * Handles file uploads with multer and provides file management services
+ * Provides the configured storage driver, image storage services and the
+ * orphaned uploads garbage collector
  */
 @Module({
-  imports: [
-    MulterModule.registerAsync({
-      imports: [ConfigModule],
+  providers: [
+    UploadService,
+    UploadsGcService,
+    {
+      provide: STORAGE_DRIVER,
       inject: [ConfigService],
-      useFactory: () => ({
-        storage: diskStorage({
-          destination: './uploads/products',
-          filename: (req, file, callback) => {
-            // Generate unique filename with original extension
-            const uniqueName = `${uuidv4()}${extname(file.originalname)}`;
-            logger.debug(
-              `Saving file: ${file.originalname} as ${uniqueName} (${file.mimetype}, ${file.size} bytes)`,
-            );
-            callback(null, uniqueName);
-          },
-        }),
-        fileFilter: (req, file, callback) => {
-          // Only allow image files
-          const allowedMimeTypes = [
-            'image/jpeg',
-            'image/jpg',
-            'image/png',
-            'image/webp',
-          ];
-
-          if (allowedMimeTypes.includes(file.mimetype)) {
-            logger.debug(
-              `File accepted: ${file.originalname} (${file.mimetype})`,
-            );
-            callback(null, true);
-          } else {
-            logger.warn(
-              `File rejected: ${file.originalname} (${file.mimetype}) - Invalid mime type`,
-            );
-            callback(
-              new Error(
-                'Invalid file type. Only JPEG, PNG, and WebP images are allowed.',
-              ),
-              false,
-            );
-          }
-        },
-        limits: {
-          fileSize: 5 * 1024 * 1024, // 5MB max file size
-        },
-      }),
-    }),
+      useFactory: createStorageDriver,
+    },
   ],
-  providers: [UploadService],
-  exports: [UploadService],
+  exports: [UploadService, UploadsGcService, STORAGE_DRIVER],
 })
-export class UploadModule {}
+export class UploadModule implements OnModuleInit {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Entities expose storage keys as URLs built from this base
+   */
+  onModuleInit(): void {
+    setUploadsPublicBaseUrl(
+      this.configService.get<string>('UPLOADS_PUBLIC_BASE_URL'),
+    );
+  }
+}
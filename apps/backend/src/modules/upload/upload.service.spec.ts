@@ -1,115 +1,235 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { NotFoundException } from '@nestjs/common';
+import { BadRequestException } from '@nestjs/common';
+import * as sharp from 'sharp';
 import { UploadService } from './upload.service';
-import { promises as fs } from 'fs';
-
-jest.mock('fs', () => ({
-  promises: {
-    unlink: jest.fn(),
-    access: jest.fn(),
-    mkdir: jest.fn(),
-  },
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import { setUploadsPublicBaseUrl } from '../../common/utils/storage-url.util';
+
+// Chainable sharp pipeline: every call returns the same mock
+const mockPipeline = {
+  rotate: jest.fn(),
+  resize: jest.fn(),
+  avif: jest.fn(),
+  webp: jest.fn(),
+  toBuffer: jest.fn(),
+};
+
+jest.mock('sharp', () => jest.fn(() => mockPipeline));
+
+jest.mock('crypto', () => ({
+  ...jest.requireActual<typeof import('crypto')>('crypto'),
+  randomUUID: () => 'photo',
 }));
 
 describe('UploadService', () => {
   let service: UploadService;
 
+  const mockStorage = {
+    name: 'local',
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+    list: jest.fn(),
+  };
+
+  const mockFile = {
+    originalname: 'atelier.jpg',
+    buffer: Buffer.from('original'),
+    size: 1024,
+  } as Express.Multer.File;
+
+  const normalized = Buffer.from('normalized');
+  const encoded = Buffer.from('encoded');
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UploadService],
+      providers: [
+        UploadService,
+        { provide: STORAGE_DRIVER, useValue: mockStorage },
+      ],
     }).compile();
 
     service = module.get<UploadService>(UploadService);
 
     // Clear all mocks before each test
     jest.clearAllMocks();
+    setUploadsPublicBaseUrl('https://cdn.example.com/uploads');
+    mockStorage.put.mockResolvedValue(undefined);
+    mockStorage.delete.mockResolvedValue(undefined);
+    mockStorage.list.mockResolvedValue([]);
+    mockPipeline.rotate.mockReturnValue(mockPipeline);
+    mockPipeline.resize.mockReturnValue(mockPipeline);
+    mockPipeline.avif.mockReturnValue(mockPipeline);
+    mockPipeline.webp.mockReturnValue(mockPipeline);
   });
 
+  /**
+   * First toBuffer call normalizes the original, the next ones encode variants
+   */
+  const mockSource = (width: number, format = 'jpeg') => {
+    mockPipeline.toBuffer
+      .mockResolvedValueOnce({ data: normalized, info: { width, format } })
+      .mockResolvedValue(encoded);
+  };
+
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
 
-  describe('getFileUrl', () => {
-    it('should return correct file URL', () => {
-      const filename = 'test-image.jpg';
-      const baseUrl = 'http://localhost:4000';
-      const expectedUrl = `${baseUrl}/uploads/products/${filename}`;
-
-      const result = service.getFileUrl(filename, baseUrl);
-
-      expect(result).toBe(expectedUrl);
+  describe('getPublicUrl', () => {
+    it('should prefix the key with the configured public base URL', () => {
+      expect(service.getPublicUrl('products/photo.jpg')).toBe(
+        'https://cdn.example.com/uploads/products/photo.jpg',
+      );
     });
   });
 
-  describe('deleteFile', () => {
-    it('should delete file successfully', async () => {
-      const filename = 'test-image.jpg';
-      (fs.unlink as jest.Mock).mockResolvedValue(undefined);
+  describe('getVariantWidths', () => {
+    it('should keep configured widths below the source and add the source width', () => {
+      expect(service.getVariantWidths(1000)).toEqual([320, 640, 960, 1000]);
+    });
+
+    it('should cap the largest variant at the largest configured width', () => {
+      expect(service.getVariantWidths(4000)).toEqual([
+        320, 640, 960, 1280, 1920,
+      ]);
+    });
 
-      await expect(service.deleteFile(filename)).resolves.not.toThrow();
-      expect(fs.unlink).toHaveBeenCalledWith(expect.stringContaining(filename));
+    it('should never upscale small images', () => {
+      expect(service.getVariantWidths(200)).toEqual([200]);
+      expect(service.getVariantWidths(640)).toEqual([320, 640]);
     });
+  });
+
+  describe('storeImage', () => {
+    it('should store the normalized original and its derivatives under relative keys', async () => {
+      mockSource(700);
 
-    it('should throw NotFoundException when file does not exist', async () => {
-      const filename = 'non-existent.jpg';
-      (fs.unlink as jest.Mock).mockRejectedValue({ code: 'ENOENT' });
+      const stored = await service.storeImage(mockFile, 'products');
 
-      await expect(service.deleteFile(filename)).rejects.toThrow(
-        NotFoundException,
+      expect(mockPipeline.rotate).toHaveBeenCalled();
+      expect(sharp).toHaveBeenCalledWith(normalized);
+      expect(stored.key).toBe('products/photo.jpg');
+      expect(mockStorage.put).toHaveBeenCalledWith(
+        'products/photo.jpg',
+        normalized,
+        'image/jpeg',
+      );
+      expect(stored.variants).toHaveLength(6);
+      expect(stored.variants[0]).toEqual({
+        url: 'products/photo-320w.avif',
+        width: 320,
+        format: 'avif',
+      });
+      expect(stored.variants.map((variant) => variant.width)).toEqual([
+        320, 640, 700, 320, 640, 700,
+      ]);
+      expect(mockStorage.put).toHaveBeenCalledWith(
+        'products/photo-700w.webp',
+        encoded,
+        'image/webp',
       );
     });
 
-    it('should throw error for other file system errors', async () => {
-      const filename = 'test-image.jpg';
-      const error = new Error('Permission denied');
-      (fs.unlink as jest.Mock).mockRejectedValue(error);
+    it('should keep the source format of the original', async () => {
+      mockSource(300, 'png');
+
+      const stored = await service.storeImage(mockFile, 'blog');
 
-      await expect(service.deleteFile(filename)).rejects.toThrow(error);
+      expect(stored.key).toBe('blog/photo.png');
+      expect(stored.variants.map((variant) => variant.url)).toEqual([
+        'blog/photo-300w.avif',
+        'blog/photo-300w.webp',
+      ]);
     });
-  });
 
-  describe('deleteFiles', () => {
-    it('should delete multiple files successfully', async () => {
-      const filenames = ['image1.jpg', 'image2.png', 'image3.webp'];
-      (fs.unlink as jest.Mock).mockResolvedValue(undefined);
+    it('should throw BadRequestException when the file is not a valid image', async () => {
+      mockPipeline.toBuffer.mockRejectedValue(
+        new Error('Input buffer contains unsupported image format'),
+      );
 
-      await expect(service.deleteFiles(filenames)).resolves.not.toThrow();
-      expect(fs.unlink).toHaveBeenCalledTimes(3);
+      await expect(service.storeImage(mockFile, 'products')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockStorage.put).not.toHaveBeenCalled();
     });
 
-    it('should continue deleting even if some files fail', async () => {
-      const filenames = ['image1.jpg', 'non-existent.jpg', 'image3.jpg'];
-      (fs.unlink as jest.Mock)
+    it('should remove already written files when storing fails', async () => {
+      mockSource(700);
+      mockStorage.put
         .mockResolvedValueOnce(undefined)
-        .mockRejectedValueOnce({ code: 'ENOENT' })
-        .mockResolvedValueOnce(undefined);
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Bucket unavailable'));
 
-      await expect(service.deleteFiles(filenames)).resolves.not.toThrow();
-      expect(fs.unlink).toHaveBeenCalledTimes(3);
+      await expect(service.storeImage(mockFile, 'products')).rejects.toThrow(
+        'Bucket unavailable',
+      );
+      expect(mockStorage.delete).toHaveBeenCalledTimes(2);
+      expect(mockStorage.delete).toHaveBeenCalledWith('products/photo.jpg');
+      expect(mockStorage.delete).toHaveBeenCalledWith(
+        'products/photo-320w.avif',
+      );
     });
   });
 
-  describe('ensureUploadDir', () => {
-    it('should not create directory if it exists', async () => {
-      (fs.access as jest.Mock).mockResolvedValue(undefined);
+  describe('deleteImage', () => {
+    it('should delete the image and its derivatives only', async () => {
+      mockStorage.list.mockResolvedValue(
+        [
+          'products/photo-320w.avif',
+          'products/photo-640w.webp',
+          'products/photo-2.jpg',
+          'products/photo-2-320w.avif',
+        ].map((key) => ({ key, lastModified: new Date() })),
+      );
+
+      await service.deleteImage('products/photo.jpg');
+
+      expect(mockStorage.list).toHaveBeenCalledWith('products/photo-');
+      const deleted = mockStorage.delete.mock.calls.map(
+        ([key]: [string]) => key,
+      );
+      expect(deleted).toEqual([
+        'products/photo.jpg',
+        'products/photo-320w.avif',
+        'products/photo-640w.webp',
+      ]);
+    });
 
-      await service.ensureUploadDir();
+    it('should accept public and legacy absolute URLs', async () => {
+      await service.deleteImage(
+        'https://cdn.example.com/uploads/blog/photo.jpg',
+      );
+      await service.deleteImage(
+        'http://old-host:4000/uploads/products/legacy.png',
+      );
 
-      expect(fs.access).toHaveBeenCalled();
-      expect(fs.mkdir).not.toHaveBeenCalled();
+      expect(mockStorage.delete).toHaveBeenCalledWith('blog/photo.jpg');
+      expect(mockStorage.delete).toHaveBeenCalledWith('products/legacy.png');
     });
 
-    it('should create directory if it does not exist', async () => {
-      (fs.access as jest.Mock).mockRejectedValue(new Error('Not found'));
-      (fs.mkdir as jest.Mock).mockResolvedValue(undefined);
+    it('should leave external URLs alone', async () => {
+      await service.deleteImage('https://images.example.org/photo.jpg');
 
-      await service.ensureUploadDir();
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+  });
 
-      expect(fs.access).toHaveBeenCalled();
-      expect(fs.mkdir).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({ recursive: true }),
-      );
+  describe('deleteImages', () => {
+    it('should continue deleting even if some files fail', async () => {
+      mockStorage.delete
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Permission denied'))
+        .mockResolvedValueOnce(undefined);
+
+      await expect(
+        service.deleteImages([
+          'products/image1.jpg',
+          'products/image2.png',
+          'products/image3.webp',
+        ]),
+      ).resolves.not.toThrow();
+      expect(mockStorage.delete).toHaveBeenCalledTimes(3);
     });
   });
 });
@@ -1,85 +1,254 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { promises as fs } from 'fs';
-import { join } from 'path';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { posix } from 'path';
+import * as sharp from 'sharp';
+import type {
+  ImageVariant,
+  ImageVariantFormat,
+} from '../../common/interfaces/image-variant.interface';
+import {
+  isStorageKey,
+  toPublicUrl,
+  toStorageKey,
+  UploadSubdir,
+} from '../../common/utils/storage-url.util';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import type { StorageDriver } from './storage/storage-driver.interface';
+
+/**
+ * Widths (px) generated for responsive images
+ * Sources narrower than a width are never upscaled
+ */
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+
+/**
+ * Formats generated for every width, most efficient first
+ */
+export const IMAGE_VARIANT_FORMATS: ImageVariantFormat[] = ['avif', 'webp'];
+
+/**
+ * Derivative keys: `<original key without extension>-<width>w.<format>`
+ */
+const VARIANT_KEY = /^(.+)-\d+w\.(avif|webp)$/;
+
+/**
+ * Extension of the stored original for each accepted input format
+ */
+const ORIGINAL_EXTENSIONS: Record<string, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+};
+
+/**
+ * Key of an image without its extension, shared by all its derivatives
+ */
+export function getKeyStem(key: string): string {
+  const { dir, name } = posix.parse(key);
+  return dir ? `${dir}/${name}` : name;
+}
+
+/**
+ * Stem of the original a derivative key belongs to, null for other keys
+ */
+export function getVariantStem(key: string): string | null {
+  return VARIANT_KEY.exec(key)?.[1] ?? null;
+}
+
+/**
+ * An uploaded image once written to storage
+ * `key` and variant URLs are storage keys, ready to be saved on an entity
+ */
+export interface StoredImage {
+  key: string;
+  variants: ImageVariant[];
+}
 
 /**
  * Upload service
- * Provides file management operations (delete, retrieve, etc.)
+ * Writes uploaded images and their responsive derivatives to the configured
+ * storage driver, and removes them again
  */
 @Injectable()
 export class UploadService {
   private readonly logger = new Logger(UploadService.name);
-  private readonly baseUploadDir = './uploads';
+
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+  ) {}
 
   /**
-   * Get the upload directory path for a given subdirectory
+   * Public URL of a storage key
    */
-  private getUploadDir(subdir: string = 'products'): string {
-    return join(this.baseUploadDir, subdir);
+  getPublicUrl(key: string): string {
+    return toPublicUrl(key);
   }
 
   /**
-   * Get the full URL for an uploaded file
+   * Widths to generate for a source image of the given width
+   * Always includes a variant at the source width (capped at the largest
+   * configured width) so the sharpest derivative is never a downgrade
    */
-  getFileUrl(
-    filename: string,
-    baseUrl: string,
-    subdir: string = 'products',
-  ): string {
-    const url = `${baseUrl}/uploads/${subdir}/${filename}`;
-    this.logger.debug(`Generated file URL: ${url}`);
-    return url;
+  getVariantWidths(sourceWidth: number): number[] {
+    const maxWidth = IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1];
+    const widths = IMAGE_VARIANT_WIDTHS.filter((width) => width < sourceWidth);
+    return [...new Set([...widths, Math.min(sourceWidth, maxWidth)])];
   }
 
   /**
-   * Delete a file from the uploads directory
+   * Normalize an uploaded image and store it with its responsive derivatives
+   *
+   * The original is stored with its orientation applied and all metadata
+   * (EXIF, GPS...) stripped, under a random name so keys never collide. Resized
+   * copies are generated for each width in AVIF and WebP next to it. Nothing is
+   * left in storage when any step fails.
+   *
+   * @returns Storage key of the original and derivatives ordered by format
+   * then ascending width
    */
-  async deleteFile(
-    filename: string,
-    subdir: string = 'products',
-  ): Promise<void> {
+  async storeImage(
+    file: Express.Multer.File,
+    subdir: UploadSubdir,
+  ): Promise<StoredImage> {
+    let normalized: Buffer;
+    let sourceWidth: number;
+    let sourceFormat: string;
+    let extension: string;
     try {
-      const filePath = join(this.getUploadDir(subdir), filename);
-      await fs.unlink(filePath);
-      this.logger.log(`File deleted successfully: ${filename}`);
+      // rotate() without arguments applies the EXIF orientation; sharp drops
+      // metadata on output unless asked to keep it
+      const { data, info } = await sharp(file.buffer)
+        .rotate()
+        .toBuffer({ resolveWithObject: true });
+      extension = ORIGINAL_EXTENSIONS[info.format];
+      if (!extension) {
+        throw new Error(`unsupported format ${info.format}`);
+      }
+      normalized = data;
+      sourceWidth = info.width;
+      sourceFormat = info.format;
     } catch (error) {
-      if (error.code === 'ENOENT') {
-        throw new NotFoundException(`File not found: ${filename}`);
+      this.logger.error(
+        `Failed to process image ${file.originalname}: ${error.message}`,
+      );
+      throw new BadRequestException(`Invalid image file: ${file.originalname}`);
+    }
+
+    const name = randomUUID();
+    const key = `${subdir}/${name}.${extension}`;
+    const writtenKeys: string[] = [];
+
+    try {
+      await this.storage.put(key, normalized, `image/${sourceFormat}`);
+      writtenKeys.push(key);
+
+      const variants: ImageVariant[] = [];
+      for (const format of IMAGE_VARIANT_FORMATS) {
+        for (const width of this.getVariantWidths(sourceWidth)) {
+          const variantKey = `${subdir}/${name}-${width}w.${format}`;
+          const pipeline = sharp(normalized).resize({
+            width,
+            withoutEnlargement: true,
+          });
+          const encoded = await (
+            format === 'avif'
+              ? pipeline.avif({ quality: 50, effort: 4 })
+              : pipeline.webp({ quality: 75 })
+          ).toBuffer();
+
+          await this.storage.put(variantKey, encoded, `image/${format}`);
+          writtenKeys.push(variantKey);
+          variants.push({ url: variantKey, width, format });
+        }
       }
-      this.logger.error(`Failed to delete file ${filename}: ${error.message}`);
+
+      this.logger.log(
+        `Stored ${key} with ${variants.length} variant(s) (${sourceWidth}px)`,
+      );
+      return { key, variants };
+    } catch (error) {
+      this.logger.error(`Failed to store image ${key}: ${error.message}`);
+      await this.deleteKeys(writtenKeys);
       throw error;
     }
   }
 
   /**
-   * Delete multiple files
+   * Store several uploaded images, one after the other (encoding is CPU bound)
+   * Already stored images are removed when one of them fails
    */
-  async deleteFiles(
-    filenames: string[],
-    subdir: string = 'products',
-  ): Promise<void> {
-    const deletePromises = filenames.map((filename) =>
-      this.deleteFile(filename, subdir).catch((error) => {
-        // Log error but don't fail the entire operation
-        this.logger.warn(`Failed to delete file ${filename}: ${error.message}`);
-      }),
-    );
-
-    await Promise.all(deletePromises);
+  async storeImages(
+    files: Express.Multer.File[],
+    subdir: UploadSubdir,
+  ): Promise<StoredImage[]> {
+    const storedImages: StoredImage[] = [];
+    try {
+      for (const file of files) {
+        storedImages.push(await this.storeImage(file, subdir));
+      }
+      return storedImages;
+    } catch (error) {
+      await this.deleteImages(storedImages.map((image) => image.key));
+      throw error;
+    }
   }
 
   /**
-   * Check if upload directory exists, create if not
+   * Delete an image and its derivatives
+   * Accepts a storage key or a public URL; external URLs are left alone
    */
-  async ensureUploadDir(subdir: string = 'products'): Promise<void> {
-    const uploadDir = this.getUploadDir(subdir);
-    try {
-      await fs.access(uploadDir);
-      this.logger.debug(`Upload directory exists: ${uploadDir}`);
-    } catch {
-      this.logger.log(`Creating upload directory: ${uploadDir}`);
-      await fs.mkdir(uploadDir, { recursive: true });
-      this.logger.log(`Upload directory created successfully: ${uploadDir}`);
+  async deleteImage(keyOrUrl: string): Promise<void> {
+    const key = toStorageKey(keyOrUrl);
+    if (!isStorageKey(key)) {
+      this.logger.debug(`Not a stored upload, skipping delete: ${keyOrUrl}`);
+      return;
     }
+
+    const stem = getKeyStem(key);
+    const variantKeys = (await this.storage.list(`${stem}-`))
+      .map((object) => object.key)
+      .filter((candidate) => getVariantStem(candidate) === stem);
+
+    await this.storage.delete(key);
+    this.logger.log(`File deleted successfully: ${key}`);
+    await this.deleteKeys(variantKeys);
+  }
+
+  /**
+   * Delete multiple images
+   * Failures are logged and never abort the remaining deletions
+   */
+  async deleteImages(keysOrUrls: string[]): Promise<void> {
+    await Promise.all(
+      keysOrUrls.map((keyOrUrl) =>
+        this.deleteImage(keyOrUrl).catch((error) => {
+          this.logger.warn(
+            `Failed to delete file ${keyOrUrl}: ${error.message}`,
+          );
+        }),
+      ),
+    );
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Best effort removal of raw keys (derivatives, partial uploads)
+   */
+  private async deleteKeys(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map((key) =>
+        this.storage.delete(key).catch((error) => {
+          this.logger.warn(`Failed to delete ${key}: ${error.message}`);
+        }),
+      ),
+    );
   }
 }
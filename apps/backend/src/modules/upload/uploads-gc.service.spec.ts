@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { UploadsGcService } from './uploads-gc.service';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import type { StorageObject } from './storage/storage-driver.interface';
+
+/**
+ * Unit tests for UploadsGcService
+ * Storage listings and image columns are mocked per subdirectory and table
+ */
+describe('UploadsGcService', () => {
+  let service: UploadsGcService;
+
+  const old = new Date(Date.now() - 24 * 60 * 60_000);
+  const recent = new Date();
+
+  const mockStorage = {
+    name: 'local',
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+    list: jest.fn(),
+  };
+
+  const mockDataSource = {
+    query: jest.fn(),
+  };
+
+  /**
+   * Storage content, keyed by subdirectory
+   */
+  const mockFiles = (files: Record<string, StorageObject[]>) => {
+    mockStorage.list.mockImplementation((prefix: string) =>
+      Promise.resolve(files[prefix.replace(/\/$/, '')] ?? []),
+    );
+  };
+
+  /**
+   * Image rows, keyed by table
+   */
+  const mockRows = (rows: Record<string, unknown[]>) => {
+    mockDataSource.query.mockImplementation((sql: string) => {
+      const table = /FROM "([a-z_]+)"/.exec(sql)[1];
+      return Promise.resolve(rows[table] ?? []);
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadsGcService,
+        { provide: STORAGE_DRIVER, useValue: mockStorage },
+        { provide: DataSource, useValue: mockDataSource },
+      ],
+    }).compile();
+
+    service = module.get<UploadsGcService>(UploadsGcService);
+
+    jest.clearAllMocks();
+    mockStorage.delete.mockResolvedValue(undefined);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('scan', () => {
+    it('should report unreferenced files as orphans', async () => {
+      // Arrange
+      mockFiles({
+        products: [
+          { key: 'products/kept.jpg', lastModified: old },
+          { key: 'products/kept-320w.avif', lastModified: old },
+          { key: 'products/lost.jpg', lastModified: old },
+          { key: 'products/lost-320w.webp', lastModified: old },
+        ],
+      });
+      mockRows({
+        product_images: [
+          {
+            id: 'img-1',
+            value: 'products/kept.jpg',
+            variants: [{ url: 'products/kept-320w.avif', width: 320 }],
+          },
+        ],
+      });
+
+      // Act
+      const report = await service.scan();
+
+      // Assert
+      expect(report.fileCount).toBe(4);
+      expect(report.orphans.map((object) => object.key)).toEqual([
+        'products/lost.jpg',
+        'products/lost-320w.webp',
+      ]);
+      expect(report.danglingReferences).toEqual([]);
+    });
+
+    it('should keep derivatives of a referenced image missing from its variants', async () => {
+      // Arrange
+      mockFiles({
+        'about-sections': [
+          { key: 'about-sections/legacy.png', lastModified: old },
+          { key: 'about-sections/legacy-640w.webp', lastModified: old },
+        ],
+      });
+      mockRows({
+        about_sections: [
+          {
+            id: 'section-1',
+            value: 'http://old-host:4000/uploads/about-sections/legacy.png',
+            variants: null,
+          },
+        ],
+      });
+
+      // Act
+      const report = await service.scan();
+
+      // Assert
+      expect(report.orphans).toEqual([]);
+    });
+
+    it('should not collect recent files', async () => {
+      // Arrange
+      mockFiles({
+        blog: [{ key: 'blog/uploading.jpg', lastModified: recent }],
+      });
+      mockRows({});
+
+      // Act
+      const report = await service.scan(60);
+
+      // Assert
+      expect(report.orphans).toEqual([]);
+      expect(report.recentOrphans.map((object) => object.key)).toEqual([
+        'blog/uploading.jpg',
+      ]);
+    });
+
+    it('should report dangling references and ignore external images', async () => {
+      // Arrange
+      mockFiles({});
+      mockRows({
+        page_content: [
+          { id: 'page-1', value: 'page-content/missing.jpg', variants: null },
+          {
+            id: 'page-2',
+            value: 'https://images.example.org/hero.jpg',
+            variants: null,
+          },
+          { id: 'page-3', value: null, variants: null },
+        ],
+      });
+
+      // Act
+      const report = await service.scan();
+
+      // Assert
+      expect(report.danglingReferences).toEqual([
+        {
+          table: 'page_content',
+          id: 'page-1',
+          key: 'page-content/missing.jpg',
+        },
+      ]);
+    });
+  });
+
+  describe('deleteOrphans', () => {
+    it('should delete orphans that are still unreferenced', async () => {
+      // Arrange
+      mockFiles({
+        products: [
+          { key: 'products/lost.jpg', lastModified: old },
+          { key: 'products/saved-since.jpg', lastModified: old },
+        ],
+      });
+      mockRows({});
+      const report = await service.scan();
+      mockRows({
+        product_images: [
+          { id: 'img-1', value: 'products/saved-since.jpg', variants: null },
+        ],
+      });
+
+      // Act
+      const result = await service.deleteOrphans(report);
+
+      // Assert
+      expect(mockStorage.delete).toHaveBeenCalledTimes(1);
+      expect(mockStorage.delete).toHaveBeenCalledWith('products/lost.jpg');
+      expect(result.deleted).toEqual(['products/lost.jpg']);
+      expect(result.skipped).toEqual(['products/saved-since.jpg']);
+    });
+
+    it('should report files that could not be deleted', async () => {
+      // Arrange
+      mockFiles({
+        blog: [{ key: 'blog/lost.jpg', lastModified: old }],
+      });
+      mockRows({});
+      mockStorage.delete.mockRejectedValue(new Error('Access denied'));
+      const report = await service.scan();
+
+      // Act
+      const result = await service.deleteOrphans(report);
+
+      // Assert
+      expect(result.deleted).toEqual([]);
+      expect(result.failed).toEqual(['blog/lost.jpg']);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import type { ImageVariant } from '../../common/interfaces/image-variant.interface';
+import {
+  isStorageKey,
+  toStorageKey,
+  UPLOAD_REFERENCE_COLUMNS,
+  UPLOAD_SUBDIRS,
+} from '../../common/utils/storage-url.util';
+import { STORAGE_DRIVER } from './storage/storage-driver.interface';
+import type {
+  StorageDriver,
+  StorageObject,
+} from './storage/storage-driver.interface';
+import { getKeyStem, getVariantStem } from './upload.service';
+
+/**
+ * Files written less than this long ago are never collected: an upload may
+ * be stored while its row is not saved yet
+ */
+export const DEFAULT_GC_MIN_AGE_MINUTES = 60;
+
+/**
+ * A database row pointing to a storage key
+ */
+export interface UploadReference {
+  table: string;
+  id: string;
+  key: string;
+}
+
+/**
+ * Result of a garbage collection scan (dry run)
+ */
+export interface UploadsGcReport {
+  scannedAt: Date;
+  minAgeMinutes: number;
+  /**
+   * Number of files found in storage
+   */
+  fileCount: number;
+  /**
+   * Number of storage keys referenced by the database
+   */
+  referenceCount: number;
+  /**
+   * Unreferenced files old enough to be deleted
+   */
+  orphans: StorageObject[];
+  /**
+   * Unreferenced files kept because they are more recent than minAgeMinutes
+   */
+  recentOrphans: StorageObject[];
+  /**
+   * Rows whose image (or derivative) no longer exists in storage
+   */
+  danglingReferences: UploadReference[];
+}
+
+/**
+ * Outcome of deleting the orphans of a report
+ */
+export interface UploadsGcResult {
+  deleted: string[];
+  /**
+   * Orphans of the report that got referenced since the scan
+   */
+  skipped: string[];
+  failed: string[];
+}
+
+/**
+ * Uploads garbage collector
+ *
+ * Cross-references every file of the upload subdirectories with the image
+ * columns of the database. Derivatives of a referenced original are kept
+ * even when its variants column does not list them.
+ */
+@Injectable()
+export class UploadsGcService {
+  private readonly logger = new Logger(UploadsGcService.name);
+
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * Report orphaned files and dangling references without changing anything
+   */
+  async scan(
+    minAgeMinutes = DEFAULT_GC_MIN_AGE_MINUTES,
+  ): Promise<UploadsGcReport> {
+    const scannedAt = new Date();
+    const [objects, references] = await Promise.all([
+      this.listFiles(),
+      this.collectReferences(),
+    ]);
+
+    const referencedKeys = new Set(references.map((ref) => ref.key));
+    const referencedStems = new Set(
+      references
+        .filter((ref) => !getVariantStem(ref.key))
+        .map((ref) => getKeyStem(ref.key)),
+    );
+    const storedKeys = new Set(objects.map((object) => object.key));
+    const minModified = scannedAt.getTime() - minAgeMinutes * 60_000;
+
+    const orphans: StorageObject[] = [];
+    const recentOrphans: StorageObject[] = [];
+    for (const object of objects) {
+      const variantStem = getVariantStem(object.key);
+      const referenced =
+        referencedKeys.has(object.key) ||
+        (variantStem !== null && referencedStems.has(variantStem));
+      if (referenced) {
+        continue;
+      }
+
+      if (object.lastModified.getTime() > minModified) {
+        recentOrphans.push(object);
+      } else {
+        orphans.push(object);
+      }
+    }
+
+    const danglingReferences = references.filter(
+      (ref) => !storedKeys.has(ref.key),
+    );
+
+    this.logger.log(
+      `Scanned ${objects.length} file(s) and ${referencedKeys.size} reference(s): ` +
+        `${orphans.length} orphan(s), ${recentOrphans.length} recent, ` +
+        `${danglingReferences.length} dangling reference(s)`,
+    );
+
+    return {
+      scannedAt,
+      minAgeMinutes,
+      fileCount: objects.length,
+      referenceCount: referencedKeys.size,
+      orphans,
+      recentOrphans,
+      danglingReferences,
+    };
+  }
+
+  /**
+   * Delete the orphans of a previous scan
+   * Storage is scanned again first, and only files that are still orphaned
+   * are removed, so a reference saved since the dry run is never broken
+   */
+  async deleteOrphans(report: UploadsGcReport): Promise<UploadsGcResult> {
+    const current = await this.scan(report.minAgeMinutes);
+    const stillOrphaned = new Set(current.orphans.map((object) => object.key));
+
+    const result: UploadsGcResult = { deleted: [], skipped: [], failed: [] };
+    for (const { key } of report.orphans) {
+      if (!stillOrphaned.has(key)) {
+        result.skipped.push(key);
+        continue;
+      }
+
+      try {
+        await this.storage.delete(key);
+        result.deleted.push(key);
+      } catch (error) {
+        this.logger.warn(`Failed to delete ${key}: ${error.message}`);
+        result.failed.push(key);
+      }
+    }
+
+    this.logger.log(
+      `Deleted ${result.deleted.length} orphan(s), skipped ${result.skipped.length}, ` +
+        `failed ${result.failed.length}`,
+    );
+    return result;
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  /**
+   * Every file of the upload subdirectories
+   */
+  private async listFiles(): Promise<StorageObject[]> {
+    const listings = await Promise.all(
+      UPLOAD_SUBDIRS.map((subdir) => this.storage.list(`${subdir}/`)),
+    );
+    return listings.flat();
+  }
+
+  /**
+   * Storage keys of every image column and its derivatives
+   * Raw queries read stored values as is; legacy absolute URLs are mapped to
+   * their key and external images are ignored
+   */
+  private async collectReferences(): Promise<UploadReference[]> {
+    const references: UploadReference[] = [];
+
+    for (const { table, column, variantsColumn } of UPLOAD_REFERENCE_COLUMNS) {
+      const rows: {
+        id: string;
+        value: string | null;
+        variants: ImageVariant[] | null;
+      }[] = await this.dataSource.query(
+        `SELECT "id", "${column}" AS "value", "${variantsColumn}" AS "variants" FROM "${table}"`,
+      );
+
+      for (const row of rows) {
+        const values = [
+          row.value,
+          ...(row.variants ?? []).map((variant) => variant.url),
+        ];
+        for (const value of values) {
+          const key = toStorageKey(value);
+          if (isStorageKey(key)) {
+            references.push({ table, id: row.id, key });
+          }
+        }
+      }
+    }
+
+    return references;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { UserRole } from '../../../entities/user.entity';
+
+/**
+ * DTO for inviting a new backoffice user
+ * The account is created with a temporary password returned once
+ */
+export class InviteUserDto {
+  @ApiProperty({
+    description: 'Username (used to log in)',
+    example: 'editor@atelier-kaisla.com',
+    minLength: 3,
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(3, 100)
+  username: string;
+
+  @ApiPropertyOptional({
+    description: 'Email address receiving password reset links',
+    example: 'editor@atelier-kaisla.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(255)
+  email?: string;
+
+  @ApiPropertyOptional({
+    description: 'User role',
+    enum: ['admin', 'editor'],
+    default: 'editor',
+  })
+  @IsOptional()
+  @IsIn(['admin', 'editor'])
+  role?: UserRole;
+}
@@ -0,0 +1,24 @@
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import type { UserRole } from '../../../entities/user.entity';
+
+/**
+ * DTO for changing the role or the status of a user
+ */
+export class UpdateUserDto {
+  @ApiPropertyOptional({
+    description: 'User role',
+    enum: ['admin', 'editor'],
+  })
+  @IsOptional()
+  @IsIn(['admin', 'editor'])
+  role?: UserRole;
+
+  @ApiPropertyOptional({
+    description: 'Whether the user can log in',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
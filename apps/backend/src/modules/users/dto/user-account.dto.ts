@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { UserRole } from '../../../entities/user.entity';
+
+/**
+ * User account as listed in the backoffice
+ * Excludes the password hash
+ */
+export class UserAccountDto {
+  @ApiProperty({ description: 'User ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Username' })
+  username: string;
+
+  @ApiProperty({
+    description: 'Email address receiving password reset links',
+    nullable: true,
+    type: String,
+  })
+  email: string | null;
+
+  @ApiProperty({ description: 'User role', enum: ['admin', 'editor'] })
+  role: UserRole;
+
+  @ApiProperty({ description: 'Whether the user can log in' })
+  isActive: boolean;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+/**
+ * Returned when a user is invited or their password is reset
+ * The temporary password is only ever shown in this response
+ */
+export class TemporaryPasswordResponseDto {
+  @ApiProperty({ type: UserAccountDto })
+  user: UserAccountDto;
+
+  @ApiProperty({
+    description: 'Temporary password to hand over to the user',
+    example: 'q3Vx9LpT2mZr7KcA',
+  })
+  temporaryPassword: string;
+}
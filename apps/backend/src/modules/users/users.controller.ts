@@ -0,0 +1,153 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import { InviteUserDto } from './dto/invite-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import {
+  TemporaryPasswordResponseDto,
+  UserAccountDto,
+} from './dto/user-account.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+/**
+ * Users controller - backoffice account management (admin only)
+ */
+@ApiTags('users')
+@ApiBearerAuth()
+@ApiResponse({ status: 403, description: 'Forbidden - admin role required' })
+@Roles('admin')
+@Controller('users')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * List all users
+   */
+  @Get()
+  @ApiOperation({ summary: 'List all backoffice users' })
+  @ApiResponse({
+    status: 200,
+    description: 'Users retrieved successfully',
+    type: [UserAccountDto],
+  })
+  async findAll() {
+    return await this.usersService.findAll();
+  }
+
+  /**
+   * Invite a user: the account is created with a temporary password
+   */
+  @Post()
+  @ApiOperation({ summary: 'Invite a user with a temporary password' })
+  @ApiResponse({
+    status: 201,
+    description: 'User created, temporary password returned once',
+    type: TemporaryPasswordResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - username already taken',
+  })
+  async invite(@Body() inviteDto: InviteUserDto) {
+    return await this.usersService.invite(inviteDto);
+  }
+
+  /**
+   * Change the role or disable/enable a user
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Change the role or status of a user' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'User UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'User updated successfully',
+    type: UserAccountDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Admins cannot demote or disable themselves',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - at least one active admin is required',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateDto: UpdateUserDto,
+    @Request() req,
+  ) {
+    return await this.usersService.update(id, updateDto, req.user.id);
+  }
+
+  /**
+   * Replace the password of a user with a temporary one
+   */
+  @Post(':id/reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset the password of a user' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'User UUID',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Password reset, temporary password returned once',
+    type: TemporaryPasswordResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async resetPassword(@Param('id', ParseUUIDPipe) id: string) {
+    return await this.usersService.resetPassword(id);
+  }
+
+  /**
+   * Delete a user
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a user' })
+  @ApiParam({
+    name: 'id',
+    type: 'string',
+    format: 'uuid',
+    description: 'User UUID',
+  })
+  @ApiResponse({ status: 204, description: 'User deleted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Admins cannot delete themselves',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - at least one active admin is required',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string, @Request() req) {
+    await this.usersService.remove(id, req.user.id);
+  }
+}
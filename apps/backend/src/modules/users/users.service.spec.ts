@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { UsersService } from './users.service';
+import { SessionsService } from '../auth/sessions.service';
+import { User } from '../../entities/user.entity';
+
+describe('UsersService', () => {
+  let service: UsersService;
+
+  const adminId = '550e8400-e29b-41d4-a716-446655440000';
+  const editorId = '550e8400-e29b-41d4-a716-446655440001';
+
+  const buildUser = (overrides: Partial<User> = {}): User => ({
+    id: editorId,
+    username: 'editor',
+    email: null,
+    password: '$2b$10$hashedpassword',
+    role: 'editor',
+    isActive: true,
+    createdAt: new Date('2026-01-01'),
+    updatedAt: new Date('2026-01-01'),
+    ...overrides,
+  });
+
+  const mockUserRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    save: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    revokeAllForUser: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUserRepository,
+        },
+        { provide: SessionsService, useValue: mockSessionsService },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+    mockUserRepository.create.mockImplementation((data: Partial<User>) => data);
+    mockUserRepository.save.mockImplementation((user) =>
+      Promise.resolve({ ...buildUser(), ...user }),
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findAll', () => {
+    it('should list users without their password', async () => {
+      // Arrange
+      mockUserRepository.find.mockResolvedValue([buildUser()]);
+
+      // Act
+      const result = await service.findAll();
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(result[0]).not.toHaveProperty('password');
+      expect(result[0].username).toBe('editor');
+    });
+  });
+
+  describe('invite', () => {
+    it('should create an editor with a hashed temporary password', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      // Act
+      const result = await service.invite({ username: 'new-editor' });
+
+      // Assert
+      const created: User = mockUserRepository.create.mock.calls[0][0];
+      expect(created.role).toBe('editor');
+      expect(result.temporaryPassword).toHaveLength(16);
+      await expect(
+        bcrypt.compare(result.temporaryPassword, created.password),
+      ).resolves.toBe(true);
+      expect(result.user).not.toHaveProperty('password');
+    });
+
+    it('should throw ConflictException when the username is taken', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+
+      // Act & Assert
+      await expect(service.invite({ username: 'editor' })).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException when the email is taken', async () => {
+      // Arrange
+      mockUserRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(buildUser({ email: 'editor@example.com' }));
+
+      // Act & Assert
+      await expect(
+        service.invite({
+          username: 'new-editor',
+          email: 'Editor@Example.com',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockUserRepository.findOne).toHaveBeenLastCalledWith({
+        where: { email: 'editor@example.com' },
+      });
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should disable an editor', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(buildUser());
+
+      // Act
+      const result = await service.update(
+        editorId,
+        { isActive: false },
+        adminId,
+      );
+
+      // Assert
+      expect(result.isActive).toBe(false);
+      expect(mockUserRepository.count).not.toHaveBeenCalled();
+      expect(mockSessionsService.revokeAllForUser).toHaveBeenCalledWith(
+        editorId,
+      );
+    });
+
+    it('should prevent admins from demoting themselves', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(
+        buildUser({ id: adminId, role: 'admin' }),
+      );
+
+      // Act & Assert
+      await expect(
+        service.update(adminId, { role: 'editor' }, adminId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should keep at least one active admin', async () => {
+      // Arrange
+      const otherAdminId = '550e8400-e29b-41d4-a716-446655440002';
+      mockUserRepository.findOne.mockResolvedValue(
+        buildUser({ id: otherAdminId, role: 'admin' }),
+      );
+      mockUserRepository.count.mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(
+        service.update(otherAdminId, { isActive: false }, adminId),
+      ).rejects.toThrow(ConflictException);
+      expect(mockUserRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when the user does not exist', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        service.update(editorId, { role: 'admin' }, adminId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should replace the password with a new temporary one', async () => {
+      // Arrange
+      const user = buildUser();
+      mockUserRepository.findOne.mockResolvedValue(user);
+
+      // Act
+      const result = await service.resetPassword(editorId);
+
+      // Assert
+      const saved: User = mockUserRepository.save.mock.calls[0][0];
+      expect(saved.password).not.toBe('$2b$10$hashedpassword');
+      await expect(
+        bcrypt.compare(result.temporaryPassword, saved.password),
+      ).resolves.toBe(true);
+      expect(mockSessionsService.revokeAllForUser).toHaveBeenCalledWith(
+        editorId,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete another user', async () => {
+      // Arrange
+      const user = buildUser();
+      mockUserRepository.findOne.mockResolvedValue(user);
+
+      // Act
+      await service.remove(editorId, adminId);
+
+      // Assert
+      expect(mockUserRepository.remove).toHaveBeenCalledWith(user);
+    });
+
+    it('should prevent admins from deleting themselves', async () => {
+      // Arrange
+      mockUserRepository.findOne.mockResolvedValue(
+        buildUser({ id: adminId, role: 'admin' }),
+      );
+
+      // Act & Assert
+      await expect(service.remove(adminId, adminId)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockUserRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+});
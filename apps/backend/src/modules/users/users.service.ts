@@ -0,0 +1,193 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { User } from '../../entities/user.entity';
+import { AuthService } from '../auth/auth.service';
+import { SessionsService } from '../auth/sessions.service';
+import { InviteUserDto } from './dto/invite-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import {
+  TemporaryPasswordResponseDto,
+  UserAccountDto,
+} from './dto/user-account.dto';
+
+/**
+ * Users service
+ * Account management for admins: invitations, roles, status and password resets
+ */
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * List every user, oldest first
+   */
+  async findAll(): Promise<UserAccountDto[]> {
+    const users = await this.userRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+    return users.map((user) => this.toAccount(user));
+  }
+
+  /**
+   * Create a user with a temporary password
+   * @throws ConflictException if the username or the email is already taken
+   */
+  async invite(dto: InviteUserDto): Promise<TemporaryPasswordResponseDto> {
+    const existing = await this.userRepository.findOne({
+      where: { username: dto.username },
+    });
+    if (existing) {
+      throw new ConflictException('Username is already taken');
+    }
+
+    const email = dto.email?.trim().toLowerCase() || null;
+    if (email && (await this.userRepository.findOne({ where: { email } }))) {
+      throw new ConflictException('Email is already taken');
+    }
+
+    const temporaryPassword = this.generateTemporaryPassword();
+    const user = this.userRepository.create({
+      username: dto.username,
+      email,
+      role: dto.role ?? 'editor',
+      password: await AuthService.hashPassword(temporaryPassword),
+    });
+    const saved = await this.userRepository.save(user);
+
+    this.logger.log(`User invited: ${saved.username} (${saved.role})`);
+    return { user: this.toAccount(saved), temporaryPassword };
+  }
+
+  /**
+   * Change the role and/or status of a user
+   * Disabling a user revokes all their sessions
+   * @param currentUserId - Admin performing the change
+   * @throws BadRequestException when admins demote or disable themselves
+   * @throws ConflictException when it would leave no active admin
+   */
+  async update(
+    id: string,
+    dto: UpdateUserDto,
+    currentUserId: string,
+  ): Promise<UserAccountDto> {
+    const user = await this.findUser(id);
+
+    const losesAdmin =
+      (dto.role !== undefined && dto.role !== 'admin') ||
+      dto.isActive === false;
+
+    if (losesAdmin && user.id === currentUserId) {
+      throw new BadRequestException(
+        'You cannot demote or disable your own account',
+      );
+    }
+    if (losesAdmin) {
+      await this.assertNotLastAdmin(user);
+    }
+
+    if (dto.role !== undefined) {
+      user.role = dto.role;
+    }
+    if (dto.isActive !== undefined) {
+      user.isActive = dto.isActive;
+    }
+
+    const saved = await this.userRepository.save(user);
+    if (dto.isActive === false) {
+      await this.sessionsService.revokeAllForUser(saved.id);
+    }
+
+    this.logger.log(
+      `User updated: ${saved.username} (${saved.role}, ${saved.isActive ? 'active' : 'disabled'})`,
+    );
+    return this.toAccount(saved);
+  }
+
+  /**
+   * Replace the password of a user with a new temporary one
+   * Every session of the user is revoked
+   */
+  async resetPassword(id: string): Promise<TemporaryPasswordResponseDto> {
+    const user = await this.findUser(id);
+
+    const temporaryPassword = this.generateTemporaryPassword();
+    user.password = await AuthService.hashPassword(temporaryPassword);
+    const saved = await this.userRepository.save(user);
+    await this.sessionsService.revokeAllForUser(saved.id);
+
+    this.logger.log(`Password reset for user: ${saved.username}`);
+    return { user: this.toAccount(saved), temporaryPassword };
+  }
+
+  /**
+   * Delete a user
+   * @param currentUserId - Admin performing the deletion
+   * @throws BadRequestException when admins delete themselves
+   * @throws ConflictException when it would leave no active admin
+   */
+  async remove(id: string, currentUserId: string): Promise<void> {
+    const user = await this.findUser(id);
+
+    if (user.id === currentUserId) {
+      throw new BadRequestException('You cannot delete your own account');
+    }
+    await this.assertNotLastAdmin(user);
+
+    await this.userRepository.remove(user);
+    this.logger.log(`User deleted: ${user.username}`);
+  }
+
+  // ──────────────────────────────────────────────
+  // Private helpers
+  // ──────────────────────────────────────────────
+
+  private async findUser(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+
+  /**
+   * The backoffice must always keep at least one active admin
+   */
+  private async assertNotLastAdmin(user: User): Promise<void> {
+    if (user.role !== 'admin' || !user.isActive) {
+      return;
+    }
+
+    const activeAdmins = await this.userRepository.count({
+      where: { role: 'admin', isActive: true },
+    });
+    if (activeAdmins <= 1) {
+      throw new ConflictException('At least one active admin is required');
+    }
+  }
+
+  /**
+   * 16 URL-safe random characters
+   */
+  private generateTemporaryPassword(): string {
+    return randomBytes(12).toString('base64url');
+  }
+
+  private toAccount(user: User): UserAccountDto {
+    const { password: _password, ...account } = user;
+    return account;
+  }
+}
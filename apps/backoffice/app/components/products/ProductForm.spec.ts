@@ -29,6 +29,11 @@ vi.stubGlobal('useProducts', vi.fn(() => ({
   clearError: mockClearError,
 })))
 
+// Admins can remove existing images
+vi.stubGlobal('useAuth', vi.fn(() => ({
+  isAdmin: ref(true),
+})))
+
 // Mock Nuxt auto-imports
 vi.stubGlobal('useApi', vi.fn(() => ({
   loading: ref(false),
@@ -166,12 +171,14 @@ function createMockProduct(overrides: Partial<Product> = {}): Product {
     price: 150,
     status: 'available',
     stockQuantity: 3,
+    showInArchive: true,
     materials: 'Cotton, wool',
     dimensions: { width: 60, height: 90, unit: 'cm' },
     productImages: [
       {
         id: 'img-1',
         url: 'http://example.com/image1.jpg',
+        variants: null,
         showOnHome: true,
         sortOrder: 0,
         productId: 'prod-1',
@@ -388,6 +395,7 @@ describe('ProductForm', () => {
           {
             id: 'img-1',
             url: 'http://example.com/img1.jpg',
+            variants: null,
             showOnHome: true,
             sortOrder: 0,
             productId: 'prod-1',
@@ -396,6 +404,7 @@ describe('ProductForm', () => {
           {
             id: 'img-2',
             url: 'http://example.com/img2.jpg',
+            variants: null,
             showOnHome: false,
             sortOrder: 1,
             productId: 'prod-1',
@@ -455,6 +464,27 @@ describe('ProductForm', () => {
       expect(mockCreateProductWithImages).not.toHaveBeenCalled()
     })
 
+    it('should send the archive flag in edit mode', async () => {
+      const product = createMockProduct({ status: 'sold', stockQuantity: 0 })
+      mockUpdateProduct.mockResolvedValue(product)
+
+      const wrapper = mountForm({ open: true, product })
+      await nextTick()
+
+      const archiveCheckbox = wrapper.find('#showInArchive')
+      expect((archiveCheckbox.element as HTMLInputElement).checked).toBe(true)
+      await archiveCheckbox.setValue(false)
+
+      const submitButton = findButtonByText(wrapper, 'Enregistrer')
+      await submitButton!.trigger('click')
+      await flushPromises()
+
+      expect(mockUpdateProduct).toHaveBeenCalledWith(
+        'prod-1',
+        expect.objectContaining({ showInArchive: false })
+      )
+    })
+
     it('should call updateProduct in edit mode when submitting', async () => {
       const product = createMockProduct()
       const updatedProduct = createMockProduct({ name: 'Updated Name' })
@@ -95,6 +95,7 @@ export function useAboutSections() {
       if (dto.isPublished !== undefined) {
         formData.append('isPublished', dto.isPublished.toString())
       }
+      if (dto.scheduledAt) formData.append('scheduledAt', dto.scheduledAt)
       formData.append('image', imageFile)
 
       // Use native fetch for multipart/form-data (Nuxt $fetch doesn't handle FormData well)
@@ -130,6 +130,31 @@ export function useApi(moduleName: string = 'useApi') {
     return 'An error occurred'
   }
 
+  /**
+   * Check if an error is a 401 Unauthorized response
+   */
+  const isUnauthorized = (err: any): boolean => {
+    return err?.statusCode === 401 || err?.status === 401
+  }
+
+  /**
+   * Run an API call, renewing the access token once if it was rejected
+   * API calls build their headers when invoked, so the retry uses the new token
+   */
+  const callWithRefresh = async <T>(apiCall: () => Promise<T>): Promise<T> => {
+    try {
+      return await apiCall()
+    } catch (err: any) {
+      if (import.meta.server || !isUnauthorized(err)) throw err
+
+      const { refreshSession } = useAuth()
+      if (!(await refreshSession())) throw err
+
+      console.debug(`[${moduleName}] Access token renewed, retrying`)
+      return await apiCall()
+    }
+  }
+
   /**
    * Helper: Execute API call with error handling (Decorator Pattern)
    * Wraps async operations with loading/error state management
@@ -142,20 +167,19 @@ export function useApi(moduleName: string = 'useApi') {
     error.value = null
 
     try {
-      const result = await apiCall()
+      const result = await callWithRefresh(apiCall)
       onSuccess?.(result)
       return result
     } catch (err: any) {
       console.error('API Error:', err)
 
-      // Check for 401 Unauthorized - token invalid/expired
-      if (err.statusCode === 401 || err.status === 401) {
-        console.error(`[${moduleName}] Unauthorized - token invalid/expired`)
+      // Check for 401 Unauthorized - session expired or revoked
+      if (isUnauthorized(err)) {
+        console.error(`[${moduleName}] Unauthorized - session expired or revoked`)
 
         // Clear auth state and redirect to login
         if (!import.meta.server) {
-          localStorage.removeItem('auth_token')
-          await navigateTo('/login')
+          await useAuth().logout()
         }
       }
 
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useAuditLog } from './useAuditLog'
+import type { AuditLogEntry } from '@/types/audit-log'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Test data factories ---
+
+function createMockEntry(overrides: Partial<AuditLogEntry> = {}): AuditLogEntry {
+  return {
+    id: 'entry-1',
+    userId: 'user-1',
+    username: 'admin',
+    entityType: 'product',
+    entityId: 'product-1',
+    action: 'update',
+    before: { price: '420.00' },
+    after: { price: 380 },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('useAuditLog', () => {
+  it('should fetch a page of entries with its pagination', async () => {
+    const list = [createMockEntry()]
+    ;(globalThis.$fetch as Mock).mockResolvedValue({
+      data: list,
+      total: 51,
+      page: 2,
+      limit: 50,
+      totalPages: 2,
+    })
+
+    const { entries, total, page, totalPages, hasEntries, fetchEntries } = useAuditLog()
+    const result = await fetchEntries({ page: 2 })
+
+    expect(result).toEqual(list)
+    expect(entries.value).toEqual(list)
+    expect(total.value).toBe(51)
+    expect(page.value).toBe(2)
+    expect(totalPages.value).toBe(2)
+    expect(hasEntries.value).toBe(true)
+  })
+
+  it('should leave empty filters out of the query', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValue({
+      data: [],
+      total: 0,
+      page: 1,
+      limit: 50,
+      totalPages: 0,
+    })
+
+    const { fetchEntries } = useAuditLog()
+    await fetchEntries({ entityType: 'product', field: 'price', entityId: '', action: undefined })
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/audit-log',
+      expect.objectContaining({
+        method: 'GET',
+        query: { entityType: 'product', field: 'price' },
+      })
+    )
+  })
+
+  it('should return an empty list when the request fails', async () => {
+    ;(globalThis.$fetch as Mock).mockRejectedValue(new Error('Forbidden'))
+
+    const { entries, fetchEntries } = useAuditLog()
+    const result = await fetchEntries()
+
+    expect(result).toEqual([])
+    expect(entries.value).toEqual([])
+  })
+})
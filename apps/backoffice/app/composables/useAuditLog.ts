@@ -0,0 +1,106 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Browse the audit log of content changes (admin only)
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for the filtered, paginated listing
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { entries, fetchEntries } = useAuditLog()
+ * await fetchEntries({ entityType: 'product', field: 'price' })
+ * ```
+ */
+
+import type {
+  AuditLogEntry,
+  AuditLogFilters,
+  PaginatedAuditLogResponse,
+} from '@/types/audit-log'
+
+/**
+ * Audit log state and operations
+ */
+export function useAuditLog() {
+  // Internal state (reactive)
+  const entries = ref<AuditLogEntry[]>([])
+  const total = ref(0)
+  const page = ref(1)
+  const totalPages = ref(0)
+
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('useAuditLog')
+
+  /**
+   * Fetch a page of entries, newest first
+   * Empty filters are left out of the query string
+   */
+  const fetchEntries = async (
+    filters: AuditLogFilters = {}
+  ): Promise<AuditLogEntry[]> => {
+    const query = Object.fromEntries(
+      Object.entries(filters).filter(
+        ([, value]) => value !== undefined && value !== ''
+      )
+    )
+
+    const result = await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/audit-log`
+
+        console.debug('[useAuditLog] Fetching entries from:', url, query)
+
+        return await $fetch<PaginatedAuditLogResponse>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+          query,
+        })
+      },
+      (data) => {
+        entries.value = data.data
+        total.value = data.total
+        page.value = data.page
+        totalPages.value = data.totalPages
+      }
+    )
+
+    return result?.data || []
+  }
+
+  /**
+   * Computed: Check if entries are loaded
+   */
+  const hasEntries = computed(() => entries.value.length > 0)
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    entries: readonly(entries) as Readonly<Ref<AuditLogEntry[]>>,
+    total: readonly(total),
+    page: readonly(page),
+    totalPages: readonly(totalPages),
+    loading,
+    error,
+
+    // Computed
+    hasEntries,
+    hasError,
+
+    // Actions
+    fetchEntries,
+    clearError,
+  }
+}
@@ -3,6 +3,12 @@
  * @category Composables
  * @purpose Centralized authentication management with JWT token handling
  *
+ * Access tokens are short-lived: they are renewed silently with the refresh
+ * token shortly before they expire, and once more when an API call gets a 401.
+ * Refresh tokens are single use, every refresh returns a new pair.
+ * With two-factor authentication, login stops at a challenge that
+ * verifyTwoFactor completes with a code from the authenticator app.
+ *
  * Patterns Applied:
  * - Singleton: Single source of truth for auth state
  * - Observer: Reactive state that components can observe
@@ -10,12 +16,18 @@
  *
  * @example
  * ```typescript
- * const { user, isAuthenticated, login, logout } = useAuth()
+ * const { user, isAuthenticated, isAdmin, login, logout } = useAuth()
  * await login({ username: 'admin', password: 'password' })
  * ```
  */
 
-import type { User, AuthResponse, LoginCredentials, ApiError } from '@/types/auth'
+import type {
+  User,
+  AuthResponse,
+  LoginCredentials,
+  ApiError,
+  TwoFactorChallenge,
+} from '@/types/auth'
 
 /**
  * Authentication state (singleton pattern)
@@ -26,15 +38,42 @@ const token = ref<string | null>(null)
 const loading = ref(false)
 const error = ref<ApiError | null>(null)
 
+/**
+ * Challenge token of a login waiting for its 2FA code
+ * Kept in memory only: reloading the page restarts the login
+ */
+const twoFactorChallenge = ref<string | null>(null)
+
+/**
+ * Silent refresh state
+ * A single refresh runs at a time: the refresh token is single use
+ */
+let refreshTimer: ReturnType<typeof setTimeout> | null = null
+let refreshPromise: Promise<boolean> | null = null
+
 /**
  * Computed: Check if user is authenticated
  */
 const isAuthenticated = computed(() => !!token.value && !!user.value)
 
+/**
+ * Computed: Check if user is an admin
+ * Admins manage users and are the only ones allowed to delete content
+ */
+const isAdmin = computed(() => user.value?.role === 'admin')
+
+/**
+ * Computed: Check if the login waits for a 2FA code
+ */
+const twoFactorRequired = computed(() => !!twoFactorChallenge.value)
+
 /**
  * Constants
  */
 const TOKEN_KEY = 'auth_token'
+const REFRESH_TOKEN_KEY = 'auth_refresh_token'
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60_000
 
 /**
  * Authentication composable
@@ -87,39 +126,152 @@ export function useAuth() {
   }
 
   /**
-   * Helper: Store token in localStorage
+   * Helper: Get stored refresh token from localStorage
+   * Always read from storage: another tab may have rotated it
+   */
+  const getStoredRefreshToken = (): string | null => {
+    if (import.meta.server) return null
+    try {
+      return localStorage.getItem(REFRESH_TOKEN_KEY)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Helper: Store token pair in localStorage
    */
-  const storeToken = (accessToken: string): void => {
+  const storeTokens = (accessToken: string, refreshToken: string): void => {
     if (import.meta.server) return
     try {
       localStorage.setItem(TOKEN_KEY, accessToken)
+      localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken)
     } catch (err) {
       console.error('Failed to store token:', err)
     }
   }
 
   /**
-   * Helper: Remove token from localStorage
+   * Helper: Remove token pair from localStorage
    */
   const removeToken = (): void => {
     if (import.meta.server) return
     try {
       localStorage.removeItem(TOKEN_KEY)
+      localStorage.removeItem(REFRESH_TOKEN_KEY)
     } catch (err) {
       console.error('Failed to remove token:', err)
     }
   }
 
+  /**
+   * Helper: Read the expiry (ms timestamp) of an access token
+   * The payload is only decoded, the backend verifies the signature
+   */
+  const getTokenExpiry = (accessToken: string): number | null => {
+    try {
+      const payload = accessToken.split('.')[1]!.replace(/-/g, '+').replace(/_/g, '/')
+      const { exp } = JSON.parse(atob(payload)) as { exp?: number }
+      return exp ? exp * 1000 : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Helper: Cancel the scheduled silent refresh
+   */
+  const cancelRefresh = (): void => {
+    if (refreshTimer) {
+      clearTimeout(refreshTimer)
+      refreshTimer = null
+    }
+  }
+
+  /**
+   * Helper: Schedule a silent refresh shortly before the access token expires
+   */
+  const scheduleRefresh = (accessToken: string): void => {
+    if (import.meta.server) return
+    cancelRefresh()
+
+    const expiresAt = getTokenExpiry(accessToken)
+    if (!expiresAt) return
+
+    const delay = Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 5_000)
+    refreshTimer = setTimeout(() => {
+      refreshSession()
+    }, delay)
+  }
+
+  /**
+   * Helper: Apply a login or refresh response
+   */
+  const applyAuthResponse = (response: AuthResponse): void => {
+    token.value = response.access_token
+    user.value = response.user
+    storeTokens(response.access_token, response.refresh_token)
+    scheduleRefresh(response.access_token)
+  }
+
+  /**
+   * Helper: Forget the session locally
+   */
+  const clearSession = (): void => {
+    cancelRefresh()
+    user.value = null
+    token.value = null
+    removeToken()
+  }
+
+  /**
+   * Exchange the refresh token for a new token pair
+   * Concurrent callers share the same request
+   *
+   * @returns True if the session was renewed, false if the user must log in again
+   */
+  const refreshSession = (): Promise<boolean> => {
+    if (refreshPromise) return refreshPromise
+
+    refreshPromise = (async () => {
+      const refreshToken = getStoredRefreshToken()
+      if (!refreshToken) return false
+
+      try {
+        const response = await $fetch<AuthResponse>(`${getApiUrl()}/auth/refresh`, {
+          method: 'POST',
+          body: { refreshToken },
+        })
+        applyAuthResponse(response)
+        console.log('[useAuth] Session refreshed')
+        return true
+      } catch (err: any) {
+        console.error('[useAuth] Failed to refresh session:', err)
+        // Only a rejected refresh token ends the session, not a network error
+        if (err.statusCode === 401 || err.status === 401) {
+          clearSession()
+        }
+        return false
+      } finally {
+        refreshPromise = null
+      }
+    })()
+
+    return refreshPromise
+  }
+
   /**
    * Login user with credentials
    * Pattern: Command Pattern - encapsulates login action
    *
    * @param credentials - Username and password
-   * @returns True if login successful, false otherwise
+   * @returns True if login successful, false otherwise (twoFactorRequired
+   * tells a pending 2FA step from a failure)
    */
   const login = async (credentials: LoginCredentials): Promise<boolean> => {
     loading.value = true
     error.value = null
+    twoFactorChallenge.value = null
 
     try {
       const apiUrl = getApiUrl()
@@ -131,17 +283,20 @@ export function useAuth() {
       })
 
       // Call backend login endpoint
-      const response = await $fetch<AuthResponse>(`${apiUrl}/auth/login`, {
+      const response = await $fetch<AuthResponse | TwoFactorChallenge>(`${apiUrl}/auth/login`, {
         method: 'POST',
         body: credentials,
       })
 
-      // Store token
-      token.value = response.access_token
-      storeToken(response.access_token)
+      // 2FA enabled: wait for the code before getting tokens
+      if ('two_factor_required' in response) {
+        twoFactorChallenge.value = response.challenge_token
+        console.log('[useAuth] Two-factor code required')
+        return false
+      }
 
-      // Store user
-      user.value = response.user
+      // Store tokens and user, schedule the silent refresh
+      applyAuthResponse(response)
 
       console.log('[useAuth] Login successful:', user.value)
 
@@ -157,12 +312,11 @@ export function useAuth() {
         statusCode: err.statusCode || err.status || 401,
         message: err.data?.message || err.message || 'Invalid credentials',
         error: err.data?.error || 'Unauthorized',
+        retryAfter: err.data?.retryAfter,
       }
 
       // Clear any stored data
-      token.value = null
-      user.value = null
-      removeToken()
+      clearSession()
 
       return false
     } finally {
@@ -170,6 +324,57 @@ export function useAuth() {
     }
   }
 
+  /**
+   * Complete a 2FA login with a code from the authenticator app or a
+   * recovery code
+   *
+   * @param code - 6-digit code or recovery code
+   * @returns True if login successful, false otherwise
+   */
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    if (!twoFactorChallenge.value) return false
+
+    loading.value = true
+    error.value = null
+
+    try {
+      const response = await $fetch<AuthResponse>(`${getApiUrl()}/auth/2fa/verify`, {
+        method: 'POST',
+        body: { challengeToken: twoFactorChallenge.value, code },
+      })
+
+      twoFactorChallenge.value = null
+      applyAuthResponse(response)
+
+      console.log('[useAuth] Two-factor login successful:', user.value)
+
+      await navigateTo('/')
+
+      return true
+    } catch (err: any) {
+      console.error('[useAuth] Two-factor verification error:', err)
+
+      error.value = {
+        statusCode: err.statusCode || err.status || 401,
+        message: err.data?.message || err.message || 'Invalid two-factor code',
+        error: err.data?.error || 'Unauthorized',
+        retryAfter: err.data?.retryAfter,
+      }
+
+      return false
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Abandon a pending 2FA login and go back to the password step
+   */
+  const cancelTwoFactor = (): void => {
+    twoFactorChallenge.value = null
+    error.value = null
+  }
+
   /**
    * Logout user
    * Pattern: Command Pattern - encapsulates logout action
@@ -177,26 +382,62 @@ export function useAuth() {
   const logout = async (): Promise<void> => {
     console.log('[useAuth] Logging out')
 
-    // Clear state
-    user.value = null
-    token.value = null
-    error.value = null
+    // Revoke the session server-side (best effort)
+    const refreshToken = getStoredRefreshToken()
+    if (refreshToken) {
+      try {
+        await $fetch(`${getApiUrl()}/auth/logout`, {
+          method: 'POST',
+          body: { refreshToken },
+        })
+      } catch (err) {
+        console.error('[useAuth] Failed to revoke session:', err)
+      }
+    }
 
-    // Clear storage
-    removeToken()
+    // Clear state and storage
+    clearSession()
+    error.value = null
 
     // Redirect to login page
     await navigateTo('/login')
   }
 
+  /**
+   * Logout from every device
+   * Revokes all sessions of the user, including this one
+   *
+   * @returns True if the sessions were revoked
+   */
+  const logoutEverywhere = async (): Promise<boolean> => {
+    const accessToken = getToken()
+
+    try {
+      await $fetch(`${getApiUrl()}/auth/logout-all`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      })
+    } catch (err) {
+      console.error('[useAuth] Failed to revoke all sessions:', err)
+      return false
+    }
+
+    clearSession()
+    error.value = null
+    await navigateTo('/login')
+    return true
+  }
+
   /**
    * Get user profile from backend
    * Pattern: Decorator Pattern - adds error handling to API call
    *
    * @returns User profile or null if failed
    */
-  const getUser = async (): Promise<User | null> => {
-    const storedToken = token.value || getStoredToken()
+  const getUser = async (retry = true): Promise<User | null> => {
+    const storedToken = getStoredToken() || token.value
 
     if (!storedToken) {
       console.log('[useAuth] No token found, cannot fetch user')
@@ -232,12 +473,15 @@ export function useAuth() {
     } catch (err: any) {
       console.error('[useAuth] Failed to fetch user profile:', err)
 
-      // If 401, token is invalid/expired
+      // If 401, token is invalid/expired: try to renew it once
       if (err.statusCode === 401 || err.status === 401) {
+        loading.value = false
+        if (retry && (await refreshSession())) {
+          return getUser(false)
+        }
+
         console.log('[useAuth] Token invalid/expired, clearing auth state')
-        user.value = null
-        token.value = null
-        removeToken()
+        clearSession()
       }
 
       error.value = {
@@ -272,8 +516,23 @@ export function useAuth() {
 
     console.log('[useAuth] Found stored token, fetching user profile')
 
-    // Try to load user profile
-    await getUser()
+    // Try to load user profile (renews an expired access token)
+    const profile = await getUser()
+    const accessToken = getStoredToken()
+    if (profile && accessToken) {
+      scheduleRefresh(accessToken)
+    }
+
+    // Follow refreshes and logouts made in other tabs
+    window.addEventListener('storage', (event) => {
+      if (event.key !== TOKEN_KEY) return
+      if (event.newValue) {
+        token.value = event.newValue
+        scheduleRefresh(event.newValue)
+      } else {
+        clearSession()
+      }
+    })
   }
 
   /**
@@ -287,7 +546,7 @@ export function useAuth() {
    * Get current token
    */
   const getToken = (): string | null => {
-    return token.value || getStoredToken()
+    return getStoredToken() || token.value
   }
 
   /**
@@ -300,10 +559,16 @@ export function useAuth() {
     loading: readonly(loading) as Readonly<Ref<boolean>>,
     error: readonly(error) as Readonly<Ref<ApiError | null>>,
     isAuthenticated: readonly(isAuthenticated) as Readonly<ComputedRef<boolean>>,
+    isAdmin: readonly(isAdmin) as Readonly<ComputedRef<boolean>>,
+    twoFactorRequired: readonly(twoFactorRequired) as Readonly<ComputedRef<boolean>>,
 
     // Actions
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
     logout,
+    logoutEverywhere,
+    refreshSession,
     getUser,
     initAuth,
     clearError,
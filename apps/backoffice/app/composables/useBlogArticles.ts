@@ -103,6 +103,9 @@ export function useBlogArticles() {
       if (dto.tagIds && dto.tagIds.length > 0) {
         formData.append('tagIds', JSON.stringify(dto.tagIds))
       }
+      if (dto.productIds && dto.productIds.length > 0) {
+        formData.append('productIds', JSON.stringify(dto.productIds))
+      }
 
       // Add image files
       imageFiles.forEach((file) => {
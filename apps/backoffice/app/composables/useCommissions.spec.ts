@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useCommissions } from './useCommissions'
+import type { Commission } from '@/types/commission'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Test data factories ---
+
+function createMockCommission(overrides: Partial<Commission> = {}): Commission {
+  return {
+    id: 'commission-1',
+    reference: 'SM-20260101-4F2A9C',
+    status: 'requested',
+    customerName: 'Jane Doe',
+    customerEmail: 'jane@example.com',
+    customerPhone: null,
+    category: 'rug',
+    dimensions: { width: 200, height: 300, unit: 'cm' },
+    colorPalette: ['bleu nuit', 'écru'],
+    description: 'Un tapis pour le salon',
+    budget: '1500.00',
+    images: [],
+    quotePrice: null,
+    quoteMessage: null,
+    estimatedDeliveryDate: null,
+    quotedAt: null,
+    acceptedAt: null,
+    deliveredAt: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function mockPage(data: Commission[]) {
+  return { data, total: data.length, page: 1, limit: 20, totalPages: 1 }
+}
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('useCommissions', () => {
+  it('should fetch a page of commissions without empty filters', async () => {
+    const list = [createMockCommission()]
+    ;(globalThis.$fetch as Mock).mockResolvedValue(mockPage(list))
+
+    const { commissions, total, hasCommissions, fetchCommissions } = useCommissions()
+    const result = await fetchCommissions({ status: 'requested', search: '', category: undefined })
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/commissions',
+      expect.objectContaining({ method: 'GET', query: { status: 'requested' } })
+    )
+    expect(result).toEqual(list)
+    expect(commissions.value).toEqual(list)
+    expect(total.value).toBe(1)
+    expect(hasCommissions.value).toBe(true)
+  })
+
+  it('should send a quote and replace the commission in the list', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(mockPage([createMockCommission()]))
+
+    const { commissions, fetchCommissions, quoteCommission } = useCommissions()
+    await fetchCommissions()
+
+    const quoted = createMockCommission({ status: 'quoted', quotePrice: '950.00' })
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(quoted)
+
+    const result = await quoteCommission('commission-1', { price: 950 })
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/commissions/commission-1/quote',
+      expect.objectContaining({ method: 'POST', body: { price: 950 } })
+    )
+    expect(result).toEqual(quoted)
+    expect(commissions.value[0]).toEqual(quoted)
+  })
+
+  it('should update the status of a commission', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(mockPage([createMockCommission({ status: 'accepted' })]))
+
+    const { commissions, fetchCommissions, updateCommissionStatus } = useCommissions()
+    await fetchCommissions()
+
+    const started = createMockCommission({ status: 'in_progress' })
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(started)
+
+    await updateCommissionStatus('commission-1', 'in_progress')
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/commissions/commission-1/status',
+      expect.objectContaining({ method: 'PATCH', body: { status: 'in_progress' } })
+    )
+    expect(commissions.value[0].status).toBe('in_progress')
+  })
+
+  it('should return the customer status link', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValue({ url: 'https://atelier.example/commission/token' })
+
+    const { getStatusLink } = useCommissions()
+    const result = await getStatusLink('commission-1')
+
+    expect(result).toBe('https://atelier.example/commission/token')
+  })
+
+  it('should remove a deleted commission from the list', async () => {
+    ;(globalThis.$fetch as Mock)
+      .mockResolvedValueOnce(mockPage([createMockCommission()]))
+      .mockResolvedValueOnce(undefined)
+
+    const { commissions, total, fetchCommissions, deleteCommission } = useCommissions()
+    await fetchCommissions()
+    const result = await deleteCommission('commission-1')
+
+    expect(result).toBe(true)
+    expect(commissions.value).toEqual([])
+    expect(total.value).toBe(0)
+  })
+})
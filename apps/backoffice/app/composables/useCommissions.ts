@@ -0,0 +1,234 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Custom piece requests: quoting and follow-up until delivery
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for the commission listing, quotes and status changes
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { commissions, fetchCommissions, quoteCommission } = useCommissions()
+ * await fetchCommissions({ status: 'requested' })
+ * await quoteCommission(id, { price: 950, estimatedDeliveryDate: '2026-06-15' })
+ * ```
+ */
+
+import type {
+  Commission,
+  CommissionFilters,
+  PaginatedCommissionsResponse,
+  QuoteCommissionDto,
+  StaffCommissionStatus,
+} from '@/types/commission'
+
+/**
+ * Commissions state and operations
+ */
+export function useCommissions() {
+  // Internal state (reactive)
+  const commissions = ref<Commission[]>([])
+  const total = ref(0)
+  const page = ref(1)
+  const totalPages = ref(0)
+
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('useCommissions')
+
+  /**
+   * Replace a commission in the current page after a change
+   */
+  const replaceInList = (commission: Commission) => {
+    commissions.value = commissions.value.map((c) =>
+      c.id === commission.id ? commission : c
+    )
+  }
+
+  /**
+   * Fetch a page of commissions, newest first
+   * Empty filters are left out of the query string
+   */
+  const fetchCommissions = async (
+    filters: CommissionFilters = {}
+  ): Promise<Commission[]> => {
+    const query = Object.fromEntries(
+      Object.entries(filters).filter(
+        ([, value]) => value !== undefined && value !== ''
+      )
+    )
+
+    const result = await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/commissions`
+
+        console.debug('[useCommissions] Fetching commissions from:', url, query)
+
+        return await $fetch<PaginatedCommissionsResponse>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+          query,
+        })
+      },
+      (data) => {
+        commissions.value = data.data
+        total.value = data.total
+        page.value = data.page
+        totalPages.value = data.totalPages
+      }
+    )
+
+    return result?.data || []
+  }
+
+  /**
+   * Fetch a single commission, e.g. one opened from a notification email
+   */
+  const fetchCommission = async (id: string): Promise<Commission | null> => {
+    return await executeApiCall(async () => {
+      const url = `${getApiUrl()}/commissions/${id}`
+
+      console.debug('[useCommissions] Fetching commission from:', url)
+
+      return await $fetch<Commission>(url, {
+        method: 'GET',
+        headers: getAuthHeaders(),
+      })
+    })
+  }
+
+  /**
+   * Send or revise the quote; the customer is emailed a link to answer it
+   */
+  const quoteCommission = async (
+    id: string,
+    dto: QuoteCommissionDto
+  ): Promise<Commission | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/commissions/${id}/quote`
+
+      console.debug('[useCommissions] Quoting commission at:', url)
+
+      return await $fetch<Commission>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: dto,
+      })
+    })
+
+    if (result) {
+      replaceInList(result)
+    }
+
+    return result
+  }
+
+  /**
+   * Move a commission to the next stage; the customer is emailed
+   */
+  const updateCommissionStatus = async (
+    id: string,
+    status: StaffCommissionStatus
+  ): Promise<Commission | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/commissions/${id}/status`
+
+      console.debug('[useCommissions] Updating commission status at:', url, status)
+
+      return await $fetch<Commission>(url, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: { status },
+      })
+    })
+
+    if (result) {
+      replaceInList(result)
+    }
+
+    return result
+  }
+
+  /**
+   * Link to the customer's status page, to send it again by hand
+   */
+  const getStatusLink = async (id: string): Promise<string | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/commissions/${id}/status-link`
+
+      console.debug('[useCommissions] Fetching status link from:', url)
+
+      return await $fetch<{ url: string }>(url, {
+        method: 'GET',
+        headers: getAuthHeaders(),
+      })
+    })
+
+    return result?.url ?? null
+  }
+
+  /**
+   * Delete a commission and its reference images (admin only)
+   */
+  const deleteCommission = async (id: string): Promise<boolean> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/commissions/${id}`
+
+      console.debug('[useCommissions] Deleting commission at:', url)
+
+      await $fetch(url, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+      return true
+    })
+
+    // Remove from local state
+    if (result) {
+      commissions.value = commissions.value.filter((c) => c.id !== id)
+      total.value = Math.max(0, total.value - 1)
+    }
+
+    return result || false
+  }
+
+  /**
+   * Computed: Check if commissions are loaded
+   */
+  const hasCommissions = computed(() => commissions.value.length > 0)
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    commissions: readonly(commissions) as Readonly<Ref<Commission[]>>,
+    total: readonly(total),
+    page: readonly(page),
+    totalPages: readonly(totalPages),
+    loading,
+    error,
+
+    // Computed
+    hasCommissions,
+    hasError,
+
+    // Actions
+    fetchCommissions,
+    fetchCommission,
+    quoteCommission,
+    updateCommissionStatus,
+    getStatusLink,
+    deleteCommission,
+    clearError,
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { formatCountdown } from './useCountdown'
+
+const now = new Date('2026-10-18T10:00:00.000Z').getTime()
+const inMinutes = (minutes: number) => new Date(now + minutes * 60 * 1000)
+
+describe('formatCountdown', () => {
+  it('should show days and hours for distant dates', () => {
+    expect(formatCountdown(inMinutes((2 * 24 + 3) * 60 + 20), now)).toBe('dans 2 j 3 h')
+    expect(formatCountdown(inMinutes(24 * 60 + 10), now)).toBe('dans 1 j')
+  })
+
+  it('should show hours and minutes within a day', () => {
+    expect(formatCountdown(inMinutes(5 * 60 + 12), now)).toBe('dans 5 h 12 min')
+    expect(formatCountdown(inMinutes(60), now)).toBe('dans 1 h')
+  })
+
+  it('should show minutes within an hour, rounded up', () => {
+    expect(formatCountdown(inMinutes(42), now)).toBe('dans 42 min')
+    expect(formatCountdown(new Date(now + 5000), now)).toBe('dans 1 min')
+  })
+
+  it('should accept ISO strings', () => {
+    expect(formatCountdown(inMinutes(30).toISOString(), now)).toBe('dans 30 min')
+  })
+
+  it('should report past dates as imminent', () => {
+    expect(formatCountdown(inMinutes(-5), now)).toBe('imminente')
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * @pattern Observer Pattern
+ * @category Composables
+ * @purpose Ticking clock and countdown labels for scheduled publications
+ *
+ * @example
+ * ```typescript
+ * const { now } = useCountdown()
+ * const label = formatCountdown(article.scheduledAt, now.value) // "dans 2 j 3 h"
+ * ```
+ */
+
+import { onMounted, onUnmounted, readonly, ref } from 'vue'
+
+const MINUTES_PER_DAY = 24 * 60
+
+/**
+ * Time left until a date, at the precision an editor cares about:
+ * days and hours, hours and minutes, then minutes (rounded up)
+ */
+export function formatCountdown(target: string | Date, now: number = Date.now()): string {
+  const remaining = new Date(target).getTime() - now
+  if (remaining <= 0) return 'imminente'
+
+  const totalMinutes = Math.ceil(remaining / (60 * 1000))
+  const days = Math.floor(totalMinutes / MINUTES_PER_DAY)
+  const hours = Math.floor((totalMinutes % MINUTES_PER_DAY) / 60)
+  const minutes = totalMinutes % 60
+
+  if (days > 0) return hours > 0 ? `dans ${days} j ${hours} h` : `dans ${days} j`
+  if (hours > 0) return minutes > 0 ? `dans ${hours} h ${minutes} min` : `dans ${hours} h`
+  return `dans ${minutes} min`
+}
+
+/**
+ * Current time, refreshed every intervalMs while the component is mounted
+ */
+export function useCountdown(intervalMs: number = 30 * 1000) {
+  const now = ref(Date.now())
+  let timer: ReturnType<typeof setInterval> | null = null
+
+  onMounted(() => {
+    timer = setInterval(() => {
+      now.value = Date.now()
+    }, intervalMs)
+  })
+
+  onUnmounted(() => {
+    if (timer) clearInterval(timer)
+    timer = null
+  })
+
+  return {
+    now: readonly(now),
+  }
+}
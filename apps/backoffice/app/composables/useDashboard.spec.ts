@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useDashboard, getTrend, formatChange } from './useDashboard'
+import type { DashboardOverview, PeriodMetric } from '@/types/dashboard'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+let mockExecuteApiCall: Mock
+
+// --- Test data factories ---
+
+function createMetric(overrides: Partial<PeriodMetric> = {}): PeriodMetric {
+  return { current: 0, previous: 0, changePercent: null, ...overrides }
+}
+
+function createMockOverview(): DashboardOverview {
+  return {
+    period: {
+      days: 30,
+      currentStart: '2026-09-18T00:00:00.000Z',
+      previousStart: '2026-08-19T00:00:00.000Z',
+      end: '2026-10-18T00:00:00.000Z',
+    },
+    products: {
+      total: 10,
+      byCategory: { 'wall-hanging': 6, rug: 4 },
+      byStatus: { available: 5, sold: 3, draft: 2 },
+    },
+    stockValue: 2500,
+    blogArticles: { published: 4, draft: 1 },
+    aboutSections: { published: 3, draft: 0 },
+    revenue: createMetric({ current: 750, previous: 500, changePercent: 50 }),
+    orders: createMetric({ current: 3, previous: 2, changePercent: 50 }),
+    piecesSold: createMetric({ current: 3, previous: 4, changePercent: -25 }),
+    newProducts: createMetric({ current: 2 }),
+    recentlySold: [],
+  }
+}
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  mockExecuteApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall: mockExecuteApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+// =====================
+// Pure helpers
+// =====================
+describe('getTrend', () => {
+  it('should compare the current value with the previous period', () => {
+    expect(getTrend(createMetric({ current: 5, previous: 3 }))).toBe('up')
+    expect(getTrend(createMetric({ current: 1, previous: 3 }))).toBe('down')
+    expect(getTrend(createMetric({ current: 3, previous: 3 }))).toBe('flat')
+  })
+})
+
+describe('formatChange', () => {
+  it('should format percentages with an explicit sign', () => {
+    expect(formatChange(createMetric({ current: 3, previous: 2, changePercent: 50 }))).toBe('+50 %')
+    expect(formatChange(createMetric({ current: 3, previous: 4, changePercent: -25 }))).toBe('-25 %')
+  })
+
+  it('should fall back to the absolute difference when there is no percentage', () => {
+    expect(formatChange(createMetric({ current: 2, previous: 0 }))).toBe('+2')
+    expect(formatChange(createMetric({ current: 0, previous: 0 }))).toBe('=')
+  })
+})
+
+// =====================
+// useDashboard
+// =====================
+describe('useDashboard', () => {
+  describe('fetchOverview', () => {
+    it('should request the selected period and store the overview', async () => {
+      const overview = createMockOverview()
+      ;(globalThis.$fetch as Mock).mockResolvedValue(overview)
+
+      const { overview: state, fetchOverview } = useDashboard()
+      const result = await fetchOverview(7)
+
+      expect(globalThis.$fetch).toHaveBeenCalledWith(
+        'http://localhost:4000/api/dashboard?periodDays=7',
+        expect.objectContaining({ method: 'GET' })
+      )
+      expect(result).toEqual(overview)
+      expect(state.value).toEqual(overview)
+    })
+
+    it('should keep the previous overview when the request fails', async () => {
+      ;(globalThis.$fetch as Mock).mockRejectedValue(new Error('Network error'))
+
+      const { overview, fetchOverview } = useDashboard()
+      const result = await fetchOverview()
+
+      expect(result).toBeNull()
+      expect(overview.value).toBeNull()
+    })
+  })
+})
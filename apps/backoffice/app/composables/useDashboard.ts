@@ -0,0 +1,95 @@
+/**
+ * @pattern Facade + Strategy Patterns
+ * @category Composables
+ * @purpose Dashboard overview loading and trend presentation helpers
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for the GET /dashboard endpoint
+ * - Strategy: Trend direction and change labels derived from period metrics
+ *
+ * @example
+ * ```typescript
+ * const { overview, loading, fetchOverview } = useDashboard()
+ * await fetchOverview(30)
+ * ```
+ */
+
+import type { DashboardOverview, PeriodMetric, Trend } from '@/types/dashboard'
+
+/**
+ * Reporting periods offered on the dashboard, in days
+ */
+export const DASHBOARD_PERIODS = [7, 30, 90] as const
+
+/**
+ * Direction of a metric compared with the previous period
+ */
+export function getTrend(metric: PeriodMetric): Trend {
+  if (metric.current > metric.previous) return 'up'
+  if (metric.current < metric.previous) return 'down'
+  return 'flat'
+}
+
+/**
+ * Human readable change from the previous period
+ * Falls back to the absolute difference when there is no percentage
+ * (previous period was empty)
+ */
+export function formatChange(metric: PeriodMetric): string {
+  if (metric.changePercent !== null) {
+    const sign = metric.changePercent > 0 ? '+' : ''
+    return `${sign}${metric.changePercent.toLocaleString('fr-FR', { maximumFractionDigits: 1 })} %`
+  }
+
+  const difference = metric.current - metric.previous
+  if (difference === 0) return '='
+  return `${difference > 0 ? '+' : ''}${difference.toLocaleString('fr-FR', { maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Dashboard state and operations
+ */
+export function useDashboard() {
+  // Internal state (reactive)
+  const overview = ref<DashboardOverview | null>(null)
+
+  // Shared API infrastructure
+  const { loading, error, hasError, getApiUrl, getAuthHeaders, executeApiCall, clearError } =
+    useApi('useDashboard')
+
+  /**
+   * Fetch the overview for the last `periodDays` days
+   * Pattern: Facade - simplifies API interaction
+   */
+  const fetchOverview = async (periodDays: number = 30): Promise<DashboardOverview | null> => {
+    return await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/dashboard?periodDays=${periodDays}`
+
+        console.debug('[useDashboard] Fetching dashboard overview from:', url)
+
+        return await $fetch<DashboardOverview>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        overview.value = data
+      }
+    )
+  }
+
+  return {
+    // State (readonly)
+    overview: readonly(overview) as Readonly<Ref<DashboardOverview | null>>,
+    loading,
+    error,
+
+    // Computed
+    hasError,
+
+    // Actions
+    fetchOverview,
+    clearError,
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useInquiries } from './useInquiries'
+import type { Inquiry } from '@/types/inquiry'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Test data factories ---
+
+function createMockInquiry(overrides: Partial<Inquiry> = {}): Inquiry {
+  return {
+    id: 'inquiry-1',
+    type: 'commission',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    phone: null,
+    message: 'Un tapis bleu de 2 m x 3 m',
+    productId: null,
+    product: null,
+    status: 'new',
+    repliedAt: null,
+    repliedBy: null,
+    replyNote: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function mockPage(data: Inquiry[]) {
+  return { data, total: data.length, page: 1, limit: 20, totalPages: 1 }
+}
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('useInquiries', () => {
+  it('should fetch a page of inquiries without empty filters', async () => {
+    const list = [createMockInquiry()]
+    ;(globalThis.$fetch as Mock).mockResolvedValue(mockPage(list))
+
+    const { inquiries, total, hasInquiries, fetchInquiries } = useInquiries()
+    const result = await fetchInquiries({ status: 'new', search: '', type: undefined })
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/inquiries',
+      expect.objectContaining({ method: 'GET', query: { status: 'new' } })
+    )
+    expect(result).toEqual(list)
+    expect(inquiries.value).toEqual(list)
+    expect(total.value).toBe(1)
+    expect(hasInquiries.value).toBe(true)
+  })
+
+  it('should fetch the counts per status', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValue({ new: 2, read: 5, archived: 9 })
+
+    const { counts, fetchCounts } = useInquiries()
+    await fetchCounts()
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/inquiries/counts',
+      expect.objectContaining({ method: 'GET' })
+    )
+    expect(counts.value).toEqual({ new: 2, read: 5, archived: 9 })
+  })
+
+  it('should replace an updated inquiry and move it between counts', async () => {
+    ;(globalThis.$fetch as Mock)
+      .mockResolvedValueOnce(mockPage([createMockInquiry()]))
+      .mockResolvedValueOnce({ new: 1, read: 0, archived: 0 })
+
+    const { inquiries, counts, fetchInquiries, fetchCounts, updateInquiry } = useInquiries()
+    await fetchInquiries()
+    await fetchCounts()
+
+    const updated = createMockInquiry({
+      status: 'read',
+      repliedAt: '2026-01-02T00:00:00.000Z',
+      repliedBy: 'admin',
+    })
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(updated)
+
+    const result = await updateInquiry('inquiry-1', { replied: true })
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/inquiries/inquiry-1',
+      expect.objectContaining({ method: 'PATCH', body: { replied: true } })
+    )
+    expect(result).toEqual(updated)
+    expect(inquiries.value[0]).toEqual(updated)
+    expect(counts.value).toEqual({ new: 0, read: 1, archived: 0 })
+  })
+
+  it('should remove a deleted inquiry from the list and the counts', async () => {
+    ;(globalThis.$fetch as Mock)
+      .mockResolvedValueOnce(mockPage([createMockInquiry()]))
+      .mockResolvedValueOnce({ new: 1, read: 0, archived: 0 })
+      .mockResolvedValueOnce(undefined)
+
+    const { inquiries, counts, total, fetchInquiries, fetchCounts, deleteInquiry } = useInquiries()
+    await fetchInquiries()
+    await fetchCounts()
+    const result = await deleteInquiry('inquiry-1')
+
+    expect(result).toBe(true)
+    expect(inquiries.value).toEqual([])
+    expect(total.value).toBe(0)
+    expect(counts.value.new).toBe(0)
+  })
+
+  it('should keep the list when a deletion fails', async () => {
+    ;(globalThis.$fetch as Mock)
+      .mockResolvedValueOnce(mockPage([createMockInquiry()]))
+      .mockRejectedValueOnce(new Error('Forbidden'))
+
+    const { inquiries, fetchInquiries, deleteInquiry } = useInquiries()
+    await fetchInquiries()
+    const result = await deleteInquiry('inquiry-1')
+
+    expect(result).toBe(false)
+    expect(inquiries.value).toHaveLength(1)
+  })
+})
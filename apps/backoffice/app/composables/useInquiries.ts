@@ -0,0 +1,231 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Inbox of the messages sent from the storefront contact form
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for the inbox listing and state changes
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { inquiries, counts, fetchInquiries, updateInquiry } = useInquiries()
+ * await fetchInquiries({ status: 'new' })
+ * await updateInquiry(id, { replied: true, replyNote: 'Devis envoyé' })
+ * ```
+ */
+
+import type {
+  Inquiry,
+  InquiryCounts,
+  InquiryFilters,
+  PaginatedInquiriesResponse,
+  UpdateInquiryDto,
+} from '@/types/inquiry'
+
+/**
+ * Inquiries state and operations
+ */
+export function useInquiries() {
+  // Internal state (reactive)
+  const inquiries = ref<Inquiry[]>([])
+  const counts = ref<InquiryCounts>({ new: 0, read: 0, archived: 0 })
+  const total = ref(0)
+  const page = ref(1)
+  const totalPages = ref(0)
+
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('useInquiries')
+
+  /**
+   * Keep the per-status counts in step with a local state change
+   */
+  const moveCount = (from: Inquiry['status'], to: Inquiry['status']) => {
+    if (from === to) return
+    counts.value = {
+      ...counts.value,
+      [from]: Math.max(0, counts.value[from] - 1),
+      [to]: counts.value[to] + 1,
+    }
+  }
+
+  /**
+   * Fetch a page of inquiries, newest first
+   * Empty filters are left out of the query string
+   */
+  const fetchInquiries = async (
+    filters: InquiryFilters = {}
+  ): Promise<Inquiry[]> => {
+    const query = Object.fromEntries(
+      Object.entries(filters).filter(
+        ([, value]) => value !== undefined && value !== ''
+      )
+    )
+
+    const result = await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/inquiries`
+
+        console.debug('[useInquiries] Fetching inquiries from:', url, query)
+
+        return await $fetch<PaginatedInquiriesResponse>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+          query,
+        })
+      },
+      (data) => {
+        inquiries.value = data.data
+        total.value = data.total
+        page.value = data.page
+        totalPages.value = data.totalPages
+      }
+    )
+
+    return result?.data || []
+  }
+
+  /**
+   * Fetch the number of inquiries in each inbox state
+   */
+  const fetchCounts = async (): Promise<InquiryCounts | null> => {
+    return await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/inquiries/counts`
+
+        console.debug('[useInquiries] Fetching counts from:', url)
+
+        return await $fetch<InquiryCounts>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        counts.value = data
+      }
+    )
+  }
+
+  /**
+   * Fetch a single inquiry, e.g. one opened from a notification email
+   */
+  const fetchInquiry = async (id: string): Promise<Inquiry | null> => {
+    return await executeApiCall(async () => {
+      const url = `${getApiUrl()}/inquiries/${id}`
+
+      console.debug('[useInquiries] Fetching inquiry from:', url)
+
+      return await $fetch<Inquiry>(url, {
+        method: 'GET',
+        headers: getAuthHeaders(),
+      })
+    })
+  }
+
+  /**
+   * Change the inbox state or the reply tracking of an inquiry
+   */
+  const updateInquiry = async (
+    id: string,
+    dto: UpdateInquiryDto
+  ): Promise<Inquiry | null> => {
+    const previous = inquiries.value.find((i) => i.id === id)
+
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/inquiries/${id}`
+
+      console.debug('[useInquiries] Updating inquiry at:', url)
+
+      return await $fetch<Inquiry>(url, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: dto,
+      })
+    })
+
+    // Update local state
+    if (result) {
+      inquiries.value = inquiries.value.map((i) =>
+        i.id === result.id ? result : i
+      )
+      if (previous) {
+        moveCount(previous.status, result.status)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Delete an inquiry (admin only)
+   */
+  const deleteInquiry = async (id: string): Promise<boolean> => {
+    const previous = inquiries.value.find((i) => i.id === id)
+
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/inquiries/${id}`
+
+      console.debug('[useInquiries] Deleting inquiry at:', url)
+
+      await $fetch(url, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+      return true
+    })
+
+    // Remove from local state
+    if (result) {
+      inquiries.value = inquiries.value.filter((i) => i.id !== id)
+      total.value = Math.max(0, total.value - 1)
+      if (previous) {
+        counts.value = {
+          ...counts.value,
+          [previous.status]: Math.max(0, counts.value[previous.status] - 1),
+        }
+      }
+    }
+
+    return result || false
+  }
+
+  /**
+   * Computed: Check if inquiries are loaded
+   */
+  const hasInquiries = computed(() => inquiries.value.length > 0)
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    inquiries: readonly(inquiries) as Readonly<Ref<Inquiry[]>>,
+    counts: readonly(counts) as Readonly<Ref<InquiryCounts>>,
+    total: readonly(total),
+    page: readonly(page),
+    totalPages: readonly(totalPages),
+    loading,
+    error,
+
+    // Computed
+    hasInquiries,
+    hasError,
+
+    // Actions
+    fetchInquiries,
+    fetchCounts,
+    fetchInquiry,
+    updateInquiry,
+    deleteInquiry,
+    clearError,
+  }
+}
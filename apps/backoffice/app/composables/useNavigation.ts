@@ -10,7 +10,7 @@
  */
 
 import { computed } from 'vue'
-import { Home, Package, FileText, Info, BookOpen, Link, Settings } from 'lucide-vue-next'
+import { Home, Package, FileText, Info, BookOpen, Link, Inbox, Scissors, Newspaper, Settings, Users, ShieldCheck, History } from 'lucide-vue-next'
 import type { NavigationItem } from '~/types/navigation'
 
 /**
@@ -18,6 +18,7 @@ import type { NavigationItem } from '~/types/navigation'
  */
 export function useNavigation() {
   const route = useRoute()
+  const { isAdmin } = useAuth()
 
   /**
    * Navigation items configuration
@@ -60,11 +61,52 @@ export function useNavigation() {
       icon: Link,
       isActive: route.path === '/contact-links'
     },
+    {
+      title: 'Messages',
+      path: '/inquiries',
+      icon: Inbox,
+      isActive: route.path === '/inquiries'
+    },
+    {
+      title: 'Sur mesure',
+      path: '/commissions',
+      icon: Scissors,
+      isActive: route.path === '/commissions'
+    },
+    {
+      title: 'Newsletter',
+      path: '/newsletter',
+      icon: Newspaper,
+      isActive: route.path === '/newsletter'
+    },
+    // Account management is restricted to admins
+    ...(isAdmin.value
+      ? [
+          {
+            title: 'Utilisateurs',
+            path: '/settings/users',
+            icon: Users,
+            isActive: route.path === '/settings/users'
+          },
+          {
+            title: 'Journal des modifications',
+            path: '/settings/audit-log',
+            icon: History,
+            isActive: route.path === '/settings/audit-log'
+          }
+        ]
+      : []),
     {
       title: 'Paramètres',
       path: '/settings/credentials',
       icon: Settings,
-      isActive: route.path.startsWith('/settings')
+      isActive: route.path === '/settings/credentials'
+    },
+    {
+      title: 'Double authentification',
+      path: '/settings/two-factor',
+      icon: ShieldCheck,
+      isActive: route.path === '/settings/two-factor'
     }
   ])
 
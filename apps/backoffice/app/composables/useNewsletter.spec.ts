@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useNewsletter } from './useNewsletter'
+import type { NewsletterCampaign, Subscriber } from '@/types/newsletter'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Test data factories ---
+
+function createMockSubscriber(overrides: Partial<Subscriber> = {}): Subscriber {
+  return {
+    id: 'subscriber-1',
+    email: 'jane@example.com',
+    status: 'confirmed',
+    source: 'footer',
+    consentedAt: '2026-01-01T00:00:00.000Z',
+    consentIpAddress: '203.0.113.7',
+    confirmationSentAt: '2026-01-01T00:00:00.000Z',
+    confirmedAt: '2026-01-01T00:05:00.000Z',
+    confirmedIpAddress: '203.0.113.7',
+    unsubscribedAt: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:05:00.000Z',
+    ...overrides,
+  }
+}
+
+function createMockCampaign(overrides: Partial<NewsletterCampaign> = {}): NewsletterCampaign {
+  return {
+    id: 'campaign-1',
+    articleId: 'article-1',
+    article: { id: 'article-1', title: 'Le lin', slug: 'le-lin' },
+    subject: 'Le lin',
+    status: 'sent',
+    recipientCount: 12,
+    failedCount: 0,
+    sentBy: 'admin',
+    createdAt: '2026-01-02T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function mockPage(data: Subscriber[]) {
+  return { data, total: data.length, page: 1, limit: 20, totalPages: 1 }
+}
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('useNewsletter', () => {
+  it('should fetch a page of subscribers without empty filters', async () => {
+    const list = [createMockSubscriber()]
+    ;(globalThis.$fetch as Mock).mockResolvedValue(mockPage(list))
+
+    const { subscribers, total, hasSubscribers, fetchSubscribers } = useNewsletter()
+    const result = await fetchSubscribers({ status: 'confirmed', search: '' })
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/newsletter/subscribers',
+      expect.objectContaining({ method: 'GET', query: { status: 'confirmed' } })
+    )
+    expect(result).toEqual(list)
+    expect(subscribers.value).toEqual(list)
+    expect(total.value).toBe(1)
+    expect(hasSubscribers.value).toBe(true)
+  })
+
+  it('should export the subscribers of a status as a CSV blob', async () => {
+    const csv = new Blob(['email,status\r\n'], { type: 'text/csv' })
+    ;(globalThis.$fetch as Mock).mockResolvedValue(csv)
+
+    const { exportCsv } = useNewsletter()
+    const result = await exportCsv('confirmed')
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/newsletter/subscribers/export',
+      expect.objectContaining({ query: { status: 'confirmed' }, responseType: 'blob' })
+    )
+    expect(result).toBe(csv)
+  })
+
+  it('should remove a deleted subscriber from the list and the counts', async () => {
+    ;(globalThis.$fetch as Mock)
+      .mockResolvedValueOnce(mockPage([createMockSubscriber()]))
+      .mockResolvedValueOnce({ pending: 0, confirmed: 1, unsubscribed: 0 })
+      .mockResolvedValueOnce(undefined)
+
+    const { subscribers, counts, total, fetchSubscribers, fetchCounts, deleteSubscriber } =
+      useNewsletter()
+    await fetchSubscribers()
+    await fetchCounts()
+    const result = await deleteSubscriber('subscriber-1')
+
+    expect(result).toBe(true)
+    expect(subscribers.value).toEqual([])
+    expect(total.value).toBe(0)
+    expect(counts.value.confirmed).toBe(0)
+  })
+
+  it('should add a sent campaign on top of the history', async () => {
+    const previous = createMockCampaign({ id: 'campaign-0' })
+    const sent = createMockCampaign()
+    ;(globalThis.$fetch as Mock)
+      .mockResolvedValueOnce([previous])
+      .mockResolvedValueOnce(sent)
+
+    const { campaigns, fetchCampaigns, sendCampaign } = useNewsletter()
+    await fetchCampaigns()
+    const result = await sendCampaign({ articleId: 'article-1', resend: true })
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/newsletter/campaigns',
+      expect.objectContaining({
+        method: 'POST',
+        body: { articleId: 'article-1', resend: true },
+      })
+    )
+    expect(result).toEqual(sent)
+    expect(campaigns.value).toEqual([sent, previous])
+  })
+
+  it('should resume an interrupted campaign in the history', async () => {
+    const interrupted = createMockCampaign({ status: 'interrupted' })
+    const resumed = createMockCampaign({ status: 'sending' })
+    ;(globalThis.$fetch as Mock)
+      .mockResolvedValueOnce([interrupted])
+      .mockResolvedValueOnce(resumed)
+
+    const { campaigns, fetchCampaigns, resumeCampaign } = useNewsletter()
+    await fetchCampaigns()
+    await resumeCampaign('campaign-1')
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/newsletter/campaigns/campaign-1/resume',
+      expect.objectContaining({ method: 'POST' })
+    )
+    expect(campaigns.value).toEqual([resumed])
+  })
+
+  it('should keep the history when a campaign fails', async () => {
+    ;(globalThis.$fetch as Mock).mockRejectedValueOnce(new Error('Conflict'))
+
+    const { campaigns, sendCampaign } = useNewsletter()
+    const result = await sendCampaign({ articleId: 'article-1' })
+
+    expect(result).toBeNull()
+    expect(campaigns.value).toEqual([])
+  })
+})
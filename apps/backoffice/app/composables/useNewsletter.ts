@@ -0,0 +1,268 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Newsletter subscribers, their CSV export and the blog campaigns
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for the subscriber list and campaigns
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { subscribers, fetchSubscribers, exportCsv, sendCampaign } = useNewsletter()
+ * await fetchSubscribers({ status: 'confirmed' })
+ * await sendCampaign({ articleId })
+ * ```
+ */
+
+import type {
+  NewsletterCampaign,
+  PaginatedSubscribersResponse,
+  SendCampaignDto,
+  Subscriber,
+  SubscriberCounts,
+  SubscriberFilters,
+  SubscriberStatus,
+} from '@/types/newsletter'
+
+/**
+ * Newsletter state and operations
+ */
+export function useNewsletter() {
+  // Internal state (reactive)
+  const subscribers = ref<Subscriber[]>([])
+  const counts = ref<SubscriberCounts>({ pending: 0, confirmed: 0, unsubscribed: 0 })
+  const total = ref(0)
+  const page = ref(1)
+  const totalPages = ref(0)
+  const campaigns = ref<NewsletterCampaign[]>([])
+
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('useNewsletter')
+
+  /**
+   * Fetch a page of subscribers, newest first
+   * Empty filters are left out of the query string
+   */
+  const fetchSubscribers = async (
+    filters: SubscriberFilters = {}
+  ): Promise<Subscriber[]> => {
+    const query = Object.fromEntries(
+      Object.entries(filters).filter(
+        ([, value]) => value !== undefined && value !== ''
+      )
+    )
+
+    const result = await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/newsletter/subscribers`
+
+        console.debug('[useNewsletter] Fetching subscribers from:', url, query)
+
+        return await $fetch<PaginatedSubscribersResponse>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+          query,
+        })
+      },
+      (data) => {
+        subscribers.value = data.data
+        total.value = data.total
+        page.value = data.page
+        totalPages.value = data.totalPages
+      }
+    )
+
+    return result?.data || []
+  }
+
+  /**
+   * Fetch the number of subscribers in each status
+   */
+  const fetchCounts = async (): Promise<SubscriberCounts | null> => {
+    return await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/newsletter/subscribers/counts`
+
+        console.debug('[useNewsletter] Fetching counts from:', url)
+
+        return await $fetch<SubscriberCounts>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        counts.value = data
+      }
+    )
+  }
+
+  /**
+   * Download the subscribers and their consent records as a CSV file
+   * Without a status, every subscriber is exported
+   */
+  const exportCsv = async (status?: SubscriberStatus): Promise<Blob | null> => {
+    return await executeApiCall(async () => {
+      const url = `${getApiUrl()}/newsletter/subscribers/export`
+
+      console.debug('[useNewsletter] Exporting subscribers from:', url, status)
+
+      return await $fetch<Blob>(url, {
+        method: 'GET',
+        headers: getAuthHeaders(),
+        query: status ? { status } : {},
+        responseType: 'blob',
+      })
+    })
+  }
+
+  /**
+   * Delete a subscriber and their consent records (admin only)
+   */
+  const deleteSubscriber = async (id: string): Promise<boolean> => {
+    const previous = subscribers.value.find((s) => s.id === id)
+
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/newsletter/subscribers/${id}`
+
+      console.debug('[useNewsletter] Deleting subscriber at:', url)
+
+      await $fetch(url, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+      return true
+    })
+
+    // Remove from local state
+    if (result) {
+      subscribers.value = subscribers.value.filter((s) => s.id !== id)
+      total.value = Math.max(0, total.value - 1)
+      if (previous) {
+        counts.value = {
+          ...counts.value,
+          [previous.status]: Math.max(0, counts.value[previous.status] - 1),
+        }
+      }
+    }
+
+    return result || false
+  }
+
+  /**
+   * Fetch the latest campaigns, newest first
+   */
+  const fetchCampaigns = async (): Promise<NewsletterCampaign[]> => {
+    const result = await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/newsletter/campaigns`
+
+        console.debug('[useNewsletter] Fetching campaigns from:', url)
+
+        return await $fetch<NewsletterCampaign[]>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        campaigns.value = data
+      }
+    )
+
+    return result || []
+  }
+
+  /**
+   * Send a published blog article to the confirmed subscribers
+   * An article that already went out fails with a 409 unless resend is set
+   */
+  const sendCampaign = async (
+    dto: SendCampaignDto
+  ): Promise<NewsletterCampaign | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/newsletter/campaigns`
+
+      console.debug('[useNewsletter] Sending campaign to:', url, dto)
+
+      return await $fetch<NewsletterCampaign>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: dto,
+      })
+    })
+
+    // Add to local state
+    if (result) {
+      campaigns.value = [result, ...campaigns.value]
+    }
+
+    return result
+  }
+
+  /**
+   * Resume a campaign interrupted by a restart of the API
+   * Only the subscribers it has not reached are mailed
+   */
+  const resumeCampaign = async (id: string): Promise<NewsletterCampaign | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/newsletter/campaigns/${id}/resume`
+
+      console.debug('[useNewsletter] Resuming campaign at:', url)
+
+      return await $fetch<NewsletterCampaign>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+    })
+
+    // Update local state
+    if (result) {
+      campaigns.value = campaigns.value.map((c) => (c.id === id ? { ...c, ...result } : c))
+    }
+
+    return result
+  }
+
+  /**
+   * Computed: Check if subscribers are loaded
+   */
+  const hasSubscribers = computed(() => subscribers.value.length > 0)
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    subscribers: readonly(subscribers) as Readonly<Ref<Subscriber[]>>,
+    counts: readonly(counts) as Readonly<Ref<SubscriberCounts>>,
+    total: readonly(total),
+    page: readonly(page),
+    totalPages: readonly(totalPages),
+    campaigns: readonly(campaigns) as Readonly<Ref<NewsletterCampaign[]>>,
+    loading,
+    error,
+
+    // Computed
+    hasSubscribers,
+    hasError,
+
+    // Actions
+    fetchSubscribers,
+    fetchCounts,
+    exportCsv,
+    deleteSubscriber,
+    fetchCampaigns,
+    sendCampaign,
+    resumeCampaign,
+    clearError,
+  }
+}
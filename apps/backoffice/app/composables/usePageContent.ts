@@ -67,6 +67,7 @@ export function usePageContent() {
       if (dto.metadata) formData.append('metadata', JSON.stringify(dto.metadata))
       if (dto.sortOrder !== undefined) formData.append('sortOrder', dto.sortOrder.toString())
       if (dto.isPublished !== undefined) formData.append('isPublished', dto.isPublished.toString())
+      if (dto.scheduledAt) formData.append('scheduledAt', dto.scheduledAt)
       formData.append('image', imageFile)
 
       const apiUrl = getApiUrl()
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { usePasswordReset } from './usePasswordReset'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('usePasswordReset', () => {
+  it('should request a reset link for the trimmed address', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValue(undefined)
+
+    const { requestReset } = usePasswordReset()
+    const accepted = await requestReset('  admin@atelier-kaisla.com ')
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/auth/forgot-password',
+      expect.objectContaining({ method: 'POST', body: { email: 'admin@atelier-kaisla.com' } })
+    )
+    expect(accepted).toBe(true)
+  })
+
+  it('should reset the password with the link token', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValue(undefined)
+
+    const { resetPassword } = usePasswordReset()
+    const reset = await resetPassword('reset-token', 'newPassword123')
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/auth/reset-password',
+      expect.objectContaining({
+        method: 'POST',
+        body: { token: 'reset-token', newPassword: 'newPassword123' },
+      })
+    )
+    expect(reset).toBe(true)
+  })
+
+  it('should report an expired or used token', async () => {
+    ;(globalThis.$fetch as Mock).mockRejectedValue(new Error('Invalid or expired reset token'))
+
+    const { resetPassword } = usePasswordReset()
+    const reset = await resetPassword('used-token', 'newPassword123')
+
+    expect(reset).toBe(false)
+  })
+})
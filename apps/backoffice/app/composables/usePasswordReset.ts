@@ -0,0 +1,89 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Forgotten password flow: request a reset link by email, then set a new password
+ *
+ * Both endpoints are public. The request answers the same way whether or not
+ * the address belongs to an account; the link token works once and expires.
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for complex API operations
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { requestReset, resetPassword } = usePasswordReset()
+ * await requestReset('admin@atelier-kaisla.com')
+ * await resetPassword(token, 'newPassword123')
+ * ```
+ */
+
+/**
+ * Password reset operations
+ */
+export function usePasswordReset() {
+  // Shared API infrastructure
+  const { loading, error, hasError, getApiUrl, executeApiCall, clearError } =
+    useApi('usePasswordReset')
+
+  /**
+   * Ask for a reset link sent to this address
+   *
+   * @returns true once the request is accepted (even for unknown addresses)
+   */
+  const requestReset = async (email: string): Promise<boolean> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/auth/forgot-password`
+
+      console.debug('[usePasswordReset] Requesting reset link at:', url)
+
+      await $fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: { email: email.trim() },
+      })
+      return true
+    })
+
+    return result || false
+  }
+
+  /**
+   * Set a new password with the token of a reset link
+   * Every session of the account is closed
+   */
+  const resetPassword = async (token: string, newPassword: string): Promise<boolean> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/auth/reset-password`
+
+      console.debug('[usePasswordReset] Resetting password at:', url)
+
+      await $fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: { token, newPassword },
+      })
+      return true
+    })
+
+    return result || false
+  }
+
+  /**
+   * Public API
+   */
+  return {
+    // State (readonly)
+    loading,
+    error,
+
+    // Computed
+    hasError,
+
+    // Actions
+    requestReset,
+    resetPassword,
+    clearError,
+  }
+}
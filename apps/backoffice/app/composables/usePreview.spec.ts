@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { usePreview } from './usePreview'
+import type { PreviewLink } from '@/types/preview'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Test data factories ---
+
+function createMockLink(): PreviewLink {
+  return {
+    token: 'preview.jwt.token',
+    url: 'http://localhost:3002/blog/article-1?preview=preview.jwt.token',
+    expiresAt: '2026-10-18T12:00:00.000Z',
+  }
+}
+
+// --- Setup ---
+
+let mockTab: { close: Mock; location: { href: string } }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+
+  mockTab = { close: vi.fn(), location: { href: '' } }
+  vi.spyOn(window, 'open').mockReturnValue(mockTab as unknown as Window)
+})
+
+describe('usePreview', () => {
+  it('should issue a preview link of an entry', async () => {
+    const link = createMockLink()
+    ;(globalThis.$fetch as Mock).mockResolvedValue(link)
+
+    const { createPreviewLink } = usePreview()
+    const result = await createPreviewLink('blog-article', 'article-1')
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/previews',
+      expect.objectContaining({
+        method: 'POST',
+        body: { entityType: 'blog-article', entityId: 'article-1' },
+      })
+    )
+    expect(result).toEqual(link)
+  })
+
+  it('should open the preview in a new tab', async () => {
+    const link = createMockLink()
+    ;(globalThis.$fetch as Mock).mockResolvedValue(link)
+
+    const { openPreview } = usePreview()
+    await openPreview('blog-article', 'article-1')
+
+    expect(window.open).toHaveBeenCalledWith('', '_blank')
+    expect(mockTab.location.href).toBe(link.url)
+  })
+
+  it('should close the tab when the link could not be issued', async () => {
+    ;(globalThis.$fetch as Mock).mockRejectedValue(new Error('Not found'))
+
+    const { openPreview } = usePreview()
+    const result = await openPreview('page-content', 'content-1')
+
+    expect(result).toBeNull()
+    expect(mockTab.close).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Preview links of unpublished blog articles, about sections and page content
+ *
+ * Links are signed and expire after a while (PREVIEW_TOKEN_TTL_MINUTES on
+ * the backend): anyone holding one sees the draft on the storefront.
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for complex API operations
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { openPreview } = usePreview()
+ * await openPreview('blog-article', article.id)
+ * ```
+ */
+
+import type { PreviewEntityType, PreviewLink } from '@/types/preview'
+
+/**
+ * Preview link operations
+ */
+export function usePreview() {
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('usePreview')
+
+  /**
+   * Issue a preview link of an entry
+   */
+  const createPreviewLink = async (
+    entityType: PreviewEntityType,
+    entityId: string
+  ): Promise<PreviewLink | null> => {
+    return await executeApiCall(async () => {
+      const url = `${getApiUrl()}/previews`
+
+      console.debug('[usePreview] Issuing preview link for:', entityType, entityId)
+
+      return await $fetch<PreviewLink>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: { entityType, entityId },
+      })
+    })
+  }
+
+  /**
+   * Issue a preview link and open it in a new tab
+   * The tab is opened before the request so popup blockers allow it
+   */
+  const openPreview = async (
+    entityType: PreviewEntityType,
+    entityId: string
+  ): Promise<PreviewLink | null> => {
+    const tab = window.open('', '_blank')
+    const link = await createPreviewLink(entityType, entityId)
+
+    if (!link) {
+      tab?.close()
+      return null
+    }
+
+    if (tab) {
+      tab.location.href = link.url
+    }
+    return link
+  }
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    loading,
+    error,
+
+    // Computed
+    hasError,
+
+    // Actions
+    createPreviewLink,
+    openPreview,
+    clearError,
+  }
+}
@@ -62,6 +62,7 @@ function createMockProduct(overrides: Partial<Product> = {}): Product {
     price: 150,
     status: 'available',
     stockQuantity: 3,
+    showInArchive: true,
     materials: 'Cotton, wool',
     dimensions: { width: 60, height: 90, unit: 'cm' },
     productImages: [],
@@ -75,6 +76,7 @@ function createMockProductImage(overrides: Partial<ProductImage> = {}): ProductI
   return {
     id: 'img-1',
     url: 'http://example.com/image.jpg',
+    variants: null,
     showOnHome: false,
     sortOrder: 0,
     productId: 'prod-1',
@@ -269,7 +271,7 @@ describe('useProducts', () => {
 
       const { createProductWithImages } = useProducts()
       const result = await createProductWithImages(
-        { name: 'New Product', category: 'wall-hanging', price: 100 },
+        { name: 'New Product', category: 'wall-hanging', price: 100, showInArchive: false },
         [mockFile],
         [true]
       )
@@ -288,6 +290,7 @@ describe('useProducts', () => {
       expect(calledFormData.get('name')).toBe('New Product')
       expect(calledFormData.get('category')).toBe('wall-hanging')
       expect(calledFormData.get('price')).toBe('100')
+      expect(calledFormData.get('showInArchive')).toBe('false')
       expect(calledFormData.get('showOnHome')).toBe(JSON.stringify([true]))
     })
 
@@ -212,6 +212,9 @@ export function useProducts() {
       if (dto.stockQuantity !== undefined) {
         formData.append('stockQuantity', dto.stockQuantity.toString())
       }
+      if (dto.showInArchive !== undefined) {
+        formData.append('showInArchive', dto.showInArchive.toString())
+      }
       if (dto.materials) formData.append('materials', dto.materials)
 
       // Add dimensions as JSON string if provided
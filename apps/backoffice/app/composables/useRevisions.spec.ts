@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useRevisions } from './useRevisions'
+import type { RevisionDiff, RevisionSummary } from '@/types/revision'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Test data factories ---
+
+function createMockRevision(overrides: Partial<RevisionSummary> = {}): RevisionSummary {
+  return {
+    id: 'revision-1',
+    entityType: 'blog-article',
+    entityId: 'article-1',
+    title: 'The Art of Wall Hanging',
+    subtitle: null,
+    tags: [],
+    isPublished: true,
+    publishedAt: null,
+    restoredFromId: null,
+    userId: 'user-1',
+    username: 'admin',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('useRevisions', () => {
+  it('should fetch the revisions of a blog article', async () => {
+    const list = [createMockRevision({ id: 'revision-2' }), createMockRevision()]
+    ;(globalThis.$fetch as Mock).mockResolvedValue(list)
+
+    const { revisions, fetchRevisions } = useRevisions('blog-article')
+    await fetchRevisions('article-1')
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/blog/article-1/revisions',
+      expect.objectContaining({ method: 'GET' })
+    )
+    expect(revisions.value).toEqual(list)
+  })
+
+  it('should compare two revisions of a page content entry', async () => {
+    const diff: RevisionDiff = {
+      from: createMockRevision({ entityType: 'page-content' }),
+      to: createMockRevision({ id: 'revision-2', entityType: 'page-content' }),
+      fields: [],
+      content: [{ type: 'added', lines: ['<p>New</p>'] }],
+    }
+    ;(globalThis.$fetch as Mock).mockResolvedValue(diff)
+
+    const { diff: current, fetchDiff, clearDiff } = useRevisions('page-content')
+    await fetchDiff('page-1', 'revision-1', 'revision-2')
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/page-content/page-1/revisions/diff',
+      expect.objectContaining({
+        method: 'GET',
+        query: { from: 'revision-1', to: 'revision-2' },
+      })
+    )
+    expect(current.value).toEqual(diff)
+
+    clearDiff()
+    expect(current.value).toBeNull()
+  })
+
+  it('should restore a revision', async () => {
+    const article = { id: 'article-1', title: 'The Art of Wall Hanging' }
+    ;(globalThis.$fetch as Mock).mockResolvedValue(article)
+
+    const { restoreRevision } = useRevisions('blog-article')
+    const result = await restoreRevision('article-1', 'revision-1')
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/blog/article-1/revisions/revision-1/restore',
+      expect.objectContaining({ method: 'POST' })
+    )
+    expect(result).toEqual(article)
+  })
+
+  it('should return null when a restore fails', async () => {
+    ;(globalThis.$fetch as Mock).mockRejectedValue(new Error('Not found'))
+
+    const { restoreRevision } = useRevisions('blog-article')
+    const result = await restoreRevision('article-1', 'missing')
+
+    expect(result).toBeNull()
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Revision history of blog articles and page content (list, compare, restore)
+ *
+ * Every save recording a revision, the newest one is the current state.
+ * Restoring is a save too: it adds a revision, so it can itself be undone.
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for complex API operations
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { revisions, fetchRevisions, fetchDiff, restoreRevision } = useRevisions('blog-article')
+ * await fetchRevisions(articleId)
+ * await fetchDiff(articleId, olderId, newerId)
+ * const article = await restoreRevision<BlogArticle>(articleId, olderId)
+ * ```
+ */
+
+import type {
+  RevisionDiff,
+  RevisionEntityType,
+  RevisionSummary,
+} from '@/types/revision'
+
+/**
+ * API resource of each content type
+ */
+const RESOURCE_PATHS: Record<RevisionEntityType, string> = {
+  'blog-article': 'blog',
+  'page-content': 'page-content',
+}
+
+/**
+ * Revision history state and operations
+ */
+export function useRevisions(entityType: RevisionEntityType) {
+  // Internal state (reactive)
+  const revisions = ref<RevisionSummary[]>([])
+  const diff = ref<RevisionDiff | null>(null)
+
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('useRevisions')
+
+  const getRevisionsUrl = (id: string) =>
+    `${getApiUrl()}/${RESOURCE_PATHS[entityType]}/${id}/revisions`
+
+  /**
+   * Fetch the history of an entry, newest first
+   */
+  const fetchRevisions = async (id: string): Promise<RevisionSummary[]> => {
+    const result = await executeApiCall(
+      async () => {
+        const url = getRevisionsUrl(id)
+
+        console.debug('[useRevisions] Fetching revisions from:', url)
+
+        return await $fetch<RevisionSummary[]>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        revisions.value = data
+      }
+    )
+
+    return result || []
+  }
+
+  /**
+   * Compare two revisions of an entry
+   */
+  const fetchDiff = async (
+    id: string,
+    fromId: string,
+    toId: string
+  ): Promise<RevisionDiff | null> => {
+    return await executeApiCall(
+      async () => {
+        const url = `${getRevisionsUrl(id)}/diff`
+
+        console.debug('[useRevisions] Fetching diff from:', url)
+
+        return await $fetch<RevisionDiff>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+          query: { from: fromId, to: toId },
+        })
+      },
+      (data) => {
+        diff.value = data
+      }
+    )
+  }
+
+  /**
+   * Restore a revision
+   * @returns The entry as restored (BlogArticle or PageContent)
+   */
+  const restoreRevision = async <T>(
+    id: string,
+    revisionId: string
+  ): Promise<T | null> => {
+    return await executeApiCall(async () => {
+      const url = `${getRevisionsUrl(id)}/${revisionId}/restore`
+
+      console.debug('[useRevisions] Restoring revision at:', url)
+
+      return await $fetch<T>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+    })
+  }
+
+  /**
+   * Forget the displayed comparison
+   */
+  const clearDiff = () => {
+    diff.value = null
+  }
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    revisions: readonly(revisions) as Readonly<Ref<RevisionSummary[]>>,
+    diff: readonly(diff) as Readonly<Ref<RevisionDiff | null>>,
+    loading,
+    error,
+
+    // Computed
+    hasError,
+
+    // Actions
+    fetchRevisions,
+    fetchDiff,
+    restoreRevision,
+    clearDiff,
+    clearError,
+  }
+}
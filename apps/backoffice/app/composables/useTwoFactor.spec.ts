@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useTwoFactor } from './useTwoFactor'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('useTwoFactor', () => {
+  it('should fetch the 2FA status', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValue({ enabled: true, recoveryCodesRemaining: 8 })
+
+    const { status, isEnabled, fetchStatus } = useTwoFactor()
+    await fetchStatus()
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/auth/2fa',
+      expect.objectContaining({ method: 'GET' })
+    )
+    expect(status.value?.recoveryCodesRemaining).toBe(8)
+    expect(isEnabled.value).toBe(true)
+  })
+
+  it('should keep the pending enrollment until it is confirmed', async () => {
+    const pending = {
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauthUrl: 'otpauth://totp/Atelier%20Kaisla%3Aadmin?secret=JBSWY3DPEHPK3PXP',
+    }
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(pending)
+    const { enrollment, isEnabled, startEnrollment, confirmEnrollment } = useTwoFactor()
+    await startEnrollment()
+
+    expect(enrollment.value).toEqual(pending)
+
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce({ recoveryCodes: ['4f1c9-a07be', '0d2e8-77c31'] })
+    const recoveryCodes = await confirmEnrollment('123456')
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/auth/2fa/enable',
+      expect.objectContaining({ method: 'POST', body: { code: '123456' } })
+    )
+    expect(recoveryCodes).toEqual(['4f1c9-a07be', '0d2e8-77c31'])
+    expect(enrollment.value).toBeNull()
+    expect(isEnabled.value).toBe(true)
+  })
+
+  it('should keep the enrollment when the code is wrong', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce({ secret: 'JBSWY3DPEHPK3PXP', otpauthUrl: 'otpauth://totp/x' })
+    const { enrollment, startEnrollment, confirmEnrollment } = useTwoFactor()
+    await startEnrollment()
+
+    ;(globalThis.$fetch as Mock).mockRejectedValueOnce(new Error('Invalid two-factor code'))
+    const recoveryCodes = await confirmEnrollment('000000')
+
+    expect(recoveryCodes).toBeNull()
+    expect(enrollment.value).not.toBeNull()
+  })
+
+  it('should disable 2FA with the password and a code', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce({ enabled: true, recoveryCodesRemaining: 10 })
+    const { isEnabled, fetchStatus, disable } = useTwoFactor()
+    await fetchStatus()
+
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(undefined)
+    const disabled = await disable('password123', '123456')
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/auth/2fa/disable',
+      expect.objectContaining({ method: 'POST', body: { password: 'password123', code: '123456' } })
+    )
+    expect(disabled).toBe(true)
+    expect(isEnabled.value).toBe(false)
+  })
+})
@@ -0,0 +1,204 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Two-factor authentication settings of the current user (TOTP enrollment, recovery codes)
+ *
+ * Enrollment is two-step: setup returns a secret, pending until the first code
+ * from the authenticator app enables it and returns the recovery codes.
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for complex API operations
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { enrollment, startEnrollment, confirmEnrollment } = useTwoFactor()
+ * await startEnrollment()
+ * const recoveryCodes = await confirmEnrollment('123456')
+ * ```
+ */
+
+import type {
+  TwoFactorStatus,
+  TwoFactorEnrollment,
+  RecoveryCodesResponse,
+} from '@/types/two-factor'
+
+/**
+ * Two-factor settings state and operations
+ */
+export function useTwoFactor() {
+  // Internal state (reactive)
+  const status = ref<TwoFactorStatus | null>(null)
+  const enrollment = ref<TwoFactorEnrollment | null>(null)
+
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('useTwoFactor')
+
+  /**
+   * Fetch the 2FA status of the current user
+   */
+  const fetchStatus = async (): Promise<TwoFactorStatus | null> => {
+    return await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/auth/2fa`
+
+        console.debug('[useTwoFactor] Fetching status from:', url)
+
+        return await $fetch<TwoFactorStatus>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        status.value = data
+      }
+    )
+  }
+
+  /**
+   * Generate a new secret to scan with the authenticator app
+   */
+  const startEnrollment = async (): Promise<TwoFactorEnrollment | null> => {
+    return await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/auth/2fa/setup`
+
+        console.debug('[useTwoFactor] Starting enrollment at:', url)
+
+        return await $fetch<TwoFactorEnrollment>(url, {
+          method: 'POST',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        enrollment.value = data
+      }
+    )
+  }
+
+  /**
+   * Enable 2FA with a first code from the app
+   *
+   * @returns Recovery codes to write down, null on failure
+   */
+  const confirmEnrollment = async (code: string): Promise<string[] | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/auth/2fa/enable`
+
+      console.debug('[useTwoFactor] Confirming enrollment at:', url)
+
+      return await $fetch<RecoveryCodesResponse>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: { code },
+      })
+    })
+
+    if (!result) return null
+
+    enrollment.value = null
+    status.value = {
+      enabled: true,
+      recoveryCodesRemaining: result.recoveryCodes.length,
+    }
+    return result.recoveryCodes
+  }
+
+  /**
+   * Drop a pending enrollment locally (the server keeps it until replaced)
+   */
+  const cancelEnrollment = (): void => {
+    enrollment.value = null
+    clearError()
+  }
+
+  /**
+   * Replace the recovery codes; the previous ones stop working
+   *
+   * @returns New recovery codes, null on failure
+   */
+  const regenerateRecoveryCodes = async (code: string): Promise<string[] | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/auth/2fa/recovery-codes`
+
+      console.debug('[useTwoFactor] Regenerating recovery codes at:', url)
+
+      return await $fetch<RecoveryCodesResponse>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: { code },
+      })
+    })
+
+    if (!result) return null
+
+    status.value = {
+      enabled: true,
+      recoveryCodesRemaining: result.recoveryCodes.length,
+    }
+    return result.recoveryCodes
+  }
+
+  /**
+   * Turn 2FA off; requires the password and a code
+   */
+  const disable = async (password: string, code: string): Promise<boolean> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/auth/2fa/disable`
+
+      console.debug('[useTwoFactor] Disabling 2FA at:', url)
+
+      await $fetch(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: { password, code },
+      })
+      return true
+    })
+
+    if (result) {
+      status.value = { enabled: false, recoveryCodesRemaining: 0 }
+    }
+
+    return result || false
+  }
+
+  /**
+   * Computed: Check if 2FA is enabled
+   */
+  const isEnabled = computed(() => status.value?.enabled ?? false)
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    status: readonly(status) as Readonly<Ref<TwoFactorStatus | null>>,
+    enrollment: readonly(enrollment) as Readonly<Ref<TwoFactorEnrollment | null>>,
+    loading,
+    error,
+
+    // Computed
+    isEnabled,
+    hasError,
+
+    // Actions
+    fetchStatus,
+    startEnrollment,
+    confirmEnrollment,
+    cancelEnrollment,
+    regenerateRecoveryCodes,
+    disable,
+    clearError,
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import { useUsers } from './useUsers'
+import type { UserAccount } from '@/types/user'
+
+// --- Mocks ---
+
+vi.mock('#imports', () => {
+  const { ref, computed, readonly } = require('vue')
+  return {
+    ref,
+    computed,
+    readonly,
+    useRuntimeConfig: () => ({ public: { apiUrl: 'http://localhost:4000/api' } }),
+  }
+})
+
+// useApi is auto-imported by Nuxt, so it is mocked as a global
+vi.stubGlobal('useApi', vi.fn())
+
+// Mock $fetch (Nuxt global)
+vi.stubGlobal('$fetch', vi.fn())
+
+vi.spyOn(console, 'debug').mockImplementation(() => {})
+
+// --- Test data factories ---
+
+function createMockUser(overrides: Partial<UserAccount> = {}): UserAccount {
+  return {
+    id: 'user-1',
+    username: 'editor',
+    email: null,
+    role: 'editor',
+    isActive: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// --- Setup ---
+
+beforeEach(() => {
+  vi.clearAllMocks()
+
+  const executeApiCall = vi.fn(async (apiCall: () => Promise<any>, onSuccess?: (data: any) => void) => {
+    try {
+      const result = await apiCall()
+      onSuccess?.(result)
+      return result
+    } catch {
+      return null
+    }
+  })
+
+  ;(globalThis as any).useApi = vi.fn(() => ({
+    loading: { value: false },
+    error: { value: null },
+    hasError: { value: false },
+    getApiUrl: vi.fn(() => 'http://localhost:4000/api'),
+    getAuthHeaders: vi.fn(() => ({ 'Content-Type': 'application/json' })),
+    executeApiCall,
+    clearError: vi.fn(),
+  }))
+})
+
+describe('useUsers', () => {
+  it('should fetch users', async () => {
+    const list = [createMockUser(), createMockUser({ id: 'user-2', username: 'admin', role: 'admin' })]
+    ;(globalThis.$fetch as Mock).mockResolvedValue(list)
+
+    const { users, fetchUsers } = useUsers()
+    await fetchUsers()
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/users',
+      expect.objectContaining({ method: 'GET' })
+    )
+    expect(users.value).toEqual(list)
+  })
+
+  it('should add invited users and return their temporary password', async () => {
+    const invited = createMockUser({ id: 'user-3', username: 'new-editor' })
+    ;(globalThis.$fetch as Mock).mockResolvedValue({ user: invited, temporaryPassword: 'q3Vx9LpT2mZr7KcA' })
+
+    const { users, inviteUser } = useUsers()
+    const result = await inviteUser({ username: 'new-editor' })
+
+    expect(globalThis.$fetch).toHaveBeenCalledWith(
+      'http://localhost:4000/api/users',
+      expect.objectContaining({ method: 'POST', body: { username: 'new-editor' } })
+    )
+    expect(result?.temporaryPassword).toBe('q3Vx9LpT2mZr7KcA')
+    expect(users.value).toEqual([invited])
+  })
+
+  it('should replace updated users in the list', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce([createMockUser()])
+    const { users, fetchUsers, updateUser } = useUsers()
+    await fetchUsers()
+
+    const disabled = createMockUser({ isActive: false })
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(disabled)
+    await updateUser('user-1', { isActive: false })
+
+    expect(globalThis.$fetch).toHaveBeenLastCalledWith(
+      'http://localhost:4000/api/users/user-1',
+      expect.objectContaining({ method: 'PATCH', body: { isActive: false } })
+    )
+    expect(users.value).toEqual([disabled])
+  })
+
+  it('should remove deleted users from the list', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce([createMockUser()])
+    const { users, fetchUsers, deleteUser } = useUsers()
+    await fetchUsers()
+
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce(undefined)
+    const deleted = await deleteUser('user-1')
+
+    expect(deleted).toBe(true)
+    expect(users.value).toEqual([])
+  })
+
+  it('should keep the list when deleting fails', async () => {
+    ;(globalThis.$fetch as Mock).mockResolvedValueOnce([createMockUser()])
+    const { users, fetchUsers, deleteUser } = useUsers()
+    await fetchUsers()
+
+    ;(globalThis.$fetch as Mock).mockRejectedValueOnce(new Error('At least one active admin is required'))
+    const deleted = await deleteUser('user-1')
+
+    expect(deleted).toBe(false)
+    expect(users.value).toHaveLength(1)
+  })
+})
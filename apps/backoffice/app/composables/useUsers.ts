@@ -0,0 +1,203 @@
+/**
+ * @pattern Facade + Adapter + Decorator Patterns
+ * @category Composables
+ * @purpose Backoffice user management (admin only) with type-safe API integration
+ *
+ * Patterns Applied:
+ * - Facade: Simplified interface for complex API operations
+ * - Adapter: Transforms backend responses to frontend format (via useApi)
+ * - Decorator: Adds loading/error state management (via useApi)
+ *
+ * @example
+ * ```typescript
+ * const { users, fetchUsers, inviteUser } = useUsers()
+ * await fetchUsers()
+ * const invited = await inviteUser({ username: 'editor', role: 'editor' })
+ * console.log(invited?.temporaryPassword)
+ * ```
+ */
+
+import type {
+  UserAccount,
+  InviteUserDto,
+  UpdateUserDto,
+  TemporaryPasswordResponse,
+} from '@/types/user'
+
+/**
+ * Users management state and operations
+ */
+export function useUsers() {
+  // Internal state (reactive)
+  const users = ref<UserAccount[]>([])
+
+  // Shared API infrastructure
+  const {
+    loading,
+    error,
+    hasError,
+    getApiUrl,
+    getAuthHeaders,
+    executeApiCall,
+    clearError,
+  } = useApi('useUsers')
+
+  /**
+   * Replace a user in local state
+   */
+  const replaceUser = (user: UserAccount) => {
+    users.value = users.value.map((u) => (u.id === user.id ? user : u))
+  }
+
+  /**
+   * Fetch all users
+   * Pattern: Facade - simplifies API interaction
+   */
+  const fetchUsers = async (): Promise<UserAccount[]> => {
+    const result = await executeApiCall(
+      async () => {
+        const url = `${getApiUrl()}/users`
+
+        console.debug('[useUsers] Fetching users from:', url)
+
+        return await $fetch<UserAccount[]>(url, {
+          method: 'GET',
+          headers: getAuthHeaders(),
+        })
+      },
+      (data) => {
+        users.value = data
+      }
+    )
+
+    return result || []
+  }
+
+  /**
+   * Invite a user
+   * The response holds the temporary password to hand over
+   */
+  const inviteUser = async (
+    dto: InviteUserDto
+  ): Promise<TemporaryPasswordResponse | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/users`
+
+      console.debug('[useUsers] Inviting user at:', url)
+
+      return await $fetch<TemporaryPasswordResponse>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: dto,
+      })
+    })
+
+    // Add to local state
+    if (result) {
+      users.value = [...users.value, result.user]
+    }
+
+    return result
+  }
+
+  /**
+   * Change the role or status of a user
+   */
+  const updateUser = async (
+    id: string,
+    dto: UpdateUserDto
+  ): Promise<UserAccount | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/users/${id}`
+
+      console.debug('[useUsers] Updating user at:', url)
+
+      return await $fetch<UserAccount>(url, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: dto,
+      })
+    })
+
+    if (result) {
+      replaceUser(result)
+    }
+
+    return result
+  }
+
+  /**
+   * Reset the password of a user to a new temporary one
+   */
+  const resetPassword = async (
+    id: string
+  ): Promise<TemporaryPasswordResponse | null> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/users/${id}/reset-password`
+
+      console.debug('[useUsers] Resetting password at:', url)
+
+      return await $fetch<TemporaryPasswordResponse>(url, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+    })
+
+    if (result) {
+      replaceUser(result.user)
+    }
+
+    return result
+  }
+
+  /**
+   * Delete a user
+   */
+  const deleteUser = async (id: string): Promise<boolean> => {
+    const result = await executeApiCall(async () => {
+      const url = `${getApiUrl()}/users/${id}`
+
+      console.debug('[useUsers] Deleting user at:', url)
+
+      await $fetch(url, {
+        method: 'DELETE',
+        headers: getAuthHeaders(),
+      })
+      return true
+    })
+
+    // Remove from local state
+    if (result) {
+      users.value = users.value.filter((u) => u.id !== id)
+    }
+
+    return result || false
+  }
+
+  /**
+   * Computed: Check if users are loaded
+   */
+  const hasUsers = computed(() => users.value.length > 0)
+
+  /**
+   * Public API (readonly for state, methods for actions)
+   */
+  return {
+    // State (readonly)
+    users: readonly(users) as Readonly<Ref<UserAccount[]>>,
+    loading,
+    error,
+
+    // Computed
+    hasUsers,
+    hasError,
+
+    // Actions
+    fetchUsers,
+    inviteUser,
+    updateUser,
+    resetPassword,
+    deleteUser,
+    clearError,
+  }
+}
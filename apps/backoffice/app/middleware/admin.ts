@@ -0,0 +1,24 @@
+/**
+ * @pattern Guard Pattern
+ * @category Middleware
+ * @purpose Route protection for admin-only pages
+ *
+ * Runs after the global auth middleware; editors are sent back to the dashboard
+ *
+ * @example
+ * ```typescript
+ * definePageMeta({ middleware: 'admin' })
+ * ```
+ */
+
+export default defineNuxtRouteMiddleware(() => {
+  // Only run on client-side (auth state is stored in localStorage)
+  if (import.meta.server) return
+
+  const { isAdmin } = useAuth()
+
+  if (!isAdmin.value) {
+    console.log('[admin middleware] Admin role required, redirecting to home')
+    return navigateTo('/')
+  }
+})
@@ -3,13 +3,19 @@
  * @category Middleware
  * @purpose Route protection with JWT authentication check
  *
- * Guards all routes except /login, ensuring only authenticated users can access the backoffice
+ * Guards all routes except the public auth pages (login, forgotten password),
+ * ensuring only authenticated users can access the backoffice
  *
  * @example
  * This middleware is applied globally via nuxt.config.ts
  * It runs before every route navigation
  */
 
+/**
+ * Pages reachable without being logged in
+ */
+const PUBLIC_PATHS = ['/login', '/forgot-password', '/reset-password']
+
 export default defineNuxtRouteMiddleware((to, _from) => {
   // Only run on client-side (auth state is stored in localStorage)
   if (import.meta.server) {
@@ -21,14 +27,14 @@ export default defineNuxtRouteMiddleware((to, _from) => {
 
   console.log(`[auth middleware] Navigating to: ${to.path}, isAuthenticated: ${isAuthenticated.value}`)
 
-  // Special case: Login page
-  if (to.path === '/login') {
+  // Special case: Login and password reset pages
+  if (PUBLIC_PATHS.includes(to.path)) {
     // If already authenticated, redirect to home
     if (isAuthenticated.value) {
       console.log('[auth middleware] Already authenticated, redirecting to home')
       return navigateTo('/')
     }
-    // Allow access to login page
+    // Allow access to public pages
     return
   }
 
@@ -4,6 +4,8 @@
  * @purpose Type-safe about section data structures aligned with backend entities
  */
 
+import type { ImageVariant } from './image'
+
 /**
  * About section entity (aligned with backend AboutSection entity)
  */
@@ -12,9 +14,12 @@ export interface AboutSection {
   title: string
   paragraphs: string[]
   image: string
+  imageVariants: ImageVariant[] | null
   imageAlt: string
   sortOrder: number
   isPublished: boolean
+  /** Publication date still to come; the section is published at that date */
+  scheduledAt: string | null
   createdAt: string
   updatedAt: string
 }
@@ -28,6 +33,7 @@ export interface CreateAboutSectionDto {
   imageAlt: string
   sortOrder?: number
   isPublished?: boolean
+  scheduledAt?: string | null
 }
 
 /**
@@ -39,4 +45,5 @@ export interface UpdateAboutSectionDto {
   imageAlt?: string
   sortOrder?: number
   isPublished?: boolean
+  scheduledAt?: string | null
 }
@@ -0,0 +1,65 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe audit log data structures aligned with the backend audit-log module
+ */
+
+/**
+ * Audited content types
+ */
+export type AuditEntityType =
+  | 'product'
+  | 'blog-article'
+  | 'blog-tag'
+  | 'about-section'
+  | 'page-content'
+  | 'contact-link'
+
+export type AuditAction = 'create' | 'update' | 'delete'
+
+/**
+ * One content change (aligned with backend AuditLog entity)
+ * `before` and `after` hold the changed fields of an update, the whole
+ * row of a creation (after) or deletion (before)
+ */
+export interface AuditLogEntry {
+  id: string
+  /** Null for changes made outside a request, or once the user is deleted */
+  userId: string | null
+  username: string | null
+  entityType: AuditEntityType
+  entityId: string
+  action: AuditAction
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  createdAt: string
+}
+
+/**
+ * Filters of GET /api/audit-log
+ */
+export interface AuditLogFilters {
+  entityType?: AuditEntityType
+  entityId?: string
+  userId?: string
+  action?: AuditAction
+  /** Field changed, e.g. "price" */
+  field?: string
+  /** ISO date, inclusive */
+  from?: string
+  /** ISO date, exclusive */
+  to?: string
+  page?: number
+  limit?: number
+}
+
+/**
+ * Paginated response of GET /api/audit-log
+ */
+export interface PaginatedAuditLogResponse {
+  data: AuditLogEntry[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
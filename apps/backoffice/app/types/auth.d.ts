@@ -15,18 +15,35 @@ export type UserRole = 'admin' | 'editor'
 export interface User {
   id: string
   username: string
+  /** Where password reset links are sent, null when not set */
+  email: string | null
   role: UserRole
 }
 
 /**
- * Authentication response from backend login endpoint
- * Received from POST /api/auth/login
+ * Authentication response from backend login and refresh endpoints
+ * Received from POST /api/auth/login and POST /api/auth/refresh
  */
 export interface AuthResponse {
   access_token: string
+  /** Single use: exchanged for a new pair at POST /api/auth/refresh */
+  refresh_token: string
+  /** Access token lifetime in seconds */
+  expires_in: number
   user: User
 }
 
+/**
+ * Login response when the user has two-factor authentication enabled
+ * The challenge token is exchanged at POST /api/auth/2fa/verify with a code
+ */
+export interface TwoFactorChallenge {
+  two_factor_required: true
+  challenge_token: string
+  /** Challenge lifetime in seconds */
+  expires_in: number
+}
+
 /**
  * Login credentials DTO
  * Sent to POST /api/auth/login
@@ -44,4 +61,6 @@ export interface ApiError {
   statusCode: number
   message: string | string[]
   error: string
+  /** Seconds before logging in again, set on 429 after too many failed attempts */
+  retryAfter?: number
 }
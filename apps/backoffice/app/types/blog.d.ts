@@ -4,6 +4,8 @@
  * @purpose Type-safe blog data structures aligned with backend entities
  */
 
+import type { ImageVariant } from './image'
+
 /**
  * Blog tag entity (aligned with backend BlogTag entity)
  */
@@ -20,6 +22,7 @@ export interface BlogTag {
 export interface BlogArticleImage {
   id: string
   url: string
+  variants: ImageVariant[] | null
   altText: string | null
   isCover: boolean
   sortOrder: number
@@ -37,9 +40,13 @@ export interface BlogArticle {
   slug: string
   publishedAt: string | null
   isPublished: boolean
+  /** Publication date still to come; the article is published at that date */
+  scheduledAt: string | null
   sortOrder: number
   images: BlogArticleImage[]
   tags: BlogTag[]
+  /** Products featured at the end of the article */
+  productIds: string[]
   createdAt: string
   updatedAt: string
 }
@@ -56,6 +63,7 @@ export interface CreateBlogArticleDto {
   isPublished?: boolean
   sortOrder?: number
   tagIds?: string[]
+  productIds?: string[]
 }
 
 /**
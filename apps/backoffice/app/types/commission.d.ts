@@ -0,0 +1,107 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe commission data structures aligned with the backend commissions module
+ */
+
+import type { ImageVariant } from './image'
+
+/**
+ * Kind of piece requested
+ */
+export type CommissionCategory = 'wall-hanging' | 'rug'
+
+/**
+ * Stage of a commission
+ * requested → quoted → accepted → in_progress → delivered; the customer may
+ * decline a quote (a revised one can follow) and the atelier may cancel
+ */
+export type CommissionStatus =
+  | 'requested'
+  | 'quoted'
+  | 'accepted'
+  | 'in_progress'
+  | 'delivered'
+  | 'declined'
+  | 'cancelled'
+
+/**
+ * Statuses the atelier sets by hand; quoting goes through POST /quote
+ */
+export type StaffCommissionStatus = 'accepted' | 'in_progress' | 'delivered' | 'cancelled'
+
+/**
+ * Reference image sent by the customer
+ */
+export interface CommissionImage {
+  id: string
+  url: string
+  variants: ImageVariant[] | null
+  sortOrder: number
+}
+
+/**
+ * Made-to-order piece requested from the storefront (aligned with backend Commission entity)
+ */
+export interface Commission {
+  id: string
+  /** Reference shown to the customer, e.g. SM-20260301-4F2A9C */
+  reference: string
+  status: CommissionStatus
+  customerName: string
+  customerEmail: string
+  customerPhone: string | null
+  category: CommissionCategory
+  dimensions: {
+    width: number
+    height: number
+    unit: 'cm' | 'inch'
+  }
+  colorPalette: string[]
+  description: string
+  /** Budget in euros, null when the customer did not say (decimal, may come as string) */
+  budget: number | string | null
+  images: CommissionImage[]
+  quotePrice: number | string | null
+  quoteMessage: string | null
+  /** YYYY-MM-DD */
+  estimatedDeliveryDate: string | null
+  quotedAt: string | null
+  acceptedAt: string | null
+  deliveredAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Filters of GET /api/commissions
+ */
+export interface CommissionFilters {
+  status?: CommissionStatus
+  category?: CommissionCategory
+  search?: string
+  page?: number
+  limit?: number
+}
+
+/**
+ * DTO for sending or revising a quote
+ * Sent to POST /api/commissions/:id/quote
+ */
+export interface QuoteCommissionDto {
+  price: number
+  message?: string
+  /** YYYY-MM-DD */
+  estimatedDeliveryDate?: string
+}
+
+/**
+ * Paginated response of GET /api/commissions
+ */
+export interface PaginatedCommissionsResponse {
+  data: Commission[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
@@ -0,0 +1,69 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe dashboard overview aligned with the backend Dashboard module
+ */
+
+import type { ProductCategory, ProductStatus } from './product'
+
+/**
+ * Metric measured over the current period and the one just before it
+ */
+export interface PeriodMetric {
+  current: number
+  previous: number
+  /**
+   * Change in percent, null when the previous value was 0
+   */
+  changePercent: number | null
+}
+
+/**
+ * Direction of a metric between two periods
+ */
+export type Trend = 'up' | 'down' | 'flat'
+
+/**
+ * Published / draft split for editorial content
+ */
+export interface PublicationCounts {
+  published: number
+  draft: number
+}
+
+/**
+ * Piece recently marked as sold
+ */
+export interface SoldPiece {
+  id: string
+  name: string
+  slug: string
+  category: ProductCategory
+  price: number
+  soldAt: string
+}
+
+/**
+ * Response of GET /dashboard
+ */
+export interface DashboardOverview {
+  period: {
+    days: number
+    currentStart: string
+    previousStart: string
+    end: string
+  }
+  products: {
+    total: number
+    byCategory: Record<ProductCategory, number>
+    byStatus: Record<ProductStatus, number>
+  }
+  stockValue: number
+  blogArticles: PublicationCounts
+  aboutSections: PublicationCounts
+  revenue: PeriodMetric
+  orders: PeriodMetric
+  piecesSold: PeriodMetric
+  newProducts: PeriodMetric
+  recentlySold: SoldPiece[]
+}
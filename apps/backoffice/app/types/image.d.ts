@@ -0,0 +1,19 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Responsive image derivatives generated by the backend upload pipeline
+ */
+
+/**
+ * Formats generated for responsive image derivatives
+ */
+export type ImageVariantFormat = 'avif' | 'webp'
+
+/**
+ * Resized, re-encoded copy of an uploaded image
+ */
+export interface ImageVariant {
+  url: string
+  width: number
+  format: ImageVariantFormat
+}
@@ -0,0 +1,77 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe inquiry data structures aligned with the backend inquiries module
+ */
+
+/**
+ * Plain message, or request for a custom piece
+ */
+export type InquiryType = 'contact' | 'commission'
+
+/**
+ * Inbox state
+ */
+export type InquiryStatus = 'new' | 'read' | 'archived'
+
+/**
+ * Message sent from the storefront contact form (aligned with backend Inquiry entity)
+ */
+export interface Inquiry {
+  id: string
+  type: InquiryType
+  name: string
+  email: string
+  phone: string | null
+  message: string
+  /** Piece the message is about, null once the product is deleted */
+  productId: string | null
+  product: { id: string; name: string; slug: string } | null
+  status: InquiryStatus
+  /** Set when someone marked the inquiry as answered */
+  repliedAt: string | null
+  /** Username of whoever marked it as answered */
+  repliedBy: string | null
+  replyNote: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Filters of GET /api/inquiries
+ * Without a status, archived inquiries are left out
+ */
+export interface InquiryFilters {
+  status?: InquiryStatus
+  type?: InquiryType
+  search?: string
+  page?: number
+  limit?: number
+}
+
+/**
+ * DTO for updating an inquiry
+ * Sent to PATCH /api/inquiries/:id
+ */
+export interface UpdateInquiryDto {
+  status?: InquiryStatus
+  /** true records the reply (once), false clears it */
+  replied?: boolean
+  replyNote?: string
+}
+
+/**
+ * Response of GET /api/inquiries/counts
+ */
+export type InquiryCounts = Record<InquiryStatus, number>
+
+/**
+ * Paginated response of GET /api/inquiries
+ */
+export interface PaginatedInquiriesResponse {
+  data: Inquiry[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
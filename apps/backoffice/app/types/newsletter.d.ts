@@ -0,0 +1,90 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe newsletter data structures aligned with the backend newsletter module
+ */
+
+/**
+ * Double opt-in state
+ */
+export type SubscriberStatus = 'pending' | 'confirmed' | 'unsubscribed'
+
+/**
+ * Newsletter sign-up and its consent record (aligned with backend Subscriber entity)
+ */
+export interface Subscriber {
+  id: string
+  email: string
+  status: SubscriberStatus
+  /** Storefront form the sign-up came from, e.g. "footer" */
+  source: string | null
+  /** When the visitor ticked the sign-up form */
+  consentedAt: string
+  consentIpAddress: string | null
+  confirmationSentAt: string | null
+  /** When the emailed link was opened */
+  confirmedAt: string | null
+  confirmedIpAddress: string | null
+  unsubscribedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Number of subscribers in each status
+ */
+export type SubscriberCounts = Record<SubscriberStatus, number>
+
+/**
+ * Filters of GET /api/newsletter/subscribers
+ */
+export interface SubscriberFilters {
+  status?: SubscriberStatus
+  search?: string
+  page?: number
+  limit?: number
+}
+
+/**
+ * Paginated response from GET /api/newsletter/subscribers
+ */
+export interface PaginatedSubscribersResponse {
+  data: Subscriber[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
+
+/**
+ * Delivery state of a campaign; the counts are final once sent
+ * An interrupted campaign stopped with the API and can be resumed
+ */
+export type NewsletterCampaignStatus = 'sending' | 'sent' | 'interrupted'
+
+/**
+ * Blog article sent to the confirmed subscribers
+ */
+export interface NewsletterCampaign {
+  id: string
+  /** null once the article is deleted */
+  articleId: string | null
+  article: { id: string; title: string; slug: string } | null
+  subject: string
+  status: NewsletterCampaignStatus
+  /** Emails accepted by the mail transport, over every run */
+  recipientCount: number
+  failedCount: number
+  sentBy: string | null
+  createdAt: string
+}
+
+/**
+ * DTO for sending a campaign
+ * Sent to POST /api/newsletter/campaigns
+ */
+export interface SendCampaignDto {
+  articleId: string
+  /** Send an article that already went out */
+  resend?: boolean
+}
@@ -1,3 +1,5 @@
+import type { ImageVariant } from './image'
+
 export interface PageContent {
   id: string
   page: string
@@ -5,9 +7,12 @@ export interface PageContent {
   title?: string
   content?: string
   image?: string
+  imageVariants?: ImageVariant[] | null
   imageAlt?: string
   metadata?: Record<string, unknown>
   isPublished: boolean
+  /** Publication date still to come; the content is published at that date */
+  scheduledAt: string | null
   sortOrder: number
   createdAt: string
   updatedAt: string
@@ -23,6 +28,7 @@ export interface CreatePageContentDto {
   metadata?: Record<string, unknown>
   sortOrder?: number
   isPublished?: boolean
+  scheduledAt?: string | null
 }
 
 export interface UpdatePageContentDto {
@@ -34,4 +40,5 @@ export interface UpdatePageContentDto {
   metadata?: Record<string, unknown>
   sortOrder?: number
   isPublished?: boolean
+  scheduledAt?: string | null
 }
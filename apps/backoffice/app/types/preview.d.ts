@@ -0,0 +1,21 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe preview link data structures aligned with the backend previews module
+ */
+
+/**
+ * Content types that can be previewed before publication
+ * Previewing a page content entry shows its whole page
+ */
+export type PreviewEntityType = 'blog-article' | 'about-section' | 'page-content'
+
+/**
+ * Signed, expiring storefront link showing unpublished content
+ * Received from POST /api/previews
+ */
+export interface PreviewLink {
+  token: string
+  url: string
+  expiresAt: string
+}
@@ -4,6 +4,8 @@
  * @purpose Type-safe product data structures aligned with backend entities
  */
 
+import type { ImageVariant } from './image'
+
 /**
  * Product category enumeration
  */
@@ -34,6 +36,7 @@ export interface ProductDimensions {
 export interface ProductImage {
   id: string
   url: string
+  variants: ImageVariant[] | null
   showOnHome: boolean
   sortOrder: number
   productId: string
@@ -47,11 +50,16 @@ export interface ProductImage {
 export interface Product {
   id: string
   name: string
+  slug: string
   description?: string
   category: ProductCategory
   price: number | string // Backend returns decimal as string
   status: ProductStatus
   stockQuantity: number
+  /**
+   * Whether the piece stays on the storefront archive once sold
+   */
+  showInArchive: boolean
   productImages?: ProductImage[]
   dimensions?: ProductDimensions
   materials?: string
@@ -64,11 +72,13 @@ export interface Product {
  */
 export interface CreateProductDto {
   name: string
+  slug?: string
   description?: string
   category: ProductCategory
   price: number
   status?: ProductStatus
   stockQuantity?: number
+  showInArchive?: boolean
   dimensions?: ProductDimensions
   materials?: string
 }
@@ -78,11 +88,13 @@ export interface CreateProductDto {
  */
 export interface UpdateProductDto {
   name?: string
+  slug?: string
   description?: string
   category?: ProductCategory
   price?: number
   status?: ProductStatus
   stockQuantity?: number
+  showInArchive?: boolean
   dimensions?: ProductDimensions
   materials?: string
 }
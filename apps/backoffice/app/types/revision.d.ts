@@ -0,0 +1,72 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe revision history data structures aligned with the backend revisions module
+ */
+
+/**
+ * Content types with a revision history
+ */
+export type RevisionEntityType = 'blog-article' | 'page-content'
+
+/**
+ * Tag of an article, as it was named at the time of the revision
+ */
+export interface RevisionTag {
+  id: string
+  name: string
+}
+
+/**
+ * Revision as listed in the history, without its content
+ * Received from GET /api/{blog|page-content}/:id/revisions
+ */
+export interface RevisionSummary {
+  id: string
+  entityType: RevisionEntityType
+  entityId: string
+  title: string | null
+  /** Always null for page content */
+  subtitle: string | null
+  /** Always null for page content */
+  tags: RevisionTag[] | null
+  isPublished: boolean
+  publishedAt: string | null
+  /** Revision this one was restored from, if any */
+  restoredFromId: string | null
+  /** Null for changes made outside a request, or once the user is deleted */
+  userId: string | null
+  username: string | null
+  createdAt: string
+}
+
+/**
+ * One versioned field that differs between two revisions
+ */
+export interface RevisionFieldChange {
+  field: 'title' | 'subtitle' | 'tags' | 'isPublished' | 'publishedAt'
+  before: unknown
+  after: unknown
+}
+
+/**
+ * One run of the content diff: consecutive blocks (paragraphs, headings,
+ * list items) kept, added or removed
+ */
+export interface RevisionDiffChunk {
+  type: 'equal' | 'added' | 'removed'
+  lines: string[]
+}
+
+/**
+ * Comparison of two revisions
+ * Received from GET /api/{blog|page-content}/:id/revisions/diff
+ */
+export interface RevisionDiff {
+  from: RevisionSummary
+  to: RevisionSummary
+  /** Changed fields only */
+  fields: RevisionFieldChange[]
+  /** Every block of the content, equal ones included for context */
+  content: RevisionDiffChunk[]
+}
@@ -0,0 +1,33 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe two-factor authentication data structures aligned with the backend auth module
+ */
+
+/**
+ * Two-factor status of the current user
+ * Received from GET /api/auth/2fa
+ */
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+/**
+ * Pending enrollment: the secret to add to the authenticator app
+ * Received from POST /api/auth/2fa/setup
+ */
+export interface TwoFactorEnrollment {
+  /** Base32 secret, for manual entry */
+  secret: string
+  /** otpauth:// URI, rendered as a QR code */
+  otpauthUrl: string
+}
+
+/**
+ * Single-use recovery codes, only shown when generated
+ * Received from POST /api/auth/2fa/enable and POST /api/auth/2fa/recovery-codes
+ */
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[]
+}
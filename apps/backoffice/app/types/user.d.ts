@@ -0,0 +1,49 @@
+/**
+ * @pattern Value Object
+ * @category Type Definitions
+ * @purpose Type-safe user account data structures aligned with the backend users module
+ */
+
+import type { UserRole } from './auth'
+
+/**
+ * Backoffice user account (aligned with backend UserAccountDto)
+ */
+export interface UserAccount {
+  id: string
+  username: string
+  /** Where password reset links are sent, null when not set */
+  email: string | null
+  role: UserRole
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * DTO for inviting a new user
+ * Sent to POST /api/users
+ */
+export interface InviteUserDto {
+  username: string
+  email?: string
+  role?: UserRole
+}
+
+/**
+ * DTO for changing the role or status of a user
+ * Sent to PATCH /api/users/:id
+ */
+export interface UpdateUserDto {
+  role?: UserRole
+  isActive?: boolean
+}
+
+/**
+ * Returned by the invite and reset password endpoints
+ * The temporary password is only shown once
+ */
+export interface TemporaryPasswordResponse {
+  user: UserAccount
+  temporaryPassword: string
+}
@@ -267,6 +267,35 @@ describe('ArtworkCard - Design Pattern Implementation Tests', () => {
       expect(img.attributes('loading')).toBe('lazy')
       expect(img.attributes('decoding')).toBe('async')
     })
+
+    it('should render no source elements without image variants', () => {
+      const wrapper = mount(ArtworkCard, {
+        props: { artwork: mockArtwork }
+      })
+
+      expect(wrapper.findAll('source')).toHaveLength(0)
+    })
+
+    it('should render AVIF and WebP sources when image variants exist', () => {
+      const wrapper = mount(ArtworkCard, {
+        props: {
+          artwork: {
+            ...mockArtwork,
+            imageVariants: [
+              { url: '/images/test-artwork-320w.avif', width: 320, format: 'avif' },
+              { url: '/images/test-artwork-320w.webp', width: 320, format: 'webp' },
+            ]
+          },
+          config: { imageSizes: '50vw' }
+        }
+      })
+
+      const sources = wrapper.findAll('source')
+      expect(sources.map(source => source.attributes('type'))).toEqual(['image/avif', 'image/webp'])
+      expect(sources[0].attributes('srcset')).toBe('/images/test-artwork-320w.avif 320w')
+      expect(sources[0].attributes('sizes')).toBe('50vw')
+      expect(wrapper.find('.artwork-card__image').attributes('src')).toBe('/images/test-artwork.jpg')
+    })
   })
 
   describe('Accessibility', () => {
@@ -0,0 +1,110 @@
+/**
+ * Tests for useCart composable helpers
+ *
+ * Testing Strategy:
+ * - Persistence: Verify malformed localStorage values never break the cart
+ * - Pure Functions: Verify adding products merges lines and respects stock
+ *
+ * @vitest-environment happy-dom
+ */
+
+import { describe, it, expect } from 'vitest'
+import { addProductToLines, parseStoredCart } from '../useCart'
+import type { Product } from '~/types/product'
+import type { CartLine } from '~/types/order'
+
+const buildProduct = (overrides: Partial<Product> = {}): Product => ({
+  id: 'product-1',
+  name: 'Nordic Rug',
+  slug: 'nordic-rug',
+  category: 'rug',
+  price: 249.5,
+  status: 'available',
+  stockQuantity: 2,
+  showInArchive: true,
+  productImages: [
+    {
+      id: 'img-2',
+      url: 'http://localhost:4000/uploads/products/second.jpg',
+      showOnHome: false,
+      sortOrder: 1,
+      productId: 'product-1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    },
+    {
+      id: 'img-1',
+      url: 'http://localhost:4000/uploads/products/first.jpg',
+      showOnHome: false,
+      sortOrder: 0,
+      productId: 'product-1',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    },
+  ],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('parseStoredCart - Pure Function', () => {
+  it('should return an empty cart for missing or invalid JSON', () => {
+    expect(parseStoredCart(null)).toEqual([])
+    expect(parseStoredCart('not json')).toEqual([])
+    expect(parseStoredCart('{"productId":"x"}')).toEqual([])
+  })
+
+  it('should drop malformed lines', () => {
+    const raw = JSON.stringify([
+      { productId: 'a', quantity: 1 },
+      { productId: 'b', quantity: 0 },
+      { quantity: 2 },
+      null,
+    ])
+
+    expect(parseStoredCart(raw)).toEqual([{ productId: 'a', quantity: 1 }])
+  })
+})
+
+describe('addProductToLines - Pure Function', () => {
+  it('should add a new line using the first image by sort order', () => {
+    const result = addProductToLines([], buildProduct())
+
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({
+      productId: 'product-1',
+      slug: 'nordic-rug',
+      imageUrl: 'http://localhost:4000/uploads/products/first.jpg',
+      unitPrice: 249.5,
+      quantity: 1,
+      availableQuantity: 2,
+    })
+  })
+
+  it('should merge quantities for an existing line', () => {
+    const first = addProductToLines([], buildProduct())
+    const result = addProductToLines(first, buildProduct())
+
+    expect(result).toHaveLength(1)
+    expect(result[0].quantity).toBe(2)
+  })
+
+  it('should never exceed available stock', () => {
+    const result = addProductToLines([], buildProduct({ stockQuantity: 1 }), 5)
+
+    expect(result[0].quantity).toBe(1)
+  })
+
+  it('should not add a product that is out of stock', () => {
+    const result = addProductToLines([], buildProduct({ stockQuantity: 0 }))
+
+    expect(result).toEqual([])
+  })
+
+  it('should not mutate the original lines', () => {
+    const original: CartLine[] = addProductToLines([], buildProduct())
+    const snapshot = JSON.parse(JSON.stringify(original))
+
+    addProductToLines(original, buildProduct())
+
+    expect(original).toEqual(snapshot)
+  })
+})
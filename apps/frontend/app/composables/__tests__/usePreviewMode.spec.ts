@@ -0,0 +1,28 @@
+/**
+ * Tests for usePreviewMode composable helpers
+ *
+ * Testing Strategy:
+ * - Pure Functions: Verify the preview token is read from the route query
+ *
+ * @vitest-environment happy-dom
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getPreviewToken } from '../usePreviewMode'
+
+describe('getPreviewToken - Pure Function', () => {
+  it('should return the preview token of the query', () => {
+    expect(getPreviewToken({ preview: 'preview.jwt.token' })).toBe('preview.jwt.token')
+    expect(getPreviewToken({ page: '2', preview: 'abc' })).toBe('abc')
+  })
+
+  it('should return null outside preview mode', () => {
+    expect(getPreviewToken({})).toBeNull()
+    expect(getPreviewToken({ preview: '' })).toBeNull()
+    expect(getPreviewToken({ preview: null })).toBeNull()
+  })
+
+  it('should ignore repeated preview parameters', () => {
+    expect(getPreviewToken({ preview: ['a', 'b'] })).toBeNull()
+  })
+})
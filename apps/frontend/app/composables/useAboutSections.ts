@@ -34,6 +34,7 @@ function adaptAboutSectionToStory(section: AboutSection, index: number): Story {
     title: section.title,
     image: {
       src: section.image,
+      variants: section.imageVariants ?? undefined,
       alt: section.imageAlt,
     },
     // Join paragraphs with double newline for StorySection component compatibility
@@ -53,6 +54,7 @@ function adaptAboutSectionToStory(section: AboutSection, index: number): Story {
  */
 export function useAboutSections() {
   const config = useRuntimeConfig()
+  const { previewFetchOptions } = usePreviewMode()
 
   /**
    * Get API URL based on environment and execution context
@@ -87,6 +89,7 @@ export function useAboutSections() {
 
       const data = await $fetch<AboutSection[]>(url, {
         timeout: 10000,
+        ...previewFetchOptions.value,
       })
 
       if (data && Array.isArray(data)) {
@@ -0,0 +1,229 @@
+/**
+ * Cart Composable
+ *
+ * Persistent shopping cart shared across the storefront.
+ *
+ * Design Patterns:
+ * - Singleton Pattern: Single cart state shared by navbar, drawer and pages
+ * - Observer Pattern: Reactive state persisted to localStorage on every change
+ * - Facade Pattern: Wraps the /orders/cart, /orders/checkout and payment intent endpoints
+ *
+ * Prices kept in the cart are a display estimate only. The backend re-prices
+ * every line from the catalog (`validate`) and again when the order is placed.
+ *
+ * @example
+ * const { lines, itemCount, addItem, openDrawer } = useCart()
+ * addItem(product)
+ * openDrawer()
+ */
+
+import type { Product } from '~/types/product'
+import type {
+  CartIssue,
+  CartLine,
+  CheckoutCustomer,
+  Order,
+  PaymentIntent,
+  PricedCart,
+  ShippingAddress,
+} from '~/types/order'
+import { getApiUrl } from '~/utils/apiUrl'
+
+/**
+ * localStorage key for the persisted cart
+ */
+export const CART_STORAGE_KEY = 'kaisla_cart'
+
+/**
+ * Global cart state (Singleton Pattern)
+ */
+const lines = ref<CartLine[]>([])
+const isDrawerOpen = ref<boolean>(false)
+let hydrated = false
+
+/**
+ * Parse a persisted cart, discarding anything malformed
+ * Pure function - never throws
+ *
+ * @param raw - Raw localStorage value
+ * @returns Valid cart lines
+ */
+export function parseStoredCart(raw: string | null): CartLine[] {
+  if (!raw) return []
+
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+
+    return parsed.filter(
+      (line): line is CartLine =>
+        typeof line?.productId === 'string' &&
+        typeof line?.quantity === 'number' &&
+        line.quantity > 0,
+    )
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Add a product to a list of cart lines
+ * Pure function - returns a new array, quantities are capped to stock
+ *
+ * @param current - Current cart lines
+ * @param product - Product to add
+ * @param quantity - Units to add
+ * @returns Updated cart lines
+ */
+export function addProductToLines(
+  current: CartLine[],
+  product: Product,
+  quantity = 1,
+): CartLine[] {
+  const existing = current.find((line) => line.productId === product.id)
+  const maxQuantity = Math.max(product.stockQuantity, 0)
+
+  if (existing) {
+    return current.map((line) =>
+      line.productId === product.id
+        ? { ...line, quantity: Math.min(line.quantity + quantity, maxQuantity) }
+        : line,
+    )
+  }
+
+  const images = [...(product.productImages ?? [])].sort((a, b) => a.sortOrder - b.sortOrder)
+
+  return [
+    ...current,
+    {
+      productId: product.id,
+      name: product.name,
+      slug: product.slug,
+      category: product.category,
+      imageUrl: images[0]?.url ?? null,
+      unitPrice: Number(product.price),
+      quantity: Math.min(quantity, maxQuantity),
+      availableQuantity: product.stockQuantity,
+    },
+  ].filter((line) => line.quantity > 0)
+}
+
+/**
+ * Cart composable
+ */
+export const useCart = () => {
+  // Restore the persisted cart once, then keep localStorage in sync
+  if (import.meta.client && !hydrated) {
+    hydrated = true
+    lines.value = parseStoredCart(localStorage.getItem(CART_STORAGE_KEY))
+    watch(
+      lines,
+      (value) => {
+        localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(value))
+      },
+      { deep: true },
+    )
+  }
+
+  const itemCount = computed(() => lines.value.reduce((sum, line) => sum + line.quantity, 0))
+
+  const estimatedTotal = computed(() =>
+    lines.value.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0),
+  )
+
+  const addItem = (product: Product, quantity = 1): void => {
+    lines.value = addProductToLines(lines.value, product, quantity)
+  }
+
+  const updateQuantity = (productId: string, quantity: number): void => {
+    if (quantity <= 0) {
+      removeItem(productId)
+      return
+    }
+    lines.value = lines.value.map((line) =>
+      line.productId === productId
+        ? { ...line, quantity: Math.min(quantity, line.availableQuantity) }
+        : line,
+    )
+  }
+
+  const removeItem = (productId: string): void => {
+    lines.value = lines.value.filter((line) => line.productId !== productId)
+  }
+
+  const clear = (): void => {
+    lines.value = []
+  }
+
+  const openDrawer = (): void => {
+    isDrawerOpen.value = true
+  }
+
+  const closeDrawer = (): void => {
+    isDrawerOpen.value = false
+  }
+
+  /**
+   * Re-price the cart on the server and apply its adjustments
+   *
+   * @returns Issues reported by the server (dropped or reduced lines)
+   */
+  const validate = async (): Promise<CartIssue[]> => {
+    if (lines.value.length === 0) return []
+
+    const priced = await $fetch<PricedCart>(`${getApiUrl()}/orders/cart`, {
+      method: 'POST',
+      body: {
+        items: lines.value.map(({ productId, quantity }) => ({ productId, quantity })),
+      },
+    })
+
+    lines.value = priced.items.map(({ lineTotal: _lineTotal, ...line }) => line)
+    return priced.issues
+  }
+
+  /**
+   * Place the order and empty the cart on success
+   */
+  const checkout = async (details: {
+    customer: CheckoutCustomer
+    shippingAddress: ShippingAddress
+    notes?: string
+  }): Promise<Order> => {
+    const order = await $fetch<Order>(`${getApiUrl()}/orders/checkout`, {
+      method: 'POST',
+      body: {
+        items: lines.value.map(({ productId, quantity }) => ({ productId, quantity })),
+        ...details,
+      },
+    })
+
+    clear()
+    return order
+  }
+
+  /**
+   * Start the payment of a placed order with the provider configured on the backend
+   */
+  const startPayment = async (orderId: string): Promise<PaymentIntent> => {
+    return await $fetch<PaymentIntent>(`${getApiUrl()}/payments/orders/${orderId}/intent`, {
+      method: 'POST',
+    })
+  }
+
+  return {
+    lines: readonly(lines),
+    itemCount,
+    estimatedTotal,
+    isDrawerOpen: readonly(isDrawerOpen),
+    addItem,
+    updateQuantity,
+    removeItem,
+    clear,
+    openDrawer,
+    closeDrawer,
+    validate,
+    checkout,
+    startPayment,
+  }
+}
@@ -75,6 +75,7 @@ export function useHomeGrid() {
         images.value = data.map((img, index) => ({
           id: img.id,
           src: img.url,
+          variants: img.variants ?? undefined,
           alt: img.product?.name || `Product image ${index + 1}`,
           title: img.product?.name,
           description: img.product?.name ? `${img.product.name} - Handcrafted piece` : undefined,
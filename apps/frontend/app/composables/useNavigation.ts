@@ -36,6 +36,11 @@ export const useNavigation = () => {
       label: 'Blog',
       path: '/blog',
       ariaLabel: 'Read our blog articles'
+    },
+    {
+      label: 'Contact',
+      path: '/contact',
+      ariaLabel: 'Write to the atelier'
     }
   ])
 
@@ -15,6 +15,7 @@ import type { PageContent } from '~/types/page-content'
 
 export function usePageContent(page: string, section: string) {
   const config = useRuntimeConfig()
+  const { previewFetchOptions, previewKeySuffix } = usePreviewMode()
 
   const getApiUrl = (): string => {
     if (import.meta.client) {
@@ -26,7 +27,7 @@ export function usePageContent(page: string, section: string) {
     return config.public.apiUrl
   }
 
-  const stateKey = `page-content-${page}-${section}`
+  const stateKey = `page-content-${page}-${section}${previewKeySuffix.value}`
   const content = useState<PageContent | null>(`${stateKey}`, () => null)
   const loading = useState<boolean>(`${stateKey}-loading`, () => false)
   const error = useState<string | null>(`${stateKey}-error`, () => null)
@@ -43,6 +44,7 @@ export function usePageContent(page: string, section: string) {
 
       const data = await $fetch<PageContent>(url, {
         timeout: 10000,
+        ...previewFetchOptions.value,
       })
 
       content.value = data ?? null
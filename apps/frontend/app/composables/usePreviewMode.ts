@@ -0,0 +1,53 @@
+/**
+ * Preview Mode Composable
+ *
+ * Editors open unpublished content on the storefront with a signed link
+ * issued from the backoffice (`?preview=<token>`). In preview mode the token
+ * is forwarded to the API, which then includes drafts, and responses skip
+ * every cache so a draft never ends up served to visitors.
+ *
+ * @example
+ * const { isPreview, previewFetchOptions } = usePreviewMode()
+ * await $fetch(url, { ...previewFetchOptions.value })
+ */
+
+import type { LocationQuery } from 'vue-router'
+
+/**
+ * Preview token of a route query, if any
+ * Repeated or empty `preview` parameters are ignored
+ */
+export function getPreviewToken(query: LocationQuery): string | null {
+  const value = query.preview
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+export function usePreviewMode() {
+  const route = useRoute()
+
+  const previewToken = computed(() => getPreviewToken(route.query))
+
+  const isPreview = computed(() => previewToken.value !== null)
+
+  /**
+   * $fetch options of API calls: the token, and no HTTP cache
+   */
+  const previewFetchOptions = computed(() =>
+    previewToken.value
+      ? { query: { preview: previewToken.value }, cache: 'no-store' as const }
+      : {},
+  )
+
+  /**
+   * Suffix of useAsyncData / useState keys, so previews never share data
+   * with the published page
+   */
+  const previewKeySuffix = computed(() => (isPreview.value ? '-preview' : ''))
+
+  return {
+    previewToken,
+    isPreview,
+    previewFetchOptions,
+    previewKeySuffix,
+  }
+}
@@ -31,9 +31,37 @@
  * ```
  */
 
-import type { Product, ProductCategory, ProductsResponse } from '~/types/product'
+import type { ArchivedProduct, Product, ProductCategory, ProductsResponse } from '~/types/product'
 import type { Artwork } from '~/types/artwork'
 
+/**
+ * Storefront route prefix for each product category
+ */
+const CATEGORY_ROUTES: Record<ProductCategory, string> = {
+  'wall-hanging': '/wall-hanging',
+  rug: '/rugs',
+}
+
+/**
+ * Storefront listing of a category
+ *
+ * @param category - Product category
+ * @returns Listing path (e.g., "/rugs")
+ */
+export function getCategoryUrl(category: ProductCategory): string {
+  return CATEGORY_ROUTES[category]
+}
+
+/**
+ * Build the public detail page URL for a product
+ *
+ * @param product - Backend product entity
+ * @returns Detail page path (e.g., "/rugs/nordic-minimalism")
+ */
+export function getProductDetailUrl(product: Pick<Product, 'category' | 'slug'>): string {
+  return `${CATEGORY_ROUTES[product.category]}/${product.slug}`
+}
+
 /**
  * Pattern: Adapter Pattern
  * Purpose: Convert backend Product entity to frontend Artwork interface
@@ -41,15 +69,16 @@ import type { Artwork } from '~/types/artwork'
  * This adapter ensures backward compatibility with existing components
  * that expect the Artwork interface while fetching real data from the API.
  *
- * @param product - Backend product entity
+ * @param product - Backend product entity, without price for an archived piece
  * @returns Frontend Artwork interface
  */
-export function adaptProductToArtwork(product: Product): Artwork {
+export function adaptProductToArtwork(product: Product | ArchivedProduct): Artwork {
   return {
     id: product.id,
     title: product.name,
     // Use first product image URL or fallback to placeholder
     imageSrc: product.productImages?.[0]?.url || `/placeholder-${product.category}.jpg`,
+    imageVariants: product.productImages?.[0]?.variants ?? undefined,
     imageAlt: `${product.name} - Handcrafted ${product.category}`,
     dimensions: product.dimensions
       ? {
@@ -64,10 +93,10 @@ export function adaptProductToArtwork(product: Product): Artwork {
         },
     material: product.materials || 'Natural materials',
     description: product.description || '',
-    price: Number(product.price),
+    price: 'price' in product ? Number(product.price) : undefined,
     available: product.status === 'available' && product.stockQuantity > 0,
     category: product.category,
-    detailUrl: `/${product.category}/${product.id}`,
+    detailUrl: getProductDetailUrl(product),
   }
 }
 
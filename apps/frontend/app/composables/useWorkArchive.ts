@@ -0,0 +1,64 @@
+/**
+ * Work Archive Composable
+ *
+ * "Available only / all work" toggle of the collection pages and the sold
+ * pieces it shows. The choice is kept in the URL (?work=all) so the view can
+ * be shared; the archive is only fetched once all work is shown.
+ *
+ * Design Patterns Applied:
+ * - @pattern Facade Pattern
+ * - @category Structural
+ * - @purpose Bundles the URL state and the archive request of a category
+ *
+ * - @pattern Adapter Pattern
+ * - @category Structural
+ * - @purpose Converts the archived products to the Artwork interface
+ *
+ * @example
+ * ```typescript
+ * const { showAllWork, archivedArtworks, archiveLoading } = await useWorkArchive('rug')
+ * ```
+ */
+
+import type { ArchivedProduct, ProductCategory } from '~/types/product'
+import { adaptProductToArtwork } from '~/composables/useProducts'
+import { getApiUrl } from '~/utils/apiUrl'
+
+export async function useWorkArchive(category: ProductCategory) {
+  const route = useRoute()
+  const router = useRouter()
+
+  /**
+   * Whether the sold pieces are shown, read from and written to the URL
+   */
+  const showAllWork = computed({
+    get: () => route.query.work === 'all',
+    set: (value: boolean) => {
+      router.replace({ query: { ...route.query, work: value ? 'all' : undefined } })
+    },
+  })
+
+  const { data: archivedProducts, pending: archiveLoading } = await useAsyncData(
+    `${category}-archive`,
+    () => {
+      if (!showAllWork.value) {
+        return Promise.resolve([] as ArchivedProduct[])
+      }
+      return $fetch<ArchivedProduct[]>(`${getApiUrl()}/products/category/${category}/archive`)
+    },
+    { watch: [showAllWork] }
+  )
+
+  const archivedArtworks = computed(() => {
+    if (!archivedProducts.value || !Array.isArray(archivedProducts.value)) {
+      return []
+    }
+    return archivedProducts.value.map(adaptProductToArtwork)
+  })
+
+  return {
+    showAllWork,
+    archivedArtworks,
+    archiveLoading,
+  }
+}
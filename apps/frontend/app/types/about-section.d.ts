@@ -8,6 +8,8 @@
  * @module types/about-section
  */
 
+import type { ImageVariant } from './image'
+
 /**
  * About section entity as returned by the backend API
  *
@@ -27,6 +29,9 @@ export interface AboutSection {
   /** Full image URL */
   image: string
 
+  /** Responsive derivatives of the image (AVIF/WebP) */
+  imageVariants?: ImageVariant[] | null
+
   /** Image alt text for accessibility */
   imageAlt: string
 
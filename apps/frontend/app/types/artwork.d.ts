@@ -5,6 +5,8 @@
  * These types ensure consistency when displaying art pieces in cards, galleries, and detail pages.
  */
 
+import type { ImageVariant } from './image';
+
 /**
  * Represents the dimensions of an artwork piece
  */
@@ -50,6 +52,11 @@ export interface Artwork {
    */
   imageSrc: string;
 
+  /**
+   * Responsive derivatives of the image, used to build srcset
+   */
+  imageVariants?: ImageVariant[];
+
   /**
    * Alternative text for the image (accessibility)
    */
@@ -120,6 +127,12 @@ export interface ArtworkCardConfig {
    */
   imageAspectRatio?: string;
 
+  /**
+   * `sizes` attribute of the image, matching the grid it is rendered in
+   * @default '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw'
+   */
+  imageSizes?: string;
+
   /**
    * Enable hover effects
    * @default true
@@ -1,3 +1,6 @@
+import type { ImageVariant } from './image'
+import type { Product } from './product'
+
 export interface BlogTag {
   id: string
   name: string
@@ -7,6 +10,7 @@ export interface BlogTag {
 export interface BlogArticleImage {
   id: string
   url: string
+  variants?: ImageVariant[] | null
   altText: string | null
   isCover: boolean
   sortOrder: number
@@ -26,3 +30,34 @@ export interface BlogArticle {
   createdAt: string
   updatedAt: string
 }
+
+/**
+ * Suggestions shown after an article
+ */
+export interface BlogRelatedContent {
+  /** Published articles sharing the most tags, most recent first */
+  articles: BlogArticle[]
+  /** Products featured by the article, drafts excluded */
+  products: Product[]
+}
+
+/**
+ * API response for paginated published articles
+ */
+export interface BlogArticlesResponse {
+  data: BlogArticle[]
+  total: number
+  page: number
+  limit: number
+  totalPages: number
+}
+
+/**
+ * Query parameters for filtering published articles
+ */
+export interface BlogArticleQueryParams {
+  tag?: string
+  q?: string
+  page?: number
+  limit?: number
+}
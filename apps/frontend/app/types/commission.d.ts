@@ -0,0 +1,91 @@
+/**
+ * Commission Type Definitions
+ *
+ * Custom pieces requested from the storefront and followed on a status page.
+ * These types align with the NestJS backend Commissions module.
+ *
+ * @see apps/backend/src/modules/commissions
+ */
+
+import type { ImageVariant } from './image'
+
+/**
+ * Kind of piece requested
+ */
+export type CommissionCategory = 'wall-hanging' | 'rug'
+
+/**
+ * Stage of a commission
+ */
+export type CommissionStatus =
+  | 'requested'
+  | 'quoted'
+  | 'accepted'
+  | 'in_progress'
+  | 'delivered'
+  | 'declined'
+  | 'cancelled'
+
+/**
+ * Size of the piece wished for
+ */
+export interface CommissionDimensions {
+  width: number
+  height: number
+  unit: 'cm' | 'inch'
+}
+
+/**
+ * Fields of POST /api/commissions
+ * Sent as multipart form data along with up to 5 `images`; `dimensions` and
+ * `colorPalette` travel as JSON strings
+ */
+export interface CreateCommissionRequest {
+  name: string
+  email: string
+  phone?: string
+  category: CommissionCategory
+  dimensions: CommissionDimensions
+  colorPalette: string[]
+  description: string
+  /**
+   * Budget in euros
+   */
+  budget?: number
+  /**
+   * Honeypot: hidden from visitors, only bots fill it in
+   */
+  website?: string
+}
+
+/**
+ * Response of GET /api/commissions/status/:token
+ */
+export interface CommissionStatusView {
+  reference: string
+  status: CommissionStatus
+  customerName: string
+  category: CommissionCategory
+  dimensions: CommissionDimensions
+  colorPalette: string[]
+  description: string
+  /**
+   * Decimal amounts may come as strings
+   */
+  budget: number | string | null
+  quotePrice: number | string | null
+  quoteMessage: string | null
+  /**
+   * YYYY-MM-DD
+   */
+  estimatedDeliveryDate: string | null
+  quotedAt: string | null
+  acceptedAt: string | null
+  deliveredAt: string | null
+  createdAt: string
+  images: {
+    id: string
+    url: string
+    variants: ImageVariant[] | null
+  }[]
+}
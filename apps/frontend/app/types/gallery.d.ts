@@ -5,6 +5,8 @@
  * Provides type safety for image data and gallery configuration.
  */
 
+import type { ImageVariant } from './image'
+
 /**
  * Represents a single image in the gallery
  */
@@ -19,6 +21,11 @@ export interface GalleryImage {
    */
   src: string
 
+  /**
+   * Responsive derivatives of the image, used to build srcset
+   */
+  variants?: ImageVariant[]
+
   /**
    * Alternative text for accessibility and SEO
    */
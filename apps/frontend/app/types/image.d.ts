@@ -0,0 +1,32 @@
+/**
+ * Responsive Image Type Definitions
+ *
+ * Derivatives generated by the backend for every uploaded image.
+ *
+ * @see apps/backend/src/common/interfaces/image-variant.interface.ts
+ */
+
+/**
+ * Formats generated for responsive image derivatives
+ */
+export type ImageVariantFormat = 'avif' | 'webp'
+
+/**
+ * A resized, re-encoded copy of an uploaded image
+ */
+export interface ImageVariant {
+  /**
+   * Full URL to the derivative file
+   */
+  url: string
+
+  /**
+   * Width in pixels, used as the srcset `w` descriptor
+   */
+  width: number
+
+  /**
+   * Encoding of the derivative
+   */
+  format: ImageVariantFormat
+}
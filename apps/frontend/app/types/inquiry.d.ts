@@ -0,0 +1,32 @@
+/**
+ * Inquiry Type Definitions
+ *
+ * Messages sent from the contact form.
+ * These types align with the NestJS backend Inquiries module.
+ *
+ * @see apps/backend/src/modules/inquiries
+ */
+
+/**
+ * Plain message, or request for a custom piece
+ */
+export type InquiryType = 'contact' | 'commission'
+
+/**
+ * Body of POST /api/inquiries
+ */
+export interface CreateInquiryRequest {
+  type: InquiryType
+  name: string
+  email: string
+  phone?: string
+  message: string
+  /**
+   * Piece the message is about
+   */
+  productId?: string
+  /**
+   * Honeypot: hidden from visitors, only bots fill it in
+   */
+  website?: string
+}
@@ -0,0 +1,31 @@
+/**
+ * Newsletter Type Definitions
+ *
+ * Double opt-in sign-up from the footer.
+ * These types align with the NestJS backend Newsletter module.
+ *
+ * @see apps/backend/src/modules/newsletter
+ */
+
+/**
+ * Body of POST /api/newsletter/subscribe
+ */
+export interface SubscribeRequest {
+  email: string
+  /**
+   * Form the sign-up comes from, e.g. "footer"
+   */
+  source?: string
+  /**
+   * Honeypot: hidden from visitors, only bots fill it in
+   */
+  website?: string
+}
+
+/**
+ * Response of POST /api/newsletter/confirm
+ */
+export interface NewsletterConfirmation {
+  email: string
+  status: 'confirmed'
+}
@@ -0,0 +1,144 @@
+/**
+ * Cart & Order Type Definitions
+ *
+ * Type-safe definitions for the storefront cart and the orders API.
+ * These types align with the NestJS backend Orders module.
+ *
+ * @see apps/backend/src/modules/orders
+ */
+
+import type { ProductCategory } from './product'
+
+/**
+ * A line in the client-side cart (persisted in localStorage)
+ *
+ * Prices stored here are only a display estimate; the backend
+ * re-prices every line from the catalog before checkout.
+ */
+export interface CartLine {
+  productId: string
+  name: string
+  slug: string
+  category: ProductCategory
+  imageUrl: string | null
+  unitPrice: number
+  quantity: number
+  /**
+   * Units in stock when the line was last validated
+   */
+  availableQuantity: number
+}
+
+/**
+ * Reason a cart line was dropped or reduced by the backend
+ */
+export type CartIssueReason = 'not_found' | 'unavailable' | 'insufficient_stock'
+
+export interface CartIssue {
+  productId: string
+  reason: CartIssueReason
+  requestedQuantity: number
+  availableQuantity: number
+}
+
+/**
+ * Server-validated cart returned by POST /orders/cart
+ */
+export interface PricedCart {
+  items: (CartLine & { lineTotal: number })[]
+  issues: CartIssue[]
+  total: number
+  currency: string
+}
+
+/**
+ * Customer contact details collected at checkout
+ */
+export interface CheckoutCustomer {
+  email: string
+  firstName: string
+  lastName: string
+  phone?: string
+}
+
+/**
+ * Shipping address collected at checkout
+ */
+export interface ShippingAddress {
+  line1: string
+  line2?: string
+  postalCode: string
+  city: string
+  /**
+   * ISO 3166-1 alpha-2 country code
+   */
+  country: string
+}
+
+/**
+ * Order status enum matching backend
+ */
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'shipped' | 'refunded' | 'cancelled'
+
+export interface OrderItem {
+  id: string
+  productId: string | null
+  productName: string
+  productSlug: string
+  unitPrice: number | string
+  quantity: number
+  lineTotal: number | string
+}
+
+/**
+ * Order as returned by POST /orders/checkout
+ */
+export interface Order {
+  id: string
+  orderNumber: string
+  status: OrderStatus
+  customerEmail: string
+  customerFirstName: string
+  customerLastName: string
+  customerPhone?: string
+  shippingAddress: ShippingAddress
+  notes?: string
+  total: number | string // Backend returns decimal as string
+  currency: string
+  reservedUntil: string | null
+  items: OrderItem[]
+  createdAt: string
+}
+
+/**
+ * Payment status enum matching backend
+ */
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'refunded'
+
+/**
+ * Bank details returned by the manual (bank transfer) provider
+ */
+export interface BankTransferInstructions {
+  type: 'bank_transfer'
+  accountHolder: string
+  iban: string
+  bic: string
+  /**
+   * Reference the customer must put on the transfer (the order number)
+   */
+  transferReference: string
+  amount: string
+  currency: string
+}
+
+/**
+ * Payment intent returned by POST /payments/orders/:orderId/intent
+ */
+export interface PaymentIntent {
+  paymentId: string
+  provider: string
+  status: PaymentStatus
+  amount: number
+  currency: string
+  nextAction?: BankTransferInstructions | { type: string; [key: string]: string }
+}
@@ -1,3 +1,5 @@
+import type { ImageVariant } from './image'
+
 export interface PageContent {
   id: string
   page: string
@@ -5,6 +7,7 @@ export interface PageContent {
   title: string | null
   content: string | null
   image: string | null
+  imageVariants?: ImageVariant[] | null
   imageAlt: string | null
   metadata: Record<string, unknown> | null
   isPublished: boolean
@@ -7,6 +7,8 @@
  * @see apps/backend/src/entities/product.entity.ts
  */
 
+import type { ImageVariant } from './image'
+
 /**
  * Product dimensions as returned by the API
  */
@@ -56,6 +58,12 @@ export interface ProductImage {
    */
   url: string
 
+  /**
+   * Responsive derivatives (AVIF/WebP), null for images uploaded before
+   * derivatives were generated
+   */
+  variants?: ImageVariant[] | null
+
   /**
    * Whether this image should be displayed on the home page grid
    */
@@ -96,6 +104,11 @@ export interface Product {
    */
   name: string
 
+  /**
+   * URL-friendly slug used for the public detail page
+   */
+  slug: string
+
   /**
    * Product description
    */
@@ -121,6 +134,11 @@ export interface Product {
    */
   stockQuantity: number
 
+  /**
+   * Whether the piece stays on the archive once sold
+   */
+  showInArchive: boolean
+
   /**
    * Product images with metadata
    */
@@ -147,6 +165,11 @@ export interface Product {
   updatedAt: string
 }
 
+/**
+ * Sold piece listed on the archive; the API leaves out its price
+ */
+export type ArchivedProduct = Omit<Product, 'price'>
+
 /**
  * API response for paginated products
  */
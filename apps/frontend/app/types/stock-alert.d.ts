@@ -0,0 +1,33 @@
+/**
+ * Stock Alert Type Definitions
+ *
+ * "Notify me" requests on a sold piece or on a whole category.
+ * These types align with the NestJS backend StockAlerts module.
+ *
+ * @see apps/backend/src/modules/stock-alerts
+ */
+
+/**
+ * Category that can be watched for new pieces
+ */
+export type StockAlertCategory = 'wall-hanging' | 'rug'
+
+/**
+ * Body of POST /api/stock-alerts
+ * Exactly one of productId and category is expected
+ */
+export interface CreateStockAlertRequest {
+  email: string
+  /**
+   * Sold or out-of-stock piece to watch
+   */
+  productId?: string
+  /**
+   * Category to watch for new pieces
+   */
+  category?: StockAlertCategory
+  /**
+   * Honeypot: hidden from visitors, only bots fill it in
+   */
+  website?: string
+}
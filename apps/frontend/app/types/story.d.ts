@@ -11,6 +11,8 @@
  * @module types/story
  */
 
+import type { ImageVariant } from './image'
+
 /**
  * Image position in story section
  * Used for alternating layout patterns
@@ -57,6 +59,11 @@ export interface Story {
      */
     src: string
 
+    /**
+     * Optional responsive derivatives, used to build srcset
+     */
+    variants?: ImageVariant[]
+
     /**
      * Alternative text for accessibility
      * Required for WCAG compliance
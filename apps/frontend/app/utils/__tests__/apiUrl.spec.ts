@@ -0,0 +1,32 @@
+/**
+ * Tests for the API URL helper
+ *
+ * Testing Strategy:
+ * - Client context (see vitest.config.ts): local backend in development,
+ *   runtime config in production
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { getApiUrl } from '../apiUrl'
+
+describe('getApiUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('should reach the local backend from the browser in development', () => {
+    vi.stubEnv('NODE_ENV', 'development')
+
+    expect(getApiUrl()).toBe('http://localhost:4000/api')
+  })
+
+  it('should use the runtime config in production', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubGlobal('useRuntimeConfig', () => ({
+      public: { apiUrl: 'https://api.atelier-kaisla.com/api' },
+    }))
+
+    expect(getApiUrl()).toBe('https://api.atelier-kaisla.com/api')
+  })
+})
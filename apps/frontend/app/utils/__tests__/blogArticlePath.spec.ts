@@ -0,0 +1,34 @@
+/**
+ * Tests for blog article path helpers
+ *
+ * Testing Strategy:
+ * - Pure Functions: storefront paths and API endpoints of articles
+ * - Legacy links: UUID parameters resolve through the ID endpoint
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getBlogArticleEndpoint, getBlogArticlePath } from '../blogArticlePath'
+
+describe('getBlogArticlePath - Pure Function', () => {
+  it('should build the slug URL of an article', () => {
+    expect(getBlogArticlePath('the-art-of-wall-hanging')).toBe('/blog/the-art-of-wall-hanging')
+  })
+
+  it('should encode unexpected characters', () => {
+    expect(getBlogArticlePath('a/b')).toBe('/blog/a%2Fb')
+  })
+})
+
+describe('getBlogArticleEndpoint - Pure Function', () => {
+  it('should look slugs up by slug', () => {
+    expect(getBlogArticleEndpoint('the-art-of-wall-hanging')).toBe(
+      '/blog/slug/the-art-of-wall-hanging'
+    )
+  })
+
+  it('should look legacy UUID links up by ID', () => {
+    expect(getBlogArticleEndpoint('550E8400-e29b-41d4-a716-446655440000')).toBe(
+      '/blog/550E8400-e29b-41d4-a716-446655440000'
+    )
+  })
+})
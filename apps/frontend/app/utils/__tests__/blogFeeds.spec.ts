@@ -0,0 +1,38 @@
+/**
+ * Tests for blog feed helpers
+ *
+ * Testing Strategy:
+ * - Pure Functions: autodiscovery links built from the API base URL
+ */
+
+import { describe, it, expect } from 'vitest'
+import { getBlogFeedLinks } from '../blogFeeds'
+
+describe('getBlogFeedLinks - Pure Function', () => {
+  it('should advertise the RSS, Atom and JSON feeds', () => {
+    expect(getBlogFeedLinks('https://api.atelier-kaisla.com/api')).toEqual([
+      expect.objectContaining({
+        type: 'application/rss+xml',
+        href: 'https://api.atelier-kaisla.com/api/blog/feed.xml',
+      }),
+      expect.objectContaining({
+        type: 'application/atom+xml',
+        href: 'https://api.atelier-kaisla.com/api/blog/atom.xml',
+      }),
+      expect.objectContaining({
+        type: 'application/feed+json',
+        href: 'https://api.atelier-kaisla.com/api/blog/feed.json',
+      }),
+    ])
+  })
+
+  it('should ignore a trailing slash on the API URL', () => {
+    expect(getBlogFeedLinks('http://localhost:4000/api/')[0]?.href).toBe(
+      'http://localhost:4000/api/blog/feed.xml'
+    )
+  })
+
+  it('should mark every link as an alternate of the page', () => {
+    expect(getBlogFeedLinks('/api').every((link) => link.rel === 'alternate')).toBe(true)
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Tests for blog listing helpers
+ *
+ * Testing Strategy:
+ * - Pure Functions: listing state read from and written to the route query
+ * - Pagination: page windows with gaps on long listings
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildListingQuery,
+  getPageFromQuery,
+  getPaginationItems,
+  getSearchFromQuery,
+} from '../blogListing'
+
+describe('getPageFromQuery - Pure Function', () => {
+  it('should read the page number', () => {
+    expect(getPageFromQuery({ page: '3' })).toBe(3)
+  })
+
+  it('should fall back to the first page', () => {
+    expect(getPageFromQuery({})).toBe(1)
+    expect(getPageFromQuery({ page: '0' })).toBe(1)
+    expect(getPageFromQuery({ page: '2.5' })).toBe(1)
+    expect(getPageFromQuery({ page: 'abc' })).toBe(1)
+    expect(getPageFromQuery({ page: ['2', '3'] })).toBe(1)
+  })
+})
+
+describe('getSearchFromQuery - Pure Function', () => {
+  it('should return the trimmed search terms', () => {
+    expect(getSearchFromQuery({ q: '  tissage ' })).toBe('tissage')
+  })
+
+  it('should return an empty string without a search', () => {
+    expect(getSearchFromQuery({})).toBe('')
+    expect(getSearchFromQuery({ q: ['a', 'b'] })).toBe('')
+  })
+})
+
+describe('buildListingQuery - Pure Function', () => {
+  it('should keep the search and page', () => {
+    expect(buildListingQuery('laine', 2)).toEqual({ q: 'laine', page: '2' })
+  })
+
+  it('should leave out the defaults', () => {
+    expect(buildListingQuery('', 1)).toEqual({})
+  })
+})
+
+describe('getPaginationItems - Pure Function', () => {
+  it('should list every page of a short listing', () => {
+    expect(getPaginationItems(1, 1)).toEqual([1])
+    expect(getPaginationItems(2, 4)).toEqual([1, 2, 3, 4])
+  })
+
+  it('should replace skipped ranges with gaps', () => {
+    expect(getPaginationItems(6, 12)).toEqual([1, 'gap', 5, 6, 7, 'gap', 12])
+    expect(getPaginationItems(1, 12)).toEqual([1, 2, 'gap', 12])
+    expect(getPaginationItems(12, 12)).toEqual([1, 'gap', 11, 12])
+  })
+
+  it('should not hide a single page behind a gap', () => {
+    expect(getPaginationItems(4, 7)).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('should return nothing without pages', () => {
+    expect(getPaginationItems(1, 0)).toEqual([])
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * Tests for responsive image helpers
+ *
+ * Testing Strategy:
+ * - Pure Functions: srcset strings and <source> entries built from variants
+ * - Fallback: images without derivatives produce no sources
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildSrcset, getImageSources } from '../responsiveImage'
+import type { ImageVariant } from '~/types/image'
+
+const variants: ImageVariant[] = [
+  { url: 'https://api.test/uploads/products/a-640w.webp', width: 640, format: 'webp' },
+  { url: 'https://api.test/uploads/products/a-640w.avif', width: 640, format: 'avif' },
+  { url: 'https://api.test/uploads/products/a-320w.webp', width: 320, format: 'webp' },
+  { url: 'https://api.test/uploads/products/a-320w.avif', width: 320, format: 'avif' },
+]
+
+describe('buildSrcset - Pure Function', () => {
+  it('should list variants of one format by ascending width', () => {
+    expect(buildSrcset(variants, 'webp')).toBe(
+      'https://api.test/uploads/products/a-320w.webp 320w, https://api.test/uploads/products/a-640w.webp 640w'
+    )
+  })
+
+  it('should return an empty string when no variant has the format', () => {
+    expect(buildSrcset(variants.filter(v => v.format === 'webp'), 'avif')).toBe('')
+  })
+
+  it('should not reorder the input array', () => {
+    const input = [...variants]
+    buildSrcset(input, 'avif')
+    expect(input).toEqual(variants)
+  })
+})
+
+describe('getImageSources - Pure Function', () => {
+  it('should return AVIF before WebP', () => {
+    expect(getImageSources(variants).map(source => source.type)).toEqual(['image/avif', 'image/webp'])
+  })
+
+  it('should skip formats without variants', () => {
+    const webpOnly = variants.filter(v => v.format === 'webp')
+    expect(getImageSources(webpOnly)).toEqual([
+      { type: 'image/webp', srcset: buildSrcset(webpOnly, 'webp') },
+    ])
+  })
+
+  it('should return no sources for images without derivatives', () => {
+    expect(getImageSources(undefined)).toEqual([])
+    expect(getImageSources(null)).toEqual([])
+    expect(getImageSources([])).toEqual([])
+  })
+})
@@ -0,0 +1,19 @@
+/**
+ * API URL Helper
+ *
+ * Base URL of the backend API for the current execution context: the
+ * browser reaches the local backend directly in development, everything
+ * else (server rendering, production) uses the runtime config.
+ *
+ * @module utils/apiUrl
+ */
+
+/**
+ * Get API URL based on environment and execution context
+ */
+export function getApiUrl(): string {
+  if (import.meta.client && process.env.NODE_ENV !== 'production') {
+    return 'http://localhost:4000/api'
+  }
+  return useRuntimeConfig().public.apiUrl
+}
@@ -0,0 +1,27 @@
+/**
+ * Blog Article Path Helpers
+ *
+ * Articles are addressed by slug on the storefront. Links from before slug
+ * URLs used the article UUID: they are still resolved, then redirected to
+ * the slug URL like any former slug.
+ *
+ * @module utils/blogArticlePath
+ */
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Storefront path of an article
+ */
+export const getBlogArticlePath = (slug: string): string =>
+  `/blog/${encodeURIComponent(slug)}`
+
+/**
+ * API endpoint resolving the `/blog/:slug` route parameter, relative to the
+ * API base URL
+ */
+export const getBlogArticleEndpoint = (param: string): string =>
+  UUID_PATTERN.test(param)
+    ? `/blog/${param}`
+    : `/blog/slug/${encodeURIComponent(param)}`
@@ -0,0 +1,45 @@
+/**
+ * Blog Feed Helpers
+ *
+ * The API publishes the journal as RSS, Atom and JSON Feed. Every page
+ * advertises them with `<link rel="alternate">` so browsers and feed readers
+ * find them from any URL of the site.
+ *
+ * @module utils/blogFeeds
+ */
+
+export interface BlogFeedLink {
+  rel: 'alternate'
+  type: string
+  title: string
+  href: string
+}
+
+/**
+ * Autodiscovery links of the blog feeds
+ * @param apiUrl - Public API base URL (runtime config `apiUrl`)
+ */
+export const getBlogFeedLinks = (apiUrl: string): BlogFeedLink[] => {
+  const base = `${apiUrl.replace(/\/+$/, '')}/blog`
+
+  return [
+    {
+      rel: 'alternate',
+      type: 'application/rss+xml',
+      title: 'Journal Atelier Kaisla (RSS)',
+      href: `${base}/feed.xml`,
+    },
+    {
+      rel: 'alternate',
+      type: 'application/atom+xml',
+      title: 'Journal Atelier Kaisla (Atom)',
+      href: `${base}/atom.xml`,
+    },
+    {
+      rel: 'alternate',
+      type: 'application/feed+json',
+      title: 'Journal Atelier Kaisla (JSON Feed)',
+      href: `${base}/feed.json`,
+    },
+  ]
+}
@@ -0,0 +1,89 @@
+/**
+ * Blog Listing Helpers
+ *
+ * The journal keeps its search and page in the URL (`?q=…&page=…`), so
+ * results can be shared and pages crawled. These pure functions read that
+ * state back from the route query and lay out the pagination.
+ *
+ * @module utils/blogListing
+ */
+
+import type { LocationQuery, LocationQueryRaw } from 'vue-router'
+
+/**
+ * Articles per page of the journal
+ */
+export const BLOG_PAGE_SIZE = 12
+
+/**
+ * Entry of the pagination: a page number, or a gap between page numbers
+ */
+export type PaginationItem = number | 'gap'
+
+/**
+ * Page of the route query, 1 when missing or invalid
+ */
+export const getPageFromQuery = (query: LocationQuery): number => {
+  const page = Number(query.page)
+  return Number.isInteger(page) && page > 1 ? page : 1
+}
+
+/**
+ * Search terms of the route query, trimmed; empty when missing
+ */
+export const getSearchFromQuery = (query: LocationQuery): string => {
+  const value = query.q
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Route query of a listing state
+ * The first page and an empty search are left out, for canonical URLs
+ */
+export const buildListingQuery = (search: string, page: number): LocationQueryRaw => ({
+  ...(search ? { q: search } : {}),
+  ...(page > 1 ? { page: String(page) } : {}),
+})
+
+/**
+ * Pages to show in the pagination
+ * Always the first and last pages, and the pages around the current one;
+ * skipped ranges become gaps, unless they would hide a single page
+ *
+ * @example getPaginationItems(6, 12) // [1, 'gap', 5, 6, 7, 'gap', 12]
+ */
+export const getPaginationItems = (
+  current: number,
+  total: number,
+  siblings = 1,
+): PaginationItem[] => {
+  if (total < 1) {
+    return []
+  }
+
+  const items: PaginationItem[] = [1]
+  const start = Math.max(2, current - siblings)
+  const end = Math.min(total - 1, current + siblings)
+
+  if (start === 3) {
+    items.push(2)
+  } else if (start > 3) {
+    items.push('gap')
+  }
+
+  for (let page = start; page <= end; page++) {
+    items.push(page)
+  }
+
+  if (end === total - 2) {
+    items.push(total - 1)
+  } else if (end < total - 2) {
+    items.push('gap')
+  }
+
+  if (total > 1) {
+    items.push(total)
+  }
+
+  return items
+}
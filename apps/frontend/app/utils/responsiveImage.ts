@@ -0,0 +1,75 @@
+/**
+ * Responsive Image Helpers
+ *
+ * Builds `<picture>` sources from the AVIF/WebP derivatives generated by the
+ * backend. The original upload always stays the `<img>` fallback, so images
+ * without derivatives render exactly as before.
+ *
+ * @module utils/responsiveImage
+ */
+
+import type { ImageVariant, ImageVariantFormat } from '~/types/image'
+
+/**
+ * `<source>` element data for one image format
+ */
+export interface ImageSource {
+  type: `image/${ImageVariantFormat}`
+  srcset: string
+}
+
+/**
+ * Formats in the order browsers should try them (most efficient first)
+ */
+const SOURCE_FORMATS: ImageVariantFormat[] = ['avif', 'webp']
+
+/**
+ * `sizes` attributes matching the layouts images are rendered in.
+ * Breakpoints follow $breakpoint-tablet (768px) and $breakpoint-desktop (1024px).
+ */
+export const IMAGE_SIZES = {
+  /** Home grid: 1 column mobile, 2 tablet, 4 × 220px desktop */
+  grid: '(min-width: 1024px) 220px, (min-width: 768px) 50vw, 100vw',
+  /** Artwork and blog cards: 1 column mobile, 2 tablet, 3 desktop */
+  card: '(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw',
+  /** Product detail main image: 3/5 of the page on desktop */
+  detail: '(min-width: 1024px) 60vw, 100vw',
+  /** Product detail thumbnails: 5 per row under the main image */
+  thumbnail: '(min-width: 1024px) 150px, 20vw',
+  /** Story sections: image beside the text from tablet up */
+  story: '(min-width: 768px) 50vw, 100vw',
+  /** Article cover: capped at $container-content-width (800px) */
+  content: '(min-width: 800px) 800px, 100vw',
+  /** Full viewport (lightbox) */
+  full: '100vw',
+} as const
+
+/**
+ * Build a srcset string (`url 320w, url 640w`) for one format
+ * Pure function - variants are sorted by ascending width
+ */
+export function buildSrcset(
+  variants: readonly ImageVariant[],
+  format: ImageVariantFormat,
+): string {
+  return variants
+    .filter((variant) => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ')
+}
+
+/**
+ * `<source>` entries for every format with at least one derivative
+ * Returns an empty list when the image has no derivatives
+ */
+export function getImageSources(
+  variants?: readonly ImageVariant[] | null,
+): ImageSource[] {
+  if (!variants?.length) return []
+
+  return SOURCE_FORMATS.map((format) => ({
+    type: `image/${format}` as const,
+    srcset: buildSrcset(variants, format),
+  })).filter((source) => source.srcset !== '')
+}